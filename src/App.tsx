@@ -17,6 +17,7 @@ import AddFamilyMemberPage from './pages/AddFamilyMemberPage';
 import UploadPhotosPage from './pages/UploadPhotosPage';
 import JoinFamilyTreePage from './pages/JoinFamilyTreePage';
 import FamilyTreePage from './pages/FamilyTreePage';
+import DuplicateReportPage from './pages/DuplicateReportPage';
 import EventsPage from './pages/EventsPage';
 import ComponentDemo from './pages/ComponentDemo';
 import './App.scss';
@@ -125,6 +126,14 @@ function App(): React.ReactElement {
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/family-tree/duplicates" 
+              element={
+                <ProtectedRoute>
+                  <DuplicateReportPage />
+                </ProtectedRoute>
+              } 
+            />
             <Route 
               path="/events" 
               element={
@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { AddRelativeModalProps, AddRelativeSubmissionData } from '../types/components';
+import { AddRelativeModalProps, AddRelativeSubmissionData, Lineage } from '../types/components';
 import FamilyService from '../services/FamilyService';
+import DuplicateWarning from './DuplicateWarning';
+import DateInput from './DateInput';
+import { findDuplicateCandidates } from '../utils/duplicateDetection';
 import './AddRelativeModal.scss';
 
 // Form data interface for the modal
@@ -9,12 +12,22 @@ interface AddRelativeFormData {
   firstName: string;
   lastName: string;
   userId: string;
-  birthYear: string;
+  // Stored date form; may be only a year or approximate
+  dateOfBirth: string;
   status: 'living' | 'deceased';
+  lineage: Lineage;
   tag: string;
   photo: File | null;
 }
 
+const LINEAGE_OPTIONS: { value: Lineage; label: string }[] = [
+  { value: 'biological', label: 'Biological' },
+  { value: 'adoptive', label: 'Adoptive' },
+  { value: 'step', label: 'Step' },
+  { value: 'foster', label: 'Foster' },
+  { value: 'guardian', label: 'Guardian' },
+];
+
 // Mock existing user interface
 interface ExistingUser {
   id: string;
@@ -31,6 +44,9 @@ const AddRelativeModal: React.FC<AddRelativeModalProps> = ({
   onSubmit,
   relationshipType = null,
   relatedToMember = null,
+  members = [],
+  relationships = [],
+  onLinkExisting,
 }) => {
   const userName = relatedToMember 
     ? `${relatedToMember.firstName || ''} ${relatedToMember.lastName || ''}`.trim() || 'User'
@@ -55,8 +71,9 @@ const AddRelativeModal: React.FC<AddRelativeModalProps> = ({
     firstName: '',
     lastName: '',
     userId: '',
-    birthYear: '',
+    dateOfBirth: '',
     status: 'living',
+    lineage: 'biological',
     tag: '',
     photo: null,
   });
@@ -118,7 +135,7 @@ const AddRelativeModal: React.FC<AddRelativeModalProps> = ({
     setFormData({ ...formData, relationship });
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>): void => {
     const { name, value } = e.target;
     setFormData({ ...formData, [name]: value });
   };
@@ -171,6 +188,28 @@ const AddRelativeModal: React.FC<AddRelativeModalProps> = ({
     }
   };
 
+  // Lineage only applies to parent/child relationships
+  const hasLineage = formData.relationship === 'parent' || formData.relationship === 'child';
+
+  // Members who may already be the person being entered
+  const duplicateMatches = mode === 'new' && onLinkExisting
+    ? findDuplicateCandidates(
+      { firstName: formData.firstName, lastName: formData.lastName, dateOfBirth: formData.dateOfBirth },
+      members,
+      relationships,
+      relatedToMember ? { relatedTo: relatedToMember.id, relationshipType: formData.relationship } : null
+    )
+    : [];
+
+  const handleLinkExisting = (memberId: string): void => {
+    onLinkExisting?.(memberId, {
+      relationshipType: formData.relationship,
+      specificLabel: formData.tag || null,
+      lineage: hasLineage ? formData.lineage : null,
+    });
+    handleCancel();
+  };
+
   const handleSubmit = (): void => {
     if (mode === 'existing' && selectedUser) {
       // Handle adding existing user
@@ -183,9 +222,10 @@ const AddRelativeModal: React.FC<AddRelativeModalProps> = ({
         onSubmit({
           firstName: formData.firstName,
           lastName: formData.lastName,
-          dateOfBirth: formData.birthYear ? `${formData.birthYear}-01-01` : null,
+          dateOfBirth: formData.dateOfBirth || null,
           status: formData.status,
           specificLabel: formData.tag || null,
+          lineage: hasLineage ? formData.lineage : null,
           photoUrl: formData.photo ? URL.createObjectURL(formData.photo) : null,
         });
       } else {
@@ -200,8 +240,9 @@ const AddRelativeModal: React.FC<AddRelativeModalProps> = ({
       firstName: '',
       lastName: '',
       userId: '',
-      birthYear: '',
+      dateOfBirth: '',
       status: 'living',
+      lineage: 'biological',
       tag: '',
       photo: null,
     });
@@ -514,21 +555,20 @@ const AddRelativeModal: React.FC<AddRelativeModalProps> = ({
                 </p>
               </div>
 
-              {/* Birth Year and Status */}
+              {/* Date of Birth */}
+              <div className="form-group">
+                <DateInput
+                  mode="genealogical"
+                  id="dateOfBirth"
+                  name="dateOfBirth"
+                  label="Date of Birth"
+                  value={formData.dateOfBirth}
+                  onChange={(dateOfBirth) => setFormData(prev => ({ ...prev, dateOfBirth }))}
+                />
+              </div>
+
+              {/* Status */}
               <div className="form-row">
-                <div className="form-group">
-                  <label className="form-label" htmlFor="birthYear">Birth Year (Approx.)</label>
-                  <input
-                    type="text"
-                    id="birthYear"
-                    name="birthYear"
-                    className="form-input"
-                    placeholder="YYYY"
-                    value={formData.birthYear}
-                    onChange={handleInputChange}
-                    maxLength={4}
-                  />
-                </div>
                 <div className="form-group">
                   <label className="form-label">Status</label>
                   <div className="status-buttons">
@@ -550,6 +590,28 @@ const AddRelativeModal: React.FC<AddRelativeModalProps> = ({
                 </div>
               </div>
 
+              <DuplicateWarning matches={duplicateMatches} onLinkExisting={handleLinkExisting} />
+
+              {/* Lineage */}
+              {hasLineage && (
+                <div className="form-group">
+                  <label className="form-label" htmlFor="lineage">
+                    {formData.relationship === 'parent' ? 'Parent type' : 'Child type'}
+                  </label>
+                  <select
+                    id="lineage"
+                    name="lineage"
+                    className="form-input"
+                    value={formData.lineage}
+                    onChange={handleInputChange}
+                  >
+                    {LINEAGE_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               {/* Tag/Label */}
               <div className="form-group">
                 <label className="form-label" htmlFor="tag">Tag / Label (Optional)</label>
@@ -219,4 +219,179 @@ describe('ConnectionLines Property Tests', () => {
       { numRuns: 100 }
     );
   });
+
+  // Feature: family-tree, multiple partnerships
+  it('should draw a separate couple connector for each partnership', () => {
+    const partnershipsArb = fc.array(
+      fc.record({
+        status: fc.constantFrom('married', 'divorced', 'widowed', 'partner'),
+        childCount: fc.integer({ min: 0, max: 3 }),
+      }),
+      { minLength: 1, maxLength: 3 }
+    );
+
+    fc.assert(
+      fc.property(
+        partnershipsArb,
+        fc.integer({ min: 0, max: 2 }),
+        (partnershipSpecs, singleParentChildCount) => {
+          const member = createMember('member-1', 'John', 'Smith', 'male');
+          const allChildren = [];
+
+          const partnerships = partnershipSpecs.map((spec, index) => {
+            const children = [];
+            for (let i = 0; i < spec.childCount; i++) {
+              children.push({ member: createMember(`child-${index}-${i}`, `Child${i}`, 'Smith', 'male') });
+            }
+            allChildren.push(...children);
+            return {
+              partner: { member: createMember(`partner-${index}`, `Partner${index}`, 'Jones', 'female') },
+              status: spec.status,
+              children,
+            };
+          });
+          for (let i = 0; i < singleParentChildCount; i++) {
+            allChildren.push({ member: createMember(`solo-child-${i}`, `Solo${i}`, 'Smith', 'male') });
+          }
+
+          const node = {
+            member,
+            parents: [],
+            children: allChildren,
+            spouse: partnerships[partnerships.length - 1].partner,
+            partnerships,
+          };
+
+          const { container } = render(<ConnectionLines node={node} zoomLevel={100} />);
+          const lines = Array.from(container.querySelectorAll('line'));
+
+          // Property: one connector per partnership, dashed for divorces
+          const connectors = lines.filter(line => line.getAttribute('class') === 'partnership-line');
+          expect(connectors.map(line => line.getAttribute('data-status'))).toEqual(
+            partnershipSpecs.map(spec => spec.status)
+          );
+          connectors.forEach(line => {
+            expect(line.getAttribute('y1')).toBe('50%');
+            expect(line.getAttribute('y2')).toBe('50%');
+            expect(line.style.strokeDasharray !== '').toBe(line.getAttribute('data-status') === 'divorced' || line.getAttribute('data-status') === 'partner');
+          });
+
+          // Property: one drop line per group of children and one vertical line per child
+          const groupCount = partnershipSpecs.filter(spec => spec.childCount > 0).length + (singleParentChildCount > 0 ? 1 : 0);
+          const dropLines = lines.filter(line =>
+            line.getAttribute('y1') === '100%' && line.getAttribute('y2') === 'calc(100% + 40px)'
+          );
+          expect(dropLines.length).toBe(groupCount);
+          const childVerticalLines = lines.filter(line =>
+            line.getAttribute('y1') === 'calc(100% + 40px)' && line.getAttribute('y2') === 'calc(100% + 60px)'
+          );
+          expect(childVerticalLines.length).toBe(allChildren.length);
+
+          container.remove();
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  // Feature: family-tree, lineage qualifier
+  it('should dash parent-child lines for any non-biological lineage', () => {
+    const lineageArb = fc.constantFrom('biological', 'adoptive', 'step', 'foster', 'guardian');
+
+    fc.assert(
+      fc.property(
+        lineageArb,
+        fc.array(lineageArb, { minLength: 1, maxLength: 4 }),
+        (parentLineage, childLineages) => {
+          const parent = createMember('parent-1', 'Mary', 'Smith', 'female');
+          const member = createMember('member-1', 'John', 'Smith', 'male');
+          const children = childLineages.map((lineage, index) => ({
+            member: createMember(`child-${index}`, `Child${index}`, 'Smith', 'male'),
+            parentLineage: { 'member-1': lineage },
+          }));
+
+          const node = {
+            member,
+            parents: [{ member: parent }],
+            parentLineage: { 'parent-1': parentLineage },
+            children,
+            spouse: null,
+          };
+
+          const { container } = render(<ConnectionLines node={node} zoomLevel={100} />);
+          const lineageLines = Array.from(container.querySelectorAll<SVGLineElement>('line.lineage-line'));
+
+          // Property: the line to the parent and every line to a child carries its lineage
+          expect(lineageLines.map(line => line.getAttribute('data-lineage'))).toEqual([parentLineage, ...childLineages]);
+
+          // Property: only biological links are drawn solid
+          lineageLines.forEach(line => {
+            expect(line.style.strokeDasharray === '').toBe(line.getAttribute('data-lineage') === 'biological');
+          });
+
+          container.remove();
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  // Feature: family-tree, trace-path highlighting
+  it('should highlight only the segments linking consecutive members of a traced path', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 2 }),
+        fc.integer({ min: 1, max: 4 }),
+        fc.nat(),
+        fc.nat(),
+        (parentCount, childCount, parentPick, childPick) => {
+          const member = createMember('member-1', 'John', 'Smith', 'male');
+          const parents = Array.from({ length: parentCount }, (_, i) => ({
+            member: createMember(`parent-${i}`, `Parent${i}`, 'Smith', i === 0 ? 'male' : 'female'),
+          }));
+          const children = Array.from({ length: childCount }, (_, i) => ({
+            member: createMember(`child-${i}`, `Child${i}`, 'Smith', 'male'),
+          }));
+          const node = { member, parents, children, spouse: null };
+          const parentId = `parent-${parentPick % parentCount}`;
+          const childId = `child-${childPick % childCount}`;
+
+          const { container } = render(
+            <ConnectionLines node={node} zoomLevel={100} tracedPath={[parentId, 'member-1', childId]} />
+          );
+          const lines = Array.from(container.querySelectorAll<SVGLineElement>('line'));
+          const traced = lines.filter(line => line.getAttribute('data-traced') === 'true');
+
+          // Property: the route up to the parent and down to the child is highlighted
+          expect(traced.some(line => line.getAttribute('y1') === '0' && line.getAttribute('y2') === '40')).toBe(true);
+          const childVerticals = traced.filter(line => line.getAttribute('y2') === 'calc(100% + 60px)');
+          expect(childVerticals.length).toBe(1);
+          expect(childVerticals[0].getAttribute('x1')).toBe(`${(100 / (childCount + 1)) * ((childPick % childCount) + 1)}%`);
+
+          // Property: every other segment is dimmed
+          lines.filter(line => !traced.includes(line)).forEach(line => {
+            expect(line.style.opacity).toBe('0.3');
+          });
+
+          container.remove();
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should neither highlight nor dim segments without a traced path', () => {
+    const node = {
+      member: createMember('member-1', 'John', 'Smith', 'male'),
+      parents: [{ member: createMember('parent-0', 'Parent', 'Smith', 'male') }],
+      children: [{ member: createMember('child-0', 'Child', 'Smith', 'male') }],
+      spouse: null,
+    };
+
+    const { container } = render(<ConnectionLines node={node} zoomLevel={100} tracedPath={[]} />);
+    container.querySelectorAll<SVGLineElement>('line').forEach(line => {
+      expect(line.hasAttribute('data-traced')).toBe(false);
+      expect(line.style.opacity).toBe('');
+    });
+  });
 });
@@ -1,4 +1,5 @@
 import React from 'react';
+import { arrangePartnerships } from '../utils/treeLayout';
 import './ConnectionLines.scss';
 
 interface Member {
@@ -7,23 +8,81 @@ interface Member {
   lastName: string;
 }
 
+interface Partnership {
+  partner: TreeNode;
+  status?: 'married' | 'divorced' | 'widowed' | 'partner';
+  children?: TreeNode[];
+}
+
+type Lineage = 'biological' | 'adoptive' | 'step' | 'foster' | 'guardian';
+
 interface TreeNode {
   member: Member;
   parents?: TreeNode[];
-  spouse?: TreeNode;
+  spouse?: TreeNode | null;
+  partnerships?: Partnership[];
+  parentLineage?: Record<string, Lineage>;
   children?: TreeNode[];
 }
 
+// Dash pattern of the couple connector for each partnership status
+const PARTNERSHIP_DASHARRAY: Record<string, string | undefined> = {
+  married: undefined,
+  partner: '2 6',
+  divorced: '8 6',
+  widowed: undefined,
+};
+
+// Dash pattern of parent-child lines for each lineage
+const LINEAGE_DASHARRAY: Record<Lineage, string | undefined> = {
+  biological: undefined,
+  adoptive: '6 4',
+  step: '2 4',
+  foster: '6 3 2 3',
+  guardian: '1 5',
+};
+
+/**
+ * Lineage a parent-child line stands for
+ * A line drawn for several parents is non-biological as soon as one of the links is
+ * @param child - Child tree node
+ * @param parents - Parents the line connects the child to
+ * @returns The first non-biological lineage, or biological
+ */
+function getLineage(child: TreeNode, parents: TreeNode[]): Lineage {
+  const lineages = parents.map(parent => child.parentLineage?.[parent.member.id] || 'biological');
+  return lineages.find(lineage => lineage !== 'biological') || 'biological';
+}
+
+/**
+ * Links between consecutive members of a traced path
+ * @param tracedPath - Member IDs along the path
+ * @returns Keys of the links, in both directions
+ */
+function getTracedLinks(tracedPath: string[]): Set<string> {
+  const links = new Set<string>();
+  tracedPath.slice(1).forEach((id, index) => {
+    links.add(`${tracedPath[index]}|${id}`);
+    links.add(`${id}|${tracedPath[index]}`);
+  });
+  return links;
+}
+
 interface ConnectionLinesProps {
   node?: TreeNode | null;
   zoomLevel?: number;
+  tracedPath?: string[];
 }
 
 /**
  * ConnectionLines component draws SVG lines connecting family members
  * Handles parent-child, spouse, and sibling relationships
+ * Each partnership gets its own couple connector, and children hang from the connector
+ * of the partnership they belong to
+ * Adoptive, step, foster and guardian links are drawn dashed
+ * While a path is traced, segments linking consecutive path members are highlighted and the rest dimmed
  */
-const ConnectionLines: React.FC<ConnectionLinesProps> = ({ node, zoomLevel = 100 }) => {
+const ConnectionLines: React.FC<ConnectionLinesProps> = ({ node, zoomLevel = 100, tracedPath = [] }) => {
   if (!node || !node.member) {
     return null;
   }
@@ -40,6 +99,26 @@ const ConnectionLines: React.FC<ConnectionLinesProps> = ({ node, zoomLevel = 100
     fill: 'none',
   };
 
+  const tracedLinks = getTracedLinks(tracedPath);
+  const isTraced = (member: TreeNode, relatives: TreeNode[]): boolean =>
+    relatives.some(relative => tracedLinks.has(`${member.member.id}|${relative.member.id}`));
+
+  // Highlight or dim a segment while a path is traced
+  const traceProps = (traced: boolean, style: React.CSSProperties = lineStyle) => {
+    if (tracedPath.length === 0) {
+      return { style };
+    }
+    return traced
+      ? { 'data-traced': true, style: { ...style, stroke: '#0d7377', strokeWidth: 3 * scale } }
+      : { style: { ...style, opacity: 0.3 } };
+  };
+
+  const lineageLineProps = (lineage: Lineage, traced = false) => ({
+    className: 'lineage-line',
+    'data-lineage': lineage,
+    ...traceProps(traced, { ...lineStyle, strokeDasharray: LINEAGE_DASHARRAY[lineage] }),
+  });
+
   const renderLines = (): JSX.Element[] => {
     const lines: JSX.Element[] = [];
 
@@ -54,7 +133,7 @@ const ConnectionLines: React.FC<ConnectionLinesProps> = ({ node, zoomLevel = 100
           y1="0"
           x2="50%"
           y2="40"
-          style={lineStyle}
+          {...lineageLineProps(getLineage(node, parents), isTraced(node, parents))}
         />
       );
 
@@ -67,12 +146,103 @@ const ConnectionLines: React.FC<ConnectionLinesProps> = ({ node, zoomLevel = 100
             y1="0"
             x2="70%"
             y2="0"
-            style={lineStyle}
+            {...traceProps(isTraced(node, parents) || isTraced(parents[0], [parents[1]]))}
           />
         );
       }
     }
 
+    const partnerships = node.partnerships || [];
+
+    if (partnerships.length > 0) {
+      // Member row: earlier partners, the member, then the most recent partner
+      const { leftPartnerships, rightPartnership, childGroups } = arrangePartnerships(children || [], partnerships);
+      const slotCount = partnerships.length + 1;
+      const memberSlot = leftPartnerships.length;
+      const slotCenter = (slot: number): number => ((slot + 0.5) / slotCount) * 100;
+      // Connectors stop short of the cards, matching the single spouse line (40% to 60%)
+      const inset = 20 / slotCount;
+
+      const connectorCenter = new Map<Partnership, number>();
+      [...leftPartnerships, rightPartnership as Partnership].forEach((partnership, index) => {
+        const partnerSlot = index < leftPartnerships.length ? index : memberSlot + 1;
+        const [leftSlot, rightSlot] = partnerSlot < memberSlot ? [partnerSlot, memberSlot] : [memberSlot, partnerSlot];
+        const x1 = ((leftSlot + 1) / slotCount) * 100 - inset;
+        const x2 = (rightSlot / slotCount) * 100 + inset;
+        connectorCenter.set(partnership, (x1 + x2) / 2);
+
+        lines.push(
+          <line
+            key={`partnership-${partnership.partner.member.id}`}
+            className="partnership-line"
+            data-status={partnership.status || 'married'}
+            x1={`${x1}%`}
+            y1="50%"
+            x2={`${x2}%`}
+            y2="50%"
+            {...traceProps(
+              isTraced(node, [partnership.partner]),
+              { ...lineStyle, strokeDasharray: PARTNERSHIP_DASHARRAY[partnership.status || 'married'] }
+            )}
+          />
+        );
+      });
+
+      // Children are spaced evenly in group order; each group drops from its own connector
+      const childCount = childGroups.reduce((count, group) => count + group.children.length, 0);
+      const childSpacing = 100 / (childCount + 1);
+      let childIndex = 0;
+
+      childGroups.forEach(group => {
+        const dropX = group.partnership ? connectorCenter.get(group.partnership) as number : slotCenter(memberSlot);
+        const childXs = group.children.map(() => childSpacing * ++childIndex);
+        const groupKey = group.partnership ? group.partnership.partner.member.id : 'member';
+        const groupParents = group.partnership ? [node, group.partnership.partner] : [node];
+        const groupTraced = group.children.some(child => isTraced(child, groupParents));
+
+        lines.push(
+          <line
+            key={`children-drop-${groupKey}`}
+            x1={`${dropX}%`}
+            y1="100%"
+            x2={`${dropX}%`}
+            y2="calc(100% + 40px)"
+            {...traceProps(groupTraced)}
+          />
+        );
+
+        const barLeft = Math.min(dropX, ...childXs);
+        const barRight = Math.max(dropX, ...childXs);
+        if (barLeft !== barRight) {
+          lines.push(
+            <line
+              key={`children-horizontal-${groupKey}`}
+              x1={`${barLeft}%`}
+              y1="calc(100% + 40px)"
+              x2={`${barRight}%`}
+              y2="calc(100% + 40px)"
+              {...traceProps(groupTraced)}
+            />
+          );
+        }
+
+        group.children.forEach((child, index) => {
+          lines.push(
+            <line
+              key={`child-vertical-${child.member.id}`}
+              x1={`${childXs[index]}%`}
+              y1="calc(100% + 40px)"
+              x2={`${childXs[index]}%`}
+              y2="calc(100% + 60px)"
+              {...lineageLineProps(getLineage(child, groupParents), isTraced(child, groupParents))}
+            />
+          );
+        });
+      });
+
+      return lines;
+    }
+
     // Spouse horizontal line
     if (spouse) {
       lines.push(
@@ -82,13 +252,14 @@ const ConnectionLines: React.FC<ConnectionLinesProps> = ({ node, zoomLevel = 100
           y1="50%"
           x2="60%"
           y2="50%"
-          style={lineStyle}
+          {...traceProps(isTraced(node, [spouse]))}
         />
       );
     }
 
     // Children lines
     if (children && children.length > 0) {
+      const childrenTraced = children.some(child => isTraced(child, [node]));
       // Draw vertical line from current member down to children level
       lines.push(
         <line
@@ -97,7 +268,7 @@ const ConnectionLines: React.FC<ConnectionLinesProps> = ({ node, zoomLevel = 100
           y1="100%"
           x2="50%"
           y2="calc(100% + 40px)"
-          style={lineStyle}
+          {...traceProps(childrenTraced)}
         />
       );
 
@@ -114,7 +285,7 @@ const ConnectionLines: React.FC<ConnectionLinesProps> = ({ node, zoomLevel = 100
             y1="calc(100% + 40px)"
             x2={`${lastChildX}%`}
             y2="calc(100% + 40px)"
-            style={lineStyle}
+            {...traceProps(childrenTraced)}
           />
         );
 
@@ -128,7 +299,7 @@ const ConnectionLines: React.FC<ConnectionLinesProps> = ({ node, zoomLevel = 100
               y1="calc(100% + 40px)"
               x2={`${childX}%`}
               y2="calc(100% + 60px)"
-              style={lineStyle}
+              {...lineageLineProps(getLineage(child, [node]), isTraced(child, [node]))}
             />
           );
         });
@@ -141,7 +312,7 @@ const ConnectionLines: React.FC<ConnectionLinesProps> = ({ node, zoomLevel = 100
             y1="calc(100% + 40px)"
             x2="50%"
             y2="calc(100% + 60px)"
-            style={lineStyle}
+            {...lineageLineProps(getLineage(children[0], [node]), childrenTraced)}
           />
         );
       }
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import CreateEventModal from './CreateEventModal';
+import authReducer from '../redux/slices/authSlice';
+import userReducer from '../redux/slices/userSlice';
+import familyReducer from '../redux/slices/familySlice';
+import memoryReducer from '../redux/slices/memorySlice';
+import eventsReducer, { selectEvents } from '../redux/slices/eventsSlice';
+import dashboardReducer from '../redux/slices/dashboardSlice';
+import treeReducer from '../redux/slices/treeSlice';
+import syncReducer from '../redux/slices/syncSlice';
+
+const ICS = [
+  'BEGIN:VCALENDAR',
+  'BEGIN:VEVENT',
+  'DTSTART;VALUE=DATE:20251225',
+  'SUMMARY:Christmas at Grandma\'s',
+  'RRULE:FREQ=YEARLY',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'DTSTART:20250801T160000Z',
+  'SUMMARY:Beach Trip',
+  'CATEGORIES:Trip',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'DTSTART:20250801T160000Z',
+  'SUMMARY:Standup',
+  'RRULE:FREQ=HOURLY',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+const createStore = () => configureStore({
+  reducer: {
+    auth: authReducer,
+    user: userReducer,
+    family: familyReducer,
+    memory: memoryReducer,
+    events: eventsReducer,
+    dashboard: dashboardReducer,
+    tree: treeReducer,
+    sync: syncReducer,
+  },
+});
+
+const chooseFile = (contents: string, name = 'family.ics'): void => {
+  const file = new File([contents], name, { type: 'text/calendar' });
+  // jsdom's File can't be read as text
+  Object.defineProperty(file, 'text', { value: () => Promise.resolve(contents) });
+  fireEvent.change(screen.getByLabelText('Import events from an .ics file'), { target: { files: [file] } });
+};
+
+describe('CreateEventModal', () => {
+  it('should preview the events in an .ics file and create them together', async () => {
+    const store = createStore();
+    const onClose = vi.fn();
+    render(
+      <Provider store={store}>
+        <CreateEventModal isOpen onClose={onClose} />
+      </Provider>
+    );
+
+    chooseFile(ICS);
+    const preview = await screen.findByRole('region', { name: 'Events to import' });
+
+    expect(preview.textContent).toContain('2 events from family.ics');
+    expect(preview.textContent).toContain("Christmas at Grandma's");
+    expect(preview.textContent).toContain('Dec 25, 2025 · All Day · Every year');
+    expect(screen.getByRole('list', { name: 'Skipped events' }).textContent)
+      .toBe('Standup was skipped: repeats in a way that is not supported');
+    // The event details come from the file
+    expect(screen.queryByLabelText('Event Name')).toBeNull();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Reunion' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Import 2 Events' }));
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    expect(selectEvents(store.getState()).map(event => [event.title, event.category, event.recurrence])).toEqual([
+      ['Beach Trip', 'trip', null],
+      ["Christmas at Grandma's", 'reunion', 'FREQ=YEARLY'],
+    ]);
+  });
+
+  it('should say when a file has no events and go back to the form from a preview', async () => {
+    render(
+      <Provider store={createStore()}>
+        <CreateEventModal isOpen onClose={vi.fn()} />
+      </Provider>
+    );
+
+    chooseFile('not a calendar', 'notes.txt');
+    expect(await screen.findByText('No events were found in this file. Is it an iCalendar (.ics) file?')).toBeTruthy();
+
+    chooseFile(ICS);
+    fireEvent.click(await screen.findByRole('button', { name: 'Choose Another File' }));
+    expect(screen.getByLabelText('Event Name')).toBeTruthy();
+  });
+});
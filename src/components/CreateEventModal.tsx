@@ -1,35 +1,79 @@
 import React, { useState } from 'react';
 import InviteExternalGuestsModal from './InviteExternalGuestsModal';
-import { CreateEventModalProps } from '../types/components';
+import FormError from './FormError';
+import { createEvent, importEvents, selectEventsSaving } from '../redux/slices/eventsSlice';
+import { selectFamilyMembers } from '../redux/slices/familySlice';
+import { useAppDispatch, useAppSelector } from '../redux/store';
+import { formatEventTime, toEventDate } from '../utils/eventDates';
+import { IcsImportResult, parseIcs } from '../utils/icalendar';
+import { describeRecurrence, normalizeRecurrenceRule } from '../utils/recurrence';
+import { CreateEventModalProps, EventCategory } from '../types/components';
 import './CreateEventModal.scss';
 
+// Most relatives listed under the guest search at once
+const MAX_GUEST_RESULTS = 6;
+
 // Form data interface for the modal
 interface CreateEventFormData {
   eventName: string;
-  category: 'celebration' | 'reunion' | 'dinner' | 'trip' | 'memorial';
+  category: EventCategory;
   date: string;
   time: string;
   location: string;
+  repeat: 'none' | 'yearly' | 'monthly' | 'custom';
+  // RRULE typed in when repeating on a custom schedule
+  customRule: string;
   guestType: 'all' | 'specific';
   selectedGuests: string[];
 }
 
+// Events read from an .ics file and the file they came from
+interface IcsImport extends IcsImportResult {
+  fileName: string;
+}
+
 // Category option interface
 interface CategoryOption {
   id: CreateEventFormData['category'];
   label: string;
 }
 
+const REPEAT_OPTIONS: Array<{ id: CreateEventFormData['repeat']; label: string }> = [
+  { id: 'none', label: 'Does not repeat' },
+  { id: 'yearly', label: 'Yearly' },
+  { id: 'monthly', label: 'Monthly' },
+  { id: 'custom', label: 'Custom' },
+];
+
+const REPEAT_RULES: Record<'yearly' | 'monthly', string> = {
+  yearly: 'FREQ=YEARLY',
+  monthly: 'FREQ=MONTHLY',
+};
+
+const EMPTY_FORM: CreateEventFormData = {
+  eventName: '',
+  category: 'celebration',
+  date: '',
+  time: '',
+  location: '',
+  repeat: 'none',
+  customRule: '',
+  guestType: 'specific',
+  selectedGuests: [],
+};
+
+/**
+ * CreateEventModal plans a new family event, or creates several at once from an .ics file
+ * exported by another calendar; imported events get the category and guests picked here.
+ */
 const CreateEventModal: React.FC<CreateEventModalProps> = ({ isOpen, onClose }) => {
-  const [formData, setFormData] = useState<CreateEventFormData>({
-    eventName: '',
-    category: 'celebration',
-    date: '',
-    time: '',
-    location: '',
-    guestType: 'specific',
-    selectedGuests: [],
-  });
+  const dispatch = useAppDispatch();
+  const familyMembers = useAppSelector(selectFamilyMembers);
+  const isSaving = useAppSelector(selectEventsSaving);
+  const [formData, setFormData] = useState<CreateEventFormData>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  // Events read from an .ics file, shown in place of the event details until imported
+  const [icsImport, setIcsImport] = useState<IcsImport | null>(null);
 
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [isExternalGuestsModalOpen, setIsExternalGuestsModalOpen] = useState<boolean>(false);
@@ -53,29 +97,162 @@ const CreateEventModal: React.FC<CreateEventModalProps> = ({ isOpen, onClose })
     setFormData({ ...formData, category: categoryId });
   };
 
+  const handleRepeatChange = (repeat: CreateEventFormData['repeat']): void => {
+    setFormData({ ...formData, repeat });
+  };
+
   const handleGuestTypeChange = (type: CreateEventFormData['guestType']): void => {
     setFormData({ ...formData, guestType: type });
   };
 
-  const handleSubmit = (): void => {
-    console.log('Event data:', formData);
-    onClose();
+  const handleGuestToggle = (memberId: string): void => {
+    const selectedGuests = formData.selectedGuests.includes(memberId)
+      ? formData.selectedGuests.filter(id => id !== memberId)
+      : [...formData.selectedGuests, memberId];
+    setFormData({ ...formData, selectedGuests });
   };
 
-  const handleCancel = (): void => {
-    setFormData({
-      eventName: '',
-      category: 'celebration',
-      date: '',
-      time: '',
-      location: '',
-      guestType: 'specific',
-      selectedGuests: [],
-    });
+  const resetForm = (): void => {
+    setFormData(EMPTY_FORM);
+    setFormError(null);
     setSearchQuery('');
+    setIcsImport(null);
+  };
+
+  const getAttendees = (): string[] =>
+    formData.guestType === 'all' ? familyMembers.map(member => member.id) : formData.selectedGuests;
+
+  const handleIcsFileChange = async (e: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = e.target.files?.[0];
+    // Cleared so the same file can be chosen again
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = parseIcs(await file.text());
+      if (result.events.length === 0 && result.skipped.length === 0) {
+        setFormError('No events were found in this file. Is it an iCalendar (.ics) file?');
+        return;
+      }
+      setFormError(null);
+      setIcsImport({ ...result, fileName: file.name });
+    } catch (err) {
+      console.error('Failed to read iCalendar file:', err);
+      setFormError('Failed to read the file. Please try again.');
+    }
+  };
+
+  const handleImport = async (): Promise<void> => {
+    if (!icsImport) return;
+
+    setFormError(null);
+    try {
+      await dispatch(importEvents({
+        events: icsImport.events.map(eventData => ({
+          ...eventData,
+          category: eventData.category || formData.category,
+          attendees: getAttendees(),
+        })),
+      })).unwrap();
+      resetForm();
+      onClose();
+    } catch (err) {
+      setFormError((err as string) || 'Failed to import events. Please try again.');
+    }
+  };
+
+  const handleSubmit = async (): Promise<void> => {
+    const title = formData.eventName.trim();
+    if (!title) {
+      setFormError('Please give the event a name.');
+      return;
+    }
+    const schedule = toEventDate(formData.date, formData.time);
+    if (!schedule) {
+      setFormError('Please choose a date for the event.');
+      return;
+    }
+    let recurrence: string | null = null;
+    if (formData.repeat === 'custom') {
+      recurrence = normalizeRecurrenceRule(formData.customRule);
+      if (!recurrence) {
+        setFormError('Please enter a repeat rule like FREQ=WEEKLY;BYDAY=SA.');
+        return;
+      }
+    } else if (formData.repeat !== 'none') {
+      recurrence = REPEAT_RULES[formData.repeat];
+    }
+
+    setFormError(null);
+    try {
+      await dispatch(createEvent({
+        title,
+        category: formData.category,
+        ...schedule,
+        location: formData.location.trim() || undefined,
+        recurrence,
+        attendees: getAttendees(),
+      })).unwrap();
+      resetForm();
+      onClose();
+    } catch (err) {
+      setFormError((err as string) || 'Failed to create event. Please try again.');
+    }
+  };
+
+  const handleCancel = (): void => {
+    resetForm();
     onClose();
   };
 
+  const renderImportPreview = (result: IcsImport): React.ReactElement => (
+    <section className="import-preview" aria-label="Events to import">
+      <div className="import-preview-header">
+        <span className="import-preview-title">
+          {result.events.length} {result.events.length === 1 ? 'event' : 'events'} from {result.fileName}
+        </span>
+        <button type="button" className="import-preview-clear" onClick={() => setIcsImport(null)}>
+          Choose Another File
+        </button>
+      </div>
+      {result.events.length > 0 && (
+        <ul className="import-event-list">
+          {result.events.map((eventData, index) => (
+            <li key={index} className="import-event">
+              <span className="import-event-title">{eventData.title}</span>
+              <span className="import-event-date">
+                {new Date(eventData.eventDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                {' · '}
+                {formatEventTime({ eventDate: eventData.eventDate, isAllDay: !!eventData.isAllDay })}
+                {eventData.recurrence && ` · ${describeRecurrence(eventData.recurrence)}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {result.skipped.length > 0 && (
+        <ul className="import-skipped-list" aria-label="Skipped events">
+          {result.skipped.map((skipped, index) => (
+            <li key={index} className="import-skipped">
+              <strong>{skipped.title}</strong> was skipped: {skipped.reason.toLowerCase()}
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="repeat-rule-hint">
+        Events with no matching category are added under the category chosen below.
+      </p>
+    </section>
+  );
+
+  const query = searchQuery.trim().toLowerCase();
+  const guestResults = query
+    ? familyMembers
+      .filter(member => `${member.firstName} ${member.lastName}`.toLowerCase().includes(query))
+      .slice(0, MAX_GUEST_RESULTS)
+    : [];
+  const selectedGuests = familyMembers.filter(member => formData.selectedGuests.includes(member.id));
+
   return (
     <>
       <InviteExternalGuestsModal 
@@ -97,19 +274,37 @@ const CreateEventModal: React.FC<CreateEventModalProps> = ({ isOpen, onClose })
         </div>
 
         <div className="create-event-body">
+          {icsImport ? renderImportPreview(icsImport) : (
+            <label className="import-ics" htmlFor="event-ics-file">
+              <input
+                type="file"
+                id="event-ics-file"
+                accept=".ics,text/calendar"
+                onChange={handleIcsFileChange}
+                className="import-ics-input"
+              />
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" aria-hidden="true">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+              </svg>
+              Import events from an .ics file
+            </label>
+          )}
+
           {/* Event Name */}
-          <div className="form-group">
-            <label className="form-label" htmlFor="eventName">Event Name</label>
-            <input
-              type="text"
-              id="eventName"
-              name="eventName"
-              className="form-input"
-              placeholder="e.g. Grandma's 80th Birthday"
-              value={formData.eventName}
-              onChange={handleInputChange}
-            />
-          </div>
+          {!icsImport && (
+            <div className="form-group">
+              <label className="form-label" htmlFor="eventName">Event Name</label>
+              <input
+                type="text"
+                id="eventName"
+                name="eventName"
+                className="form-input"
+                placeholder="e.g. Grandma's 80th Birthday"
+                value={formData.eventName}
+                onChange={handleInputChange}
+              />
+            </div>
+          )}
 
           {/* Category */}
           <div className="form-group">
@@ -128,63 +323,103 @@ const CreateEventModal: React.FC<CreateEventModalProps> = ({ isOpen, onClose })
             </div>
           </div>
 
-          {/* Date and Time */}
-          <div className="form-row">
-            <div className="form-group">
-              <label className="form-label" htmlFor="date">Date</label>
-              <div className="input-with-icon">
-                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor">
-                  <rect x="3" y="4" width="18" height="18" rx="2" strokeWidth="2"/>
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M16 2v4M8 2v4M3 10h18"/>
-                </svg>
-                <input
-                  type="date"
-                  id="date"
-                  name="date"
-                  className="form-input"
-                  value={formData.date}
-                  onChange={handleInputChange}
-                />
+          {/* Date, time, repeat and location */}
+          {!icsImport && (
+            <>
+              {/* Date and Time */}
+              <div className="form-row">
+                <div className="form-group">
+                  <label className="form-label" htmlFor="date">Date</label>
+                  <div className="input-with-icon">
+                    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+                      <rect x="3" y="4" width="18" height="18" rx="2" strokeWidth="2"/>
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M16 2v4M8 2v4M3 10h18"/>
+                    </svg>
+                    <input
+                      type="date"
+                      id="date"
+                      name="date"
+                      className="form-input"
+                      value={formData.date}
+                      onChange={handleInputChange}
+                    />
+                  </div>
+                </div>
+                <div className="form-group">
+                  <label className="form-label" htmlFor="time">Time</label>
+                  <div className="input-with-icon">
+                    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+                      <circle cx="12" cy="12" r="10" strokeWidth="2"/>
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6v6l4 2"/>
+                    </svg>
+                    <input
+                      type="time"
+                      id="time"
+                      name="time"
+                      className="form-input"
+                      value={formData.time}
+                      onChange={handleInputChange}
+                    />
+                  </div>
+                </div>
               </div>
-            </div>
-            <div className="form-group">
-              <label className="form-label" htmlFor="time">Time</label>
-              <div className="input-with-icon">
-                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor">
-                  <circle cx="12" cy="12" r="10" strokeWidth="2"/>
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6v6l4 2"/>
-                </svg>
-                <input
-                  type="time"
-                  id="time"
-                  name="time"
-                  className="form-input"
-                  value={formData.time}
-                  onChange={handleInputChange}
-                />
+
+              {/* Repeat */}
+              <div className="form-group">
+                <label className="form-label">Repeats</label>
+                <div className="category-buttons">
+                  {REPEAT_OPTIONS.map((option) => (
+                    <button
+                      key={option.id}
+                      type="button"
+                      className={`category-btn ${formData.repeat === option.id ? 'active' : ''}`}
+                      aria-pressed={formData.repeat === option.id}
+                      onClick={() => handleRepeatChange(option.id)}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                {formData.repeat === 'custom' && (
+                  <>
+                    <input
+                      type="text"
+                      id="customRule"
+                      name="customRule"
+                      className="form-input repeat-rule-input"
+                      placeholder="e.g. FREQ=MONTHLY;BYDAY=2SU"
+                      value={formData.customRule}
+                      onChange={handleInputChange}
+                      aria-label="Repeat rule"
+                    />
+                    <p className="repeat-rule-hint">
+                      {describeRecurrence(formData.customRule) || 'An iCalendar RRULE, such as FREQ=WEEKLY;INTERVAL=2;BYDAY=SA'}
+                    </p>
+                  </>
+                )}
               </div>
-            </div>
-          </div>
 
-          {/* Location */}
-          <div className="form-group">
-            <label className="form-label" htmlFor="location">Location</label>
-            <div className="input-with-icon">
-              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z"/>
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 11a3 3 0 11-6 0 3 3 0 016 0z"/>
-              </svg>
-              <input
-                type="text"
-                id="location"
-                name="location"
-                className="form-input"
-                placeholder="Add a location or link"
-                value={formData.location}
-                onChange={handleInputChange}
-              />
-            </div>
-          </div>
+              {/* Location */}
+              <div className="form-group">
+                <label className="form-label" htmlFor="location">Location</label>
+                <div className="input-with-icon">
+                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z"/>
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 11a3 3 0 11-6 0 3 3 0 016 0z"/>
+                  </svg>
+                  <input
+                    type="text"
+                    id="location"
+                    name="location"
+                    className="form-input"
+                    placeholder="Add a location or link"
+                    value={formData.location}
+                    onChange={handleInputChange}
+                  />
+                </div>
+              </div>
+            </>
+          )}
 
           {/* Guests */}
           <div className="form-group">
@@ -202,7 +437,9 @@ const CreateEventModal: React.FC<CreateEventModalProps> = ({ isOpen, onClose })
               </div>
               <div className="guest-option-content">
                 <div className="guest-option-title">All Family Members</div>
-                <div className="guest-option-subtitle">Invite everyone in this tree (24 people)</div>
+                <div className="guest-option-subtitle">
+                  Invite everyone in this tree ({familyMembers.length} {familyMembers.length === 1 ? 'person' : 'people'})
+                </div>
               </div>
             </div>
 
@@ -235,10 +472,45 @@ const CreateEventModal: React.FC<CreateEventModalProps> = ({ isOpen, onClose })
                   placeholder="Search relatives to invite..."
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
+                  aria-label="Search relatives to invite"
                 />
               </div>
             )}
 
+            {formData.guestType === 'specific' && guestResults.length > 0 && (
+              <div className="guest-results">
+                {guestResults.map(member => (
+                  <button
+                    key={member.id}
+                    type="button"
+                    className={`guest-result ${formData.selectedGuests.includes(member.id) ? 'selected' : ''}`}
+                    aria-pressed={formData.selectedGuests.includes(member.id)}
+                    onClick={() => handleGuestToggle(member.id)}
+                  >
+                    {member.firstName} {member.lastName}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {formData.guestType === 'specific' && selectedGuests.length > 0 && (
+              <ul className="guest-chips" aria-label="Invited relatives">
+                {selectedGuests.map(member => (
+                  <li key={member.id} className="guest-chip">
+                    {member.firstName} {member.lastName}
+                    <button
+                      type="button"
+                      className="guest-chip-remove"
+                      onClick={() => handleGuestToggle(member.id)}
+                      aria-label={`Remove ${member.firstName} ${member.lastName}`}
+                    >
+                      ×
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
             {/* Invite from other trees link */}
             <button 
               className="invite-other-trees"
@@ -252,13 +524,26 @@ const CreateEventModal: React.FC<CreateEventModalProps> = ({ isOpen, onClose })
           </div>
         </div>
 
+        <FormError message={formError || undefined} className="create-event-error" />
+
         <div className="create-event-footer">
           <button type="button" className="btn-cancel" onClick={handleCancel}>
             Cancel
           </button>
-          <button type="button" className="btn-create" onClick={handleSubmit}>
-            Create Event
-          </button>
+          {icsImport ? (
+            <button
+              type="button"
+              className="btn-create"
+              onClick={handleImport}
+              disabled={isSaving || icsImport.events.length === 0}
+            >
+              {isSaving ? 'Importing...' : `Import ${icsImport.events.length} ${icsImport.events.length === 1 ? 'Event' : 'Events'}`}
+            </button>
+          ) : (
+            <button type="button" className="btn-create" onClick={handleSubmit} disabled={isSaving}>
+              {isSaving ? 'Creating...' : 'Create Event'}
+            </button>
+          )}
         </div>
       </div>
       </div>
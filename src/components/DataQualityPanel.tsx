@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { DataQualityIssue } from '../utils/dataQuality';
+import './DataQualityPanel.scss';
+
+interface DataQualityPanelProps {
+  issues: DataQualityIssue[];
+  // Selects the member an issue is about
+  onIssueClick: (memberId: string) => void;
+}
+
+/**
+ * DataQualityPanel component - Lists dates and relationships in the tree that cannot be
+ * right, errors first, and selects the member an issue is about when it is clicked
+ */
+const DataQualityPanel: React.FC<DataQualityPanelProps> = ({ issues, onIssueClick }) => {
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+
+  const getSummary = (): string => {
+    if (issues.length === 0) return 'No issues found';
+    const parts = [
+      errorCount > 0 && `${errorCount} ${errorCount === 1 ? 'error' : 'errors'}`,
+      warningCount > 0 && `${warningCount} ${warningCount === 1 ? 'warning' : 'warnings'}`
+    ].filter(Boolean);
+    return parts.join(', ');
+  };
+
+  return (
+    <section className="data-quality-panel" aria-labelledby="data-quality-heading">
+      <button
+        className="data-quality-toggle"
+        onClick={() => setIsExpanded(expanded => !expanded)}
+        aria-expanded={isExpanded}
+        aria-controls="data-quality-issues"
+        disabled={issues.length === 0}
+      >
+        <span id="data-quality-heading" className="data-quality-heading">Data quality</span>
+        <span className={`data-quality-summary${errorCount > 0 ? ' error' : warningCount > 0 ? ' warning' : ''}`}>
+          {getSummary()}
+        </span>
+      </button>
+
+      {isExpanded && issues.length > 0 && (
+        <ul id="data-quality-issues" className="data-quality-issues">
+          {issues.map(issue => (
+            <li key={issue.id} className={`data-quality-issue ${issue.severity}`}>
+              <button
+                className="data-quality-issue-button"
+                onClick={() => onIssueClick(issue.memberIds[0])}
+              >
+                <span className="data-quality-severity">
+                  {issue.severity === 'error' ? 'Error' : 'Warning'}
+                </span>
+                <span className="data-quality-message">{issue.message}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default DataQualityPanel;
@@ -1,5 +1,5 @@
-import { describe, it, expect } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import * as fc from 'fast-check';
 import DateInput from './DateInput';
@@ -132,3 +132,37 @@ describe('DateInput Property Tests', () => {
     );
   });
 });
+
+describe('DateInput genealogical mode', () => {
+  it('should report year-only, qualified and Julian dates in their stored form', () => {
+    const onChange = vi.fn();
+    render(<DateInput mode="genealogical" label="Date of Birth" value="" onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText('Date of Birth'), { target: { value: '1950' } });
+    expect(onChange).toHaveBeenLastCalledWith('1950');
+
+    fireEvent.change(screen.getByLabelText('Date of Birth qualifier'), { target: { value: 'about' } });
+    expect(onChange).toHaveBeenLastCalledWith('ABT 1950');
+
+    fireEvent.change(screen.getByLabelText('Date of Birth qualifier'), { target: { value: 'between' } });
+    fireEvent.change(screen.getByLabelText('Date of Birth range end'), { target: { value: '03/1955' } });
+    expect(onChange).toHaveBeenLastCalledWith('BET 1950 AND 1955-03');
+
+    fireEvent.click(screen.getByLabelText('Julian calendar (Old Style)'));
+    expect(onChange).toHaveBeenLastCalledWith('JULIAN BET 1950 AND 1955-03');
+  });
+
+  it('should show stored dates in their fields and flag dates that do not exist', () => {
+    const onChange = vi.fn();
+    render(<DateInput mode="genealogical" label="Date of Birth" value="BEF 1950-03-14" onChange={onChange} />);
+
+    const input = screen.getByLabelText('Date of Birth') as HTMLInputElement;
+    expect(input.value).toBe('14/03/1950');
+    expect((screen.getByLabelText('Date of Birth qualifier') as HTMLSelectElement).value).toBe('before');
+
+    fireEvent.change(input, { target: { value: '30/02/1950' } });
+    fireEvent.blur(input);
+    expect(onChange).toHaveBeenLastCalledWith('');
+    expect(screen.getByRole('alert').textContent).toBe('Enter a year, MM/YYYY or DD/MM/YYYY');
+  });
+});
@@ -1,8 +1,171 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { DateInputProps } from '../types/components';
+import {
+  parseDateParts,
+  parseGenealogicalDate,
+  serializeGenealogicalDate,
+  formatDateInput,
+  DateQualifier,
+  CalendarSystem
+} from '../utils/genealogicalDate';
 import './DateInput.scss';
 
-const DateInput: React.FC<DateInputProps> = ({ 
+const QUALIFIER_OPTIONS: { value: DateQualifier; label: string }[] = [
+  { value: 'exact', label: 'Exact' },
+  { value: 'about', label: 'About' },
+  { value: 'before', label: 'Before' },
+  { value: 'after', label: 'After' },
+  { value: 'between', label: 'Between' },
+];
+
+interface GenealogicalFields {
+  qualifier: DateQualifier;
+  start: string;
+  end: string;
+  calendar: CalendarSystem;
+}
+
+// Splits a stored date into the text of each field
+const toFields = (value: string): GenealogicalFields => {
+  const date = parseGenealogicalDate(value);
+  return {
+    qualifier: date?.qualifier || 'exact',
+    start: date ? formatDateInput(date.date) : '',
+    end: date?.endDate ? formatDateInput(date.endDate) : '',
+    calendar: date?.calendar || 'gregorian',
+  };
+};
+
+// Stored date for the fields, '' when they are empty, or null while they do not make a date
+const toValue = (fields: GenealogicalFields): string | null => {
+  if (!fields.start.trim() && !fields.end.trim()) return '';
+
+  const date = parseDateParts(fields.start, fields.calendar);
+  const endDate = fields.qualifier === 'between' ? parseDateParts(fields.end, fields.calendar) : undefined;
+  if (!date || endDate === null) return null;
+  return serializeGenealogicalDate({ qualifier: fields.qualifier, date, endDate, calendar: fields.calendar });
+};
+
+/**
+ * Date fields for dates that are only partly known: a year, a month and year or a full date,
+ * optionally about, before, after or between two dates, in either calendar.
+ * Reports the stored date form (see utils/genealogicalDate), or '' until the fields make a date.
+ */
+const GenealogicalDateInput: React.FC<DateInputProps> = ({
+  value = '',
+  onChange,
+  placeholder = 'YYYY, MM/YYYY or DD/MM/YYYY',
+  error = null,
+  label,
+  required = false,
+  name,
+  id,
+  className = '',
+  'data-testid': dataTestId
+}) => {
+  const inputId = id || name || label?.toLowerCase().replace(/\s+/g, '-');
+  const [fields, setFields] = useState<GenealogicalFields>(() => toFields(value));
+  const [touched, setTouched] = useState<boolean>(false);
+  // Last value seen from the parent, and last value reported to it
+  const [previousValue, setPreviousValue] = useState<string>(value);
+  const [reportedValue, setReportedValue] = useState<string>(value);
+
+  // Follow dates set from outside, such as a form being reset
+  if (value !== previousValue) {
+    setPreviousValue(value);
+    if (value !== reportedValue) {
+      setReportedValue(value);
+      setFields(toFields(value));
+      setTouched(false);
+    }
+  }
+
+  const update = (changes: Partial<GenealogicalFields>): void => {
+    const next = { ...fields, ...changes };
+    setFields(next);
+
+    const nextValue = toValue(next) ?? '';
+    if (nextValue !== reportedValue) {
+      setReportedValue(nextValue);
+      onChange?.(nextValue);
+    }
+  };
+
+  const sanitize = (text: string): string => text.replace(/[^\d/]/g, '').slice(0, 10);
+
+  const formatError = touched && toValue(fields) === null ? 'Enter a year, MM/YYYY or DD/MM/YYYY' : null;
+  const shownError = error || formatError;
+
+  return (
+    <div className={`date-input-wrapper ${className}`}>
+      {label && (
+        <label htmlFor={inputId} className="date-input-label">
+          {label}
+          {required && <span className="date-input-required" aria-label="required">*</span>}
+        </label>
+      )}
+      <div className="date-input-row">
+        <select
+          className="date-input-qualifier"
+          value={fields.qualifier}
+          onChange={(e) => update({ qualifier: e.target.value as DateQualifier })}
+          aria-label={label ? `${label} qualifier` : 'Date qualifier'}
+        >
+          {QUALIFIER_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <input
+          id={inputId}
+          name={name}
+          type="text"
+          inputMode="numeric"
+          className={`date-input-field ${shownError ? 'date-input-error' : ''}`}
+          placeholder={placeholder}
+          value={fields.start}
+          onChange={(e) => update({ start: sanitize(e.target.value) })}
+          onBlur={() => setTouched(true)}
+          required={required}
+          aria-invalid={shownError ? 'true' : 'false'}
+          aria-describedby={shownError ? `${inputId}-error` : undefined}
+          data-testid={dataTestId}
+        />
+        {fields.qualifier === 'between' && (
+          <>
+            <span className="date-input-and">and</span>
+            <input
+              type="text"
+              inputMode="numeric"
+              className={`date-input-field ${shownError ? 'date-input-error' : ''}`}
+              placeholder={placeholder}
+              value={fields.end}
+              onChange={(e) => update({ end: sanitize(e.target.value) })}
+              onBlur={() => setTouched(true)}
+              aria-label={label ? `${label} range end` : 'Range end'}
+              aria-invalid={shownError ? 'true' : 'false'}
+            />
+          </>
+        )}
+      </div>
+      <label className="date-input-calendar">
+        <input
+          type="checkbox"
+          checked={fields.calendar === 'julian'}
+          onChange={(e) => update({ calendar: e.target.checked ? 'julian' : 'gregorian' })}
+        />
+        Julian calendar (Old Style)
+      </label>
+      {shownError && (
+        <span id={`${inputId}-error`} className="date-input-error-message" role="alert">
+          {shownError}
+        </span>
+      )}
+    </div>
+  );
+};
+
+// Full DD / MM / YYYY date, formatted as it is typed
+const ExactDateInput: React.FC<DateInputProps> = ({ 
   value = '', 
   onChange, 
   placeholder = 'DD / MM / YYYY', 
@@ -98,4 +261,14 @@ const DateInput: React.FC<DateInputProps> = ({
   );
 };
 
+/**
+ * DateInput component - Date field for full dates, or in genealogical mode for dates only partly known
+ */
+const DateInput: React.FC<DateInputProps> = (props) => {
+  if (props.mode === 'genealogical') {
+    return <GenealogicalDateInput {...props} />;
+  }
+  return <ExactDateInput {...props} />;
+};
+
 export default DateInput;
@@ -0,0 +1,120 @@
+import React from 'react';
+import { buildRelationshipGraph, findMembersCutOffBy } from '../utils/relationshipGraph';
+import { formatRelativeType } from '../utils/relationshipPath';
+import { FamilyMember, Relationship } from '../types/api';
+import './MergeMembersModal.scss';
+
+interface DeleteMemberModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  member: FamilyMember;
+  members: FamilyMember[];
+  relationships: Relationship[];
+  // Member the tree is drawn from
+  rootMemberId: string;
+  onDelete: () => void;
+}
+
+/**
+ * DeleteMemberModal confirms deleting a member, listing the relationships removed
+ * with them and any relatives who would no longer be connected to the tree.
+ * The member shows as pending until the server has deleted them.
+ */
+const DeleteMemberModal: React.FC<DeleteMemberModalProps> = ({
+  isOpen,
+  onClose,
+  member,
+  members,
+  relationships,
+  rootMemberId,
+  onDelete,
+}) => {
+  if (!isOpen) return null;
+
+  const membersById = new Map(members.map(known => [known.id, known]));
+  const memberRelationships = relationships.filter(relationship =>
+    relationship.fromUserId === member.id || relationship.toUserId === member.id
+  );
+  const cutOffMembers = findMembersCutOffBy(buildRelationshipGraph(relationships), rootMemberId, member.id)
+    .map(id => membersById.get(id))
+    .filter((cutOff): cutOff is FamilyMember => !!cutOff);
+
+  const formatName = (person: FamilyMember | undefined): string =>
+    person ? `${person.firstName} ${person.lastName}`.trim() : 'Unknown member';
+
+  const handleDelete = (): void => {
+    onDelete();
+    onClose();
+  };
+
+  return (
+    <div className="merge-members-overlay" onClick={onClose}>
+      <div
+        className="merge-members-modal"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="delete-member-title"
+      >
+        <div className="merge-members-header">
+          <div>
+            <h2 id="delete-member-title" className="merge-members-title">Delete {formatName(member)}?</h2>
+            <p className="merge-members-subtitle">They will be removed from the family tree for everyone</p>
+          </div>
+          <button className="merge-members-close" onClick={onClose} aria-label="Close">
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="merge-members-body">
+          {memberRelationships.length > 0 ? (
+            <div className="merge-members-section">
+              <h3 className="merge-members-section-title">Relationships removed</h3>
+              <ul className="merge-members-list">
+                {memberRelationships.map(relationship => {
+                  const relativeId = relationship.fromUserId === member.id ? relationship.toUserId : relationship.fromUserId;
+                  return (
+                    <li key={relationship.id} className="merge-members-list-item removed">
+                      {formatName(membersById.get(relativeId))} ({formatRelativeType(relationship, relativeId)})
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ) : (
+            <p className="merge-members-note">{formatName(member)} is not linked to anyone in the tree.</p>
+          )}
+
+          {cutOffMembers.length > 0 && (
+            <div className="merge-members-section">
+              <p className="merge-members-warning" role="status">
+                These relatives are only linked to you through {formatName(member)}.
+                They will stay in your family but will no longer be connected to your tree.
+              </p>
+              <ul className="merge-members-list">
+                {cutOffMembers.map(cutOff => (
+                  <li key={cutOff.id} className="merge-members-list-item disconnected">
+                    {formatName(cutOff)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="merge-members-footer">
+          <button type="button" className="btn-cancel" onClick={onClose}>
+            Cancel
+          </button>
+          <button type="button" className="btn-danger" onClick={handleDelete}>
+            Delete
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeleteMemberModal;
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import DescendantChart from './DescendantChart';
+import { buildTreeStructure } from '../utils/treeLayout';
+import { FamilyMember, Relationship, TreeNodeData } from '../types/components';
+
+const member = (id: string, extra: Partial<FamilyMember> = {}): FamilyMember => ({
+  id,
+  firstName: id.charAt(0).toUpperCase() + id.slice(1),
+  lastName: 'Evans',
+  createdBy: 'user-1',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...extra,
+});
+
+const link = (fromUserId: string, toUserId: string, relationshipType: Relationship['relationshipType'], extra: Partial<Relationship> = {}): Relationship => ({
+  id: `${fromUserId}-${toUserId}`,
+  fromUserId,
+  toUserId,
+  relationshipType,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  ...extra,
+});
+
+// Arthur and Mary's children Tom and Rose, Tom's son Ben, and Mary's stepson Sam
+const members = [
+  member('arthur', { dateOfBirth: '1900', dateOfDeath: '1970-05-01' }),
+  member('mary', { dateOfBirth: 'ABT 1905' }),
+  member('tom', { dateOfBirth: '1930' }),
+  member('rose', { dateOfBirth: '1928' }),
+  member('ben'),
+  member('sam'),
+];
+const relationships = [
+  link('arthur', 'mary', 'spouse', { partnershipStatus: 'married' }),
+  link('arthur', 'tom', 'parent'),
+  link('mary', 'tom', 'parent'),
+  link('arthur', 'rose', 'parent'),
+  link('mary', 'rose', 'parent'),
+  link('tom', 'ben', 'parent'),
+  link('arthur', 'sam', 'parent', { lineage: 'step' }),
+];
+
+const rootNode = buildTreeStructure(members, relationships, 'arthur') as TreeNodeData;
+
+const shownIds = (container: HTMLElement): string[] =>
+  Array.from(container.querySelectorAll<HTMLElement>('.descendant-chart-row > [data-member-id]'))
+    .map(person => person.dataset.memberId as string);
+
+describe('DescendantChart', () => {
+  it('should list descendants eldest first with their partners and lifespans, leaving out step children', () => {
+    const { container } = render(<DescendantChart rootNode={rootNode} generations={3} />);
+
+    expect(shownIds(container)).toEqual(['arthur', 'rose', 'tom', 'ben']);
+    expect(screen.getByRole('tree', { name: 'Descendants of Arthur Evans' })).toBeTruthy();
+    expect(container.querySelector('.descendant-chart-partner')?.textContent).toBe('m.Mary Evansb. about 1905');
+    expect(container.querySelector('.descendant-chart-lifespan')?.textContent).toBe('1900–1970');
+  });
+
+  it('should collapse generations past the limit and open or close any branch', () => {
+    const { container } = render(<DescendantChart rootNode={rootNode} generations={1} />);
+    expect(shownIds(container)).toEqual(['arthur', 'rose', 'tom']);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Show descendants of Tom Evans' }));
+    expect(shownIds(container)).toEqual(['arthur', 'rose', 'tom', 'ben']);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Hide descendants of Arthur Evans' }));
+    expect(shownIds(container)).toEqual(['arthur']);
+    expect(screen.getByRole('treeitem', { name: 'Arthur Evans' }).getAttribute('aria-expanded')).toBe('false');
+  });
+
+  it('should select members and partners when clicked', () => {
+    const onMemberClick = vi.fn();
+    const { container } = render(
+      <DescendantChart rootNode={rootNode} generations={3} selectedMemberId="tom" onMemberClick={onMemberClick} />
+    );
+
+    const partner = container.querySelector('.descendant-chart-partner [data-member-id="mary"]') as HTMLElement;
+    fireEvent.click(partner);
+    expect(onMemberClick).toHaveBeenCalledWith('mary');
+    expect(container.querySelector('[data-member-id="tom"]')?.className).toContain('selected');
+  });
+});
@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { formatGenealogicalDate } from '../utils/genealogicalDate';
+import { PEDIGREE_LINEAGES } from '../utils/pedigreeLayout';
+import { DescendantChartProps, FamilyMember, PartnershipStatus, TreeNodeData } from '../types/components';
+import './DescendantChart.scss';
+
+// A branch opened or closed by hand, overriding the chart's generation limit
+type BranchToggle = 'expanded' | 'collapsed';
+
+const PARTNERSHIP_PREFIXES: Record<PartnershipStatus, string> = {
+  married: 'm.',
+  widowed: 'm.',
+  divorced: 'div.',
+  partner: '&',
+};
+
+// Children of a member with the partner they had them with, eldest first within each partner
+interface ChildEntry {
+  node: TreeNodeData;
+  otherParent: FamilyMember | null;
+}
+
+/**
+ * Years a member lived, e.g. "1930–2001", "b. 1930" or "d. 2001"
+ */
+function formatLifespan(member: FamilyMember): string {
+  const born = formatGenealogicalDate(member.dateOfBirth, { yearOnly: true });
+  const died = formatGenealogicalDate(member.dateOfDeath, { yearOnly: true });
+  if (born && died) return `${born}–${died}`;
+  if (born) return `b. ${born}`;
+  if (died) return `d. ${died}`;
+  return '';
+}
+
+/**
+ * Lists the children of a node, grouped by the partnership they belong to
+ * Step, foster and guardian children are not descendants and are left out
+ */
+function getChildEntries(node: TreeNodeData): ChildEntry[] {
+  const isDescendant = (child: TreeNodeData): boolean =>
+    PEDIGREE_LINEAGES.includes(child.parentLineage?.[node.member.id] || 'biological');
+  const entries = [
+    ...(node.partnerships || []).flatMap(partnership => partnership.children.map(child => ({
+      node: child,
+      otherParent: partnership.partner.member,
+    }))),
+    ...node.children.map(child => ({ node: child, otherParent: null })),
+  ];
+
+  // A child linked to several of the member's partners is listed under the first
+  const seen = new Set<string>();
+  return entries.filter(entry => {
+    if (seen.has(entry.node.member.id) || !isDescendant(entry.node)) return false;
+    seen.add(entry.node.member.id);
+    return true;
+  });
+}
+
+/**
+ * DescendantChart component - Every descendant of one member as an indented chart,
+ * generation by generation, with each member's partners beside them
+ * Generations past the chart's limit are collapsed; any branch can be opened or closed.
+ */
+const DescendantChart: React.FC<DescendantChartProps> = ({
+  rootNode,
+  generations,
+  selectedMemberId = null,
+  highlightedIds = [],
+  onMemberClick,
+  className = '',
+}) => {
+  // Branches opened or closed by hand, keyed by their path of child indexes from the root
+  const [toggles, setToggles] = useState<Record<string, BranchToggle>>({});
+
+  const handleToggle = (path: string, isExpanded: boolean): void => {
+    setToggles(prev => ({ ...prev, [path]: isExpanded ? 'collapsed' : 'expanded' }));
+  };
+
+  const renderPerson = (member: FamilyMember): React.ReactElement => {
+    const personClass = [
+      'descendant-chart-person',
+      selectedMemberId === member.id && 'selected',
+      highlightedIds.includes(member.id) && 'highlighted',
+      highlightedIds.length > 0 && !highlightedIds.includes(member.id) && 'dimmed',
+    ].filter(Boolean).join(' ');
+    const lifespan = formatLifespan(member);
+
+    return (
+      <button
+        type="button"
+        className={personClass}
+        data-member-id={member.id}
+        onClick={() => onMemberClick?.(member.id)}
+      >
+        <span className="descendant-chart-name">{member.firstName} {member.lastName}</span>
+        {lifespan && <span className="descendant-chart-lifespan">{lifespan}</span>}
+      </button>
+    );
+  };
+
+  const renderMember = (
+    node: TreeNodeData,
+    generation: number,
+    path: string,
+    lineIds: Set<string>,
+    parentId: string | null,
+    otherParent: FamilyMember | null,
+    showOtherParent: boolean
+  ): React.ReactElement => {
+    // A parent link loop is cut where it repeats
+    const children = getChildEntries(node).filter(child => !lineIds.has(child.node.member.id));
+    const hasChildren = children.length > 0;
+    const isExpanded = hasChildren && (toggles[path] === 'expanded'
+      || (toggles[path] !== 'collapsed' && generation < generations));
+    const name = `${node.member.firstName} ${node.member.lastName}`.trim();
+    const lineage = parentId ? node.parentLineage?.[parentId] : undefined;
+    const partnerships = node.partnerships || [];
+
+    return (
+      <li
+        key={path}
+        className="descendant-chart-item"
+        role="treeitem"
+        aria-expanded={hasChildren ? isExpanded : undefined}
+        aria-label={name}
+      >
+        <div className="descendant-chart-row">
+          {hasChildren ? (
+            <button
+              type="button"
+              className="descendant-chart-toggle"
+              onClick={() => handleToggle(path, isExpanded)}
+              aria-label={`${isExpanded ? 'Hide' : 'Show'} descendants of ${name}`}
+            >
+              {isExpanded ? '−' : '+'}
+            </button>
+          ) : (
+            <span className="descendant-chart-toggle-spacer" aria-hidden="true" />
+          )}
+          <span className="descendant-chart-generation" title={`Generation ${generation + 1}`}>
+            {generation + 1}
+          </span>
+          {renderPerson(node.member)}
+          {lineage && lineage !== 'biological' && (
+            <span className="descendant-chart-note">({lineage})</span>
+          )}
+          {showOtherParent && otherParent && (
+            <span className="descendant-chart-note">with {otherParent.firstName} {otherParent.lastName}</span>
+          )}
+          {partnerships.map(partnership => (
+            <span key={partnership.relationshipId || partnership.partner.member.id} className="descendant-chart-partner">
+              <span className="descendant-chart-partner-prefix">
+                {PARTNERSHIP_PREFIXES[partnership.status || 'married']}
+              </span>
+              {renderPerson(partnership.partner.member)}
+            </span>
+          ))}
+        </div>
+        {isExpanded && (
+          <ul className="descendant-chart-children" role="group">
+            {children.map((child, index) => renderMember(
+              child.node,
+              generation + 1,
+              `${path}.${index}`,
+              new Set([...lineIds, child.node.member.id]),
+              node.member.id,
+              child.otherParent,
+              partnerships.length > 1
+            ))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className={`descendant-chart ${className}`} data-testid="descendant-chart">
+      <ul className="descendant-chart-tree" role="tree" aria-label={`Descendants of ${rootNode.member.firstName} ${rootNode.member.lastName}`.trim()}>
+        {renderMember(rootNode, 0, '0', new Set([rootNode.member.id]), null, null, false)}
+      </ul>
+    </div>
+  );
+};
+
+export default DescendantChart;
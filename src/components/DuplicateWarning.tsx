@@ -0,0 +1,63 @@
+import React from 'react';
+import { DuplicateMatch } from '../utils/duplicateDetection';
+import { formatGenealogicalDate } from '../utils/genealogicalDate';
+import './DuplicateWarning.scss';
+
+interface DuplicateWarningProps {
+  matches: DuplicateMatch[];
+  onLinkExisting: (memberId: string) => void;
+  // Most matches listed; the rest are left out
+  maxMatches?: number;
+}
+
+/**
+ * DuplicateWarning lists members who may be the person being entered, with why they
+ * matched, and offers to link an existing member instead of creating a new one.
+ */
+const DuplicateWarning: React.FC<DuplicateWarningProps> = ({
+  matches,
+  onLinkExisting,
+  maxMatches = 3,
+}) => {
+  if (matches.length === 0) return null;
+
+  const formatMember = (match: DuplicateMatch): string => {
+    const year = formatGenealogicalDate(match.member.dateOfBirth, { yearOnly: true });
+    const name = `${match.member.firstName} ${match.member.lastName}`.trim();
+    return year ? `${name} (b. ${year})` : name;
+  };
+
+  return (
+    <div className="duplicate-warning" role="status" data-testid="duplicate-warning">
+      <p className="duplicate-warning-title">
+        {matches.length === 1
+          ? 'This person may already be in your family tree'
+          : 'These people may already be in your family tree'}
+      </p>
+      <ul className="duplicate-warning-list">
+        {matches.slice(0, maxMatches).map(match => (
+          <li key={match.member.id} className="duplicate-warning-item">
+            <div className="duplicate-warning-details">
+              <span className="duplicate-warning-name">{formatMember(match)}</span>
+              <span className={`duplicate-warning-confidence ${match.confidence}`}>
+                {match.confidence === 'likely' ? 'Likely match' : 'Possible match'}
+              </span>
+              {match.reasons.length > 0 && (
+                <span className="duplicate-warning-reasons">{match.reasons.join(' · ')}</span>
+              )}
+            </div>
+            <button
+              type="button"
+              className="duplicate-warning-link"
+              onClick={() => onLinkExisting(match.member.id)}
+            >
+              Link existing person instead
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DuplicateWarning;
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi } from 'vitest';
+import { useState } from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import EventCalendar from './EventCalendar';
+import { getCalendarEntries } from '../utils/eventCalendar';
+import { CalendarView, FamilyEvent, FamilyOccasion } from '../types/components';
+
+const day = (year: number, month: number, date: number, hours = 0): number =>
+  new Date(year, month - 1, date, hours).getTime();
+
+const event = (id: string, eventDate: number, extra: Partial<FamilyEvent> = {}): FamilyEvent => ({
+  id,
+  title: `Event ${id}`,
+  category: 'dinner',
+  eventDate: new Date(eventDate).toISOString(),
+  isAllDay: false,
+  attendees: [],
+  rsvps: [],
+  myRsvp: 'going',
+  isCancelled: false,
+  createdBy: 'user-1',
+  hostName: 'Maria Rivera',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...extra,
+});
+
+const birthday: FamilyOccasion = {
+  id: 'birthday-elena',
+  kind: 'birthday',
+  title: "Elena Rivera's Birthday",
+  detail: 'Turning 54',
+  memberIds: ['elena'],
+  eventDate: new Date(2025, 10, 3).toISOString(),
+  isAllDay: true,
+  years: 54,
+  recurrence: 'FREQ=YEARLY',
+};
+
+const events = [
+  event('party', day(2025, 11, 11, 18), { title: 'Thanksgiving Party', category: 'celebration' }),
+  event('trip', day(2025, 11, 14, 9), { title: 'Lake Trip', category: 'trip', createdBy: 'user-2', location: 'Lake Tahoe' }),
+];
+
+const CalendarHarness = ({ view, onReschedule = vi.fn() }: { view: CalendarView; onReschedule?: () => void }) => {
+  const [focusedDay, setFocusedDay] = useState<number>(day(2025, 11, 29));
+  return (
+    <EventCalendar
+      view={view}
+      focusedDay={focusedDay}
+      today={day(2025, 11, 3)}
+      entries={getCalendarEntries(events, [birthday], day(2025, 10, 26), day(2026, 1, 11))}
+      onFocusedDayChange={setFocusedDay}
+      canReschedule={(calendarEvent) => calendarEvent.createdBy === 'user-1'}
+      onReschedule={onReschedule}
+    />
+  );
+};
+
+describe('EventCalendar', () => {
+  it('should show the month with events and family dates in their category colors', () => {
+    render(<CalendarHarness view="month" />);
+
+    const grid = screen.getByRole('grid', { name: 'November 2025' });
+    expect(grid.querySelectorAll('[role="gridcell"]')).toHaveLength(42);
+    const birthdayCell = screen.getByRole('gridcell', { name: "Monday, November 3, 2025: Elena Rivera's Birthday" });
+    expect(birthdayCell.className).toContain('today');
+    expect(birthdayCell.querySelector('.calendar-entry')?.className).toContain('category-celebration');
+    expect(screen.getByText('Lake Trip').closest('li')?.className).toContain('category-trip');
+    expect(screen.getByRole('gridcell', { name: 'Sunday, October 26, 2025' }).className).toContain('outside-month');
+  });
+
+  it('should move between days with the arrow keys, into the next month', () => {
+    render(<CalendarHarness view="month" />);
+
+    const saturday = screen.getByRole('gridcell', { name: 'Saturday, November 29, 2025' });
+    expect(saturday.tabIndex).toBe(0);
+
+    fireEvent.keyDown(saturday, { key: 'ArrowDown' });
+
+    expect(screen.getByRole('grid', { name: 'December 2025' })).toBeTruthy();
+    expect(document.activeElement?.getAttribute('aria-label')).toBe('Saturday, December 6, 2025');
+
+    fireEvent.keyDown(document.activeElement as Element, { key: 'Home' });
+    expect(document.activeElement?.getAttribute('aria-label')).toBe('Sunday, November 30, 2025');
+  });
+
+  it('should let hosts drag their events to another day, keeping the time', () => {
+    const onReschedule = vi.fn();
+    render(<CalendarHarness view="week" onReschedule={onReschedule} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Previous week' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Previous week' }));
+
+    expect(screen.getByRole('grid', { name: 'Nov 9 – 15, 2025' })).toBeTruthy();
+    // Someone else's event stays put
+    expect(screen.getByText('Lake Trip').closest('li')?.getAttribute('draggable')).toBe('false');
+
+    const party = screen.getByText('Thanksgiving Party').closest('li') as HTMLElement;
+    const friday = screen.getByRole('gridcell', { name: /^Friday, November 14, 2025/ });
+    fireEvent.dragStart(party, { dataTransfer: { setData: vi.fn() } });
+    fireEvent.dragOver(friday, { dataTransfer: {} });
+    expect(friday.className).toContain('drop-target');
+    fireEvent.drop(friday, { dataTransfer: {} });
+
+    expect(onReschedule).toHaveBeenCalledWith('party', new Date(day(2025, 11, 14, 18)).toISOString());
+  });
+
+  it('should let hosts move their events with the keyboard', () => {
+    const onReschedule = vi.fn();
+    render(<CalendarHarness view="week" onReschedule={onReschedule} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Previous week' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Previous week' }));
+    const grid = screen.getByRole('grid', { name: 'Nov 9 – 15, 2025' });
+
+    // Nothing of the user's to pick up on Saturday
+    fireEvent.keyDown(grid, { key: 'm' });
+    expect(document.querySelector('.calendar-hint')?.textContent).not.toContain('Moving');
+
+    ['ArrowLeft', 'ArrowLeft', 'ArrowLeft', 'ArrowLeft', 'm'].forEach(key => fireEvent.keyDown(grid, { key }));
+    expect(document.querySelector('.calendar-hint')?.textContent).toContain('Moving Thanksgiving Party');
+    expect(screen.getByText('Thanksgiving Party').closest('li')?.className).toContain('dragging');
+
+    ['ArrowRight', 'ArrowRight', 'ArrowRight'].forEach(key => fireEvent.keyDown(grid, { key }));
+    expect(screen.getByRole('gridcell', { name: /^Friday, November 14, 2025/ }).className).toContain('drop-target');
+    fireEvent.keyDown(grid, { key: 'Enter' });
+
+    expect(onReschedule).toHaveBeenCalledWith('party', new Date(day(2025, 11, 14, 18)).toISOString());
+    expect(document.querySelector('.calendar-hint')?.textContent).not.toContain('Moving');
+  });
+
+  it('should put an event back when moving it with the keyboard is cancelled', () => {
+    const onReschedule = vi.fn();
+    render(<CalendarHarness view="week" onReschedule={onReschedule} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Previous week' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Previous week' }));
+    const grid = screen.getByRole('grid', { name: 'Nov 9 – 15, 2025' });
+
+    ['ArrowLeft', 'ArrowLeft', 'ArrowLeft', 'ArrowLeft', 'm', 'ArrowRight', 'Escape', 'Enter'].forEach(key =>
+      fireEvent.keyDown(grid, { key })
+    );
+
+    expect(onReschedule).not.toHaveBeenCalled();
+    expect(grid.querySelector('.drop-target')).toBeNull();
+  });
+
+  it('should list the days of the month that have something on', () => {
+    render(<CalendarHarness view="list" />);
+
+    const days = screen.getAllByRole('region');
+    expect(days.map(section => section.getAttribute('aria-label'))).toEqual([
+      'Monday, November 3, 2025',
+      'Tuesday, November 11, 2025',
+      'Friday, November 14, 2025',
+    ]);
+    expect(days[0].textContent).toContain('Turning 54');
+    expect(days[2].textContent).toContain('Lake Tahoe');
+  });
+});
@@ -0,0 +1,321 @@
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { formatEventTime, getStartOfDay } from '../utils/eventDates';
+import {
+  addDays,
+  formatCalendarTitle,
+  getAdjacentPeriod,
+  getCalendarDays,
+  getWeekStart,
+  groupEntriesByDay,
+  moveEventDate
+} from '../utils/eventCalendar';
+import { CalendarEntry, EventCalendarProps, EventCategory } from '../types/components';
+import './EventCalendar.scss';
+
+const CATEGORY_LABELS: Record<EventCategory, string> = {
+  celebration: 'Celebration',
+  reunion: 'Reunion',
+  dinner: 'Dinner',
+  trip: 'Trip',
+  memorial: 'Memorial',
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Entries shown in a day of the month grid before the rest are counted
+const MAX_MONTH_ENTRIES = 3;
+
+const formatDay = (day: number): string =>
+  new Date(day).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+
+const formatEntryTime = (entry: CalendarEntry): string =>
+  formatEventTime({ eventDate: new Date(entry.start).toISOString(), isAllDay: entry.isAllDay });
+
+/**
+ * EventCalendar component - Family events, birthdays and anniversaries on a month grid,
+ * a week agenda or a list of the month's days, colored by category
+ * The arrow keys move between days (Home and End to the ends of the week, Page Up and
+ * Page Down by a month or week). Events the user may move can be dragged to another day, or
+ * picked up with M on their day, carried with the arrow keys and put down with Enter.
+ */
+const EventCalendar: React.FC<EventCalendarProps> = ({
+  view,
+  focusedDay,
+  today,
+  entries,
+  onFocusedDayChange,
+  canReschedule,
+  onReschedule,
+  className = '',
+}) => {
+  const gridRef = useRef<HTMLDivElement>(null);
+  // Set while the keyboard moves the focused day, so focus follows it into another month or week
+  const isMovingFocus = useRef<boolean>(false);
+  // Entry being dragged, or carried with the keyboard
+  const [draggedEntry, setDraggedEntry] = useState<CalendarEntry | null>(null);
+  const [dropDay, setDropDay] = useState<number | null>(null);
+  const hintId = useId();
+
+  const days = getCalendarDays(view, focusedDay);
+  const entriesByDay = useMemo(() => groupEntriesByDay(entries), [entries]);
+  const title = formatCalendarTitle(view, focusedDay);
+  const focusedMonth = new Date(focusedDay).getMonth();
+  const periodName = view === 'week' ? 'week' : 'month';
+  const isMovable = (entry: CalendarEntry): boolean => !!entry.event && canReschedule(entry.event);
+  const hasMovableEvents = entries.some(isMovable);
+
+  useEffect(() => {
+    if (isMovingFocus.current) {
+      isMovingFocus.current = false;
+      gridRef.current?.querySelector<HTMLElement>(`[data-day="${focusedDay}"]`)?.focus();
+    }
+  }, [focusedDay]);
+
+  const handleDragEnd = (): void => {
+    setDraggedEntry(null);
+    setDropDay(null);
+  };
+
+  const moveEntry = (entry: CalendarEntry, day: number): void => {
+    if (entry.event && day !== getStartOfDay(new Date(entry.start))) {
+      onReschedule(entry.event.id, moveEventDate(entry.event.eventDate, day));
+    }
+    handleDragEnd();
+  };
+
+  // M picks up the focused day's next movable event; Enter puts it down on the focused day
+  const handleMoveKey = (e: React.KeyboardEvent<HTMLDivElement>): boolean => {
+    if (e.key === 'm' || e.key === 'M') {
+      const movableEntries = (entriesByDay.get(focusedDay) || []).filter(isMovable);
+      if (movableEntries.length === 0) return false;
+      const index = movableEntries.findIndex(entry => entry.key === draggedEntry?.key);
+      setDraggedEntry(movableEntries[(index + 1) % movableEntries.length]);
+      setDropDay(focusedDay);
+      return true;
+    }
+    if (!draggedEntry) return false;
+    if (e.key === 'Enter') {
+      moveEntry(draggedEntry, focusedDay);
+      return true;
+    }
+    if (e.key === 'Escape') {
+      handleDragEnd();
+      return true;
+    }
+    return false;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>): void => {
+    if (handleMoveKey(e)) {
+      e.preventDefault();
+      return;
+    }
+
+    const steps: Record<string, () => number> = {
+      ArrowLeft: () => addDays(focusedDay, -1),
+      ArrowRight: () => addDays(focusedDay, 1),
+      ArrowUp: () => addDays(focusedDay, -7),
+      ArrowDown: () => addDays(focusedDay, 7),
+      Home: () => getWeekStart(focusedDay),
+      End: () => addDays(getWeekStart(focusedDay), 6),
+      PageUp: () => getAdjacentPeriod(view, focusedDay, -1),
+      PageDown: () => getAdjacentPeriod(view, focusedDay, 1),
+    };
+    if (!steps[e.key]) return;
+
+    e.preventDefault();
+    const day = steps[e.key]();
+    if (day !== focusedDay) {
+      isMovingFocus.current = true;
+      onFocusedDayChange(day);
+      if (draggedEntry) {
+        setDropDay(day);
+      }
+    }
+  };
+
+  const handleDragStart = (e: React.DragEvent<HTMLElement>, entry: CalendarEntry): void => {
+    // Some browsers only start a drag that carries data
+    e.dataTransfer.setData('text/plain', entry.title);
+    e.dataTransfer.effectAllowed = 'move';
+    setDraggedEntry(entry);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLElement>, day: number): void => {
+    if (!draggedEntry) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setDropDay(day);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLElement>, day: number): void => {
+    e.preventDefault();
+    if (draggedEntry) {
+      moveEntry(draggedEntry, day);
+    }
+  };
+
+  const renderEntry = (entry: CalendarEntry): React.ReactElement => {
+    const canMove = isMovable(entry);
+    const classes = [
+      'calendar-entry',
+      `category-${entry.category}`,
+      entry.occasion && 'calendar-entry-occasion',
+      canMove && 'calendar-entry-movable',
+      draggedEntry?.key === entry.key && 'dragging',
+    ].filter(Boolean).join(' ');
+    const details = view === 'list' ? entry.occasion?.detail || entry.event?.location : undefined;
+
+    return (
+      <li
+        key={entry.key}
+        className={classes}
+        draggable={canMove}
+        onDragStart={canMove ? (e) => handleDragStart(e, entry) : undefined}
+        onDragEnd={canMove ? handleDragEnd : undefined}
+        title={`${formatEntryTime(entry)} · ${entry.title}`}
+      >
+        {!entry.isAllDay && <span className="calendar-entry-time">{formatEntryTime(entry)}</span>}
+        <span className="calendar-entry-title">{entry.title}</span>
+        {details && <span className="calendar-entry-details">{details}</span>}
+      </li>
+    );
+  };
+
+  const renderDay = (day: number): React.ReactElement => {
+    const date = new Date(day);
+    const dayEntries = entriesByDay.get(day) || [];
+    const shownEntries = view === 'month' ? dayEntries.slice(0, MAX_MONTH_ENTRIES) : dayEntries;
+    const classes = [
+      'calendar-day',
+      day === today && 'today',
+      day === focusedDay && 'focused',
+      view === 'month' && date.getMonth() !== focusedMonth && 'outside-month',
+      day === dropDay && 'drop-target',
+    ].filter(Boolean).join(' ');
+    const label = dayEntries.length > 0
+      ? `${formatDay(day)}: ${dayEntries.map(entry => entry.title).join(', ')}`
+      : formatDay(day);
+
+    return (
+      <div
+        key={day}
+        role="gridcell"
+        data-day={day}
+        className={classes}
+        tabIndex={day === focusedDay ? 0 : -1}
+        aria-selected={day === focusedDay}
+        aria-label={label}
+        onClick={() => onFocusedDayChange(day)}
+        onDragOver={(e) => handleDragOver(e, day)}
+        onDrop={(e) => handleDrop(e, day)}
+      >
+        <span className="calendar-day-number">
+          {view === 'week' ? `${WEEKDAYS[date.getDay()]} ${date.getDate()}` : date.getDate()}
+        </span>
+        {shownEntries.length > 0 && <ul className="calendar-entries">{shownEntries.map(renderEntry)}</ul>}
+        {dayEntries.length > shownEntries.length && (
+          <span className="calendar-more">+{dayEntries.length - shownEntries.length} more</span>
+        )}
+      </div>
+    );
+  };
+
+  const renderGrid = (): React.ReactElement => {
+    const weeks = Array.from({ length: days.length / 7 }, (_, index) => days.slice(index * 7, index * 7 + 7));
+    return (
+      <div
+        ref={gridRef}
+        role="grid"
+        aria-label={title}
+        aria-describedby={hintId}
+        className={`calendar-grid calendar-${view}`}
+        onKeyDown={handleKeyDown}
+      >
+        {view === 'month' && (
+          <div role="row" className="calendar-weekdays">
+            {WEEKDAYS.map(weekday => (
+              <div key={weekday} role="columnheader" className="calendar-weekday">{weekday}</div>
+            ))}
+          </div>
+        )}
+        {weeks.map(week => (
+          <div key={week[0]} role="row" className="calendar-row">
+            {week.map(renderDay)}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderList = (): React.ReactElement => {
+    const listDays = days.filter(day => entriesByDay.has(day));
+    if (listDays.length === 0) {
+      return <p className="calendar-empty" role="status">No events or family dates this month.</p>;
+    }
+
+    return (
+      <div className="calendar-list">
+        {listDays.map(day => (
+          <section key={day} className={`calendar-list-day ${day === today ? 'today' : ''}`} aria-label={formatDay(day)}>
+            <h3 className="calendar-list-date">{formatDay(day)}</h3>
+            <ul className="calendar-entries">{(entriesByDay.get(day) || []).map(renderEntry)}</ul>
+          </section>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className={`event-calendar ${className}`}>
+      <div className="calendar-toolbar">
+        <div className="calendar-nav">
+          <button
+            type="button"
+            className="calendar-nav-button"
+            onClick={() => onFocusedDayChange(getAdjacentPeriod(view, focusedDay, -1))}
+            aria-label={`Previous ${periodName}`}
+          >
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <button type="button" className="calendar-today-button" onClick={() => onFocusedDayChange(today)}>
+            Today
+          </button>
+          <button
+            type="button"
+            className="calendar-nav-button"
+            onClick={() => onFocusedDayChange(getAdjacentPeriod(view, focusedDay, 1))}
+            aria-label={`Next ${periodName}`}
+          >
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5l7 7-7 7" />
+            </svg>
+          </button>
+        </div>
+        <h2 className="calendar-title" aria-live="polite">{title}</h2>
+        <ul className="calendar-legend" aria-label="Categories">
+          {(Object.keys(CATEGORY_LABELS) as EventCategory[]).map(category => (
+            <li key={category} className={`calendar-legend-item category-${category}`}>
+              {CATEGORY_LABELS[category]}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {view === 'list' ? renderList() : renderGrid()}
+
+      {view !== 'list' && (
+        <p id={hintId} className="calendar-hint" aria-live="polite">
+          {draggedEntry
+            ? `Moving ${draggedEntry.title}: pick a day with the arrow keys, then press Enter to move it there or Escape to cancel.`
+            : 'Use the arrow keys to move between days.'}
+          {!draggedEntry && hasMovableEvents && ' Drag your events to another day, or press M on their day, to reschedule them.'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default EventCalendar;
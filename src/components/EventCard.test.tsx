@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import EventCard from './EventCard';
+import { EventGuest, FamilyEvent } from '../types/components';
+
+const event: FamilyEvent = {
+  id: 'party',
+  title: "Cousin Mike's Graduation Party",
+  description: "We're so proud of Mike!",
+  category: 'celebration',
+  eventDate: new Date(2025, 10, 22, 18, 0).toISOString(),
+  isAllDay: false,
+  location: 'The Rivera House',
+  attendees: ['member-1', 'member-2', 'member-3'],
+  rsvps: [
+    { memberId: 'member-2', response: 'going', guestCount: 2, dietaryNotes: 'Nut allergy', respondedAt: '2025-01-02T00:00:00.000Z' },
+    { memberId: 'member-3', response: 'maybe', guestCount: 0, respondedAt: '2025-01-02T00:00:00.000Z' },
+  ],
+  myRsvp: null,
+  isCancelled: false,
+  createdBy: 'user-2',
+  hostName: 'Sarah Rivera',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+const guests: EventGuest[] = [
+  { id: 'member-1', firstName: 'Maria', lastName: 'Rivera' },
+  { id: 'member-2', firstName: 'Sarah', lastName: 'Rivera', photoUrl: 'https://example.com/sarah.jpg' },
+  { id: 'member-3', firstName: 'Mike', lastName: 'Rivera' },
+];
+
+describe('EventCard', () => {
+  it('should show the event details and who is coming', () => {
+    const { container } = render(<EventCard event={event} guests={guests} isHost={false} isInvitation onRsvp={vi.fn()} />);
+
+    expect(screen.getByRole('heading', { name: "Cousin Mike's Graduation Party" })).toBeTruthy();
+    expect(screen.getByText('Saturday, 6:00 PM')).toBeTruthy();
+    expect(screen.getByText('The Rivera House')).toBeTruthy();
+    expect(screen.getByText('1 going (+2 guests) · 1 maybe · 1 no reply')).toBeTruthy();
+    expect(screen.getByText('NEW INVITE')).toBeTruthy();
+    expect(container.querySelector('.event-banner')?.getAttribute('class')).toContain('category-celebration');
+    // Only members going are in the avatar stack
+    expect(container.querySelectorAll('.attendee-avatar')).toHaveLength(1);
+    expect(container.querySelector('img.attendee-avatar')?.getAttribute('src')).toBe('https://example.com/sarah.jpg');
+  });
+
+  it('should say how often a repeating event happens', () => {
+    render(<EventCard event={{ ...event, recurrence: 'FREQ=MONTHLY;BYDAY=2SU' }} guests={guests} isHost={false} onRsvp={vi.fn()} />);
+
+    expect(screen.getByText('Every month on the 2nd Sunday')).toBeTruthy();
+  });
+
+  it("should offer to add the event to the user's calendar when it can be downloaded", () => {
+    const onAddToCalendar = vi.fn();
+    const { rerender } = render(<EventCard event={event} guests={guests} isHost={false} onRsvp={vi.fn()} />);
+    expect(screen.queryByRole('button', { name: 'Add to Calendar' })).toBeNull();
+
+    rerender(<EventCard event={event} guests={guests} isHost={false} onRsvp={vi.fn()} onAddToCalendar={onAddToCalendar} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Add to Calendar' }));
+    expect(onAddToCalendar).toHaveBeenCalledWith('party');
+  });
+
+  it('should decline an invitation straight away', () => {
+    const onRsvp = vi.fn();
+    render(<EventCard event={event} guests={guests} isHost={false} isInvitation onRsvp={onRsvp} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Decline' }));
+    expect(onRsvp).toHaveBeenCalledWith('party', { response: 'declined', guestCount: 0 });
+  });
+
+  it('should ask for extra guests and dietary notes when joining', () => {
+    const onRsvp = vi.fn();
+    render(<EventCard event={event} guests={guests} isHost={false} isInvitation onRsvp={onRsvp} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Join Event' }));
+    fireEvent.change(screen.getByLabelText('Extra guests'), { target: { value: '2' } });
+    fireEvent.change(screen.getByLabelText('Dietary notes'), { target: { value: ' Vegetarian ' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Send Reply' }));
+
+    expect(onRsvp).toHaveBeenCalledWith('party', { response: 'going', guestCount: 2, dietaryNotes: 'Vegetarian' });
+    expect(screen.queryByRole('form', { name: 'Your reply' })).toBeNull();
+  });
+
+  it('should let a guest change their reply from their earlier one', () => {
+    const onRsvp = vi.fn();
+    const myReply = { memberId: 'member-1', response: 'going' as const, guestCount: 1, respondedAt: '2025-01-02T00:00:00.000Z' };
+    render(
+      <EventCard event={{ ...event, myRsvp: 'going' }} guests={guests} isHost={false} myReply={myReply} onRsvp={onRsvp} />
+    );
+
+    expect(screen.getByText("You're going")).toBeTruthy();
+    fireEvent.click(screen.getByRole('button', { name: 'Change Reply' }));
+    expect((screen.getByLabelText('Extra guests') as HTMLInputElement).value).toBe('1');
+
+    fireEvent.click(screen.getByRole('button', { name: "Can't Go" }));
+    expect(screen.queryByLabelText('Extra guests')).toBeNull();
+    fireEvent.click(screen.getByRole('button', { name: 'Send Reply' }));
+    expect(onRsvp).toHaveBeenCalledWith('party', { response: 'declined', guestCount: 0, dietaryNotes: undefined });
+  });
+
+  it('should show the host who has and has not replied', () => {
+    render(<EventCard event={event} guests={guests} isHost onRsvp={vi.fn()} />);
+
+    expect(screen.getByText('you')).toBeTruthy();
+    fireEvent.click(screen.getByRole('button', { name: 'Guest List' }));
+
+    expect(screen.getByRole('region', { name: 'Going' }).textContent).toContain('Sarah Rivera+2');
+    expect(screen.getByText('Nut allergy')).toBeTruthy();
+    expect(screen.getByRole('region', { name: 'Maybe' }).textContent).toContain('Mike Rivera');
+    expect(screen.getByRole('region', { name: 'No Reply Yet' }).textContent).toContain('Maria Rivera');
+  });
+
+  it('should ask the host to confirm before cancelling the event', () => {
+    const onCancelEvent = vi.fn();
+    render(<EventCard event={{ ...event, myRsvp: 'going' }} guests={guests} isHost onRsvp={vi.fn()} onCancelEvent={onCancelEvent} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel Event' }));
+    expect(onCancelEvent).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Keep Event' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel Event' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Confirm Cancel' }));
+    expect(onCancelEvent).toHaveBeenCalledWith('party');
+  });
+});
@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import RsvpForm from './RsvpForm';
+import EventGuestList from './EventGuestList';
+import { formatEventSchedule, getEventDateBadge } from '../utils/eventDates';
+import { getMemberRsvp, summarizeRsvps } from '../utils/eventRsvp';
+import { describeRecurrence } from '../utils/recurrence';
+import { EventCardProps, EventCategory, EventReply, RsvpResponse } from '../types/components';
+import './EventCard.scss';
+
+const CATEGORY_LABELS: Record<EventCategory, string> = {
+  celebration: 'Celebration',
+  reunion: 'Reunion',
+  dinner: 'Dinner',
+  trip: 'Trip',
+  memorial: 'Memorial',
+};
+
+const RSVP_LABELS: Record<RsvpResponse, string> = {
+  going: "You're going",
+  maybe: 'You might go',
+  declined: 'You declined',
+};
+
+// Going guests shown as avatars before the rest are counted
+const MAX_AVATARS = 4;
+
+const getInitials = (name: string): string =>
+  name.split(' ').filter(Boolean).map(part => part[0]).join('').slice(0, 2).toUpperCase();
+
+/**
+ * EventCard component - One family event with its date, place and host, who is
+ * coming, and the signed-in user's reply to it
+ * Going or maybe opens the reply form for extra guests and dietary notes; declining
+ * is sent straight away. Hosts see the guest list and can cancel after confirming.
+ * The event can be added to the user's own calendar app as an .ics download.
+ */
+const EventCard: React.FC<EventCardProps> = ({
+  event,
+  guests,
+  isHost,
+  isInvitation = false,
+  myReply = null,
+  onRsvp,
+  onCancelEvent,
+  onAddToCalendar,
+  className = '',
+}) => {
+  const [isConfirmingCancel, setIsConfirmingCancel] = useState<boolean>(false);
+  const [isGuestListOpen, setIsGuestListOpen] = useState<boolean>(false);
+  // Response the reply form opens with; null while the form is closed
+  const [replyDraft, setReplyDraft] = useState<RsvpResponse | null>(null);
+  const { day, month } = getEventDateBadge(event);
+  const hostName = isHost ? 'you' : event.hostName;
+  const repeats = describeRecurrence(event.recurrence);
+
+  const summary = summarizeRsvps(event);
+  const goingGuests = guests.filter(guest => getMemberRsvp(event, guest.id)?.response === 'going');
+  const hiddenGoingCount = summary.going - Math.min(goingGuests.length, MAX_AVATARS);
+  const summaryParts = [
+    `${summary.going} going${summary.guests > 0 ? ` (+${summary.guests} ${summary.guests === 1 ? 'guest' : 'guests'})` : ''}`,
+    ...(summary.maybe > 0 ? [`${summary.maybe} maybe`] : []),
+    ...(summary.noResponse > 0 ? [`${summary.noResponse} no reply`] : []),
+  ];
+
+  const handleSubmitReply = (reply: EventReply): void => {
+    onRsvp(event.id, reply);
+    setReplyDraft(null);
+  };
+
+  const renderCancelActions = (onCancel: (eventId: string) => void): React.ReactElement => (
+    isConfirmingCancel ? (
+      <>
+        <button className="btn-decline" onClick={() => setIsConfirmingCancel(false)}>
+          Keep Event
+        </button>
+        <button className="btn-cancel-event" onClick={() => onCancel(event.id)}>
+          Confirm Cancel
+        </button>
+      </>
+    ) : (
+      <button className="btn-decline" onClick={() => setIsConfirmingCancel(true)}>
+        Cancel Event
+      </button>
+    )
+  );
+
+  const renderActions = (): React.ReactElement | null => {
+    if (replyDraft) {
+      return null;
+    }
+
+    if (isInvitation) {
+      return (
+        <div className="event-actions">
+          <button className="btn-decline" onClick={() => onRsvp(event.id, { response: 'declined', guestCount: 0 })}>
+            Decline
+          </button>
+          <button className="btn-decline" onClick={() => setReplyDraft('maybe')}>
+            Maybe
+          </button>
+          <button className="btn-join" onClick={() => setReplyDraft('going')}>
+            Join Event
+          </button>
+        </div>
+      );
+    }
+
+    if (isHost) {
+      return (
+        <div className="event-actions">
+          <button
+            className="btn-decline"
+            aria-expanded={isGuestListOpen}
+            onClick={() => setIsGuestListOpen(!isGuestListOpen)}
+          >
+            Guest List
+          </button>
+          {onCancelEvent && renderCancelActions(onCancelEvent)}
+        </div>
+      );
+    }
+
+    return (
+      <div className="event-actions">
+        <button className="btn-join" onClick={() => setReplyDraft(event.myRsvp || 'going')}>
+          {event.myRsvp ? 'Change Reply' : 'Reply'}
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <article
+      className={`event-card ${isInvitation ? 'event-card-pending' : ''} ${className}`}
+      aria-label={event.title}
+    >
+      <div className={`event-banner category-${event.category}`}>
+        <span className="event-category">{CATEGORY_LABELS[event.category]}</span>
+        {isInvitation && <span className="badge-new">NEW INVITE</span>}
+        <div className="event-date-badge">
+          <div className="date-number">{day}</div>
+          <div className="date-month">{month}</div>
+        </div>
+      </div>
+      <div className="event-content">
+        <h3 className="event-title">{event.title}</h3>
+        <div className="event-meta">
+          <div className="event-meta-item">
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+              <circle cx="12" cy="12" r="10" strokeWidth="2"/>
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6v6l4 2"/>
+            </svg>
+            <span>{formatEventSchedule(event)}</span>
+          </div>
+          {repeats && (
+            <div className="event-meta-item">
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"/>
+              </svg>
+              <span>{repeats}</span>
+            </div>
+          )}
+          {event.location && (
+            <div className="event-meta-item">
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z"/>
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 11a3 3 0 11-6 0 3 3 0 016 0z"/>
+              </svg>
+              <span>{event.location}</span>
+            </div>
+          )}
+        </div>
+        {event.description && <div className="event-description">{event.description}</div>}
+        <div className="event-host">
+          {event.hostPhotoUrl ? (
+            <img src={event.hostPhotoUrl} alt="" className="host-avatar" />
+          ) : (
+            <span className="host-avatar host-initials" aria-hidden="true">{getInitials(event.hostName)}</span>
+          )}
+          <span>{isInvitation ? 'Invited by' : 'Hosted by'} <strong>{hostName}</strong></span>
+          {onAddToCalendar && (
+            <button className="btn-add-to-calendar" onClick={() => onAddToCalendar(event.id)}>
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" aria-hidden="true">
+                <rect x="3" y="4" width="18" height="18" rx="2" strokeWidth="2"/>
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M16 2v4M8 2v4M3 10h18M12 14v4m-2-2h4"/>
+              </svg>
+              Add to Calendar
+            </button>
+          )}
+        </div>
+        <div className="event-footer">
+          <div className="event-attendees">
+            {goingGuests.length > 0 && (
+              <div className="attendees-avatars" aria-hidden="true">
+                {goingGuests.slice(0, MAX_AVATARS).map(guest => (
+                  guest.photoUrl ? (
+                    <img key={guest.id} src={guest.photoUrl} alt="" className="attendee-avatar" />
+                  ) : (
+                    <span key={guest.id} className="attendee-avatar attendee-initials">
+                      {getInitials(`${guest.firstName} ${guest.lastName}`)}
+                    </span>
+                  )
+                ))}
+                {hiddenGoingCount > 0 && (
+                  <span className="attendee-avatar attendee-more">+{hiddenGoingCount}</span>
+                )}
+              </div>
+            )}
+            <div className="attendees-text">
+              <span className="attendees-count">{summaryParts.join(' · ')}</span>
+              {!isInvitation && !isHost && event.myRsvp && (
+                <span className={`event-rsvp ${event.myRsvp}`}>{RSVP_LABELS[event.myRsvp]}</span>
+              )}
+            </div>
+          </div>
+          {renderActions()}
+        </div>
+        {replyDraft && (
+          <RsvpForm
+            initialReply={{
+              response: replyDraft,
+              guestCount: myReply?.guestCount || 0,
+              dietaryNotes: myReply?.dietaryNotes,
+            }}
+            onSubmit={handleSubmitReply}
+            onCancel={() => setReplyDraft(null)}
+          />
+        )}
+        {isHost && isGuestListOpen && <EventGuestList event={event} guests={guests} />}
+      </div>
+    </article>
+  );
+};
+
+export default EventCard;
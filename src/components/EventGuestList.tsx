@@ -0,0 +1,52 @@
+import React from 'react';
+import { groupGuestList, RsvpStatus } from '../utils/eventRsvp';
+import { EventGuestListProps } from '../types/components';
+import './EventGuestList.scss';
+
+const STATUS_HEADINGS: Record<RsvpStatus, string> = {
+  going: 'Going',
+  maybe: 'Maybe',
+  declined: "Can't Go",
+  no_response: 'No Reply Yet',
+};
+
+/**
+ * EventGuestList component - Host view of who has and hasn't replied to an event,
+ * with each member's extra guests and dietary notes
+ */
+const EventGuestList: React.FC<EventGuestListProps> = ({ event, guests, className = '' }) => {
+  const groups = groupGuestList(event, guests);
+
+  if (groups.length === 0) {
+    return <p className={`event-guest-list-empty ${className}`}>No family members are invited yet.</p>;
+  }
+
+  return (
+    <div className={`event-guest-list ${className}`}>
+      {groups.map(group => (
+        <section key={group.status} className={`guest-group ${group.status}`} aria-label={STATUS_HEADINGS[group.status]}>
+          <h4 className="guest-group-heading">
+            {STATUS_HEADINGS[group.status]} ({group.entries.length})
+          </h4>
+          <ul className="guest-group-list">
+            {group.entries.map(({ guest, rsvp }) => (
+              <li key={guest.id} className="guest-entry">
+                <span className="guest-entry-name">
+                  {guest.firstName} {guest.lastName}
+                  {rsvp && rsvp.response !== 'declined' && rsvp.guestCount > 0 && (
+                    <span className="guest-entry-plus">+{rsvp.guestCount}</span>
+                  )}
+                </span>
+                {rsvp?.dietaryNotes && rsvp.response !== 'declined' && (
+                  <span className="guest-entry-notes">{rsvp.dietaryNotes}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default EventGuestList;
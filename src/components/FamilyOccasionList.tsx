@@ -0,0 +1,37 @@
+import React from 'react';
+import { getEventDateBadge } from '../utils/eventDates';
+import { FamilyOccasionListProps, OccasionKind } from '../types/components';
+import './FamilyOccasionList.scss';
+
+const KIND_LABELS: Record<OccasionKind, string> = {
+  birthday: 'Birthday',
+  anniversary: 'Anniversary',
+  memorial: 'Memorial',
+};
+
+/**
+ * FamilyOccasionList component - Birthdays, anniversaries and memorial dates coming up
+ * in the family, worked out from the tree rather than created as events
+ */
+const FamilyOccasionList: React.FC<FamilyOccasionListProps> = ({ occasions, className = '' }) => (
+  <ul className={`occasion-list ${className}`}>
+    {occasions.map(occasion => {
+      const { day, month } = getEventDateBadge(occasion);
+      return (
+        <li key={occasion.id} className={`occasion-item occasion-${occasion.kind}`}>
+          <div className="occasion-date">
+            <span className="occasion-day">{day}</span>
+            <span className="occasion-month">{month}</span>
+          </div>
+          <div className="occasion-details">
+            <span className="occasion-title">{occasion.title}</span>
+            <span className="occasion-detail">{occasion.detail}</span>
+          </div>
+          <span className="occasion-kind">{KIND_LABELS[occasion.kind]}</span>
+        </li>
+      );
+    })}
+  </ul>
+);
+
+export default FamilyOccasionList;
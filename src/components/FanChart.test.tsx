@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import FanChart from './FanChart';
+import { buildTreeStructure } from '../utils/treeLayout';
+import { FamilyMember, Relationship, TreeNodeData } from '../types/components';
+
+const member = (id: string, gender: FamilyMember['gender']): FamilyMember => ({
+  id,
+  firstName: id.charAt(0).toUpperCase() + id.slice(1),
+  lastName: 'Evans',
+  gender,
+  createdBy: 'user-1',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+});
+
+const parentOf = (parentId: string, childId: string): Relationship => ({
+  id: `${parentId}-${childId}`,
+  fromUserId: parentId,
+  toUserId: childId,
+  relationshipType: 'parent',
+  createdAt: '2024-01-01T00:00:00.000Z',
+});
+
+const members = [member('rose', 'female'), member('tom', 'male'), member('ann', 'female'), member('arthur', 'male')];
+const relationships = [parentOf('tom', 'rose'), parentOf('ann', 'rose'), parentOf('arthur', 'tom')];
+const rootNode = buildTreeStructure(members, relationships, 'rose') as TreeNodeData;
+
+describe('FanChart', () => {
+  it('should draw a sector for each ancestor and an empty place for each missing one', () => {
+    const { container } = render(<FanChart rootNode={rootNode} generations={2} />);
+
+    expect(screen.getByRole('button', { name: 'Rose Evans, Root person' })).toBeTruthy();
+    expect(screen.getByRole('button', { name: 'Arthur Evans, Paternal grandfather' })).toBeTruthy();
+    expect(container.querySelectorAll('.fan-chart-sector.empty')).toHaveLength(3);
+    expect(container.querySelector('[data-member-id="tom"]')?.getAttribute('class')).toContain('paternal');
+    expect(container.querySelector('[data-member-id="ann"]')?.getAttribute('class')).toContain('maternal');
+  });
+
+  it('should select ancestors by click or keyboard and mark highlighted ones', () => {
+    const onMemberClick = vi.fn();
+    render(<FanChart rootNode={rootNode} generations={2} highlightedIds={['ann']} onMemberClick={onMemberClick} />);
+
+    const mother = screen.getByRole('button', { name: 'Ann Evans, Mother' });
+    expect(mother.getAttribute('class')).toContain('highlighted');
+    expect(screen.getByRole('button', { name: 'Tom Evans, Father' }).getAttribute('class')).toContain('dimmed');
+
+    fireEvent.click(mother);
+    fireEvent.keyDown(screen.getByRole('button', { name: 'Arthur Evans, Paternal grandfather' }), { key: 'Enter' });
+    expect(onMemberClick.mock.calls).toEqual([['ann'], ['arthur']]);
+  });
+});
@@ -0,0 +1,100 @@
+import React, { useMemo } from 'react';
+import { calculateFanChartLayout, FanSector, FAN_RADIAL_LABEL_GENERATION } from '../utils/fanChartLayout';
+import { FanChartProps } from '../types/components';
+import './FanChart.scss';
+
+// Longest name drawn along the radius of the outer rings
+const MAX_RADIAL_NAME_LENGTH = 14;
+
+const truncate = (text: string, length: number): string =>
+  text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+/**
+ * FanChart component - Ancestors of one member as an SVG half-circle fan
+ * The member is at the centre and each ring out is one generation of parents, fathers'
+ * lines on the left. Clicking an ancestor selects them, which the page uses to re-root the fan.
+ */
+const FanChart: React.FC<FanChartProps> = ({
+  rootNode,
+  generations,
+  selectedMemberId = null,
+  highlightedIds = [],
+  onMemberClick,
+  className = '',
+}) => {
+  const layout = useMemo(() => calculateFanChartLayout(rootNode, generations), [rootNode, generations]);
+  const { radius } = layout;
+
+  const handleKeyDown = (e: React.KeyboardEvent<SVGGElement>, memberId: string): void => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      onMemberClick?.(memberId);
+    }
+  };
+
+  const renderName = (sector: FanSector): React.ReactElement | null => {
+    if (!sector.member) return null;
+
+    const { firstName, lastName } = sector.member;
+    const transform = `rotate(${sector.labelRotation} ${sector.labelX} ${sector.labelY})`;
+    if (sector.generation >= FAN_RADIAL_LABEL_GENERATION) {
+      return (
+        <text className="fan-chart-name small" x={sector.labelX} y={sector.labelY} transform={transform}>
+          {truncate(`${firstName} ${lastName}`.trim(), MAX_RADIAL_NAME_LENGTH)}
+        </text>
+      );
+    }
+    return (
+      <text className="fan-chart-name" x={sector.labelX} y={sector.labelY}>
+        <tspan x={sector.labelX} dy="-0.3em">{firstName}</tspan>
+        <tspan x={sector.labelX} dy="1.2em">{lastName}</tspan>
+      </text>
+    );
+  };
+
+  return (
+    <svg
+      className={`fan-chart ${className}`}
+      width={radius * 2}
+      height={radius + 8}
+      viewBox={`${-radius} ${-radius - 4} ${radius * 2} ${radius + 8}`}
+      role="group"
+      aria-label={`Fan chart of ${rootNode.member.firstName} ${rootNode.member.lastName}`.trim()}
+      data-testid="fan-chart"
+    >
+      {layout.sectors.map(sector => {
+        const member = sector.member;
+        if (!member) {
+          return <path key={sector.number} className="fan-chart-sector empty" d={sector.path} />;
+        }
+
+        const side = sector.generation === 0 ? 'root' : sector.number >> (sector.generation - 1) === 2 ? 'paternal' : 'maternal';
+        const sectorClass = [
+          'fan-chart-sector',
+          side,
+          selectedMemberId === member.id && 'selected',
+          highlightedIds.includes(member.id) && 'highlighted',
+          highlightedIds.length > 0 && !highlightedIds.includes(member.id) && 'dimmed',
+        ].filter(Boolean).join(' ');
+
+        return (
+          <g
+            key={sector.number}
+            className={sectorClass}
+            data-member-id={member.id}
+            role="button"
+            tabIndex={0}
+            aria-label={`${member.firstName} ${member.lastName}, ${sector.label}`}
+            onClick={() => onMemberClick?.(member.id)}
+            onKeyDown={(e) => handleKeyDown(e, member.id)}
+          >
+            <path d={sector.path} />
+            {renderName(sector)}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default FanChart;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { exportGedcom } from '../utils/gedcom';
+import { FamilyMember, Relationship } from '../types/api';
+import './GedcomImportModal.scss';
+
+interface GedcomExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  members: FamilyMember[];
+  relationships: Relationship[];
+}
+
+/**
+ * GedcomExportModal downloads the current tree as a GEDCOM file, optionally
+ * redacting the names and personal details of living people.
+ */
+const GedcomExportModal: React.FC<GedcomExportModalProps> = ({
+  isOpen,
+  onClose,
+  members,
+  relationships,
+}) => {
+  const [redactLiving, setRedactLiving] = useState<boolean>(true);
+
+  if (!isOpen) return null;
+
+  const livingCount = members.filter(member => member.isLiving).length;
+
+  const handleDownload = (): void => {
+    const contents = exportGedcom(members, relationships, { redactLiving });
+    const blob = new Blob([contents], { type: 'text/plain;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `family-tree-${new Date().toISOString().slice(0, 10)}.ged`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    onClose();
+  };
+
+  return (
+    <div className="gedcom-import-overlay" onClick={onClose}>
+      <div
+        className="gedcom-import-modal"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="gedcom-export-title"
+      >
+        <div className="gedcom-import-header">
+          <div>
+            <h2 id="gedcom-export-title" className="gedcom-import-title">Export GEDCOM</h2>
+            <p className="gedcom-import-subtitle">Download your tree for use in other genealogy software</p>
+          </div>
+          <button className="gedcom-import-close" onClick={onClose} aria-label="Close">
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="gedcom-import-body">
+          <div className="gedcom-import-summary">
+            <div className="gedcom-import-stat">
+              <span className="gedcom-import-stat-value">{members.length}</span>
+              <span className="gedcom-import-stat-label">People</span>
+            </div>
+            <div className="gedcom-import-stat">
+              <span className="gedcom-import-stat-value">{relationships.length}</span>
+              <span className="gedcom-import-stat-label">Relationships</span>
+            </div>
+            <div className="gedcom-import-stat">
+              <span className="gedcom-import-stat-value">{livingCount}</span>
+              <span className="gedcom-import-stat-label">Living</span>
+            </div>
+          </div>
+
+          <label className="gedcom-export-option">
+            <input
+              type="checkbox"
+              checked={redactLiving}
+              onChange={(e) => setRedactLiving(e.target.checked)}
+            />
+            <span>
+              <span className="gedcom-export-option-label">Redact living people</span>
+              <span className="gedcom-export-option-description">
+                Replaces first names with "Living" and leaves out dates, places, contact details and notes.
+                Family links are kept.
+              </span>
+            </span>
+          </label>
+        </div>
+
+        <div className="gedcom-import-footer">
+          <button type="button" className="btn-cancel" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="btn-submit"
+            onClick={handleDownload}
+            disabled={members.length === 0}
+          >
+            Download .ged
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GedcomExportModal;
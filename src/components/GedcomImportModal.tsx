@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { parseGedcom, previewGedcomImport, GedcomParseResult, GedcomImportPreview } from '../utils/gedcom';
+import { formatGenealogicalDate } from '../utils/genealogicalDate';
+import { FamilyMember, Relationship } from '../types/api';
+import './GedcomImportModal.scss';
+
+interface GedcomImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  existingMembers: FamilyMember[];
+  existingRelationships: Relationship[];
+  onImport: (preview: GedcomImportPreview) => Promise<void>;
+}
+
+/**
+ * GedcomImportModal lets the user pick a GEDCOM file, previews what it would add
+ * to the tree and lists every record or tag that cannot be imported.
+ */
+const GedcomImportModal: React.FC<GedcomImportModalProps> = ({
+  isOpen,
+  onClose,
+  existingMembers,
+  existingRelationships,
+  onImport,
+}) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parseResult, setParseResult] = useState<GedcomParseResult | null>(null);
+  const [preview, setPreview] = useState<GedcomImportPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState<boolean>(false);
+
+  if (!isOpen) return null;
+
+  const resetState = (): void => {
+    setFileName(null);
+    setParseResult(null);
+    setPreview(null);
+    setError(null);
+    setIsImporting(false);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    resetState();
+    setFileName(file.name);
+
+    try {
+      const text = await file.text();
+      const result = parseGedcom(text);
+
+      if (result.members.length === 0) {
+        setError('No individuals were found in this file. Is it a GEDCOM (.ged) file?');
+        return;
+      }
+
+      setParseResult(result);
+      setPreview(previewGedcomImport(result, existingMembers, existingRelationships));
+    } catch (err) {
+      console.error('Failed to read GEDCOM file:', err);
+      setError('Failed to read the file. Please try again.');
+    }
+  };
+
+  const handleImport = async (): Promise<void> => {
+    if (!preview) return;
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      await onImport(preview);
+      resetState();
+      onClose();
+    } catch (err) {
+      setError((err as Error).message || (err as string) || 'Failed to import family tree');
+      setIsImporting(false);
+    }
+  };
+
+  const handleCancel = (): void => {
+    resetState();
+    onClose();
+  };
+
+  const formatMember = (member: FamilyMember): string => {
+    const year = formatGenealogicalDate(member.dateOfBirth, { yearOnly: true });
+    const name = `${member.firstName} ${member.lastName}`.trim();
+    return year ? `${name} (b. ${year})` : name;
+  };
+
+  const hasChanges = !!preview && (preview.newMembers.length > 0 || preview.newRelationships.length > 0);
+
+  return (
+    <div className="gedcom-import-overlay" onClick={handleCancel}>
+      <div
+        className="gedcom-import-modal"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="gedcom-import-title"
+      >
+        <div className="gedcom-import-header">
+          <div>
+            <h2 id="gedcom-import-title" className="gedcom-import-title">Import GEDCOM</h2>
+            <p className="gedcom-import-subtitle">Bring in people and relationships from other genealogy software</p>
+          </div>
+          <button className="gedcom-import-close" onClick={handleCancel} aria-label="Close">
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="gedcom-import-body">
+          <label htmlFor="gedcom-file" className="gedcom-import-dropzone">
+            <input
+              type="file"
+              id="gedcom-file"
+              accept=".ged,.gedcom"
+              onChange={handleFileChange}
+              style={{ display: 'none' }}
+            />
+            <p className="gedcom-import-dropzone-text">
+              {fileName ? fileName : 'Click to choose a .ged file'}
+            </p>
+            <p className="gedcom-import-dropzone-subtext">GEDCOM 5.5.1 and 7.0 are supported</p>
+          </label>
+
+          {error && (
+            <p className="gedcom-import-error" role="alert">{error}</p>
+          )}
+
+          {parseResult && preview && (
+            <div className="gedcom-import-preview">
+              <div className="gedcom-import-summary">
+                <div className="gedcom-import-stat">
+                  <span className="gedcom-import-stat-value">{preview.newMembers.length}</span>
+                  <span className="gedcom-import-stat-label">New people</span>
+                </div>
+                <div className="gedcom-import-stat">
+                  <span className="gedcom-import-stat-value">{preview.matchedMembers.length}</span>
+                  <span className="gedcom-import-stat-label">Already in tree</span>
+                </div>
+                <div className="gedcom-import-stat">
+                  <span className="gedcom-import-stat-value">{preview.newRelationships.length}</span>
+                  <span className="gedcom-import-stat-label">New relationships</span>
+                </div>
+                <div className="gedcom-import-stat">
+                  <span className="gedcom-import-stat-value">{parseResult.issues.length}</span>
+                  <span className="gedcom-import-stat-label">Issues</span>
+                </div>
+              </div>
+
+              {parseResult.version && (
+                <p className="gedcom-import-version">GEDCOM version {parseResult.version}</p>
+              )}
+
+              {preview.newMembers.length > 0 && (
+                <div className="gedcom-import-section">
+                  <h3 className="gedcom-import-section-title">Will be added</h3>
+                  <ul className="gedcom-import-list">
+                    {preview.newMembers.map(member => (
+                      <li key={member.id} className="gedcom-import-list-item added">
+                        {formatMember(member)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {preview.matchedMembers.length > 0 && (
+                <div className="gedcom-import-section">
+                  <h3 className="gedcom-import-section-title">Matched to existing members</h3>
+                  <ul className="gedcom-import-list">
+                    {preview.matchedMembers.map(({ imported, existing }) => (
+                      <li key={imported.id} className="gedcom-import-list-item matched">
+                        {formatMember(imported)} → {formatMember(existing)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {preview.ambiguousMembers.length > 0 && (
+                <div className="gedcom-import-section">
+                  <h3 className="gedcom-import-section-title">Possible duplicates</h3>
+                  <ul className="gedcom-import-list">
+                    {preview.ambiguousMembers.map(({ imported, candidates }) => (
+                      <li key={imported.id} className="gedcom-import-list-item ambiguous">
+                        {formatMember(imported)} — already in tree: {candidates.map(formatMember).join(', ')}
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="gedcom-import-note">
+                    These people share a name with members already in the tree, but their birth years
+                    don't tell them apart. They will be added as new people; merge them afterwards if
+                    they are the same person.
+                  </p>
+                </div>
+              )}
+
+              {preview.skippedRelationshipCount > 0 && (
+                <p className="gedcom-import-note">
+                  {preview.skippedRelationshipCount} relationship(s) already exist and will be skipped.
+                </p>
+              )}
+
+              {parseResult.issues.length > 0 && (
+                <div className="gedcom-import-section">
+                  <h3 className="gedcom-import-section-title">Not imported</h3>
+                  <ul className="gedcom-import-list gedcom-import-issues">
+                    {parseResult.issues.map((issue, index) => (
+                      <li key={index} className={`gedcom-import-list-item issue ${issue.type}`}>
+                        <span className="gedcom-import-issue-line">Line {issue.lineNumber}</span>
+                        {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="gedcom-import-footer">
+          <button type="button" className="btn-cancel" onClick={handleCancel}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="btn-submit"
+            onClick={handleImport}
+            disabled={!hasChanges || isImporting}
+          >
+            {isImporting ? 'Importing...' : 'Import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GedcomImportModal;
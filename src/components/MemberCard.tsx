@@ -9,6 +9,8 @@ const MemberCard = React.forwardRef<HTMLDivElement, MemberCardProps>(({
   isSelected = false, 
   isHighlighted = false,
   isDimmed = false,
+  isPending = false,
+  issueSeverity,
   onClick 
 }, ref) => {
   const cardClass = [
@@ -16,7 +18,8 @@ const MemberCard = React.forwardRef<HTMLDivElement, MemberCardProps>(({
     isRoot && 'member-card-root',
     isSelected && 'member-card-selected',
     isHighlighted && 'member-card-highlighted',
-    isDimmed && 'member-card-dimmed'
+    isDimmed && 'member-card-dimmed',
+    isPending && 'member-card-pending'
   ].filter(Boolean).join(' ');
 
   const getInitials = (): string => {
@@ -43,12 +46,23 @@ const MemberCard = React.forwardRef<HTMLDivElement, MemberCardProps>(({
     <div 
       ref={ref}
       className={cardClass}
+      data-member-id={member?.id}
       onClick={handleClick}
       onKeyDown={handleKeyDown}
       role="button"
       tabIndex={0}
-      aria-label={`${member?.firstName} ${member?.lastName}, ${relationshipLabel}`}
+      aria-label={`${member?.firstName} ${member?.lastName}, ${relationshipLabel}${isPending ? ', saving' : ''}${issueSeverity ? `, has data ${issueSeverity}s` : ''}`}
+      aria-busy={isPending}
     >
+      {issueSeverity && (
+        <span
+          className={`member-card-issue-badge ${issueSeverity}`}
+          title={issueSeverity === 'error' ? 'Has data errors' : 'Has data warnings'}
+          aria-hidden="true"
+        >
+          !
+        </span>
+      )}
       <div className="member-card-photo">
         {member?.photoUrl ? (
           <img 
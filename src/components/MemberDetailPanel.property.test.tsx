@@ -1,9 +1,10 @@
 import { describe, it, expect, vi } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import * as fc from 'fast-check';
 import { BrowserRouter } from 'react-router-dom';
 import MemberCard from './MemberCard';
 import MemberDetailPanel from './MemberDetailPanel';
+import { Relationship } from '../types/api';
 
 describe('MemberDetailPanel Property Tests', () => {
   // Generator for family member data
@@ -248,4 +249,54 @@ describe('MemberDetailPanel Property Tests', () => {
       { numRuns: 100 }
     );
   });
+
+  it('should save an edited link from the related member\'s point of view', () => {
+    const mum = { id: 'mum', firstName: 'Jane', lastName: 'Doe' };
+    const gran = { id: 'gran', firstName: 'Mary', lastName: 'Doe' };
+    // Saved the wrong way round: Jane recorded as Mary's parent
+    const relationships: Relationship[] = [
+      { id: 'rel-1', fromUserId: 'mum', toUserId: 'gran', relationshipType: 'parent', createdAt: new Date().toISOString() },
+    ];
+    const onUpdateRelationship = vi.fn();
+    const onDeleteRelationship = vi.fn();
+
+    render(
+      <MemberDetailPanel
+        selectedMember={mum}
+        allMembers={[mum, gran]}
+        relationships={relationships}
+        onProfileClick={vi.fn()}
+        onEditClick={vi.fn()}
+        onAddRelativeClick={vi.fn()}
+        onRelatedMemberClick={vi.fn()}
+        onTracePath={vi.fn()}
+        onUpdateRelationship={onUpdateRelationship}
+        onDeleteRelationship={onDeleteRelationship}
+        validateRelationship={(draft) => draft.relationshipType === 'spouse' ? 'Not allowed' : null}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit link to Mary Doe' }));
+    const typeSelect = screen.getByLabelText("Mary Doe is Jane Doe's");
+    expect((typeSelect as HTMLSelectElement).value).toBe('child');
+
+    // Changes the validator rejects cannot be saved
+    fireEvent.change(typeSelect, { target: { value: 'spouse' } });
+    expect(screen.getByRole('alert').textContent).toBe('Not allowed');
+    expect((screen.getByRole('button', { name: 'Save' }) as HTMLButtonElement).disabled).toBe(true);
+
+    fireEvent.change(typeSelect, { target: { value: 'parent' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    expect(onUpdateRelationship).toHaveBeenCalledWith('rel-1', {
+      fromUserId: 'gran',
+      toUserId: 'mum',
+      relationshipType: 'parent',
+      specificLabel: null,
+      lineage: null,
+    });
+    expect(onDeleteRelationship).not.toHaveBeenCalled();
+    // The editor closes once saved
+    expect(screen.queryByRole('group', { name: 'Edit link to Mary Doe' })).toBeNull();
+  });
 });
@@ -1,6 +1,12 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import RelationshipExplorer from './RelationshipExplorer';
+import RelationshipEditor from './RelationshipEditor';
 import TreeStatistics from './TreeStatistics';
+import { formatRelationshipType, getLineageLabel } from '../utils/relationshipPath';
+import { getInverseRelationshipType } from '../utils/relationshipGraph';
+import { RelationshipDraft } from '../utils/relationshipValidation';
+import { formatAge, formatGenealogicalDate, getAge } from '../utils/genealogicalDate';
+import { Relationship, UpdateRelationshipRequest } from '../types/api';
 import './MemberDetailPanel.scss';
 
 interface Member {
@@ -8,16 +14,11 @@ interface Member {
   firstName: string;
   lastName: string;
   dateOfBirth?: string;
+  dateOfDeath?: string;
+  isLiving?: boolean;
   photoUrl?: string;
   location?: string;
-}
-
-interface Relationship {
-  id: string;
-  fromUserId: string;
-  toUserId: string;
-  relationshipType: string;
-  specificLabel?: string;
+  gender?: 'male' | 'female' | 'other' | 'prefer-not-to-say';
 }
 
 interface MemberDetailPanelProps {
@@ -30,6 +31,14 @@ interface MemberDetailPanelProps {
   onAddRelativeClick: () => void;
   onRelatedMemberClick: (memberId: string) => void;
   onTracePath: (startId: string, targetId: string) => void;
+  // Omitted for members who cannot be merged or deleted, such as the tree owner
+  onMergeClick?: () => void;
+  onDeleteClick?: () => void;
+  // Omitted when links to related members cannot be edited
+  onUpdateRelationship?: (relationshipId: string, relationshipData: UpdateRelationshipRequest) => void;
+  onDeleteRelationship?: (relationshipId: string) => void;
+  // Why an edited link would make the tree impossible, or null if it is allowed
+  validateRelationship?: (draft: RelationshipDraft) => string | null;
 }
 
 interface RelatedMemberInfo {
@@ -50,27 +59,27 @@ const MemberDetailPanel: React.FC<MemberDetailPanelProps> = ({
   onEditClick, 
   onAddRelativeClick,
   onRelatedMemberClick,
-  onTracePath 
+  onTracePath,
+  onMergeClick,
+  onDeleteClick,
+  onUpdateRelationship,
+  onDeleteRelationship,
+  validateRelationship
 }) => {
-  // Extract birth year from dateOfBirth
-  const getBirthYear = (dateOfBirth?: string): string | null => {
-    if (!dateOfBirth) return null;
-    
-    // Try parsing as YYYY-MM-DD format first
-    const isoMatch = dateOfBirth.match(/^(\d{4})-\d{2}-\d{2}$/);
-    if (isoMatch) {
-      return isoMatch[1];
-    }
-    
-    // Try parsing as DD/MM/YYYY format
-    const dmyMatch = dateOfBirth.match(/^\d{2}\/\d{2}\/(\d{4})$/);
-    if (dmyMatch) {
-      return dmyMatch[1];
+  const [editingRelationshipId, setEditingRelationshipId] = useState<string | null>(null);
+  const canEditRelationships = !!onUpdateRelationship && !!onDeleteRelationship;
+
+  // Describe how old a member is, or was when they died
+  const getAgeLabel = (member: Member): string | null => {
+    if (member.dateOfDeath) {
+      const age = getAge(member.dateOfBirth, member.dateOfDeath);
+      const died = formatGenealogicalDate(member.dateOfDeath, { yearOnly: true });
+      if (!died) return null;
+      return age ? `Died ${died}, aged ${formatAge(age)}` : `Died ${died}`;
     }
-    
-    // Fallback: try to extract any 4-digit year
-    const yearMatch = dateOfBirth.match(/\d{4}/);
-    return yearMatch ? yearMatch[0] : null;
+    // Members recorded as deceased without a date of death are not aged to today
+    const age = member.isLiving !== false ? getAge(member.dateOfBirth) : null;
+    return age ? `Age ${formatAge(age)}` : null;
   };
 
   // Get initials for a member
@@ -78,24 +87,22 @@ const MemberDetailPanel: React.FC<MemberDetailPanelProps> = ({
     return `${firstName.charAt(0)}${lastName.charAt(0)}`.toUpperCase();
   };
 
-  // Get relationship label for display
-  const getRelationshipLabel = (relationship: Relationship): string => {
-    const typeLabels: Record<string, string> = {
-      parent: 'Parent',
-      child: 'Child',
-      sibling: 'Sibling',
-      spouse: 'Spouse',
-      grandparent: 'Grandparent',
-      grandchild: 'Grandchild',
-      aunt: 'Aunt',
-      uncle: 'Uncle',
-      cousin: 'Cousin',
-      other: 'Relative'
-    };
-    
-    return relationship.specificLabel || typeLabels[relationship.relationshipType] || 'Relative';
+  // Get relationship label for display, describing the related member
+  const getRelationshipLabel = (relationship: Relationship, member: Member): string => {
+    // Relationship types describe fromUser, so they flip when the related member is toUser
+    const relationshipType = relationship.fromUserId === member.id
+      ? relationship.relationshipType
+      : getInverseRelationshipType(relationship.relationshipType);
+
+    return relationship.specificLabel
+      || getLineageLabel(relationshipType, relationship.lineage, member.gender)
+      || formatRelationshipType(relationshipType)
+      || 'Relative';
   };
 
+  // Members by ID, so each relationship looks its member up instead of scanning the list
+  const membersById = useMemo(() => new Map(allMembers.map(member => [member.id, member])), [allMembers]);
+
   // Find all related members
   const relatedMembers = useMemo((): RelatedMemberInfo[] => {
     if (!selectedMember || !relationships || !allMembers) return [];
@@ -117,7 +124,7 @@ const MemberDetailPanel: React.FC<MemberDetailPanelProps> = ({
       }
 
       if (relatedMemberId && !relatedIds.has(relatedMemberId) && relationshipInfo) {
-        const relatedMember = allMembers.find(m => m.id === relatedMemberId);
+        const relatedMember = membersById.get(relatedMemberId);
         if (relatedMember) {
           relatedIds.add(relatedMemberId);
           related.push({
@@ -129,13 +136,14 @@ const MemberDetailPanel: React.FC<MemberDetailPanelProps> = ({
     });
 
     return related;
-  }, [selectedMember, relationships, allMembers]);
+  }, [selectedMember, relationships, allMembers, membersById]);
 
   if (!selectedMember) {
     return null;
   }
 
-  const birthYear = getBirthYear(selectedMember.dateOfBirth);
+  const birthYear = formatGenealogicalDate(selectedMember.dateOfBirth, { yearOnly: true });
+  const ageLabel = getAgeLabel(selectedMember);
 
   return (
     <div className="member-detail-panel">
@@ -163,6 +171,9 @@ const MemberDetailPanel: React.FC<MemberDetailPanelProps> = ({
           {birthYear && (
             <p className="member-detail-birth-year">Born {birthYear}</p>
           )}
+          {ageLabel && (
+            <p className="member-detail-age">{ageLabel}</p>
+          )}
           {selectedMember.location && (
             <p className="member-detail-location">{selectedMember.location}</p>
           )}
@@ -196,52 +207,104 @@ const MemberDetailPanel: React.FC<MemberDetailPanelProps> = ({
         <span className="add-relative-text">Add Relative</span>
       </button>
 
+      {(onMergeClick || onDeleteClick) && (
+        <div className="member-detail-manage-actions">
+          {onMergeClick && (
+            <button
+              className="member-detail-manage-button"
+              onClick={onMergeClick}
+              aria-label="Merge a duplicate record into this member"
+            >
+              Merge duplicate
+            </button>
+          )}
+          {onDeleteClick && (
+            <button
+              className="member-detail-manage-button danger"
+              onClick={onDeleteClick}
+              aria-label="Delete this member"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Related Members List */}
       {relatedMembers.length > 0 && (
         <div className="member-detail-related">
           <h3 className="member-detail-related-heading">Related Members</h3>
           <div className="member-detail-related-list">
             {relatedMembers.map(({ member, relationship }) => (
-              <div 
-                key={member.id}
-                className="related-member-item"
-                onClick={() => onRelatedMemberClick(member.id)}
-                role="button"
-                tabIndex={0}
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter' || e.key === ' ') {
-                    e.preventDefault();
-                    onRelatedMemberClick(member.id);
-                  }
-                }}
-                aria-label={`View ${member.firstName} ${member.lastName}, ${getRelationshipLabel(relationship)}`}
-              >
-                <div className="related-member-photo-container">
-                  {member.photoUrl ? (
-                    <img 
-                      src={member.photoUrl} 
-                      alt={`${member.firstName} ${member.lastName}`}
-                      className="related-member-photo"
-                      loading="lazy"
-                    />
-                  ) : (
-                    <div className="related-member-photo-placeholder">
-                      {getInitials(member.firstName, member.lastName)}
+              editingRelationshipId === relationship.id && canEditRelationships ? (
+                <RelationshipEditor
+                  key={member.id}
+                  relationship={relationship}
+                  member={selectedMember}
+                  relative={member}
+                  onSave={(relationshipData) => {
+                    onUpdateRelationship(relationship.id, relationshipData);
+                    setEditingRelationshipId(null);
+                  }}
+                  onDelete={() => {
+                    onDeleteRelationship(relationship.id);
+                    setEditingRelationshipId(null);
+                  }}
+                  onCancel={() => setEditingRelationshipId(null)}
+                  validate={validateRelationship}
+                />
+              ) : (
+                <div key={member.id} className="related-member-row">
+                  <div 
+                    className="related-member-item"
+                    onClick={() => onRelatedMemberClick(member.id)}
+                    role="button"
+                    tabIndex={0}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' || e.key === ' ') {
+                        e.preventDefault();
+                        onRelatedMemberClick(member.id);
+                      }
+                    }}
+                    aria-label={`View ${member.firstName} ${member.lastName}, ${getRelationshipLabel(relationship, member)}`}
+                  >
+                    <div className="related-member-photo-container">
+                      {member.photoUrl ? (
+                        <img 
+                          src={member.photoUrl} 
+                          alt={`${member.firstName} ${member.lastName}`}
+                          className="related-member-photo"
+                          loading="lazy"
+                        />
+                      ) : (
+                        <div className="related-member-photo-placeholder">
+                          {getInitials(member.firstName, member.lastName)}
+                        </div>
+                      )}
+                      <div className="related-member-initials-badge">
+                        {getInitials(member.firstName, member.lastName)}
+                      </div>
+                    </div>
+                    <div className="related-member-info">
+                      <p className="related-member-name">
+                        {member.firstName} {member.lastName}
+                      </p>
+                      <p className="related-member-relationship">
+                        {getRelationshipLabel(relationship, member)}
+                      </p>
                     </div>
-                  )}
-                  <div className="related-member-initials-badge">
-                    {getInitials(member.firstName, member.lastName)}
                   </div>
+                  {canEditRelationships && (
+                    <button
+                      className="related-member-edit-button"
+                      onClick={() => setEditingRelationshipId(relationship.id)}
+                      aria-label={`Edit link to ${member.firstName} ${member.lastName}`}
+                    >
+                      Edit link
+                    </button>
+                  )}
                 </div>
-                <div className="related-member-info">
-                  <p className="related-member-name">
-                    {member.firstName} {member.lastName}
-                  </p>
-                  <p className="related-member-relationship">
-                    {getRelationshipLabel(relationship)}
-                  </p>
-                </div>
-              </div>
+              )
             ))}
           </div>
         </div>
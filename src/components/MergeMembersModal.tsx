@@ -0,0 +1,283 @@
+import React, { useState } from 'react';
+import {
+  MergeableField,
+  MergeSelections,
+  MergeSource,
+  getDefaultMergeSelections,
+  getDifferingFields,
+  previewMemberMerge,
+  toMergedMemberData
+} from '../utils/memberMerge';
+import { formatRelativeType } from '../utils/relationshipPath';
+import { formatGenealogicalDate } from '../utils/genealogicalDate';
+import { FamilyMember, Relationship, MergeFamilyMembersRequest } from '../types/api';
+import './MergeMembersModal.scss';
+
+interface MergeMembersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Member kept; the duplicate chosen is merged into them
+  member: FamilyMember;
+  members: FamilyMember[];
+  relationships: Relationship[];
+  // Member the tree is drawn from; never offered as the duplicate
+  rootMemberId: string;
+  // Duplicate chosen when the modal first opens, e.g. from the duplicates report
+  initialDuplicateId?: string;
+  onMerge: (mergeData: MergeFamilyMembersRequest) => void;
+}
+
+const FIELD_LABELS: Record<MergeableField, string> = {
+  firstName: 'First name',
+  lastName: 'Last name',
+  gender: 'Gender',
+  dateOfBirth: 'Date of birth',
+  dateOfDeath: 'Date of death',
+  isLiving: 'Status',
+  email: 'Email',
+  phoneNumber: 'Phone',
+  location: 'Location',
+  occupation: 'Occupation',
+  photoUrl: 'Photo',
+  biography: 'Biography',
+};
+
+const MAX_VALUE_LENGTH = 60;
+
+/**
+ * MergeMembersModal merges a duplicate record into a member: the user picks which
+ * record each differing field comes from and previews where the duplicate's
+ * relationships end up before anything is saved.
+ * Both members show as pending until the server has merged them.
+ */
+const MergeMembersModal: React.FC<MergeMembersModalProps> = ({
+  isOpen,
+  onClose,
+  member,
+  members,
+  relationships,
+  rootMemberId,
+  initialDuplicateId = '',
+  onMerge,
+}) => {
+  const [duplicateId, setDuplicateId] = useState<string>(initialDuplicateId);
+  const [selections, setSelections] = useState<MergeSelections | null>(() => {
+    const initialDuplicate = members.find(candidate => candidate.id === initialDuplicateId);
+    return initialDuplicate ? getDefaultMergeSelections(member, initialDuplicate) : null;
+  });
+
+  if (!isOpen) return null;
+
+  const candidates = members.filter(candidate => candidate.id !== member.id && candidate.id !== rootMemberId);
+  const duplicate = candidates.find(candidate => candidate.id === duplicateId) || null;
+  const preview = duplicate && selections
+    ? previewMemberMerge(member, duplicate, selections, relationships)
+    : null;
+  const differingFields = duplicate ? getDifferingFields(member, duplicate) : [];
+  const membersById = new Map(members.map(known => [known.id, known]));
+
+  const resetState = (): void => {
+    setDuplicateId('');
+    setSelections(null);
+  };
+
+  const handleDuplicateChange = (e: React.ChangeEvent<HTMLSelectElement>): void => {
+    const chosen = candidates.find(candidate => candidate.id === e.target.value);
+    setDuplicateId(e.target.value);
+    setSelections(chosen ? getDefaultMergeSelections(member, chosen) : null);
+  };
+
+  const handleSelect = (field: MergeableField, source: MergeSource): void => {
+    if (!selections) return;
+    setSelections({ ...selections, [field]: source });
+  };
+
+  const handleMerge = (): void => {
+    if (!duplicate || !preview || preview.invalidReason) return;
+
+    onMerge({
+      keepMemberId: member.id,
+      mergeMemberId: duplicate.id,
+      memberData: toMergedMemberData(preview.member),
+    });
+    resetState();
+    onClose();
+  };
+
+  const handleCancel = (): void => {
+    resetState();
+    onClose();
+  };
+
+  const formatMember = (person: FamilyMember): string => {
+    const year = formatGenealogicalDate(person.dateOfBirth, { yearOnly: true });
+    const name = `${person.firstName} ${person.lastName}`.trim();
+    return year ? `${name} (b. ${year})` : name;
+  };
+
+  const formatValue = (field: MergeableField, person: FamilyMember): string => {
+    const value = person[field];
+    if (field === 'isLiving') return value ? 'Living' : 'Deceased';
+    if (value === undefined || value === null || value === '') return '—';
+    if (field === 'photoUrl') return 'Photo';
+    const text = String(value);
+    return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+  };
+
+  // Describes the relative at the other end of a relationship of memberId
+  const formatRelationship = (relationship: Relationship, memberId: string): string => {
+    const relativeId = relationship.fromUserId === memberId ? relationship.toUserId : relationship.fromUserId;
+    const relative = membersById.get(relativeId);
+    const name = relative ? `${relative.firstName} ${relative.lastName}`.trim() : 'Unknown member';
+    return `${name} (${formatRelativeType(relationship, relativeId)})`;
+  };
+
+  const renderChoice = (field: MergeableField, source: MergeSource, person: FamilyMember) => (
+    <td>
+      <label className={`merge-members-choice${selections?.[field] === source ? ' selected' : ''}`}>
+        <input
+          type="radio"
+          name={`merge-${field}`}
+          checked={selections?.[field] === source}
+          onChange={() => handleSelect(field, source)}
+        />
+        {formatValue(field, person)}
+      </label>
+    </td>
+  );
+
+  const fieldsFromDuplicate = differingFields.filter(field => selections?.[field] === 'merge').length;
+
+  return (
+    <div className="merge-members-overlay" onClick={handleCancel}>
+      <div
+        className="merge-members-modal"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="merge-members-title"
+      >
+        <div className="merge-members-header">
+          <div>
+            <h2 id="merge-members-title" className="merge-members-title">Merge duplicate</h2>
+            <p className="merge-members-subtitle">Combine another record of {formatMember(member)} into this one</p>
+          </div>
+          <button className="merge-members-close" onClick={handleCancel} aria-label="Close">
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="merge-members-body">
+          <label htmlFor="merge-duplicate" className="merge-members-label">Duplicate record</label>
+          <select
+            id="merge-duplicate"
+            className="merge-members-select"
+            value={duplicateId}
+            onChange={handleDuplicateChange}
+          >
+            <option value="">Choose a member...</option>
+            {candidates.map(candidate => (
+              <option key={candidate.id} value={candidate.id}>{formatMember(candidate)}</option>
+            ))}
+          </select>
+
+          {duplicate && preview && (
+            <div className="merge-members-preview">
+              {differingFields.length > 0 ? (
+                <table className="merge-members-fields">
+                  <thead>
+                    <tr>
+                      <th scope="col">Field</th>
+                      <th scope="col">Keep</th>
+                      <th scope="col">Duplicate</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {differingFields.map(field => (
+                      <tr key={field}>
+                        <th scope="row">{FIELD_LABELS[field]}</th>
+                        {renderChoice(field, 'keep', member)}
+                        {renderChoice(field, 'merge', duplicate)}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="merge-members-note">Both records have the same details.</p>
+              )}
+
+              <div className="merge-members-summary">
+                <div className="merge-members-stat">
+                  <span className="merge-members-stat-value">{fieldsFromDuplicate}</span>
+                  <span className="merge-members-stat-label">Details from duplicate</span>
+                </div>
+                <div className="merge-members-stat">
+                  <span className="merge-members-stat-value">{preview.repointed.length}</span>
+                  <span className="merge-members-stat-label">Relationships moved</span>
+                </div>
+                <div className="merge-members-stat">
+                  <span className="merge-members-stat-value">{preview.removed.length}</span>
+                  <span className="merge-members-stat-label">Relationships removed</span>
+                </div>
+              </div>
+
+              {preview.repointed.length > 0 && (
+                <div className="merge-members-section">
+                  <h3 className="merge-members-section-title">Will move to {formatMember(preview.member)}</h3>
+                  <ul className="merge-members-list">
+                    {preview.repointed.map(relationship => (
+                      <li key={relationship.id} className="merge-members-list-item moved">
+                        {formatRelationship(relationship, member.id)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {preview.removed.length > 0 && (
+                <div className="merge-members-section">
+                  <h3 className="merge-members-section-title">Already linked, will be removed</h3>
+                  <ul className="merge-members-list">
+                    {preview.removed.map(relationship => (
+                      <li key={relationship.id} className="merge-members-list-item removed">
+                        {formatRelationship(relationship, duplicate.id)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {preview.invalidReason ? (
+                <p className="merge-members-error" role="alert">
+                  These records can't be merged. {preview.invalidReason}.
+                </p>
+              ) : (
+                <p className="merge-members-note">
+                  {formatMember(duplicate)} will be deleted once the records are merged.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="merge-members-footer">
+          <button type="button" className="btn-cancel" onClick={handleCancel}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="btn-submit"
+            onClick={handleMerge}
+            disabled={!preview || !!preview.invalidReason}
+          >
+            Merge
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeMembersModal;
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import PedigreeChart from './PedigreeChart';
+import { FamilyMember, Relationship } from '../types/components';
+
+const member = (id: string, gender: FamilyMember['gender']): FamilyMember => ({
+  id,
+  firstName: id.charAt(0).toUpperCase() + id.slice(1),
+  lastName: 'Evans',
+  gender,
+  createdBy: 'user-1',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+});
+
+const parentOf = (parentId: string, childId: string): Relationship => ({
+  id: `${parentId}-${childId}`,
+  fromUserId: parentId,
+  toUserId: childId,
+  relationshipType: 'parent',
+  createdAt: '2024-01-01T00:00:00.000Z',
+});
+
+const members = [member('rose', 'female'), member('tom', 'male'), member('ann', 'female'), member('arthur', 'male')];
+const relationships = [parentOf('tom', 'rose'), parentOf('ann', 'rose'), parentOf('arthur', 'tom')];
+
+const shownIds = (container: HTMLElement): string[] =>
+  Array.from(container.querySelectorAll<HTMLElement>('[data-member-id]')).map(card => card.dataset.memberId as string);
+
+describe('PedigreeChart', () => {
+  it('should show ancestors up to the generation limit and open further branches on request', () => {
+    const { container } = render(
+      <PedigreeChart members={members} relationships={relationships} rootMemberId="rose" generations={1} />
+    );
+
+    expect(shownIds(container)).toEqual(['rose', 'tom', 'ann']);
+    expect(screen.getByLabelText('Tom Evans, Father')).toBeTruthy();
+
+    const toggle = screen.getByRole('button', { name: 'Show ancestors of Tom Evans' });
+    expect(toggle.getAttribute('aria-expanded')).toBe('false');
+    fireEvent.click(toggle);
+    expect(shownIds(container)).toEqual(['rose', 'tom', 'ann', 'arthur']);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Hide ancestors of Rose Evans' }));
+    expect(shownIds(container)).toEqual(['rose']);
+  });
+
+  it('should report clicks on ancestors so the chart can be re-rooted', () => {
+    const onMemberClick = vi.fn();
+    render(
+      <PedigreeChart
+        members={members}
+        relationships={relationships}
+        rootMemberId="rose"
+        generations={3}
+        highlightedIds={['arthur']}
+        onMemberClick={onMemberClick}
+      />
+    );
+
+    const grandfather = screen.getByLabelText('Arthur Evans, Paternal grandfather');
+    expect(grandfather.className).toContain('member-card-highlighted');
+    expect(screen.getByLabelText('Ann Evans, Mother').className).toContain('member-card-dimmed');
+
+    fireEvent.click(grandfather);
+    expect(onMemberClick).toHaveBeenCalledWith('arthur');
+  });
+});
@@ -0,0 +1,94 @@
+import React, { useMemo, useState } from 'react';
+import MemberCard from './MemberCard';
+import {
+  calculatePedigreeLayout,
+  PedigreeBranchToggle,
+  PEDIGREE_CARD_HEIGHT,
+  PEDIGREE_CARD_WIDTH
+} from '../utils/pedigreeLayout';
+import { PedigreeChartProps } from '../types/components';
+import './PedigreeChart.scss';
+
+/**
+ * PedigreeChart component - Ancestors of one member as a horizontal bracket
+ * Parents are shown a fixed number of generations up; branches can be opened further
+ * or closed with the toggle beside each card. Clicking a card selects the member, which
+ * the page uses to re-root the chart.
+ */
+const PedigreeChart: React.FC<PedigreeChartProps> = ({
+  members,
+  relationships,
+  rootMemberId,
+  generations,
+  selectedMemberId = null,
+  highlightedIds = [],
+  pendingMemberIds = [],
+  issueSeverities = {},
+  onMemberClick,
+  className = '',
+}) => {
+  // Branches opened or closed by hand, keyed by Ahnentafel number
+  const [toggles, setToggles] = useState<Record<number, PedigreeBranchToggle>>({});
+
+  const layout = useMemo(
+    () => calculatePedigreeLayout(members, relationships, rootMemberId, generations, toggles),
+    [members, relationships, rootMemberId, generations, toggles]
+  );
+
+  if (!layout) {
+    return null;
+  }
+
+  const handleToggle = (number: number, isExpanded: boolean): void => {
+    setToggles(prev => ({ ...prev, [number]: isExpanded ? 'collapsed' : 'expanded' }));
+  };
+
+  return (
+    <div
+      className={`pedigree-chart ${className}`}
+      style={{ width: layout.width, height: layout.height }}
+      data-testid="pedigree-chart"
+    >
+      <svg className="pedigree-chart-lines" width={layout.width} height={layout.height} aria-hidden="true">
+        {layout.connectors.map(connector => (
+          <path key={`${connector.childNumber}-${connector.parentNumber}`} d={connector.path} />
+        ))}
+      </svg>
+      {layout.slots.map(slot => {
+        const name = `${slot.member.firstName} ${slot.member.lastName}`.trim();
+        return (
+          <div
+            key={slot.number}
+            className="pedigree-chart-slot"
+            style={{ left: slot.x, top: slot.y, width: PEDIGREE_CARD_WIDTH, height: PEDIGREE_CARD_HEIGHT }}
+          >
+            <MemberCard
+              member={slot.member}
+              relationshipLabel={slot.label}
+              isRoot={slot.number === 1}
+              isSelected={selectedMemberId === slot.member.id}
+              isHighlighted={highlightedIds.includes(slot.member.id)}
+              isDimmed={highlightedIds.length > 0 && !highlightedIds.includes(slot.member.id)}
+              isPending={pendingMemberIds.includes(slot.member.id)}
+              issueSeverity={issueSeverities[slot.member.id]}
+              onClick={onMemberClick}
+            />
+            {slot.hasParents && (
+              <button
+                type="button"
+                className="pedigree-chart-toggle"
+                onClick={() => handleToggle(slot.number, slot.isExpanded)}
+                aria-expanded={slot.isExpanded}
+                aria-label={`${slot.isExpanded ? 'Hide' : 'Show'} ancestors of ${name}`}
+              >
+                {slot.isExpanded ? '−' : '+'}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PedigreeChart;
@@ -97,6 +97,19 @@ const BirthdayUpdate: React.FC<BirthdayUpdateProps> = ({ data }) => {
     return `${month} ${day}`;
   };
 
+  // When the birthday is, counted in local days from today
+  const formatWhen = (dateStr: string): string => {
+    const d = new Date(dateStr);
+    const today = new Date();
+    const days = Math.round(
+      (new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime()
+        - new Date(today.getFullYear(), today.getMonth(), today.getDate()).getTime()) / (24 * 60 * 60 * 1000)
+    );
+    if (days === 0) return 'today';
+    if (days === 1) return 'tomorrow';
+    return `on ${d.toLocaleDateString('en-US', { weekday: 'long' })}`;
+  };
+
   return (
     <div className="update-item birthday-update">
       <div className="update-icon birthday-icon">
@@ -107,7 +120,7 @@ const BirthdayUpdate: React.FC<BirthdayUpdateProps> = ({ data }) => {
       </div>
       <div className="update-content">
         <p className="update-text">
-          <strong>{relativeName}</strong> has a birthday tomorrow!
+          <strong>{relativeName}</strong> has a birthday {formatWhen(date)}!
         </p>
         <p className="update-meta">
           Turning {age} • {formatDate(date)}
@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { formatRelationshipType } from '../utils/relationshipPath';
+import { INVERSE_RELATIONSHIP_TYPES, getInverseRelationshipType } from '../utils/relationshipGraph';
+import { RelationshipDraft } from '../utils/relationshipValidation';
+import { Lineage, Relationship, UpdateRelationshipRequest } from '../types/api';
+import './RelationshipEditor.scss';
+
+interface EditorMember {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface EditorRelationship {
+  id: string;
+  fromUserId: string;
+  toUserId: string;
+  relationshipType: string;
+  specificLabel?: string;
+  lineage?: Lineage;
+}
+
+interface RelationshipEditorProps {
+  relationship: EditorRelationship;
+  // Member whose panel the link is edited from
+  member: EditorMember;
+  // Member at the other end of the link, described by the relationship type chosen
+  relative: EditorMember;
+  onSave: (relationshipData: UpdateRelationshipRequest) => void;
+  onDelete: () => void;
+  onCancel: () => void;
+  // Why a change would make the tree impossible, or null if it is allowed
+  validate?: (draft: RelationshipDraft) => string | null;
+}
+
+const RELATIONSHIP_TYPES = Object.keys(INVERSE_RELATIONSHIP_TYPES) as Relationship['relationshipType'][];
+
+const LINEAGE_OPTIONS: { value: Lineage; label: string }[] = [
+  { value: 'biological', label: 'Biological' },
+  { value: 'adoptive', label: 'Adoptive' },
+  { value: 'step', label: 'Step' },
+  { value: 'foster', label: 'Foster' },
+  { value: 'guardian', label: 'Guardian' },
+];
+
+/**
+ * RelationshipEditor edits a link between two members from one member's point of view:
+ * the relative's relationship type, label and lineage, or removes the link.
+ * The link is saved as the relative being that type to the member, which also fixes
+ * a link saved the wrong way round.
+ */
+const RelationshipEditor: React.FC<RelationshipEditorProps> = ({
+  relationship,
+  member,
+  relative,
+  onSave,
+  onDelete,
+  onCancel,
+  validate,
+}) => {
+  // Relationship types describe fromUser, so they flip when the relative is toUser
+  const initialType = (relationship.fromUserId === relative.id
+    ? relationship.relationshipType
+    : getInverseRelationshipType(relationship.relationshipType)) as Relationship['relationshipType'];
+
+  const [relationshipType, setRelationshipType] = useState<Relationship['relationshipType']>(initialType);
+  const [specificLabel, setSpecificLabel] = useState<string>(relationship.specificLabel || '');
+  const [lineage, setLineage] = useState<Lineage>(relationship.lineage || 'biological');
+  const [confirmingDelete, setConfirmingDelete] = useState<boolean>(false);
+
+  const hasLineage = relationshipType === 'parent' || relationshipType === 'child';
+  const invalidReason = validate?.({
+    id: relationship.id,
+    fromUserId: relative.id,
+    toUserId: member.id,
+    relationshipType,
+  }) || null;
+  const hasChanges = relationshipType !== initialType
+    || specificLabel.trim() !== (relationship.specificLabel || '')
+    || (hasLineage && lineage !== (relationship.lineage || 'biological'));
+
+  const handleSave = (): void => {
+    if (invalidReason) return;
+
+    onSave({
+      fromUserId: relative.id,
+      toUserId: member.id,
+      relationshipType,
+      specificLabel: specificLabel.trim() || null,
+      lineage: hasLineage && lineage !== 'biological' ? lineage : null,
+    });
+  };
+
+  const relativeName = `${relative.firstName} ${relative.lastName}`.trim();
+  const memberName = `${member.firstName} ${member.lastName}`.trim();
+
+  if (confirmingDelete) {
+    return (
+      <div className="relationship-editor" role="group" aria-label={`Remove link to ${relativeName}`}>
+        <p className="relationship-editor-confirm">
+          Remove the link between {memberName} and {relativeName}? Both stay in the family tree.
+        </p>
+        <div className="relationship-editor-actions">
+          <button type="button" className="relationship-editor-button" onClick={() => setConfirmingDelete(false)}>
+            Keep link
+          </button>
+          <button type="button" className="relationship-editor-button danger" onClick={onDelete}>
+            Remove link
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relationship-editor" role="group" aria-label={`Edit link to ${relativeName}`}>
+      <label className="relationship-editor-label" htmlFor={`relationship-type-${relationship.id}`}>
+        {relativeName} is {memberName}'s
+      </label>
+      <select
+        id={`relationship-type-${relationship.id}`}
+        className="relationship-editor-input"
+        value={relationshipType}
+        onChange={(e) => setRelationshipType(e.target.value as Relationship['relationshipType'])}
+      >
+        {RELATIONSHIP_TYPES.map(type => (
+          <option key={type} value={type}>{formatRelationshipType(type)}</option>
+        ))}
+      </select>
+
+      {hasLineage && (
+        <>
+          <label className="relationship-editor-label" htmlFor={`relationship-lineage-${relationship.id}`}>
+            {relationshipType === 'parent' ? 'Parent type' : 'Child type'}
+          </label>
+          <select
+            id={`relationship-lineage-${relationship.id}`}
+            className="relationship-editor-input"
+            value={lineage}
+            onChange={(e) => setLineage(e.target.value as Lineage)}
+          >
+            {LINEAGE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </>
+      )}
+
+      <label className="relationship-editor-label" htmlFor={`relationship-label-${relationship.id}`}>
+        Label (optional)
+      </label>
+      <input
+        id={`relationship-label-${relationship.id}`}
+        type="text"
+        className="relationship-editor-input"
+        placeholder={formatRelationshipType(relationshipType)}
+        value={specificLabel}
+        onChange={(e) => setSpecificLabel(e.target.value)}
+      />
+
+      {invalidReason && (
+        <p className="relationship-editor-error" role="alert">{invalidReason}</p>
+      )}
+
+      <div className="relationship-editor-actions">
+        <button type="button" className="relationship-editor-button danger" onClick={() => setConfirmingDelete(true)}>
+          Remove link
+        </button>
+        <button type="button" className="relationship-editor-button" onClick={onCancel}>
+          Cancel
+        </button>
+        <button
+          type="button"
+          className="relationship-editor-button primary"
+          onClick={handleSave}
+          disabled={!!invalidReason || !hasChanges}
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RelationshipEditor;
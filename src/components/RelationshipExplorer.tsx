@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
 import { findRelationshipPath } from '../utils/relationshipPath';
+import { calculateKinship, KinshipResult } from '../utils/kinship';
+import { Relationship } from '../types/api';
 import './RelationshipExplorer.scss';
 
 interface Member {
@@ -7,14 +9,7 @@ interface Member {
   firstName: string;
   lastName: string;
   photoUrl?: string;
-}
-
-interface Relationship {
-  id: string;
-  fromUserId: string;
-  toUserId: string;
-  relationshipType: string;
-  specificLabel?: string;
+  gender?: 'male' | 'female' | 'other' | 'prefer-not-to-say';
 }
 
 interface RelationshipExplorerProps {
@@ -26,7 +21,7 @@ interface RelationshipExplorerProps {
 
 /**
  * RelationshipExplorer component allows users to find and trace relationship paths
- * between two family members in the tree.
+ * between two family members in the tree, and names how they are related.
  */
 const RelationshipExplorer: React.FC<RelationshipExplorerProps> = ({ 
   startMember, 
@@ -36,11 +31,13 @@ const RelationshipExplorer: React.FC<RelationshipExplorerProps> = ({
 }) => {
   const [targetMemberId, setTargetMemberId] = useState<string>('');
   const [pathResult, setPathResult] = useState<any>(null);
+  const [kinship, setKinship] = useState<KinshipResult | null>(null);
 
   const handleTargetChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     setTargetMemberId(e.target.value);
     // Clear previous path result when target changes
     setPathResult(null);
+    setKinship(null);
   };
 
   const handleTracePath = () => {
@@ -53,6 +50,7 @@ const RelationshipExplorer: React.FC<RelationshipExplorerProps> = ({
         allMembers
       );
       setPathResult(result);
+      setKinship(calculateKinship(startMember.id, targetMemberId, relationships, allMembers));
       
       // Also call the parent callback if provided
       if (onTracePath) {
@@ -63,6 +61,7 @@ const RelationshipExplorer: React.FC<RelationshipExplorerProps> = ({
 
   // Filter out the start member from the dropdown
   const availableMembers = allMembers.filter(m => m.id !== startMember?.id);
+  const targetMember = allMembers.find(m => m.id === targetMemberId);
 
   return (
     <div className="relationship-explorer">
@@ -135,6 +134,12 @@ const RelationshipExplorer: React.FC<RelationshipExplorerProps> = ({
         <div className="relationship-explorer-result">
           {pathResult.connected ? (
             <>
+              {kinship && targetMember && startMember && (
+                <p className="relationship-explorer-kinship">
+                  {targetMember.firstName} {targetMember.lastName} is {startMember.firstName}'s{' '}
+                  <strong className="relationship-explorer-kinship-term">{kinship.term}</strong>
+                </p>
+              )}
               <h4 className="relationship-explorer-result-title">Relationship Path:</h4>
               <p className="relationship-explorer-result-description">
                 {pathResult.description}
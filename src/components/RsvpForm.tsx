@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { clampGuestCount, MAX_RSVP_GUESTS } from '../utils/eventRsvp';
+import { RsvpFormProps, RsvpResponse } from '../types/components';
+import './RsvpForm.scss';
+
+const RESPONSE_OPTIONS: Array<{ response: RsvpResponse; label: string }> = [
+  { response: 'going', label: 'Going' },
+  { response: 'maybe', label: 'Maybe' },
+  { response: 'declined', label: "Can't Go" },
+];
+
+/**
+ * RsvpForm component - Reply to an event: going, maybe or can't go, with how many
+ * extra guests are coming along and any dietary needs
+ * Members who can't go bring no guests, so those fields are hidden for them.
+ */
+const RsvpForm: React.FC<RsvpFormProps> = ({ initialReply, onSubmit, onCancel, className = '' }) => {
+  const [response, setResponse] = useState<RsvpResponse>(initialReply.response);
+  const [guestCount, setGuestCount] = useState<number>(initialReply.guestCount);
+  const [dietaryNotes, setDietaryNotes] = useState<string>(initialReply.dietaryNotes || '');
+
+  const isComing = response !== 'declined';
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>): void => {
+    e.preventDefault();
+    onSubmit({
+      response,
+      guestCount: isComing ? clampGuestCount(guestCount) : 0,
+      dietaryNotes: isComing ? dietaryNotes.trim() || undefined : undefined,
+    });
+  };
+
+  return (
+    <form className={`rsvp-form ${className}`} onSubmit={handleSubmit} aria-label="Your reply">
+      <div className="rsvp-form-responses" role="group" aria-label="Are you going?">
+        {RESPONSE_OPTIONS.map(option => (
+          <button
+            key={option.response}
+            type="button"
+            className={`rsvp-form-response ${option.response} ${response === option.response ? 'active' : ''}`}
+            aria-pressed={response === option.response}
+            onClick={() => setResponse(option.response)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {isComing && (
+        <div className="rsvp-form-details">
+          <label className="rsvp-form-field">
+            <span className="rsvp-form-label">Extra guests</span>
+            <input
+              type="number"
+              className="rsvp-form-input rsvp-form-guests"
+              min={0}
+              max={MAX_RSVP_GUESTS}
+              value={guestCount}
+              onChange={(e) => setGuestCount(Number(e.target.value))}
+            />
+          </label>
+          <label className="rsvp-form-field">
+            <span className="rsvp-form-label">Dietary notes</span>
+            <input
+              type="text"
+              className="rsvp-form-input"
+              placeholder="e.g. Vegetarian, nut allergy"
+              value={dietaryNotes}
+              onChange={(e) => setDietaryNotes(e.target.value)}
+            />
+          </label>
+        </div>
+      )}
+
+      <div className="rsvp-form-actions">
+        <button type="button" className="rsvp-form-cancel" onClick={onCancel}>
+          Cancel
+        </button>
+        <button type="submit" className="rsvp-form-submit">
+          Send Reply
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default RsvpForm;
@@ -0,0 +1,106 @@
+import React from 'react';
+import {
+  resolveConflict,
+  selectIsOnline,
+  selectIsSyncing,
+  selectOutbox,
+  selectStaleSince,
+  selectSyncConflicts
+} from '../redux/slices/syncSlice';
+import { useAppDispatch, useAppSelector } from '../redux/store';
+import './SyncStatusBanner.scss';
+
+interface Member {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface SyncStatusBannerProps {
+  members: Member[];
+}
+
+/**
+ * SyncStatusBanner component - Tells the user when the tree is shown from the offline cache,
+ * how many offline edits are waiting to sync, and lets them resolve edits that could not be synced
+ */
+const SyncStatusBanner: React.FC<SyncStatusBannerProps> = ({ members }) => {
+  const dispatch = useAppDispatch();
+  const isOnline = useAppSelector(selectIsOnline);
+  const isSyncing = useAppSelector(selectIsSyncing);
+  const outbox = useAppSelector(selectOutbox);
+  const conflicts = useAppSelector(selectSyncConflicts);
+  const staleSince = useAppSelector(selectStaleSince);
+
+  if (isOnline && !staleSince && outbox.length === 0) {
+    return null;
+  }
+
+  const getMemberName = (memberId: string): string => {
+    const member = members.find(m => m.id === memberId);
+    return member ? `${member.firstName} ${member.lastName}`.trim() : 'Unknown';
+  };
+
+  const savedAt = staleSince ? new Date(staleSince).toLocaleString() : null;
+  let status: string;
+  if (!isOnline) {
+    status = savedAt
+      ? `You're offline. Showing the family tree saved on ${savedAt}.`
+      : "You're offline.";
+  } else if (savedAt) {
+    status = `Showing the family tree saved on ${savedAt} while it refreshes.`;
+  } else {
+    status = isSyncing ? 'Syncing your changes...' : '';
+  }
+
+  const pendingCount = outbox.length - conflicts.length;
+
+  return (
+    <div className={`sync-status-banner${isOnline ? '' : ' sync-status-offline'}`} role="status" aria-live="polite">
+      <p className="sync-status-message">
+        {status}
+        {pendingCount > 0 && (
+          <span className="sync-status-pending">
+            {' '}{pendingCount} {pendingCount === 1 ? 'change' : 'changes'}
+            {isOnline ? ' waiting to sync.' : ' will sync when you reconnect.'}
+          </span>
+        )}
+      </p>
+
+      {conflicts.length > 0 && (
+        <ul className="sync-conflicts" aria-label="Changes that could not be synced">
+          {conflicts.map(conflict => {
+            const entry = outbox.find(queued => queued.id === conflict.entryId);
+            if (!entry) return null;
+
+            return (
+              <li key={conflict.entryId} className="sync-conflict">
+                <span className="sync-conflict-message">
+                  <strong>{getMemberName(entry.memberId)}:</strong> {conflict.message}
+                </span>
+                <span className="sync-conflict-actions">
+                  <button
+                    className="sync-conflict-button"
+                    onClick={() => dispatch(resolveConflict({ entryId: conflict.entryId, resolution: 'mine' }))}
+                    disabled={!isOnline}
+                  >
+                    {conflict.serverMember ? 'Keep my changes' : 'Try again'}
+                  </button>
+                  <button
+                    className="sync-conflict-button sync-conflict-discard"
+                    onClick={() => dispatch(resolveConflict({ entryId: conflict.entryId, resolution: 'theirs' }))}
+                    disabled={!isOnline}
+                  >
+                    {conflict.serverMember ? 'Keep their version' : 'Discard my changes'}
+                  </button>
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SyncStatusBanner;
@@ -0,0 +1,39 @@
+import React, { useEffect } from 'react';
+import './Toast.scss';
+
+interface ToastProps {
+  message: string | null;
+  onDismiss: () => void;
+  duration?: number; // Milliseconds before the toast dismisses itself
+}
+
+/**
+ * Toast component - Briefly reports something that happened in the background,
+ * e.g. a change that could not be saved and was undone
+ */
+const Toast: React.FC<ToastProps> = ({ message, onDismiss, duration = 6000 }) => {
+  useEffect(() => {
+    if (!message) return;
+
+    const timer = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timer);
+  }, [message, onDismiss, duration]);
+
+  if (!message) return null;
+
+  return (
+    <div className="toast" role="alert" aria-live="assertive">
+      <p className="toast-message">{message}</p>
+      <button
+        type="button"
+        className="toast-dismiss"
+        onClick={onDismiss}
+        aria-label="Dismiss notification"
+      >
+        ×
+      </button>
+    </div>
+  );
+};
+
+export default Toast;
@@ -0,0 +1,102 @@
+import React from 'react';
+import {
+  selectTracedPath,
+  selectTracedPathStep,
+  clearTracedPath,
+  setTracedPathStep,
+  nextTracedPathStep,
+  previousTracedPathStep
+} from '../redux/slices/treeSlice';
+import { useAppDispatch, useAppSelector } from '../redux/store';
+import './TracedPathControls.scss';
+
+interface Member {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface TracedPathControlsProps {
+  members: Member[];
+}
+
+/**
+ * TracedPathControls component - Lists the members of the traced relationship path
+ * and steps through them one by one on the tree canvas
+ */
+const TracedPathControls: React.FC<TracedPathControlsProps> = ({ members }) => {
+  const dispatch = useAppDispatch();
+  const tracedPath = useAppSelector(selectTracedPath);
+  const tracedPathStep = useAppSelector(selectTracedPathStep);
+
+  if (tracedPath.length === 0) {
+    return null;
+  }
+
+  const getMemberName = (memberId: string): string => {
+    const member = members.find(m => m.id === memberId);
+    return member ? `${member.firstName} ${member.lastName}`.trim() : 'Unknown';
+  };
+
+  const lastStep = tracedPath.length - 1;
+
+  return (
+    <div className="traced-path-controls" role="toolbar" aria-label="Traced path controls">
+      <ol className="traced-path-members">
+        {tracedPath.map((memberId, index) => (
+          <li
+            key={memberId}
+            className={[
+              'traced-path-member',
+              tracedPathStep === index && 'traced-path-member-current',
+              tracedPathStep !== null && index > tracedPathStep && 'traced-path-member-hidden'
+            ].filter(Boolean).join(' ')}
+            aria-current={tracedPathStep === index ? 'step' : undefined}
+          >
+            <button
+              className="traced-path-member-button"
+              onClick={() => dispatch(setTracedPathStep(index))}
+            >
+              {getMemberName(memberId)}
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <div className="traced-path-actions">
+        <button
+          className="traced-path-button"
+          onClick={() => dispatch(previousTracedPathStep())}
+          disabled={tracedPathStep === null || tracedPathStep === 0}
+          aria-label="Previous member on path"
+        >
+          Previous
+        </button>
+        <button
+          className="traced-path-button"
+          onClick={() => dispatch(nextTracedPathStep())}
+          disabled={tracedPathStep === lastStep}
+          aria-label="Next member on path"
+        >
+          Next
+        </button>
+        <button
+          className="traced-path-button"
+          onClick={() => dispatch(setTracedPathStep(null))}
+          disabled={tracedPathStep === null}
+        >
+          Show whole path
+        </button>
+        <button
+          className="traced-path-button traced-path-clear"
+          onClick={() => dispatch(clearTracedPath())}
+          aria-label="Clear traced path"
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TracedPathControls;
@@ -5,12 +5,23 @@ import {
   selectSearchResults, 
   selectZoomLevel, 
   selectPanOffset,
+  selectTracedPath,
+  selectTracedPathStep,
+  selectChartView,
+  selectChartGenerations,
   pan,
   adjustZoom,
+  setZoomLevel,
+  setPanOffset,
   setSelectedMember
 } from '../redux/slices/treeSlice';
+import { selectPendingMemberIds, selectMemberIssueSeverities } from '../redux/slices/familySlice';
 import { buildTreeStructure } from '../utils/treeLayout';
+import { centreBounds, fitBoundsToViewport, toContentBounds } from '../utils/treeViewport';
 import TreeNode from './TreeNode';
+import PedigreeChart from './PedigreeChart';
+import DescendantChart from './DescendantChart';
+import FanChart from './FanChart';
 import { TreeCanvasProps } from '../types/components';
 import { useAppDispatch, useAppSelector } from '../redux/store';
 import './TreeCanvas.scss';
@@ -18,6 +29,8 @@ import './TreeCanvas.scss';
 /**
  * TreeCanvas component - Scrollable, zoomable canvas for family tree visualization
  * Handles pan and zoom interactions, renders tree structure
+ * Brings a traced relationship path into view, or the member it is stepped to
+ * Shows the whole family, or a pedigree, fan or descendant chart of the selected member
  */
 const TreeCanvas: React.FC<TreeCanvasProps> = ({ 
   members, 
@@ -32,6 +45,12 @@ const TreeCanvas: React.FC<TreeCanvasProps> = ({
   const searchResults = useAppSelector(selectSearchResults);
   const zoomLevel = useAppSelector(selectZoomLevel);
   const panOffset = useAppSelector(selectPanOffset);
+  const tracedPath = useAppSelector(selectTracedPath);
+  const tracedPathStep = useAppSelector(selectTracedPathStep);
+  const pendingMemberIds = useAppSelector(selectPendingMemberIds);
+  const issueSeverities = useAppSelector(selectMemberIssueSeverities);
+  const chartView = useAppSelector(selectChartView);
+  const chartGenerations = useAppSelector(selectChartGenerations);
   
   const canvasRef = useRef<HTMLDivElement>(null);
   const isDragging = useRef<boolean>(false);
@@ -39,12 +58,58 @@ const TreeCanvas: React.FC<TreeCanvasProps> = ({
   const lastPanOffset = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
   const rafId = useRef<number | null>(null);
   const focusableNodesRef = useRef<HTMLElement[]>([]);
+  const viewportRef = useRef({ zoomLevel, panOffset });
 
   // Memoize tree structure calculation - only recalculate when data changes
   const rootNode = useMemo(() => {
     return buildTreeStructure(members, relationships, rootMemberId);
   }, [members, relationships, rootMemberId]);
 
+  // Charts follow the selected member, so clicking someone in a chart re-roots it
+  const chartRootId = selectedMemberId && members.some(member => member.id === selectedMemberId)
+    ? selectedMemberId
+    : rootMemberId;
+
+  // Tree node the fan and descendant charts start from
+  const chartRootNode = useMemo(() => {
+    if (chartView !== 'descendants' && chartView !== 'fan') return null;
+    return buildTreeStructure(members, relationships, chartRootId);
+  }, [chartView, members, relationships, chartRootId]);
+
+  // Members revealed so far when stepping through the traced path
+  const visibleTracedPath = useMemo(() => {
+    return tracedPathStep === null ? tracedPath : tracedPath.slice(0, tracedPathStep + 1);
+  }, [tracedPath, tracedPathStep]);
+
+  // A traced path takes over highlighting from the search results in the charts
+  const highlightedIds = visibleTracedPath.length > 0 ? visibleTracedPath : searchResults;
+
+  // Keep the current view at hand for fitting without refitting on every pan or zoom
+  useEffect(() => {
+    viewportRef.current = { zoomLevel, panOffset };
+  }, [zoomLevel, panOffset]);
+
+  // Fit the traced path into view, or centre the member it is stepped to
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || tracedPath.length === 0) return;
+
+    const focusIds = tracedPathStep === null ? tracedPath : [tracedPath[tracedPathStep]];
+    const rects = Array.from(canvas.querySelectorAll<HTMLElement>('[data-member-id]'))
+      .filter(card => focusIds.includes(card.dataset.memberId as string))
+      .map(card => card.getBoundingClientRect())
+      .filter(rect => rect.width > 0 && rect.height > 0);
+    const canvasRect = canvas.getBoundingClientRect();
+    const bounds = toContentBounds(rects, canvasRect, viewportRef.current);
+    if (!bounds) return;
+
+    const viewport = tracedPathStep === null
+      ? fitBoundsToViewport(bounds, canvasRect.width, canvasRect.height)
+      : centreBounds(bounds, viewportRef.current.zoomLevel);
+    dispatch(setZoomLevel(viewport.zoomLevel));
+    dispatch(setPanOffset(viewport.panOffset));
+  }, [tracedPath, tracedPathStep, dispatch]);
+
   // Handle mouse down - start dragging
   const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
     // Only start drag on left mouse button
@@ -187,7 +252,7 @@ const TreeCanvas: React.FC<TreeCanvasProps> = ({
     // Get all focusable elements (member cards and placeholder cards)
     const focusableElements = canvas.querySelectorAll('[role="button"][tabindex="0"]');
     focusableNodesRef.current = Array.from(focusableElements);
-  }, [members, relationships]); // Update when tree structure changes
+  }, [members, relationships, chartView, chartRootId]); // Update when tree structure or chart changes
 
   // Handle arrow key navigation
   useEffect(() => {
@@ -289,20 +354,55 @@ const TreeCanvas: React.FC<TreeCanvasProps> = ({
           transformOrigin: 'center center'
         }}
       >
-        <TreeNode
-          node={rootNode}
-          allMembers={members}
-          relationships={relationships}
-          isRoot={true}
-          isSelected={selectedMemberId === rootMemberId}
-          isHighlighted={searchResults.includes(rootMemberId)}
-          onMemberClick={onMemberClick}
-          onPlaceholderClick={onPlaceholderClick}
-          showPlaceholders={true}
-          zoomLevel={zoomLevel}
-          searchResults={searchResults}
-          rootCardRef={rootCardRef}
-        />
+        {chartView === 'pedigree' ? (
+          <PedigreeChart
+            key={chartRootId}
+            members={members}
+            relationships={relationships}
+            rootMemberId={chartRootId}
+            generations={chartGenerations}
+            selectedMemberId={selectedMemberId}
+            highlightedIds={highlightedIds}
+            pendingMemberIds={pendingMemberIds}
+            issueSeverities={issueSeverities}
+            onMemberClick={onMemberClick}
+          />
+        ) : chartView === 'descendants' && chartRootNode ? (
+          <DescendantChart
+            key={chartRootId}
+            rootNode={chartRootNode}
+            generations={chartGenerations}
+            selectedMemberId={selectedMemberId}
+            highlightedIds={highlightedIds}
+            onMemberClick={onMemberClick}
+          />
+        ) : chartView === 'fan' && chartRootNode ? (
+          <FanChart
+            rootNode={chartRootNode}
+            generations={chartGenerations}
+            selectedMemberId={selectedMemberId}
+            highlightedIds={highlightedIds}
+            onMemberClick={onMemberClick}
+          />
+        ) : (
+          <TreeNode
+            node={rootNode}
+            allMembers={members}
+            relationships={relationships}
+            isRoot={true}
+            isSelected={selectedMemberId === rootMemberId}
+            isHighlighted={searchResults.includes(rootMemberId)}
+            onMemberClick={onMemberClick}
+            onPlaceholderClick={onPlaceholderClick}
+            showPlaceholders={true}
+            zoomLevel={zoomLevel}
+            searchResults={searchResults}
+            tracedPath={visibleTracedPath}
+            pendingMemberIds={pendingMemberIds}
+            issueSeverities={issueSeverities}
+            rootCardRef={rootCardRef}
+          />
+        )}
       </div>
     </div>
   );
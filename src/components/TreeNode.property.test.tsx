@@ -3,6 +3,7 @@ import { render } from '@testing-library/react';
 import * as fc from 'fast-check';
 import TreeNode from './TreeNode';
 import { buildTreeStructure } from '../utils/treeLayout';
+import { FamilyMember, Relationship, TreeNodeData } from '../types/components';
 
 describe('TreeNode Property Tests', () => {
   // Helper to create a family member
@@ -228,4 +229,109 @@ describe('TreeNode Property Tests', () => {
       { numRuns: 100 }
     );
   });
+
+  // Feature: family-tree, multiple partnerships
+  it('should render every partnership and group children under the partnership they belong to', () => {
+    const partnerMember = (id: string, firstName: string, lastName: string, gender: FamilyMember['gender']): FamilyMember => ({
+      id,
+      firstName,
+      lastName,
+      gender,
+      dateOfBirth: new Date().toISOString(),
+      userId: null,
+      createdBy: 'test-user',
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+
+    const partnershipArb = fc.record({
+      exChildCount: fc.integer({ min: 0, max: 3 }),
+      currentChildCount: fc.integer({ min: 0, max: 3 }),
+    });
+
+    fc.assert(
+      fc.property(
+        partnershipArb,
+        (scenario) => {
+          const members: FamilyMember[] = [
+            partnerMember('member-1', 'Walter', 'Smith', 'male'),
+            partnerMember('ex-1', 'Edith', 'Jones', 'female'),
+            partnerMember('wife-1', 'Grace', 'Brown', 'female'),
+          ];
+          const relationships: Relationship[] = [
+            {
+              id: 'rel-ex',
+              fromUserId: 'member-1',
+              toUserId: 'ex-1',
+              relationshipType: 'spouse',
+              partnershipStatus: 'divorced',
+              startDate: '1960-05-01',
+              endDate: '1968',
+              createdAt: new Date().toISOString(),
+            },
+            {
+              id: 'rel-wife',
+              fromUserId: 'wife-1',
+              toUserId: 'member-1',
+              relationshipType: 'spouse',
+              partnershipStatus: 'married',
+              startDate: '1970',
+              createdAt: new Date().toISOString(),
+            },
+          ];
+
+          const addChildren = (count: number, otherParentId: string) => {
+            for (let i = 0; i < count; i++) {
+              const childId = `child-${otherParentId}-${i}`;
+              members.push(partnerMember(childId, `Child${otherParentId}${i}`, 'Smith', 'male'));
+              relationships.push(
+                { id: `rel-${childId}-a`, fromUserId: 'member-1', toUserId: childId, relationshipType: 'parent', createdAt: new Date().toISOString() },
+                { id: `rel-${childId}-b`, fromUserId: otherParentId, toUserId: childId, relationshipType: 'parent', createdAt: new Date().toISOString() }
+              );
+            }
+          };
+          addChildren(scenario.exChildCount, 'ex-1');
+          addChildren(scenario.currentChildCount, 'wife-1');
+
+          const treeNode = buildTreeStructure(members, relationships, 'member-1') as TreeNodeData;
+
+          // Property: both spouse relationships are kept; the current partner is the spouse
+          expect(treeNode.partnerships?.map(p => p.partner.member.id)).toEqual(['ex-1', 'wife-1']);
+          expect(treeNode.spouse?.member.id).toBe('wife-1');
+
+          const { container } = render(
+            <TreeNode
+              node={treeNode}
+              allMembers={members}
+              relationships={relationships}
+              isRoot={true}
+              onMemberClick={() => {}}
+              onPlaceholderClick={() => {}}
+            />
+          );
+
+          // Property: earlier partner left of the member, current partner to the right
+          const rowSections = Array.from(container.querySelector('.tree-node-member-row')?.children || []);
+          expect(rowSections.map(section => section.className)).toEqual([
+            'tree-node-spouse divorced',
+            'tree-node-member',
+            'tree-node-spouse married',
+          ]);
+          expect(rowSections[0].textContent).toContain('Ex-wife');
+          expect(rowSections[0].textContent).toContain('m. 1960 – div. 1968');
+
+          // Property: one child group per partnership with children, in the same order
+          const groups = Array.from(container.querySelectorAll('.tree-node-children-group'));
+          const expectedGroups = [scenario.exChildCount, scenario.currentChildCount].filter(count => count > 0);
+          expect(groups.map(group => group.querySelectorAll('.member-card').length)).toEqual(expectedGroups);
+          if (scenario.exChildCount > 0) {
+            expect(groups[0].textContent).toContain('Childex-10');
+          }
+
+          container.remove();
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
 });
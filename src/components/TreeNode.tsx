@@ -2,7 +2,8 @@ import React from 'react';
 import MemberCard from './MemberCard';
 import PlaceholderCard from './PlaceholderCard';
 import ConnectionLines from './ConnectionLines';
-import { TreeNodeProps, FamilyMember } from '../types/components';
+import { arrangePartnerships } from '../utils/treeLayout';
+import { TreeNodeProps, FamilyMember, PartnershipData } from '../types/components';
 import './TreeNode.scss';
 
 const TreeNode: React.FC<TreeNodeProps> = ({ 
@@ -19,6 +20,9 @@ const TreeNode: React.FC<TreeNodeProps> = ({
   maxDepth = 1,
   zoomLevel = 100,
   searchResults = [],
+  tracedPath = [],
+  pendingMemberIds = [],
+  issueSeverities = {},
   rootCardRef
 }) => {
   if (!node) {
@@ -26,19 +30,24 @@ const TreeNode: React.FC<TreeNodeProps> = ({
   }
 
   const { member, parents, children, spouse } = node;
+  const partnerships = node.partnerships || (spouse ? [{ partner: spouse, relationshipId: '', children }] : []);
+  const { leftPartnerships, rightPartnership, childGroups } = arrangePartnerships(children, partnerships);
+
+  // A traced path takes over highlighting from the search results
+  const highlightedIds = tracedPath.length > 0 ? tracedPath : searchResults;
 
   // Helper function to check if a member should be highlighted
   const isMemberHighlighted = (memberId: string): boolean => {
-    return searchResults.length > 0 && searchResults.includes(memberId);
+    return highlightedIds.length > 0 && highlightedIds.includes(memberId);
   };
 
-  // Helper function to check if a member should be dimmed (when search is active but member doesn't match)
+  // Helper function to check if a member should be dimmed (when search or a traced path is active but member isn't in it)
   const isMemberDimmed = (memberId: string): boolean => {
-    return searchResults.length > 0 && !searchResults.includes(memberId);
+    return highlightedIds.length > 0 && !highlightedIds.includes(memberId);
   };
 
   // Determine relationship label
-  const getRelationshipLabel = (relationMember: FamilyMember, relationType: string): string => {
+  const getRelationshipLabel = (relationMember: FamilyMember, relationType: string, partnership?: PartnershipData): string => {
     if (isRoot && relationMember.id === member.id) {
       return 'Me / Root';
     }
@@ -50,6 +59,9 @@ const TreeNode: React.FC<TreeNodeProps> = ({
       case 'mother':
         return 'Mother';
       case 'spouse':
+        if (partnership?.status === 'partner') return 'Partner';
+        if (partnership?.status === 'divorced') return relationMember.gender === 'male' ? 'Ex-husband' : 'Ex-wife';
+        if (partnership?.status === 'widowed') return relationMember.gender === 'male' ? 'Late husband' : 'Late wife';
         return relationMember.gender === 'male' ? 'Husband' : 'Wife';
       case 'child':
         return relationMember.gender === 'male' ? 'Son' : 'Daughter';
@@ -58,6 +70,40 @@ const TreeNode: React.FC<TreeNodeProps> = ({
     }
   };
 
+  // Describe a partnership's dates, e.g. "m. 1975 – div. 1990"
+  const getPartnershipDates = (partnership: PartnershipData): string | null => {
+    const startYear = partnership.startDate?.match(/\d{4}/)?.[0];
+    const endYear = partnership.endDate?.match(/\d{4}/)?.[0];
+    const start = startYear ? `${partnership.status === 'partner' ? 'since' : 'm.'} ${startYear}` : null;
+    const end = endYear ? `${partnership.status === 'divorced' ? 'div.' : 'until'} ${endYear}` : null;
+    if (start && end) return `${start} – ${end}`;
+    return start || end;
+  };
+
+  // Render a partner card with its partnership dates
+  const renderPartner = (partnership: PartnershipData): React.ReactElement => {
+    const dates = getPartnershipDates(partnership);
+    return (
+      <div
+        key={partnership.partner.member.id}
+        className={`tree-node-spouse${partnership.status ? ` ${partnership.status}` : ''}`}
+      >
+        <MemberCard
+          member={partnership.partner.member}
+          relationshipLabel={getRelationshipLabel(partnership.partner.member, 'spouse', partnership)}
+          isRoot={false}
+          isSelected={partnership.partner.member.id === (isSelected ? member.id : null)}
+          isHighlighted={isMemberHighlighted(partnership.partner.member.id)}
+          isDimmed={isMemberDimmed(partnership.partner.member.id)}
+          isPending={pendingMemberIds.includes(partnership.partner.member.id)}
+          issueSeverity={issueSeverities[partnership.partner.member.id]}
+          onClick={onMemberClick}
+        />
+        {dates && <span className="tree-node-partnership-dates">{dates}</span>}
+      </div>
+    );
+  };
+
   // Check if parents exist
   const hasFather = parents.some(p => p.member.gender === 'male');
   const hasMother = parents.some(p => p.member.gender === 'female');
@@ -67,7 +113,7 @@ const TreeNode: React.FC<TreeNodeProps> = ({
   return (
     <div className="tree-node">
       {/* Connection Lines */}
-      <ConnectionLines node={node} zoomLevel={zoomLevel} />
+      <ConnectionLines node={node} zoomLevel={zoomLevel} tracedPath={tracedPath} />
       
       {/* Parents Section */}
       {(parents.length > 0 || showPlaceholders) && (
@@ -85,6 +131,8 @@ const TreeNode: React.FC<TreeNodeProps> = ({
                     isSelected={parent.member.id === (isSelected ? member.id : null)}
                     isHighlighted={isMemberHighlighted(parent.member.id)}
                     isDimmed={isMemberDimmed(parent.member.id)}
+                    isPending={pendingMemberIds.includes(parent.member.id)}
+                    issueSeverity={issueSeverities[parent.member.id]}
                     onClick={onMemberClick}
                   />
                 </div>
@@ -112,6 +160,8 @@ const TreeNode: React.FC<TreeNodeProps> = ({
                     isSelected={parent.member.id === (isSelected ? member.id : null)}
                     isHighlighted={isMemberHighlighted(parent.member.id)}
                     isDimmed={isMemberDimmed(parent.member.id)}
+                    isPending={pendingMemberIds.includes(parent.member.id)}
+                    issueSeverity={issueSeverities[parent.member.id]}
                     onClick={onMemberClick}
                   />
                 </div>
@@ -131,6 +181,9 @@ const TreeNode: React.FC<TreeNodeProps> = ({
       {/* Current Member and Spouse Section */}
       <div className="tree-node-current">
         <div className="tree-node-member-row">
+          {/* Earlier partners */}
+          {leftPartnerships.map(renderPartner)}
+
           {/* Current Member */}
           <div className="tree-node-member">
             <MemberCard
@@ -141,24 +194,17 @@ const TreeNode: React.FC<TreeNodeProps> = ({
               isSelected={isSelected}
               isHighlighted={isMemberHighlighted(member.id)}
               isDimmed={isMemberDimmed(member.id)}
+              isPending={pendingMemberIds.includes(member.id)}
+              issueSeverity={issueSeverities[member.id]}
               onClick={onMemberClick}
             />
           </div>
 
-          {/* Spouse */}
-          {hasSpouse ? (
-            <div className="tree-node-spouse">
-              <MemberCard
-                member={spouse.member}
-                relationshipLabel={getRelationshipLabel(spouse.member, 'spouse')}
-                isRoot={false}
-                isSelected={spouse.member.id === (isSelected ? member.id : null)}
-                isHighlighted={isMemberHighlighted(spouse.member.id)}
-                isDimmed={isMemberDimmed(spouse.member.id)}
-                onClick={onMemberClick}
-              />
-            </div>
-          ) : showPlaceholders && (
+          {/* Most recent partner */}
+          {rightPartnership && renderPartner(rightPartnership)}
+
+          {/* Spouse placeholder when there is no current partner */}
+          {!hasSpouse && showPlaceholders && (
             <div className="tree-node-spouse">
               <PlaceholderCard
                 type="spouse"
@@ -173,17 +219,26 @@ const TreeNode: React.FC<TreeNodeProps> = ({
       {/* Children Section */}
       {(children.length > 0 || showPlaceholders) && (
         <div className="tree-node-children">
-          {children.map(child => (
-            <div key={child.member.id} className="tree-node-child">
-              <MemberCard
-                member={child.member}
-                relationshipLabel={getRelationshipLabel(child.member, 'child')}
-                isRoot={false}
-                isSelected={child.member.id === (isSelected ? member.id : null)}
-                isHighlighted={isMemberHighlighted(child.member.id)}
-                isDimmed={isMemberDimmed(child.member.id)}
-                onClick={onMemberClick}
-              />
+          {childGroups.map(group => (
+            <div
+              key={group.partnership ? group.partnership.partner.member.id : 'member'}
+              className="tree-node-children-group"
+            >
+              {group.children.map(child => (
+                <div key={child.member.id} className="tree-node-child">
+                  <MemberCard
+                    member={child.member}
+                    relationshipLabel={getRelationshipLabel(child.member, 'child')}
+                    isRoot={false}
+                    isSelected={child.member.id === (isSelected ? member.id : null)}
+                    isHighlighted={isMemberHighlighted(child.member.id)}
+                    isDimmed={isMemberDimmed(child.member.id)}
+                    isPending={pendingMemberIds.includes(child.member.id)}
+                    issueSeverity={issueSeverities[child.member.id]}
+                    onClick={onMemberClick}
+                  />
+                </div>
+              ))}
             </div>
           ))}
           {showPlaceholders && (
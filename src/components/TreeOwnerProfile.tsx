@@ -1,4 +1,5 @@
 import React from 'react';
+import { formatGenealogicalDate } from '../utils/genealogicalDate';
 import './TreeOwnerProfile.scss';
 
 interface TreeOwner {
@@ -28,28 +29,7 @@ const TreeOwnerProfile: React.FC<TreeOwnerProfileProps> = ({
   onAddChildren, 
   hasSpouse = false 
 }) => {
-  // Extract birth year from dateOfBirth (format: YYYY-MM-DD or DD/MM/YYYY)
-  const getBirthYear = (dateOfBirth?: string): string | null => {
-    if (!dateOfBirth) return null;
-    
-    // Try parsing as YYYY-MM-DD format first
-    const isoMatch = dateOfBirth.match(/^(\d{4})-\d{2}-\d{2}$/);
-    if (isoMatch) {
-      return isoMatch[1];
-    }
-    
-    // Try parsing as DD/MM/YYYY format
-    const dmyMatch = dateOfBirth.match(/^\d{2}\/\d{2}\/(\d{4})$/);
-    if (dmyMatch) {
-      return dmyMatch[1];
-    }
-    
-    // Fallback: try to extract any 4-digit year
-    const yearMatch = dateOfBirth.match(/\d{4}/);
-    return yearMatch ? yearMatch[0] : null;
-  };
-
-  const birthYear = getBirthYear(treeOwner.dateOfBirth);
+  const birthYear = formatGenealogicalDate(treeOwner.dateOfBirth, { yearOnly: true });
 
   return (
     <div className="tree-owner-profile">
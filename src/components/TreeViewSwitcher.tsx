@@ -0,0 +1,67 @@
+import React from 'react';
+import {
+  selectChartView,
+  selectChartGenerations,
+  setChartView,
+  setChartGenerations,
+  MIN_CHART_GENERATIONS,
+  MAX_CHART_GENERATIONS
+} from '../redux/slices/treeSlice';
+import { useAppDispatch, useAppSelector } from '../redux/store';
+import { TreeChartView } from '../types/redux';
+import './TreeViewSwitcher.scss';
+
+const VIEWS: { value: TreeChartView; label: string }[] = [
+  { value: 'tree', label: 'Family tree' },
+  { value: 'pedigree', label: 'Pedigree' },
+  { value: 'fan', label: 'Fan chart' },
+  { value: 'descendants', label: 'Descendants' },
+];
+
+const GENERATION_OPTIONS = Array.from(
+  { length: MAX_CHART_GENERATIONS - MIN_CHART_GENERATIONS + 1 },
+  (_, index) => MIN_CHART_GENERATIONS + index
+);
+
+/**
+ * TreeViewSwitcher component - Chooses the chart the family tree page shows,
+ * and how many generations charts other than the family tree cover
+ */
+const TreeViewSwitcher: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const chartView = useAppSelector(selectChartView);
+  const chartGenerations = useAppSelector(selectChartGenerations);
+
+  return (
+    <div className="tree-view-switcher">
+      <div className="tree-view-switcher-options" role="group" aria-label="Chart">
+        {VIEWS.map(view => (
+          <button
+            key={view.value}
+            type="button"
+            className={`tree-view-switcher-button ${chartView === view.value ? 'active' : ''}`}
+            onClick={() => dispatch(setChartView(view.value))}
+            aria-pressed={chartView === view.value}
+          >
+            {view.label}
+          </button>
+        ))}
+      </div>
+      {chartView !== 'tree' && (
+        <label className="tree-view-switcher-generations">
+          Generations
+          <select
+            value={chartGenerations}
+            onChange={(e) => dispatch(setChartGenerations(Number(e.target.value)))}
+          >
+            {GENERATION_OPTIONS.map(count => (
+              <option key={count} value={count}>{count}</option>
+            ))}
+          </select>
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default TreeViewSwitcher;
@@ -1,22 +1,46 @@
 import React from 'react';
+import { formatEventTime, getEventDateBadge, isEventOnDay } from '../utils/eventDates';
+import { FamilyEvent } from '../types/api';
+import { FamilyOccasion } from '../types/components';
 import './UpcomingEvents.scss';
 
-interface Event {
-  id: string;
-  name: string;
-  date: string;
-  time: string;
-  isToday?: boolean;
-}
-
 interface UpcomingEventsProps {
-  events?: Event[];
+  events?: FamilyEvent[];
+  // Birthdays, anniversaries and memorial dates, listed among the events by date
+  occasions?: FamilyOccasion[];
+  // Most items listed; all of them when absent
+  maxItems?: number;
   onCalendarClick?: () => void;
   onEventClick?: (eventId: string) => void;
+  onOccasionClick?: (occasion: FamilyOccasion) => void;
 }
 
-const UpcomingEvents: React.FC<UpcomingEventsProps> = ({ events = [], onCalendarClick, onEventClick }) => {
-  if (events.length === 0) {
+type UpcomingItem =
+  | { type: 'event'; event: FamilyEvent }
+  | { type: 'occasion'; occasion: FamilyOccasion };
+
+const getItemDate = (item: UpcomingItem): string =>
+  item.type === 'event' ? item.event.eventDate : item.occasion.eventDate;
+
+const formatEventDetails = (event: FamilyEvent): string =>
+  event.location ? `${formatEventTime(event)} • ${event.location}` : formatEventTime(event);
+
+const UpcomingEvents: React.FC<UpcomingEventsProps> = ({
+  events = [],
+  occasions = [],
+  maxItems,
+  onCalendarClick,
+  onEventClick,
+  onOccasionClick,
+}) => {
+  const items: UpcomingItem[] = [
+    ...events.map(event => ({ type: 'event' as const, event })),
+    ...occasions.map(occasion => ({ type: 'occasion' as const, occasion })),
+  ]
+    .sort((a, b) => getItemDate(a).localeCompare(getItemDate(b)))
+    .slice(0, maxItems);
+
+  if (items.length === 0) {
     return (
       <section className="dashboard-section">
         <div className="section-header">
@@ -41,12 +65,23 @@ const UpcomingEvents: React.FC<UpcomingEventsProps> = ({ events = [], onCalendar
         </button>
       </div>
       <div className="upcoming-list">
-        {events.map((event) => (
-          <EventItem
-            key={event.id}
-            event={event}
-            onClick={() => onEventClick && onEventClick(event.id)}
-          />
+        {items.map((item) => (
+          item.type === 'event' ? (
+            <EventItem
+              key={item.event.id}
+              event={item.event}
+              details={formatEventDetails(item.event)}
+              onClick={() => onEventClick && onEventClick(item.event.id)}
+            />
+          ) : (
+            <EventItem
+              key={item.occasion.id}
+              event={item.occasion}
+              details={item.occasion.detail}
+              className={`occasion-${item.occasion.kind}`}
+              onClick={() => onOccasionClick && onOccasionClick(item.occasion)}
+            />
+          )
         ))}
       </div>
     </section>
@@ -54,16 +89,16 @@ const UpcomingEvents: React.FC<UpcomingEventsProps> = ({ events = [], onCalendar
 };
 
 interface EventItemProps {
-  event: Event;
+  event: Pick<FamilyEvent, 'eventDate' | 'title'>;
+  // Line under the title, e.g. the time and place
+  details: string;
+  className?: string;
   onClick: () => void;
 }
 
-const EventItem: React.FC<EventItemProps> = ({ event, onClick }) => {
-  const { name, date, time, isToday } = event;
-  
-  const eventDate = new Date(date);
-  const day = eventDate.getDate();
-  const month = eventDate.toLocaleDateString('en-US', { month: 'short' }).toUpperCase();
+const EventItem: React.FC<EventItemProps> = ({ event, details, className = '', onClick }) => {
+  const { day, month } = getEventDateBadge(event);
+  const isToday = isEventOnDay(event, new Date());
 
   const handleKeyPress = (e: React.KeyboardEvent<HTMLDivElement>) => {
     if (e.key === 'Enter' || e.key === ' ') {
@@ -73,7 +108,7 @@ const EventItem: React.FC<EventItemProps> = ({ event, onClick }) => {
 
   return (
     <div
-      className={`event-item ${isToday ? 'event-today' : ''}`}
+      className={`event-item ${isToday ? 'event-today' : ''} ${className}`}
       onClick={onClick}
       role="button"
       tabIndex={0}
@@ -84,8 +119,8 @@ const EventItem: React.FC<EventItemProps> = ({ event, onClick }) => {
         <div className="event-month">{month}</div>
       </div>
       <div className="event-details">
-        <div className="event-name">{name}</div>
-        <div className="event-time">{time}</div>
+        <div className="event-name">{event.title}</div>
+        <div className="event-time">{details}</div>
       </div>
     </div>
   );
@@ -1,7 +1,15 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate, useSearchParams, useLocation } from 'react-router-dom';
 import { useDispatch, useSelector } from 'react-redux';
-import { addFamilyMember, selectFamilyLoading } from '../redux/slices/familySlice';
+import {
+  addFamilyMember,
+  addRelationship,
+  dismissRollbackError,
+  selectFamilyLoading,
+  selectFamilyMembers,
+  selectRelationships,
+  selectRelationshipGraph
+} from '../redux/slices/familySlice';
 import { selectProfile } from '../redux/slices/userSlice';
 import { selectUser } from '../redux/slices/authSlice';
 import NavigationBar from '../components/NavigationBar';
@@ -12,6 +20,11 @@ import Button from '../components/Button';
 import ImageUpload from '../components/ImageUpload';
 import DateInput from '../components/DateInput';
 import Toggle from '../components/Toggle';
+import DuplicateWarning from '../components/DuplicateWarning';
+import { findDuplicateCandidates } from '../utils/duplicateDetection';
+import { getEdge } from '../utils/relationshipGraph';
+import { parseGenealogicalDate } from '../utils/genealogicalDate';
+import { Relationship } from '../types/api';
 import { useAppDispatch, useAppSelector } from '../redux/store';
 import './AddFamilyMemberPage.scss';
 
@@ -40,6 +53,9 @@ const AddFamilyMemberPage: React.FC = () => {
   const [searchParams] = useSearchParams();
   const dispatch = useAppDispatch();
   const isLoading = useAppSelector(selectFamilyLoading);
+  const familyMembers = useAppSelector(selectFamilyMembers);
+  const relationships = useAppSelector(selectRelationships);
+  const relationshipGraph = useAppSelector(selectRelationshipGraph);
   const profile = useAppSelector(selectProfile);
   const user = useAppSelector(selectUser);
 
@@ -110,11 +126,7 @@ const AddFamilyMemberPage: React.FC = () => {
       }
 
       // Check date format
-      if (formData.dateOfBirth) {
-        const cleaned = formData.dateOfBirth.replace(/\s/g, '');
-        const dateRegex = /^(\d{2})\/(\d{2})\/(\d{4})$/;
-        if (!dateRegex.test(cleaned)) return false;
-      }
+      if (!parseGenealogicalDate(formData.dateOfBirth)) return false;
 
       return true;
     };
@@ -122,6 +134,21 @@ const AddFamilyMemberPage: React.FC = () => {
     setIsFormValid(checkFormValidity());
   }, [formData]);
 
+  // Members who may already be the person being entered
+  const duplicateMatches = useMemo(() => {
+    return findDuplicateCandidates(
+      {
+        firstName: formData.firstName,
+        lastName: formData.lastName,
+        dateOfBirth: formData.dateOfBirth,
+        gender: formData.gender,
+      },
+      familyMembers,
+      relationships,
+      formData.relationshipType ? { relatedTo: formData.relatedTo, relationshipType: formData.relationshipType } : null
+    );
+  }, [formData.firstName, formData.lastName, formData.dateOfBirth, formData.gender, formData.relatedTo, formData.relationshipType, familyMembers, relationships]);
+
   // Relationship type options
   const relationshipOptions = [
     { value: 'parent', label: 'Parent' },
@@ -192,13 +219,9 @@ const AddFamilyMemberPage: React.FC = () => {
       }
     }
 
-    // Date format validation
-    if (formData.dateOfBirth) {
-      const cleaned = formData.dateOfBirth.replace(/\s/g, '');
-      const dateRegex = /^(\d{2})\/(\d{2})\/(\d{4})$/;
-      if (!dateRegex.test(cleaned)) {
-        newErrors.dateOfBirth = 'Please enter a valid date (DD/MM/YYYY)';
-      }
+    // Date format validation; a year or a month and year is enough when the full date is not known
+    if (formData.dateOfBirth && !parseGenealogicalDate(formData.dateOfBirth)) {
+      newErrors.dateOfBirth = 'Please enter a valid date';
     }
 
     setErrors(newErrors);
@@ -215,17 +238,13 @@ const AddFamilyMemberPage: React.FC = () => {
     try {
       setIsSubmitting(true);
 
-      // Convert date from DD/MM/YYYY to YYYY-MM-DD
-      const [day, month, year] = formData.dateOfBirth.replace(/\s/g, '').split('/');
-      const isoDate = `${year}-${month}-${day}`;
-
       const memberData = {
         relatedTo: formData.relatedTo,
         relationshipType: formData.relationshipType,
         specificLabel: formData.specificLabel || null,
         firstName: formData.firstName.trim(),
         lastName: formData.lastName.trim(),
-        dateOfBirth: isoDate,
+        dateOfBirth: formData.dateOfBirth,
         gender: formData.gender,
         isLiving: formData.isLiving,
         email: formData.email || null,
@@ -237,6 +256,8 @@ const AddFamilyMemberPage: React.FC = () => {
       navigate(getBackPath());
     } catch (error) {
       console.error('Failed to add family member:', error);
+      // Reported on the form below rather than as a toast
+      dispatch(dismissRollbackError());
       
       // Handle validation errors from server
       if (error.isValidationError && error.validationErrors) {
@@ -256,6 +277,40 @@ const AddFamilyMemberPage: React.FC = () => {
     }
   };
 
+  const handleLinkExisting = async (memberId: string) => {
+    if (!formData.relationshipType) {
+      setErrors(prev => ({ ...prev, relationshipType: 'Please select a relationship type' }));
+      return;
+    }
+
+    // Already linked this way: there is nothing to add
+    if (getEdge(relationshipGraph, formData.relatedTo, memberId)?.relationshipType === formData.relationshipType) {
+      navigate(getBackPath());
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      await dispatch(addRelationship({
+        fromUserId: formData.relatedTo,
+        toUserId: memberId,
+        relationshipType: formData.relationshipType as Relationship['relationshipType'],
+        specificLabel: formData.specificLabel || undefined,
+      })).unwrap();
+      navigate(getBackPath());
+    } catch (error) {
+      console.error('Failed to link family member:', error);
+      // Reported on the form below rather than as a toast
+      dispatch(dismissRollbackError());
+      setErrors(prev => ({
+        ...prev,
+        submit: typeof error === 'string' ? error : 'Failed to link family member. Please try again.',
+      }));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const handleCancel = () => {
     navigate(getBackPath());
   };
@@ -413,8 +468,8 @@ const AddFamilyMemberPage: React.FC = () => {
             </div>
 
             <DateInput
+              mode="genealogical"
               label="Date of Birth"
-              placeholder="DD / MM / YYYY"
               value={formData.dateOfBirth}
               onChange={(value) => handleInputChange('dateOfBirth', value)}
               error={errors.dateOfBirth}
@@ -456,6 +511,8 @@ const AddFamilyMemberPage: React.FC = () => {
                 </span>
               )}
             </div>
+
+            <DuplicateWarning matches={duplicateMatches} onLinkExisting={handleLinkExisting} />
           </section>
 
           {/* Contact and Status Section */}
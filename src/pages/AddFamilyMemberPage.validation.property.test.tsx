@@ -35,10 +35,12 @@ const createMockStore = () => {
         error: null,
       },
       family: {
-        familyMembers: [],
-        relationships: [],
+        familyMembers: { ids: [], entities: {} },
+        relationships: { ids: [], entities: {} },
         isLoading: false,
         error: null,
+        pendingChanges: {},
+        rollbackError: null,
       },
     },
   });
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useSelector, useDispatch } from 'react-redux';
+import { useNavigate } from 'react-router-dom';
 import { selectUser } from '../redux/slices/authSlice';
 import { selectProfile } from '../redux/slices/userSlice';
 import { 
@@ -15,23 +16,26 @@ import QuickActions from '../components/QuickActions';
 import UpcomingEvents from '../components/UpcomingEvents';
 import OnlineNow from '../components/OnlineNow';
 import AddRelativeModal from '../components/AddRelativeModal';
+import { fetchEvents, setEventsView, selectUpcomingEvents, selectFamilyOccasions } from '../redux/slices/eventsSlice';
+import { getFamilyMembers, getRelationships, selectFamilyMemberEntities } from '../redux/slices/familySlice';
 import { useAppDispatch, useAppSelector } from '../redux/store';
+import { getStartOfDay } from '../utils/eventDates';
+import { getOccasionsWithin } from '../utils/familyOccasions';
 import './DashboardPage.scss';
 
+// Most events listed under Upcoming
+const MAX_UPCOMING_EVENTS = 3;
+// Days ahead birthdays, anniversaries and memorial dates are listed under Upcoming
+const UPCOMING_OCCASION_DAYS = 30;
+// Days ahead a birthday shows among the recent updates
+const BIRTHDAY_NOTICE_DAYS = 7;
+
 interface MockUpdate {
   id: string;
   type: 'birthday' | 'photo' | 'new_member';
   data: any;
 }
 
-interface MockEvent {
-  id: string;
-  name: string;
-  date: string;
-  time: string;
-  isToday: boolean;
-}
-
 interface MockUser {
   id: string;
   name: string;
@@ -40,16 +44,36 @@ interface MockUser {
 
 const DashboardPage: React.FC = () => {
   const dispatch = useAppDispatch();
+  const navigate = useNavigate();
   const user = useAppSelector(selectUser);
   const profile = useAppSelector(selectProfile);
   const dashboardData = useAppSelector(selectDashboardData);
   const isLoading = useAppSelector(selectDashboardLoading);
+  const today = getStartOfDay(new Date());
+  const upcomingEvents = useAppSelector(state => selectUpcomingEvents(state, today));
+  const familyOccasions = useAppSelector(state => selectFamilyOccasions(state, today));
+  const memberEntities = useAppSelector(selectFamilyMemberEntities);
   const [isAddRelativeModalOpen, setIsAddRelativeModalOpen] = useState<boolean>(false);
 
   // Load dashboard data on mount
   useEffect(() => {
     dispatch(loadDashboardData());
+    const eventsRequest = dispatch(fetchEvents());
+    // Birthdays and anniversaries come from the family tree
+    const membersRequest = dispatch(getFamilyMembers(false));
+    const relationshipsRequest = dispatch(getRelationships(false));
+    return () => {
+      eventsRequest.abort();
+      membersRequest.abort();
+      relationshipsRequest.abort();
+    };
   }, [dispatch]);
+
+  // Declined events are left off the dashboard
+  const nextEvents = upcomingEvents
+    .filter(event => event.myRsvp !== 'declined')
+    .slice(0, MAX_UPCOMING_EVENTS);
+  const nextOccasions = getOccasionsWithin(familyOccasions, today, UPCOMING_OCCASION_DAYS);
   
   // Get user's first name from profile or auth user
   const firstName = profile?.firstName || user?.fullName?.split(' ')[0] || 'User';
@@ -57,17 +81,22 @@ const DashboardPage: React.FC = () => {
     ? `${profile?.firstName} ${profile?.lastName}` 
     : user?.fullName || 'User';
 
-  // Mock data for Recent Updates (will be replaced with Redux data)
-  const mockUpdates: MockUpdate[] = [
-    {
-      id: '1',
+  // Birthdays of living relatives in the coming week
+  const birthdayUpdates: MockUpdate[] = getOccasionsWithin(familyOccasions, today, BIRTHDAY_NOTICE_DAYS)
+    .filter(occasion => occasion.kind === 'birthday' && memberEntities[occasion.memberIds[0]])
+    .map(occasion => ({
+      id: occasion.id,
       type: 'birthday',
       data: {
-        relativeName: 'Elena Rivera',
-        age: 54,
-        date: new Date(2025, 9, 25).toISOString(),
+        relativeName: `${memberEntities[occasion.memberIds[0]]?.firstName} ${memberEntities[occasion.memberIds[0]]?.lastName}`,
+        age: occasion.years,
+        date: occasion.eventDate,
       },
-    },
+    }));
+
+  // Mock data for Recent Updates (will be replaced with Redux data)
+  const mockUpdates: MockUpdate[] = [
+    ...birthdayUpdates,
     {
       id: '2',
       type: 'photo',
@@ -96,31 +125,6 @@ const DashboardPage: React.FC = () => {
     console.log('View all updates');
   };
 
-  // Mock data for Upcoming Events (will be replaced with Redux data)
-  const mockEvents: MockEvent[] = [
-    {
-      id: '1',
-      name: "Elena's Birthday",
-      date: new Date(2025, 9, 25).toISOString(),
-      time: 'All Day',
-      isToday: false,
-    },
-    {
-      id: '2',
-      name: 'Family Dinner',
-      date: new Date(2025, 9, 28).toISOString(),
-      time: "6:00 PM • Grandma's",
-      isToday: false,
-    },
-    {
-      id: '3',
-      name: 'Halloween',
-      date: new Date(2025, 9, 31).toISOString(),
-      time: "7:00 PM • Mike's House",
-      isToday: false,
-    },
-  ];
-
   // Mock data for Online Users (will be replaced with Redux data)
   const mockOnlineUsers: MockUser[] = [
     {
@@ -146,11 +150,13 @@ const DashboardPage: React.FC = () => {
   ];
 
   const handleCalendarClick = () => {
-    console.log('Calendar clicked');
+    dispatch(setEventsView('month'));
+    navigate('/events');
   };
 
-  const handleEventClick = (eventId: string) => {
-    console.log('Event clicked:', eventId);
+  // Events and family occasions are both listed on the events page
+  const handleEventClick = () => {
+    navigate('/events');
   };
 
   const handleUserClick = (userId: string) => {
@@ -211,9 +217,12 @@ const DashboardPage: React.FC = () => {
             {/* Right Column - Up Next & Online Now */}
             <div className="dashboard-sidebar">
               <UpcomingEvents
-                events={mockEvents}
+                events={nextEvents}
+                occasions={nextOccasions}
+                maxItems={MAX_UPCOMING_EVENTS}
                 onCalendarClick={handleCalendarClick}
                 onEventClick={handleEventClick}
+                onOccasionClick={handleEventClick}
               />
               
               <OnlineNow
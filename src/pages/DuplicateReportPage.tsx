@@ -0,0 +1,156 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  getFamilyMembers,
+  getRelationships,
+  mergeFamilyMembers,
+  selectFamilyMembers,
+  selectRelationships,
+  selectPendingMemberIds,
+  selectFamilyLoading,
+  selectRollbackError,
+  dismissRollbackError
+} from '../redux/slices/familySlice';
+import { selectUser } from '../redux/slices/authSlice';
+import NavigationBar from '../components/NavigationBar';
+import BackLink from '../components/BackLink';
+import MergeMembersModal from '../components/MergeMembersModal';
+import Toast from '../components/Toast';
+import { findDuplicateMembers, DuplicatePair } from '../utils/duplicateDetection';
+import { formatGenealogicalDate } from '../utils/genealogicalDate';
+import { FamilyMember, MergeFamilyMembersRequest } from '../types/api';
+import { useAppDispatch, useAppSelector } from '../redux/store';
+import './DuplicateReportPage.scss';
+
+// Identifies a pair regardless of which member is listed first
+const getPairKey = (pair: DuplicatePair<FamilyMember>): string =>
+  [pair.first.id, pair.second.id].sort().join(':');
+
+/**
+ * DuplicateReportPage lists every pair of members across the tree who may be the same
+ * person, with why they matched, and opens the merge modal to combine them.
+ */
+const DuplicateReportPage: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const familyMembers = useAppSelector(selectFamilyMembers);
+  const relationships = useAppSelector(selectRelationships);
+  const pendingMemberIds = useAppSelector(selectPendingMemberIds);
+  const isLoading = useAppSelector(selectFamilyLoading);
+  const rollbackError = useAppSelector(selectRollbackError);
+  const user = useAppSelector(selectUser);
+
+  // Pairs marked as different people; shown again on the next visit
+  const [dismissedPairs, setDismissedPairs] = useState<string[]>([]);
+  const [reviewPair, setReviewPair] = useState<DuplicatePair<FamilyMember> | null>(null);
+
+  useEffect(() => {
+    const membersRequest = dispatch(getFamilyMembers(false));
+    const relationshipsRequest = dispatch(getRelationships(false));
+    return () => {
+      membersRequest.abort();
+      relationshipsRequest.abort();
+    };
+  }, [dispatch]);
+
+  // Members being saved, merged or deleted are left out until the server has answered
+  const pairs = useMemo(() => {
+    const settledMembers = familyMembers.filter(member => !pendingMemberIds.includes(member.id));
+    return findDuplicateMembers(settledMembers, relationships);
+  }, [familyMembers, relationships, pendingMemberIds]);
+
+  const visiblePairs = pairs.filter(pair => !dismissedPairs.includes(getPairKey(pair)));
+  const rootMemberId = familyMembers.find(member => member.userId === user?.id)?.id || user?.id || '';
+
+  const formatMember = (member: FamilyMember): string => {
+    const year = formatGenealogicalDate(member.dateOfBirth, { yearOnly: true });
+    const name = `${member.firstName} ${member.lastName}`.trim();
+    return year ? `${name} (b. ${year})` : name;
+  };
+
+  const handleDismiss = (pair: DuplicatePair<FamilyMember>) => {
+    setDismissedPairs(prev => [...prev, getPairKey(pair)]);
+  };
+
+  const handleDismissRollbackError = useCallback(() => {
+    dispatch(dismissRollbackError());
+  }, [dispatch]);
+
+  const handleMerge = (mergeData: MergeFamilyMembersRequest) => {
+    // Both members show as pending until merged; if merging fails a toast says why
+    dispatch(mergeFamilyMembers(mergeData));
+  };
+
+  // The tree owner is always the member kept
+  const keepMember = reviewPair && (reviewPair.second.id === rootMemberId ? reviewPair.second : reviewPair.first);
+  const duplicateMember = reviewPair && (keepMember === reviewPair.first ? reviewPair.second : reviewPair.first);
+
+  return (
+    <div className="duplicate-report-page">
+      <NavigationBar />
+      <main className="duplicate-report-main">
+        <div className="duplicate-report-container">
+          <BackLink to="/family-tree" label="Back to Family Tree" />
+
+          <div className="duplicate-report-header">
+            <h1 className="duplicate-report-title">Possible Duplicates</h1>
+            <p className="duplicate-report-subtitle">
+              People who may have been added to your family tree more than once.
+            </p>
+          </div>
+
+          {isLoading && familyMembers.length === 0 ? (
+            <p className="duplicate-report-empty" role="status">Checking your family tree...</p>
+          ) : visiblePairs.length === 0 ? (
+            <p className="duplicate-report-empty" role="status">No possible duplicates found.</p>
+          ) : (
+            <ul className="duplicate-report-list">
+              {visiblePairs.map(pair => (
+                <li key={getPairKey(pair)} className="duplicate-report-item">
+                  <div className="duplicate-report-members">
+                    <span className="duplicate-report-name">{formatMember(pair.first)}</span>
+                    <span className="duplicate-report-and">and</span>
+                    <span className="duplicate-report-name">{formatMember(pair.second)}</span>
+                    <span className={`duplicate-report-confidence ${pair.confidence}`}>
+                      {pair.confidence === 'likely' ? 'Likely match' : 'Possible match'}
+                    </span>
+                  </div>
+                  {pair.reasons.length > 0 && (
+                    <ul className="duplicate-report-reasons">
+                      {pair.reasons.map(reason => (
+                        <li key={reason}>{reason}</li>
+                      ))}
+                    </ul>
+                  )}
+                  <div className="duplicate-report-actions">
+                    <button type="button" className="btn-dismiss" onClick={() => handleDismiss(pair)}>
+                      Not a duplicate
+                    </button>
+                    <button type="button" className="btn-review" onClick={() => setReviewPair(pair)}>
+                      Review &amp; merge
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </main>
+
+      {keepMember && duplicateMember && (
+        <MergeMembersModal
+          isOpen
+          onClose={() => setReviewPair(null)}
+          member={keepMember}
+          members={familyMembers}
+          relationships={relationships}
+          rootMemberId={rootMemberId}
+          initialDuplicateId={duplicateMember.id}
+          onMerge={handleMerge}
+        />
+      )}
+
+      <Toast message={rollbackError} onDismiss={handleDismissRollbackError} />
+    </div>
+  );
+};
+
+export default DuplicateReportPage;
@@ -1,116 +1,149 @@
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useCallback, useEffect, useState } from 'react';
 import NavigationBar from '../components/NavigationBar';
 import CreateEventModal from '../components/CreateEventModal';
+import EventCard from '../components/EventCard';
+import EventCalendar from '../components/EventCalendar';
+import FamilyOccasionList from '../components/FamilyOccasionList';
+import Toast from '../components/Toast';
+import {
+  fetchEvents,
+  fetchCalendarFeed,
+  rsvpEvent,
+  cancelEvent,
+  updateEvent,
+  clearError,
+  setEventsView,
+  selectEvents,
+  selectEventsView,
+  selectUpcomingEvents,
+  selectFamilyOccasions,
+  selectEventsLoading,
+  selectEventsError,
+  selectCalendarFeedUrl
+} from '../redux/slices/eventsSlice';
+import {
+  getFamilyMembers,
+  getRelationships,
+  selectFamilyMembers,
+  selectFamilyMemberEntities
+} from '../redux/slices/familySlice';
+import { selectUser } from '../redux/slices/authSlice';
+import { useAppDispatch, useAppSelector } from '../redux/store';
+import { getStartOfDay } from '../utils/eventDates';
+import { getMemberRsvp } from '../utils/eventRsvp';
+import { getOccasionsWithin } from '../utils/familyOccasions';
+import { addDays, canMoveEvent, getCalendarDays, getCalendarEntries } from '../utils/eventCalendar';
+import { downloadIcs, exportCalendar, getIcsFileName, getWebcalUrl } from '../utils/icalendar';
+import { EventGuest, EventReply, FamilyEvent } from '../types/components';
+import { EventsView } from '../types/redux';
 import './EventsPage.scss';
 
-interface EventData {
-  id: string;
-  title: string;
-  date: string;
-  month: string;
-  fullDate: string;
-  location: string;
-  description?: string;
-  image: string;
-  invitedBy?: string;
-  inviterPhoto?: string;
-  hostedBy?: string;
-  hostPhoto?: string;
-  attending: number;
-  attendees: string[];
-  isNew?: boolean;
-}
+// Days ahead birthdays, anniversaries and memorial dates are listed
+const OCCASION_DAYS = 30;
 
-interface EventsData {
-  pending: EventData[];
-  upcoming: EventData[];
-}
+const VIEW_OPTIONS: { value: EventsView; label: string }[] = [
+  { value: 'cards', label: 'Cards' },
+  { value: 'month', label: 'Month' },
+  { value: 'week', label: 'Week' },
+  { value: 'list', label: 'List' },
+];
 
+/**
+ * EventsPage lists the family events still to come: invitations waiting for a reply
+ * first, then everything the user is hosting or has replied to, as cards or on a month,
+ * week or list calendar.
+ */
 const EventsPage: React.FC = () => {
-  const navigate = useNavigate();
+  const dispatch = useAppDispatch();
+  const user = useAppSelector(selectUser);
+  // Events from earlier today are still shown
+  const today = getStartOfDay(new Date());
+  const events = useAppSelector(state => selectUpcomingEvents(state, today));
+  const allEvents = useAppSelector(selectEvents);
+  const view = useAppSelector(selectEventsView);
+  const [focusedDay, setFocusedDay] = useState<number>(today);
+  const calendarDays = view === 'cards' ? [] : getCalendarDays(view, focusedDay);
+  // On a calendar, occasions are dated from the first day it shows so earlier ones still appear
+  const familyOccasions = useAppSelector(state => selectFamilyOccasions(state, calendarDays[0] ?? today));
+  const isLoading = useAppSelector(selectEventsLoading);
+  const error = useAppSelector(selectEventsError);
+  const calendarFeedUrl = useAppSelector(selectCalendarFeedUrl);
+  const familyMembers = useAppSelector(selectFamilyMembers);
+  const memberEntities = useAppSelector(selectFamilyMemberEntities);
   const [isCreateEventModalOpen, setIsCreateEventModalOpen] = useState<boolean>(false);
-  const [events] = useState<EventsData>({
-    pending: [
-      {
-        id: '1',
-        title: "Cousin Mike's Graduation Party",
-        date: '12',
-        month: 'NOV',
-        fullDate: 'Saturday, 6:00 PM',
-        location: 'The Rivera House, 42 Maple St.',
-        description: '"We\'re so proud of Mike! Join us to celebrate his achievement. We\'ll be sharing photos and coordinating a group gift here."',
-        image: 'https://images.unsplash.com/photo-1523050854058-8df90110c9f1?w=800',
-        invitedBy: 'Sarah Rivera',
-        inviterPhoto: 'https://i.pravatar.cc/150?img=5',
-        attending: 12,
-        attendees: [
-          'https://i.pravatar.cc/150?img=1',
-          'https://i.pravatar.cc/150?img=2',
-          'https://i.pravatar.cc/150?img=3',
-        ],
-        isNew: true,
-      },
-    ],
-    upcoming: [
-      {
-        id: '2',
-        title: 'Annual Thanksgiving Dinner',
-        date: '24',
-        month: 'NOV',
-        fullDate: 'Thursday, 4:00 PM',
-        location: "Grandma's House",
-        image: 'https://images.unsplash.com/photo-1574672280600-4accfa5b6f98?w=800',
-        hostedBy: 'Elena Rivera',
-        hostPhoto: 'https://i.pravatar.cc/150?img=1',
-        attending: 15,
-        attendees: [
-          'https://i.pravatar.cc/150?img=1',
-          'https://i.pravatar.cc/150?img=2',
-          'https://i.pravatar.cc/150?img=3',
-        ],
-      },
-      {
-        id: '3',
-        title: "Leo's 5th Birthday",
-        date: '05',
-        month: 'DEC',
-        fullDate: 'Sunday, 2:00 PM',
-        location: 'City Park, Picnic Area B',
-        image: 'https://images.unsplash.com/photo-1558636508-e0db3814bd1d?w=800',
-        hostedBy: 'Maria',
-        hostPhoto: 'https://i.pravatar.cc/150?img=5',
-        attending: 18,
-        attendees: [
-          'https://i.pravatar.cc/150?img=1',
-          'https://i.pravatar.cc/150?img=2',
-          'https://i.pravatar.cc/150?img=3',
-        ],
-      },
-    ],
-  });
+
+  // Family members are needed to pick guests and to show who is coming; with the
+  // relationships they also give the family's birthdays and anniversaries
+  useEffect(() => {
+    const eventsRequest = dispatch(fetchEvents());
+    const membersRequest = dispatch(getFamilyMembers(false));
+    const relationshipsRequest = dispatch(getRelationships(false));
+    const feedRequest = dispatch(fetchCalendarFeed());
+    return () => {
+      eventsRequest.abort();
+      feedRequest.abort();
+      membersRequest.abort();
+      relationshipsRequest.abort();
+    };
+  }, [dispatch]);
+
+  // The user replies as their own member of the tree
+  const viewerMemberId = familyMembers.find(member => member.userId === user?.id)?.id || user?.id || '';
+  const isHost = (createdBy: string): boolean => createdBy === user?.id;
+  const getGuests = (event: FamilyEvent): EventGuest[] =>
+    event.attendees.flatMap(memberId => memberEntities[memberId] ? [memberEntities[memberId]] : []);
+  const occasions = getOccasionsWithin(familyOccasions, today, OCCASION_DAYS);
+  const pendingEvents = events.filter(event => event.myRsvp === null && !isHost(event.createdBy));
+  const upcomingEvents = events.filter(event => !pendingEvents.includes(event));
 
   const handleCreateEvent = () => {
     setIsCreateEventModalOpen(true);
   };
 
-  const handleJoinEvent = (eventId: string) => {
-    console.log('Join event:', eventId);
+  const handleRsvp = (eventId: string, reply: EventReply) => {
+    dispatch(rsvpEvent({ eventId, rsvpData: { memberId: viewerMemberId, ...reply } }));
+  };
+
+  const handleCancelEvent = (eventId: string) => {
+    dispatch(cancelEvent(eventId));
   };
 
-  const handleDeclineEvent = (eventId: string) => {
-    console.log('Decline event:', eventId);
+  // Upcoming events are dated to their next occurrence; calendars get the stored event, with
+  // its first date and repeat rule
+  const handleAddToCalendar = (eventId: string) => {
+    const event = allEvents.find(stored => stored.id === eventId);
+    if (event) {
+      downloadIcs(exportCalendar([event]), getIcsFileName(event.title));
+    }
   };
 
-  const handleViewDetails = (eventId: string) => {
-    console.log('View details:', eventId);
+  // Everything the user hasn't declined, with the family's birthdays, anniversaries and
+  // memorial dates, for their own calendar app
+  const handleDownloadCalendar = () => {
+    const calendar = exportCalendar(
+      allEvents.filter(event => event.myRsvp !== 'declined'),
+      familyOccasions,
+      { name: user ? `${user.fullName}'s Family Calendar` : 'Family Calendar' }
+    );
+    downloadIcs(calendar, 'family-calendar.ics');
   };
 
+  // Hosts can move their one-off events to another day; moving one occurrence must not move a whole series
+  const canReschedule = (event: FamilyEvent): boolean => isHost(event.createdBy) && canMoveEvent(event);
+
+  const handleReschedule = (eventId: string, eventDate: string) => {
+    dispatch(updateEvent({ eventId, eventData: { eventDate } }));
+  };
+
+  const handleDismissError = useCallback(() => {
+    dispatch(clearError());
+  }, [dispatch]);
+
   return (
     <div className="events-page">
       <NavigationBar />
-      <CreateEventModal 
-        isOpen={isCreateEventModalOpen} 
+      <CreateEventModal
+        isOpen={isCreateEventModalOpen}
         onClose={() => setIsCreateEventModalOpen(false)}
       />
       <main className="events-main">
@@ -121,144 +154,131 @@ const EventsPage: React.FC = () => {
               <h1 className="events-title">Family Events</h1>
               <p className="events-subtitle">Coordinate celebrations, reunions, and get-togethers.</p>
             </div>
-            <button className="btn-create-event" onClick={handleCreateEvent}>
-              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4v16m8-8H4" />
-              </svg>
-              Create Event
-            </button>
+            <div className="events-header-actions">
+              <div className="events-view-switcher" role="group" aria-label="View">
+                {VIEW_OPTIONS.map(option => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    className={`events-view-button ${view === option.value ? 'active' : ''}`}
+                    aria-pressed={view === option.value}
+                    onClick={() => dispatch(setEventsView(option.value))}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <button
+                className="btn-download-calendar"
+                onClick={handleDownloadCalendar}
+                title="All your family events, birthdays and anniversaries as an .ics file for Google, Apple or Outlook Calendar"
+              >
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                </svg>
+                Download Calendar
+              </button>
+              {/* The server's feed follows changes to events, unlike the one-off download */}
+              {calendarFeedUrl && (
+                <a
+                  className="btn-subscribe-calendar"
+                  href={getWebcalUrl(calendarFeedUrl)}
+                  title="Subscribe in Apple or Outlook Calendar to keep your family events up to date. For Google Calendar, add this link under Other calendars › From URL."
+                >
+                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" aria-hidden="true">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                  </svg>
+                  Subscribe
+                </a>
+              )}
+              <button className="btn-create-event" onClick={handleCreateEvent}>
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4v16m8-8H4" />
+                </svg>
+                Create Event
+              </button>
+            </div>
           </div>
 
           {/* Pending Invitations */}
-          {events.pending.length > 0 && (
+          {pendingEvents.length > 0 && (
             <section className="events-section">
               <h2 className="section-title">
                 Pending Invitations
-                <span className="badge-count">{events.pending.length}</span>
+                <span className="badge-count">{pendingEvents.length}</span>
               </h2>
               <div className="events-grid">
-                {events.pending.map((event) => (
-                  <div key={event.id} className="event-card event-card-pending">
-                    <div className="event-image-container">
-                      <img src={event.image} alt={event.title} className="event-image" />
-                      {event.isNew && <span className="badge-new">NEW INVITE</span>}
-                      <div className="event-date-badge">
-                        <div className="date-number">{event.date}</div>
-                        <div className="date-month">{event.month}</div>
-                      </div>
-                    </div>
-                    <div className="event-content">
-                      <h3 className="event-title">{event.title}</h3>
-                      <div className="event-meta">
-                        <div className="event-meta-item">
-                          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor">
-                            <circle cx="12" cy="12" r="10" strokeWidth="2"/>
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6v6l4 2"/>
-                          </svg>
-                          <span>{event.fullDate}</span>
-                        </div>
-                        <div className="event-meta-item">
-                          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z"/>
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 11a3 3 0 11-6 0 3 3 0 016 0z"/>
-                          </svg>
-                          <span>{event.location}</span>
-                        </div>
-                      </div>
-                      <div className="event-description">{event.description}</div>
-                      <div className="event-host">
-                        <img src={event.inviterPhoto} alt={event.invitedBy} className="host-avatar" />
-                        <span>Invited by <strong>{event.invitedBy}</strong></span>
-                      </div>
-                      <div className="event-footer">
-                        <div className="event-attendees">
-                          <div className="attendees-avatars">
-                            {event.attendees.map((avatar, index) => (
-                              <img key={index} src={avatar} alt="" className="attendee-avatar" />
-                            ))}
-                          </div>
-                          <span className="attendees-count">{event.attending} attending</span>
-                        </div>
-                        <div className="event-actions">
-                          <button 
-                            className="btn-decline" 
-                            onClick={() => handleDeclineEvent(event.id)}
-                          >
-                            Decline
-                          </button>
-                          <button 
-                            className="btn-join" 
-                            onClick={() => handleJoinEvent(event.id)}
-                          >
-                            Join Event
-                          </button>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
+                {pendingEvents.map((event) => (
+                  <EventCard
+                    key={event.id}
+                    event={event}
+                    guests={getGuests(event)}
+                    isHost={false}
+                    isInvitation
+                    onRsvp={handleRsvp}
+                    onAddToCalendar={handleAddToCalendar}
+                  />
                 ))}
               </div>
             </section>
           )}
 
+          {/* Calendar */}
+          {view !== 'cards' && (
+            <section className="events-section" aria-label="Calendar">
+              <EventCalendar
+                view={view}
+                focusedDay={focusedDay}
+                today={today}
+                entries={getCalendarEntries(
+                  allEvents, familyOccasions, calendarDays[0], addDays(calendarDays[calendarDays.length - 1], 1)
+                )}
+                onFocusedDayChange={setFocusedDay}
+                canReschedule={canReschedule}
+                onReschedule={handleReschedule}
+              />
+            </section>
+          )}
+
           {/* Upcoming Events */}
-          <section className="events-section">
-            <h2 className="section-title">Upcoming Events</h2>
-            <div className="events-grid">
-              {events.upcoming.map((event) => (
-                <div key={event.id} className="event-card">
-                  <div className="event-image-container">
-                    <img src={event.image} alt={event.title} className="event-image" />
-                    <div className="event-date-badge">
-                      <div className="date-number">{event.date}</div>
-                      <div className="date-month">{event.month}</div>
-                    </div>
-                  </div>
-                  <div className="event-content">
-                    <h3 className="event-title">{event.title}</h3>
-                    <div className="event-meta">
-                      <div className="event-meta-item">
-                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor">
-                          <circle cx="12" cy="12" r="10" strokeWidth="2"/>
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6v6l4 2"/>
-                        </svg>
-                        <span>{event.fullDate}</span>
-                      </div>
-                      <div className="event-meta-item">
-                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z"/>
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 11a3 3 0 11-6 0 3 3 0 016 0z"/>
-                        </svg>
-                        <span>{event.location}</span>
-                      </div>
-                    </div>
-                    <div className="event-host">
-                      <img src={event.hostPhoto} alt={event.hostedBy} className="host-avatar" />
-                      <span>Hosted by <strong>{event.hostedBy}</strong></span>
-                    </div>
-                    <div className="event-footer">
-                      <div className="event-attendees">
-                        <div className="attendees-avatars">
-                          {event.attendees.map((avatar, index) => (
-                            <img key={index} src={avatar} alt="" className="attendee-avatar" />
-                          ))}
-                        </div>
-                        <span className="attendees-count">+{event.attending}</span>
-                      </div>
-                      <button 
-                        className="btn-view-details" 
-                        onClick={() => handleViewDetails(event.id)}
-                      >
-                        View Details
-                      </button>
-                    </div>
-                  </div>
+          {view === 'cards' && (
+            <section className="events-section">
+              <h2 className="section-title">Upcoming Events</h2>
+              {isLoading && events.length === 0 ? (
+                <p className="events-empty" role="status">Loading events...</p>
+              ) : upcomingEvents.length === 0 ? (
+                <p className="events-empty" role="status">
+                  No upcoming events yet. Create one to get the family together.
+                </p>
+              ) : (
+                <div className="events-grid">
+                  {upcomingEvents.map((event) => (
+                    <EventCard
+                      key={event.id}
+                      event={event}
+                      guests={getGuests(event)}
+                      isHost={isHost(event.createdBy)}
+                      myReply={getMemberRsvp(event, viewerMemberId)}
+                      onRsvp={handleRsvp}
+                      onCancelEvent={handleCancelEvent}
+                      onAddToCalendar={handleAddToCalendar}
+                    />
+                  ))}
                 </div>
-              ))}
-            </div>
-          </section>
+              )}
+            </section>
+          )}
+
+          {/* Birthdays, anniversaries and memorial dates */}
+          {view === 'cards' && occasions.length > 0 && (
+            <section className="events-section">
+              <h2 className="section-title">Birthdays &amp; Anniversaries</h2>
+              <FamilyOccasionList occasions={occasions} />
+            </section>
+          )}
         </div>
       </main>
+      <Toast message={error} onDismiss={handleDismissError} />
     </div>
   );
 };
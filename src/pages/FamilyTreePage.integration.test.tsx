@@ -8,6 +8,7 @@ import authReducer from '../redux/slices/authSlice';
 import userReducer from '../redux/slices/userSlice';
 import familyReducer from '../redux/slices/familySlice';
 import treeReducer from '../redux/slices/treeSlice';
+import syncReducer from '../redux/slices/syncSlice';
 
 const createMockStore = () => {
   return configureStore({
@@ -16,6 +17,7 @@ const createMockStore = () => {
       user: userReducer,
       family: familyReducer,
       tree: treeReducer,
+      sync: syncReducer,
     },
     preloadedState: {
       auth: {
@@ -30,10 +32,12 @@ const createMockStore = () => {
         error: null,
       },
       family: {
-        familyMembers: [],
-        relationships: [],
+        familyMembers: { ids: [], entities: {} },
+        relationships: { ids: [], entities: {} },
         isLoading: false,
         error: null,
+        pendingChanges: {},
+        rollbackError: null,
       },
       tree: {
         selectedMemberId: null,
@@ -42,6 +46,18 @@ const createMockStore = () => {
         zoomLevel: 100,
         panOffset: { x: 0, y: 0 },
         showFirstTimeTooltip: false,
+        tracedPath: [],
+        tracedPathStep: null,
+        chartView: 'tree' as const,
+        chartGenerations: 3,
+      },
+      sync: {
+        isOnline: true,
+        isSyncing: false,
+        staleKeys: {},
+        lastSyncedAt: null,
+        outbox: [],
+        conflicts: [],
       },
     },
   });
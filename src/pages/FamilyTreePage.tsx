@@ -1,16 +1,29 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useDispatch, useSelector } from 'react-redux';
 import { 
   getFamilyMembers, 
   getRelationships, 
   addFamilyMember,
+  addRelationship,
+  updateRelationship,
+  deleteRelationship,
+  deleteFamilyMember,
+  mergeFamilyMembers,
+  importFamilyTree,
   selectFamilyMembers,
+  selectFamilyMemberEntities,
   selectRelationships,
+  selectRelationshipGraph,
+  selectRelationshipsOfMember,
   selectFamilyLoading,
-  selectFamilyError
+  selectFamilyError,
+  selectRollbackError,
+  selectDataQualityIssues,
+  dismissRollbackError
 } from '../redux/slices/familySlice';
 import { selectProfile } from '../redux/slices/userSlice';
+import { selectStaleSince } from '../redux/slices/syncSlice';
 import { 
   setSelectedMember,
   performSearch,
@@ -19,48 +32,88 @@ import {
   selectSelectedMemberId,
   selectShowTooltip,
   dismissTooltip,
-  checkFirstTimeVisit
+  checkFirstTimeVisit,
+  setTracedPath
 } from '../redux/slices/treeSlice';
 import NavigationBar from '../components/NavigationBar';
 import TreeCanvas from '../components/TreeCanvas';
 import ZoomControls from '../components/ZoomControls';
+import TreeViewSwitcher from '../components/TreeViewSwitcher';
 import SearchInput from '../components/SearchInput';
 import TreeOwnerProfile from '../components/TreeOwnerProfile';
 import MemberDetailPanel from '../components/MemberDetailPanel';
 import FirstTimeTooltip from '../components/FirstTimeTooltip';
 import AddRelativeModal from '../components/AddRelativeModal';
+import GedcomImportModal from '../components/GedcomImportModal';
+import GedcomExportModal from '../components/GedcomExportModal';
+import DeleteMemberModal from '../components/DeleteMemberModal';
+import MergeMembersModal from '../components/MergeMembersModal';
+import TracedPathControls from '../components/TracedPathControls';
+import DataQualityPanel from '../components/DataQualityPanel';
+import SyncStatusBanner from '../components/SyncStatusBanner';
+import Toast from '../components/Toast';
+import { buildGedcomImportRequest, GedcomImportPreview } from '../utils/gedcom';
+import { findShortestPath, getEdge } from '../utils/relationshipGraph';
+import { validateRelationship, RelationshipDraft } from '../utils/relationshipValidation';
+import { MergeFamilyMembersRequest, UpdateRelationshipRequest } from '../types/api';
+import { AddRelativeLinkData } from '../types/components';
 import { useAppDispatch, useAppSelector } from '../redux/store';
 import './FamilyTreePage.scss';
 
 function FamilyTreePageContent(): React.ReactElement {
   const dispatch = useAppDispatch();
   const familyMembers = useAppSelector(selectFamilyMembers);
+  const memberEntities = useAppSelector(selectFamilyMemberEntities);
   const relationships = useAppSelector(selectRelationships);
+  const relationshipGraph = useAppSelector(selectRelationshipGraph);
   const isLoading = useAppSelector(selectFamilyLoading);
   const error = useAppSelector(selectFamilyError);
+  const rollbackError = useAppSelector(selectRollbackError);
+  const dataQualityIssues = useAppSelector(selectDataQualityIssues);
   const user = useAppSelector(selectProfile);
+  const ownerRelationships = useAppSelector(state => selectRelationshipsOfMember(state, user?.id || ''));
   const searchQuery = useAppSelector(selectSearchQuery);
   const searchResults = useAppSelector(selectSearchResults);
   const selectedMemberId = useAppSelector(selectSelectedMemberId);
   const showFirstTimeTooltip = useAppSelector(selectShowTooltip);
+  const staleSince = useAppSelector(selectStaleSince);
   
   const [initialLoadComplete, setInitialLoadComplete] = useState<boolean>(false);
   const [showAddRelativeModal, setShowAddRelativeModal] = useState<boolean>(false);
   const [addRelativeType, setAddRelativeType] = useState<string | null>(null);
   const [addRelativeRelatedTo, setAddRelativeRelatedTo] = useState<string | null>(null);
+  const [showGedcomImportModal, setShowGedcomImportModal] = useState<boolean>(false);
+  const [showGedcomExportModal, setShowGedcomExportModal] = useState<boolean>(false);
+  const [showDeleteMemberModal, setShowDeleteMemberModal] = useState<boolean>(false);
+  const [showMergeMembersModal, setShowMergeMembersModal] = useState<boolean>(false);
   const navigate = useNavigate();
   const rootCardRef = useRef<HTMLDivElement>(null);
   const sidebarRef = useRef<HTMLElement>(null);
   const treeContentRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
+    // Requests of the latest load; starting another load or leaving the page aborts them
+    let pendingRequests: { abort: () => void }[] = [];
+    const abortPendingRequests = () => {
+      pendingRequests.forEach(request => request.abort());
+      pendingRequests = [];
+    };
+
     // Load family data on mount and when returning to the page
     const loadData = async () => {
+      abortPendingRequests();
       try {
-        await dispatch(getFamilyMembers()).unwrap();
-        await dispatch(getRelationships()).unwrap();
+        const membersRequest = dispatch(getFamilyMembers());
+        pendingRequests.push(membersRequest);
+        await membersRequest.unwrap();
+
+        const relationshipsRequest = dispatch(getRelationships());
+        pendingRequests.push(relationshipsRequest);
+        await relationshipsRequest.unwrap();
       } catch (err) {
-        console.error('Failed to load family tree data:', err);
+        if ((err as Error).name !== 'AbortError') {
+          console.error('Failed to load family tree data:', err);
+        }
       } finally {
         setInitialLoadComplete(true);
       }
@@ -79,6 +132,7 @@ function FamilyTreePageContent(): React.ReactElement {
     
     return () => {
       document.removeEventListener('visibilitychange', handleVisibilityChange);
+      abortPendingRequests();
     };
   }, [dispatch]);
 
@@ -143,20 +197,37 @@ function FamilyTreePageContent(): React.ReactElement {
     setAddRelativeRelatedTo(null);
   };
 
-  const handleAddRelativeSubmit = async (formData: any) => {
-    try {
-      await dispatch(addFamilyMember({
-        ...formData,
-        relatedTo: addRelativeRelatedTo,
-        relationshipType: addRelativeType,
-      })).unwrap();
-      handleCloseAddRelativeModal();
-      // Refresh the family data
-      await dispatch(getFamilyMembers({ forceRefresh: true })).unwrap();
-      await dispatch(getRelationships({ forceRefresh: true })).unwrap();
-    } catch (err) {
-      console.error('Failed to add family member:', err);
+  const handleAddRelativeSubmit = (formData: any) => {
+    // The relative shows in the tree straight away; if saving fails it is removed and a toast says why
+    dispatch(addFamilyMember({
+      ...formData,
+      relatedTo: addRelativeRelatedTo,
+      relationshipType: addRelativeType,
+    }));
+    handleCloseAddRelativeModal();
+  };
+
+  const handleLinkExistingRelative = (memberId: string, linkData: AddRelativeLinkData) => {
+    const relatedTo = addRelativeRelatedTo || treeOwner.id;
+    // Already linked this way: there is nothing to add, so show them instead
+    if (getEdge(relationshipGraph, relatedTo, memberId)?.relationshipType !== linkData.relationshipType) {
+      dispatch(addRelationship({
+        fromUserId: relatedTo,
+        toUserId: memberId,
+        relationshipType: linkData.relationshipType,
+        specificLabel: linkData.specificLabel || undefined,
+        lineage: linkData.lineage || undefined,
+      }));
     }
+    dispatch(setSelectedMember(memberId));
+  };
+
+  const handleDismissRollbackError = useCallback(() => {
+    dispatch(dismissRollbackError());
+  }, [dispatch]);
+
+  const handleGedcomImport = async (preview: GedcomImportPreview) => {
+    await dispatch(importFamilyTree(buildGedcomImportRequest(preview))).unwrap();
   };
 
   const handleProfileClick = () => {
@@ -174,40 +245,75 @@ function FamilyTreePageContent(): React.ReactElement {
     openAddRelativeModal(null, selectedMemberId);
   };
 
+  const handleDeleteMember = () => {
+    if (!selectedMemberId) return;
+    // The member shows as pending until deleted; if deleting fails a toast says why
+    dispatch(deleteFamilyMember(selectedMemberId));
+    dispatch(setSelectedMember(null));
+    dispatch(setTracedPath([]));
+  };
+
+  const handleMergeMembers = (mergeData: MergeFamilyMembersRequest) => {
+    // Both members show as pending until merged; if merging fails a toast says why
+    dispatch(mergeFamilyMembers(mergeData));
+    dispatch(setTracedPath([]));
+  };
+
+  const handleUpdateRelationship = (relationshipId: string, relationshipData: UpdateRelationshipRequest) => {
+    // Applied once saved; if saving fails a toast says why
+    dispatch(updateRelationship({ relationshipId, relationshipData }));
+    dispatch(setTracedPath([]));
+  };
+
+  const handleDeleteRelationship = (relationshipId: string) => {
+    // Removed once deleted; if deleting fails a toast says why
+    dispatch(deleteRelationship(relationshipId));
+    dispatch(setTracedPath([]));
+  };
+
+  const validateRelationshipChange = useCallback(
+    (draft: RelationshipDraft) => validateRelationship(draft, relationships),
+    [relationships]
+  );
+
   const handleRelatedMemberClick = (memberId: string) => {
     // Select the related member
     dispatch(setSelectedMember(memberId));
   };
 
   const handleTracePath = (startId: string, targetId: string) => {
-    // Path calculation is now handled in RelationshipExplorer component
-    // This callback can be used for analytics or additional actions
-    console.log('Tracing path from', startId, 'to', targetId);
+    // Highlight the same shortest path RelationshipExplorer describes on the tree canvas
+    const path = findShortestPath(relationshipGraph, startId, targetId);
+    dispatch(setTracedPath(path || []));
   };
 
   // Check if user has a spouse
-  const hasSpouse = relationships.some(
-    rel => 
-      (rel.fromUserId === user?.id && rel.relationshipType === 'spouse') ||
-      (rel.toUserId === user?.id && rel.relationshipType === 'spouse')
-  );
+  const hasSpouse = ownerRelationships.some(rel => rel.relationshipType === 'spouse');
 
   // Find the tree owner (current user) as a family member
-  const treeOwner = familyMembers.find(member => member.userId === user?.id) || {
+  const treeOwner = useMemo(() => familyMembers.find(member => member.userId === user?.id) || {
     id: user?.id || 'unknown',
     userId: user?.id || 'unknown',
     firstName: user?.firstName || 'User',
     lastName: user?.lastName || '',
     dateOfBirth: user?.dateOfBirth || null,
     photoUrl: user?.photoUrl || null,
-  };
+  }, [familyMembers, user]);
 
   // Ensure tree owner is always in the members list for the canvas
-  const membersWithOwner = familyMembers.some(m => m.id === treeOwner.id || m.userId === user?.id)
-    ? familyMembers
-    : [treeOwner, ...familyMembers];
+  // Memoized so the canvas only rebuilds the tree when the members change
+  const membersWithOwner = useMemo(() => (
+    memberEntities[treeOwner.id] || familyMembers.some(m => m.userId === user?.id)
+      ? familyMembers
+      : [treeOwner, ...familyMembers]
+  ), [memberEntities, familyMembers, treeOwner, user]);
 
-  if (!initialLoadComplete) {
+  const selectedMember = selectedMemberId ? memberEntities[selectedMemberId] : undefined;
+  // The tree owner can take in a duplicate but is never deleted or merged away
+  const isOwnerSelected = selectedMemberId === treeOwner.id;
+
+  // Data from the offline cache is shown while the first load is still running
+  if (!initialLoadComplete && !staleSince) {
     return (
       <div className="family-tree-page">
         <NavigationBar />
@@ -251,8 +357,33 @@ function FamilyTreePageContent(): React.ReactElement {
           debounceMs={300}
           resultsCount={searchQuery ? searchResults.length : null}
         />
+        <TreeViewSwitcher />
+        <div className="tree-controls-actions">
+          <button
+            className="tree-controls-button"
+            onClick={() => setShowGedcomImportModal(true)}
+            aria-label="Import family tree from a GEDCOM file"
+          >
+            Import GEDCOM
+          </button>
+          <button
+            className="tree-controls-button"
+            onClick={() => setShowGedcomExportModal(true)}
+            aria-label="Export family tree as a GEDCOM file"
+          >
+            Export GEDCOM
+          </button>
+          <button
+            className="tree-controls-button"
+            onClick={() => navigate('/family-tree/duplicates')}
+            aria-label="Find people added to the family tree more than once"
+          >
+            Find duplicates
+          </button>
+        </div>
         <ZoomControls />
       </div>
+      <SyncStatusBanner members={membersWithOwner} />
       <div className="tree-main-content">
         <aside className="tree-sidebar" ref={sidebarRef}>
           {!selectedMemberId ? (
@@ -265,7 +396,7 @@ function FamilyTreePageContent(): React.ReactElement {
             />
           ) : (
             <MemberDetailPanel
-              selectedMember={familyMembers.find(m => m.id === selectedMemberId)}
+              selectedMember={memberEntities[selectedMemberId]}
               allMembers={familyMembers}
               relationships={relationships}
               treeOwner={treeOwner}
@@ -274,8 +405,14 @@ function FamilyTreePageContent(): React.ReactElement {
               onAddRelativeClick={handleAddRelativeClick}
               onRelatedMemberClick={handleRelatedMemberClick}
               onTracePath={handleTracePath}
+              onMergeClick={selectedMember ? () => setShowMergeMembersModal(true) : undefined}
+              onDeleteClick={selectedMember && !isOwnerSelected ? () => setShowDeleteMemberModal(true) : undefined}
+              onUpdateRelationship={handleUpdateRelationship}
+              onDeleteRelationship={handleDeleteRelationship}
+              validateRelationship={validateRelationshipChange}
             />
           )}
+          <DataQualityPanel issues={dataQualityIssues} onIssueClick={handleMemberClick} />
         </aside>
         <div className="tree-content" ref={treeContentRef}>
           <TreeCanvas
@@ -286,6 +423,7 @@ function FamilyTreePageContent(): React.ReactElement {
             onPlaceholderClick={handlePlaceholderClick}
             rootCardRef={rootCardRef}
           />
+          <TracedPathControls members={membersWithOwner} />
           <FirstTimeTooltip
             show={showFirstTimeTooltip}
             onDismiss={() => dispatch(dismissTooltip())}
@@ -300,9 +438,52 @@ function FamilyTreePageContent(): React.ReactElement {
           onClose={handleCloseAddRelativeModal}
           onSubmit={handleAddRelativeSubmit}
           relationshipType={addRelativeType}
-          relatedToMember={familyMembers.find(m => m.id === addRelativeRelatedTo) || treeOwner}
+          relatedToMember={(addRelativeRelatedTo && memberEntities[addRelativeRelatedTo]) || treeOwner}
+          members={familyMembers}
+          relationships={relationships}
+          onLinkExisting={handleLinkExistingRelative}
         />
       )}
+
+      <GedcomImportModal
+        isOpen={showGedcomImportModal}
+        onClose={() => setShowGedcomImportModal(false)}
+        existingMembers={familyMembers}
+        existingRelationships={relationships}
+        onImport={handleGedcomImport}
+      />
+
+      <GedcomExportModal
+        isOpen={showGedcomExportModal}
+        onClose={() => setShowGedcomExportModal(false)}
+        members={familyMembers}
+        relationships={relationships}
+      />
+
+      {selectedMember && (
+        <>
+          <DeleteMemberModal
+            isOpen={showDeleteMemberModal}
+            onClose={() => setShowDeleteMemberModal(false)}
+            member={selectedMember}
+            members={familyMembers}
+            relationships={relationships}
+            rootMemberId={treeOwner.id}
+            onDelete={handleDeleteMember}
+          />
+          <MergeMembersModal
+            isOpen={showMergeMembersModal}
+            onClose={() => setShowMergeMembersModal(false)}
+            member={selectedMember}
+            members={familyMembers}
+            relationships={relationships}
+            rootMemberId={treeOwner.id}
+            onMerge={handleMergeMembers}
+          />
+        </>
+      )}
+
+      <Toast message={rollbackError} onDismiss={handleDismissRollbackError} />
     </div>
   );
 }
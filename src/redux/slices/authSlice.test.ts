@@ -8,6 +8,7 @@ import authReducer, {
   resetPassword,
   updatePassword,
   clearError,
+  sessionExpired,
   selectUser,
   selectIsAuthenticated,
   selectAuthLoading,
@@ -81,6 +82,22 @@ describe('authSlice', () => {
     });
   });
 
+  describe('sessionExpired reducer', () => {
+    it('should sign the user out with an explanation', () => {
+      const signedInState: AuthState = {
+        user: { id: '1', email: 'test@example.com' } as User,
+        isAuthenticated: true,
+        isLoading: true,
+        error: null,
+      };
+      const actual = authReducer(signedInState, sessionExpired());
+      expect(actual.user).toBeNull();
+      expect(actual.isAuthenticated).toBe(false);
+      expect(actual.isLoading).toBe(false);
+      expect(actual.error).toBe('Your session has expired. Please sign in again.');
+    });
+  });
+
   describe('signUp async thunk', () => {
     const mockUser: User = {
       id: '1',
@@ -1,5 +1,6 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import AuthService from '../../services/AuthService';
+import OfflineStore from '../../services/OfflineStore';
 import { AuthState, SignUpPayload, SignInPayload, AsyncThunkConfig } from '../../types/redux';
 import { User } from '../../types/api';
 
@@ -165,12 +166,14 @@ export const signOut = createAsyncThunk<void, void, AsyncThunkConfig>(
         localStorage.removeItem('accessToken');
         localStorage.removeItem('refreshToken');
         localStorage.removeItem('mockUser');
+        await OfflineStore.clear();
         return;
       }
       
       await AuthService.logout();
       localStorage.removeItem('accessToken');
       localStorage.removeItem('refreshToken');
+      await OfflineStore.clear();
     } catch (error) {
       return rejectWithValue((error as Error).message || 'Failed to sign out');
     }
@@ -219,6 +222,13 @@ const authSlice = createSlice({
     clearError: (state) => {
       state.error = null;
     },
+    // The API client could not refresh the access token; its tokens are already cleared
+    sessionExpired: (state) => {
+      state.user = null;
+      state.isAuthenticated = false;
+      state.isLoading = false;
+      state.error = 'Your session has expired. Please sign in again.';
+    },
   },
   extraReducers: (builder) => {
     // Sign Up
@@ -345,5 +355,5 @@ export const selectAuthLoading = (state: { auth: AuthState }) => state.auth.isLo
 export const selectAuthError = (state: { auth: AuthState }) => state.auth.error;
 
 // Export actions and reducer
-export const { clearError } = authSlice.actions;
+export const { clearError, sessionExpired } = authSlice.actions;
 export default authSlice.reducer;
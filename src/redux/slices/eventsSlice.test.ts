@@ -0,0 +1,422 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { configureStore } from '@reduxjs/toolkit';
+import eventsReducer, {
+  fetchEvents,
+  fetchCalendarFeed,
+  createEvent,
+  importEvents,
+  updateEvent,
+  cancelEvent,
+  rsvpEvent,
+  clearError,
+  setEventsView,
+  selectEvents,
+  selectEventById,
+  selectEventsLoading,
+  selectEventsSaving,
+  selectEventsError,
+  selectEventsView,
+  selectCalendarFeedUrl,
+  selectUpcomingEvents,
+  selectFamilyOccasions,
+} from './eventsSlice';
+import authReducer from './authSlice';
+import userReducer from './userSlice';
+import familyReducer from './familySlice';
+import memoryReducer from './memorySlice';
+import dashboardReducer from './dashboardSlice';
+import treeReducer from './treeSlice';
+import syncReducer from './syncSlice';
+import EventService from '../../services/EventService';
+import { EventsState } from '../../types/redux';
+import { FamilyEvent, FamilyMember, User } from '../../types/api';
+
+// Mock EventService
+vi.mock('../../services/EventService', () => ({
+  default: {
+    getEvents: vi.fn(),
+    getCalendarFeed: vi.fn(),
+    createEvent: vi.fn(),
+    importEvents: vi.fn(),
+    updateEvent: vi.fn(),
+    cancelEvent: vi.fn(),
+    rsvpEvent: vi.fn(),
+  },
+}));
+
+const event = (id: string, eventDate: string, extra: Partial<FamilyEvent> = {}): FamilyEvent => ({
+  id,
+  title: `Event ${id}`,
+  category: 'dinner',
+  eventDate,
+  isAllDay: false,
+  attendees: ['member-1', 'member-2'],
+  rsvps: [{ memberId: 'member-2', response: 'going', guestCount: 0, respondedAt: '2025-01-01T00:00:00.000Z' }],
+  myRsvp: null,
+  isCancelled: false,
+  createdBy: 'user-2',
+  hostName: 'Elena Rivera',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...extra,
+});
+
+const stateWith = (events: FamilyEvent[], extra: Partial<EventsState> = {}): EventsState => ({
+  events: {
+    ids: events.map(e => e.id),
+    entities: Object.fromEntries(events.map(e => [e.id, e])),
+  },
+  isLoading: false,
+  isSaving: false,
+  error: null,
+  view: 'cards',
+  calendarFeedUrl: null,
+  ...extra,
+});
+
+const user = { id: 'user-1', email: 'maria@example.com', fullName: 'Maria Rivera' } as User;
+const viewer = { id: 'member-1', userId: 'user-1', firstName: 'Maria', lastName: 'Rivera' } as FamilyMember;
+
+// The store is signed in as Maria, who is member-1 in the tree
+const createStore = (events: FamilyEvent[] = []) => configureStore({
+  reducer: {
+    auth: authReducer,
+    user: userReducer,
+    family: familyReducer,
+    memory: memoryReducer,
+    events: eventsReducer,
+    dashboard: dashboardReducer,
+    tree: treeReducer,
+    sync: syncReducer,
+  },
+  preloadedState: {
+    events: stateWith(events),
+    auth: { ...authReducer(undefined, { type: 'unknown' }), user, isAuthenticated: true },
+    family: { ...familyReducer(undefined, { type: 'unknown' }), familyMembers: { ids: [viewer.id], entities: { [viewer.id]: viewer } } },
+  },
+});
+
+describe('eventsSlice', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return the initial state', () => {
+    expect(eventsReducer(undefined, { type: 'unknown' })).toEqual(stateWith([]));
+  });
+
+  it('should clear the error', () => {
+    expect(eventsReducer(stateWith([], { error: 'Failed' }), clearError()).error).toBeNull();
+  });
+
+  it('should switch how the events page shows events', () => {
+    const state = eventsReducer(stateWith([]), setEventsView('month'));
+    expect(selectEventsView({ events: state })).toBe('month');
+  });
+
+  describe('fetchEvents async thunk', () => {
+    it('should replace the events with the server list, soonest first', () => {
+      const state = eventsReducer(stateWith([event('stale', '2025-10-01T10:00:00.000Z')], { isLoading: true }), fetchEvents.fulfilled([
+        event('later', '2025-12-05T14:00:00.000Z'),
+        event('sooner', '2025-11-24T16:00:00.000Z'),
+      ], 'req-1'));
+
+      expect(selectEvents({ events: state }).map(e => e.id)).toEqual(['sooner', 'later']);
+      expect(state.isLoading).toBe(false);
+    });
+
+    it('should keep the events shown and report the error when fetching fails', () => {
+      const state = eventsReducer(
+        stateWith([event('kept', '2025-10-01T10:00:00.000Z')], { isLoading: true }),
+        fetchEvents.rejected(null, 'req-1', undefined, 'Failed to fetch events')
+      );
+
+      expect(selectEvents({ events: state }).map(e => e.id)).toEqual(['kept']);
+      expect(state.error).toBe('Failed to fetch events');
+    });
+
+    it('should not report an error when the request is aborted', () => {
+      const aborted = fetchEvents.rejected(new DOMException('Aborted', 'AbortError'), 'req-1', undefined);
+      const state = eventsReducer(stateWith([], { isLoading: true }), { ...aborted, meta: { ...aborted.meta, aborted: true } });
+
+      expect(state.isLoading).toBe(false);
+      expect(state.error).toBeNull();
+    });
+
+    it('should keep events created meanwhile in mock mode', async () => {
+      vi.useFakeTimers();
+      const store = createStore([event('kept', '2025-10-01T10:00:00.000Z')]);
+      const result = store.dispatch(fetchEvents());
+      await vi.runAllTimersAsync();
+      vi.useRealTimers();
+
+      expect((await result).payload).toEqual([event('kept', '2025-10-01T10:00:00.000Z')]);
+      expect(EventService.getEvents).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fetchCalendarFeed async thunk', () => {
+    it('should keep the feed URL calendar apps subscribe to', () => {
+      const url = 'https://api.example.com/events/feed/abc123.ics';
+      const state = eventsReducer(stateWith([]), fetchCalendarFeed.fulfilled(url, 'req-1'));
+
+      expect(selectCalendarFeedUrl({ events: state })).toBe(url);
+    });
+
+    it('should not report an error when the feed cannot be fetched', () => {
+      const state = eventsReducer(stateWith([]), fetchCalendarFeed.rejected(null, 'req-1', undefined, 'Failed to get calendar feed'));
+
+      expect(selectCalendarFeedUrl({ events: state })).toBeNull();
+      expect(state.error).toBeNull();
+    });
+  });
+
+  describe('createEvent async thunk', () => {
+    const request = { title: 'Family Dinner', eventDate: '2025-11-01T18:00:00.000Z' };
+
+    it('should mark the events as saving while the event is created', () => {
+      expect(eventsReducer(stateWith([]), createEvent.pending('req-1', request)).isSaving).toBe(true);
+    });
+
+    it('should add the created event in date order', () => {
+      const created = event('new', request.eventDate, { createdBy: 'user-1', myRsvp: 'going' });
+      const state = eventsReducer(
+        stateWith([event('later', '2025-12-05T14:00:00.000Z')], { isSaving: true }),
+        createEvent.fulfilled(created, 'req-1', request)
+      );
+
+      expect(selectEvents({ events: state }).map(e => e.id)).toEqual(['new', 'later']);
+      expect(state.isSaving).toBe(false);
+    });
+
+    it('should leave the error to the create event form', () => {
+      const state = eventsReducer(stateWith([], { isSaving: true }), createEvent.rejected(null, 'req-1', request, 'Invalid event data'));
+
+      expect(state.isSaving).toBe(false);
+      expect(state.error).toBeNull();
+    });
+
+    it('should make the host going to their own event in mock mode', async () => {
+      vi.useFakeTimers();
+      const store = createStore();
+      const result = store.dispatch(createEvent({ ...request, category: 'dinner', recurrence: 'FREQ=MONTHLY', attendees: ['member-1'] }));
+      await vi.runAllTimersAsync();
+      vi.useRealTimers();
+
+      expect((await result).payload).toMatchObject({
+        title: 'Family Dinner',
+        category: 'dinner',
+        recurrence: 'FREQ=MONTHLY',
+        attendees: ['member-1'],
+        myRsvp: 'going',
+        createdBy: 'user-1',
+        rsvps: [{ memberId: 'member-1', response: 'going', guestCount: 0 }],
+        isCancelled: false,
+      });
+      expect(selectEvents(store.getState())).toHaveLength(1);
+    });
+  });
+
+  describe('importEvents async thunk', () => {
+    const request = {
+      events: [
+        { title: 'Beach Trip', category: 'trip' as const, eventDate: '2025-08-01T16:00:00.000Z' },
+        { title: 'Family Dinner', eventDate: '2025-07-01T18:00:00.000Z', recurrence: 'FREQ=MONTHLY' },
+      ],
+    };
+
+    it('should add every imported event in date order', () => {
+      const imported = [event('trip', '2025-08-01T16:00:00.000Z'), event('dinner', '2025-07-01T18:00:00.000Z')];
+      const state = eventsReducer(
+        stateWith([event('later', '2025-12-05T14:00:00.000Z')], { isSaving: true }),
+        importEvents.fulfilled(imported, 'req-1', request)
+      );
+
+      expect(selectEvents({ events: state }).map(e => e.id)).toEqual(['dinner', 'trip', 'later']);
+      expect(state.isSaving).toBe(false);
+    });
+
+    it('should leave the error to the create event form', () => {
+      const state = eventsReducer(stateWith([], { isSaving: true }), importEvents.rejected(null, 'req-1', request, 'Invalid event data'));
+
+      expect(state.isSaving).toBe(false);
+      expect(state.error).toBeNull();
+    });
+
+    it('should create each event with the host going in mock mode', async () => {
+      vi.useFakeTimers();
+      const store = createStore();
+      const result = store.dispatch(importEvents(request));
+      await vi.runAllTimersAsync();
+      vi.useRealTimers();
+
+      const created = (await result).payload as FamilyEvent[];
+      expect(created.map(e => [e.title, e.category, e.recurrence, e.myRsvp])).toEqual([
+        ['Beach Trip', 'trip', null, 'going'],
+        ['Family Dinner', 'celebration', 'FREQ=MONTHLY', 'going'],
+      ]);
+      expect(new Set(created.map(e => e.id)).size).toBe(2);
+      expect(selectEvents(store.getState()).map(e => e.title)).toEqual(['Family Dinner', 'Beach Trip']);
+    });
+  });
+
+  describe('updateEvent and cancelEvent async thunks', () => {
+    const dinner = event('dinner', '2025-11-01T18:00:00.000Z');
+
+    it('should replace the event with the updated one', () => {
+      const update = { eventId: 'dinner', eventData: { location: "Grandma's House" } };
+      const state = eventsReducer(stateWith([dinner]), updateEvent.fulfilled({ ...dinner, location: "Grandma's House" }, 'req-1', update));
+
+      expect(selectEventById({ events: state }, 'dinner')?.location).toBe("Grandma's House");
+    });
+
+    it('should keep a cancelled event but leave it out of upcoming events', () => {
+      const state = eventsReducer(stateWith([dinner]), cancelEvent.fulfilled({ ...dinner, isCancelled: true }, 'req-1', 'dinner'));
+
+      expect(selectEventById({ events: state }, 'dinner')?.isCancelled).toBe(true);
+      expect(selectUpcomingEvents({ events: state }, 0)).toEqual([]);
+    });
+
+    it('should report why cancelling failed', () => {
+      const state = eventsReducer(
+        stateWith([dinner], { isSaving: true }),
+        cancelEvent.rejected(null, 'req-1', 'dinner', 'Only the host can cancel this event')
+      );
+
+      expect(state.isSaving).toBe(false);
+      expect(state.error).toBe('Only the host can cancel this event');
+      expect(selectEventById({ events: state }, 'dinner')?.isCancelled).toBe(false);
+    });
+
+    it('should reject an update to an unknown event in mock mode', async () => {
+      vi.useFakeTimers();
+      const store = createStore([dinner]);
+      const result = store.dispatch(updateEvent({ eventId: 'missing', eventData: { title: 'Lunch' } }));
+      await vi.runAllTimersAsync();
+      vi.useRealTimers();
+
+      expect((await result).payload).toBe('Event not found');
+      expect(selectEventsError(store.getState())).toBe('Event not found');
+    });
+  });
+
+  describe('rsvpEvent async thunk', () => {
+    const party = event('party', '2025-11-12T18:00:00.000Z');
+
+    it('should store the replies returned by the server', () => {
+      const reply = { eventId: 'party', rsvpData: { memberId: 'member-1', response: 'maybe' as const } };
+      const rsvp = { memberId: 'member-1', response: 'maybe' as const, guestCount: 0, respondedAt: '2025-02-01T00:00:00.000Z' };
+      const state = eventsReducer(stateWith([party]), rsvpEvent.fulfilled({ ...party, myRsvp: 'maybe', rsvps: [...party.rsvps, rsvp] }, 'req-1', reply));
+
+      expect(selectEventById({ events: state }, 'party')).toMatchObject({ myRsvp: 'maybe', rsvps: [party.rsvps[0], rsvp] });
+    });
+
+    it('should report why the reply failed', () => {
+      const reply = { eventId: 'party', rsvpData: { memberId: 'member-1', response: 'declined' as const } };
+      const state = eventsReducer(stateWith([party]), rsvpEvent.rejected(null, 'req-1', reply, 'Event not found'));
+
+      expect(state.error).toBe('Event not found');
+      expect(selectEventById({ events: state }, 'party')?.myRsvp).toBeNull();
+    });
+
+    it("should replace the member's earlier reply in mock mode", async () => {
+      vi.useFakeTimers();
+      const store = createStore([{ ...party, myRsvp: 'going' }]);
+      const result = store.dispatch(rsvpEvent({
+        eventId: 'party',
+        rsvpData: { memberId: 'member-2', response: 'going', guestCount: 40, dietaryNotes: '  Vegetarian ' },
+      }));
+      await vi.runAllTimersAsync();
+      vi.useRealTimers();
+
+      await result;
+      const updated = selectEventById(store.getState(), 'party');
+      expect(updated?.rsvps).toEqual([
+        { memberId: 'member-2', response: 'going', guestCount: 10, dietaryNotes: 'Vegetarian', respondedAt: expect.any(String) },
+      ]);
+      // A reply for another member leaves the user's own reply alone
+      expect(updated?.myRsvp).toBe('going');
+      expect(selectEventsLoading(store.getState())).toBe(false);
+      expect(selectEventsSaving(store.getState())).toBe(false);
+    });
+
+    it("should set the user's reply and drop plus-ones and notes when declining in mock mode", async () => {
+      vi.useFakeTimers();
+      const store = createStore([party]);
+      const result = store.dispatch(rsvpEvent({
+        eventId: 'party',
+        rsvpData: { memberId: 'member-1', response: 'declined', guestCount: 2, dietaryNotes: 'Vegan' },
+      }));
+      await vi.runAllTimersAsync();
+      vi.useRealTimers();
+
+      await result;
+      expect(selectEventById(store.getState(), 'party')).toMatchObject({
+        myRsvp: 'declined',
+        rsvps: [party.rsvps[0], { memberId: 'member-1', response: 'declined', guestCount: 0 }],
+      });
+      expect(selectEventById(store.getState(), 'party')?.rsvps[1].dietaryNotes).toBeUndefined();
+    });
+  });
+
+  describe('selectUpcomingEvents', () => {
+    it('should list events from the given time on, leaving out cancelled ones', () => {
+      const state = {
+        events: stateWith([
+          event('past', '2025-10-01T10:00:00.000Z'),
+          event('today', '2025-10-20T08:00:00.000Z'),
+          event('cancelled', '2025-11-01T10:00:00.000Z', { isCancelled: true }),
+          event('future', '2025-12-01T10:00:00.000Z'),
+        ]),
+      };
+
+      const from = new Date('2025-10-20T00:00:00.000Z').getTime();
+      expect(selectUpcomingEvents(state, from).map(e => e.id)).toEqual(['today', 'future']);
+    });
+
+    it('should list a repeating event once, at its next occurrence', () => {
+      const first = new Date(2024, 5, 15, 18).toISOString();
+      const state = {
+        events: stateWith([
+          event('anniversary', first, { recurrence: 'FREQ=YEARLY' }),
+          event('ended', first, { recurrence: 'FREQ=MONTHLY;COUNT=2' }),
+          event('soon', new Date(2025, 5, 1, 12).toISOString()),
+        ]),
+      };
+
+      const upcoming = selectUpcomingEvents(state, new Date(2025, 4, 1).getTime());
+      expect(upcoming.map(e => [e.id, e.eventDate])).toEqual([
+        ['soon', new Date(2025, 5, 1, 12).toISOString()],
+        ['anniversary', new Date(2025, 5, 15, 18).toISOString()],
+      ]);
+      // The stored event keeps its first date
+      expect(selectEventById(state, 'anniversary')?.eventDate).toBe(first);
+    });
+  });
+
+  describe('selectFamilyOccasions', () => {
+    it("should work out occasions from the tree's members and spouse relationships", () => {
+      const store = createStore();
+      const state = store.getState();
+      const members = [
+        { ...viewer, isLiving: true },
+        { ...viewer, id: 'member-2', userId: null, firstName: 'Carlos', dateOfBirth: '1970-07-04', isLiving: true },
+      ];
+      const relationship = {
+        id: 'rel-1', fromUserId: 'member-1', toUserId: 'member-2', relationshipType: 'spouse' as const,
+        startDate: '2000-09-09', createdAt: '2025-01-01T00:00:00.000Z',
+      };
+      const family = {
+        ...state.family,
+        familyMembers: { ids: members.map(m => m.id), entities: Object.fromEntries(members.map(m => [m.id, m])) },
+        relationships: { ids: ['rel-1'], entities: { 'rel-1': relationship } },
+      };
+
+      const occasions = selectFamilyOccasions({ ...state, family }, new Date(2025, 5, 1).getTime());
+      expect(occasions.map(o => [o.id, o.detail])).toEqual([
+        ['birthday-member-2', 'Turning 55'],
+        ['anniversary-rel-1', '25th anniversary'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,359 @@
+import { createSlice, createAsyncThunk, createSelector, createEntityAdapter, PayloadAction } from '@reduxjs/toolkit';
+import EventService from '../../services/EventService';
+import { EventsState, EventsView, CreateEventPayload, ImportEventsPayload, UpdateEventPayload, RsvpEventPayload, AsyncThunkConfig, RootState } from '../../types/redux';
+import { FamilyEvent, EventRsvp, CreateEventRequest } from '../../types/api';
+import { selectFamilyMembers, selectRelationships } from './familySlice';
+import { clampGuestCount } from '../../utils/eventRsvp';
+import { getNextOccurrence } from '../../utils/recurrence';
+import { generateFamilyOccasions } from '../../utils/familyOccasions';
+
+// Mock mode for development
+const MOCK_MODE = import.meta.env.VITE_MOCK_API === 'true';
+
+// Events are stored by ID, soonest first
+const eventsAdapter = createEntityAdapter<FamilyEvent>({
+  sortComparer: (a, b) => a.eventDate.localeCompare(b.eventDate),
+});
+
+/**
+ * Family member of the signed-in user in the tree, who replies to their invitations
+ */
+function getViewerMemberId(state: RootState): string | null {
+  const userId = state.auth.user?.id;
+  return selectFamilyMembers(state).find(member => member.userId === userId)?.id || userId || null;
+}
+
+/**
+ * Event as the server creates it in mock mode; the host is going to their own event
+ */
+function buildMockEvent(state: RootState, eventData: CreateEventRequest, id: string): FamilyEvent {
+  const user = state.auth.user;
+  const hostMemberId = getViewerMemberId(state);
+  const now = new Date().toISOString();
+  return {
+    id,
+    title: eventData.title,
+    description: eventData.description,
+    category: eventData.category || 'celebration',
+    eventDate: eventData.eventDate,
+    isAllDay: eventData.isAllDay || false,
+    location: eventData.location,
+    recurrence: eventData.recurrence || null,
+    attendees: eventData.attendees || [],
+    rsvps: hostMemberId ? [{ memberId: hostMemberId, response: 'going', guestCount: 0, respondedAt: now }] : [],
+    myRsvp: 'going',
+    isCancelled: false,
+    createdBy: user?.id || 'mock-user-id',
+    hostName: user?.fullName || 'You',
+    hostPhotoUrl: user?.photoUrl || null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Initial state
+const initialState: EventsState = {
+  events: eventsAdapter.getInitialState(),
+  isLoading: false,
+  isSaving: false,
+  error: null,
+  view: 'cards',
+  calendarFeedUrl: null,
+};
+
+// Async thunks
+export const fetchEvents = createAsyncThunk<FamilyEvent[], void, AsyncThunkConfig>(
+  'events/fetchEvents',
+  async (_, { getState, rejectWithValue, signal }) => {
+    try {
+      if (MOCK_MODE) {
+        // Mock response for development; events created meanwhile are kept
+        await new Promise(resolve => setTimeout(resolve, 300));
+        return selectEvents(getState());
+      }
+
+      // Aborting the thunk cancels the request; its rejected action leaves the events untouched
+      return await EventService.getEvents(signal);
+    } catch (error) {
+      return rejectWithValue((error as Error).message || 'Failed to fetch events');
+    }
+  }
+);
+
+export const fetchCalendarFeed = createAsyncThunk<string, void, AsyncThunkConfig>(
+  'events/fetchCalendarFeed',
+  async (_, { rejectWithValue, signal }) => {
+    try {
+      if (MOCK_MODE) {
+        // Mock response for development
+        await new Promise(resolve => setTimeout(resolve, 300));
+        return 'https://api.example.com/events/feed/mock-token.ics';
+      }
+
+      const { url } = await EventService.getCalendarFeed(signal);
+      return url;
+    } catch (error) {
+      return rejectWithValue((error as Error).message || 'Failed to get calendar feed');
+    }
+  }
+);
+
+export const createEvent = createAsyncThunk<FamilyEvent, CreateEventPayload, AsyncThunkConfig>(
+  'events/createEvent',
+  async (eventData, { getState, rejectWithValue }) => {
+    try {
+      if (MOCK_MODE) {
+        // Mock response for development
+        await new Promise(resolve => setTimeout(resolve, 500));
+        return buildMockEvent(getState(), eventData, 'mock-event-' + Date.now());
+      }
+
+      return await EventService.createEvent(eventData);
+    } catch (error) {
+      return rejectWithValue((error as Error).message || 'Failed to create event');
+    }
+  }
+);
+
+export const importEvents = createAsyncThunk<FamilyEvent[], ImportEventsPayload, AsyncThunkConfig>(
+  'events/importEvents',
+  async (importData, { getState, rejectWithValue }) => {
+    try {
+      if (MOCK_MODE) {
+        // Mock response for development
+        await new Promise(resolve => setTimeout(resolve, 500));
+        return importData.events.map((eventData, index) =>
+          buildMockEvent(getState(), eventData, `mock-event-${Date.now()}-${index}`)
+        );
+      }
+
+      return await EventService.importEvents(importData);
+    } catch (error) {
+      return rejectWithValue((error as Error).message || 'Failed to import events');
+    }
+  }
+);
+
+export const updateEvent = createAsyncThunk<FamilyEvent, UpdateEventPayload, AsyncThunkConfig>(
+  'events/updateEvent',
+  async ({ eventId, eventData }, { getState, rejectWithValue }) => {
+    try {
+      if (MOCK_MODE) {
+        // Mock response for development
+        await new Promise(resolve => setTimeout(resolve, 500));
+        const event = selectEventById(getState(), eventId);
+        if (!event) {
+          throw new Error('Event not found');
+        }
+        return { ...event, ...eventData, updatedAt: new Date().toISOString() };
+      }
+
+      return await EventService.updateEvent(eventId, eventData);
+    } catch (error) {
+      return rejectWithValue((error as Error).message || 'Failed to update event');
+    }
+  }
+);
+
+export const cancelEvent = createAsyncThunk<FamilyEvent, string, AsyncThunkConfig>(
+  'events/cancelEvent',
+  async (eventId, { getState, rejectWithValue }) => {
+    try {
+      if (MOCK_MODE) {
+        // Mock response for development
+        await new Promise(resolve => setTimeout(resolve, 500));
+        const event = selectEventById(getState(), eventId);
+        if (!event) {
+          throw new Error('Event not found');
+        }
+        return { ...event, isCancelled: true, updatedAt: new Date().toISOString() };
+      }
+
+      return await EventService.cancelEvent(eventId);
+    } catch (error) {
+      return rejectWithValue((error as Error).message || 'Failed to cancel event');
+    }
+  }
+);
+
+export const rsvpEvent = createAsyncThunk<FamilyEvent, RsvpEventPayload, AsyncThunkConfig>(
+  'events/rsvpEvent',
+  async ({ eventId, rsvpData }, { getState, rejectWithValue }) => {
+    try {
+      if (MOCK_MODE) {
+        // Mock response for development; a new reply replaces the member's earlier one
+        await new Promise(resolve => setTimeout(resolve, 300));
+        const event = selectEventById(getState(), eventId);
+        if (!event) {
+          throw new Error('Event not found');
+        }
+        const isComing = rsvpData.response !== 'declined';
+        const rsvp: EventRsvp = {
+          memberId: rsvpData.memberId,
+          response: rsvpData.response,
+          guestCount: isComing ? clampGuestCount(rsvpData.guestCount || 0) : 0,
+          dietaryNotes: isComing ? rsvpData.dietaryNotes?.trim() || undefined : undefined,
+          respondedAt: new Date().toISOString(),
+        };
+        const isViewer = rsvpData.memberId === getViewerMemberId(getState());
+        return {
+          ...event,
+          rsvps: [...event.rsvps.filter(existing => existing.memberId !== rsvp.memberId), rsvp],
+          myRsvp: isViewer ? rsvp.response : event.myRsvp,
+        };
+      }
+
+      return await EventService.rsvpEvent(eventId, rsvpData);
+    } catch (error) {
+      return rejectWithValue((error as Error).message || 'Failed to reply to event');
+    }
+  }
+);
+
+// Events slice
+const eventsSlice = createSlice({
+  name: 'events',
+  initialState,
+  reducers: {
+    clearError: (state) => {
+      state.error = null;
+    },
+    setEventsView: (state, action: PayloadAction<EventsView>) => {
+      state.view = action.payload;
+    },
+  },
+  extraReducers: (builder) => {
+    // Fetch Events
+    builder
+      .addCase(fetchEvents.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(fetchEvents.fulfilled, (state, action: PayloadAction<FamilyEvent[]>) => {
+        state.isLoading = false;
+        eventsAdapter.setAll(state.events, action.payload);
+      })
+      .addCase(fetchEvents.rejected, (state, action) => {
+        state.isLoading = false;
+        if (!action.meta.aborted) {
+          state.error = action.payload as string;
+        }
+      });
+
+    // Fetch Calendar Feed
+    // Without a feed the page only offers the download, so a failure is not reported
+    builder
+      .addCase(fetchCalendarFeed.fulfilled, (state, action: PayloadAction<string>) => {
+        state.calendarFeedUrl = action.payload;
+      });
+
+    // Create Event
+    builder
+      .addCase(createEvent.pending, (state) => {
+        state.isSaving = true;
+        state.error = null;
+      })
+      .addCase(createEvent.fulfilled, (state, action: PayloadAction<FamilyEvent>) => {
+        state.isSaving = false;
+        eventsAdapter.addOne(state.events, action.payload);
+      })
+      .addCase(createEvent.rejected, (state) => {
+        // The create event form shows why the event could not be created
+        state.isSaving = false;
+      });
+
+    // Import Events
+    builder
+      .addCase(importEvents.pending, (state) => {
+        state.isSaving = true;
+        state.error = null;
+      })
+      .addCase(importEvents.fulfilled, (state, action: PayloadAction<FamilyEvent[]>) => {
+        state.isSaving = false;
+        eventsAdapter.addMany(state.events, action.payload);
+      })
+      .addCase(importEvents.rejected, (state) => {
+        // The create event form shows why the events could not be imported
+        state.isSaving = false;
+      });
+
+    // Update Event
+    builder
+      .addCase(updateEvent.pending, (state) => {
+        state.isSaving = true;
+        state.error = null;
+      })
+      .addCase(updateEvent.fulfilled, (state, action: PayloadAction<FamilyEvent>) => {
+        state.isSaving = false;
+        eventsAdapter.upsertOne(state.events, action.payload);
+      })
+      .addCase(updateEvent.rejected, (state, action) => {
+        state.isSaving = false;
+        state.error = action.payload as string;
+      });
+
+    // Cancel Event
+    builder
+      .addCase(cancelEvent.pending, (state) => {
+        state.isSaving = true;
+        state.error = null;
+      })
+      .addCase(cancelEvent.fulfilled, (state, action: PayloadAction<FamilyEvent>) => {
+        state.isSaving = false;
+        eventsAdapter.upsertOne(state.events, action.payload);
+      })
+      .addCase(cancelEvent.rejected, (state, action) => {
+        state.isSaving = false;
+        state.error = action.payload as string;
+      });
+
+    // RSVP
+    builder
+      .addCase(rsvpEvent.pending, (state) => {
+        state.error = null;
+      })
+      .addCase(rsvpEvent.fulfilled, (state, action: PayloadAction<FamilyEvent>) => {
+        eventsAdapter.upsertOne(state.events, action.payload);
+      })
+      .addCase(rsvpEvent.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+  },
+});
+
+// Selectors
+const eventSelectors = eventsAdapter.getSelectors((state: { events: EventsState }) => state.events.events);
+
+export const selectEvents = eventSelectors.selectAll;
+export const selectEventById = eventSelectors.selectById;
+export const selectEventsLoading = (state: { events: EventsState }) => state.events.isLoading;
+export const selectEventsSaving = (state: { events: EventsState }) => state.events.isSaving;
+export const selectEventsError = (state: { events: EventsState }) => state.events.error;
+export const selectEventsView = (state: { events: EventsState }) => state.events.view;
+export const selectCalendarFeedUrl = (state: { events: EventsState }) => state.events.calendarFeedUrl;
+
+// Events still to come that have not been cancelled, soonest first; a repeating event is
+// listed once, dated to its next occurrence
+// from is a time in milliseconds, usually the start of today so events earlier today still show
+export const selectUpcomingEvents = createSelector(
+  [selectEvents, (_state: { events: EventsState }, from: number) => from],
+  (events, from) => events
+    .filter(event => !event.isCancelled)
+    .flatMap(event => {
+      const next = getNextOccurrence(event, from);
+      if (next === null) return [];
+      return [next === new Date(event.eventDate).getTime() ? event : { ...event, eventDate: new Date(next).toISOString() }];
+    })
+    .sort((a, b) => a.eventDate.localeCompare(b.eventDate))
+);
+
+// Birthdays, wedding anniversaries and memorial dates from the family tree, each at its next
+// date from `from` on, soonest first
+export const selectFamilyOccasions = createSelector(
+  [selectFamilyMembers, selectRelationships, (_state: RootState, from: number) => from],
+  generateFamilyOccasions
+);
+
+// Export actions and reducer
+export const { clearError, setEventsView } = eventsSlice.actions;
+export default eventsSlice.reducer;
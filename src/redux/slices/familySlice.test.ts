@@ -1,16 +1,41 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { configureStore } from '@reduxjs/toolkit';
 import familyReducer, {
   addFamilyMember,
   updateFamilyMember,
   getFamilyMembers,
   getRelationships,
+  importFamilyTree,
+  deleteFamilyMember,
+  mergeFamilyMembers,
+  addRelationship,
+  updateRelationship,
+  deleteRelationship,
   clearError,
   selectFamilyMembers,
   selectRelationships,
   selectFamilyLoading,
   selectFamilyError,
   selectMemberById,
+  selectPendingMemberIds,
+  selectSavedFamilyMembers,
+  selectSavedRelationships,
+  selectRollbackError,
+  selectRelationshipIdsByMember,
+  selectRelationshipsOfMember,
+  selectChildIdsByParents,
+  selectChildrenOfParents,
+  selectRelationshipGraph,
+  dismissRollbackError,
+  getParentsKey,
 } from './familySlice';
+import authReducer, { sessionExpired, signOut } from './authSlice';
+import userReducer from './userSlice';
+import memoryReducer from './memorySlice';
+import eventsReducer from './eventsSlice';
+import dashboardReducer from './dashboardSlice';
+import treeReducer from './treeSlice';
+import syncReducer from './syncSlice';
 import { FamilyState } from '../../types/redux';
 import { FamilyMember, Relationship } from '../../types/api';
 
@@ -21,15 +46,48 @@ vi.mock('../../services/FamilyService', () => ({
     updateFamilyMember: vi.fn(),
     getFamilyMembers: vi.fn(),
     getRelationships: vi.fn(),
+    importFamilyTree: vi.fn(),
+    deleteFamilyMember: vi.fn(),
+    mergeFamilyMembers: vi.fn(),
+    addRelationship: vi.fn(),
+    updateRelationship: vi.fn(),
+    deleteRelationship: vi.fn(),
   },
 }));
 
+// Members or relationships as they are stored in state
+const toEntityState = <T extends { id: string }>(items: T[]) => ({
+  ids: items.map(item => item.id),
+  entities: Object.fromEntries(items.map(item => [item.id, item])),
+});
+
+// Store with every slice, the family slice starting from the given state
+const createStore = (family: FamilyState) => configureStore({
+  reducer: {
+    auth: authReducer,
+    user: userReducer,
+    family: familyReducer,
+    memory: memoryReducer,
+    events: eventsReducer,
+    dashboard: dashboardReducer,
+    tree: treeReducer,
+    sync: syncReducer,
+  },
+  preloadedState: { family },
+});
+
+// Members and relationships of a state, in order
+const membersOf = (state: FamilyState) => selectFamilyMembers({ family: state });
+const relationshipsOf = (state: FamilyState) => selectRelationships({ family: state });
+
 describe('familySlice', () => {
   const initialState: FamilyState = {
-    familyMembers: [],
-    relationships: [],
+    familyMembers: { ids: [], entities: {} },
+    relationships: { ids: [], entities: {} },
     isLoading: false,
     error: null,
+    pendingChanges: {},
+    rollbackError: null,
   };
 
   beforeEach(() => {
@@ -42,6 +100,19 @@ describe('familySlice', () => {
     });
   });
 
+  describe('signing out', () => {
+    it('should clear the tree when the user signs out or the session expires', () => {
+      const signedIn = {
+        ...initialState,
+        familyMembers: toEntityState([{ id: 'pending-req-1', firstName: 'John' } as FamilyMember]),
+        pendingChanges: { 'pending-req-1': { requestId: 'req-1', previous: null } },
+      };
+
+      expect(familyReducer(signedIn, signOut.fulfilled(undefined, 'req-2'))).toEqual(initialState);
+      expect(familyReducer(signedIn, sessionExpired())).toEqual(initialState);
+    });
+  });
+
   describe('clearError reducer', () => {
     it('should clear error state', () => {
       const stateWithError = {
@@ -54,9 +125,9 @@ describe('familySlice', () => {
 
     it('should not affect other state properties', () => {
       const stateWithData = {
-        familyMembers: [{ id: '1', firstName: 'John' }],
-        relationships: [{ id: '1', fromUserId: '1', toUserId: '2' }],
-        isLoading: false,
+        ...initialState,
+        familyMembers: toEntityState([{ id: '1', firstName: 'John' }]),
+        relationships: toEntityState([{ id: '1', fromUserId: '1', toUserId: '2' }]),
         error: 'Some error',
       };
       const actual = familyReducer(stateWithData, clearError());
@@ -68,45 +139,73 @@ describe('familySlice', () => {
   });
 
   describe('addFamilyMember async thunk', () => {
+    const memberData = { firstName: 'John', lastName: 'Doe', dateOfBirth: '1990-01-01' };
     const mockMember: FamilyMember = {
       id: 'member-1',
       userId: null,
       firstName: 'John',
       lastName: 'Doe',
       dateOfBirth: '1990-01-01',
+      isLiving: true,
       createdBy: 'user-1',
       createdAt: '2024-01-01T00:00:00.000Z',
       updatedAt: '2024-01-01T00:00:00.000Z',
     };
+    const optimisticMember = {
+      ...mockMember,
+      id: 'pending-req-1',
+      createdBy: '',
+    };
+    const pending = (arg = memberData, optimisticRelationship: Relationship | null = null) =>
+      addFamilyMember.pending('req-1', arg, {
+        optimisticMember,
+        optimisticRelationship,
+      });
 
-    it('should handle addFamilyMember.pending', () => {
-      const action = { type: addFamilyMember.pending.type };
-      const state = familyReducer(initialState, action);
-      expect(state.isLoading).toBe(true);
-      expect(state.error).toBeNull();
+    it('should show the new member straight away under a temporary ID', () => {
+      const state = familyReducer(initialState, pending());
+      expect(membersOf(state)).toEqual([optimisticMember]);
+      expect(state.pendingChanges).toEqual({ 'pending-req-1': { requestId: 'req-1', previous: null } });
+      expect(state.isLoading).toBe(false);
     });
 
-    it('should handle addFamilyMember.fulfilled', () => {
-      const action = {
-        type: addFamilyMember.fulfilled.type,
-        payload: mockMember,
-      };
-      const state = familyReducer(initialState, action);
+    it('should replace the temporary member with the saved one', () => {
+      let state = familyReducer(initialState, pending());
+      state = familyReducer(state, addFamilyMember.fulfilled(mockMember, 'req-1', memberData));
+      expect(membersOf(state)).toEqual([mockMember]);
+      expect(state.pendingChanges).toEqual({});
       expect(state.isLoading).toBe(false);
-      expect(state.familyMembers).toEqual([mockMember]);
       expect(state.error).toBeNull();
     });
 
-    it('should handle addFamilyMember.rejected', () => {
-      const errorMessage = 'Failed to add family member';
-      const action = {
-        type: addFamilyMember.rejected.type,
-        payload: errorMessage,
-      };
-      const state = familyReducer(initialState, action);
-      expect(state.isLoading).toBe(false);
-      expect(state.error).toBe(errorMessage);
-      expect(state.familyMembers).toEqual([]);
+    it('should remove the temporary member and report why when saving fails', () => {
+      const existingMember = { id: 'member-0', firstName: 'Jane', lastName: 'Smith' } as FamilyMember;
+      let state = familyReducer({ ...initialState, familyMembers: toEntityState([existingMember]) }, pending());
+      state = familyReducer(state, addFamilyMember.rejected(null, 'req-1', memberData, 'Failed to add family member'));
+      expect(membersOf(state)).toEqual([existingMember]);
+      expect(state.pendingChanges).toEqual({});
+      expect(state.rollbackError).toBe('Failed to add family member');
+      // The tree stays on screen
+      expect(state.error).toBeNull();
+    });
+
+    it('should link the new member to its relative until the relationships are refreshed', () => {
+      const arg = { ...memberData, relatedTo: 'member-0', relationshipType: 'child' as const };
+      const optimisticRelationship = {
+        id: 'pending-relationship-req-1',
+        fromUserId: 'member-0',
+        toUserId: 'pending-req-1',
+        relationshipType: 'child',
+        createdAt: '2024-01-01T00:00:00.000Z',
+      } as Relationship;
+      let state = familyReducer(initialState, pending(arg, optimisticRelationship));
+      expect(relationshipsOf(state)).toEqual([optimisticRelationship]);
+
+      const saved = familyReducer(state, addFamilyMember.fulfilled(mockMember, 'req-1', arg));
+      expect(relationshipsOf(saved)[0].toUserId).toBe('member-1');
+
+      state = familyReducer(state, addFamilyMember.rejected(null, 'req-1', arg, 'Failed to add family member'));
+      expect(relationshipsOf(state)).toEqual([]);
     });
 
     it('should add member to existing family members list', () => {
@@ -117,22 +216,58 @@ describe('familySlice', () => {
       };
       const stateWithMembers = {
         ...initialState,
-        familyMembers: [existingMember],
-      };
-      const action = {
-        type: addFamilyMember.fulfilled.type,
-        payload: mockMember,
+        familyMembers: toEntityState([existingMember]),
       };
-      const state = familyReducer(stateWithMembers, action);
-      expect(state.familyMembers).toEqual([existingMember, mockMember]);
+      const state = familyReducer(stateWithMembers, addFamilyMember.fulfilled(mockMember, 'req-1', memberData));
+      expect(membersOf(state)).toEqual([existingMember, mockMember]);
     });
 
-    it('should set loading to true and clear error on pending', () => {
-      const stateWithError = { ...initialState, error: 'Previous error' };
-      const action = { type: addFamilyMember.pending.type };
-      const state = familyReducer(stateWithError, action);
-      expect(state.isLoading).toBe(true);
-      expect(state.error).toBeNull();
+    it('should keep the temporary member and its link when the tree is reloaded during the save', () => {
+      const arg = { ...memberData, relatedTo: 'member-0', relationshipType: 'child' as const };
+      const relative = { id: 'member-0', firstName: 'Jane', lastName: 'Smith' } as FamilyMember;
+      const optimisticRelationship = {
+        id: 'pending-relationship-req-1',
+        fromUserId: 'member-0',
+        toUserId: 'pending-req-1',
+        relationshipType: 'child',
+        createdAt: '2024-01-01T00:00:00.000Z',
+      } as Relationship;
+      let state = familyReducer(initialState, pending(arg, optimisticRelationship));
+      state = familyReducer(state, { type: getFamilyMembers.fulfilled.type, payload: [relative] });
+      state = familyReducer(state, { type: getRelationships.fulfilled.type, payload: [] });
+
+      expect(membersOf(state)).toEqual([relative, optimisticMember]);
+      expect(relationshipsOf(state)).toEqual([optimisticRelationship]);
+      expect(state.pendingChanges).toEqual({ 'pending-req-1': { requestId: 'req-1', previous: null } });
+
+      state = familyReducer(state, addFamilyMember.fulfilled(mockMember, 'req-1', arg));
+      expect(membersOf(state)).toEqual([relative, mockMember]);
+    });
+
+    it('should build the temporary member from the new member details', async () => {
+      const store = configureStore({
+        reducer: {
+          auth: authReducer,
+          user: userReducer,
+          family: familyReducer,
+          memory: memoryReducer,
+          events: eventsReducer,
+          dashboard: dashboardReducer,
+          tree: treeReducer,
+          sync: syncReducer,
+        },
+      });
+      const request = store.dispatch(addFamilyMember(memberData));
+
+      const [member] = selectFamilyMembers(store.getState());
+      expect(member).toMatchObject({ firstName: 'John', lastName: 'Doe', isLiving: true });
+      expect(member.id).toMatch(/^pending-/);
+      expect(store.getState().family.pendingChanges).toHaveProperty(member.id);
+
+      await request;
+      expect(selectFamilyMembers(store.getState())).toHaveLength(1);
+      expect(selectFamilyMembers(store.getState())[0].id).not.toBe(member.id);
+      expect(store.getState().family.pendingChanges).toEqual({});
     });
   });
 
@@ -142,6 +277,7 @@ describe('familySlice', () => {
       firstName: 'John',
       lastName: 'Doe',
       dateOfBirth: '1990-01-01',
+      isLiving: true,
     } as FamilyMember;
 
     const updatedMember: FamilyMember = {
@@ -150,37 +286,68 @@ describe('familySlice', () => {
       updatedAt: '2024-01-02T00:00:00.000Z',
     };
 
-    it('should handle updateFamilyMember.pending', () => {
-      const action = { type: updateFamilyMember.pending.type };
-      const state = familyReducer(initialState, action);
-      expect(state.isLoading).toBe(true);
-      expect(state.error).toBeNull();
+    const update = { memberId: 'member-1', memberData: { firstName: 'Johnny' } };
+
+    it('should show the edit straight away and remember the member before it', () => {
+      const stateWithMember = {
+        ...initialState,
+        familyMembers: toEntityState([existingMember]),
+      };
+      const state = familyReducer(stateWithMember, updateFamilyMember.pending('req-1', update));
+      expect(membersOf(state)[0]).toEqual({ ...existingMember, firstName: 'Johnny' });
+      expect(state.pendingChanges).toEqual({ 'member-1': { requestId: 'req-1', previous: existingMember } });
+      expect(state.isLoading).toBe(false);
     });
 
     it('should handle updateFamilyMember.fulfilled', () => {
       const stateWithMember = {
         ...initialState,
-        familyMembers: [existingMember],
-      };
-      const action = {
-        type: updateFamilyMember.fulfilled.type,
-        payload: updatedMember,
+        familyMembers: toEntityState([existingMember]),
       };
-      const state = familyReducer(stateWithMember, action);
+      let state = familyReducer(stateWithMember, updateFamilyMember.pending('req-1', update));
+      state = familyReducer(state, updateFamilyMember.fulfilled(updatedMember, 'req-1', update));
       expect(state.isLoading).toBe(false);
-      expect(state.familyMembers[0]).toEqual(updatedMember);
+      expect(membersOf(state)[0]).toEqual(updatedMember);
+      expect(state.pendingChanges).toEqual({});
       expect(state.error).toBeNull();
     });
 
-    it('should handle updateFamilyMember.rejected', () => {
-      const errorMessage = 'Failed to update family member';
-      const action = {
-        type: updateFamilyMember.rejected.type,
-        payload: errorMessage,
+    it('should restore the member and report why when saving fails', () => {
+      const stateWithMember = {
+        ...initialState,
+        familyMembers: toEntityState([existingMember]),
       };
-      const state = familyReducer(initialState, action);
-      expect(state.isLoading).toBe(false);
-      expect(state.error).toBe(errorMessage);
+      let state = familyReducer(stateWithMember, updateFamilyMember.pending('req-1', update));
+      state = familyReducer(state, updateFamilyMember.rejected(null, 'req-1', update, 'Failed to update family member'));
+      expect(membersOf(state)).toEqual([existingMember]);
+      expect(state.pendingChanges).toEqual({});
+      expect(state.rollbackError).toBe('Failed to update family member');
+      expect(state.error).toBeNull();
+    });
+
+    it('should keep showing the edit when the tree is reloaded during the save, and fall back to the reloaded member', () => {
+      const reloaded = { ...existingMember, lastName: 'Dover' };
+      let state = familyReducer({ ...initialState, familyMembers: toEntityState([existingMember]) }, updateFamilyMember.pending('req-1', update));
+      state = familyReducer(state, { type: getFamilyMembers.fulfilled.type, payload: [reloaded] });
+      expect(membersOf(state)).toEqual([{ ...existingMember, firstName: 'Johnny' }]);
+
+      state = familyReducer(state, updateFamilyMember.rejected(null, 'req-1', update, 'Failed to update family member'));
+      expect(membersOf(state)).toEqual([reloaded]);
+    });
+
+    it('should keep showing a later edit while it is still being saved', () => {
+      const secondUpdate = { memberId: 'member-1', memberData: { lastName: 'Dover' } };
+      let state = familyReducer({ ...initialState, familyMembers: toEntityState([existingMember]) }, updateFamilyMember.pending('req-1', update));
+      state = familyReducer(state, updateFamilyMember.pending('req-2', secondUpdate));
+      state = familyReducer(state, updateFamilyMember.fulfilled(updatedMember, 'req-1', update));
+
+      expect(membersOf(state)[0]).toMatchObject({ firstName: 'Johnny', lastName: 'Dover' });
+      expect(state.pendingChanges['member-1']).toEqual({ requestId: 'req-2', previous: updatedMember });
+
+      // The later edit fails: back to the version the server saved
+      state = familyReducer(state, updateFamilyMember.rejected(null, 'req-2', secondUpdate, 'Failed to update family member'));
+      expect(membersOf(state)[0]).toEqual(updatedMember);
+      expect(state.pendingChanges).toEqual({});
     });
 
     it('should not modify state if member not found', () => {
@@ -191,14 +358,12 @@ describe('familySlice', () => {
       };
       const stateWithMember = {
         ...initialState,
-        familyMembers: [otherMember],
+        familyMembers: toEntityState([otherMember]),
       };
-      const action = {
-        type: updateFamilyMember.fulfilled.type,
-        payload: updatedMember, // Different ID
-      };
-      const state = familyReducer(stateWithMember, action);
-      expect(state.familyMembers).toEqual([otherMember]); // Unchanged
+      let state = familyReducer(stateWithMember, updateFamilyMember.pending('req-1', update));
+      state = familyReducer(state, updateFamilyMember.fulfilled(updatedMember, 'req-1', update)); // Different ID
+      expect(membersOf(state)).toEqual([otherMember]); // Unchanged
+      expect(state.pendingChanges).toEqual({});
     });
 
     it('should update correct member in list with multiple members', () => {
@@ -207,17 +372,16 @@ describe('familySlice', () => {
       const member3 = { id: 'member-3', firstName: 'Bob' };
       const stateWithMembers = {
         ...initialState,
-        familyMembers: [member1, member2, member3],
-      };
-      const updatedMember2 = { ...member2, firstName: 'Janet' };
-      const action = {
-        type: updateFamilyMember.fulfilled.type,
-        payload: updatedMember2,
+        familyMembers: toEntityState([member1, member2, member3]),
       };
-      const state = familyReducer(stateWithMembers, action);
-      expect(state.familyMembers[0]).toEqual(member1);
-      expect(state.familyMembers[1]).toEqual(updatedMember2);
-      expect(state.familyMembers[2]).toEqual(member3);
+      const updatedMember2 = { ...member2, firstName: 'Janet' } as FamilyMember;
+      const state = familyReducer(
+        stateWithMembers,
+        updateFamilyMember.fulfilled(updatedMember2, 'req-1', { memberId: 'member-2', memberData: { firstName: 'Janet' } })
+      );
+      expect(membersOf(state)[0]).toEqual(member1);
+      expect(membersOf(state)[1]).toEqual(updatedMember2);
+      expect(membersOf(state)[2]).toEqual(member3);
     });
   });
 
@@ -249,7 +413,7 @@ describe('familySlice', () => {
       };
       const state = familyReducer(initialState, action);
       expect(state.isLoading).toBe(false);
-      expect(state.familyMembers).toEqual(mockMembers);
+      expect(membersOf(state)).toEqual(mockMembers);
       expect(state.error).toBeNull();
     });
 
@@ -264,18 +428,35 @@ describe('familySlice', () => {
       expect(state.error).toBe(errorMessage);
     });
 
+    it('should keep members and set no error when the load is aborted', () => {
+      const stateWithMembers = {
+        ...initialState,
+        familyMembers: toEntityState(mockMembers),
+        isLoading: true,
+      };
+      const action = {
+        type: getFamilyMembers.rejected.type,
+        error: { name: 'AbortError', message: 'Aborted' },
+        meta: { aborted: true },
+      };
+      const state = familyReducer(stateWithMembers, action);
+      expect(membersOf(state)).toEqual(mockMembers);
+      expect(state.isLoading).toBe(false);
+      expect(state.error).toBeNull();
+    });
+
     it('should replace existing family members', () => {
       const existingMembers = [{ id: 'old-1', firstName: 'Old' }];
       const stateWithMembers = {
         ...initialState,
-        familyMembers: existingMembers,
+        familyMembers: toEntityState(existingMembers),
       };
       const action = {
         type: getFamilyMembers.fulfilled.type,
         payload: mockMembers,
       };
       const state = familyReducer(stateWithMembers, action);
-      expect(state.familyMembers).toEqual(mockMembers);
+      expect(membersOf(state)).toEqual(mockMembers);
     });
 
     it('should handle empty members array', () => {
@@ -284,7 +465,7 @@ describe('familySlice', () => {
         payload: [],
       };
       const state = familyReducer(initialState, action);
-      expect(state.familyMembers).toEqual([]);
+      expect(membersOf(state)).toEqual([]);
       expect(state.isLoading).toBe(false);
       expect(state.error).toBeNull();
     });
@@ -324,7 +505,7 @@ describe('familySlice', () => {
       };
       const state = familyReducer(initialState, action);
       expect(state.isLoading).toBe(false);
-      expect(state.relationships).toEqual(mockRelationships);
+      expect(relationshipsOf(state)).toEqual(mockRelationships);
       expect(state.error).toBeNull();
     });
 
@@ -339,18 +520,35 @@ describe('familySlice', () => {
       expect(state.error).toBe(errorMessage);
     });
 
+    it('should keep relationships and set no error when the load is aborted', () => {
+      const stateWithRelationships = {
+        ...initialState,
+        relationships: toEntityState(mockRelationships),
+        isLoading: true,
+      };
+      const action = {
+        type: getRelationships.rejected.type,
+        error: { name: 'AbortError', message: 'Aborted' },
+        meta: { aborted: true },
+      };
+      const state = familyReducer(stateWithRelationships, action);
+      expect(relationshipsOf(state)).toEqual(mockRelationships);
+      expect(state.isLoading).toBe(false);
+      expect(state.error).toBeNull();
+    });
+
     it('should replace existing relationships', () => {
       const existingRelationships = [{ id: 'old-rel-1', fromUserId: 'old-1' }];
       const stateWithRelationships = {
         ...initialState,
-        relationships: existingRelationships,
+        relationships: toEntityState(existingRelationships),
       };
       const action = {
         type: getRelationships.fulfilled.type,
         payload: mockRelationships,
       };
       const state = familyReducer(stateWithRelationships, action);
-      expect(state.relationships).toEqual(mockRelationships);
+      expect(relationshipsOf(state)).toEqual(mockRelationships);
     });
 
     it('should handle empty relationships array', () => {
@@ -359,12 +557,268 @@ describe('familySlice', () => {
         payload: [],
       };
       const state = familyReducer(initialState, action);
-      expect(state.relationships).toEqual([]);
+      expect(relationshipsOf(state)).toEqual([]);
       expect(state.isLoading).toBe(false);
       expect(state.error).toBeNull();
     });
   });
 
+  describe('importFamilyTree async thunk', () => {
+    const importedMembers = [
+      { id: 'member-10', firstName: 'John', lastName: 'Smith', isLiving: true },
+      { id: 'member-11', firstName: 'Anna', lastName: 'Smith', isLiving: true },
+    ] as FamilyMember[];
+    const importedRelationships = [
+      { id: 'rel-10', fromUserId: 'member-10', toUserId: 'member-11', relationshipType: 'parent' },
+    ] as Relationship[];
+
+    it('should handle importFamilyTree.pending', () => {
+      const action = { type: importFamilyTree.pending.type };
+      const state = familyReducer(initialState, action);
+      expect(state.isLoading).toBe(true);
+      expect(state.error).toBeNull();
+    });
+
+    it('should append imported members and relationships to the existing tree', () => {
+      const existingMember = { id: 'member-0', firstName: 'Jane', lastName: 'Smith' };
+      const existingRelationship = { id: 'rel-0', fromUserId: 'member-0', toUserId: 'member-10' };
+      const stateWithData = {
+        ...initialState,
+        familyMembers: toEntityState([existingMember]),
+        relationships: toEntityState([existingRelationship]),
+      };
+      const action = {
+        type: importFamilyTree.fulfilled.type,
+        payload: { members: importedMembers, relationships: importedRelationships },
+      };
+      const state = familyReducer(stateWithData, action);
+      expect(state.isLoading).toBe(false);
+      expect(membersOf(state)).toEqual([existingMember, ...importedMembers]);
+      expect(relationshipsOf(state)).toEqual([existingRelationship, ...importedRelationships]);
+    });
+
+    it('should handle importFamilyTree.rejected without touching the tree', () => {
+      const stateWithMembers = { ...initialState, familyMembers: toEntityState(importedMembers) };
+      const action = {
+        type: importFamilyTree.rejected.type,
+        payload: 'Failed to import family tree',
+      };
+      const state = familyReducer(stateWithMembers, action);
+      expect(state.isLoading).toBe(false);
+      expect(state.error).toBe('Failed to import family tree');
+      expect(membersOf(state)).toEqual(importedMembers);
+    });
+  });
+
+  describe('deleteFamilyMember async thunk', () => {
+    const grandma = { id: 'member-1', firstName: 'Rose', lastName: 'Miller', isLiving: true } as FamilyMember;
+    const grandson = { id: 'member-2', firstName: 'Tom', lastName: 'Miller', isLiving: true } as FamilyMember;
+    const relationships = [
+      { id: 'rel-1', fromUserId: 'member-1', toUserId: 'member-2', relationshipType: 'grandparent' },
+      { id: 'rel-2', fromUserId: 'member-3', toUserId: 'member-1', relationshipType: 'spouse' },
+    ] as Relationship[];
+    const stateWithTree = {
+      ...initialState,
+      familyMembers: toEntityState([grandma, grandson]),
+      relationships: toEntityState(relationships),
+    };
+
+    it('should show the member as pending while it is being deleted', () => {
+      const state = familyReducer(stateWithTree, deleteFamilyMember.pending('req-1', 'member-1'));
+      expect(membersOf(state)).toEqual([grandma, grandson]);
+      expect(state.pendingChanges).toEqual({ 'member-1': { requestId: 'req-1', previous: grandma } });
+    });
+
+    it('should remove the member and every relationship left pointing at it', () => {
+      let state = familyReducer(stateWithTree, deleteFamilyMember.pending('req-1', 'member-1'));
+      // The server only reported one of the member's relationships
+      state = familyReducer(state, deleteFamilyMember.fulfilled(
+        { memberId: 'member-1', removedRelationshipIds: ['rel-1'] }, 'req-1', 'member-1'
+      ));
+      expect(membersOf(state)).toEqual([grandson]);
+      expect(relationshipsOf(state)).toEqual([]);
+      expect(state.pendingChanges).toEqual({});
+    });
+
+    it('should keep the member and report why when deleting fails', () => {
+      let state = familyReducer(stateWithTree, deleteFamilyMember.pending('req-1', 'member-1'));
+      state = familyReducer(state, deleteFamilyMember.rejected(null, 'req-1', 'member-1', 'Family member not found'));
+      expect(membersOf(state)).toEqual([grandma, grandson]);
+      expect(relationshipsOf(state)).toEqual(relationships);
+      expect(state.pendingChanges).toEqual({});
+      expect(state.rollbackError).toBe('Family member not found');
+    });
+
+    it('should report the member\'s relationships as removed in mock mode', async () => {
+      vi.useFakeTimers();
+      const store = createStore(stateWithTree);
+      const result = store.dispatch(deleteFamilyMember('member-1'));
+      await vi.runAllTimersAsync();
+      vi.useRealTimers();
+
+      expect((await result).payload).toEqual({ memberId: 'member-1', removedRelationshipIds: ['rel-1', 'rel-2'] });
+      expect(selectFamilyMembers(store.getState())).toEqual([grandson]);
+    });
+  });
+
+  describe('mergeFamilyMembers async thunk', () => {
+    const rose = { id: 'member-1', firstName: 'Rose', lastName: 'Miller', isLiving: true } as FamilyMember;
+    const duplicate = { id: 'member-2', firstName: 'Rose', lastName: 'Miller', userId: 'user-rose', isLiving: false } as FamilyMember;
+    const child = { id: 'member-3', firstName: 'Ann', lastName: 'Miller', isLiving: true } as FamilyMember;
+    const relationships = [
+      { id: 'rel-1', fromUserId: 'member-1', toUserId: 'member-3', relationshipType: 'parent' },
+      { id: 'rel-2', fromUserId: 'member-2', toUserId: 'member-3', relationshipType: 'parent' },
+      { id: 'rel-3', fromUserId: 'member-2', toUserId: 'member-4', relationshipType: 'spouse' },
+    ] as Relationship[];
+    const stateWithDuplicate = {
+      ...initialState,
+      familyMembers: toEntityState([rose, duplicate, child]),
+      relationships: toEntityState(relationships),
+    };
+    const merge = { keepMemberId: 'member-1', mergeMemberId: 'member-2', memberData: { isDeceased: true } };
+    const response = {
+      member: { ...rose, userId: 'user-rose', isLiving: false },
+      relationships: [{ ...relationships[2], fromUserId: 'member-1' }],
+      removedRelationshipIds: ['rel-2'],
+    };
+
+    it('should show both members as pending while they are being merged', () => {
+      const state = familyReducer(stateWithDuplicate, mergeFamilyMembers.pending('req-1', merge));
+      expect(Object.keys(state.pendingChanges)).toEqual(['member-1', 'member-2']);
+    });
+
+    it('should replace both members with the merged one and re-point the relationships', () => {
+      let state = familyReducer(stateWithDuplicate, mergeFamilyMembers.pending('req-1', merge));
+      state = familyReducer(state, mergeFamilyMembers.fulfilled(response, 'req-1', merge));
+      expect(membersOf(state)).toEqual([response.member, child]);
+      expect(relationshipsOf(state)).toEqual([relationships[0], response.relationships[0]]);
+      expect(state.pendingChanges).toEqual({});
+    });
+
+    it('should leave both members untouched and report why when merging fails', () => {
+      let state = familyReducer(stateWithDuplicate, mergeFamilyMembers.pending('req-1', merge));
+      state = familyReducer(state, mergeFamilyMembers.rejected(null, 'req-1', merge, 'Failed to merge family members'));
+      expect(membersOf(state)).toEqual([rose, duplicate, child]);
+      expect(relationshipsOf(state)).toEqual(relationships);
+      expect(state.pendingChanges).toEqual({});
+      expect(state.rollbackError).toBe('Failed to merge family members');
+    });
+
+    it('should merge the members locally in mock mode', async () => {
+      vi.useFakeTimers();
+      const store = createStore(stateWithDuplicate);
+      const result = store.dispatch(mergeFamilyMembers(merge));
+      await vi.runAllTimersAsync();
+      vi.useRealTimers();
+
+      expect((await result).payload).toMatchObject({
+        member: { id: 'member-1', userId: 'user-rose', isLiving: false },
+        removedRelationshipIds: ['rel-2'],
+      });
+      expect(selectFamilyMembers(store.getState()).map(member => member.id)).toEqual(['member-1', 'member-3']);
+      expect(selectRelationships(store.getState())).toEqual([relationships[0], { ...relationships[2], fromUserId: 'member-1' }]);
+    });
+
+    it('should refuse a merge that makes someone their own ancestor', async () => {
+      // Merging Rose into her own grandchild
+      const grandchild = { id: 'member-5', firstName: 'Rose', lastName: 'Miller', isLiving: true } as FamilyMember;
+      const grandchildLink = { id: 'rel-4', fromUserId: 'member-3', toUserId: 'member-5', relationshipType: 'parent' } as Relationship;
+      const store = createStore({
+        ...stateWithDuplicate,
+        familyMembers: toEntityState([rose, duplicate, child, grandchild]),
+        relationships: toEntityState([...relationships, grandchildLink]),
+      });
+      const result = await store.dispatch(mergeFamilyMembers({ ...merge, keepMemberId: 'member-5', mergeMemberId: 'member-1' }));
+
+      expect(result.payload).toBe('This would make someone their own ancestor');
+      expect(selectFamilyMembers(store.getState())).toHaveLength(4);
+      expect(selectRelationships(store.getState())).toEqual([...relationships, grandchildLink]);
+    });
+  });
+
+  describe('addRelationship async thunk', () => {
+    const existing = { id: 'rel-1', fromUserId: 'member-1', toUserId: 'member-2', relationshipType: 'parent' } as Relationship;
+    const link = { fromUserId: 'member-1', toUserId: 'member-3', relationshipType: 'spouse' as const };
+    const stateWithLink = { ...initialState, relationships: toEntityState([existing]) };
+
+    it('should add the relationship once it has been saved', () => {
+      const saved = { id: 'rel-2', ...link, createdAt: '2024-01-01T00:00:00.000Z' };
+      const state = familyReducer(stateWithLink, addRelationship.fulfilled(saved, 'req-1', link));
+      expect(relationshipsOf(state)).toEqual([existing, saved]);
+    });
+
+    it('should leave the relationships untouched and report why when saving fails', () => {
+      const state = familyReducer(stateWithLink, addRelationship.rejected(null, 'req-1', link, 'These family members are already linked'));
+      expect(relationshipsOf(state)).toEqual([existing]);
+      expect(state.rollbackError).toBe('These family members are already linked');
+    });
+
+    it('should refuse a link that makes someone their own ancestor', async () => {
+      const store = createStore(stateWithLink);
+      const result = await store.dispatch(addRelationship({ fromUserId: 'member-2', toUserId: 'member-1', relationshipType: 'parent' }));
+
+      expect(result.payload).toBe('This would make someone their own ancestor');
+      expect(selectRelationships(store.getState())).toEqual([existing]);
+    });
+  });
+
+  describe('updateRelationship async thunk', () => {
+    const parent = { id: 'rel-1', fromUserId: 'member-1', toUserId: 'member-2', relationshipType: 'parent', specificLabel: 'Mum' } as Relationship;
+    const grandparent = { id: 'rel-2', fromUserId: 'member-3', toUserId: 'member-1', relationshipType: 'parent' } as Relationship;
+    const stateWithLinks = { ...initialState, relationships: toEntityState([parent, grandparent]) };
+
+    it('should replace the relationship once the change has been saved', () => {
+      const saved = { ...parent, relationshipType: 'sibling' as const };
+      const update = { relationshipId: 'rel-1', relationshipData: { relationshipType: 'sibling' as const } };
+      const state = familyReducer(stateWithLinks, updateRelationship.fulfilled(saved, 'req-1', update));
+      expect(relationshipsOf(state)).toEqual([saved, grandparent]);
+    });
+
+    it('should retype, relabel and flip the relationship in mock mode', async () => {
+      vi.useFakeTimers();
+      const store = createStore(stateWithLinks);
+      const result = store.dispatch(updateRelationship({
+        relationshipId: 'rel-1',
+        relationshipData: { fromUserId: 'member-2', toUserId: 'member-1', relationshipType: 'child', specificLabel: null },
+      }));
+      await vi.runAllTimersAsync();
+      vi.useRealTimers();
+
+      const flipped = { id: 'rel-1', fromUserId: 'member-2', toUserId: 'member-1', relationshipType: 'child' };
+      expect((await result).payload).toEqual(flipped);
+      expect(selectRelationships(store.getState())).toEqual([flipped, grandparent]);
+    });
+
+    it('should refuse a change that makes someone their own ancestor and keep the relationship', async () => {
+      const store = createStore(stateWithLinks);
+      // member-3 is member-1's parent, so member-1 cannot also be member-3's parent
+      const result = await store.dispatch(updateRelationship({
+        relationshipId: 'rel-1',
+        relationshipData: { toUserId: 'member-3' },
+      }));
+
+      expect(result.payload).toBe('This would make someone their own ancestor');
+      expect(selectRelationships(store.getState())).toEqual([parent, grandparent]);
+      expect(store.getState().family.rollbackError).toBe('This would make someone their own ancestor');
+    });
+  });
+
+  describe('deleteRelationship async thunk', () => {
+    const link = { id: 'rel-1', fromUserId: 'member-1', toUserId: 'member-2', relationshipType: 'spouse' } as Relationship;
+    const stateWithLink = { ...initialState, relationships: toEntityState([link]) };
+
+    it('should remove the relationship once it has been deleted', () => {
+      const state = familyReducer(stateWithLink, deleteRelationship.fulfilled('rel-1', 'req-1', 'rel-1'));
+      expect(relationshipsOf(state)).toEqual([]);
+    });
+
+    it('should keep the relationship and report why when deleting fails', () => {
+      const state = familyReducer(stateWithLink, deleteRelationship.rejected(null, 'req-1', 'rel-1', 'Relationship not found'));
+      expect(relationshipsOf(state)).toEqual([link]);
+      expect(state.rollbackError).toBe('Relationship not found');
+    });
+  });
+
   describe('relationship refresh logic', () => {
     it('should handle relationship refresh after adding member with relationship', () => {
       // This tests the automatic relationship refresh logic in addFamilyMember
@@ -377,11 +831,11 @@ describe('familySlice', () => {
       };
 
       // First, add the member
-      let state = familyReducer(initialState, {
-        type: addFamilyMember.fulfilled.type,
-        payload: memberWithRelationship,
-      });
-      expect(state.familyMembers).toContain(memberWithRelationship);
+      let state = familyReducer(
+        initialState,
+        addFamilyMember.fulfilled(memberWithRelationship as unknown as FamilyMember, 'req-1', { firstName: 'John', lastName: '' })
+      );
+      expect(membersOf(state)).toContain(memberWithRelationship);
 
       // Then simulate the relationship refresh
       const newRelationships = [
@@ -396,7 +850,7 @@ describe('familySlice', () => {
         type: getRelationships.fulfilled.type,
         payload: newRelationships,
       });
-      expect(state.relationships).toEqual(newRelationships);
+      expect(relationshipsOf(state)).toEqual(newRelationships);
     });
 
     it('should maintain member data during relationship refresh', () => {
@@ -406,7 +860,7 @@ describe('familySlice', () => {
       ];
       const stateWithMembers = {
         ...initialState,
-        familyMembers: existingMembers,
+        familyMembers: toEntityState(existingMembers),
       };
 
       // Add a new member that triggers relationship refresh
@@ -416,14 +870,14 @@ describe('familySlice', () => {
         relatedTo: 'member-1',
         relationshipType: 'child',
       };
-      let state = familyReducer(stateWithMembers, {
-        type: addFamilyMember.fulfilled.type,
-        payload: newMember,
-      });
+      let state = familyReducer(
+        stateWithMembers,
+        addFamilyMember.fulfilled(newMember as unknown as FamilyMember, 'req-1', { firstName: 'Bob', lastName: '' })
+      );
 
       // Verify member was added
-      expect(state.familyMembers).toHaveLength(3);
-      expect(state.familyMembers).toContain(newMember);
+      expect(membersOf(state)).toHaveLength(3);
+      expect(membersOf(state)).toContain(newMember);
 
       // Simulate relationship refresh
       const relationships = [
@@ -440,8 +894,8 @@ describe('familySlice', () => {
       });
 
       // Verify both members and relationships are maintained
-      expect(state.familyMembers).toHaveLength(3);
-      expect(state.relationships).toEqual(relationships);
+      expect(membersOf(state)).toHaveLength(3);
+      expect(relationshipsOf(state)).toEqual(relationships);
     });
   });
 
@@ -470,10 +924,12 @@ describe('familySlice', () => {
 
     const mockState = {
       family: {
-        familyMembers: mockMembers,
-        relationships: mockRelationships,
+        familyMembers: toEntityState(mockMembers),
+        relationships: toEntityState(mockRelationships),
         isLoading: false,
         error: 'Some error',
+        pendingChanges: {},
+        rollbackError: null,
       } as FamilyState,
     };
 
@@ -514,6 +970,19 @@ describe('familySlice', () => {
       const noErrorState = { family: { ...initialState } };
       expect(selectFamilyError(noErrorState)).toBeNull();
     });
+
+    it('selectSavedFamilyMembers and selectSavedRelationships should leave out changes still being saved', () => {
+      const memberData = { firstName: 'Ana', lastName: 'Doe', relatedTo: 'member-1', relationshipType: 'child' as const };
+      let state = familyReducer(mockState.family, addFamilyMember.pending('req-1', memberData, {
+        optimisticMember: { ...mockMembers[0], id: 'pending-req-1', firstName: 'Ana' },
+        optimisticRelationship: { ...mockRelationships[0], id: 'pending-relationship-req-1', toUserId: 'pending-req-1' },
+      }));
+      state = familyReducer(state, updateFamilyMember.pending('req-2', { memberId: 'member-2', memberData: { firstName: 'Janet' } }));
+
+      expect(selectFamilyMembers({ family: state })).toHaveLength(3);
+      expect(selectSavedFamilyMembers({ family: state })).toEqual(mockMembers);
+      expect(selectSavedRelationships({ family: state })).toEqual(mockRelationships);
+    });
   });
 
   describe('selectMemberById memoized selector', () => {
@@ -537,10 +1006,12 @@ describe('familySlice', () => {
 
     const mockState = {
       family: {
-        familyMembers: mockMembers,
-        relationships: [],
+        familyMembers: toEntityState(mockMembers),
+        relationships: toEntityState([]),
         isLoading: false,
         error: null,
+        pendingChanges: {},
+        rollbackError: null,
       } as FamilyState,
     };
 
@@ -593,7 +1064,7 @@ describe('familySlice', () => {
       const updatedState = {
         family: {
           ...mockState.family,
-          familyMembers: updatedMembers,
+          familyMembers: toEntityState(updatedMembers),
         },
       };
 
@@ -602,44 +1073,115 @@ describe('familySlice', () => {
     });
   });
 
+  describe('normalized selectors', () => {
+    const parent1 = { id: 'parent-1', firstName: 'Anne' } as FamilyMember;
+    const parent2 = { id: 'parent-2', firstName: 'George' } as FamilyMember;
+    const child1 = { id: 'child-1', firstName: 'Ada' } as FamilyMember;
+    const child2 = { id: 'child-2', firstName: 'Byron' } as FamilyMember;
+    const halfSibling = { id: 'child-3', firstName: 'Allegra' } as FamilyMember;
+    const relationships = [
+      { id: 'rel-1', fromUserId: 'parent-1', toUserId: 'child-1', relationshipType: 'parent' },
+      { id: 'rel-2', fromUserId: 'parent-2', toUserId: 'child-1', relationshipType: 'parent' },
+      // Recorded from the child's side
+      { id: 'rel-3', fromUserId: 'child-2', toUserId: 'parent-1', relationshipType: 'child' },
+      { id: 'rel-4', fromUserId: 'parent-2', toUserId: 'child-2', relationshipType: 'parent' },
+      { id: 'rel-5', fromUserId: 'parent-2', toUserId: 'child-3', relationshipType: 'parent' },
+      { id: 'rel-6', fromUserId: 'parent-1', toUserId: 'parent-2', relationshipType: 'spouse' },
+    ] as Relationship[];
+    const state = {
+      family: {
+        ...initialState,
+        familyMembers: toEntityState([parent1, parent2, child1, child2, halfSibling]),
+        relationships: toEntityState(relationships),
+      },
+    };
+
+    it('should index relationships by each member they involve', () => {
+      expect(selectRelationshipIdsByMember(state)).toEqual({
+        'parent-1': ['rel-1', 'rel-3', 'rel-6'],
+        'parent-2': ['rel-2', 'rel-4', 'rel-5', 'rel-6'],
+        'child-1': ['rel-1', 'rel-2'],
+        'child-2': ['rel-3', 'rel-4'],
+        'child-3': ['rel-5'],
+      });
+      expect(selectRelationshipsOfMember(state, 'child-2')).toEqual([relationships[2], relationships[3]]);
+      expect(selectRelationshipsOfMember(state, 'unknown')).toEqual([]);
+    });
+
+    it('should index children by their parents whichever side recorded the relationship', () => {
+      expect(selectChildIdsByParents(state)).toEqual({
+        [getParentsKey(['parent-1', 'parent-2'])]: ['child-1', 'child-2'],
+        [getParentsKey(['parent-2'])]: ['child-3'],
+      });
+      expect(selectChildrenOfParents(state, ['parent-2', 'parent-1'])).toEqual([child1, child2]);
+      expect(selectChildrenOfParents(state, ['parent-1'])).toEqual([]);
+    });
+
+    it('should build parent keys independent of the order of the parents', () => {
+      expect(getParentsKey(['b', 'a'])).toBe(getParentsKey(['a', 'b']));
+      expect(getParentsKey(['a'])).not.toBe(getParentsKey(['a', 'b']));
+    });
+
+    it('should only rebuild derived data when members or relationships change', () => {
+      const loadingState = { family: { ...state.family, isLoading: true, error: 'Some error' } };
+      expect(selectFamilyMembers(loadingState)).toBe(selectFamilyMembers(state));
+      expect(selectRelationshipGraph(loadingState)).toBe(selectRelationshipGraph(state));
+      expect(selectRelationshipIdsByMember(loadingState)).toBe(selectRelationshipIdsByMember(state));
+      expect(selectChildIdsByParents(loadingState)).toBe(selectChildIdsByParents(state));
+      expect(selectRelationshipsOfMember(loadingState, 'child-1')).toBe(selectRelationshipsOfMember(state, 'child-1'));
+
+      const updated = familyReducer(state.family, getRelationships.fulfilled(relationships.slice(1), 'req-1', false));
+      expect(selectRelationshipIdsByMember({ family: updated })).not.toBe(selectRelationshipIdsByMember(state));
+      expect(selectRelationshipIdsByMember({ family: updated })['child-1']).toEqual(['rel-2']);
+    });
+
+    it('should keep a saved member in the place of the temporary member it replaces', () => {
+      const optimisticMember = { id: 'pending-req-1', firstName: 'Ada' } as FamilyMember;
+      let family = familyReducer(
+        state.family,
+        addFamilyMember.pending('req-1', { firstName: 'Ada', lastName: '' }, { optimisticMember, optimisticRelationship: null })
+      );
+      family = familyReducer(family, getFamilyMembers.fulfilled([optimisticMember, parent1], 'req-2', false));
+      family = familyReducer(family, addFamilyMember.fulfilled(child1, 'req-1', { firstName: 'Ada', lastName: '' }));
+
+      expect(membersOf(family)).toEqual([child1, parent1]);
+      expect(selectMemberById({ family }, 'pending-req-1')).toBeUndefined();
+      expect(selectMemberById({ family }, 'child-1')).toBe(child1);
+    });
+  });
+
   describe('state transitions', () => {
-    it('should transition from initial to loading on addFamilyMember.pending', () => {
-      const action = { type: addFamilyMember.pending.type };
-      const state = familyReducer(initialState, action);
+    const memberData = { firstName: 'John', lastName: 'Doe' };
+    const optimisticMember = { id: 'pending-req-1', firstName: 'John', lastName: 'Doe' } as FamilyMember;
+    const pendingAdd = (requestId = 'req-1', member = optimisticMember) =>
+      addFamilyMember.pending(requestId, memberData, { optimisticMember: member, optimisticRelationship: null });
+
+    it('should not set the shared loading flag on addFamilyMember.pending', () => {
+      const state = familyReducer(initialState, pendingAdd());
       expect(state).toEqual({
         ...initialState,
-        isLoading: true,
+        familyMembers: toEntityState([optimisticMember]),
+        pendingChanges: { 'pending-req-1': { requestId: 'req-1', previous: null } },
       });
     });
 
-    it('should transition from loading to success on addFamilyMember.fulfilled', () => {
-      const loadingState = { ...initialState, isLoading: true };
-      const mockMember = { id: '1', firstName: 'John' };
-      const action = {
-        type: addFamilyMember.fulfilled.type,
-        payload: mockMember,
-      };
-      const state = familyReducer(loadingState, action);
+    it('should transition from pending to success on addFamilyMember.fulfilled', () => {
+      const mockMember = { id: '1', firstName: 'John' } as FamilyMember;
+      let state = familyReducer(initialState, pendingAdd());
+      state = familyReducer(state, addFamilyMember.fulfilled(mockMember, 'req-1', memberData));
       expect(state).toEqual({
-        familyMembers: [mockMember],
-        relationships: [],
-        isLoading: false,
-        error: null,
+        ...initialState,
+        familyMembers: toEntityState([mockMember]),
       });
     });
 
-    it('should transition from loading to error on addFamilyMember.rejected', () => {
-      const loadingState = { ...initialState, isLoading: true };
+    it('should transition from pending back to the previous state on addFamilyMember.rejected', () => {
       const errorMessage = 'Add failed';
-      const action = {
-        type: addFamilyMember.rejected.type,
-        payload: errorMessage,
-      };
-      const state = familyReducer(loadingState, action);
+      let state = familyReducer(initialState, pendingAdd());
+      state = familyReducer(state, addFamilyMember.rejected(null, 'req-1', memberData, errorMessage));
       expect(state).toEqual({
         ...initialState,
-        isLoading: false,
-        error: errorMessage,
+        rollbackError: errorMessage,
       });
     });
 
@@ -652,33 +1194,27 @@ describe('familySlice', () => {
       expect(state.error).toBeNull();
     });
 
+    it('should clear the rollback error when it is dismissed', () => {
+      const state = familyReducer({ ...initialState, rollbackError: 'Add failed' }, dismissRollbackError());
+      expect(state.rollbackError).toBeNull();
+    });
+
     it('should handle multiple operations in sequence', () => {
       // Start with initial state
       let state = initialState;
 
-      // Add first member
-      state = familyReducer(state, { type: addFamilyMember.pending.type });
-      expect(state.isLoading).toBe(true);
+      // Add two members at once
+      const member1 = { id: 'member-1', firstName: 'John' } as FamilyMember;
+      const member2 = { id: 'member-2', firstName: 'Jane' } as FamilyMember;
+      state = familyReducer(state, pendingAdd('req-1'));
+      state = familyReducer(state, pendingAdd('req-2', { ...optimisticMember, id: 'pending-req-2' }));
+      expect(selectPendingMemberIds({ family: state })).toEqual(['pending-req-1', 'pending-req-2']);
 
-      const member1 = { id: 'member-1', firstName: 'John' };
-      state = familyReducer(state, {
-        type: addFamilyMember.fulfilled.type,
-        payload: member1,
-      });
-      expect(state.familyMembers).toEqual([member1]);
-      expect(state.isLoading).toBe(false);
-
-      // Add second member
-      state = familyReducer(state, { type: addFamilyMember.pending.type });
-      expect(state.isLoading).toBe(true);
-
-      const member2 = { id: 'member-2', firstName: 'Jane' };
-      state = familyReducer(state, {
-        type: addFamilyMember.fulfilled.type,
-        payload: member2,
-      });
-      expect(state.familyMembers).toEqual([member1, member2]);
-      expect(state.isLoading).toBe(false);
+      // Saved in the order they were added even when the responses arrive out of order
+      state = familyReducer(state, addFamilyMember.fulfilled(member2, 'req-2', memberData));
+      state = familyReducer(state, addFamilyMember.fulfilled(member1, 'req-1', memberData));
+      expect(membersOf(state)).toEqual([member1, member2]);
+      expect(selectPendingMemberIds({ family: state })).toEqual([]);
 
       // Get relationships
       state = familyReducer(state, { type: getRelationships.pending.type });
@@ -691,40 +1227,40 @@ describe('familySlice', () => {
         type: getRelationships.fulfilled.type,
         payload: relationships,
       });
-      expect(state.relationships).toEqual(relationships);
-      expect(state.familyMembers).toEqual([member1, member2]);
+      expect(relationshipsOf(state)).toEqual(relationships);
+      expect(membersOf(state)).toEqual([member1, member2]);
       expect(state.isLoading).toBe(false);
     });
   });
 
   describe('error handling', () => {
-    it('should clear previous error when starting new operation', () => {
+    const memberData = { firstName: 'Jane', lastName: 'Doe' };
+    const optimisticMember = { id: 'pending-req-1', firstName: 'Jane', lastName: 'Doe' } as FamilyMember;
+    const pendingAdd = () =>
+      addFamilyMember.pending('req-1', memberData, { optimisticMember, optimisticRelationship: null });
+
+    it('should leave the tree error alone when adding a member', () => {
       const errorState = {
         ...initialState,
         error: 'Previous error',
       };
-      const action = { type: addFamilyMember.pending.type };
-      const state = familyReducer(errorState, action);
-      expect(state.error).toBeNull();
+      const state = familyReducer(errorState, pendingAdd());
+      expect(state.error).toBe('Previous error');
     });
 
     it('should preserve family data when operation fails', () => {
       const existingMembers = [{ id: '1', firstName: 'John' }];
       const existingRelationships = [{ id: '1', fromUserId: '1' }];
       const stateWithData = {
-        familyMembers: existingMembers,
-        relationships: existingRelationships,
-        isLoading: false,
-        error: null,
-      };
-      const action = {
-        type: addFamilyMember.rejected.type,
-        payload: 'Add failed',
+        ...initialState,
+        familyMembers: toEntityState(existingMembers),
+        relationships: toEntityState(existingRelationships),
       };
-      const state = familyReducer(stateWithData, action);
-      expect(state.familyMembers).toEqual(existingMembers);
-      expect(state.relationships).toEqual(existingRelationships);
-      expect(state.error).toBe('Add failed');
+      let state = familyReducer(stateWithData, pendingAdd());
+      state = familyReducer(state, addFamilyMember.rejected(null, 'req-1', memberData, 'Add failed'));
+      expect(membersOf(state)).toEqual(existingMembers);
+      expect(relationshipsOf(state)).toEqual(existingRelationships);
+      expect(selectRollbackError({ family: state })).toBe('Add failed');
     });
 
     it('should handle concurrent operations correctly', () => {
@@ -732,14 +1268,14 @@ describe('familySlice', () => {
       const existingMembers = [{ id: '1', firstName: 'John' }];
       let state = {
         ...initialState,
-        familyMembers: existingMembers,
+        familyMembers: toEntityState(existingMembers),
       };
 
       // Start add operation
-      state = familyReducer(state, { type: addFamilyMember.pending.type });
-      expect(state.isLoading).toBe(true);
+      state = familyReducer(state, pendingAdd());
+      expect(state.isLoading).toBe(false);
 
-      // Start get relationships operation (should also set loading)
+      // Start get relationships operation (sets loading)
       state = familyReducer(state, { type: getRelationships.pending.type });
       expect(state.isLoading).toBe(true);
 
@@ -749,18 +1285,15 @@ describe('familySlice', () => {
         type: getRelationships.fulfilled.type,
         payload: relationships,
       });
-      expect(state.relationships).toEqual(relationships);
+      expect(relationshipsOf(state)).toEqual(relationships);
       expect(state.isLoading).toBe(false);
 
-      // Complete add member (should add to existing members)
-      const newMember = { id: '2', firstName: 'Jane' };
-      state = familyReducer(state, {
-        type: addFamilyMember.fulfilled.type,
-        payload: newMember,
-      });
-      expect(state.familyMembers).toEqual([...existingMembers, newMember]);
-      expect(state.relationships).toEqual(relationships);
+      // Complete add member (replaces the temporary member)
+      const newMember = { id: '2', firstName: 'Jane' } as FamilyMember;
+      state = familyReducer(state, addFamilyMember.fulfilled(newMember, 'req-1', memberData));
+      expect(membersOf(state)).toEqual([...existingMembers, newMember]);
+      expect(relationshipsOf(state)).toEqual(relationships);
       expect(state.isLoading).toBe(false);
     });
   });
-});
\ No newline at end of file
+});
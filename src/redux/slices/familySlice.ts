@@ -1,23 +1,284 @@
-import { createSlice, createAsyncThunk, createSelector, PayloadAction } from '@reduxjs/toolkit';
+import { createSlice, createAsyncThunk, createSelector, createEntityAdapter, EntityState, PayloadAction } from '@reduxjs/toolkit';
 import FamilyService from '../../services/FamilyService';
-import { FamilyState, AddFamilyMemberPayload, UpdateFamilyMemberPayload, AsyncThunkConfig } from '../../types/redux';
-import { FamilyMember, Relationship } from '../../types/api';
+import OfflineStore from '../../services/OfflineStore';
+import { isNetworkError } from '../../services/apiClient';
+import { editQueued, markFresh, loadOfflineData, syncOutbox, resolveConflict, toStateMember } from './syncSlice';
+import { sessionExpired, signOut } from './authSlice';
+import {
+  FamilyState,
+  AddFamilyMemberPayload,
+  UpdateFamilyMemberPayload,
+  ImportFamilyTreePayload,
+  MergeFamilyMembersPayload,
+  DeleteFamilyMemberResult,
+  AddRelationshipPayload,
+  UpdateRelationshipPayload,
+  AsyncThunkConfig,
+  OutboxEntry,
+  OfflineData,
+  SyncedMember,
+  SyncOutboxResult
+} from '../../types/redux';
+import { FamilyMember, Relationship, ImportFamilyTreeResponse, MergeFamilyMembersResponse } from '../../types/api';
+import { buildRelationshipGraph, getEdges } from '../../utils/relationshipGraph';
+import { planRelationshipMerge } from '../../utils/memberMerge';
+import { validateRelationship } from '../../utils/relationshipValidation';
+import { checkDataQuality, getMemberIssueSeverities } from '../../utils/dataQuality';
 
 // Mock mode for development
 const MOCK_MODE = import.meta.env.VITE_MOCK_API === 'true';
 
+// Members and relationships are stored by ID, in the order they were added
+const membersAdapter = createEntityAdapter<FamilyMember>();
+const relationshipsAdapter = createEntityAdapter<Relationship>();
+
+// ID for an edit made offline, or for a member added offline until the server assigns its ID
+const createOfflineId = (): string => `offline-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Temporary IDs of the member, and its link to a relative, shown while the request adding it is in flight
+const getOptimisticMemberId = (requestId: string): string => `pending-${requestId}`;
+const getOptimisticRelationshipId = (requestId: string): string => `pending-relationship-${requestId}`;
+
+// Member, and its link to a relative, shown while an addition is being saved
+interface AddFamilyMemberPendingMeta {
+  optimisticMember: FamilyMember;
+  optimisticRelationship: Relationship | null;
+}
+
+/**
+ * Builds the member shown for one being added until the server has saved it
+ * @param memberData - The new member's details
+ * @param memberId - Temporary ID of the member
+ * @param createdBy - ID of the signed-in user
+ * @param now - When the member was added
+ * @returns The pending member
+ */
+function toPendingMember(memberData: AddFamilyMemberPayload, memberId: string, createdBy: string, now: string): FamilyMember {
+  return {
+    id: memberId,
+    userId: null,
+    firstName: memberData.firstName,
+    lastName: memberData.lastName,
+    email: memberData.email,
+    phoneNumber: memberData.phoneNumber,
+    dateOfBirth: memberData.dateOfBirth,
+    dateOfDeath: memberData.dateOfDeath,
+    gender: memberData.gender,
+    photoUrl: memberData.photoUrl,
+    biography: memberData.biography,
+    occupation: memberData.occupation,
+    location: memberData.location,
+    isLiving: !memberData.isDeceased,
+    createdBy,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Applies edits to a member as they will be saved once synced
+ * @param member - The member
+ * @param memberData - Edited fields
+ * @returns The edited member
+ */
+function applyMemberEdits(member: FamilyMember, memberData: UpdateFamilyMemberPayload['memberData']): FamilyMember {
+  const { isDeceased, ...fields } = memberData;
+  return {
+    ...member,
+    ...fields,
+    isLiving: isDeceased === undefined ? member.isLiving : !isDeceased,
+  };
+}
+
+/**
+ * Applies edits to a relationship
+ * @param relationship - The relationship
+ * @param relationshipData - Edited fields; null clears a field
+ * @returns The edited relationship
+ */
+function applyRelationshipEdits(relationship: Relationship, relationshipData: UpdateRelationshipPayload['relationshipData']): Relationship {
+  const { specificLabel, lineage, ...fields } = relationshipData;
+  const edited: Relationship = { ...relationship, ...fields };
+  if (specificLabel === null) {
+    delete edited.specificLabel;
+  } else if (specificLabel !== undefined) {
+    edited.specificLabel = specificLabel;
+  }
+  if (lineage === null) {
+    delete edited.lineage;
+  } else if (lineage !== undefined) {
+    edited.lineage = lineage;
+  }
+  return edited;
+}
+
+/**
+ * Builds the edit to queue for a member updated offline
+ * Edits to a member with an edit already queued are merged into it, keeping its base version
+ * @param memberId - ID of the member
+ * @param memberData - Edited fields
+ * @param member - The member before the edit
+ * @param queued - Edit already queued for the member
+ * @returns The edit to queue
+ */
+function buildQueuedUpdate(
+  memberId: string,
+  memberData: UpdateFamilyMemberPayload['memberData'],
+  member: FamilyMember,
+  queued: OutboxEntry | undefined
+): OutboxEntry {
+  // The same merge for both kinds of edit, narrowed so each keeps its payload type
+  if (queued?.type === 'addFamilyMember') {
+    return { ...queued, payload: { ...queued.payload, ...memberData } };
+  }
+  if (queued) {
+    return { ...queued, payload: { ...queued.payload, ...memberData } };
+  }
+  return {
+    id: createOfflineId(),
+    type: 'updateFamilyMember',
+    memberId,
+    payload: memberData,
+    baseUpdatedAt: member.updatedAt || null,
+    queuedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Replaces a member with its saved version, adding it if it is not shown
+ * The saved member keeps the place of the member it replaces, even when its ID differs
+ * @param members - Members in state
+ * @param memberId - ID of the member shown
+ * @param member - The saved member, or null to remove it
+ */
+function replaceMember(members: EntityState<FamilyMember, string>, memberId: string, member: FamilyMember | null): void {
+  const index = members.ids.indexOf(memberId);
+  if (!member) {
+    membersAdapter.removeOne(members, memberId);
+  } else if (index === -1) {
+    membersAdapter.setOne(members, member);
+  } else if (member.id !== memberId && members.entities[member.id]) {
+    // Already shown under its saved ID, e.g. after a refresh
+    membersAdapter.removeOne(members, memberId);
+    membersAdapter.setOne(members, member);
+  } else {
+    delete members.entities[memberId];
+    members.ids[index] = member.id;
+    members.entities[member.id] = member;
+  }
+}
+
+/**
+ * Marks a member as having a save in flight
+ * @param state - Family state
+ * @param memberId - ID of the member
+ * @param requestId - Request saving the member
+ */
+function markPending(state: FamilyState, memberId: string, requestId: string): void {
+  const member = state.familyMembers.entities[memberId];
+  if (!member) {
+    return;
+  }
+  // Restore the member as it was before the first change still being saved
+  const previous = memberId in state.pendingChanges
+    ? state.pendingChanges[memberId].previous
+    : member;
+  state.pendingChanges[memberId] = { requestId, previous };
+}
+
+/**
+ * Clears a member's pending change if it belongs to the request
+ * @param state - Family state
+ * @param memberId - ID of the member
+ * @param requestId - Request that settled
+ */
+function clearPending(state: FamilyState, memberId: string, requestId: string): void {
+  if (state.pendingChanges[memberId]?.requestId === requestId) {
+    delete state.pendingChanges[memberId];
+  }
+}
+
+/**
+ * Removes the relationships a member is part of, so none are left pointing at a missing member
+ * @param relationships - Relationships in state
+ * @param memberId - ID of the member
+ */
+function removeRelationshipsOf(relationships: EntityState<Relationship, string>, memberId: string): void {
+  const danglingIds = Object.values(relationships.entities)
+    .filter(relationship => relationship.fromUserId === memberId || relationship.toUserId === memberId)
+    .map(relationship => relationship.id);
+  relationshipsAdapter.removeMany(relationships, danglingIds);
+}
+
+/**
+ * Replaces the members with a freshly loaded copy, keeping those with a save in flight
+ * Members still being added or edited keep showing their unsaved version; if the save
+ * fails, they fall back to the loaded copy
+ * @param state - Family state
+ * @param members - Members loaded from the server
+ */
+function setLoadedMembers(state: FamilyState, members: FamilyMember[]): void {
+  const loadedIds = new Set(members.map(member => member.id));
+  members.forEach(member => {
+    const change = state.pendingChanges[member.id];
+    if (change?.previous) {
+      change.previous = member;
+    }
+  });
+  const unsaved = (id: string): FamilyMember | undefined =>
+    id in state.pendingChanges ? state.familyMembers.entities[id] : undefined;
+
+  membersAdapter.setAll(state.familyMembers, [
+    ...members.map(member => unsaved(member.id) || member),
+    ...Object.keys(state.pendingChanges)
+      .filter(id => !loadedIds.has(id))
+      .map(unsaved)
+      .filter((member): member is FamilyMember => !!member),
+  ]);
+}
+
+/**
+ * Replaces the relationships with a freshly loaded copy, keeping the links of members
+ * with a save in flight that the server does not have yet
+ * @param state - Family state
+ * @param relationships - Relationships loaded from the server
+ */
+function setLoadedRelationships(state: FamilyState, relationships: Relationship[]): void {
+  const loadedIds = new Set(relationships.map(relationship => relationship.id));
+  const unsaved = Object.values(state.relationships.entities).filter(relationship =>
+    !loadedIds.has(relationship.id) &&
+    (relationship.fromUserId in state.pendingChanges || relationship.toUserId in state.pendingChanges)
+  );
+  relationshipsAdapter.setAll(state.relationships, [...relationships, ...unsaved]);
+}
+
+/**
+ * Key of a set of parents in the children-by-parents index, independent of their order
+ * @param parentIds - IDs of the parents
+ * @returns Key of the parents
+ */
+export function getParentsKey(parentIds: string[]): string {
+  return [...parentIds].sort().join('+');
+}
+
 // Initial state
 const initialState: FamilyState = {
-  familyMembers: [],
-  relationships: [],
+  familyMembers: membersAdapter.getInitialState(),
+  relationships: relationshipsAdapter.getInitialState(),
   isLoading: false,
   error: null,
+  pendingChanges: {},
+  rollbackError: null,
 };
 
 // Async thunks
-export const addFamilyMember = createAsyncThunk<FamilyMember, AddFamilyMemberPayload, AsyncThunkConfig>(
+export const addFamilyMember = createAsyncThunk<
+  FamilyMember,
+  AddFamilyMemberPayload,
+  AsyncThunkConfig & { pendingMeta: AddFamilyMemberPendingMeta }
+>(
   'family/addFamilyMember',
-  async (memberData, { dispatch, rejectWithValue }) => {
+  async (memberData, { dispatch, getState, rejectWithValue }) => {
     try {
       if (MOCK_MODE) {
         // Mock response for development
@@ -26,6 +287,7 @@ export const addFamilyMember = createAsyncThunk<FamilyMember, AddFamilyMemberPay
           id: 'mock-member-' + Date.now(),
           userId: null,
           ...memberData,
+          isLiving: !memberData.isDeceased,
           createdBy: 'mock-user-id',
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
@@ -39,6 +301,7 @@ export const addFamilyMember = createAsyncThunk<FamilyMember, AddFamilyMemberPay
             toUserId: newMember.id,
             relationshipType: memberData.relationshipType,
             specificLabel: memberData.specificLabel,
+            lineage: memberData.lineage,
             createdAt: new Date().toISOString(),
           };
           
@@ -51,23 +314,71 @@ export const addFamilyMember = createAsyncThunk<FamilyMember, AddFamilyMemberPay
         return newMember;
       }
       
-      const newMember = await FamilyService.addFamilyMember(memberData);
-      
-      // Automatically refresh relationships if a relationship was created
-      if (memberData.relatedTo && memberData.relationshipType) {
-        dispatch(getRelationships(false));
+      // Queue the member while offline; it is added on reconnect
+      const queueMember = async (): Promise<FamilyMember> => {
+        const now = new Date().toISOString();
+        const entry: OutboxEntry = {
+          id: createOfflineId(),
+          type: 'addFamilyMember',
+          memberId: createOfflineId(),
+          payload: memberData,
+          queuedAt: now,
+        };
+        await OfflineStore.putOutboxEntry(entry);
+        dispatch(editQueued(entry));
+
+        return toPendingMember(memberData, entry.memberId, getState().auth.user?.id || '', now);
+      };
+
+      if (!getState().sync.isOnline) {
+        return await queueMember();
+      }
+
+      try {
+        const newMember = await FamilyService.addFamilyMember(memberData);
+        
+        // Automatically refresh relationships if a relationship was created
+        if (memberData.relatedTo && memberData.relationshipType) {
+          dispatch(getRelationships(false));
+        }
+        
+        return toStateMember(newMember);
+      } catch (error) {
+        if (isNetworkError(error)) {
+          return await queueMember();
+        }
+        throw error;
       }
-      
-      return newMember;
     } catch (error) {
       return rejectWithValue((error as Error).message || 'Failed to add family member');
     }
+  },
+  {
+    // Built with the action so the reducer can show the member straight away
+    getPendingMeta: ({ arg, requestId }, { getState }) => {
+      const now = new Date().toISOString();
+      const memberId = getOptimisticMemberId(requestId);
+      return {
+        optimisticMember: toPendingMember(arg, memberId, getState().auth.user?.id || '', now),
+        optimisticRelationship: arg.relatedTo && arg.relationshipType
+          ? {
+            id: getOptimisticRelationshipId(requestId),
+            fromUserId: arg.relatedTo,
+            toUserId: memberId,
+            relationshipType: arg.relationshipType,
+            specificLabel: arg.specificLabel,
+            lineage: arg.lineage,
+            createdAt: now,
+          }
+          : null,
+      };
+    },
   }
 );
 
 export const updateFamilyMember = createAsyncThunk<FamilyMember, UpdateFamilyMemberPayload, AsyncThunkConfig>(
   'family/updateFamilyMember',
-  async ({ memberId, memberData }, { rejectWithValue }) => {
+  async ({ memberId, memberData }, { dispatch, getState, rejectWithValue }) => {
     try {
       if (MOCK_MODE) {
         // Mock response for development
@@ -80,24 +391,219 @@ export const updateFamilyMember = createAsyncThunk<FamilyMember, UpdateFamilyMem
         return updatedMember;
       }
       
-      const updatedMember = await FamilyService.updateFamilyMember(memberId, memberData);
-      return updatedMember;
+      // Queue the edit while offline; it is checked against the server's version on reconnect
+      const queueUpdate = async (): Promise<FamilyMember> => {
+        const { family, sync } = getState();
+        const member = family.familyMembers.entities[memberId];
+        if (!member) {
+          throw new Error('Family member not found');
+        }
+
+        const queued = sync.outbox.find(entry => entry.memberId === memberId);
+        const entry = buildQueuedUpdate(memberId, memberData, member, queued);
+        await OfflineStore.putOutboxEntry(entry);
+        dispatch(editQueued(entry));
+        return applyMemberEdits(member, memberData);
+      };
+
+      if (!getState().sync.isOnline) {
+        return await queueUpdate();
+      }
+
+      try {
+        const updatedMember = await FamilyService.updateFamilyMember(memberId, memberData);
+        return toStateMember(updatedMember);
+      } catch (error) {
+        if (isNetworkError(error)) {
+          return await queueUpdate();
+        }
+        throw error;
+      }
     } catch (error) {
       return rejectWithValue((error as Error).message || 'Failed to update family member');
     }
   }
 );
 
+export const importFamilyTree = createAsyncThunk<ImportFamilyTreeResponse, ImportFamilyTreePayload, AsyncThunkConfig>(
+  'family/importFamilyTree',
+  async (importData, { rejectWithValue }) => {
+    try {
+      if (MOCK_MODE) {
+        // Mock response for development
+        await new Promise(resolve => setTimeout(resolve, 500));
+        const now = new Date().toISOString();
+        const idMap = new Map<string, string>();
+
+        const members: FamilyMember[] = importData.members.map(({ importId, isDeceased, ...memberData }, index) => {
+          const id = `mock-member-${Date.now()}-${index}`;
+          idMap.set(importId, id);
+          return {
+            ...memberData,
+            id,
+            userId: null,
+            isLiving: !isDeceased,
+            createdBy: 'mock-user-id',
+            createdAt: now,
+            updatedAt: now,
+          };
+        });
+
+        const relationships: Relationship[] = importData.relationships.map((relationship, index) => ({
+          ...relationship,
+          id: `mock-relationship-${Date.now()}-${index}`,
+          fromUserId: idMap.get(relationship.fromUserId) || relationship.fromUserId,
+          toUserId: idMap.get(relationship.toUserId) || relationship.toUserId,
+          createdAt: now,
+        }));
+
+        return { members, relationships };
+      }
+
+      return await FamilyService.importFamilyTree(importData);
+    } catch (error) {
+      return rejectWithValue((error as Error).message || 'Failed to import family tree');
+    }
+  }
+);
+
+export const deleteFamilyMember = createAsyncThunk<DeleteFamilyMemberResult, string, AsyncThunkConfig>(
+  'family/deleteFamilyMember',
+  async (memberId, { getState, rejectWithValue }) => {
+    try {
+      if (MOCK_MODE) {
+        // Mock response for development
+        await new Promise(resolve => setTimeout(resolve, 500));
+        return { memberId, removedRelationshipIds: selectRelationshipIdsByMember(getState())[memberId] || [] };
+      }
+
+      const { removedRelationshipIds } = await FamilyService.deleteFamilyMember(memberId);
+      return { memberId, removedRelationshipIds };
+    } catch (error) {
+      return rejectWithValue((error as Error).message || 'Failed to delete family member');
+    }
+  }
+);
+
+export const mergeFamilyMembers = createAsyncThunk<MergeFamilyMembersResponse, MergeFamilyMembersPayload, AsyncThunkConfig>(
+  'family/mergeFamilyMembers',
+  async (mergeData, { getState, rejectWithValue }) => {
+    try {
+      const { keepMemberId, mergeMemberId, memberData } = mergeData;
+      const plan = planRelationshipMerge(keepMemberId, mergeMemberId, selectRelationships(getState()));
+      if (plan.invalidReason) {
+        throw new Error(plan.invalidReason);
+      }
+
+      if (MOCK_MODE) {
+        // Mock response for development
+        await new Promise(resolve => setTimeout(resolve, 500));
+        const entities = selectFamilyMemberEntities(getState());
+        const keep = entities[keepMemberId];
+        const merge = entities[mergeMemberId];
+        if (!keep || !merge) {
+          throw new Error('Family member not found');
+        }
+
+        return {
+          member: {
+            ...applyMemberEdits(keep, memberData),
+            userId: keep.userId || merge.userId || null,
+            updatedAt: new Date().toISOString(),
+          },
+          relationships: plan.repointed,
+          removedRelationshipIds: plan.removed.map(relationship => relationship.id),
+        };
+      }
+
+      return await FamilyService.mergeFamilyMembers(mergeData);
+    } catch (error) {
+      return rejectWithValue((error as Error).message || 'Failed to merge family members');
+    }
+  }
+);
+
+export const addRelationship = createAsyncThunk<Relationship, AddRelationshipPayload, AsyncThunkConfig>(
+  'family/addRelationship',
+  async (relationshipData, { getState, rejectWithValue }) => {
+    try {
+      const invalidReason = validateRelationship(relationshipData, selectRelationships(getState()));
+      if (invalidReason) {
+        throw new Error(invalidReason);
+      }
+
+      if (MOCK_MODE) {
+        // Mock response for development
+        await new Promise(resolve => setTimeout(resolve, 500));
+        return {
+          id: 'mock-relationship-' + Date.now(),
+          ...relationshipData,
+          createdAt: new Date().toISOString(),
+        };
+      }
+
+      return await FamilyService.addRelationship(relationshipData);
+    } catch (error) {
+      return rejectWithValue((error as Error).message || 'Failed to add relationship');
+    }
+  }
+);
+
+export const updateRelationship = createAsyncThunk<Relationship, UpdateRelationshipPayload, AsyncThunkConfig>(
+  'family/updateRelationship',
+  async ({ relationshipId, relationshipData }, { getState, rejectWithValue }) => {
+    try {
+      const relationship = selectRelationshipEntities(getState())[relationshipId];
+      if (!relationship) {
+        throw new Error('Relationship not found');
+      }
+      const edited = applyRelationshipEdits(relationship, relationshipData);
+      const invalidReason = validateRelationship(edited, selectRelationships(getState()));
+      if (invalidReason) {
+        throw new Error(invalidReason);
+      }
+
+      if (MOCK_MODE) {
+        // Mock response for development
+        await new Promise(resolve => setTimeout(resolve, 500));
+        return edited;
+      }
+
+      return await FamilyService.updateRelationship(relationshipId, relationshipData);
+    } catch (error) {
+      return rejectWithValue((error as Error).message || 'Failed to update relationship');
+    }
+  }
+);
+
+export const deleteRelationship = createAsyncThunk<string, string, AsyncThunkConfig>(
+  'family/deleteRelationship',
+  async (relationshipId, { rejectWithValue }) => {
+    try {
+      if (MOCK_MODE) {
+        // Mock response for development
+        await new Promise(resolve => setTimeout(resolve, 500));
+        return relationshipId;
+      }
+
+      await FamilyService.deleteRelationship(relationshipId);
+      return relationshipId;
+    } catch (error) {
+      return rejectWithValue((error as Error).message || 'Failed to delete relationship');
+    }
+  }
+);
+
 export const getFamilyMembers = createAsyncThunk<FamilyMember[], boolean, AsyncThunkConfig>(
   'family/getFamilyMembers',
-  async (forceRefresh = false, { getState, rejectWithValue }) => {
+  async (forceRefresh = false, { dispatch, getState, signal }) => {
     try {
       if (MOCK_MODE) {
         // Mock response for development
         await new Promise(resolve => setTimeout(resolve, 300));
         
         // If we already have members in state and not forcing refresh, return them
-        const currentMembers = getState().family.familyMembers;
+        const currentMembers = selectFamilyMembers(getState());
         if (currentMembers.length > 0 && !forceRefresh) {
           return currentMembers;
         }
@@ -106,26 +612,28 @@ export const getFamilyMembers = createAsyncThunk<FamilyMember[], boolean, AsyncT
         return [];
       }
       
-      const members = await FamilyService.getFamilyMembers();
+      // Aborting the thunk cancels the request; its rejected action leaves the members untouched
+      const members = await FamilyService.getFamilyMembers(signal);
+      dispatch(markFresh('familyMembers'));
       return members;
     } catch (error) {
-      // Don't reject for empty results, just return empty array
+      // Don't reject; keep the members already shown, which may come from the offline cache
       console.error('Error fetching family members:', error);
-      return [];
+      return selectFamilyMembers(getState());
     }
   }
 );
 
 export const getRelationships = createAsyncThunk<Relationship[], boolean, AsyncThunkConfig>(
   'family/getRelationships',
-  async (forceRefresh = false, { getState, rejectWithValue }) => {
+  async (forceRefresh = false, { dispatch, getState, signal }) => {
     try {
       if (MOCK_MODE) {
         // Mock response for development
         await new Promise(resolve => setTimeout(resolve, 300));
         
         // If we already have relationships in state and not forcing refresh, return them
-        const currentRelationships = getState().family.relationships;
+        const currentRelationships = selectRelationships(getState());
         if (currentRelationships.length > 0 && !forceRefresh) {
           return currentRelationships;
         }
@@ -134,12 +642,13 @@ export const getRelationships = createAsyncThunk<Relationship[], boolean, AsyncT
         return [];
       }
       
-      const relationships = await FamilyService.getRelationships();
+      const relationships = await FamilyService.getRelationships(signal);
+      dispatch(markFresh('relationships'));
       return relationships;
     } catch (error) {
-      // Don't reject for empty results, just return empty array
+      // Don't reject; keep the relationships already shown, which may come from the offline cache
       console.error('Error fetching relationships:', error);
-      return [];
+      return selectRelationships(getState());
     }
   }
 );
@@ -152,45 +661,167 @@ const familySlice = createSlice({
     clearError: (state) => {
       state.error = null;
     },
+    dismissRollbackError: (state) => {
+      state.rollbackError = null;
+    },
   },
   extraReducers: (builder) => {
+    // The tree belongs to the user who signed out
+    builder
+      .addCase(signOut.fulfilled, () => initialState)
+      .addCase(sessionExpired, () => initialState);
+
     // Add Family Member
+    // Shown straight away under a temporary ID, then replaced by the saved member or removed if saving fails
     builder
-      .addCase(addFamilyMember.pending, (state) => {
-        state.isLoading = true;
-        state.error = null;
+      .addCase(addFamilyMember.pending, (state, action) => {
+        const { optimisticMember, optimisticRelationship } = action.meta;
+        membersAdapter.addOne(state.familyMembers, optimisticMember);
+        if (optimisticRelationship) {
+          relationshipsAdapter.addOne(state.relationships, optimisticRelationship);
+        }
+        state.pendingChanges[optimisticMember.id] = { requestId: action.meta.requestId, previous: null };
       })
-      .addCase(addFamilyMember.fulfilled, (state, action: PayloadAction<FamilyMember>) => {
-        state.isLoading = false;
-        state.familyMembers.push(action.payload);
-        state.error = null;
+      .addCase(addFamilyMember.fulfilled, (state, action) => {
+        const memberId = getOptimisticMemberId(action.meta.requestId);
+        delete state.pendingChanges[memberId];
+        replaceMember(state.familyMembers, memberId, action.payload);
+        // Linked to the saved member until the relationships are refreshed
+        const relationship = state.relationships.entities[getOptimisticRelationshipId(action.meta.requestId)];
+        if (relationship) {
+          relationship.toUserId = action.payload.id;
+        }
       })
       .addCase(addFamilyMember.rejected, (state, action) => {
-        state.isLoading = false;
-        state.error = action.payload as string;
+        const memberId = getOptimisticMemberId(action.meta.requestId);
+        delete state.pendingChanges[memberId];
+        replaceMember(state.familyMembers, memberId, null);
+        relationshipsAdapter.removeOne(state.relationships, getOptimisticRelationshipId(action.meta.requestId));
+        state.rollbackError = action.payload || 'Failed to add family member';
       });
 
     // Update Family Member
+    // Edits are shown straight away and undone if saving fails
+    builder
+      .addCase(updateFamilyMember.pending, (state, action) => {
+        const { memberId, memberData } = action.meta.arg;
+        const member = state.familyMembers.entities[memberId];
+        if (!member) {
+          return;
+        }
+        markPending(state, memberId, action.meta.requestId);
+        membersAdapter.setOne(state.familyMembers, applyMemberEdits(member, memberData));
+      })
+      .addCase(updateFamilyMember.fulfilled, (state, action) => {
+        const change = state.pendingChanges[action.meta.arg.memberId];
+        if (change && change.requestId !== action.meta.requestId) {
+          // A later edit is still being saved; keep showing it, and fall back to this version if it fails
+          change.previous = action.payload;
+          return;
+        }
+        delete state.pendingChanges[action.meta.arg.memberId];
+        if (state.familyMembers.entities[action.payload.id]) {
+          membersAdapter.setOne(state.familyMembers, action.payload);
+        }
+      })
+      .addCase(updateFamilyMember.rejected, (state, action) => {
+        const { memberId } = action.meta.arg;
+        const change = state.pendingChanges[memberId];
+        state.rollbackError = action.payload || 'Failed to update family member';
+        // A later edit still being saved decides what is shown
+        if (!change || change.requestId !== action.meta.requestId) {
+          return;
+        }
+        delete state.pendingChanges[memberId];
+        if (change.previous) {
+          replaceMember(state.familyMembers, memberId, change.previous);
+        }
+      });
+
+    // Import Family Tree
     builder
-      .addCase(updateFamilyMember.pending, (state) => {
+      .addCase(importFamilyTree.pending, (state) => {
         state.isLoading = true;
         state.error = null;
       })
-      .addCase(updateFamilyMember.fulfilled, (state, action: PayloadAction<FamilyMember>) => {
+      .addCase(importFamilyTree.fulfilled, (state, action: PayloadAction<ImportFamilyTreeResponse>) => {
         state.isLoading = false;
-        const index = state.familyMembers.findIndex(
-          member => member.id === action.payload.id
-        );
-        if (index !== -1) {
-          state.familyMembers[index] = action.payload;
-        }
+        membersAdapter.addMany(state.familyMembers, action.payload.members);
+        relationshipsAdapter.addMany(state.relationships, action.payload.relationships);
         state.error = null;
       })
-      .addCase(updateFamilyMember.rejected, (state, action) => {
+      .addCase(importFamilyTree.rejected, (state, action) => {
         state.isLoading = false;
         state.error = action.payload as string;
       });
 
+    // Delete Family Member
+    // Shown as pending until the server has deleted it, along with every relationship it was part of
+    builder
+      .addCase(deleteFamilyMember.pending, (state, action) => {
+        markPending(state, action.meta.arg, action.meta.requestId);
+      })
+      .addCase(deleteFamilyMember.fulfilled, (state, action: PayloadAction<DeleteFamilyMemberResult>) => {
+        const { memberId, removedRelationshipIds } = action.payload;
+        delete state.pendingChanges[memberId];
+        membersAdapter.removeOne(state.familyMembers, memberId);
+        relationshipsAdapter.removeMany(state.relationships, removedRelationshipIds);
+        removeRelationshipsOf(state.relationships, memberId);
+      })
+      .addCase(deleteFamilyMember.rejected, (state, action) => {
+        clearPending(state, action.meta.arg, action.meta.requestId);
+        state.rollbackError = action.payload || 'Failed to delete family member';
+      });
+
+    // Merge Family Members
+    // Both members are shown as pending until the server has merged them
+    builder
+      .addCase(mergeFamilyMembers.pending, (state, action) => {
+        markPending(state, action.meta.arg.keepMemberId, action.meta.requestId);
+        markPending(state, action.meta.arg.mergeMemberId, action.meta.requestId);
+      })
+      .addCase(mergeFamilyMembers.fulfilled, (state, action) => {
+        const { keepMemberId, mergeMemberId } = action.meta.arg;
+        delete state.pendingChanges[keepMemberId];
+        delete state.pendingChanges[mergeMemberId];
+        replaceMember(state.familyMembers, keepMemberId, action.payload.member);
+        membersAdapter.removeOne(state.familyMembers, mergeMemberId);
+        relationshipsAdapter.removeMany(state.relationships, action.payload.removedRelationshipIds);
+        relationshipsAdapter.setMany(state.relationships, action.payload.relationships);
+        removeRelationshipsOf(state.relationships, mergeMemberId);
+      })
+      .addCase(mergeFamilyMembers.rejected, (state, action) => {
+        clearPending(state, action.meta.arg.keepMemberId, action.meta.requestId);
+        clearPending(state, action.meta.arg.mergeMemberId, action.meta.requestId);
+        state.rollbackError = action.payload || 'Failed to merge family members';
+      });
+
+    // Add Relationship
+    // Links two existing members once the server has saved the link
+    builder
+      .addCase(addRelationship.fulfilled, (state, action: PayloadAction<Relationship>) => {
+        relationshipsAdapter.addOne(state.relationships, action.payload);
+      })
+      .addCase(addRelationship.rejected, (state, action) => {
+        state.rollbackError = action.payload || 'Failed to add relationship';
+      });
+
+    // Update / Delete Relationship
+    // Applied once the server has saved the change; impossible links are rejected before it is sent
+    builder
+      .addCase(updateRelationship.fulfilled, (state, action: PayloadAction<Relationship>) => {
+        relationshipsAdapter.setOne(state.relationships, action.payload);
+      })
+      .addCase(updateRelationship.rejected, (state, action) => {
+        state.rollbackError = action.payload || 'Failed to update relationship';
+      })
+      .addCase(deleteRelationship.fulfilled, (state, action: PayloadAction<string>) => {
+        relationshipsAdapter.removeOne(state.relationships, action.payload);
+      })
+      .addCase(deleteRelationship.rejected, (state, action) => {
+        state.rollbackError = action.payload || 'Failed to delete relationship';
+      });
+
     // Get Family Members
     builder
       .addCase(getFamilyMembers.pending, (state) => {
@@ -199,12 +830,15 @@ const familySlice = createSlice({
       })
       .addCase(getFamilyMembers.fulfilled, (state, action: PayloadAction<FamilyMember[]>) => {
         state.isLoading = false;
-        state.familyMembers = action.payload;
+        setLoadedMembers(state, action.payload);
         state.error = null;
       })
       .addCase(getFamilyMembers.rejected, (state, action) => {
         state.isLoading = false;
-        state.error = action.payload as string;
+        // A cancelled load is not an error
+        if (!action.meta?.aborted) {
+          state.error = action.payload as string;
+        }
       });
 
     // Get Relationships
@@ -215,28 +849,141 @@ const familySlice = createSlice({
       })
       .addCase(getRelationships.fulfilled, (state, action: PayloadAction<Relationship[]>) => {
         state.isLoading = false;
-        state.relationships = action.payload;
+        setLoadedRelationships(state, action.payload);
         state.error = null;
       })
       .addCase(getRelationships.rejected, (state, action) => {
         state.isLoading = false;
-        state.error = action.payload as string;
+        // A cancelled load is not an error
+        if (!action.meta?.aborted) {
+          state.error = action.payload as string;
+        }
+      });
+
+    // Offline cache and sync
+    builder
+      .addCase(loadOfflineData.fulfilled, (state, action: PayloadAction<OfflineData>) => {
+        if (action.payload.familyMembers && state.familyMembers.ids.length === 0) {
+          membersAdapter.setAll(state.familyMembers, action.payload.familyMembers.data);
+        }
+        if (action.payload.relationships && state.relationships.ids.length === 0) {
+          relationshipsAdapter.setAll(state.relationships, action.payload.relationships.data);
+        }
+      })
+      .addCase(syncOutbox.fulfilled, (state, action: PayloadAction<SyncOutboxResult>) => {
+        action.payload.synced.forEach(synced => replaceMember(state.familyMembers, synced.memberId, synced.member));
+        if (action.payload.relationships) {
+          relationshipsAdapter.setAll(state.relationships, action.payload.relationships);
+        }
+      })
+      .addCase(resolveConflict.fulfilled, (state, action: PayloadAction<SyncedMember>) => {
+        replaceMember(state.familyMembers, action.payload.memberId, action.payload.member);
       });
   },
 });
 
 // Selectors
-export const selectFamilyMembers = (state: { family: FamilyState }) => state.family.familyMembers;
-export const selectRelationships = (state: { family: FamilyState }) => state.family.relationships;
+const memberSelectors = membersAdapter.getSelectors((state: { family: FamilyState }) => state.family.familyMembers);
+const relationshipSelectors = relationshipsAdapter.getSelectors((state: { family: FamilyState }) => state.family.relationships);
+
+export const selectFamilyMembers = memberSelectors.selectAll;
+export const selectFamilyMemberEntities = memberSelectors.selectEntities;
+export const selectRelationships = relationshipSelectors.selectAll;
+export const selectRelationshipEntities = relationshipSelectors.selectEntities;
 export const selectFamilyLoading = (state: { family: FamilyState }) => state.family.isLoading;
 export const selectFamilyError = (state: { family: FamilyState }) => state.family.error;
+export const selectRollbackError = (state: { family: FamilyState }) => state.family.rollbackError;
+
+// Looks the member up by ID rather than scanning the members
+export const selectMemberById = memberSelectors.selectById;
+
+// IDs of members with a save in flight
+export const selectPendingMemberIds = createSelector(
+  [(state: { family: FamilyState }) => state.family.pendingChanges],
+  (pendingChanges) => Object.keys(pendingChanges)
+);
+
+// Members as the server last saved them: an edit still being saved shows the member before it,
+// and members still being added are left out
+export const selectSavedFamilyMembers = createSelector(
+  [selectFamilyMembers, (state: { family: FamilyState }) => state.family.pendingChanges],
+  (members, pendingChanges) => members
+    .map(member => member.id in pendingChanges ? pendingChanges[member.id].previous : member)
+    .filter((member): member is FamilyMember => member !== null)
+);
+
+// Relationships without those added alongside a member still being saved
+export const selectSavedRelationships = createSelector(
+  [selectRelationships],
+  (relationships) => relationships.filter(relationship => !relationship.id.startsWith(getOptimisticRelationshipId('')))
+);
+
+// Relationship graph, rebuilt only when the relationships change
+export const selectRelationshipGraph = createSelector([selectRelationships], buildRelationshipGraph);
+
+// Relationship IDs keyed by the ID of each member they involve
+export const selectRelationshipIdsByMember = createSelector(
+  [selectRelationships],
+  (relationships) => {
+    const index: Record<string, string[]> = {};
+    relationships.forEach(relationship => {
+      [relationship.fromUserId, relationship.toUserId].forEach(memberId => {
+        if (!index[memberId]) {
+          index[memberId] = [];
+        }
+        if (!index[memberId].includes(relationship.id)) {
+          index[memberId].push(relationship.id);
+        }
+      });
+    });
+    return index;
+  }
+);
+
+// Child IDs keyed by their parents, see getParentsKey
+export const selectChildIdsByParents = createSelector(
+  [selectFamilyMembers, selectRelationshipGraph],
+  (members, graph) => {
+    const index: Record<string, string[]> = {};
+    members.forEach(member => {
+      const parentIds = getEdges(graph, member.id)
+        .filter(edge => edge.relationshipType === 'child')
+        .map(edge => edge.memberId);
+      if (parentIds.length === 0) return;
 
-// Memoized selector for getting a member by ID
-export const selectMemberById = createSelector(
-  [selectFamilyMembers, (state: { family: FamilyState }, memberId: string) => memberId],
-  (members, memberId) => members.find(member => member.id === memberId)
+      const key = getParentsKey(Array.from(new Set(parentIds)));
+      if (!index[key]) {
+        index[key] = [];
+      }
+      index[key].push(member.id);
+    });
+    return index;
+  }
 );
 
+// Relationships a member is part of
+export const selectRelationshipsOfMember = createSelector(
+  [selectRelationshipIdsByMember, selectRelationshipEntities, (_state: { family: FamilyState }, memberId: string) => memberId],
+  (relationshipIdsByMember, relationships, memberId) =>
+    (relationshipIdsByMember[memberId] || []).map(id => relationships[id] as Relationship)
+);
+
+// Children of a set of parents, in any order
+export const selectChildrenOfParents = createSelector(
+  [selectChildIdsByParents, selectFamilyMemberEntities, (_state: { family: FamilyState }, parentIds: string[]) => getParentsKey(parentIds)],
+  (childIdsByParents, members, key) =>
+    (childIdsByParents[key] || []).map(id => members[id] as FamilyMember)
+);
+
+// Data quality issues across the tree, errors first
+export const selectDataQualityIssues = createSelector(
+  [selectFamilyMembers, selectRelationships],
+  (members, relationships) => checkDataQuality(members, relationships)
+);
+
+// Most severe data quality issue of each member with one
+export const selectMemberIssueSeverities = createSelector([selectDataQualityIssues], getMemberIssueSeverities);
+
 // Export actions and reducer
-export const { clearError } = familySlice.actions;
+export const { clearError, dismissRollbackError } = familySlice.actions;
 export default familySlice.reducer;
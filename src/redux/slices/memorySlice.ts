@@ -1,6 +1,7 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import MemoryService from '../../services/MemoryService';
-import { MemoryState, UploadPhotosPayload, CreateMemoryPayload, AsyncThunkConfig } from '../../types/redux';
+import { loadOfflineData, markFresh } from './syncSlice';
+import { MemoryState, UploadPhotosPayload, CreateMemoryPayload, AsyncThunkConfig, OfflineData } from '../../types/redux';
 import { Memory, Album } from '../../types/api';
 
 // Mock mode for development
@@ -90,7 +91,7 @@ export const createMemory = createAsyncThunk<Memory, CreateMemoryPayload, AsyncT
 
 export const getAlbums = createAsyncThunk<Album[], void, AsyncThunkConfig>(
   'memory/getAlbums',
-  async (_, { rejectWithValue }) => {
+  async (_, { dispatch, rejectWithValue }) => {
     try {
       if (MOCK_MODE) {
         // Mock response for development
@@ -119,6 +120,7 @@ export const getAlbums = createAsyncThunk<Album[], void, AsyncThunkConfig>(
       }
 
       const albumList = await MemoryService.getAlbums();
+      dispatch(markFresh('albums'));
       return albumList;
     } catch (error) {
       return rejectWithValue((error as Error).message || 'Failed to fetch albums');
@@ -188,6 +190,14 @@ const memorySlice = createSlice({
         state.isLoading = false;
         state.error = action.payload as string;
       });
+
+    // Offline cache
+    builder
+      .addCase(loadOfflineData.fulfilled, (state, action: PayloadAction<OfflineData>) => {
+        if (action.payload.albums && state.albums.length === 0) {
+          state.albums = action.payload.albums.data;
+        }
+      });
   },
 });
 
@@ -0,0 +1,298 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { configureStore } from '@reduxjs/toolkit';
+import syncReducer, {
+  loadOfflineData,
+  syncOutbox,
+  resolveConflict,
+  setOnline,
+  markFresh,
+  editQueued,
+  selectStaleSince,
+} from './syncSlice';
+import authReducer, { sessionExpired } from './authSlice';
+import userReducer from './userSlice';
+import familyReducer, { addFamilyMember, updateFamilyMember, selectFamilyMembers, selectRelationships } from './familySlice';
+import memoryReducer from './memorySlice';
+import eventsReducer from './eventsSlice';
+import dashboardReducer from './dashboardSlice';
+import treeReducer from './treeSlice';
+import FamilyService from '../../services/FamilyService';
+import OfflineStore from '../../services/OfflineStore';
+import { ApiError } from '../../services/apiClient';
+import { OutboxEntry, SyncState } from '../../types/redux';
+import { FamilyMember, Relationship } from '../../types/api';
+import { FamilyMember as ServiceFamilyMember } from '../../types/components';
+
+// The offline paths only run against the real services
+vi.hoisted(() => {
+  vi.stubEnv('VITE_MOCK_API', 'false');
+});
+
+vi.mock('../../services/FamilyService', () => ({
+  default: {
+    addFamilyMember: vi.fn(),
+    updateFamilyMember: vi.fn(),
+    getFamilyMembers: vi.fn(),
+    getRelationships: vi.fn(),
+    getRelativeDetails: vi.fn(),
+  },
+}));
+
+// Member in the shape both the state and FamilyService use
+const member = (id: string, updatedAt: string, firstName = 'Ada'): FamilyMember & ServiceFamilyMember => ({
+  id,
+  firstName,
+  lastName: 'Lovelace',
+  isLiving: true,
+  createdBy: 'user-1',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt,
+});
+
+const createStore = (familyMembers: FamilyMember[] = [], isOnline = true) => configureStore({
+  reducer: {
+    auth: authReducer,
+    user: userReducer,
+    family: familyReducer,
+    memory: memoryReducer,
+    events: eventsReducer,
+    dashboard: dashboardReducer,
+    tree: treeReducer,
+    sync: syncReducer,
+  },
+  preloadedState: {
+    family: {
+      familyMembers: {
+        ids: familyMembers.map(familyMember => familyMember.id),
+        entities: Object.fromEntries(familyMembers.map(familyMember => [familyMember.id, familyMember])),
+      },
+      relationships: { ids: [], entities: {} },
+      isLoading: false,
+      error: null,
+      pendingChanges: {},
+      rollbackError: null,
+    },
+    sync: { isOnline, isSyncing: false, staleKeys: {}, lastSyncedAt: null, outbox: [], conflicts: [] },
+  },
+});
+
+describe('syncSlice', () => {
+  const initialState: SyncState = {
+    isOnline: true,
+    isSyncing: false,
+    staleKeys: {},
+    lastSyncedAt: null,
+    outbox: [],
+    conflicts: [],
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await OfflineStore.clear();
+  });
+
+  describe('reducers', () => {
+    it('should track the connection status', () => {
+      const state = syncReducer(initialState, setOnline(false));
+      expect(state.isOnline).toBe(false);
+      expect(syncReducer(state, setOnline(true)).isOnline).toBe(true);
+    });
+
+    it('should clear the stale flag of data fetched from the server', () => {
+      const stale = { ...initialState, staleKeys: { familyMembers: '2024-01-02T00:00:00.000Z', albums: '2024-01-01T00:00:00.000Z' } };
+      const state = syncReducer(stale, markFresh('albums'));
+
+      expect(state.staleKeys).toEqual({ familyMembers: '2024-01-02T00:00:00.000Z' });
+      expect(state.lastSyncedAt).not.toBeNull();
+      expect(selectStaleSince({ sync: stale })).toBe('2024-01-01T00:00:00.000Z');
+      expect(selectStaleSince({ sync: syncReducer(state, markFresh('familyMembers')) })).toBeNull();
+    });
+
+    it('should replace a queued edit with the same ID', () => {
+      const entry: OutboxEntry = {
+        id: 'edit-1',
+        type: 'updateFamilyMember',
+        memberId: 'member-1',
+        payload: { firstName: 'Ada' },
+        baseUpdatedAt: null,
+        queuedAt: '2024-01-01T00:00:00.000Z',
+      };
+      let state = syncReducer(initialState, editQueued(entry));
+      state = syncReducer(state, editQueued({ ...entry, payload: { firstName: 'Augusta' } }));
+
+      expect(state.outbox).toHaveLength(1);
+      expect(state.outbox[0].payload).toEqual({ firstName: 'Augusta' });
+    });
+
+    it('should drop the queued edits and stale flags when the session expires', () => {
+      const entry: OutboxEntry = {
+        id: 'edit-1',
+        type: 'updateFamilyMember',
+        memberId: 'member-1',
+        payload: { firstName: 'Ada' },
+        baseUpdatedAt: null,
+        queuedAt: '2024-01-01T00:00:00.000Z',
+      };
+      const signedIn = { ...initialState, isOnline: false, outbox: [entry], staleKeys: { familyMembers: '2024-01-01T00:00:00.000Z' } };
+
+      expect(syncReducer(signedIn, sessionExpired())).toEqual({ ...initialState, isOnline: false });
+    });
+  });
+
+  describe('loadOfflineData', () => {
+    it('should show cached data and mark it stale', async () => {
+      const cachedMembers = [member('member-1', '2024-01-01T00:00:00.000Z')];
+      await OfflineStore.writeCache('familyMembers', cachedMembers, '2024-02-01T00:00:00.000Z');
+      const store = createStore();
+
+      await store.dispatch(loadOfflineData());
+
+      expect(selectFamilyMembers(store.getState())).toEqual(cachedMembers);
+      expect(store.getState().sync.staleKeys).toEqual({ familyMembers: '2024-02-01T00:00:00.000Z' });
+    });
+
+    it('should not replace data that already came from the server', async () => {
+      await OfflineStore.writeCache('familyMembers', [member('cached', '2024-01-01T00:00:00.000Z')]);
+      const fresh = [member('fresh', '2024-03-01T00:00:00.000Z')];
+      const store = createStore(fresh);
+
+      await store.dispatch(loadOfflineData());
+
+      expect(selectFamilyMembers(store.getState())).toEqual(fresh);
+      expect(store.getState().sync.staleKeys).toEqual({});
+    });
+  });
+
+  describe('offline edits', () => {
+    it('should queue members added offline and show them straight away', async () => {
+      const store = createStore([], false);
+
+      const result = await store.dispatch(addFamilyMember({ firstName: 'Ada', lastName: 'Lovelace' })).unwrap();
+
+      expect(FamilyService.addFamilyMember).not.toHaveBeenCalled();
+      expect(selectFamilyMembers(store.getState())).toEqual([result]);
+      expect(store.getState().sync.outbox).toMatchObject([{ type: 'addFamilyMember', memberId: result.id }]);
+      expect(await OfflineStore.getOutbox()).toEqual(store.getState().sync.outbox);
+    });
+
+    it('should queue an update when the request fails for lack of a connection', async () => {
+      vi.mocked(FamilyService.updateFamilyMember).mockRejectedValue(new ApiError('Network error', null));
+      const store = createStore([member('member-1', '2024-01-01T00:00:00.000Z')]);
+
+      await store.dispatch(updateFamilyMember({ memberId: 'member-1', memberData: { firstName: 'Augusta' } })).unwrap();
+
+      expect(selectFamilyMembers(store.getState())[0].firstName).toBe('Augusta');
+      expect(store.getState().sync.outbox).toMatchObject([{
+        type: 'updateFamilyMember',
+        memberId: 'member-1',
+        payload: { firstName: 'Augusta' },
+        baseUpdatedAt: '2024-01-01T00:00:00.000Z',
+      }]);
+    });
+
+    it('should merge edits to a member added offline into the queued addition', async () => {
+      const store = createStore([], false);
+      const added = await store.dispatch(addFamilyMember({ firstName: 'Ada', lastName: 'Lovelace' })).unwrap();
+
+      await store.dispatch(updateFamilyMember({ memberId: added.id, memberData: { occupation: 'Mathematician' } }));
+
+      expect(store.getState().sync.outbox).toHaveLength(1);
+      expect(store.getState().sync.outbox[0].payload).toMatchObject({ firstName: 'Ada', occupation: 'Mathematician' });
+    });
+  });
+
+  describe('syncOutbox', () => {
+    it('should replay queued edits in order and replace temporary members', async () => {
+      const store = createStore([], false);
+      const parent = await store.dispatch(addFamilyMember({ firstName: 'Anne', lastName: 'Byron' })).unwrap();
+      await store.dispatch(addFamilyMember({
+        firstName: 'Ada', lastName: 'Lovelace', relatedTo: parent.id, relationshipType: 'child',
+      }));
+      const relationships = [{ id: 'rel-1', fromUserId: 'server-2', toUserId: 'server-1' }] as Relationship[];
+      vi.mocked(FamilyService.addFamilyMember)
+        .mockResolvedValueOnce(member('server-1', '2024-04-01T00:00:00.000Z', 'Anne'))
+        .mockResolvedValueOnce(member('server-2', '2024-04-01T00:00:00.000Z'));
+      vi.mocked(FamilyService.getRelationships).mockResolvedValue(relationships);
+
+      store.dispatch(setOnline(true));
+      await store.dispatch(syncOutbox());
+
+      expect(vi.mocked(FamilyService.addFamilyMember).mock.calls[1][0].relatedTo).toBe('server-1');
+      expect(selectFamilyMembers(store.getState()).map(m => m.id)).toEqual(['server-1', 'server-2']);
+      expect(selectRelationships(store.getState())).toEqual(relationships);
+      expect(store.getState().sync.outbox).toEqual([]);
+      expect(await OfflineStore.getOutbox()).toEqual([]);
+    });
+
+    it('should hold back an update whose member changed on the server meanwhile', async () => {
+      const store = createStore([member('member-1', '2024-01-01T00:00:00.000Z')], false);
+      await store.dispatch(updateFamilyMember({ memberId: 'member-1', memberData: { firstName: 'Augusta' } }));
+      const serverMember = member('member-1', '2024-05-01T00:00:00.000Z', 'Countess');
+      vi.mocked(FamilyService.getRelativeDetails).mockResolvedValue(serverMember);
+
+      store.dispatch(setOnline(true));
+      await store.dispatch(syncOutbox());
+
+      expect(FamilyService.updateFamilyMember).not.toHaveBeenCalled();
+      expect(store.getState().sync.conflicts).toMatchObject([{ serverMember }]);
+      expect(store.getState().sync.outbox).toHaveLength(1);
+    });
+
+    it('should keep everything queued while the connection is still down', async () => {
+      const store = createStore([], false);
+      await store.dispatch(addFamilyMember({ firstName: 'Ada', lastName: 'Lovelace' }));
+      await store.dispatch(addFamilyMember({ firstName: 'Anne', lastName: 'Byron' }));
+      vi.mocked(FamilyService.addFamilyMember).mockRejectedValue(new ApiError('Network error', null));
+
+      store.dispatch(setOnline(true));
+      await store.dispatch(syncOutbox());
+
+      expect(FamilyService.addFamilyMember).toHaveBeenCalledTimes(1);
+      expect(store.getState().sync.outbox).toHaveLength(2);
+      expect(store.getState().sync.conflicts).toEqual([]);
+    });
+
+    it('should not run while offline', async () => {
+      const store = createStore([], false);
+      await store.dispatch(addFamilyMember({ firstName: 'Ada', lastName: 'Lovelace' }));
+
+      await store.dispatch(syncOutbox());
+
+      expect(FamilyService.addFamilyMember).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveConflict', () => {
+    const createConflict = async () => {
+      const store = createStore([member('member-1', '2024-01-01T00:00:00.000Z')], false);
+      await store.dispatch(updateFamilyMember({ memberId: 'member-1', memberData: { firstName: 'Augusta' } }));
+      vi.mocked(FamilyService.getRelativeDetails).mockResolvedValue(member('member-1', '2024-05-01T00:00:00.000Z', 'Countess'));
+      store.dispatch(setOnline(true));
+      await store.dispatch(syncOutbox());
+      return { store, entryId: store.getState().sync.outbox[0].id };
+    };
+
+    it('should replay my edit over the server version', async () => {
+      const { store, entryId } = await createConflict();
+      vi.mocked(FamilyService.updateFamilyMember).mockResolvedValue(member('member-1', '2024-06-01T00:00:00.000Z', 'Augusta'));
+
+      await store.dispatch(resolveConflict({ entryId, resolution: 'mine' }));
+
+      expect(FamilyService.updateFamilyMember).toHaveBeenCalledWith('member-1', { firstName: 'Augusta' });
+      expect(selectFamilyMembers(store.getState())[0].firstName).toBe('Augusta');
+      expect(store.getState().sync.outbox).toEqual([]);
+      expect(store.getState().sync.conflicts).toEqual([]);
+    });
+
+    it('should discard my edit and show the server version', async () => {
+      const { store, entryId } = await createConflict();
+
+      await store.dispatch(resolveConflict({ entryId, resolution: 'theirs' }));
+
+      expect(FamilyService.updateFamilyMember).not.toHaveBeenCalled();
+      expect(selectFamilyMembers(store.getState())[0].firstName).toBe('Countess');
+      expect(store.getState().sync.outbox).toEqual([]);
+      expect(await OfflineStore.getOutbox()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,292 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import FamilyService from '../../services/FamilyService';
+import OfflineStore from '../../services/OfflineStore';
+import { isNetworkError } from '../../services/apiClient';
+import { sessionExpired, signOut } from './authSlice';
+import {
+  SyncState,
+  CacheKey,
+  OfflineData,
+  OutboxEntry,
+  SyncConflict,
+  SyncedMember,
+  SyncOutboxResult,
+  ResolveConflictPayload,
+  AsyncThunkConfig
+} from '../../types/redux';
+import { FamilyMember, Relationship, Album, UserProfile } from '../../types/api';
+import { FamilyMember as ServiceFamilyMember } from '../../types/components';
+
+const CONFLICT_MESSAGE = 'This member was changed by someone else while you were offline';
+
+// Initial state
+const initialState: SyncState = {
+  isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+  isSyncing: false,
+  staleKeys: {},
+  lastSyncedAt: null,
+  outbox: [],
+  conflicts: [],
+};
+
+/**
+ * Converts a member returned by FamilyService to the shape kept in state
+ * @param member - Member returned by the service
+ * @returns The member, living unless marked deceased when the server sends no isLiving
+ */
+export function toStateMember(member: ServiceFamilyMember): FamilyMember {
+  return { isLiving: !member.isDeceased, ...member };
+}
+
+/**
+ * Sends a queued edit to the server
+ * @param entry - The edit
+ * @returns The member as saved by the server
+ */
+async function replayEntry(entry: OutboxEntry): Promise<FamilyMember> {
+  const member = entry.type === 'addFamilyMember'
+    ? await FamilyService.addFamilyMember(entry.payload)
+    : await FamilyService.updateFamilyMember(entry.memberId, entry.payload);
+  return toStateMember(member);
+}
+
+/**
+ * Points a queued edit at the server IDs of members that were added offline and have since synced
+ * @param entry - The edit
+ * @param syncedIds - Server IDs keyed by temporary ID
+ * @returns The edit with temporary IDs replaced
+ */
+function withSyncedIds(entry: OutboxEntry, syncedIds: Map<string, string>): OutboxEntry {
+  if (entry.type === 'addFamilyMember') {
+    const relatedTo = entry.payload.relatedTo;
+    return relatedTo && syncedIds.has(relatedTo)
+      ? { ...entry, payload: { ...entry.payload, relatedTo: syncedIds.get(relatedTo) } }
+      : entry;
+  }
+  return syncedIds.has(entry.memberId)
+    ? { ...entry, memberId: syncedIds.get(entry.memberId) as string }
+    : entry;
+}
+
+// Async thunks
+export const loadOfflineData = createAsyncThunk<OfflineData, void, AsyncThunkConfig>(
+  'sync/loadOfflineData',
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const [familyMembers, relationships, albums, profile, outbox] = await Promise.all([
+        OfflineStore.readCache<FamilyMember[]>('familyMembers'),
+        OfflineStore.readCache<Relationship[]>('relationships'),
+        OfflineStore.readCache<Album[]>('albums'),
+        OfflineStore.readCache<UserProfile>('profile'),
+        OfflineStore.getOutbox(),
+      ]);
+
+      // Never replace data that already arrived from the server
+      const { family, memory, user } = getState();
+      return {
+        familyMembers: family.familyMembers.ids.length === 0 ? familyMembers : null,
+        relationships: family.relationships.ids.length === 0 ? relationships : null,
+        albums: memory.albums.length === 0 ? albums : null,
+        profile: user.profile === null ? profile : null,
+        outbox,
+      };
+    } catch (error) {
+      return rejectWithValue((error as Error).message || 'Failed to load offline data');
+    }
+  }
+);
+
+export const syncOutbox = createAsyncThunk<SyncOutboxResult, void, AsyncThunkConfig>(
+  'sync/syncOutbox',
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const { outbox, conflicts } = getState().sync;
+      const conflictIds = new Set(conflicts.map(conflict => conflict.entryId));
+      const syncedIds = new Map<string, string>();
+      const synced: SyncedMember[] = [];
+      const newConflicts: SyncConflict[] = [];
+      const remaining: OutboxEntry[] = [];
+      let isOffline = false;
+
+      // Replay in the order the edits were made; edits awaiting a resolution are skipped
+      for (const queuedEntry of outbox) {
+        const entry = withSyncedIds(queuedEntry, syncedIds);
+        if (isOffline || conflictIds.has(entry.id)) {
+          remaining.push(entry);
+          continue;
+        }
+
+        try {
+          if (entry.type === 'updateFamilyMember' && entry.baseUpdatedAt) {
+            const serverMember = toStateMember(await FamilyService.getRelativeDetails(entry.memberId));
+            if (serverMember.updatedAt !== entry.baseUpdatedAt) {
+              newConflicts.push({ entryId: entry.id, serverMember, message: CONFLICT_MESSAGE });
+              remaining.push(entry);
+              continue;
+            }
+          }
+
+          const member = await replayEntry(entry);
+          if (entry.type === 'addFamilyMember') {
+            syncedIds.set(entry.memberId, member.id);
+          }
+          await OfflineStore.removeOutboxEntry(entry.id);
+          synced.push({ entryId: entry.id, memberId: entry.memberId, member });
+        } catch (error) {
+          // Still offline: keep this edit and everything after it queued
+          if (isNetworkError(error)) {
+            isOffline = true;
+          } else {
+            newConflicts.push({
+              entryId: entry.id,
+              serverMember: null,
+              message: (error as Error).message || 'Failed to sync change',
+            });
+          }
+          remaining.push(entry);
+        }
+      }
+
+      if (syncedIds.size > 0) {
+        await Promise.all(remaining.map(entry => OfflineStore.putOutboxEntry(entry)));
+      }
+
+      // Members added with a relative were linked to them by the server
+      const linkedMembers = outbox.some(entry =>
+        entry.type === 'addFamilyMember' && entry.payload.relatedTo && syncedIds.has(entry.memberId)
+      );
+      const relationships = linkedMembers
+        ? await FamilyService.getRelationships().catch(() => null)
+        : null;
+
+      return { synced, conflicts: newConflicts, outbox: remaining, relationships };
+    } catch (error) {
+      return rejectWithValue((error as Error).message || 'Failed to sync offline changes');
+    }
+  },
+  {
+    condition: (_, { getState }) => {
+      const { isOnline, isSyncing, outbox } = getState().sync;
+      return isOnline && !isSyncing && outbox.length > 0;
+    },
+  }
+);
+
+export const resolveConflict = createAsyncThunk<SyncedMember, ResolveConflictPayload, AsyncThunkConfig>(
+  'sync/resolveConflict',
+  async ({ entryId, resolution }, { getState, rejectWithValue }) => {
+    try {
+      const { outbox, conflicts } = getState().sync;
+      const entry = outbox.find(queued => queued.id === entryId);
+      const conflict = conflicts.find(queued => queued.entryId === entryId);
+      if (!entry || !conflict) {
+        throw new Error('Change not found');
+      }
+
+      let member: FamilyMember | null;
+      if (resolution === 'mine') {
+        member = await replayEntry(entry);
+      } else if (entry.type === 'addFamilyMember') {
+        // The member only ever existed offline
+        member = null;
+      } else {
+        member = conflict.serverMember || toStateMember(await FamilyService.getRelativeDetails(entry.memberId));
+      }
+
+      await OfflineStore.removeOutboxEntry(entryId);
+      return { entryId, memberId: entry.memberId, member };
+    } catch (error) {
+      return rejectWithValue((error as Error).message || 'Failed to resolve conflict');
+    }
+  }
+);
+
+// Sync slice
+const syncSlice = createSlice({
+  name: 'sync',
+  initialState,
+  reducers: {
+    setOnline: (state, action: PayloadAction<boolean>) => {
+      state.isOnline = action.payload;
+    },
+    // Data for the key was fetched from the server
+    markFresh: (state, action: PayloadAction<CacheKey>) => {
+      delete state.staleKeys[action.payload];
+      state.lastSyncedAt = new Date().toISOString();
+    },
+    // Queues an edit made offline, replacing a queued edit with the same ID
+    editQueued: (state, action: PayloadAction<OutboxEntry>) => {
+      const index = state.outbox.findIndex(entry => entry.id === action.payload.id);
+      if (index !== -1) {
+        state.outbox[index] = action.payload;
+      } else {
+        state.outbox.push(action.payload);
+      }
+    },
+  },
+  extraReducers: (builder) => {
+    // Edits queued by the user who signed out are dropped with the offline data
+    builder
+      .addCase(signOut.fulfilled, (state) => ({ ...initialState, isOnline: state.isOnline }))
+      .addCase(sessionExpired, (state) => ({ ...initialState, isOnline: state.isOnline }));
+
+    // Load Offline Data
+    builder
+      .addCase(loadOfflineData.fulfilled, (state, action: PayloadAction<OfflineData>) => {
+        const cacheKeys: CacheKey[] = ['familyMembers', 'relationships', 'albums', 'profile'];
+        cacheKeys.forEach(key => {
+          const entry = action.payload[key];
+          if (entry) {
+            state.staleKeys[key] = entry.cachedAt;
+          }
+        });
+        // Keep edits queued since the app started
+        const queuedIds = new Set(state.outbox.map(entry => entry.id));
+        state.outbox = [
+          ...action.payload.outbox.filter(entry => !queuedIds.has(entry.id)),
+          ...state.outbox,
+        ];
+      });
+
+    // Sync Outbox
+    builder
+      .addCase(syncOutbox.pending, (state) => {
+        state.isSyncing = true;
+      })
+      .addCase(syncOutbox.fulfilled, (state, action: PayloadAction<SyncOutboxResult>) => {
+        state.isSyncing = false;
+        state.outbox = action.payload.outbox;
+        state.conflicts.push(...action.payload.conflicts);
+        if (action.payload.synced.length > 0) {
+          state.lastSyncedAt = new Date().toISOString();
+        }
+      })
+      .addCase(syncOutbox.rejected, (state) => {
+        state.isSyncing = false;
+      });
+
+    // Resolve Conflict
+    builder
+      .addCase(resolveConflict.fulfilled, (state, action: PayloadAction<SyncedMember>) => {
+        state.outbox = state.outbox.filter(entry => entry.id !== action.payload.entryId);
+        state.conflicts = state.conflicts.filter(conflict => conflict.entryId !== action.payload.entryId);
+      });
+  },
+});
+
+// Selectors
+export const selectIsOnline = (state: { sync: SyncState }) => state.sync.isOnline;
+export const selectIsSyncing = (state: { sync: SyncState }) => state.sync.isSyncing;
+export const selectOutbox = (state: { sync: SyncState }) => state.sync.outbox;
+export const selectSyncConflicts = (state: { sync: SyncState }) => state.sync.conflicts;
+export const selectLastSyncedAt = (state: { sync: SyncState }) => state.sync.lastSyncedAt;
+
+// Oldest cache time of the data shown from the cache, or null when everything is fresh
+export const selectStaleSince = (state: { sync: SyncState }): string | null => {
+  const cachedTimes = Object.values(state.sync.staleKeys).sort();
+  return cachedTimes[0] || null;
+};
+
+// Export actions and reducer
+export const { setOnline, markFresh, editQueued } = syncSlice.actions;
+export default syncSlice.reducer;
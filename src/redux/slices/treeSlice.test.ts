@@ -13,12 +13,23 @@ import treeReducer, {
   resetTreeView,
   dismissTooltip,
   checkFirstTimeVisit,
+  setTracedPath,
+  clearTracedPath,
+  setTracedPathStep,
+  nextTracedPathStep,
+  previousTracedPathStep,
+  setChartView,
+  setChartGenerations,
   selectSelectedMemberId,
   selectSearchQuery,
   selectSearchResults,
   selectZoomLevel,
   selectPanOffset,
   selectShowTooltip,
+  selectTracedPath,
+  selectTracedPathStep,
+  selectChartView,
+  selectChartGenerations,
 } from './treeSlice';
 import { TreeState } from '../../types/redux';
 import { FamilyMember } from '../../types/api';
@@ -52,6 +63,10 @@ describe('treeSlice', () => {
     zoomLevel: 100,
     panOffset: { x: 0, y: 0 },
     showFirstTimeTooltip: false,
+    tracedPath: [],
+    tracedPathStep: null,
+    chartView: 'tree',
+    chartGenerations: 3,
   };
 
   beforeEach(() => {
@@ -436,6 +451,52 @@ describe('treeSlice', () => {
     });
   });
 
+  describe('traced path reducers', () => {
+    const tracedState = { ...initialState, tracedPath: ['a', 'b', 'c'] };
+
+    it('should set the traced path and show it whole', () => {
+      const currentState = { ...initialState, tracedPath: ['x', 'y'], tracedPathStep: 1 };
+      const state = treeReducer(currentState, setTracedPath(['a', 'b', 'c']));
+      expect(state.tracedPath).toEqual(['a', 'b', 'c']);
+      expect(state.tracedPathStep).toBeNull();
+    });
+
+    it('should clear the traced path and step', () => {
+      const state = treeReducer({ ...tracedState, tracedPathStep: 2 }, clearTracedPath());
+      expect(state.tracedPath).toEqual([]);
+      expect(state.tracedPathStep).toBeNull();
+    });
+
+    it('should step forward from the first member to the last', () => {
+      let state = treeReducer(tracedState, nextTracedPathStep());
+      expect(state.tracedPathStep).toBe(0);
+      state = treeReducer(state, nextTracedPathStep());
+      state = treeReducer(state, nextTracedPathStep());
+      expect(state.tracedPathStep).toBe(2);
+      state = treeReducer(state, nextTracedPathStep());
+      expect(state.tracedPathStep).toBe(2);
+    });
+
+    it('should step back no further than the first member', () => {
+      let state = treeReducer({ ...tracedState, tracedPathStep: 1 }, previousTracedPathStep());
+      expect(state.tracedPathStep).toBe(0);
+      state = treeReducer(state, previousTracedPathStep());
+      expect(state.tracedPathStep).toBe(0);
+    });
+
+    it('should constrain the step to the path', () => {
+      expect(treeReducer(tracedState, setTracedPathStep(5)).tracedPathStep).toBe(2);
+      expect(treeReducer(tracedState, setTracedPathStep(-1)).tracedPathStep).toBe(0);
+      expect(treeReducer({ ...tracedState, tracedPathStep: 1 }, setTracedPathStep(null)).tracedPathStep).toBeNull();
+    });
+
+    it('should not step without a traced path', () => {
+      expect(treeReducer(initialState, nextTracedPathStep()).tracedPathStep).toBeNull();
+      expect(treeReducer(initialState, previousTracedPathStep()).tracedPathStep).toBeNull();
+      expect(treeReducer(initialState, setTracedPathStep(1)).tracedPathStep).toBeNull();
+    });
+  });
+
   describe('localStorage persistence for tooltip', () => {
     describe('dismissTooltip reducer', () => {
       it('should set showFirstTimeTooltip to false', () => {
@@ -508,6 +569,20 @@ describe('treeSlice', () => {
     });
   });
 
+  describe('chart view', () => {
+    it('should switch between the family tree and the pedigree chart', () => {
+      const state = treeReducer(initialState, setChartView('pedigree'));
+      expect(state.chartView).toBe('pedigree');
+      expect(treeReducer(state, setChartView('tree')).chartView).toBe('tree');
+    });
+
+    it('should keep chart generations between 1 and 8', () => {
+      expect(treeReducer(initialState, setChartGenerations(5)).chartGenerations).toBe(5);
+      expect(treeReducer(initialState, setChartGenerations(0)).chartGenerations).toBe(1);
+      expect(treeReducer(initialState, setChartGenerations(20)).chartGenerations).toBe(8);
+    });
+  });
+
   describe('selectors', () => {
     const mockState = {
       tree: {
@@ -517,6 +592,10 @@ describe('treeSlice', () => {
         zoomLevel: 150,
         panOffset: { x: 100, y: 50 },
         showFirstTimeTooltip: true,
+        tracedPath: ['1', '4', '2'],
+        tracedPathStep: 1,
+        chartView: 'pedigree',
+        chartGenerations: 5,
       } as TreeState,
     };
 
@@ -573,6 +652,20 @@ describe('treeSlice', () => {
       const hiddenState = { tree: { ...initialState } };
       expect(selectShowTooltip(hiddenState)).toBe(false);
     });
+
+    it('selectTracedPath should return the traced path', () => {
+      expect(selectTracedPath(mockState)).toEqual(['1', '4', '2']);
+    });
+
+    it('selectTracedPathStep should return the traced path step', () => {
+      expect(selectTracedPathStep(mockState)).toBe(1);
+      expect(selectTracedPathStep({ tree: { ...initialState } })).toBeNull();
+    });
+
+    it('selectChartView and selectChartGenerations should return the chart settings', () => {
+      expect(selectChartView(mockState)).toBe('pedigree');
+      expect(selectChartGenerations(mockState)).toBe(5);
+    });
   });
 
   describe('state transitions', () => {
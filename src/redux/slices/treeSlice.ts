@@ -1,5 +1,10 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
-import { TreeState, PerformSearchPayload, PanPayload } from '../../types/redux';
+import { TreeState, TreeChartView, PerformSearchPayload, PanPayload } from '../../types/redux';
+
+// Generations a chart can show, and how many it starts with
+export const MIN_CHART_GENERATIONS = 1;
+export const MAX_CHART_GENERATIONS = 8;
+const DEFAULT_CHART_GENERATIONS = 3;
 
 // Initial state
 const initialState: TreeState = {
@@ -9,6 +14,10 @@ const initialState: TreeState = {
   zoomLevel: 100, // 10-200%
   panOffset: { x: 0, y: 0 },
   showFirstTimeTooltip: false,
+  tracedPath: [],
+  tracedPathStep: null,
+  chartView: 'tree',
+  chartGenerations: DEFAULT_CHART_GENERATIONS,
 };
 
 // Tree slice
@@ -84,6 +93,37 @@ const treeSlice = createSlice({
         state.showFirstTimeTooltip = true;
       }
     },
+    setTracedPath: (state, action: PayloadAction<string[]>) => {
+      state.tracedPath = action.payload;
+      state.tracedPathStep = null;
+    },
+    clearTracedPath: (state) => {
+      state.tracedPath = [];
+      state.tracedPathStep = null;
+    },
+    setTracedPathStep: (state, action: PayloadAction<number | null>) => {
+      const step = action.payload;
+      state.tracedPathStep = step === null || state.tracedPath.length === 0
+        ? null
+        : Math.max(0, Math.min(state.tracedPath.length - 1, step));
+    },
+    // Stepping starts at the first member when the whole path is shown
+    nextTracedPathStep: (state) => {
+      if (state.tracedPath.length === 0) return;
+      state.tracedPathStep = state.tracedPathStep === null
+        ? 0
+        : Math.min(state.tracedPath.length - 1, state.tracedPathStep + 1);
+    },
+    previousTracedPathStep: (state) => {
+      if (state.tracedPath.length === 0 || state.tracedPathStep === null) return;
+      state.tracedPathStep = Math.max(0, state.tracedPathStep - 1);
+    },
+    setChartView: (state, action: PayloadAction<TreeChartView>) => {
+      state.chartView = action.payload;
+    },
+    setChartGenerations: (state, action: PayloadAction<number>) => {
+      state.chartGenerations = Math.max(MIN_CHART_GENERATIONS, Math.min(MAX_CHART_GENERATIONS, Math.round(action.payload)));
+    },
   },
 });
 
@@ -94,6 +134,10 @@ export const selectSearchResults = (state: { tree: TreeState }) => state.tree.se
 export const selectZoomLevel = (state: { tree: TreeState }) => state.tree.zoomLevel;
 export const selectPanOffset = (state: { tree: TreeState }) => state.tree.panOffset;
 export const selectShowTooltip = (state: { tree: TreeState }) => state.tree.showFirstTimeTooltip;
+export const selectTracedPath = (state: { tree: TreeState }) => state.tree.tracedPath;
+export const selectTracedPathStep = (state: { tree: TreeState }) => state.tree.tracedPathStep;
+export const selectChartView = (state: { tree: TreeState }) => state.tree.chartView;
+export const selectChartGenerations = (state: { tree: TreeState }) => state.tree.chartGenerations;
 
 // Export actions and reducer
 export const {
@@ -110,6 +154,13 @@ export const {
   resetTreeView,
   dismissTooltip,
   checkFirstTimeVisit,
+  setTracedPath,
+  clearTracedPath,
+  setTracedPathStep,
+  nextTracedPathStep,
+  previousTracedPathStep,
+  setChartView,
+  setChartGenerations,
 } = treeSlice.actions;
 
 export default treeSlice.reducer;
@@ -1,6 +1,7 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import UserService from '../../services/UserService';
-import { UserState, UpdateProfilePayload, AsyncThunkConfig } from '../../types/redux';
+import { loadOfflineData, markFresh } from './syncSlice';
+import { UserState, UpdateProfilePayload, AsyncThunkConfig, OfflineData } from '../../types/redux';
 import { UserProfile } from '../../types/api';
 
 // Mock mode for development
@@ -16,7 +17,7 @@ const initialState: UserState = {
 // Async thunks
 export const updateProfile = createAsyncThunk<UserProfile, UpdateProfilePayload, AsyncThunkConfig>(
   'user/updateProfile',
-  async (data, { rejectWithValue }) => {
+  async (data, { dispatch, rejectWithValue }) => {
     try {
       if (MOCK_MODE) {
         // Mock response for development
@@ -32,6 +33,7 @@ export const updateProfile = createAsyncThunk<UserProfile, UpdateProfilePayload,
       }
       
       const updatedProfile = await UserService.updateProfile(data);
+      dispatch(markFresh('profile'));
       return updatedProfile;
     } catch (error) {
       return rejectWithValue((error as Error).message || 'Failed to update profile');
@@ -103,6 +105,14 @@ const userSlice = createSlice({
         state.isLoading = false;
         state.error = action.payload as string;
       });
+
+    // Offline cache
+    builder
+      .addCase(loadOfflineData.fulfilled, (state, action: PayloadAction<OfflineData>) => {
+        if (action.payload.profile && !state.profile) {
+          state.profile = action.payload.profile.data;
+        }
+      });
   },
 });
 
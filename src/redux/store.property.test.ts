@@ -6,6 +6,7 @@ import path from 'path';
 // Import the store to ensure it compiles
 import { store, useAppDispatch, useAppSelector } from './store';
 import type { RootState, AppDispatch } from './store';
+import { selectFamilyMembers, selectRelationships } from './slices/familySlice';
 
 describe('Redux Store Property Tests', () => {
   // Feature: js-ts-css-scss-migration, Property 5: Redux type integration
@@ -44,8 +45,13 @@ describe('Redux Store Property Tests', () => {
             case 'family':
               expect(slice).toHaveProperty('familyMembers');
               expect(slice).toHaveProperty('relationships');
-              expect(Array.isArray((slice as any).familyMembers)).toBe(true);
-              expect(Array.isArray((slice as any).relationships)).toBe(true);
+              // Members and relationships are kept as entity state, listed by the selectors
+              expect(Array.isArray(state.family.familyMembers.ids)).toBe(true);
+              expect(typeof state.family.familyMembers.entities).toBe('object');
+              expect(Array.isArray(state.family.relationships.ids)).toBe(true);
+              expect(typeof state.family.relationships.entities).toBe('object');
+              expect(Array.isArray(selectFamilyMembers(state))).toBe(true);
+              expect(Array.isArray(selectRelationships(state))).toBe(true);
               break;
             case 'memory':
               expect(slice).toHaveProperty('memories');
@@ -2,10 +2,16 @@ import { configureStore } from '@reduxjs/toolkit';
 import { TypedUseSelectorHook, useDispatch, useSelector } from 'react-redux';
 import authReducer from './slices/authSlice';
 import userReducer from './slices/userSlice';
-import familyReducer from './slices/familySlice';
+import familyReducer, { selectSavedFamilyMembers, selectSavedRelationships } from './slices/familySlice';
 import memoryReducer from './slices/memorySlice';
+import eventsReducer from './slices/eventsSlice';
 import dashboardReducer from './slices/dashboardSlice';
 import treeReducer from './slices/treeSlice';
+import syncReducer, { loadOfflineData, setOnline, syncOutbox } from './slices/syncSlice';
+import { sessionExpired } from './slices/authSlice';
+import { setAuthFailureHandler } from '../services/apiClient';
+import OfflineStore from '../services/OfflineStore';
+import { CacheKey } from '../types/redux';
 
 // Configure the store with typed reducers
 export const store = configureStore({
@@ -14,8 +20,10 @@ export const store = configureStore({
     user: userReducer,
     family: familyReducer,
     memory: memoryReducer,
+    events: eventsReducer,
     dashboard: dashboardReducer,
     tree: treeReducer,
+    sync: syncReducer,
   },
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware({
@@ -29,6 +37,112 @@ export const store = configureStore({
   devTools: process.env.NODE_ENV !== 'production',
 });
 
+// Sign out when the API client cannot refresh the session, dropping the user's offline data as signing out does
+setAuthFailureHandler(() => {
+  store.dispatch(sessionExpired());
+  OfflineStore.clear().catch(error => {
+    console.error('Failed to clear offline data:', error);
+  });
+});
+
+// Changes are written to the offline cache together once the state has settled for this long
+const CACHE_WRITE_DELAY_MS = 1000;
+
+// Data kept in the offline cache; edits still being saved are left out so a failed save is never cached
+const getCachedData = (state: ReturnType<typeof store.getState>): Record<CacheKey, unknown> => ({
+  familyMembers: selectSavedFamilyMembers(state),
+  relationships: selectSavedRelationships(state),
+  albums: state.memory.albums,
+  profile: state.user.profile,
+});
+
+// Keep the offline cache in step with the data on screen; data shown from the cache keeps its cache time
+let previousCachedData = getCachedData(store.getState());
+const changedCacheKeys = new Set<CacheKey>();
+let cacheWriteTimer: ReturnType<typeof setTimeout> | null = null;
+
+const scheduleCacheWrite = (): void => {
+  if (cacheWriteTimer) {
+    clearTimeout(cacheWriteTimer);
+  }
+  cacheWriteTimer = setTimeout(() => {
+    cacheWriteTimer = null;
+    writeChangedCache();
+  }, CACHE_WRITE_DELAY_MS);
+};
+
+const writeChangedCache = (): void => {
+  const state = store.getState();
+  // Held back while signing out, which clears the cache before the user is signed out
+  if (state.auth.isLoading) {
+    scheduleCacheWrite();
+    return;
+  }
+  const cachedData = getCachedData(state);
+  changedCacheKeys.forEach(key => {
+    if (cachedData[key] !== null) {
+      OfflineStore.writeCache(key, cachedData[key], state.sync.staleKeys[key]).catch(error => {
+        console.error(`Failed to cache ${key}:`, error);
+      });
+    }
+  });
+  changedCacheKeys.clear();
+};
+
+// Nothing is cached while signed out; a write still waiting would put back the data cleared on sign-out
+const cancelCacheWrite = (): void => {
+  if (cacheWriteTimer) {
+    clearTimeout(cacheWriteTimer);
+    cacheWriteTimer = null;
+  }
+  changedCacheKeys.clear();
+};
+
+// Show the user's cached data straight away, then replay edits they queued while offline
+const loadUserOfflineData = (): void => {
+  store.dispatch(loadOfflineData()).then(() => store.dispatch(syncOutbox()));
+};
+
+let wasAuthenticated = store.getState().auth.isAuthenticated;
+store.subscribe(() => {
+  const state = store.getState();
+  const cachedData = getCachedData(state);
+  (Object.keys(cachedData) as CacheKey[]).forEach(key => {
+    if (cachedData[key] !== previousCachedData[key]) {
+      changedCacheKeys.add(key);
+    }
+  });
+  previousCachedData = cachedData;
+
+  const justSignedIn = state.auth.isAuthenticated && !wasAuthenticated;
+  wasAuthenticated = state.auth.isAuthenticated;
+  if (!state.auth.isAuthenticated) {
+    cancelCacheWrite();
+    return;
+  }
+  if (justSignedIn) {
+    loadUserOfflineData();
+  }
+
+  if (changedCacheKeys.size > 0) {
+    scheduleCacheWrite();
+  }
+});
+
+if (wasAuthenticated) {
+  loadUserOfflineData();
+}
+
+window.addEventListener('online', () => {
+  store.dispatch(setOnline(true));
+  if (store.getState().auth.isAuthenticated) {
+    store.dispatch(syncOutbox());
+  }
+});
+window.addEventListener('offline', () => {
+  store.dispatch(setOnline(false));
+});
+
 // Infer the `RootState` and `AppDispatch` types from the store itself
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;
@@ -0,0 +1,142 @@
+import apiClient, { dedupedGet, retryWithBackoff, toApiError } from './apiClient';
+import { CreateEventRequest, ImportEventsRequest, UpdateEventRequest, RsvpEventRequest, CalendarFeedResponse } from '../types/api';
+import { FamilyEvent } from '../types/components';
+
+/**
+ * EventService handles all family event API calls
+ */
+const EventService = {
+  /**
+   * Get the events the current user hosts or is invited to, cancelled ones included
+   * @param signal - Aborts the request and any further retries
+   * @returns List of events
+   */
+  async getEvents(signal?: AbortSignal): Promise<FamilyEvent[]> {
+    try {
+      return await retryWithBackoff(async () => {
+        const response = await dedupedGet<FamilyEvent[]>('/events', { signal });
+        return response.data;
+      }, 3, signal);
+    } catch (error) {
+      throw toApiError(error, { fallback: 'Failed to fetch events' });
+    }
+  },
+
+  /**
+   * Get the URL of the current user's calendar feed, which calendar apps subscribe to
+   * @param signal - Aborts the request and any further retries
+   * @returns Feed URL
+   */
+  async getCalendarFeed(signal?: AbortSignal): Promise<CalendarFeedResponse> {
+    try {
+      return await retryWithBackoff(async () => {
+        const response = await apiClient.get<CalendarFeedResponse>('/events/feed', { signal });
+        return response.data;
+      }, 3, signal);
+    } catch (error) {
+      throw toApiError(error, { fallback: 'Failed to get calendar feed' });
+    }
+  },
+
+  /**
+   * Create an event and invite its guests
+   * @param eventData - Event details and the family members invited
+   * @returns Created event
+   */
+  async createEvent(eventData: CreateEventRequest): Promise<FamilyEvent> {
+    try {
+      // Not retried: a repeated request could create the event twice
+      const response = await apiClient.post<FamilyEvent>('/events', eventData);
+      return response.data;
+    } catch (error) {
+      throw toApiError(error, {
+        400: 'Invalid event data',
+        fallback: 'Failed to create event',
+      });
+    }
+  },
+
+  /**
+   * Create several events at once, such as those read from an iCalendar file
+   * @param importData - Events to create, each with its own guests
+   * @returns Created events
+   */
+  async importEvents(importData: ImportEventsRequest): Promise<FamilyEvent[]> {
+    try {
+      // Not retried: a bulk import is not idempotent
+      const response = await apiClient.post<FamilyEvent[]>('/events/import', importData);
+      return response.data;
+    } catch (error) {
+      throw toApiError(error, {
+        400: 'Invalid event data',
+        413: 'Too many events to import at once. Please split the file and try again.',
+        fallback: 'Failed to import events',
+      });
+    }
+  },
+
+  /**
+   * Update an event's details or guest list
+   * @param eventId - Event ID
+   * @param eventData - Updated event data
+   * @returns Updated event
+   */
+  async updateEvent(eventId: string, eventData: UpdateEventRequest): Promise<FamilyEvent> {
+    try {
+      return await retryWithBackoff(async () => {
+        const response = await apiClient.put<FamilyEvent>(`/events/${eventId}`, eventData);
+        return response.data;
+      });
+    } catch (error) {
+      throw toApiError(error, {
+        400: 'Invalid event data',
+        403: 'Only the host can change this event',
+        404: 'Event not found',
+        fallback: 'Failed to update event',
+      });
+    }
+  },
+
+  /**
+   * Cancel an event; the server keeps it, marked as cancelled
+   * @param eventId - Event ID
+   * @returns Cancelled event
+   */
+  async cancelEvent(eventId: string): Promise<FamilyEvent> {
+    try {
+      return await retryWithBackoff(async () => {
+        const response = await apiClient.post<FamilyEvent>(`/events/${eventId}/cancel`);
+        return response.data;
+      });
+    } catch (error) {
+      throw toApiError(error, {
+        403: 'Only the host can cancel this event',
+        404: 'Event not found',
+        fallback: 'Failed to cancel event',
+      });
+    }
+  },
+
+  /**
+   * Reply to an event invitation for a family member; replying again replaces their earlier reply
+   * @param eventId - Event ID
+   * @param rsvpData - The member, whether they are going, and their plus-ones and dietary notes
+   * @returns Event with the reply counted
+   */
+  async rsvpEvent(eventId: string, rsvpData: RsvpEventRequest): Promise<FamilyEvent> {
+    try {
+      return await retryWithBackoff(async () => {
+        const response = await apiClient.put<FamilyEvent>(`/events/${eventId}/rsvp`, rsvpData);
+        return response.data;
+      });
+    } catch (error) {
+      throw toApiError(error, {
+        400: 'This event is no longer taking replies',
+        404: 'Event not found',
+        fallback: 'Failed to reply to event',
+      });
+    }
+  },
+};
+
+export default EventService;
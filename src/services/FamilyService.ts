@@ -1,52 +1,17 @@
-import axios from 'axios';
-import { 
-  AddFamilyMemberRequest, 
-  UpdateFamilyMemberRequest 
+import apiClient, { dedupedGet, retryWithBackoff, toApiError } from './apiClient';
+import {
+  AddFamilyMemberRequest,
+  UpdateFamilyMemberRequest,
+  ImportFamilyTreeRequest,
+  ImportFamilyTreeResponse,
+  DeleteFamilyMemberResponse,
+  MergeFamilyMembersRequest,
+  MergeFamilyMembersResponse,
+  AddRelationshipRequest,
+  UpdateRelationshipRequest
 } from '../types/api';
 import { FamilyMember, Relationship } from '../types/components';
 
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
-
-// Error interface for validation errors
-interface ValidationError {
-  message: string;
-  validationErrors: Record<string, string>;
-  isValidationError: boolean;
-}
-
-/**
- * Retry a failed request with exponential backoff
- * @param fn - Function to retry
- * @param maxRetries - Maximum number of retries (default: 3)
- * @returns Result of the function
- */
-const retryWithBackoff = async <T>(fn: () => Promise<T>, maxRetries: number = 3): Promise<T> => {
-  let lastError: any;
-  
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      return await fn();
-    } catch (error: any) {
-      lastError = error;
-      
-      // Only retry on network errors or 5xx server errors
-      const shouldRetry = 
-        !error.response || 
-        (error.response?.status >= 500 && error.response?.status < 600);
-      
-      if (!shouldRetry || attempt === maxRetries - 1) {
-        throw error;
-      }
-      
-      // Exponential backoff: 1s, 2s, 4s
-      const delay = Math.pow(2, attempt) * 1000;
-      await new Promise(resolve => setTimeout(resolve, delay));
-    }
-  }
-  
-  throw lastError;
-};
-
 /**
  * FamilyService handles all family member and relationship API calls
  */
@@ -59,39 +24,14 @@ const FamilyService = {
   async addFamilyMember(memberData: AddFamilyMemberRequest): Promise<FamilyMember> {
     try {
       return await retryWithBackoff(async () => {
-        const token = localStorage.getItem('accessToken');
-        const response = await axios.post<FamilyMember>(
-          `${API_BASE_URL}/family/members`,
-          memberData,
-          {
-            headers: {
-              Authorization: `Bearer ${token}`,
-              'Content-Type': 'application/json',
-            },
-          }
-        );
+        const response = await apiClient.post<FamilyMember>('/family/members', memberData);
         return response.data;
       });
     } catch (error: any) {
-      // Handle validation errors from server
-      if (error.response?.status === 400) {
-        const message = error.response.data.message || 'Invalid family member data';
-        const validationErrors = error.response.data.errors || {};
-        throw { message, validationErrors, isValidationError: true } as ValidationError;
-      }
-      // Handle authentication errors
-      if (error.response?.status === 401) {
-        throw new Error('Authentication required');
-      }
-      // Handle server errors
-      if (error.response?.status >= 500) {
-        throw new Error('Server error. Please try again later.');
-      }
-      // Handle network errors
-      if (!error.response) {
-        throw new Error('Network error. Please check your connection and try again.');
-      }
-      throw new Error(error.message || 'Failed to add family member');
+      throw toApiError(error, {
+        400: 'Invalid family member data',
+        fallback: 'Failed to add family member',
+      });
     }
   },
 
@@ -104,107 +44,164 @@ const FamilyService = {
   async updateFamilyMember(memberId: string, memberData: UpdateFamilyMemberRequest): Promise<FamilyMember> {
     try {
       return await retryWithBackoff(async () => {
-        const token = localStorage.getItem('accessToken');
-        const response = await axios.put<FamilyMember>(
-          `${API_BASE_URL}/family/members/${memberId}`,
-          memberData,
-          {
-            headers: {
-              Authorization: `Bearer ${token}`,
-              'Content-Type': 'application/json',
-            },
-          }
-        );
+        const response = await apiClient.put<FamilyMember>(`/family/members/${memberId}`, memberData);
         return response.data;
       });
     } catch (error: any) {
-      // Handle validation errors from server
-      if (error.response?.status === 400) {
-        const message = error.response.data.message || 'Invalid family member data';
-        const validationErrors = error.response.data.errors || {};
-        throw { message, validationErrors, isValidationError: true } as ValidationError;
-      }
-      // Handle not found errors
-      if (error.response?.status === 404) {
-        throw new Error('Family member not found');
-      }
-      // Handle authentication errors
-      if (error.response?.status === 401) {
-        throw new Error('Authentication required');
-      }
-      // Handle server errors
-      if (error.response?.status >= 500) {
-        throw new Error('Server error. Please try again later.');
-      }
-      // Handle network errors
-      if (!error.response) {
-        throw new Error('Network error. Please check your connection and try again.');
-      }
-      throw new Error(error.message || 'Failed to update family member');
+      throw toApiError(error, {
+        400: 'Invalid family member data',
+        404: 'Family member not found',
+        fallback: 'Failed to update family member',
+      });
+    }
+  },
+
+  /**
+   * Delete a family member
+   * The server removes the member's relationships along with them
+   * @param memberId - Family member ID
+   * @returns IDs of the relationships removed with the member
+   */
+  async deleteFamilyMember(memberId: string): Promise<DeleteFamilyMemberResponse> {
+    try {
+      // Not retried: a retry after a lost response would fail with a 404 and lose the removed relationships
+      const response = await apiClient.delete<DeleteFamilyMemberResponse>(`/family/members/${memberId}`);
+      return response.data;
+    } catch (error) {
+      throw toApiError(error, {
+        404: 'Family member not found',
+        fallback: 'Failed to delete family member',
+      });
+    }
+  },
+
+  /**
+   * Merge a duplicate family member into another
+   * The server saves the merged details, moves the duplicate's relationships to the member kept
+   * and deletes the duplicate
+   * @param mergeData - Members to merge and the merged details
+   * @returns The merged member and what happened to the relationships
+   */
+  async mergeFamilyMembers(mergeData: MergeFamilyMembersRequest): Promise<MergeFamilyMembersResponse> {
+    try {
+      // Not retried: the duplicate no longer exists once a merge has gone through
+      const response = await apiClient.post<MergeFamilyMembersResponse>('/family/members/merge', mergeData);
+      return response.data;
+    } catch (error) {
+      throw toApiError(error, {
+        400: 'Invalid merge data',
+        404: 'Family member not found',
+        fallback: 'Failed to merge family members',
+      });
     }
   },
 
   /**
    * Get all family members for the current user
+   * @param signal - Aborts the request and any further retries
    * @returns List of family members
    */
-  async getFamilyMembers(): Promise<FamilyMember[]> {
+  async getFamilyMembers(signal?: AbortSignal): Promise<FamilyMember[]> {
     try {
       return await retryWithBackoff(async () => {
-        const token = localStorage.getItem('accessToken');
-        const response = await axios.get<FamilyMember[]>(`${API_BASE_URL}/family/members`, {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        });
+        const response = await dedupedGet<FamilyMember[]>('/family/members', { signal });
         return response.data;
-      });
+      }, 3, signal);
     } catch (error: any) {
-      // Handle authentication errors
-      if (error.response?.status === 401) {
-        throw new Error('Authentication required');
-      }
-      // Handle server errors
-      if (error.response?.status >= 500) {
-        throw new Error('Server error. Please try again later.');
-      }
-      // Handle network errors
-      if (!error.response) {
-        throw new Error('Network error. Please check your connection and try again.');
-      }
-      throw new Error(error.message || 'Failed to fetch family members');
+      throw toApiError(error, { fallback: 'Failed to fetch family members' });
     }
   },
 
   /**
    * Get all relationships for the current user's family tree
+   * @param signal - Aborts the request and any further retries
    * @returns List of relationships
    */
-  async getRelationships(): Promise<Relationship[]> {
+  async getRelationships(signal?: AbortSignal): Promise<Relationship[]> {
+    try {
+      return await retryWithBackoff(async () => {
+        const response = await dedupedGet<Relationship[]>('/family/relationships', { signal });
+        return response.data;
+      }, 3, signal);
+    } catch (error: any) {
+      throw toApiError(error, { fallback: 'Failed to fetch relationships' });
+    }
+  },
+
+  /**
+   * Link two existing family members
+   * @param relationshipData - Members to link and how they are related
+   * @returns Created relationship
+   */
+  async addRelationship(relationshipData: AddRelationshipRequest): Promise<Relationship> {
+    try {
+      // Not retried: a repeated request could link the members twice
+      const response = await apiClient.post<Relationship>('/family/relationships', relationshipData);
+      return response.data;
+    } catch (error) {
+      throw toApiError(error, {
+        400: 'Invalid relationship data',
+        404: 'Family member not found',
+        409: 'These family members are already linked',
+        fallback: 'Failed to add relationship',
+      });
+    }
+  },
+
+  /**
+   * Update a relationship's type, label, lineage or direction
+   * @param relationshipId - Relationship ID
+   * @param relationshipData - Updated relationship data
+   * @returns Updated relationship
+   */
+  async updateRelationship(relationshipId: string, relationshipData: UpdateRelationshipRequest): Promise<Relationship> {
     try {
       return await retryWithBackoff(async () => {
-        const token = localStorage.getItem('accessToken');
-        const response = await axios.get<Relationship[]>(`${API_BASE_URL}/family/relationships`, {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        });
+        const response = await apiClient.put<Relationship>(`/family/relationships/${relationshipId}`, relationshipData);
         return response.data;
       });
+    } catch (error) {
+      throw toApiError(error, {
+        400: 'Invalid relationship data',
+        404: 'Relationship not found',
+        fallback: 'Failed to update relationship',
+      });
+    }
+  },
+
+  /**
+   * Delete a relationship, leaving both family members in the tree
+   * @param relationshipId - Relationship ID
+   */
+  async deleteRelationship(relationshipId: string): Promise<void> {
+    try {
+      // Not retried: a retry after a lost response would fail with a 404 although the link is gone
+      await apiClient.delete(`/family/relationships/${relationshipId}`);
+    } catch (error) {
+      throw toApiError(error, {
+        404: 'Relationship not found',
+        fallback: 'Failed to delete relationship',
+      });
+    }
+  },
+
+  /**
+   * Import members and relationships in bulk (e.g. from a GEDCOM file)
+   * The server creates every member, resolves importIds to new member IDs and links the relationships
+   * @param importData - Members keyed by importId and the relationships between them
+   * @returns Created family members and relationships
+   */
+  async importFamilyTree(importData: ImportFamilyTreeRequest): Promise<ImportFamilyTreeResponse> {
+    try {
+      // Not retried: a bulk import is not idempotent
+      const response = await apiClient.post<ImportFamilyTreeResponse>('/family/import', importData);
+      return response.data;
     } catch (error: any) {
-      // Handle authentication errors
-      if (error.response?.status === 401) {
-        throw new Error('Authentication required');
-      }
-      // Handle server errors
-      if (error.response?.status >= 500) {
-        throw new Error('Server error. Please try again later.');
-      }
-      // Handle network errors
-      if (!error.response) {
-        throw new Error('Network error. Please check your connection and try again.');
-      }
-      throw new Error(error.message || 'Failed to fetch relationships');
+      throw toApiError(error, {
+        400: 'Invalid import data',
+        413: 'Import file is too large. Please split it and try again.',
+        fallback: 'Failed to import family tree',
+      });
     }
   },
 
@@ -222,28 +219,11 @@ const FamilyService = {
   }>> {
     try {
       return await retryWithBackoff(async () => {
-        const token = localStorage.getItem('accessToken');
-        const response = await axios.get(`${API_BASE_URL}/family/existing-friends`, {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        });
+        const response = await apiClient.get('/family/existing-friends');
         return response.data;
       });
     } catch (error: any) {
-      // Handle authentication errors
-      if (error.response?.status === 401) {
-        throw new Error('Authentication required');
-      }
-      // Handle server errors
-      if (error.response?.status >= 500) {
-        throw new Error('Server error. Please try again later.');
-      }
-      // Handle network errors
-      if (!error.response) {
-        throw new Error('Network error. Please check your connection and try again.');
-      }
-      throw new Error(error.message || 'Failed to fetch existing friends');
+      throw toApiError(error, { fallback: 'Failed to fetch existing friends' });
     }
   },
 
@@ -267,32 +247,14 @@ const FamilyService = {
   }> {
     try {
       return await retryWithBackoff(async () => {
-        const token = localStorage.getItem('accessToken');
-        const response = await axios.get(`${API_BASE_URL}/family/friends/${friendId}`, {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        });
+        const response = await apiClient.get(`/family/friends/${friendId}`);
         return response.data;
       });
     } catch (error: any) {
-      // Handle not found errors
-      if (error.response?.status === 404) {
-        throw new Error('Friend not found');
-      }
-      // Handle authentication errors
-      if (error.response?.status === 401) {
-        throw new Error('Authentication required');
-      }
-      // Handle server errors
-      if (error.response?.status >= 500) {
-        throw new Error('Server error. Please try again later.');
-      }
-      // Handle network errors
-      if (!error.response) {
-        throw new Error('Network error. Please check your connection and try again.');
-      }
-      throw new Error(error.message || 'Failed to fetch friend details');
+      throw toApiError(error, {
+        404: 'Friend not found',
+        fallback: 'Failed to fetch friend details',
+      });
     }
   },
 
@@ -304,32 +266,14 @@ const FamilyService = {
   async getRelativeDetails(relativeId: string): Promise<FamilyMember> {
     try {
       return await retryWithBackoff(async () => {
-        const token = localStorage.getItem('accessToken');
-        const response = await axios.get<FamilyMember>(`${API_BASE_URL}/family/relatives/${relativeId}`, {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        });
+        const response = await dedupedGet<FamilyMember>(`/family/relatives/${relativeId}`);
         return response.data;
       });
     } catch (error: any) {
-      // Handle not found errors
-      if (error.response?.status === 404) {
-        throw new Error('Relative not found');
-      }
-      // Handle authentication errors
-      if (error.response?.status === 401) {
-        throw new Error('Authentication required');
-      }
-      // Handle server errors
-      if (error.response?.status >= 500) {
-        throw new Error('Server error. Please try again later.');
-      }
-      // Handle network errors
-      if (!error.response) {
-        throw new Error('Network error. Please check your connection and try again.');
-      }
-      throw new Error(error.message || 'Failed to fetch relative details');
+      throw toApiError(error, {
+        404: 'Relative not found',
+        fallback: 'Failed to fetch relative details',
+      });
     }
   },
 
@@ -341,47 +285,19 @@ const FamilyService = {
   async sendFriendRequest(userId: string): Promise<{ message: string }> {
     try {
       return await retryWithBackoff(async () => {
-        const token = localStorage.getItem('accessToken');
-        const response = await axios.post(
-          `${API_BASE_URL}/family/friend-requests`,
-          { userId },
-          {
-            headers: {
-              Authorization: `Bearer ${token}`,
-              'Content-Type': 'application/json',
-            },
-          }
-        );
+        const response = await apiClient.post('/family/friend-requests', { userId });
         return response.data;
       });
     } catch (error: any) {
-      // Handle validation errors
-      if (error.response?.status === 400) {
-        throw new Error(error.response.data.message || 'Invalid User ID');
-      }
-      // Handle not found errors
-      if (error.response?.status === 404) {
-        throw new Error('User not found. Please check the User ID.');
-      }
-      // Handle conflict errors (already friends or request pending)
-      if (error.response?.status === 409) {
-        throw new Error(error.response.data.message || 'Friend request already exists');
-      }
-      // Handle authentication errors
-      if (error.response?.status === 401) {
-        throw new Error('Authentication required');
-      }
-      // Handle server errors
-      if (error.response?.status >= 500) {
-        throw new Error('Server error. Please try again later.');
-      }
-      // Handle network errors
-      if (!error.response) {
-        throw new Error('Network error. Please check your connection and try again.');
-      }
-      throw new Error(error.message || 'Failed to send friend request');
+      // Conflicts (already friends or request pending) are explained by the server
+      throw toApiError(error, {
+        400: 'Invalid User ID',
+        404: 'User not found. Please check the User ID.',
+        409: 'Friend request already exists',
+        fallback: 'Failed to send friend request',
+      }, [400, 409]);
     }
   },
 };
 
-export default FamilyService;
\ No newline at end of file
+export default FamilyService;
@@ -1,10 +1,8 @@
-import axios from 'axios';
+import apiClient, { dedupedGet, retryWithBackoff, toApiError } from './apiClient';
 import UserService from './UserService';
 import { CreateMemoryRequest, UploadPhotosRequest } from '../types/api';
 import { Memory, Album, FamilyMember } from '../types/components';
 
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
-
 // Response interfaces for memory operations
 interface UploadPhotosResponse extends Memory {
   partialFailures?: Array<{
@@ -14,45 +12,6 @@ interface UploadPhotosResponse extends Memory {
   hasPartialFailures?: boolean;
 }
 
-interface ValidationError {
-  message: string;
-  validationErrors: Record<string, string>;
-  isValidationError: boolean;
-}
-
-/**
- * Retry a failed request with exponential backoff
- * @param fn - Function to retry
- * @param maxRetries - Maximum number of retries (default: 3)
- * @returns Result of the function
- */
-const retryWithBackoff = async <T>(fn: () => Promise<T>, maxRetries: number = 3): Promise<T> => {
-  let lastError: any;
-  
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      return await fn();
-    } catch (error: any) {
-      lastError = error;
-      
-      // Only retry on network errors or 5xx server errors
-      const shouldRetry = 
-        !error.response || 
-        (error.response?.status >= 500 && error.response?.status < 600);
-      
-      if (!shouldRetry || attempt === maxRetries - 1) {
-        throw error;
-      }
-      
-      // Exponential backoff: 1s, 2s, 4s
-      const delay = Math.pow(2, attempt) * 1000;
-      await new Promise(resolve => setTimeout(resolve, delay));
-    }
-  }
-  
-  throw lastError;
-};
-
 /**
  * MemoryService handles all photo upload and memory management API calls
  */
@@ -71,7 +30,6 @@ const MemoryService = {
   ): Promise<UploadPhotosResponse> {
     try {
       return await retryWithBackoff(async () => {
-        const token = localStorage.getItem('accessToken');
         const formData = new FormData();
 
         // Compress and append each photo
@@ -109,12 +67,11 @@ const MemoryService = {
           formData.append('taggedPeople', JSON.stringify(memoryData.taggedPeople));
         }
 
-        const response = await axios.post<Memory>(
-          `${API_BASE_URL}/memories/upload`,
+        const response = await apiClient.post<Memory>(
+          '/memories/upload',
           formData,
           {
             headers: {
-              Authorization: `Bearer ${token}`,
               'Content-Type': 'multipart/form-data',
             },
             onUploadProgress: (progressEvent) => {
@@ -140,29 +97,11 @@ const MemoryService = {
         return response.data;
       });
     } catch (error: any) {
-      // Handle validation errors from server
-      if (error.response?.status === 400) {
-        const message = error.response.data.message || 'Invalid photo or memory data';
-        const validationErrors = error.response.data.errors || {};
-        throw { message, validationErrors, isValidationError: true } as ValidationError;
-      }
-      // Handle authentication errors
-      if (error.response?.status === 401) {
-        throw new Error('Authentication required');
-      }
-      // Handle file size errors
-      if (error.response?.status === 413) {
-        throw new Error('File size too large. Maximum 10MB per photo.');
-      }
-      // Handle server errors
-      if (error.response?.status >= 500) {
-        throw new Error('Server error. Please try again later.');
-      }
-      // Handle network errors
-      if (!error.response) {
-        throw new Error('Network error. Please check your connection and try again.');
-      }
-      throw new Error(error.message || 'Failed to upload photos');
+      throw toApiError(error, {
+        400: 'Invalid photo or memory data',
+        413: 'File size too large. Maximum 10MB per photo.',
+        fallback: 'Failed to upload photos',
+      });
     }
   },
 
@@ -174,39 +113,14 @@ const MemoryService = {
   async createMemory(memoryData: CreateMemoryRequest): Promise<Memory> {
     try {
       return await retryWithBackoff(async () => {
-        const token = localStorage.getItem('accessToken');
-        const response = await axios.post<Memory>(
-          `${API_BASE_URL}/memories`,
-          memoryData,
-          {
-            headers: {
-              Authorization: `Bearer ${token}`,
-              'Content-Type': 'application/json',
-            },
-          }
-        );
+        const response = await apiClient.post<Memory>('/memories', memoryData);
         return response.data;
       });
     } catch (error: any) {
-      // Handle validation errors from server
-      if (error.response?.status === 400) {
-        const message = error.response.data.message || 'Invalid memory data';
-        const validationErrors = error.response.data.errors || {};
-        throw { message, validationErrors, isValidationError: true } as ValidationError;
-      }
-      // Handle authentication errors
-      if (error.response?.status === 401) {
-        throw new Error('Authentication required');
-      }
-      // Handle server errors
-      if (error.response?.status >= 500) {
-        throw new Error('Server error. Please try again later.');
-      }
-      // Handle network errors
-      if (!error.response) {
-        throw new Error('Network error. Please check your connection and try again.');
-      }
-      throw new Error(error.message || 'Failed to create memory');
+      throw toApiError(error, {
+        400: 'Invalid memory data',
+        fallback: 'Failed to create memory',
+      });
     }
   },
 
@@ -217,28 +131,11 @@ const MemoryService = {
   async getAlbums(): Promise<Album[]> {
     try {
       return await retryWithBackoff(async () => {
-        const token = localStorage.getItem('accessToken');
-        const response = await axios.get<Album[]>(`${API_BASE_URL}/albums`, {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        });
+        const response = await dedupedGet<Album[]>('/albums');
         return response.data;
       });
     } catch (error: any) {
-      // Handle authentication errors
-      if (error.response?.status === 401) {
-        throw new Error('Authentication required');
-      }
-      // Handle server errors
-      if (error.response?.status >= 500) {
-        throw new Error('Server error. Please try again later.');
-      }
-      // Handle network errors
-      if (!error.response) {
-        throw new Error('Network error. Please check your connection and try again.');
-      }
-      throw new Error(error.message || 'Failed to fetch albums');
+      throw toApiError(error, { fallback: 'Failed to fetch albums' });
     }
   },
 
@@ -250,32 +147,13 @@ const MemoryService = {
   async searchMembers(query: string): Promise<FamilyMember[]> {
     try {
       return await retryWithBackoff(async () => {
-        const token = localStorage.getItem('accessToken');
-        const response = await axios.get<FamilyMember[]>(
-          `${API_BASE_URL}/family/members/search`,
-          {
-            params: { q: query },
-            headers: {
-              Authorization: `Bearer ${token}`,
-            },
-          }
-        );
+        const response = await dedupedGet<FamilyMember[]>('/family/members/search', {
+          params: { q: query },
+        });
         return response.data;
       });
     } catch (error: any) {
-      // Handle authentication errors
-      if (error.response?.status === 401) {
-        throw new Error('Authentication required');
-      }
-      // Handle server errors
-      if (error.response?.status >= 500) {
-        throw new Error('Server error. Please try again later.');
-      }
-      // Handle network errors
-      if (!error.response) {
-        throw new Error('Network error. Please check your connection and try again.');
-      }
-      throw new Error(error.message || 'Failed to search family members');
+      throw toApiError(error, { fallback: 'Failed to search family members' });
     }
   },
 };
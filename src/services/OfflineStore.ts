@@ -0,0 +1,144 @@
+import { CacheKey, CachedEntry, OutboxEntry } from '../types/redux';
+
+const DB_NAME = 'synora-offline';
+const DB_VERSION = 1;
+const CACHE_STORE = 'cache';
+const OUTBOX_STORE = 'outbox';
+
+type StoreName = typeof CACHE_STORE | typeof OUTBOX_STORE;
+
+// Used instead of IndexedDB where it is unavailable (private browsing, tests)
+const memoryStores: Record<StoreName, Map<string, unknown>> = {
+  [CACHE_STORE]: new Map(),
+  [OUTBOX_STORE]: new Map(),
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const hasIndexedDB = (): boolean => typeof indexedDB !== 'undefined';
+
+/**
+ * Opens the offline database, creating its stores on first use
+ * @returns The open database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(CACHE_STORE);
+        request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Runs one request against an object store
+ * @param storeName - Object store to use
+ * @param mode - Transaction mode
+ * @param operation - Creates the request on the store
+ * @returns Result of the request
+ */
+async function runRequest<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(database.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * OfflineStore keeps family data and edits made offline in IndexedDB
+ * so the tree can be shown, and edited, without a connection
+ */
+const OfflineStore = {
+  /**
+   * Read cached data
+   * @param key - Data to read
+   * @returns The cached data and when it was cached, or null if nothing is cached
+   */
+  async readCache<T>(key: CacheKey): Promise<CachedEntry<T> | null> {
+    if (!hasIndexedDB()) {
+      return (memoryStores[CACHE_STORE].get(key) as CachedEntry<T> | undefined) || null;
+    }
+    const entry = await runRequest<CachedEntry<T> | undefined>(CACHE_STORE, 'readonly', store => store.get(key));
+    return entry || null;
+  },
+
+  /**
+   * Cache data, replacing what was cached before
+   * @param key - Data to cache
+   * @param data - The data
+   * @param cachedAt - When the data was fetched from the server (default: now)
+   */
+  async writeCache<T>(key: CacheKey, data: T, cachedAt: string = new Date().toISOString()): Promise<void> {
+    const entry: CachedEntry<T> = { data, cachedAt };
+    if (!hasIndexedDB()) {
+      memoryStores[CACHE_STORE].set(key, entry);
+      return;
+    }
+    await runRequest(CACHE_STORE, 'readwrite', store => store.put(entry, key));
+  },
+
+  /**
+   * Get the edits waiting to be synced
+   * @returns Queued edits, oldest first
+   */
+  async getOutbox(): Promise<OutboxEntry[]> {
+    const entries = hasIndexedDB()
+      ? await runRequest<OutboxEntry[]>(OUTBOX_STORE, 'readonly', store => store.getAll())
+      : Array.from(memoryStores[OUTBOX_STORE].values()) as OutboxEntry[];
+    return entries.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+  },
+
+  /**
+   * Queue an edit, replacing any queued edit with the same ID
+   * @param entry - The edit
+   */
+  async putOutboxEntry(entry: OutboxEntry): Promise<void> {
+    if (!hasIndexedDB()) {
+      memoryStores[OUTBOX_STORE].set(entry.id, entry);
+      return;
+    }
+    await runRequest(OUTBOX_STORE, 'readwrite', store => store.put(entry));
+  },
+
+  /**
+   * Remove an edit from the queue once it is synced or discarded
+   * @param entryId - ID of the edit
+   */
+  async removeOutboxEntry(entryId: string): Promise<void> {
+    if (!hasIndexedDB()) {
+      memoryStores[OUTBOX_STORE].delete(entryId);
+      return;
+    }
+    await runRequest(OUTBOX_STORE, 'readwrite', store => store.delete(entryId));
+  },
+
+  /**
+   * Remove all cached data and queued edits (e.g. on sign out)
+   */
+  async clear(): Promise<void> {
+    if (!hasIndexedDB()) {
+      memoryStores[CACHE_STORE].clear();
+      memoryStores[OUTBOX_STORE].clear();
+      return;
+    }
+    await runRequest(CACHE_STORE, 'readwrite', store => store.clear());
+    await runRequest(OUTBOX_STORE, 'readwrite', store => store.clear());
+  },
+};
+
+export default OfflineStore;
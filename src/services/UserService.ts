@@ -1,8 +1,6 @@
-import axios from 'axios';
+import apiClient, { toApiError } from './apiClient';
 import { User, UserProfile } from '../types/api';
 
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
-
 // Response interface for photo upload
 interface PhotoUploadResponse {
   photoUrl: string;
@@ -16,26 +14,30 @@ const UserService = {
    * Get user profile by ID
    */
   async getProfile(userId: string): Promise<UserProfile> {
-    const token = localStorage.getItem('accessToken');
-    const response = await axios.get<UserProfile>(`${API_BASE_URL}/users/${userId}`, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
-    });
-    return response.data;
+    try {
+      const response = await apiClient.get<UserProfile>(`/users/${userId}`);
+      return response.data;
+    } catch (error) {
+      throw toApiError(error, {
+        404: 'User not found',
+        fallback: 'Failed to fetch profile',
+      });
+    }
   },
 
   /**
    * Update user profile data
    */
   async updateProfile(data: Partial<UserProfile>): Promise<UserProfile> {
-    const token = localStorage.getItem('accessToken');
-    const response = await axios.put<UserProfile>(`${API_BASE_URL}/users/profile`, data, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
-    });
-    return response.data;
+    try {
+      const response = await apiClient.put<UserProfile>('/users/profile', data);
+      return response.data;
+    } catch (error) {
+      throw toApiError(error, {
+        400: 'Invalid profile data',
+        fallback: 'Failed to update profile',
+      });
+    }
   },
 
   /**
@@ -110,21 +112,25 @@ const UserService = {
    * Images are automatically compressed to max 800x800 pixels
    */
   async uploadPhoto(file: File): Promise<string> {
-    const token = localStorage.getItem('accessToken');
-    
     // Compress image before upload
     const compressedBlob = await this.compressImage(file);
     
     const formData = new FormData();
     formData.append('photo', compressedBlob, file.name);
 
-    const response = await axios.post<PhotoUploadResponse>(`${API_BASE_URL}/users/photo`, formData, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-        'Content-Type': 'multipart/form-data',
-      },
-    });
-    return response.data.photoUrl;
+    try {
+      const response = await apiClient.post<PhotoUploadResponse>('/users/photo', formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+      });
+      return response.data.photoUrl;
+    } catch (error) {
+      throw toApiError(error, {
+        413: 'File size too large. Maximum 10MB per photo.',
+        fallback: 'Failed to upload photo',
+      });
+    }
   },
 };
 
@@ -0,0 +1,342 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import apiClient, { ApiError, dedupedGet, getRequestKey, retryWithBackoff, setAuthFailureHandler, toApiError } from './apiClient';
+import AuthService from './AuthService';
+
+vi.mock('./AuthService', () => ({
+  default: { refreshToken: vi.fn() },
+}));
+
+// Builds the response the adapter settles a request with
+const respond = (config: InternalAxiosRequestConfig, status: number, data: unknown = {}): AxiosResponse => {
+  const response = { data, status, statusText: '', headers: {}, config };
+  if (status >= 400) {
+    throw new AxiosError(`Request failed with status code ${status}`, undefined, config, null, response);
+  }
+  return response;
+};
+
+// Accepts requests carrying the given token and answers 401 to any other
+const acceptToken = (token: string) => vi.fn(async (config: InternalAxiosRequestConfig) =>
+  respond(config, config.headers.Authorization === `Bearer ${token}` ? 200 : 401, { url: config.url })
+);
+
+describe('apiClient', () => {
+  const refreshToken = vi.mocked(AuthService.refreshToken);
+  const onAuthFailure = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.setItem('accessToken', 'old-token');
+    localStorage.setItem('refreshToken', 'refresh-token');
+    setAuthFailureHandler(onAuthFailure);
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    setAuthFailureHandler(null);
+  });
+
+  describe('request interceptor', () => {
+    it('should add the stored access token to every request', async () => {
+      const adapter = acceptToken('old-token');
+      const response = await apiClient.get('/family/members', { adapter });
+
+      expect(response.data).toEqual({ url: '/family/members' });
+      expect(adapter.mock.calls[0][0].headers.Authorization).toBe('Bearer old-token');
+    });
+
+    it('should send requests without a token when signed out', async () => {
+      localStorage.removeItem('accessToken');
+      const adapter = vi.fn(async (config: InternalAxiosRequestConfig) => respond(config, 200));
+      await apiClient.get('/invites/pending', { adapter });
+
+      expect(adapter.mock.calls[0][0].headers.Authorization).toBeUndefined();
+    });
+  });
+
+  describe('token refresh', () => {
+    it('should refresh once for any number of concurrent 401s and replay every request', async () => {
+      await fc.assert(
+        fc.asyncProperty(fc.integer({ min: 1, max: 8 }), async (requestCount) => {
+          vi.clearAllMocks();
+          localStorage.setItem('accessToken', 'old-token');
+          refreshToken.mockResolvedValue('new-token');
+          const adapter = acceptToken('new-token');
+
+          const urls = Array.from({ length: requestCount }, (_, index) => `/albums/${index}`);
+          const responses = await Promise.all(urls.map(url => apiClient.get(url, { adapter })));
+
+          expect(refreshToken).toHaveBeenCalledTimes(1);
+          expect(responses.map(response => response.data.url)).toEqual(urls);
+          expect(localStorage.getItem('accessToken')).toBe('new-token');
+          expect(onAuthFailure).not.toHaveBeenCalled();
+        }),
+        { numRuns: 20 }
+      );
+    });
+
+    it('should replay a request sent with an old token without refreshing again once a refresh has finished', async () => {
+      refreshToken.mockResolvedValue('new-token');
+      const adapter = acceptToken('new-token');
+      await apiClient.get('/albums', { adapter });
+
+      // Sent with the old token before the refresh, answered after it
+      let releaseStale: () => void = () => {};
+      const staleAdapter = vi.fn(async (config: InternalAxiosRequestConfig) => {
+        if (config.headers.Authorization === 'Bearer old-token') {
+          await new Promise<void>(resolve => { releaseStale = resolve; });
+        }
+        return acceptToken('new-token')(config);
+      });
+      localStorage.setItem('accessToken', 'old-token');
+      const stale = apiClient.get('/family/members', { adapter: staleAdapter });
+      await vi.waitFor(() => expect(staleAdapter).toHaveBeenCalledTimes(1));
+      localStorage.setItem('accessToken', 'new-token');
+      releaseStale();
+
+      await expect(stale).resolves.toMatchObject({ data: { url: '/family/members' } });
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+      expect(staleAdapter.mock.calls[1][0].headers.Authorization).toBe('Bearer new-token');
+    });
+
+    it('should not refresh again when a replayed request is rejected', async () => {
+      refreshToken.mockResolvedValue('new-token');
+      const adapter = vi.fn(async (config: InternalAxiosRequestConfig) => respond(config, 401));
+
+      await expect(apiClient.get('/albums', { adapter })).rejects.toMatchObject({ response: { status: 401 } });
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+      expect(adapter).toHaveBeenCalledTimes(2);
+    });
+
+    it('should sign out once and reject every request when the refresh fails', async () => {
+      refreshToken.mockRejectedValue(new Error('Refresh token expired'));
+      const adapter = acceptToken('new-token');
+
+      const results = await Promise.allSettled([
+        apiClient.get('/albums', { adapter }),
+        apiClient.get('/family/members', { adapter }),
+      ]);
+
+      expect(onAuthFailure).toHaveBeenCalledTimes(1);
+      expect(localStorage.getItem('accessToken')).toBeNull();
+      expect(localStorage.getItem('refreshToken')).toBeNull();
+      results.forEach(result => {
+        expect(result.status).toBe('rejected');
+        const reason = (result as PromiseRejectedResult).reason;
+        expect(reason).toBeInstanceOf(ApiError);
+        expect(reason.status).toBe(401);
+        expect(reason.message).toBe('Your session has expired. Please sign in again.');
+      });
+    });
+
+    it('should pass other errors through untouched', async () => {
+      const adapter = vi.fn(async (config: InternalAxiosRequestConfig) => respond(config, 403));
+
+      await expect(apiClient.get('/albums', { adapter })).rejects.toMatchObject({ response: { status: 403 } });
+      expect(refreshToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dedupedGet', () => {
+    // Answers once released, or fails as cancelled when the request is aborted
+    const deferredAdapter = () => {
+      let release: () => void = () => undefined;
+      const released = new Promise<void>(resolve => { release = resolve; });
+      const adapter = vi.fn((config: InternalAxiosRequestConfig) => new Promise<AxiosResponse>((resolve, reject) => {
+        config.signal?.addEventListener?.('abort', () => reject(new axios.CanceledError()));
+        released.then(() => resolve(respond(config, 200, { url: config.url, params: config.params })));
+      }));
+      return { adapter, release: () => release() };
+    };
+
+    afterEach(() => {
+      apiClient.defaults.adapter = undefined;
+    });
+
+    it('should key requests by URL and parameters regardless of parameter order', () => {
+      expect(getRequestKey('/albums', { a: 1, b: 2 })).toBe(getRequestKey('/albums', { b: 2, a: 1 }));
+      expect(getRequestKey('/albums', { a: 1 })).not.toBe(getRequestKey('/albums', { a: 2 }));
+      expect(getRequestKey('/albums')).not.toBe(getRequestKey('/family/members'));
+    });
+
+    it('should send one request for any number of identical requests in flight', async () => {
+      await fc.assert(
+        fc.asyncProperty(fc.integer({ min: 1, max: 8 }), async (callerCount) => {
+          const { adapter, release } = deferredAdapter();
+          apiClient.defaults.adapter = adapter;
+
+          type EchoedRequest = { url: string; params?: Record<string, string> };
+          const requests = Array.from({ length: callerCount }, () => dedupedGet<EchoedRequest>('/family/members'));
+          const other = dedupedGet<EchoedRequest>('/family/members/search', { params: { q: 'Ann' } });
+          release();
+          const responses = await Promise.all([...requests, other]);
+
+          expect(adapter).toHaveBeenCalledTimes(2);
+          responses.slice(0, callerCount).forEach(response => {
+            expect(response.data).toEqual({ url: '/family/members' });
+          });
+          expect(responses[callerCount].data.params).toEqual({ q: 'Ann' });
+        }),
+        { numRuns: 20 }
+      );
+    });
+
+    it('should send a new request once the previous one has settled', async () => {
+      const adapter = vi.fn(async (config: InternalAxiosRequestConfig) => respond(config, 200));
+      apiClient.defaults.adapter = adapter;
+
+      await dedupedGet('/albums');
+      await dedupedGet('/albums');
+
+      expect(adapter).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep a shared request going while any caller still waits for it', async () => {
+      const { adapter, release } = deferredAdapter();
+      apiClient.defaults.adapter = adapter;
+      const controller = new AbortController();
+
+      const aborted = dedupedGet('/family/members', { signal: controller.signal });
+      const waiting = dedupedGet('/family/members');
+      await vi.waitFor(() => expect(adapter).toHaveBeenCalled());
+      controller.abort();
+      release();
+
+      await expect(aborted).rejects.toSatisfy(axios.isCancel);
+      await expect(waiting).resolves.toMatchObject({ data: { url: '/family/members' } });
+      expect(adapter.mock.calls[0][0].signal?.aborted).toBe(false);
+    });
+
+    it('should abort the request once every caller has aborted', async () => {
+      const { adapter } = deferredAdapter();
+      apiClient.defaults.adapter = adapter;
+      const controllers = [new AbortController(), new AbortController()];
+
+      const requests = controllers.map(controller => dedupedGet('/family/relationships', { signal: controller.signal }));
+      await vi.waitFor(() => expect(adapter).toHaveBeenCalled());
+      controllers.forEach(controller => controller.abort());
+
+      const results = await Promise.allSettled(requests);
+      results.forEach(result => {
+        expect(result.status).toBe('rejected');
+        expect(axios.isCancel((result as PromiseRejectedResult).reason)).toBe(true);
+      });
+      expect(adapter.mock.calls[0][0].signal?.aborted).toBe(true);
+    });
+
+    it('should not send a request for an already aborted signal', async () => {
+      const adapter = vi.fn(async (config: InternalAxiosRequestConfig) => respond(config, 200));
+      apiClient.defaults.adapter = adapter;
+
+      await expect(dedupedGet('/albums', { signal: AbortSignal.abort() })).rejects.toSatisfy(axios.isCancel);
+      expect(adapter).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('toApiError', () => {
+    const requestError = (status: number, data: unknown = {}): AxiosError => {
+      try {
+        respond({ headers: {} } as InternalAxiosRequestConfig, status, data);
+      } catch (error) {
+        return error as AxiosError;
+      }
+      throw new Error(`${status} is not an error status`);
+    };
+    const messages = { 404: 'Relative not found', fallback: 'Failed to fetch relative details' };
+
+    it('should use the message for the status, then the standard message, then the fallback', () => {
+      expect(toApiError(requestError(404), messages).message).toBe('Relative not found');
+      expect(toApiError(requestError(401), messages).message).toBe('Authentication required');
+      expect(toApiError(requestError(503), messages).message).toBe('Server error. Please try again later.');
+      expect(toApiError(requestError(403), messages).message).toBe('Failed to fetch relative details');
+    });
+
+    it('should keep the status of any error response', () => {
+      fc.assert(
+        fc.property(fc.integer({ min: 400, max: 599 }), (status) => {
+          const error = toApiError(requestError(status), messages) as ApiError;
+
+          expect(error).toBeInstanceOf(ApiError);
+          expect(error.status).toBe(status);
+          expect(error.isValidationError).toBe(status === 400);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should prefer the server message and keep field errors for validation failures', () => {
+      const error = toApiError(
+        requestError(400, { message: 'First name is required', errors: { firstName: 'Required' } }),
+        { 400: 'Invalid family member data', fallback: 'Failed to add family member' }
+      ) as ApiError;
+
+      expect(error.message).toBe('First name is required');
+      expect(error.validationErrors).toEqual({ firstName: 'Required' });
+      expect(toApiError(requestError(409, { message: 'Already friends' }), { 409: 'Conflict', fallback: '' }, [409]).message)
+        .toBe('Already friends');
+      expect(toApiError(requestError(409, { message: 'Already friends' }), { 409: 'Conflict', fallback: '' }).message)
+        .toBe('Conflict');
+    });
+
+    it('should report requests without a response as network errors', () => {
+      const error = toApiError(new AxiosError('Network Error'), messages) as ApiError;
+
+      expect(error.status).toBeNull();
+      expect(error.message).toBe('Network error. Please check your connection and try again.');
+    });
+
+    it('should return errors that did not come from a request unchanged', () => {
+      const error = new Error('Failed to compress all photos. Please try again.');
+      const apiError = new ApiError('Your session has expired. Please sign in again.', 401);
+
+      expect(toApiError(error, messages)).toBe(error);
+      expect(toApiError(apiError, messages)).toBe(apiError);
+    });
+
+    it('should return cancellations unchanged rather than as network errors', () => {
+      const cancelled = new axios.CanceledError();
+
+      expect(toApiError(cancelled, messages)).toBe(cancelled);
+    });
+  });
+
+  describe('retryWithBackoff', () => {
+    it('should not retry client errors or API errors', async () => {
+      const clientError = vi.fn().mockRejectedValue({ response: { status: 404 } });
+      const sessionExpired = vi.fn().mockRejectedValue(new ApiError('Your session has expired. Please sign in again.', 401));
+
+      await expect(retryWithBackoff(clientError)).rejects.toEqual({ response: { status: 404 } });
+      await expect(retryWithBackoff(sessionExpired)).rejects.toBeInstanceOf(ApiError);
+      expect(clientError).toHaveBeenCalledTimes(1);
+      expect(sessionExpired).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry cancelled requests', async () => {
+      const cancelled = vi.fn().mockRejectedValue(new axios.CanceledError());
+
+      await expect(retryWithBackoff(cancelled)).rejects.toSatisfy(axios.isCancel);
+      expect(cancelled).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop waiting to retry once the signal is aborted', async () => {
+      vi.useFakeTimers();
+      try {
+        const controller = new AbortController();
+        const serverError = vi.fn().mockRejectedValue({ response: { status: 503 } });
+
+        const result = retryWithBackoff(serverError, 3, controller.signal);
+        const settled = expect(result).rejects.toSatisfy(axios.isCancel);
+        await vi.advanceTimersByTimeAsync(500);
+        controller.abort();
+        await settled;
+
+        await vi.advanceTimersByTimeAsync(10000);
+        expect(serverError).toHaveBeenCalledTimes(1);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+});
@@ -0,0 +1,305 @@
+import axios, { AxiosError, AxiosResponse, CanceledError, InternalAxiosRequestConfig } from 'axios';
+import AuthService from './AuthService';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
+
+const SESSION_EXPIRED_MESSAGE = 'Your session has expired. Please sign in again.';
+
+/**
+ * Error thrown by services for failed API requests
+ * status is null when the request never got a response
+ */
+export class ApiError extends Error {
+  status: number | null;
+  data: unknown;
+  validationErrors: Record<string, string>;
+  isValidationError: boolean;
+
+  constructor(message: string, status: number | null, data: unknown = null, validationErrors: Record<string, string> = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+    this.validationErrors = validationErrors;
+    this.isValidationError = status === 400;
+  }
+}
+
+/**
+ * Whether a request failed without reaching the server (e.g. while offline)
+ * @param error - Error thrown by a service
+ * @returns True for network errors
+ */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof ApiError && error.status === null;
+}
+
+// Messages for a request's error statuses, and the message for any other failure
+export interface ApiErrorMessages {
+  fallback: string;
+  [status: number]: string;
+}
+
+// Request config flagged once it has been replayed with a refreshed token
+interface ReplayableRequestConfig extends InternalAxiosRequestConfig {
+  _isReplay?: boolean;
+}
+
+// Options for a GET request shared between callers
+export interface DedupedRequestConfig {
+  params?: Record<string, unknown>;
+  // Aborts this caller's interest in the request; the request itself is aborted once no caller is left
+  signal?: AbortSignal;
+}
+
+// GET request in flight and how many callers are still waiting for it
+interface InFlightRequest {
+  promise: Promise<AxiosResponse>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+/**
+ * Shared HTTP client for authenticated API calls
+ * Adds the access token to every request, refreshes it once on a 401 and replays the request
+ */
+const apiClient = axios.create({
+  baseURL: API_BASE_URL,
+});
+
+// Refresh in flight; requests failing or starting meanwhile wait for it instead of refreshing again
+let refreshPromise: Promise<string> | null = null;
+let authFailureHandler: (() => void) | null = null;
+
+/**
+ * Registers what to do when the session cannot be refreshed (e.g. sign the user out)
+ * @param handler - Called once per failed refresh, or null to remove it
+ */
+export function setAuthFailureHandler(handler: (() => void) | null): void {
+  authFailureHandler = handler;
+}
+
+/**
+ * Refreshes the access token, sharing one refresh between concurrent callers
+ * On failure the tokens are dropped and the auth failure handler is called
+ * @returns The new access token
+ */
+function refreshAccessToken(): Promise<string> {
+  if (!refreshPromise) {
+    refreshPromise = AuthService.refreshToken()
+      .then(accessToken => {
+        localStorage.setItem('accessToken', accessToken);
+        return accessToken;
+      })
+      .catch(error => {
+        localStorage.removeItem('accessToken');
+        localStorage.removeItem('refreshToken');
+        authFailureHandler?.();
+        throw error;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+}
+
+apiClient.interceptors.request.use(async (config) => {
+  // Hold new requests until a refresh in flight settles so they go out with the new token
+  if (refreshPromise) {
+    await refreshPromise.catch(() => null);
+  }
+
+  const token = localStorage.getItem('accessToken');
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+apiClient.interceptors.response.use(
+  (response) => response,
+  async (error: AxiosError) => {
+    const config = error.config as ReplayableRequestConfig | undefined;
+    if (error.response?.status !== 401 || !config || config._isReplay) {
+      throw error;
+    }
+
+    // A request sent with an older token than the stored one was answered after another
+    // request refreshed it; it is replayed with the new token, as refreshing again with a
+    // rotated refresh token would fail and sign the user out
+    const storedToken = localStorage.getItem('accessToken');
+    let accessToken: string;
+    if (storedToken && config.headers.Authorization !== `Bearer ${storedToken}`) {
+      accessToken = storedToken;
+    } else {
+      try {
+        accessToken = await refreshAccessToken();
+      } catch {
+        throw new ApiError(SESSION_EXPIRED_MESSAGE, 401);
+      }
+    }
+
+    config._isReplay = true;
+    config.headers.Authorization = `Bearer ${accessToken}`;
+    return apiClient(config);
+  }
+);
+
+const inFlightRequests = new Map<string, InFlightRequest>();
+
+/**
+ * Builds the key identifying a GET request, independent of parameter order
+ * @param url - Request URL
+ * @param params - Query parameters
+ * @returns Key of the request
+ */
+export function getRequestKey(url: string, params: Record<string, unknown> = {}): string {
+  const sortedParams = Object.keys(params).sort().map(key => [key, params[key]]);
+  return `${url}?${JSON.stringify(sortedParams)}`;
+}
+
+/**
+ * Sends a GET request, sharing it with callers already waiting for the same URL and parameters
+ * A caller aborting only stops waiting; the request is aborted when every caller has
+ * @param url - Request URL
+ * @param config - Query parameters and the caller's abort signal
+ * @returns The response
+ */
+export function dedupedGet<T>(url: string, config: DedupedRequestConfig = {}): Promise<AxiosResponse<T>> {
+  const { params, signal } = config;
+  if (signal?.aborted) {
+    return Promise.reject(new CanceledError());
+  }
+
+  const key = getRequestKey(url, params);
+  let request = inFlightRequests.get(key);
+  if (!request) {
+    const controller = new AbortController();
+    const inFlight: InFlightRequest = {
+      promise: apiClient.get(url, { params, signal: controller.signal }).finally(() => {
+        if (inFlightRequests.get(key) === inFlight) {
+          inFlightRequests.delete(key);
+        }
+      }),
+      controller,
+      subscribers: 0,
+    };
+    inFlightRequests.set(key, inFlight);
+    request = inFlight;
+  }
+
+  const shared = request;
+  shared.subscribers++;
+  if (!signal) {
+    return shared.promise as Promise<AxiosResponse<T>>;
+  }
+
+  return new Promise<AxiosResponse<T>>((resolve, reject) => {
+    const onAbort = () => {
+      shared.subscribers--;
+      if (shared.subscribers === 0) {
+        inFlightRequests.delete(key);
+        shared.controller.abort();
+      }
+      reject(new CanceledError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    shared.promise.then(
+      response => resolve(response as AxiosResponse<T>),
+      reject
+    ).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Waits before the next retry, giving up as soon as the request is aborted
+ * @param delay - Time to wait in milliseconds
+ * @param signal - Abort signal of the request
+ */
+function waitForRetry(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CanceledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Retry a failed request with exponential backoff
+ * @param fn - Function to retry
+ * @param maxRetries - Maximum number of retries (default: 3)
+ * @param signal - Abort signal of the request; no retry is made once it is aborted
+ * @returns Result of the function
+ */
+export const retryWithBackoff = async <T>(fn: () => Promise<T>, maxRetries = 3, signal?: AbortSignal): Promise<T> => {
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      lastError = error;
+
+      // Only retry on network errors or 5xx server errors, and never a cancelled request
+      const status = (error as AxiosError).response?.status;
+      const shouldRetry =
+        !(error instanceof ApiError) &&
+        !axios.isCancel(error) &&
+        !signal?.aborted &&
+        (status === undefined || (status >= 500 && status < 600));
+
+      if (!shouldRetry || attempt === maxRetries - 1) {
+        throw error;
+      }
+
+      // Exponential backoff: 1s, 2s, 4s
+      const delay = Math.pow(2, attempt) * 1000;
+      await waitForRetry(delay, signal);
+    }
+  }
+
+  throw lastError;
+};
+
+/**
+ * Maps a failed request to an ApiError
+ * Errors that did not come from a request, cancellations and ApiErrors are returned unchanged
+ * @param error - Error thrown by the request
+ * @param messages - Messages for the request's error statuses and a fallback
+ * @param serverMessageStatuses - Statuses for which the server's own message is preferred
+ * @returns Error to throw
+ */
+export function toApiError(error: unknown, messages: ApiErrorMessages, serverMessageStatuses: number[] = [400]): Error {
+  if (error instanceof ApiError || axios.isCancel(error) || !axios.isAxiosError(error)) {
+    return error instanceof Error ? error : new Error(messages.fallback);
+  }
+
+  if (!error.response) {
+    return new ApiError('Network error. Please check your connection and try again.', null);
+  }
+
+  const { status, data } = error.response;
+  const serverMessage = serverMessageStatuses.includes(status) ? data?.message : undefined;
+  let message = serverMessage || messages[status];
+  if (!message) {
+    if (status === 401) {
+      message = 'Authentication required';
+    } else if (status >= 500) {
+      message = 'Server error. Please try again later.';
+    } else {
+      message = messages.fallback;
+    }
+  }
+
+  return new ApiError(message, status, data, status === 400 ? data?.errors || {} : {});
+}
+
+export default apiClient;
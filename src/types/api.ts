@@ -104,6 +104,7 @@ export interface AddFamilyMemberRequest {
   relatedTo?: string;
   relationshipType?: 'parent' | 'child' | 'spouse' | 'sibling' | 'grandparent' | 'grandchild' | 'aunt-uncle' | 'niece-nephew' | 'cousin' | 'other';
   specificLabel?: string;
+  lineage?: Lineage;
 }
 
 export interface UpdateFamilyMemberRequest {
@@ -121,6 +122,68 @@ export interface UpdateFamilyMemberRequest {
   isDeceased?: boolean;
 }
 
+// Bulk import request/response interfaces (GEDCOM import)
+export interface ImportFamilyMemberData extends Omit<AddFamilyMemberRequest, 'relatedTo' | 'relationshipType' | 'specificLabel' | 'lineage'> {
+  importId: string;
+}
+
+export interface ImportRelationshipData extends Pick<Relationship, 'lineage' | 'partnershipStatus' | 'startDate' | 'endDate'> {
+  fromUserId: string;
+  toUserId: string;
+  relationshipType: Relationship['relationshipType'];
+  specificLabel?: string;
+}
+
+export interface ImportFamilyTreeRequest {
+  // Relationship endpoints reference either an importId or an existing member ID
+  members: ImportFamilyMemberData[];
+  relationships: ImportRelationshipData[];
+}
+
+export interface ImportFamilyTreeResponse {
+  members: FamilyMember[];
+  relationships: Relationship[];
+}
+
+// Member delete/merge interfaces
+export interface DeleteFamilyMemberResponse {
+  // Relationships removed along with the member
+  removedRelationshipIds: string[];
+}
+
+export interface MergeFamilyMembersRequest {
+  keepMemberId: string;
+  // Deleted once its relationships have moved to keepMemberId
+  mergeMemberId: string;
+  // Details of the merged member, saved on keepMemberId
+  memberData: UpdateFamilyMemberRequest;
+}
+
+export interface MergeFamilyMembersResponse {
+  member: FamilyMember;
+  // Relationships moved from mergeMemberId to keepMemberId
+  relationships: Relationship[];
+  // Links between the two members, and links keepMemberId already had
+  removedRelationshipIds: string[];
+}
+
+// Relationship request interfaces
+export interface AddRelationshipRequest extends Pick<Relationship, 'specificLabel' | 'lineage' | 'partnershipStatus' | 'startDate' | 'endDate'> {
+  fromUserId: string;
+  toUserId: string;
+  relationshipType: Relationship['relationshipType'];
+}
+
+export interface UpdateRelationshipRequest {
+  // Both ends are sent together; swapping them fixes a link saved the wrong way round
+  fromUserId?: string;
+  toUserId?: string;
+  relationshipType?: Relationship['relationshipType'];
+  // null clears the label or lineage
+  specificLabel?: string | null;
+  lineage?: Lineage | null;
+}
+
 // Memory/Photo request interfaces
 export interface CreateMemoryRequest {
   albumId?: string;
@@ -143,19 +206,43 @@ export interface CreateAlbumRequest {
 export interface CreateEventRequest {
   title: string;
   description?: string;
+  category?: EventCategory;
   eventDate: string;
+  isAllDay?: boolean;
   location?: string;
+  recurrence?: string | null;
   attendees?: string[];
 }
 
+export interface ImportEventsRequest {
+  // Events read from an iCalendar file, created together
+  events: CreateEventRequest[];
+}
+
 export interface UpdateEventRequest {
   title?: string;
   description?: string;
+  category?: EventCategory;
   eventDate?: string;
+  isAllDay?: boolean;
   location?: string;
+  recurrence?: string | null; // null stops the event repeating
   attendees?: string[];
 }
 
+// Calendar apps poll the feed URL; it carries a secret token in place of the sign-in
+export interface CalendarFeedResponse {
+  url: string;
+}
+
+export interface RsvpEventRequest {
+  // Invited family member the reply is for
+  memberId: string;
+  response: RsvpResponse;
+  guestCount?: number;
+  dietaryNotes?: string;
+}
+
 // Dashboard data response interface
 export interface DashboardData {
   user: User;
@@ -298,6 +385,12 @@ export interface FamilyMember {
   updatedAt: string;
 }
 
+// Status of a partnership (spouse relationship)
+export type PartnershipStatus = 'married' | 'divorced' | 'widowed' | 'partner';
+
+// How a parent and child are related (parent/child relationships)
+export type Lineage = 'biological' | 'adoptive' | 'step' | 'foster' | 'guardian';
+
 // Relationship interface
 export interface Relationship {
   id: string;
@@ -305,6 +398,12 @@ export interface Relationship {
   toUserId: string;
   relationshipType: 'parent' | 'child' | 'spouse' | 'sibling' | 'grandparent' | 'grandchild' | 'aunt-uncle' | 'niece-nephew' | 'cousin' | 'other';
   specificLabel?: string;
+  // Lineage qualifier (parent/child relationships only); biological when absent
+  lineage?: Lineage;
+  // Partnership details (spouse relationships only)
+  partnershipStatus?: PartnershipStatus;
+  startDate?: string;
+  endDate?: string;
   createdAt: string;
 }
 
@@ -335,6 +434,42 @@ export interface Album {
   updatedAt: string;
 }
 
+// Kind of gathering an event is
+export type EventCategory = 'celebration' | 'reunion' | 'dinner' | 'trip' | 'memorial';
+
+// Reply to an event invitation
+export type RsvpResponse = 'going' | 'maybe' | 'declined';
+
+// One invited family member's reply; members without one have not replied yet
+export interface EventRsvp {
+  memberId: string;
+  response: RsvpResponse;
+  guestCount: number; // Plus-ones coming along with the member
+  dietaryNotes?: string;
+  respondedAt: string;
+}
+
+// Family event interface
+export interface FamilyEvent {
+  id: string;
+  title: string;
+  description?: string;
+  category: EventCategory;
+  eventDate: string; // ISO date-time; local midnight for all-day events
+  isAllDay: boolean;
+  location?: string;
+  recurrence?: string | null; // RRULE, e.g. "FREQ=YEARLY"; eventDate is the first occurrence
+  attendees: string[]; // IDs of the invited family members
+  rsvps: EventRsvp[];
+  myRsvp: RsvpResponse | null; // The signed-in user's reply, null until they reply
+  isCancelled: boolean;
+  createdBy: string;
+  hostName: string;
+  hostPhotoUrl?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
 // Recent Update interface
 export interface RecentUpdate {
   id: string;
@@ -63,6 +63,8 @@ export interface ToggleProps extends BaseComponentProps {
 
 // Date input component props
 export interface DateInputProps extends BaseComponentProps {
+  // 'exact' takes DD / MM / YYYY; 'genealogical' takes partial, qualified and Julian dates
+  mode?: 'exact' | 'genealogical';
   value?: string;
   onChange?: (value: string) => void;
   placeholder?: string;
@@ -124,12 +126,61 @@ export interface TreeCanvasProps extends BaseComponentProps {
   rootCardRef?: React.RefObject<HTMLDivElement>;
 }
 
+// Pedigree (ancestor) chart props
+export interface PedigreeChartProps extends BaseComponentProps {
+  members: FamilyMember[];
+  relationships: Relationship[];
+  // Member whose ancestors are shown
+  rootMemberId: string;
+  // Generations of ancestors shown before branches have to be expanded
+  generations: number;
+  selectedMemberId?: string | null;
+  // Member IDs to highlight (search results or a traced path); the rest are dimmed
+  highlightedIds?: string[];
+  pendingMemberIds?: string[];
+  issueSeverities?: Record<string, DataQualitySeverity>;
+  onMemberClick?: (memberId: string) => void;
+}
+
+// Props shared by charts drawn from one member's tree node (see buildTreeStructure)
+export interface NodeChartProps extends BaseComponentProps {
+  // Tree node of the member the chart starts from
+  rootNode: TreeNodeData;
+  // Generations shown before branches have to be expanded
+  generations: number;
+  selectedMemberId?: string | null;
+  // Member IDs to highlight (search results or a traced path); the rest are dimmed
+  highlightedIds?: string[];
+  onMemberClick?: (memberId: string) => void;
+}
+
+// Descendant chart props
+export type DescendantChartProps = NodeChartProps;
+
+// Fan (radial ancestor) chart props
+export type FanChartProps = NodeChartProps;
+
+// Partnership of a tree node with one of its spouses
+export interface PartnershipData {
+  partner: TreeNodeData;
+  relationshipId: string;
+  status?: PartnershipStatus;
+  startDate?: string;
+  endDate?: string;
+  // Children the node has with this partner
+  children: TreeNodeData[];
+}
+
 // Tree node data structure interface
 export interface TreeNodeData {
   member: FamilyMember;
   parents: TreeNodeData[];
   children: TreeNodeData[];
+  // Current partner, if any; every partnership (including past ones) is in partnerships
   spouse: TreeNodeData | null;
+  partnerships?: PartnershipData[];
+  // Lineage to each parent, keyed by parent member ID; biological when absent
+  parentLineage?: Record<string, Lineage>;
   siblings?: TreeNodeData[];
   level?: number;
   position?: { x: number; y: number };
@@ -150,9 +201,18 @@ export interface TreeNodeProps extends BaseComponentProps {
   maxDepth?: number;
   zoomLevel?: number;
   searchResults?: string[];
+  // Member IDs along the traced relationship path; takes over highlighting from search while set
+  tracedPath?: string[];
+  // Member IDs with a save in flight, shown as pending
+  pendingMemberIds?: string[];
+  // Most severe data quality issue of each member with one, keyed by member ID
+  issueSeverities?: Record<string, DataQualitySeverity>;
   rootCardRef?: React.RefObject<HTMLDivElement>;
 }
 
+// How serious a data quality issue is: errors cannot be right, warnings are unlikely
+export type DataQualitySeverity = 'error' | 'warning';
+
 // Member card component props (updated)
 export interface MemberCardProps extends BaseComponentProps {
   member: FamilyMember;
@@ -161,6 +221,10 @@ export interface MemberCardProps extends BaseComponentProps {
   isSelected?: boolean;
   isHighlighted?: boolean;
   isDimmed?: boolean;
+  // Shown faded while the member's save is in flight
+  isPending?: boolean;
+  // Shown as a badge when the member has a data quality issue
+  issueSeverity?: DataQualitySeverity;
   onClick?: (memberId: string) => void;
 }
 
@@ -171,6 +235,11 @@ export interface AddRelativeModalProps extends BaseComponentProps {
   onSubmit?: (data: AddRelativeSubmissionData) => void;
   relationshipType?: 'parent' | 'spouse' | 'child' | 'sibling' | null;
   relatedToMember?: FamilyMember | null;
+  // Members and relationships checked for duplicates of the person being entered
+  members?: Pick<FamilyMember, 'id' | 'firstName' | 'lastName' | 'dateOfBirth' | 'gender'>[];
+  relationships?: Relationship[];
+  // Links an existing member instead of creating a new one
+  onLinkExisting?: (memberId: string, data: AddRelativeLinkData) => void;
 }
 
 // Add relative submission data interface
@@ -180,15 +249,77 @@ export interface AddRelativeSubmissionData {
   dateOfBirth: string | null;
   status: 'living' | 'deceased';
   specificLabel: string | null;
+  // Only set when adding a parent or child
+  lineage: Lineage | null;
   photoUrl: string | null;
 }
 
+// How an existing member is linked from the add relative modal
+export interface AddRelativeLinkData {
+  relationshipType: 'parent' | 'spouse' | 'child' | 'sibling';
+  specificLabel: string | null;
+  // Only set when linking a parent or child
+  lineage: Lineage | null;
+}
+
 // Create event modal props
 export interface CreateEventModalProps extends BaseComponentProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+// Event card props
+export interface EventCardProps extends BaseComponentProps {
+  event: FamilyEvent;
+  // Invited family members found in the tree
+  guests: EventGuest[];
+  // Whether the signed-in user hosts the event
+  isHost: boolean;
+  // Shown as an invitation still waiting for the user's reply
+  isInvitation?: boolean;
+  // The signed-in user's reply, to change it
+  myReply?: EventRsvp | null;
+  onRsvp: (eventId: string, reply: EventReply) => void;
+  onCancelEvent?: (eventId: string) => void;
+  // Downloads the event as an .ics file; the button is hidden without it
+  onAddToCalendar?: (eventId: string) => void;
+}
+
+// RSVP form props
+export interface RsvpFormProps extends BaseComponentProps {
+  // Reply the form starts from
+  initialReply: EventReply;
+  onSubmit: (reply: EventReply) => void;
+  onCancel: () => void;
+}
+
+// Family occasion list props
+export interface FamilyOccasionListProps extends BaseComponentProps {
+  occasions: FamilyOccasion[];
+}
+
+// Event calendar props
+export interface EventCalendarProps extends BaseComponentProps {
+  view: CalendarView;
+  // Local midnight of the day with keyboard focus; the calendar shows its month or week
+  focusedDay: number;
+  // Local midnight today
+  today: number;
+  // Occurrences within the days shown
+  entries: CalendarEntry[];
+  onFocusedDayChange: (day: number) => void;
+  // Whether the user may drag an event to another day
+  canReschedule: (event: FamilyEvent) => boolean;
+  // Called with the event's new first date when it is dropped on another day
+  onReschedule: (eventId: string, eventDate: string) => void;
+}
+
+// Event guest list props
+export interface EventGuestListProps extends BaseComponentProps {
+  event: FamilyEvent;
+  guests: EventGuest[];
+}
+
 // Invite external guests modal props
 export interface InviteExternalGuestsModalProps extends BaseComponentProps {
   isOpen: boolean;
@@ -216,6 +347,12 @@ export interface FamilyMember {
   updatedAt: string;
 }
 
+// Status of a partnership (spouse relationship)
+export type PartnershipStatus = 'married' | 'divorced' | 'widowed' | 'partner';
+
+// How a parent and child are related (parent/child relationships)
+export type Lineage = 'biological' | 'adoptive' | 'step' | 'foster' | 'guardian';
+
 // Relationship interface
 export interface Relationship {
   id: string;
@@ -223,6 +360,12 @@ export interface Relationship {
   toUserId: string;
   relationshipType: 'parent' | 'child' | 'spouse' | 'sibling' | 'grandparent' | 'grandchild' | 'aunt-uncle' | 'niece-nephew' | 'cousin' | 'other';
   specificLabel?: string;
+  // Lineage qualifier (parent/child relationships only); biological when absent
+  lineage?: Lineage;
+  // Partnership details (spouse relationships only)
+  partnershipStatus?: PartnershipStatus;
+  startDate?: string;
+  endDate?: string;
   createdAt: string;
 }
 
@@ -260,14 +403,78 @@ export interface Album {
 }
 
 // Event interfaces
+export type EventCategory = 'celebration' | 'reunion' | 'dinner' | 'trip' | 'memorial';
+
+export type RsvpResponse = 'going' | 'maybe' | 'declined';
+
+export interface EventRsvp {
+  memberId: string;
+  response: RsvpResponse;
+  guestCount: number;
+  dietaryNotes?: string;
+  respondedAt: string;
+}
+
+// Reply a family member gives to an event invitation
+export type EventReply = Pick<EventRsvp, 'response' | 'guestCount' | 'dietaryNotes'>;
+
+export type OccasionKind = 'birthday' | 'anniversary' | 'memorial';
+
+// Birthday, wedding anniversary or memorial date worked out from the family tree
+export interface FamilyOccasion {
+  // Stable across years, e.g. "birthday-member-1"
+  id: string;
+  kind: OccasionKind;
+  // e.g. "Elena Rivera's Birthday", "Remembering Antonio Rivera"
+  title: string;
+  // e.g. "Turning 54", "25th anniversary", "Would have turned 90"
+  detail: string;
+  memberIds: string[];
+  // ISO date-time of the next occurrence, at local midnight; occasions last all day
+  eventDate: string;
+  isAllDay: true;
+  // Age turned, or years since the wedding, birth or death remembered
+  years: number;
+  // Yearly RRULE the occasion repeats by
+  recurrence: string;
+}
+
+// Calendar layouts of the events page
+export type CalendarView = 'month' | 'week' | 'list';
+
+// One occurrence of an event or family occasion on the events calendar
+export interface CalendarEntry {
+  // Unique per occurrence, e.g. "event-party-1763852400000"
+  key: string;
+  title: string;
+  // Milliseconds since the epoch the occurrence starts
+  start: number;
+  isAllDay: boolean;
+  // Category of the event; occasions take the color of the category closest to their kind
+  category: EventCategory;
+  event?: FamilyEvent;
+  occasion?: FamilyOccasion;
+}
+
+// Invited family member as shown with an event
+export type EventGuest = Pick<FamilyMember, 'id' | 'firstName' | 'lastName'> & { photoUrl?: string | null };
+
 export interface FamilyEvent {
   id: string;
   title: string;
   description?: string;
+  category: EventCategory;
   eventDate: string;
+  isAllDay: boolean;
   location?: string;
-  createdBy: string;
+  recurrence?: string | null;
   attendees: string[];
+  rsvps: EventRsvp[];
+  myRsvp: RsvpResponse | null;
+  isCancelled: boolean;
+  createdBy: string;
+  hostName: string;
+  hostPhotoUrl?: string | null;
   createdAt: string;
   updatedAt: string;
 }
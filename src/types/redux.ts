@@ -1,4 +1,5 @@
-import { User, UserProfile, FamilyMember, Relationship, Memory, Album, DashboardData, RecentUpdate, OnlineUser } from './api';
+import { EntityState } from '@reduxjs/toolkit';
+import { User, UserProfile, FamilyMember, Relationship, Memory, Album, FamilyEvent, DashboardData, RecentUpdate, OnlineUser, ImportFamilyTreeRequest, MergeFamilyMembersRequest, AddRelationshipRequest, UpdateRelationshipRequest, CreateEventRequest, ImportEventsRequest, UpdateEventRequest, RsvpEventRequest } from './api';
 
 // Auth state interface
 export interface AuthState {
@@ -15,12 +16,20 @@ export interface UserState {
   error: string | null;
 }
 
+// Change to a member shown before the server has saved it
+export interface PendingMemberChange {
+  requestId: string; // Latest request saving the member
+  previous: FamilyMember | null; // Member to restore if the save fails, null for a member being added
+}
+
 // Family state interface
 export interface FamilyState {
-  familyMembers: FamilyMember[];
-  relationships: Relationship[];
+  familyMembers: EntityState<FamilyMember, string>;
+  relationships: EntityState<Relationship, string>;
   isLoading: boolean;
   error: string | null;
+  pendingChanges: Record<string, PendingMemberChange>; // Keyed by member ID
+  rollbackError: string | null; // Why the last optimistic change was undone
 }
 
 // Memory state interface
@@ -32,6 +41,19 @@ export interface MemoryState {
   error: string | null;
 }
 
+// Events state interface
+// How the events page shows events: as cards, or on a month grid, week agenda or list calendar
+export type EventsView = 'cards' | 'month' | 'week' | 'list';
+
+export interface EventsState {
+  events: EntityState<FamilyEvent, string>;
+  isLoading: boolean;
+  isSaving: boolean; // An event is being created, updated or cancelled
+  error: string | null;
+  view: EventsView;
+  calendarFeedUrl: string | null; // The user's subscription feed, null until it has been fetched
+}
+
 // Dashboard state interface
 export interface DashboardState {
   dashboardData: DashboardData | null;
@@ -54,6 +76,10 @@ export interface DashboardState {
 }
 
 // Tree state interface
+// Chart the family tree page shows: the whole family, or the ancestors (pedigree and fan)
+// or descendants of one member
+export type TreeChartView = 'tree' | 'pedigree' | 'descendants' | 'fan';
+
 export interface TreeState {
   selectedMemberId: string | null;
   searchQuery: string;
@@ -61,6 +87,59 @@ export interface TreeState {
   zoomLevel: number; // 10-200%
   panOffset: { x: number; y: number };
   showFirstTimeTooltip: boolean;
+  tracedPath: string[]; // Member IDs from start to target of the traced relationship path
+  tracedPathStep: number | null; // Index of the member stepped to, null when the whole path is shown
+  chartView: TreeChartView;
+  chartGenerations: number; // Generations charts show above or below the member they start from
+}
+
+// Data kept in the offline cache
+export type CacheKey = 'familyMembers' | 'relationships' | 'albums' | 'profile';
+
+// Cached data and when it was last fetched from the server
+export interface CachedEntry<T> {
+  data: T;
+  cachedAt: string;
+}
+
+interface OutboxEntryBase {
+  id: string;
+  // Member the edit applies to; a temporary ID for members added offline
+  memberId: string;
+  queuedAt: string;
+}
+
+export interface QueuedAddFamilyMember extends OutboxEntryBase {
+  type: 'addFamilyMember';
+  payload: AddFamilyMemberPayload;
+}
+
+export interface QueuedUpdateFamilyMember extends OutboxEntryBase {
+  type: 'updateFamilyMember';
+  payload: UpdateFamilyMemberPayload['memberData'];
+  // updatedAt of the member when it was edited, to detect changes made on the server meanwhile
+  baseUpdatedAt: string | null;
+}
+
+// Edit made offline, waiting to be replayed on reconnect
+export type OutboxEntry = QueuedAddFamilyMember | QueuedUpdateFamilyMember;
+
+// Queued edit that could not be replayed as is
+export interface SyncConflict {
+  entryId: string;
+  // Member as it is on the server, null when the server rejected the edit
+  serverMember: FamilyMember | null;
+  message: string;
+}
+
+// Sync state interface
+export interface SyncState {
+  isOnline: boolean;
+  isSyncing: boolean;
+  staleKeys: Partial<Record<CacheKey, string>>; // When each piece of data shown from the cache was cached
+  lastSyncedAt: string | null;
+  outbox: OutboxEntry[];
+  conflicts: SyncConflict[];
 }
 
 // Root state interface combining all slices
@@ -69,8 +148,10 @@ export interface RootState {
   user: UserState;
   family: FamilyState;
   memory: MemoryState;
+  events: EventsState;
   dashboard: DashboardState;
   tree: TreeState;
+  sync: SyncState;
 }
 
 // Redux action payload types
@@ -113,6 +194,7 @@ export interface AddFamilyMemberPayload {
   relatedTo?: string;
   relationshipType?: 'parent' | 'child' | 'spouse' | 'sibling' | 'grandparent' | 'grandchild' | 'aunt-uncle' | 'niece-nephew' | 'cousin' | 'other';
   specificLabel?: string;
+  lineage?: Relationship['lineage'];
 }
 
 export interface UpdateFamilyMemberPayload {
@@ -133,6 +215,26 @@ export interface UpdateFamilyMemberPayload {
   };
 }
 
+// Bulk import payload (GEDCOM import) - same shape as the API request
+export type ImportFamilyTreePayload = ImportFamilyTreeRequest;
+
+// Member merge payload - same shape as the API request
+export type MergeFamilyMembersPayload = MergeFamilyMembersRequest;
+
+// Relationship payload - same shape as the API request
+export type AddRelationshipPayload = AddRelationshipRequest;
+
+export interface UpdateRelationshipPayload {
+  relationshipId: string;
+  relationshipData: UpdateRelationshipRequest;
+}
+
+export interface DeleteFamilyMemberResult {
+  memberId: string;
+  // Relationships removed along with the member
+  removedRelationshipIds: string[];
+}
+
 export interface UploadPhotosPayload {
   files: File[];
   memoryData: {
@@ -154,6 +256,21 @@ export interface CreateMemoryPayload {
   taggedPeople?: string[];
 }
 
+// Event payload - same shape as the API request
+export type CreateEventPayload = CreateEventRequest;
+
+export type ImportEventsPayload = ImportEventsRequest;
+
+export interface UpdateEventPayload {
+  eventId: string;
+  eventData: UpdateEventRequest;
+}
+
+export interface RsvpEventPayload {
+  eventId: string;
+  rsvpData: RsvpEventRequest;
+}
+
 export interface PerformSearchPayload {
   query: string;
   members: FamilyMember[];
@@ -169,6 +286,38 @@ export interface PanPayload {
   deltaY: number;
 }
 
+// Cached data for slices that are still empty, and the queued offline edits
+export interface OfflineData {
+  familyMembers: CachedEntry<FamilyMember[]> | null;
+  relationships: CachedEntry<Relationship[]> | null;
+  albums: CachedEntry<Album[]> | null;
+  profile: CachedEntry<UserProfile> | null;
+  outbox: OutboxEntry[];
+}
+
+// Member after a queued edit was replayed or resolved; null when it no longer exists
+export interface SyncedMember {
+  entryId: string;
+  // ID of the member in state before the edit was replayed
+  memberId: string;
+  member: FamilyMember | null;
+}
+
+export interface SyncOutboxResult {
+  synced: SyncedMember[];
+  conflicts: SyncConflict[];
+  // Entries still queued, with temporary IDs replaced by those of synced members
+  outbox: OutboxEntry[];
+  // Relationships refetched after members added offline were linked on the server
+  relationships: Relationship[] | null;
+}
+
+export interface ResolveConflictPayload {
+  entryId: string;
+  // 'mine' replays the queued edit over the server's version, 'theirs' discards it
+  resolution: 'mine' | 'theirs';
+}
+
 // Async thunk return types
 export interface AsyncThunkConfig {
   state: RootState;
@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { checkDataQuality, getMemberIssueSeverities, DataQualityMember } from './dataQuality';
+import { Relationship } from '../types/components';
+
+const member = (id: string, extra: Partial<DataQualityMember> = {}): DataQualityMember => ({
+  id,
+  firstName: id.charAt(0).toUpperCase() + id.slice(1),
+  lastName: 'Evans',
+  ...extra
+});
+
+const relationship = (
+  fromUserId: string,
+  toUserId: string,
+  relationshipType: Relationship['relationshipType'],
+  extra: Partial<Relationship> = {}
+): Relationship => ({
+  id: `${fromUserId}-${relationshipType}-${toUserId}`, fromUserId, toUserId, relationshipType, createdAt: '2024-01-01T00:00:00.000Z', ...extra
+});
+
+// Fixed so living members are always aged to the same day
+const NOW = Date.UTC(2024, 5, 1);
+
+describe('dataQuality', () => {
+  describe('checkDataQuality', () => {
+    it('should find no issues in a consistent tree', () => {
+      const members = [
+        member('arthur', { dateOfBirth: '1900-01-01', dateOfDeath: '1970-05-01', gender: 'male' }),
+        member('rose', { dateOfBirth: '1930-04-02', gender: 'female' }),
+        member('tom', { dateOfBirth: '1928-06-01', gender: 'male' }),
+      ];
+      const relationships = [
+        relationship('arthur', 'rose', 'parent'),
+        relationship('rose', 'tom', 'spouse', { startDate: '1950-06-10' }),
+      ];
+
+      expect(checkDataQuality(members, relationships, NOW)).toEqual([]);
+    });
+
+    it('should flag a child born before their parent and a parent who died long before the birth', () => {
+      const members = [
+        member('arthur', { dateOfBirth: '1950-01-01', dateOfDeath: '1960-01-01', gender: 'male' }),
+        member('rose', { dateOfBirth: '1980-03-01' }),
+        member('mary', { dateOfBirth: '1940-01-01', gender: 'female' }),
+      ];
+      const issues = checkDataQuality(members, [
+        relationship('arthur', 'rose', 'parent'),
+        relationship('mary', 'arthur', 'child'),
+      ], NOW);
+
+      expect(issues.map(issue => [issue.rule, issue.severity])).toEqual([
+        ['child-born-before-parent', 'error'],
+        ['parent-died-before-birth', 'error'],
+      ]);
+      expect(issues[0].message).toBe('Mary Evans was born before their parent Arthur Evans');
+      expect(issues[0].memberIds).toEqual(['mary', 'arthur']);
+      expect(issues[1].message).toBe('Arthur Evans died 20 years before their child Rose Evans was born');
+    });
+
+    it('should allow a father to die shortly before his child is born', () => {
+      const members = [
+        member('arthur', { dateOfBirth: '1950-01-01', dateOfDeath: '1979-10-01', gender: 'male' }),
+        member('mary', { dateOfBirth: '1952-01-01', dateOfDeath: '1979-10-01', gender: 'female' }),
+        member('rose', { dateOfBirth: '1980-03-01' }),
+      ];
+      const issues = checkDataQuality(members, [
+        relationship('arthur', 'rose', 'parent'),
+        relationship('mary', 'rose', 'parent'),
+      ], NOW);
+
+      expect(issues.map(issue => issue.memberIds[1])).toEqual(['mary']);
+    });
+
+    it('should only time biological parents against the birth', () => {
+      const members = [member('step', { dateOfBirth: '1990-01-01' }), member('rose', { dateOfBirth: '1980-03-01' })];
+
+      expect(checkDataQuality(members, [relationship('step', 'rose', 'parent', { lineage: 'step' })], NOW)).toEqual([]);
+    });
+
+    it('should flag marriages of children as errors and of young teenagers as warnings', () => {
+      const members = [
+        member('rose', { dateOfBirth: '1930-04-02' }),
+        member('tom', { dateOfBirth: '1921-06-01' }),
+        member('ann', { dateOfBirth: '1900' }),
+      ];
+      const issues = checkDataQuality(members, [
+        relationship('rose', 'tom', 'spouse', { startDate: '1935-06-10' }),
+        relationship('ann', 'tom', 'spouse', { startDate: '1915' }),
+      ], NOW);
+
+      expect(issues.map(issue => [issue.severity, issue.message])).toEqual([
+        ['error', 'Rose Evans was married at 5'],
+        ['error', 'Tom Evans was married in 1915, before they were born'],
+        ['warning', 'Tom Evans was married at 14'],
+        ['warning', 'Ann Evans was married at 15'],
+      ]);
+    });
+
+    it('should flag marriages after death, reversed partnerships and impossible lifespans', () => {
+      const members = [
+        member('rose', { dateOfBirth: '1930-04-02', dateOfDeath: '1920-01-01' }),
+        member('tom', { dateOfBirth: '1880-06-01', dateOfDeath: '1940-01-01' }),
+        member('ann', { dateOfBirth: '1890', isLiving: true }),
+      ];
+      const issues = checkDataQuality(members, [
+        relationship('tom', 'ann', 'spouse', { startDate: '1950', endDate: '1945' }),
+      ], NOW);
+
+      expect(issues.map(issue => issue.rule)).toEqual([
+        'death-before-birth',
+        'married-after-death',
+        'implausible-lifespan',
+        'partnership-ends-before-start',
+      ]);
+      expect(issues[2].message).toBe('Ann Evans is recorded as living but would be 133');
+    });
+
+    it('should not call partial dates impossible while they could still be in order', () => {
+      // Both born some time in 1950; the child may be the younger
+      const members = [member('arthur', { dateOfBirth: '1950' }), member('rose', { dateOfBirth: '1950-06' })];
+
+      expect(checkDataQuality(members, [relationship('arthur', 'rose', 'parent')], NOW).map(issue => issue.rule))
+        .toEqual(['parent-too-young']);
+    });
+
+    it('should report each cycle of parents once', () => {
+      const members = [member('a'), member('b'), member('c'), member('d')];
+      const issues = checkDataQuality(members, [
+        relationship('a', 'b', 'parent'),
+        relationship('b', 'c', 'parent'),
+        relationship('c', 'a', 'parent'),
+        relationship('c', 'd', 'parent'),
+      ], NOW);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({ rule: 'parent-cycle', severity: 'error' });
+      expect([...issues[0].memberIds].sort()).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should list errors before warnings and give every issue a unique ID', () => {
+      const ids = ['a', 'b', 'c', 'd'];
+      const memberArbitrary = fc.record({
+        dateOfBirth: fc.option(fc.integer({ min: 1850, max: 2020 }).map(String), { nil: undefined }),
+        dateOfDeath: fc.option(fc.integer({ min: 1850, max: 2020 }).map(String), { nil: undefined }),
+      });
+      const linkArbitrary = fc.tuple(
+        fc.constantFrom(...ids),
+        fc.constantFrom(...ids),
+        fc.constantFrom('parent' as const, 'child' as const, 'spouse' as const),
+        fc.option(fc.integer({ min: 1850, max: 2020 }).map(String), { nil: undefined })
+      );
+
+      fc.assert(
+        fc.property(fc.array(memberArbitrary, { minLength: 4, maxLength: 4 }), fc.array(linkArbitrary, { maxLength: 8 }), (dates, links) => {
+          const members = ids.map((id, index) => member(id, dates[index]));
+          const relationships = links.map(([from, to, type, startDate], index) => ({
+            ...relationship(from, to, type, { startDate }),
+            id: `rel-${index}`,
+          }));
+          const issues = checkDataQuality(members, relationships, NOW);
+
+          const firstWarning = issues.findIndex(issue => issue.severity === 'warning');
+          if (firstWarning !== -1) {
+            expect(issues.slice(firstWarning).every(issue => issue.severity === 'warning')).toBe(true);
+          }
+          expect(new Set(issues.map(issue => issue.id)).size).toBe(issues.length);
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('getMemberIssueSeverities', () => {
+    it('should keep the most severe issue of each member', () => {
+      const members = [
+        member('arthur', { dateOfBirth: '1950-01-01' }),
+        member('rose', { dateOfBirth: '1940-01-01', dateOfDeath: '1930-01-01' }),
+        member('tom', { dateOfBirth: '1980-01-01' }),
+      ];
+      const issues = checkDataQuality(members, [
+        relationship('tom', 'rose', 'spouse', { startDate: '1995-01-01' }),
+      ], NOW);
+
+      expect(getMemberIssueSeverities(issues)).toEqual({ rose: 'error', tom: 'warning' });
+    });
+  });
+});
@@ -0,0 +1,348 @@
+/**
+ * Data quality
+ * Rules over member dates and relationships that flag parts of the tree that cannot be
+ * right, such as a child born before their parent or a cycle of parents
+ */
+
+import { DataQualitySeverity, Relationship } from '../types/components';
+import { buildRelationshipGraph, getEdges, RelationshipGraph } from './relationshipGraph';
+import { formatGenealogicalDate, getDateRange, getYearsBetween, DateRange } from './genealogicalDate';
+
+export interface DataQualityMember {
+  id: string;
+  firstName: string;
+  lastName: string;
+  dateOfBirth?: string;
+  dateOfDeath?: string;
+  gender?: string;
+  isLiving?: boolean;
+}
+
+export type DataQualityRuleId =
+  | 'death-before-birth'
+  | 'implausible-lifespan'
+  | 'child-born-before-parent'
+  | 'parent-too-young'
+  | 'parent-too-old'
+  | 'parent-died-before-birth'
+  | 'married-too-young'
+  | 'married-after-death'
+  | 'partnership-ends-before-start'
+  | 'parent-cycle';
+
+export interface DataQualityIssue {
+  // Same for the same problem every time the tree is checked
+  id: string;
+  rule: DataQualityRuleId;
+  severity: DataQualitySeverity;
+  message: string;
+  // Members the issue is about, the one to look at first leading
+  memberIds: string[];
+  relationshipId?: string;
+}
+
+interface DataQualityContext {
+  members: DataQualityMember[];
+  membersById: Map<string, DataQualityMember>;
+  relationships: Relationship[];
+  graph: RelationshipGraph;
+  now: number;
+}
+
+interface DataQualityRule {
+  id: DataQualityRuleId;
+  check: (context: DataQualityContext) => Omit<DataQualityIssue, 'id' | 'rule'>[];
+}
+
+const MAX_LIFESPAN = 120;
+const MIN_PARENT_AGE = 12;
+const MAX_MOTHER_AGE = 60;
+const MAX_PARENT_AGE = 90;
+// A father can die before his child is born
+const FATHER_GRACE_YEARS = 1;
+const MIN_MARRIAGE_AGE = 12;
+const UNUSUAL_MARRIAGE_AGE = 16;
+
+const SEVERITY_ORDER: Record<DataQualitySeverity, number> = { error: 0, warning: 1 };
+
+// Fewest and most whole years that can lie between two dates
+const minYearsBetween = (from: DateRange, to: DateRange): number => getYearsBetween(from, to).min;
+const maxYearsBetween = (from: DateRange, to: DateRange): number => getYearsBetween(from, to).max;
+
+const getName = (member: DataQualityMember): string => `${member.firstName} ${member.lastName}`.trim() || 'Unnamed member';
+
+const getYear = (value?: string): string => formatGenealogicalDate(value, { yearOnly: true });
+
+/**
+ * Pairs every parent with their child, once per pair, from parent and child relationships
+ * Only biological parents are timed against their children's births
+ */
+function getParentLinks(context: DataQualityContext): { parent: DataQualityMember; child: DataQualityMember; relationship: Relationship }[] {
+  const links = new Map<string, { parent: DataQualityMember; child: DataQualityMember; relationship: Relationship }>();
+
+  context.relationships.forEach(relationship => {
+    if (relationship.relationshipType !== 'parent' && relationship.relationshipType !== 'child') return;
+    if (relationship.lineage && relationship.lineage !== 'biological') return;
+
+    const [parentId, childId] = relationship.relationshipType === 'parent'
+      ? [relationship.fromUserId, relationship.toUserId]
+      : [relationship.toUserId, relationship.fromUserId];
+    const parent = context.membersById.get(parentId);
+    const child = context.membersById.get(childId);
+    if (parent && child && !links.has(`${parentId}:${childId}`)) {
+      links.set(`${parentId}:${childId}`, { parent, child, relationship });
+    }
+  });
+
+  return Array.from(links.values());
+}
+
+/**
+ * Finds each cycle of parent links, where following parents leads back to the start
+ * @param graph - Relationship graph
+ * @param memberIds - IDs of the members to start from
+ * @returns Member IDs around each cycle, in parent order
+ */
+function findParentCycles(graph: RelationshipGraph, memberIds: string[]): string[][] {
+  const getParentIds = (memberId: string): string[] =>
+    getEdges(graph, memberId).filter(edge => edge.relationshipType === 'child').map(edge => edge.memberId);
+
+  const cycles = new Map<string, string[]>();
+  const finished = new Set<string>();
+
+  const visit = (memberId: string, path: string[]): void => {
+    const index = path.indexOf(memberId);
+    if (index !== -1) {
+      const cycle = path.slice(index);
+      cycles.set([...cycle].sort().join(':'), cycle);
+      return;
+    }
+    if (finished.has(memberId)) return;
+
+    getParentIds(memberId).forEach(parentId => visit(parentId, [...path, memberId]));
+    finished.add(memberId);
+  };
+
+  memberIds.forEach(memberId => visit(memberId, []));
+  return Array.from(cycles.values());
+}
+
+const RULES: DataQualityRule[] = [
+  {
+    id: 'death-before-birth',
+    check: ({ members }) => members.flatMap(member => {
+      const birth = getDateRange(member.dateOfBirth);
+      const death = getDateRange(member.dateOfDeath);
+      if (!birth || !death || death.latest >= birth.earliest) return [];
+      return [{
+        severity: 'error' as const,
+        message: `${getName(member)} died before they were born`,
+        memberIds: [member.id],
+      }];
+    }),
+  },
+  {
+    id: 'implausible-lifespan',
+    check: ({ members, now }) => members.flatMap(member => {
+      const birth = getDateRange(member.dateOfBirth);
+      const death = getDateRange(member.dateOfDeath);
+      // Only members recorded as living are aged to today
+      const end = death || (member.isLiving ? { earliest: now, latest: now } : null);
+      if (!birth || !end || minYearsBetween(birth, end) <= MAX_LIFESPAN) return [];
+      return [{
+        severity: 'warning' as const,
+        message: death
+          ? `${getName(member)} lived to ${minYearsBetween(birth, end)}`
+          : `${getName(member)} is recorded as living but would be ${minYearsBetween(birth, end)}`,
+        memberIds: [member.id],
+      }];
+    }),
+  },
+  {
+    id: 'child-born-before-parent',
+    check: context => getParentLinks(context).flatMap(({ parent, child, relationship }) => {
+      const parentBirth = getDateRange(parent.dateOfBirth);
+      const childBirth = getDateRange(child.dateOfBirth);
+      if (!parentBirth || !childBirth || childBirth.latest > parentBirth.earliest) return [];
+      return [{
+        severity: 'error' as const,
+        message: `${getName(child)} was born before their parent ${getName(parent)}`,
+        memberIds: [child.id, parent.id],
+        relationshipId: relationship.id,
+      }];
+    }),
+  },
+  {
+    id: 'parent-too-young',
+    check: context => getParentLinks(context).flatMap(({ parent, child, relationship }) => {
+      const parentBirth = getDateRange(parent.dateOfBirth);
+      const childBirth = getDateRange(child.dateOfBirth);
+      // Children born before their parent are reported by child-born-before-parent
+      if (!parentBirth || !childBirth || childBirth.latest <= parentBirth.earliest) return [];
+      const age = maxYearsBetween(parentBirth, childBirth);
+      if (age >= MIN_PARENT_AGE) return [];
+      return [{
+        severity: 'warning' as const,
+        message: `${getName(parent)} was ${age} when their child ${getName(child)} was born`,
+        memberIds: [parent.id, child.id],
+        relationshipId: relationship.id,
+      }];
+    }),
+  },
+  {
+    id: 'parent-too-old',
+    check: context => getParentLinks(context).flatMap(({ parent, child, relationship }) => {
+      const parentBirth = getDateRange(parent.dateOfBirth);
+      const childBirth = getDateRange(child.dateOfBirth);
+      if (!parentBirth || !childBirth) return [];
+      const age = minYearsBetween(parentBirth, childBirth);
+      if (age <= (parent.gender === 'female' ? MAX_MOTHER_AGE : MAX_PARENT_AGE)) return [];
+      return [{
+        severity: 'warning' as const,
+        message: `${getName(parent)} was ${age} when their child ${getName(child)} was born`,
+        memberIds: [parent.id, child.id],
+        relationshipId: relationship.id,
+      }];
+    }),
+  },
+  {
+    id: 'parent-died-before-birth',
+    check: context => getParentLinks(context).flatMap(({ parent, child, relationship }) => {
+      const parentDeath = getDateRange(parent.dateOfDeath);
+      const childBirth = getDateRange(child.dateOfBirth);
+      if (!parentDeath || !childBirth) return [];
+      const grace = parent.gender === 'female' ? 0 : FATHER_GRACE_YEARS;
+      const years = minYearsBetween(parentDeath, childBirth);
+      if (childBirth.earliest <= parentDeath.latest || years < grace) return [];
+      return [{
+        severity: 'error' as const,
+        message: years > 0
+          ? `${getName(parent)} died ${years} ${years === 1 ? 'year' : 'years'} before their child ${getName(child)} was born`
+          : `${getName(parent)} died before their child ${getName(child)} was born`,
+        memberIds: [child.id, parent.id],
+        relationshipId: relationship.id,
+      }];
+    }),
+  },
+  {
+    id: 'married-too-young',
+    check: ({ relationships, membersById }) => relationships.flatMap(relationship => {
+      const start = relationship.relationshipType === 'spouse' ? getDateRange(relationship.startDate) : null;
+      if (!start) return [];
+
+      return [relationship.fromUserId, relationship.toUserId].flatMap(memberId => {
+        const member = membersById.get(memberId);
+        const birth = getDateRange(member?.dateOfBirth);
+        if (!member || !birth) return [];
+        const age = maxYearsBetween(birth, start);
+        if (age >= UNUSUAL_MARRIAGE_AGE) return [];
+        return [{
+          severity: age < MIN_MARRIAGE_AGE ? 'error' as const : 'warning' as const,
+          message: start.latest < birth.earliest
+            ? `${getName(member)} was married in ${getYear(relationship.startDate)}, before they were born`
+            : `${getName(member)} was married at ${age}`,
+          memberIds: [member.id],
+          relationshipId: relationship.id,
+        }];
+      });
+    }),
+  },
+  {
+    id: 'married-after-death',
+    check: ({ relationships, membersById }) => relationships.flatMap(relationship => {
+      const start = relationship.relationshipType === 'spouse' ? getDateRange(relationship.startDate) : null;
+      if (!start) return [];
+
+      return [relationship.fromUserId, relationship.toUserId].flatMap(memberId => {
+        const member = membersById.get(memberId);
+        const death = getDateRange(member?.dateOfDeath);
+        if (!member || !death || start.earliest <= death.latest) return [];
+        return [{
+          severity: 'error' as const,
+          message: `${getName(member)} was married in ${getYear(relationship.startDate)}, after they died`,
+          memberIds: [member.id],
+          relationshipId: relationship.id,
+        }];
+      });
+    }),
+  },
+  {
+    id: 'partnership-ends-before-start',
+    check: ({ relationships, membersById }) => relationships.flatMap(relationship => {
+      const start = getDateRange(relationship.startDate);
+      const end = getDateRange(relationship.endDate);
+      if (relationship.relationshipType !== 'spouse' || !start || !end || end.latest >= start.earliest) return [];
+      const names = [relationship.fromUserId, relationship.toUserId]
+        .map(memberId => membersById.get(memberId))
+        .filter((member): member is DataQualityMember => !!member)
+        .map(getName);
+      return [{
+        severity: 'warning' as const,
+        message: `The partnership of ${names.join(' and ') || 'two members'} ends before it starts`,
+        memberIds: [relationship.fromUserId, relationship.toUserId],
+        relationshipId: relationship.id,
+      }];
+    }),
+  },
+  {
+    id: 'parent-cycle',
+    check: ({ graph, members, membersById }) => findParentCycles(graph, members.map(member => member.id)).map(cycle => ({
+      severity: 'error' as const,
+      message: `${cycle.map(memberId => {
+        const member = membersById.get(memberId);
+        return member ? getName(member) : 'Unknown member';
+      }).join(', ')} are each recorded as an ancestor of the other${cycle.length > 2 ? 's' : ''}`,
+      memberIds: cycle,
+    })),
+  },
+];
+
+/**
+ * Checks the tree against every data quality rule
+ * Partial and approximate dates only raise an issue when every date they could mean would
+ * @param members - Family members
+ * @param relationships - Relationships between them
+ * @param now - Time to age living members to, in milliseconds
+ * @returns Issues found, errors first
+ */
+export function checkDataQuality(
+  members: DataQualityMember[],
+  relationships: Relationship[],
+  now: number = Date.now()
+): DataQualityIssue[] {
+  // Links of a member to themselves are left to relationship validation
+  const links = relationships.filter(relationship => relationship.fromUserId !== relationship.toUserId);
+  const context: DataQualityContext = {
+    members,
+    membersById: new Map(members.map(member => [member.id, member])),
+    relationships: links,
+    graph: buildRelationshipGraph(links),
+    now,
+  };
+
+  const issues = RULES.flatMap(rule => rule.check(context).map(issue => ({
+    ...issue,
+    id: [rule.id, issue.relationshipId, ...issue.memberIds].filter(Boolean).join(':'),
+    rule: rule.id,
+  })));
+
+  return issues.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+/**
+ * Gets the most severe issue of each member
+ * @param issues - Data quality issues
+ * @returns Severity keyed by member ID, for members with at least one issue
+ */
+export function getMemberIssueSeverities(issues: DataQualityIssue[]): Record<string, DataQualitySeverity> {
+  const severities: Record<string, DataQualitySeverity> = {};
+  issues.forEach(issue => {
+    issue.memberIds.forEach(memberId => {
+      const current = severities[memberId];
+      if (!current || SEVERITY_ORDER[issue.severity] < SEVERITY_ORDER[current]) {
+        severities[memberId] = issue.severity;
+      }
+    });
+  });
+  return severities;
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  areNicknames,
+  findDuplicateCandidates,
+  findDuplicateMembers,
+  nameSimilarity
+} from './duplicateDetection';
+import { FamilyMember, Relationship } from '../types/api';
+
+const member = (id: string, firstName: string, lastName: string, extra: Partial<FamilyMember> = {}): FamilyMember => ({
+  id,
+  firstName,
+  lastName,
+  isLiving: true,
+  createdBy: 'test',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...extra
+});
+
+const relationship = (
+  fromUserId: string,
+  toUserId: string,
+  relationshipType: Relationship['relationshipType']
+): Relationship => ({
+  id: `${fromUserId}-${relationshipType}-${toUserId}`, fromUserId, toUserId, relationshipType, createdAt: '2024-01-01T00:00:00.000Z'
+});
+
+describe('duplicateDetection', () => {
+  describe('name matching', () => {
+    it('should recognise common nicknames in either direction', () => {
+      expect(areNicknames('William', 'Bill')).toBe(true);
+      expect(areNicknames('peggy', 'Margaret')).toBe(true);
+      expect(areNicknames('Ted', 'Theodore')).toBe(true);
+      expect(areNicknames('Ted', 'Edward')).toBe(true);
+      expect(areNicknames('William', 'Robert')).toBe(false);
+    });
+
+    it('should score similarity between 0 and 1, symmetric and 1 for identical names', () => {
+      fc.assert(
+        fc.property(fc.string({ maxLength: 12 }), fc.string({ maxLength: 12 }), (a, b) => {
+          const score = nameSimilarity(a, b);
+          expect(score).toBeGreaterThanOrEqual(0);
+          expect(score).toBeLessThanOrEqual(1);
+          expect(nameSimilarity(b, a)).toBeCloseTo(score);
+          expect(nameSimilarity(a, a)).toBe(1);
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('findDuplicateCandidates', () => {
+    const members = [
+      member('owner', 'Alice', 'Miller'),
+      member('william', 'William', 'Taylor', { dateOfBirth: '1950-03-14', gender: 'male' }),
+      member('rose', 'Rose', 'Miller', { dateOfBirth: '1931-04-02', gender: 'female' }),
+      member('tom', 'Thomas', 'Hughes', { dateOfBirth: '1928-06-01', gender: 'male' }),
+      member('arthur', 'Arthur', 'Evans', { dateOfBirth: '1905-01-01', gender: 'male' }),
+    ];
+    const relationships = [
+      relationship('owner', 'rose', 'grandchild'),
+      relationship('rose', 'tom', 'spouse'),
+      relationship('arthur', 'rose', 'parent'),
+    ];
+
+    it('should flag someone with the same name and birth year as a likely duplicate', () => {
+      const matches = findDuplicateCandidates(
+        { firstName: 'William', lastName: 'Taylor', dateOfBirth: '1950-01-01' },
+        members,
+        relationships
+      );
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0]).toMatchObject({ confidence: 'likely', reasons: ['Same name', 'Born the same year (1950)'] });
+      expect(matches[0].member.id).toBe('william');
+    });
+
+    it('should match nicknames', () => {
+      const [match] = findDuplicateCandidates({ firstName: 'Bill', lastName: 'Taylor', dateOfBirth: '1951' }, members, relationships);
+
+      expect(match.member.id).toBe('william');
+      expect(match.reasons).toContain('Bill and William are forms of the same name');
+    });
+
+    it('should match maiden and married names through relatives', () => {
+      const byMaidenName = findDuplicateCandidates({ firstName: 'Rose', lastName: 'Evans' }, members, relationships);
+      const byMarriedName = findDuplicateCandidates({ firstName: 'Rose', lastName: 'Hughes' }, members, relationships);
+
+      expect(byMaidenName.map(match => match.member.id)).toEqual(['rose']);
+      expect(byMaidenName[0].reasons).toContain('Evans may be a maiden or married name (shared with Arthur Evans)');
+      expect(byMarriedName.map(match => match.member.id)).toEqual(['rose']);
+    });
+
+    it('should rule out births far apart and different recorded sexes', () => {
+      expect(findDuplicateCandidates({ firstName: 'William', lastName: 'Taylor', dateOfBirth: '1980-01-01' }, members, relationships)).toEqual([]);
+      expect(findDuplicateCandidates({ firstName: 'William', lastName: 'Taylor', gender: 'female' }, members, relationships)).toEqual([]);
+    });
+
+    it('should raise the score of someone already linked to the relative the same way', () => {
+      const draft = { firstName: 'Thomas', lastName: 'Hughes' };
+      const [unlinked] = findDuplicateCandidates(draft, members, relationships);
+      const [linked] = findDuplicateCandidates(draft, members, relationships, { relatedTo: 'rose', relationshipType: 'spouse' });
+
+      expect(unlinked.confidence).toBe('possible');
+      expect(linked.confidence).toBe('likely');
+      expect(linked.reasons).toContain('Already linked to Rose Miller the same way');
+    });
+
+    it('should not match anyone until both names are entered', () => {
+      expect(findDuplicateCandidates({ firstName: 'William', lastName: '' }, members, relationships)).toEqual([]);
+    });
+  });
+
+  describe('findDuplicateMembers', () => {
+    it('should pair records of the same person and skip members linked to each other', () => {
+      const members = [
+        member('parent', 'Arthur', 'Evans'),
+        member('liz', 'Liz', 'Evans', { dateOfBirth: '1935-02-11' }),
+        member('elizabeth', 'Elizabeth', 'Evans', { dateOfBirth: '1935-02-11' }),
+        member('twin', 'Elisabeth', 'Evans', { dateOfBirth: '1935-02-11' }),
+      ];
+      const pairs = findDuplicateMembers(members, [
+        relationship('parent', 'liz', 'parent'),
+        relationship('parent', 'elizabeth', 'parent'),
+        relationship('elizabeth', 'twin', 'sibling'),
+      ]);
+
+      // The twin's name is close to Elizabeth's, but they are recorded as siblings
+      expect(pairs.map(pair => [pair.first.id, pair.second.id])).toEqual([['liz', 'elizabeth']]);
+      expect(pairs[0]).toMatchObject({ score: 1, confidence: 'likely' });
+      expect(pairs[0].reasons).toContain('Both linked to Arthur Evans');
+    });
+
+    it('should only report pairs above the possible threshold, ordered by score', () => {
+      const nameArbitrary = fc.constantFrom('William', 'Bill', 'Rose', 'Ros', 'Mary', 'M');
+      const memberArbitrary = fc.tuple(nameArbitrary, fc.constantFrom('Evans', 'Evens', 'Hughes'), fc.integer({ min: 1900, max: 1910 }));
+
+      fc.assert(
+        fc.property(fc.array(memberArbitrary, { maxLength: 8 }), people => {
+          const members = people.map(([firstName, lastName, year], index) =>
+            member(`m${index}`, firstName, lastName, { dateOfBirth: `${year}-01-01` })
+          );
+          const pairs = findDuplicateMembers(members, []);
+
+          pairs.forEach((pair, index) => {
+            expect(pair.score).toBeGreaterThanOrEqual(0.5);
+            expect(pair.first.id).not.toBe(pair.second.id);
+            if (index > 0) expect(pairs[index - 1].score).toBeGreaterThanOrEqual(pair.score);
+          });
+        }),
+        { numRuns: 50 }
+      );
+    });
+  });
+});
@@ -0,0 +1,442 @@
+/**
+ * Duplicate detection
+ * Fuzzy matching of people against the members already in the tree, scored on name
+ * similarity (nicknames and maiden/married names included), birth date proximity and
+ * relatives the two records share
+ */
+
+import { Relationship } from '../types/components';
+import { buildRelationshipGraph, getEdge, getEdges, RelationshipGraph } from './relationshipGraph';
+
+// Fields of a member used for matching; both FamilyMember types satisfy it
+export interface DuplicateCandidate {
+  id: string;
+  firstName: string;
+  lastName: string;
+  dateOfBirth?: string;
+  gender?: string;
+}
+
+// Person being entered, before they have an ID
+export type PersonDraft = Omit<DuplicateCandidate, 'id'>;
+
+// Where the person being entered is about to be linked into the tree
+export interface DraftContext {
+  relatedTo: string;
+  relationshipType: string;
+}
+
+export type DuplicateConfidence = 'likely' | 'possible';
+
+export interface DuplicateMatch<T extends DuplicateCandidate = DuplicateCandidate> {
+  member: T;
+  // 0-1, higher is more likely the same person
+  score: number;
+  confidence: DuplicateConfidence;
+  // Why the member matched, for display
+  reasons: string[];
+}
+
+export interface DuplicatePair<T extends DuplicateCandidate = DuplicateCandidate> {
+  first: T;
+  second: T;
+  score: number;
+  confidence: DuplicateConfidence;
+  reasons: string[];
+}
+
+// Given names and their common short forms; a name may appear in more than one group
+const NICKNAME_GROUPS: string[][] = [
+  ['william', 'will', 'bill', 'billy', 'willie', 'liam'],
+  ['robert', 'rob', 'bob', 'bobby', 'robbie', 'bert'],
+  ['richard', 'rick', 'ricky', 'dick', 'rich', 'richie'],
+  ['james', 'jim', 'jimmy', 'jamie'],
+  ['john', 'jack', 'johnny', 'jon'],
+  ['joseph', 'joe', 'joey'],
+  ['thomas', 'tom', 'tommy'],
+  ['charles', 'charlie', 'chuck', 'chas'],
+  ['edward', 'ed', 'eddie', 'ted', 'ned'],
+  ['henry', 'harry', 'hank'],
+  ['michael', 'mike', 'mick', 'mickey'],
+  ['christopher', 'chris', 'kit'],
+  ['anthony', 'tony'],
+  ['daniel', 'dan', 'danny'],
+  ['david', 'dave', 'davy'],
+  ['francis', 'frank', 'fran'],
+  ['frederick', 'fred', 'freddie'],
+  ['lawrence', 'larry', 'laurie'],
+  ['nicholas', 'nick', 'nicky'],
+  ['patrick', 'pat', 'paddy'],
+  ['peter', 'pete'],
+  ['samuel', 'sam', 'sammy'],
+  ['stephen', 'steven', 'steve'],
+  ['alexander', 'alex', 'sandy'],
+  ['albert', 'al', 'bert'],
+  ['theodore', 'theo', 'ted', 'teddy'],
+  ['elizabeth', 'eliza', 'liz', 'lizzie', 'beth', 'betty', 'bess', 'bessie', 'libby'],
+  ['margaret', 'maggie', 'meg', 'peggy', 'marge', 'margie', 'greta'],
+  ['katherine', 'catherine', 'kathryn', 'kate', 'katie', 'kathy', 'cathy', 'kitty'],
+  ['mary', 'molly', 'polly', 'mae'],
+  ['sarah', 'sara', 'sally', 'sadie'],
+  ['ann', 'anne', 'anna', 'annie', 'nancy'],
+  ['dorothy', 'dot', 'dottie', 'dolly'],
+  ['susan', 'susanna', 'sue', 'suzy'],
+  ['patricia', 'pat', 'patty', 'trish'],
+  ['rebecca', 'becky', 'becca'],
+  ['jennifer', 'jen', 'jenny'],
+  ['eleanor', 'ellie', 'nell', 'nellie'],
+  ['helen', 'nell', 'nellie'],
+  ['victoria', 'vicky', 'tori'],
+  ['deborah', 'debbie', 'deb'],
+  ['abigail', 'abby', 'gail'],
+  ['caroline', 'carol', 'carrie'],
+  ['josephine', 'jo', 'josie'],
+];
+
+// Group indexes of every name in NICKNAME_GROUPS
+const NICKNAME_INDEX: Map<string, number[]> = NICKNAME_GROUPS.reduce((index, group, groupIndex) => {
+  group.forEach(name => index.set(name, [...(index.get(name) || []), groupIndex]));
+  return index;
+}, new Map<string, number[]>());
+
+// Relationship types across which a member may carry a relative's surname
+const SHARED_SURNAME_TYPES = new Set(['child', 'parent', 'sibling', 'spouse']);
+
+const FIRST_NAME_WEIGHT = 0.6;
+const NAME_WEIGHT = 0.6;
+const MIN_SIMILARITY = 0.8;
+const MAX_YEAR_GAP = 5;
+const CLOSE_YEAR_GAP = 2;
+const SHARED_RELATIVE_BONUS = 0.15;
+const MAX_RELATIVE_BONUS = 0.3;
+const POSSIBLE_THRESHOLD = 0.5;
+const LIKELY_THRESHOLD = 0.75;
+
+// Matching view of a person, normalized once up front
+interface PersonProfile {
+  firstName: string;
+  givenName: string;
+  lastName: string;
+  displayFirstName: string;
+  displayLastName: string;
+  // Maiden/married names the person may also go by, mapped to the relative they come from
+  otherSurnames: Map<string, string>;
+  birthYear: number | null;
+  birthDate: string | null;
+  gender?: string;
+}
+
+interface ScorePart {
+  score: number;
+  reasons: string[];
+}
+
+const normalizeName = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/-/g, ' ')
+    .replace(/[^a-z\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const formatName = (person: Pick<DuplicateCandidate, 'firstName' | 'lastName'>): string =>
+  `${person.firstName} ${person.lastName}`.trim();
+
+/**
+ * Computes the edit distance between two strings
+ * @param a - First string
+ * @param b - Second string
+ * @returns Number of single-character insertions, deletions or substitutions between them
+ */
+function levenshteinDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Scores how alike two names are spelled
+ * @param a - First name
+ * @param b - Second name
+ * @returns 1 for identical names down to 0 for nothing in common
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  return 1 - levenshteinDistance(a, b) / longest;
+}
+
+/**
+ * Checks whether two given names are forms of the same name (e.g. Bill and William)
+ * @param a - First name
+ * @param b - Second name
+ * @returns True if both names appear in the same nickname group
+ */
+export function areNicknames(a: string, b: string): boolean {
+  const groupsOfA = NICKNAME_INDEX.get(normalizeName(a)) || [];
+  const groupsOfB = NICKNAME_INDEX.get(normalizeName(b)) || [];
+  return groupsOfA.some(group => groupsOfB.includes(group));
+}
+
+const parseBirthYear = (dateOfBirth?: string): number | null => {
+  const year = dateOfBirth?.match(/\d{4}/)?.[0];
+  return year ? Number(year) : null;
+};
+
+const parseBirthDate = (dateOfBirth?: string): string | null =>
+  dateOfBirth?.match(/^\d{4}-\d{2}-\d{2}/)?.[0] || null;
+
+/**
+ * Collects the surnames of a member's parents, children, siblings and spouses
+ * @param graph - Relationship graph
+ * @param memberId - ID of the member
+ * @param membersById - Members keyed by ID
+ * @returns Normalized surnames mapped to the name of the relative they come from
+ */
+function getRelativeSurnames(
+  graph: RelationshipGraph,
+  memberId: string,
+  membersById: Map<string, DuplicateCandidate>
+): Map<string, string> {
+  const surnames = new Map<string, string>();
+  getEdges(graph, memberId).forEach(edge => {
+    const relative = membersById.get(edge.memberId);
+    const surname = relative ? normalizeName(relative.lastName) : '';
+    if (relative && surname && SHARED_SURNAME_TYPES.has(edge.relationshipType) && !surnames.has(surname)) {
+      surnames.set(surname, formatName(relative));
+    }
+  });
+  return surnames;
+}
+
+const buildProfile = (person: PersonDraft, otherSurnames: Map<string, string>): PersonProfile => {
+  const firstName = normalizeName(person.firstName);
+  const lastName = normalizeName(person.lastName);
+  otherSurnames.delete(lastName);
+
+  return {
+    firstName,
+    givenName: firstName.split(' ')[0],
+    lastName,
+    displayFirstName: person.firstName.trim(),
+    displayLastName: person.lastName.trim(),
+    otherSurnames,
+    birthYear: parseBirthYear(person.dateOfBirth),
+    birthDate: parseBirthDate(person.dateOfBirth),
+    gender: person.gender,
+  };
+};
+
+const scoreFirstNames = (a: PersonProfile, b: PersonProfile): ScorePart => {
+  if (a.firstName === b.firstName || a.givenName === b.givenName) {
+    return { score: 1, reasons: [] };
+  }
+  if (areNicknames(a.givenName, b.givenName)) {
+    return { score: 0.9, reasons: [`${a.displayFirstName} and ${b.displayFirstName} are forms of the same name`] };
+  }
+
+  const similarity = nameSimilarity(a.givenName, b.givenName);
+  if (similarity >= MIN_SIMILARITY) {
+    return { score: similarity, reasons: [`Similar first name (${b.displayFirstName})`] };
+  }
+
+  // An initial on either record matches any name starting with it
+  const initials = [a.givenName, b.givenName].filter(name => name.length === 1);
+  if (initials.length === 1 && a.givenName[0] === b.givenName[0]) {
+    return { score: 0.6, reasons: [`First initial matches (${b.displayFirstName})`] };
+  }
+
+  return { score: 0, reasons: [] };
+};
+
+const scoreLastNames = (a: PersonProfile, b: PersonProfile): ScorePart => {
+  if (!a.lastName || !b.lastName) {
+    return { score: a.lastName === b.lastName ? 1 : 0.5, reasons: [] };
+  }
+  if (a.lastName === b.lastName) {
+    return { score: 1, reasons: [] };
+  }
+
+  // One record may be under a maiden name and the other under a married name
+  const relativeOfB = b.otherSurnames.get(a.lastName);
+  if (relativeOfB) {
+    return { score: 0.9, reasons: [`${a.displayLastName} may be a maiden or married name (shared with ${relativeOfB})`] };
+  }
+  const relativeOfA = a.otherSurnames.get(b.lastName);
+  if (relativeOfA) {
+    return { score: 0.9, reasons: [`${b.displayLastName} may be a maiden or married name (shared with ${relativeOfA})`] };
+  }
+
+  const similarity = nameSimilarity(a.lastName, b.lastName);
+  if (similarity >= MIN_SIMILARITY) {
+    return { score: similarity, reasons: [`Similar surname (${b.displayLastName})`] };
+  }
+
+  return { score: 0, reasons: [] };
+};
+
+/**
+ * Scores two people on name and birth date alone
+ * @returns The score and reasons, or null if they cannot be the same person
+ */
+const scoreProfiles = (a: PersonProfile, b: PersonProfile): ScorePart | null => {
+  // Records with different recorded sexes or births far apart are different people
+  const genders = [a.gender, b.gender];
+  if (genders.includes('male') && genders.includes('female')) return null;
+  if (a.birthYear !== null && b.birthYear !== null && Math.abs(a.birthYear - b.birthYear) > MAX_YEAR_GAP) return null;
+
+  const firstName = scoreFirstNames(a, b);
+  if (firstName.score === 0) return null;
+  const lastName = scoreLastNames(a, b);
+  if (lastName.score === 0) return null;
+
+  const nameScore = FIRST_NAME_WEIGHT * firstName.score + (1 - FIRST_NAME_WEIGHT) * lastName.score;
+  const reasons = firstName.score === 1 && lastName.score === 1
+    ? ['Same name']
+    : [...firstName.reasons, ...lastName.reasons];
+
+  let dateScore = 0;
+  if (a.birthDate && a.birthDate === b.birthDate) {
+    dateScore = 0.3;
+    reasons.push('Same date of birth');
+  } else if (a.birthYear !== null && a.birthYear === b.birthYear) {
+    dateScore = 0.2;
+    reasons.push(`Born the same year (${b.birthYear})`);
+  } else if (a.birthYear !== null && b.birthYear !== null && Math.abs(a.birthYear - b.birthYear) <= CLOSE_YEAR_GAP) {
+    dateScore = 0.1;
+    reasons.push(`Born within ${CLOSE_YEAR_GAP} years (${b.birthYear})`);
+  }
+
+  return { score: NAME_WEIGHT * nameScore + dateScore, reasons };
+};
+
+const toConfidence = (score: number): DuplicateConfidence | null => {
+  if (score >= LIKELY_THRESHOLD) return 'likely';
+  if (score >= POSSIBLE_THRESHOLD) return 'possible';
+  return null;
+};
+
+const roundScore = (score: number): number => Math.round(Math.min(score, 1) * 100) / 100;
+
+/**
+ * Finds members who may be the person being entered
+ * @param draft - Details entered so far
+ * @param members - Members already in the tree
+ * @param relationships - Relationships between the members
+ * @param context - Member and relationship the person is about to be linked with, if known
+ * @returns Possible duplicates, most likely first
+ */
+export function findDuplicateCandidates<T extends DuplicateCandidate>(
+  draft: PersonDraft,
+  members: T[],
+  relationships: Relationship[],
+  context?: DraftContext | null
+): DuplicateMatch<T>[] {
+  if (!normalizeName(draft.firstName) || !normalizeName(draft.lastName)) {
+    return [];
+  }
+
+  const graph = buildRelationshipGraph(relationships);
+  const membersById = new Map<string, DuplicateCandidate>(members.map(member => [member.id, member]));
+  const relatedTo = context ? membersById.get(context.relatedTo) : undefined;
+
+  // The person takes on the surname of the relative they are being added to
+  const draftSurnames = new Map<string, string>();
+  if (context && relatedTo && SHARED_SURNAME_TYPES.has(context.relationshipType) && normalizeName(relatedTo.lastName)) {
+    draftSurnames.set(normalizeName(relatedTo.lastName), formatName(relatedTo));
+  }
+  const draftProfile = buildProfile(draft, draftSurnames);
+
+  const matches: DuplicateMatch<T>[] = [];
+  members.forEach(member => {
+    if (member.id === context?.relatedTo) return;
+
+    const profile = buildProfile(member, getRelativeSurnames(graph, member.id, membersById));
+    const part = scoreProfiles(draftProfile, profile);
+    if (!part) return;
+
+    let score = part.score;
+    const reasons = [...part.reasons];
+    if (context && relatedTo) {
+      const edge = getEdge(graph, context.relatedTo, member.id);
+      if (edge?.relationshipType === context.relationshipType) {
+        score += MAX_RELATIVE_BONUS;
+        reasons.push(`Already linked to ${formatName(relatedTo)} the same way`);
+      } else if (edge) {
+        score += SHARED_RELATIVE_BONUS;
+        reasons.push(`Already related to ${formatName(relatedTo)}`);
+      }
+    }
+
+    const confidence = toConfidence(score);
+    if (confidence) {
+      matches.push({ member, score: roundScore(score), confidence, reasons });
+    }
+  });
+
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Finds pairs of members across the whole tree who may be the same person.
+ * Every pair is compared, so this is meant for a report rather than for each keystroke.
+ * @param members - Members in the tree
+ * @param relationships - Relationships between the members
+ * @returns Possible duplicate pairs, most likely first
+ */
+export function findDuplicateMembers<T extends DuplicateCandidate>(
+  members: T[],
+  relationships: Relationship[]
+): DuplicatePair<T>[] {
+  const graph = buildRelationshipGraph(relationships);
+  const membersById = new Map<string, DuplicateCandidate>(members.map(member => [member.id, member]));
+  const profiles = members.map(member => buildProfile(member, getRelativeSurnames(graph, member.id, membersById)));
+  const pairs: DuplicatePair<T>[] = [];
+
+  for (let i = 0; i < members.length; i++) {
+    for (let j = i + 1; j < members.length; j++) {
+      const first = members[i];
+      const second = members[j];
+      // Members linked to each other are recorded as different people
+      if (getEdge(graph, first.id, second.id)) continue;
+
+      const part = scoreProfiles(profiles[i], profiles[j]);
+      if (!part) continue;
+
+      // Relatives both records are linked to in the same way, e.g. the same parent
+      const sharedRelatives = new Set<string>();
+      getEdges(graph, first.id).forEach(edge => {
+        if (getEdges(graph, second.id).some(other =>
+          other.memberId === edge.memberId && other.relationshipType === edge.relationshipType
+        )) {
+          sharedRelatives.add(edge.memberId);
+        }
+      });
+
+      const reasons = [...part.reasons];
+      sharedRelatives.forEach(relativeId => {
+        const relative = membersById.get(relativeId);
+        if (relative) reasons.push(`Both linked to ${formatName(relative)}`);
+      });
+
+      const score = part.score + Math.min(sharedRelatives.size * SHARED_RELATIVE_BONUS, MAX_RELATIVE_BONUS);
+      const confidence = toConfidence(score);
+      if (confidence) {
+        pairs.push({ first, second, score: roundScore(score), confidence, reasons });
+      }
+    }
+  }
+
+  return pairs.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addMonths,
+  getCalendarDays,
+  getAdjacentPeriod,
+  formatCalendarTitle,
+  getCalendarEntries,
+  groupEntriesByDay,
+  canMoveEvent,
+  moveEventDate,
+} from './eventCalendar';
+import { FamilyEvent, FamilyOccasion } from '../types/components';
+
+const day = (year: number, month: number, date: number, hours = 0): number =>
+  new Date(year, month - 1, date, hours).getTime();
+
+const event = (id: string, eventDate: number, extra: Partial<FamilyEvent> = {}): FamilyEvent => ({
+  id,
+  title: `Event ${id}`,
+  category: 'dinner',
+  eventDate: new Date(eventDate).toISOString(),
+  isAllDay: false,
+  attendees: [],
+  rsvps: [],
+  myRsvp: 'going',
+  isCancelled: false,
+  createdBy: 'user-1',
+  hostName: 'Maria Rivera',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...extra,
+});
+
+const birthday: FamilyOccasion = {
+  id: 'birthday-elena',
+  kind: 'birthday',
+  title: "Elena Rivera's Birthday",
+  detail: 'Turning 54',
+  memberIds: ['elena'],
+  eventDate: new Date(2025, 10, 3).toISOString(),
+  isAllDay: true,
+  years: 54,
+  recurrence: 'FREQ=YEARLY',
+};
+
+describe('eventCalendar', () => {
+  describe('getCalendarDays', () => {
+    it('should cover whole weeks around the month on the month grid', () => {
+      // November 2025 starts on a Saturday and ends on a Sunday
+      const days = getCalendarDays('month', day(2025, 11, 22));
+
+      expect(days).toHaveLength(42);
+      expect(days[0]).toBe(day(2025, 10, 26));
+      expect(days[41]).toBe(day(2025, 12, 6));
+    });
+
+    it('should show the week from Sunday, or every day of the month on the list', () => {
+      expect(getCalendarDays('week', day(2025, 11, 22))).toEqual(
+        [16, 17, 18, 19, 20, 21, 22].map(date => day(2025, 11, date))
+      );
+      expect(getCalendarDays('list', day(2025, 2, 10))).toHaveLength(28);
+    });
+  });
+
+  describe('getAdjacentPeriod', () => {
+    it('should move by a week on the week agenda and by a month otherwise', () => {
+      expect(getAdjacentPeriod('week', day(2025, 11, 29), 1)).toBe(day(2025, 12, 6));
+      expect(getAdjacentPeriod('month', day(2025, 1, 31), 1)).toBe(day(2025, 2, 28));
+      expect(addMonths(day(2025, 3, 31), -1)).toBe(day(2025, 2, 28));
+    });
+  });
+
+  describe('formatCalendarTitle', () => {
+    it('should name the month or the span of the week', () => {
+      expect(formatCalendarTitle('month', day(2025, 11, 22))).toBe('November 2025');
+      expect(formatCalendarTitle('week', day(2025, 11, 22))).toBe('Nov 16 – 22, 2025');
+      expect(formatCalendarTitle('week', day(2025, 12, 2))).toBe('Nov 30 – Dec 6, 2025');
+      expect(formatCalendarTitle('week', day(2025, 12, 31))).toBe('Dec 28, 2025 – Jan 3, 2026');
+    });
+  });
+
+  describe('getCalendarEntries', () => {
+    it('should list every occurrence of events and occasions in the span, leaving out cancelled events', () => {
+      const entries = getCalendarEntries([
+        event('book-club', day(2025, 10, 1, 19), { recurrence: 'FREQ=WEEKLY;INTERVAL=2' }),
+        event('party', day(2025, 11, 3, 18), { category: 'celebration' }),
+        event('called-off', day(2025, 11, 4, 18), { isCancelled: true }),
+      ], [birthday], day(2025, 11, 1), day(2025, 12, 1));
+
+      expect(entries.map(entry => [entry.key, entry.category])).toEqual([
+        ['birthday-elena-' + day(2025, 11, 3), 'celebration'],
+        ['event-party-' + day(2025, 11, 3, 18), 'celebration'],
+        ['event-book-club-' + day(2025, 11, 12, 19), 'dinner'],
+        ['event-book-club-' + day(2025, 11, 26, 19), 'dinner'],
+      ]);
+      expect(groupEntriesByDay(entries).get(day(2025, 11, 3))?.map(entry => entry.title)).toEqual([
+        "Elena Rivera's Birthday",
+        'Event party',
+      ]);
+    });
+  });
+
+  describe('moving events', () => {
+    it('should only move one-off events that are still on', () => {
+      expect(canMoveEvent(event('a', day(2025, 11, 3)))).toBe(true);
+      expect(canMoveEvent(event('b', day(2025, 11, 3), { recurrence: 'FREQ=MONTHLY' }))).toBe(false);
+      expect(canMoveEvent(event('c', day(2025, 11, 3), { recurrence: 'FREQ=MONTHLY;BYDAY=2SU' }))).toBe(false);
+      expect(canMoveEvent(event('d', day(2025, 11, 3), { isCancelled: true }))).toBe(false);
+    });
+
+    it('should move the event to the new day, keeping the time', () => {
+      expect(moveEventDate(new Date(day(2025, 10, 1, 19)).toISOString(), day(2025, 11, 14)))
+        .toBe(new Date(day(2025, 11, 14, 19)).toISOString());
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Events calendar helpers
+ * Days are local midnights in milliseconds since the epoch. Weeks start on Sunday, as in the
+ * US English dates the app shows.
+ */
+
+import {
+  CalendarEntry,
+  CalendarView,
+  EventCategory,
+  FamilyEvent,
+  FamilyOccasion,
+  OccasionKind
+} from '../types/components';
+import { getStartOfDay } from './eventDates';
+import { getDaysInMonth } from './genealogicalDate';
+import { getOccurrences } from './recurrence';
+
+// Category whose color each kind of family occasion is shown in, as in the occasion list
+const OCCASION_CATEGORIES: Record<OccasionKind, EventCategory> = {
+  birthday: 'celebration',
+  anniversary: 'reunion',
+  memorial: 'memorial',
+};
+
+/**
+ * Day a number of days before or after another, at local midnight whatever the clocks do
+ */
+export function addDays(day: number, days: number): number {
+  const date = new Date(day);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days).getTime();
+}
+
+/**
+ * Same day of the month a number of months before or after, or the month's last day if it
+ * is shorter
+ */
+export function addMonths(day: number, months: number): number {
+  const date = new Date(day);
+  const month = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = getDaysInMonth(month.getFullYear(), month.getMonth() + 1);
+  return new Date(month.getFullYear(), month.getMonth(), Math.min(date.getDate(), lastDay)).getTime();
+}
+
+/**
+ * Sunday starting the week a day is in
+ */
+export function getWeekStart(day: number): number {
+  return addDays(day, -new Date(day).getDay());
+}
+
+/**
+ * Days a calendar view shows around a day: whole weeks covering its month on the month grid,
+ * its week on the week agenda, and every day of its month on the list
+ */
+export function getCalendarDays(view: CalendarView, day: number): number[] {
+  const date = new Date(day);
+  const monthStart = new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+  const monthEnd = new Date(date.getFullYear(), date.getMonth() + 1, 1).getTime();
+
+  let start = monthStart;
+  let end = monthEnd;
+  if (view === 'week') {
+    start = getWeekStart(day);
+    end = addDays(start, 7);
+  } else if (view === 'month') {
+    start = getWeekStart(monthStart);
+    end = addDays(getWeekStart(addDays(monthEnd, -1)), 7);
+  }
+
+  const days: number[] = [];
+  for (let current = start; current < end; current = addDays(current, 1)) {
+    days.push(current);
+  }
+  return days;
+}
+
+/**
+ * Same day in the previous or next period a view shows: a week on the week agenda, a month otherwise
+ */
+export function getAdjacentPeriod(view: CalendarView, day: number, step: 1 | -1): number {
+  return view === 'week' ? addDays(day, 7 * step) : addMonths(day, step);
+}
+
+/**
+ * Heading of a calendar view
+ * @returns e.g. "November 2025", "Nov 16 – 22, 2025" or "Dec 28, 2025 – Jan 3, 2026"
+ */
+export function formatCalendarTitle(view: CalendarView, day: number): string {
+  if (view !== 'week') {
+    return new Date(day).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+  }
+
+  const start = new Date(getWeekStart(day));
+  const end = new Date(addDays(start.getTime(), 6));
+  const formatDay = (date: Date): string => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  if (start.getFullYear() !== end.getFullYear()) {
+    return `${formatDay(start)}, ${start.getFullYear()} – ${formatDay(end)}, ${end.getFullYear()}`;
+  }
+  if (start.getMonth() !== end.getMonth()) {
+    return `${formatDay(start)} – ${formatDay(end)}, ${end.getFullYear()}`;
+  }
+  return `${formatDay(start)} – ${end.getDate()}, ${end.getFullYear()}`;
+}
+
+/**
+ * Occurrences of events and family occasions starting within a span, soonest first
+ * Cancelled events are left out.
+ * @param occasions - Occasions dated to their next occurrence from the start of the span or earlier
+ * @param from - Start of the span, in milliseconds since the epoch
+ * @param to - End of the span (exclusive)
+ */
+export function getCalendarEntries(
+  events: FamilyEvent[],
+  occasions: FamilyOccasion[],
+  from: number,
+  to: number
+): CalendarEntry[] {
+  const eventEntries = events
+    .filter(event => !event.isCancelled)
+    .flatMap(event => getOccurrences(event, from, to).map(start => ({
+      key: `event-${event.id}-${start}`,
+      title: event.title,
+      start,
+      isAllDay: event.isAllDay,
+      category: event.category,
+      event,
+    })));
+  const occasionEntries = occasions.flatMap(occasion => getOccurrences(occasion, from, to).map(start => ({
+    key: `${occasion.id}-${start}`,
+    title: occasion.title,
+    start,
+    isAllDay: true,
+    category: OCCASION_CATEGORIES[occasion.kind],
+    occasion,
+  })));
+
+  return [...eventEntries, ...occasionEntries].sort((a, b) => a.start - b.start || a.title.localeCompare(b.title));
+}
+
+/**
+ * Calendar entries by the day they start on
+ */
+export function groupEntriesByDay(entries: CalendarEntry[]): Map<number, CalendarEntry[]> {
+  const days = new Map<number, CalendarEntry[]>();
+  entries.forEach(entry => {
+    const day = getStartOfDay(new Date(entry.start));
+    days.set(day, [...(days.get(day) || []), entry]);
+  });
+  return days;
+}
+
+/**
+ * Whether an event can be moved to another day on the calendar
+ * Only one-off events can: an occurrence of a repeating event cannot be moved on its own, and
+ * moving it must not silently move the whole series.
+ */
+export function canMoveEvent(event: FamilyEvent): boolean {
+  return !event.isCancelled && !event.recurrence;
+}
+
+/**
+ * Date of an event moved to another day, at the same time of day
+ * @param eventDate - The event's date
+ * @param toDay - Day it moves to
+ * @returns ISO date-time of the moved event
+ */
+export function moveEventDate(eventDate: string, toDay: number): string {
+  const date = new Date(eventDate);
+  const day = new Date(toDay);
+  return new Date(
+    day.getFullYear(), day.getMonth(), day.getDate(), date.getHours(), date.getMinutes()
+  ).toISOString();
+}
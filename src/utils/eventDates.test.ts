@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toEventDate,
+  getStartOfDay,
+  isEventOnDay,
+  getEventDateBadge,
+  formatEventTime,
+  formatEventSchedule,
+} from './eventDates';
+
+describe('eventDates', () => {
+  describe('toEventDate', () => {
+    it('should combine a local date and time', () => {
+      expect(toEventDate('2025-11-22', '18:30')).toEqual({
+        eventDate: new Date(2025, 10, 22, 18, 30).toISOString(),
+        isAllDay: false,
+      });
+    });
+
+    it('should make an event without a time last all day from local midnight', () => {
+      expect(toEventDate('2025-12-05', '')).toEqual({
+        eventDate: new Date(2025, 11, 5).toISOString(),
+        isAllDay: true,
+      });
+    });
+
+    it('should reject missing and impossible dates', () => {
+      expect(toEventDate('', '18:00')).toBeNull();
+      expect(toEventDate('2025-02-30', '')).toBeNull();
+      expect(toEventDate('2025-11-22', '6pm')).toBeNull();
+    });
+  });
+
+  it('should find the start of the local day', () => {
+    expect(getStartOfDay(new Date(2025, 10, 22, 18, 30))).toBe(new Date(2025, 10, 22).getTime());
+  });
+
+  it('should tell whether an event is on a given day', () => {
+    const event = { eventDate: new Date(2025, 10, 22, 23, 59).toISOString() };
+    expect(isEventOnDay(event, new Date(2025, 10, 22, 1, 0))).toBe(true);
+    expect(isEventOnDay(event, new Date(2025, 10, 23, 0, 0))).toBe(false);
+  });
+
+  it('should give the date badge of an event', () => {
+    expect(getEventDateBadge({ eventDate: new Date(2025, 11, 5, 14, 0).toISOString() })).toEqual({ day: '05', month: 'DEC' });
+  });
+
+  it('should format the time and weekday of an event', () => {
+    const dinner = { eventDate: new Date(2025, 10, 22, 18, 0).toISOString(), isAllDay: false };
+    const birthday = { eventDate: new Date(2025, 11, 7).toISOString(), isAllDay: true };
+
+    expect(formatEventTime(dinner)).toBe('6:00 PM');
+    expect(formatEventTime(birthday)).toBe('All Day');
+    expect(formatEventSchedule(dinner)).toBe('Saturday, 6:00 PM');
+    expect(formatEventSchedule(birthday)).toBe('Sunday, All Day');
+  });
+});
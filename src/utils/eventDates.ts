@@ -0,0 +1,73 @@
+/**
+ * Event date helpers
+ * Events are stored as ISO date-times; all-day events start at local midnight and have no time shown
+ */
+
+import { FamilyEvent } from '../types/api';
+
+/**
+ * Builds the stored date of an event from the date and time picked in a form
+ * @param date - Local date, YYYY-MM-DD
+ * @param time - Local time, HH:MM; empty for an all-day event
+ * @returns ISO date-time of the event and whether it lasts all day, or null for an invalid date
+ */
+export function toEventDate(date: string, time: string): { eventDate: string; isAllDay: boolean } | null {
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  if (!dateMatch) return null;
+
+  const timeMatch = /^(\d{2}):(\d{2})$/.exec(time);
+  if (time && !timeMatch) return null;
+
+  const [year, month, day] = dateMatch.slice(1).map(Number);
+  const [hours, minutes] = timeMatch ? timeMatch.slice(1).map(Number) : [0, 0];
+  const value = new Date(year, month - 1, day, hours, minutes);
+  if (value.getMonth() !== month - 1 || value.getDate() !== day) return null;
+
+  return { eventDate: value.toISOString(), isAllDay: !timeMatch };
+}
+
+/**
+ * Start of the local day a moment falls on
+ * @param date - The moment
+ * @returns Milliseconds since the epoch at local midnight
+ */
+export function getStartOfDay(date: Date): number {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+}
+
+/**
+ * Whether an event is on the same local day as a moment
+ */
+export function isEventOnDay(event: Pick<FamilyEvent, 'eventDate'>, date: Date): boolean {
+  return getStartOfDay(new Date(event.eventDate)) === getStartOfDay(date);
+}
+
+/**
+ * Day of the month and short month of an event, as shown on its date badge
+ * @returns e.g. { day: '05', month: 'DEC' }
+ */
+export function getEventDateBadge(event: Pick<FamilyEvent, 'eventDate'>): { day: string; month: string } {
+  const date = new Date(event.eventDate);
+  return {
+    day: String(date.getDate()).padStart(2, '0'),
+    month: date.toLocaleDateString('en-US', { month: 'short' }).toUpperCase(),
+  };
+}
+
+/**
+ * Time an event starts
+ * @returns e.g. "6:00 PM", or "All Day"
+ */
+export function formatEventTime(event: Pick<FamilyEvent, 'eventDate' | 'isAllDay'>): string {
+  if (event.isAllDay) return 'All Day';
+  return new Date(event.eventDate).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+}
+
+/**
+ * Weekday and time an event starts
+ * @returns e.g. "Saturday, 6:00 PM" or "Sunday, All Day"
+ */
+export function formatEventSchedule(event: Pick<FamilyEvent, 'eventDate' | 'isAllDay'>): string {
+  const weekday = new Date(event.eventDate).toLocaleDateString('en-US', { weekday: 'long' });
+  return `${weekday}, ${formatEventTime(event)}`;
+}
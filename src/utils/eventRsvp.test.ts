@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { getMemberRsvp, clampGuestCount, summarizeRsvps, groupGuestList } from './eventRsvp';
+import { EventGuest, EventRsvp, RsvpResponse } from '../types/components';
+
+const rsvp = (memberId: string, response: RsvpResponse, guestCount = 0, dietaryNotes?: string): EventRsvp => ({
+  memberId,
+  response,
+  guestCount,
+  dietaryNotes,
+  respondedAt: '2025-01-01T00:00:00.000Z',
+});
+
+const guest = (id: string, firstName: string, lastName = 'Rivera'): EventGuest => ({ id, firstName, lastName });
+
+describe('eventRsvp', () => {
+  describe('getMemberRsvp', () => {
+    it("should find a member's reply, or null before they reply", () => {
+      const event = { rsvps: [rsvp('member-1', 'maybe')] };
+
+      expect(getMemberRsvp(event, 'member-1')?.response).toBe('maybe');
+      expect(getMemberRsvp(event, 'member-2')).toBeNull();
+    });
+  });
+
+  describe('clampGuestCount', () => {
+    it('should keep plus-ones a whole number within the limit', () => {
+      expect(clampGuestCount(2)).toBe(2);
+      expect(clampGuestCount(2.6)).toBe(3);
+      expect(clampGuestCount(-1)).toBe(0);
+      expect(clampGuestCount(25)).toBe(10);
+      expect(clampGuestCount(NaN)).toBe(0);
+    });
+  });
+
+  describe('summarizeRsvps', () => {
+    it('should count replies and the plus-ones of members going', () => {
+      const summary = summarizeRsvps({
+        attendees: ['member-1', 'member-2', 'member-3', 'member-4', 'member-5'],
+        rsvps: [
+          rsvp('member-1', 'going', 2),
+          rsvp('member-2', 'going'),
+          rsvp('member-3', 'maybe', 1),
+          rsvp('member-4', 'declined'),
+        ],
+      });
+
+      expect(summary).toEqual({ going: 2, maybe: 1, declined: 1, noResponse: 1, guests: 2, headcount: 4 });
+    });
+
+    it('should ignore replies from members no longer invited', () => {
+      const summary = summarizeRsvps({ attendees: ['member-1'], rsvps: [rsvp('member-9', 'going', 3)] });
+
+      expect(summary).toEqual({ going: 0, maybe: 0, declined: 0, noResponse: 1, guests: 0, headcount: 0 });
+    });
+  });
+
+  describe('groupGuestList', () => {
+    it('should group invited members by reply, each group sorted by name', () => {
+      const event = {
+        attendees: ['member-1', 'member-2', 'member-3', 'member-4'],
+        rsvps: [rsvp('member-1', 'going', 1, 'Vegetarian'), rsvp('member-3', 'going'), rsvp('member-4', 'declined')],
+      };
+      const guests = [guest('member-1', 'Sarah'), guest('member-2', 'Leo'), guest('member-3', 'Elena'), guest('member-4', 'Mike')];
+
+      const groups = groupGuestList(event, guests);
+
+      expect(groups.map(group => group.status)).toEqual(['going', 'declined', 'no_response']);
+      expect(groups[0].entries.map(entry => entry.guest.firstName)).toEqual(['Elena', 'Sarah']);
+      expect(groups[0].entries[1].rsvp).toMatchObject({ guestCount: 1, dietaryNotes: 'Vegetarian' });
+      expect(groups[2].entries).toEqual([{ guest: guests[1], rsvp: null }]);
+    });
+
+    it('should skip invited members who are not in the tree', () => {
+      const groups = groupGuestList({ attendees: ['member-1', 'removed'], rsvps: [] }, [guest('member-1', 'Sarah')]);
+
+      expect(groups).toEqual([{ status: 'no_response', entries: [{ guest: guest('member-1', 'Sarah'), rsvp: null }] }]);
+    });
+  });
+});
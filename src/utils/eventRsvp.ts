@@ -0,0 +1,101 @@
+/**
+ * Event RSVP helpers
+ * Every invited family member either has a reply (going, maybe or declined) or has not replied yet
+ */
+
+import { EventGuest, EventRsvp, FamilyEvent, RsvpResponse } from '../types/components';
+
+// Most plus-ones one member can bring
+export const MAX_RSVP_GUESTS = 10;
+
+// Reply state of an invited member, including not having replied
+export type RsvpStatus = RsvpResponse | 'no_response';
+
+export interface RsvpSummary {
+  going: number;
+  maybe: number;
+  declined: number;
+  noResponse: number;
+  // Plus-ones of the members going
+  guests: number;
+  // Everyone expected: members going and their plus-ones
+  headcount: number;
+}
+
+export interface GuestListEntry {
+  guest: EventGuest;
+  rsvp: EventRsvp | null;
+}
+
+export interface GuestListGroup {
+  status: RsvpStatus;
+  entries: GuestListEntry[];
+}
+
+const STATUS_ORDER: RsvpStatus[] = ['going', 'maybe', 'declined', 'no_response'];
+
+/**
+ * Reply of one invited member
+ * @returns The reply, or null if the member has not replied
+ */
+export function getMemberRsvp(event: Pick<FamilyEvent, 'rsvps'>, memberId: string): EventRsvp | null {
+  return event.rsvps.find(rsvp => rsvp.memberId === memberId) || null;
+}
+
+/**
+ * Keeps a plus-one count a whole number between none and MAX_RSVP_GUESTS
+ */
+export function clampGuestCount(count: number): number {
+  if (!Number.isFinite(count)) return 0;
+  return Math.min(MAX_RSVP_GUESTS, Math.max(0, Math.round(count)));
+}
+
+/**
+ * Counts the replies to an event
+ * Replies from members no longer invited are ignored; plus-ones only count for members going.
+ */
+export function summarizeRsvps(event: Pick<FamilyEvent, 'attendees' | 'rsvps'>): RsvpSummary {
+  const summary: RsvpSummary = { going: 0, maybe: 0, declined: 0, noResponse: 0, guests: 0, headcount: 0 };
+
+  event.attendees.forEach(memberId => {
+    const rsvp = getMemberRsvp(event, memberId);
+    if (!rsvp) {
+      summary.noResponse++;
+      return;
+    }
+    summary[rsvp.response]++;
+    if (rsvp.response === 'going') {
+      summary.guests += rsvp.guestCount;
+    }
+  });
+  summary.headcount = summary.going + summary.guests;
+
+  return summary;
+}
+
+/**
+ * Invited members grouped by their reply, for the host's guest list
+ * Groups come in the order going, maybe, declined, not replied; empty groups are left out.
+ * Members who are not in the tree are skipped.
+ * @param event - The event
+ * @param guests - Family members, at least those invited
+ * @returns Groups of invited members, each sorted by name
+ */
+export function groupGuestList(event: Pick<FamilyEvent, 'attendees' | 'rsvps'>, guests: EventGuest[]): GuestListGroup[] {
+  const guestsById = new Map(guests.map(guest => [guest.id, guest]));
+  const groups = new Map<RsvpStatus, GuestListEntry[]>(STATUS_ORDER.map(status => [status, []]));
+
+  event.attendees.forEach(memberId => {
+    const guest = guestsById.get(memberId);
+    if (!guest) return;
+    const rsvp = getMemberRsvp(event, memberId);
+    groups.get(rsvp ? rsvp.response : 'no_response')?.push({ guest, rsvp });
+  });
+
+  const byName = (a: GuestListEntry, b: GuestListEntry): number =>
+    `${a.guest.firstName} ${a.guest.lastName}`.localeCompare(`${b.guest.firstName} ${b.guest.lastName}`);
+
+  return STATUS_ORDER
+    .map(status => ({ status, entries: (groups.get(status) || []).sort(byName) }))
+    .filter(group => group.entries.length > 0);
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { generateFamilyOccasions, getAnniversaryDate, getOccasionsWithin } from './familyOccasions';
+import { FamilyMember, Relationship } from '../types/api';
+
+const member = (id: string, firstName: string, extra: Partial<FamilyMember> = {}): FamilyMember => ({
+  id,
+  firstName,
+  lastName: 'Rivera',
+  isLiving: true,
+  createdBy: 'user-1',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...extra,
+});
+
+const spouses = (id: string, fromUserId: string, toUserId: string, extra: Partial<Relationship> = {}): Relationship => ({
+  id,
+  fromUserId,
+  toUserId,
+  relationshipType: 'spouse',
+  partnershipStatus: 'married',
+  startDate: '1975-06-14',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  ...extra,
+});
+
+// 1 March 2025, local time
+const from = new Date(2025, 2, 1).getTime();
+const localDate = (year: number, month: number, day: number): string => new Date(year, month - 1, day).toISOString();
+
+describe('familyOccasions', () => {
+  describe('getAnniversaryDate', () => {
+    it('should move a leap day to the end of February in common years', () => {
+      expect(getAnniversaryDate({ month: 2, day: 29 }, 2025)).toEqual(new Date(2025, 1, 28));
+      expect(getAnniversaryDate({ month: 2, day: 29 }, 2028)).toEqual(new Date(2028, 1, 29));
+    });
+  });
+
+  describe('generateFamilyOccasions', () => {
+    it("should give living members birthdays with the age they're turning", () => {
+      const occasions = generateFamilyOccasions([member('elena', 'Elena', { dateOfBirth: '1971-10-25' })], [], from);
+
+      expect(occasions).toEqual([{
+        id: 'birthday-elena',
+        kind: 'birthday',
+        title: "Elena Rivera's Birthday",
+        detail: 'Turning 54',
+        memberIds: ['elena'],
+        eventDate: localDate(2025, 10, 25),
+        isAllDay: true,
+        years: 54,
+        recurrence: 'FREQ=YEARLY',
+      }]);
+    });
+
+    it('should move birthdays already passed this year to next year, keeping today', () => {
+      const occasions = generateFamilyOccasions([
+        member('leo', 'Leo', { dateOfBirth: '2020-02-01' }),
+        member('sofia', 'Sofia', { dateOfBirth: '2000-03-01' }),
+      ], [], from);
+
+      expect(occasions.map(o => [o.id, o.eventDate, o.detail])).toEqual([
+        ['birthday-sofia', localDate(2025, 3, 1), 'Turning 25'],
+        ['birthday-leo', localDate(2026, 2, 1), 'Turning 6'],
+      ]);
+    });
+
+    it('should remember members who have died on their birthday and the day they died', () => {
+      const antonio = member('antonio', 'Antonio', { isLiving: false, dateOfBirth: '1935-04-02', dateOfDeath: '2015-11-30' });
+
+      expect(generateFamilyOccasions([antonio], [], from).map(o => [o.kind, o.title, o.detail])).toEqual([
+        ['memorial', 'Remembering Antonio Rivera', 'Would have turned 90'],
+        ['memorial', 'Remembering Antonio Rivera', '10 years since passing'],
+      ]);
+    });
+
+    it('should leave out partial and approximate dates and ancestors beyond living memory', () => {
+      const occasions = generateFamilyOccasions([
+        member('a', 'Ana', { dateOfBirth: '1950' }),
+        member('b', 'Beto', { dateOfBirth: '1950-03' }),
+        member('c', 'Carla', { dateOfBirth: 'ABT 1950-03-14' }),
+        member('d', 'Diego', { isLiving: false, dateOfBirth: '1850-03-14' }),
+      ], [], from);
+
+      expect(occasions).toEqual([]);
+    });
+
+    it('should repeat leap day birthdays on the last day of February', () => {
+      const [occasion] = generateFamilyOccasions([member('mia', 'Mia', { dateOfBirth: '2004-02-29' })], [], new Date(2025, 1, 1).getTime());
+
+      expect(occasion.eventDate).toBe(localDate(2025, 2, 28));
+      expect(occasion.recurrence).toBe('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=-1');
+    });
+
+    it('should give married couples who are both living one wedding anniversary', () => {
+      const members = [
+        member('carlos', 'Carlos'),
+        member('maria', 'Maria'),
+        member('jose', 'Jose', { lastName: 'Garcia' }),
+        member('ines', 'Ines', { isLiving: false }),
+        member('luis', 'Luis'),
+        member('paula', 'Paula', { lastName: 'Lopez' }),
+      ];
+      const relationships = [
+        spouses('rel-1', 'carlos', 'maria'),
+        spouses('rel-2', 'maria', 'carlos'),
+        spouses('rel-3', 'jose', 'luis', { partnershipStatus: 'divorced' }),
+        spouses('rel-4', 'luis', 'ines'),
+        spouses('rel-5', 'jose', 'paula', { partnershipStatus: undefined, startDate: '2020-04-01' }),
+      ];
+
+      expect(generateFamilyOccasions(members, relationships, from).map(o => [o.id, o.title, o.detail, o.memberIds])).toEqual([
+        ['anniversary-rel-5', "Jose Garcia & Paula Lopez's Anniversary", '5th anniversary', ['jose', 'paula']],
+        ['anniversary-rel-1', "Carlos & Maria Rivera's Anniversary", '50th anniversary', ['carlos', 'maria']],
+      ]);
+    });
+  });
+
+  describe('getOccasionsWithin', () => {
+    it('should keep occasions within the given number of days', () => {
+      const occasions = generateFamilyOccasions([
+        member('a', 'Ana', { dateOfBirth: '1980-03-07' }),
+        member('b', 'Beto', { dateOfBirth: '1980-03-08' }),
+      ], [], from);
+
+      expect(getOccasionsWithin(occasions, from, 7).map(o => o.id)).toEqual(['birthday-a']);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Family occasions
+ * Birthdays, wedding anniversaries and memorial dates worked out from the family tree,
+ * so nobody has to add them as events. Only dates with a known day and month are used.
+ */
+
+import { FamilyMember, Relationship } from '../types/api';
+import { FamilyOccasion } from '../types/components';
+import { DateParts, parseGenealogicalDate } from './genealogicalDate';
+import { formatOrdinal } from './recurrence';
+
+// Occasions more years than this after the date they mark are left to the tree
+const MAX_MEMORIAL_YEARS = 120;
+
+const YEARLY = 'FREQ=YEARLY';
+// Leap day dates are marked on the last day of February in other years
+const YEARLY_LEAP_DAY = 'FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=-1';
+
+const fullName = (member: Pick<FamilyMember, 'firstName' | 'lastName'>): string =>
+  `${member.firstName} ${member.lastName}`.trim();
+
+const isDeceased = (member: FamilyMember): boolean => !member.isLiving || Boolean(member.dateOfDeath);
+
+/**
+ * Day and month of a stored date, if both are known exactly
+ */
+function getExactDay(value?: string | null): Required<DateParts> | null {
+  const date = parseGenealogicalDate(value);
+  if (!date || date.qualifier !== 'exact' || !date.date.month || !date.date.day) return null;
+  return { year: date.date.year, month: date.date.month, day: date.date.day };
+}
+
+const isLeapDay = (date: Required<DateParts>): boolean => date.month === 2 && date.day === 29;
+
+/**
+ * Local midnight of a date's anniversary in a year
+ * A 29 February date falls on 28 February in common years.
+ */
+export function getAnniversaryDate(date: { month: number; day: number }, year: number): Date {
+  const anniversary = new Date(year, date.month - 1, date.day);
+  return anniversary.getMonth() === date.month - 1 ? anniversary : new Date(year, date.month, 0);
+}
+
+/**
+ * Next anniversary of a date from a moment on
+ * @param date - Date with a known day and month
+ * @param from - Milliseconds since the epoch, usually the start of today
+ * @returns The anniversary and how many years after the date it is
+ */
+function getNextAnniversary(date: Required<DateParts>, from: number): { date: Date; years: number } {
+  const fromYear = new Date(from).getFullYear();
+  const thisYear = getAnniversaryDate(date, fromYear);
+  const year = thisYear.getTime() >= from ? fromYear : fromYear + 1;
+  return { date: year === fromYear ? thisYear : getAnniversaryDate(date, year), years: year - date.year };
+}
+
+/**
+ * Works out each family occasion's next date
+ * Living members get birthdays; members who have died are remembered on their birthday
+ * ("Would have turned 90") and on the anniversary of their death. Married couples who are
+ * both living get wedding anniversaries from their spouse relationship's start date.
+ * @param members - Family members
+ * @param relationships - Relationships between them
+ * @param from - Milliseconds since the epoch; occasions before this move to the next year
+ * @returns Occasions, soonest first
+ */
+export function generateFamilyOccasions(
+  members: FamilyMember[],
+  relationships: Relationship[],
+  from: number
+): FamilyOccasion[] {
+  const occasions: FamilyOccasion[] = [];
+
+  const addOccasion = (
+    occasion: Omit<FamilyOccasion, 'eventDate' | 'isAllDay' | 'years' | 'recurrence' | 'detail'>,
+    date: Required<DateParts>,
+    describe: (years: number) => string
+  ): void => {
+    const next = getNextAnniversary(date, from);
+    if (next.years < 1 || (occasion.kind === 'memorial' && next.years > MAX_MEMORIAL_YEARS)) return;
+    occasions.push({
+      ...occasion,
+      detail: describe(next.years),
+      eventDate: next.date.toISOString(),
+      isAllDay: true,
+      years: next.years,
+      recurrence: isLeapDay(date) ? YEARLY_LEAP_DAY : YEARLY,
+    });
+  };
+
+  members.forEach(member => {
+    const name = fullName(member);
+    const birth = getExactDay(member.dateOfBirth);
+
+    if (!isDeceased(member)) {
+      if (birth) {
+        addOccasion(
+          { id: `birthday-${member.id}`, kind: 'birthday', title: `${name}'s Birthday`, memberIds: [member.id] },
+          birth,
+          years => `Turning ${years}`
+        );
+      }
+      return;
+    }
+
+    if (birth) {
+      addOccasion(
+        { id: `memorial-birth-${member.id}`, kind: 'memorial', title: `Remembering ${name}`, memberIds: [member.id] },
+        birth,
+        years => `Would have turned ${years}`
+      );
+    }
+    const death = getExactDay(member.dateOfDeath);
+    if (death) {
+      addOccasion(
+        { id: `memorial-death-${member.id}`, kind: 'memorial', title: `Remembering ${name}`, memberIds: [member.id] },
+        death,
+        years => `${years} ${years === 1 ? 'year' : 'years'} since passing`
+      );
+    }
+  });
+
+  const membersById = new Map(members.map(member => [member.id, member]));
+  const couples = new Set<string>();
+  relationships.forEach(relationship => {
+    if (relationship.relationshipType !== 'spouse') return;
+    if (relationship.partnershipStatus && relationship.partnershipStatus !== 'married') return;
+
+    // A couple may be linked in both directions; count them once
+    const couple = [relationship.fromUserId, relationship.toUserId].sort().join(':');
+    const partners = [membersById.get(relationship.fromUserId), membersById.get(relationship.toUserId)];
+    const wedding = getExactDay(relationship.startDate);
+    if (couples.has(couple) || !wedding || partners.some(partner => !partner || isDeceased(partner))) return;
+    couples.add(couple);
+
+    const [first, second] = partners as FamilyMember[];
+    const title = first.lastName === second.lastName
+      ? `${first.firstName} & ${second.firstName} ${first.lastName}'s Anniversary`
+      : `${fullName(first)} & ${fullName(second)}'s Anniversary`;
+    addOccasion(
+      { id: `anniversary-${relationship.id}`, kind: 'anniversary', title, memberIds: [first.id, second.id] },
+      wedding,
+      years => `${formatOrdinal(years)} anniversary`
+    );
+  });
+
+  return occasions.sort((a, b) => a.eventDate.localeCompare(b.eventDate) || a.title.localeCompare(b.title));
+}
+
+/**
+ * Occasions within a number of days from a moment on
+ * @param occasions - Occasions, as generated from that moment
+ * @param from - Milliseconds since the epoch, usually the start of today
+ * @param days - Days to look ahead, including the first
+ */
+export function getOccasionsWithin(occasions: FamilyOccasion[], from: number, days: number): FamilyOccasion[] {
+  const start = new Date(from);
+  const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + days).getTime();
+  return occasions.filter(occasion => new Date(occasion.eventDate).getTime() < end);
+}
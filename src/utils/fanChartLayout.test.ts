@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { calculateFanChartLayout, FAN_CENTRE_RADIUS, FAN_RING_WIDTH } from './fanChartLayout';
+import { buildTreeStructure } from './treeLayout';
+import { FamilyMember, Relationship, TreeNodeData } from '../types/components';
+
+const member = (id: string, gender?: FamilyMember['gender']): FamilyMember => ({
+  id,
+  firstName: id.charAt(0).toUpperCase() + id.slice(1),
+  lastName: 'Evans',
+  gender,
+  createdBy: 'user-1',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+});
+
+const parentOf = (parentId: string, childId: string, extra: Partial<Relationship> = {}): Relationship => ({
+  id: `${parentId}-${childId}`,
+  fromUserId: parentId,
+  toUserId: childId,
+  relationshipType: 'parent',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  ...extra,
+});
+
+// Rose, her parents Tom and Ann, Tom's father Arthur, and Ann's stepfather
+const members = [
+  member('rose', 'female'),
+  member('tom', 'male'),
+  member('ann', 'female'),
+  member('arthur', 'male'),
+  member('step', 'male'),
+];
+const relationships = [
+  parentOf('ann', 'rose'),
+  parentOf('tom', 'rose'),
+  parentOf('arthur', 'tom'),
+  parentOf('step', 'ann', { lineage: 'step' }),
+];
+
+const layoutFor = (generations: number) =>
+  calculateFanChartLayout(buildTreeStructure(members, relationships, 'rose') as TreeNodeData, generations);
+
+describe('fanChartLayout', () => {
+  it('should give every known line a sector, keeping empty places for missing parents of known members', () => {
+    const layout = layoutFor(2);
+
+    expect(layout.sectors.map(sector => `${sector.number}:${sector.member?.id || '-'}`)).toEqual([
+      '1:rose', '2:tom', '3:ann', '4:arthur', '5:-', '6:-', '7:-'
+    ]);
+    expect(layout.sectors[3].label).toBe('Paternal grandfather');
+    expect(layout.radius).toBe(FAN_CENTRE_RADIUS + 2 * FAN_RING_WIDTH);
+  });
+
+  it('should stop at the generation limit', () => {
+    expect(layoutFor(1).sectors.map(sector => sector.number)).toEqual([1, 2, 3]);
+  });
+
+  it('should put fathers on the left and mothers on the right, outside their child', () => {
+    const sectors = layoutFor(2).sectors;
+    const [root, father, mother, grandfather] = sectors;
+
+    expect(root.path).toBe(`M -${FAN_CENTRE_RADIUS} 0 A ${FAN_CENTRE_RADIUS} ${FAN_CENTRE_RADIUS} 0 0 1 ${FAN_CENTRE_RADIUS} 0 L 0 0 Z`);
+    expect(father.labelX).toBeLessThan(0);
+    expect(mother.labelX).toBeGreaterThan(0);
+    expect(father.labelY).toBeLessThan(0);
+    expect(Math.hypot(grandfather.labelX, grandfather.labelY))
+      .toBeCloseTo(FAN_CENTRE_RADIUS + FAN_RING_WIDTH * 1.5);
+    expect(grandfather.labelX).toBeLessThan(0);
+  });
+
+  it('should turn names of outer generations along the radius without turning them upside down', () => {
+    const layout = calculateFanChartLayout(buildTreeStructure(members, relationships, 'rose') as TreeNodeData, 3);
+    const rotations = layout.sectors.filter(sector => sector.generation === 3).map(sector => sector.labelRotation);
+
+    expect(layout.sectors.filter(sector => sector.generation < 3).every(sector => sector.labelRotation === 0)).toBe(true);
+    expect(rotations.every(rotation => rotation >= -90 && rotation <= 90)).toBe(true);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Fan chart layout
+ * Lays out the ancestors of one member as a half-circle fan: the member at the centre and
+ * each generation of parents one ring further out, fathers' lines on the left
+ */
+
+import { FamilyMember, TreeNodeData } from '../types/components';
+import { assignParentPlaces, getPedigreeLabel, PEDIGREE_LINEAGES } from './pedigreeLayout';
+
+export const FAN_CENTRE_RADIUS = 70;
+export const FAN_RING_WIDTH = 80;
+
+// Generations from which names run along the radius instead of across the sector
+export const FAN_RADIAL_LABEL_GENERATION = 3;
+
+export interface FanSector {
+  // Ahnentafel number: 1 for the root member, 2n for the father and 2n + 1 for the mother of n
+  number: number;
+  generation: number;
+  // Missing when the ancestor is not in the tree
+  member: FamilyMember | null;
+  // What the ancestor is to the root member, e.g. "Paternal grandmother"
+  label: string;
+  // SVG path data of the sector, around the centre of the fan
+  path: string;
+  // Where the name is drawn, and its rotation in degrees
+  labelX: number;
+  labelY: number;
+  labelRotation: number;
+}
+
+export interface FanChartLayout {
+  sectors: FanSector[];
+  radius: number;
+}
+
+/**
+ * Point on the fan at an angle, in degrees from the left end of the fan over the top
+ */
+function pointAt(angle: number, radius: number): { x: number; y: number } {
+  const radians = (angle * Math.PI) / 180;
+  return { x: -Math.cos(radians) * radius, y: -Math.sin(radians) * radius };
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * SVG path of a ring sector between two angles and two radii
+ */
+function sectorPath(startAngle: number, endAngle: number, innerRadius: number, outerRadius: number): string {
+  const outerStart = pointAt(startAngle, outerRadius);
+  const outerEnd = pointAt(endAngle, outerRadius);
+  const innerStart = pointAt(startAngle, innerRadius);
+  const innerEnd = pointAt(endAngle, innerRadius);
+  const largeArc = endAngle - startAngle > 180 ? 1 : 0;
+
+  return [
+    `M ${round(outerStart.x)} ${round(outerStart.y)}`,
+    `A ${outerRadius} ${outerRadius} 0 ${largeArc} 1 ${round(outerEnd.x)} ${round(outerEnd.y)}`,
+    `L ${round(innerEnd.x)} ${round(innerEnd.y)}`,
+    innerRadius > 0 ? `A ${innerRadius} ${innerRadius} 0 ${largeArc} 0 ${round(innerStart.x)} ${round(innerStart.y)}` : '',
+    'Z',
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * Finds the father and mother of a tree node that a fan chart shows
+ */
+function getFanParents(node: TreeNodeData): { father?: TreeNodeData; mother?: TreeNodeData } {
+  const lineageOf = (parent: TreeNodeData) => node.parentLineage?.[parent.member.id] || 'biological';
+  const parents = node.parents
+    .filter(parent => PEDIGREE_LINEAGES.includes(lineageOf(parent)))
+    .sort((a, b) => PEDIGREE_LINEAGES.indexOf(lineageOf(a)) - PEDIGREE_LINEAGES.indexOf(lineageOf(b)));
+
+  const { father, mother } = assignParentPlaces(parents.map(parent => ({ node: parent, gender: parent.member.gender })));
+  return { father: father?.node, mother: mother?.node };
+}
+
+/**
+ * Calculate the fan chart of a member
+ * Every ancestor of generation n gets an equal share (1 / 2^n) of the half circle, so a
+ * line's sectors always sit directly outside the sector of the child they descend to.
+ * Places of missing ancestors are kept as empty sectors while their child is known.
+ * @param rootNode - Tree node of the member at the centre (see buildTreeStructure)
+ * @param generations - Generations of ancestors shown
+ * @returns Sectors in Ahnentafel order, and the radius of the whole fan
+ */
+export function calculateFanChartLayout(rootNode: TreeNodeData, generations: number): FanChartLayout {
+  const sectors: FanSector[] = [];
+
+  const place = (node: TreeNodeData | null, number: number, generation: number, lineIds: Set<string>): void => {
+    const share = 180 / 2 ** generation;
+    const startAngle = (number - 2 ** generation) * share;
+    const endAngle = startAngle + share;
+    const innerRadius = generation === 0 ? 0 : FAN_CENTRE_RADIUS + (generation - 1) * FAN_RING_WIDTH;
+    const outerRadius = generation === 0 ? FAN_CENTRE_RADIUS : innerRadius + FAN_RING_WIDTH;
+
+    const midAngle = (startAngle + endAngle) / 2;
+    const labelPoint = generation === 0 ? { x: 0, y: -FAN_CENTRE_RADIUS / 2 } : pointAt(midAngle, (innerRadius + outerRadius) / 2);
+    // Radial names are turned so they never read upside down
+    const labelRotation = generation < FAN_RADIAL_LABEL_GENERATION ? 0 : midAngle < 90 ? midAngle : midAngle - 180;
+
+    sectors.push({
+      number,
+      generation,
+      member: node?.member || null,
+      label: getPedigreeLabel(number),
+      path: sectorPath(startAngle, endAngle, innerRadius, outerRadius),
+      labelX: round(labelPoint.x),
+      labelY: round(labelPoint.y),
+      labelRotation: round(labelRotation),
+    });
+
+    if (!node || generation >= generations) return;
+
+    const { father, mother } = getFanParents(node);
+    [father, mother].forEach((parent, index) => {
+      // A parent link loop is cut where it repeats
+      const known = parent && !lineIds.has(parent.member.id) ? parent : null;
+      place(known, number * 2 + index, generation + 1, known ? new Set([...lineIds, known.member.id]) : lineIds);
+    });
+  };
+
+  place(rootNode, 1, 0, new Set([rootNode.member.id]));
+
+  return {
+    sectors: sectors.sort((a, b) => a.number - b.number),
+    radius: FAN_CENTRE_RADIUS + generations * FAN_RING_WIDTH,
+  };
+}
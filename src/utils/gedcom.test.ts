@@ -0,0 +1,482 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseGedcom,
+  parseGedcomDate,
+  previewGedcomImport,
+  buildGedcomImportRequest,
+  formatGedcomDate,
+  exportGedcom
+} from './gedcom';
+import { FamilyMember, Relationship } from '../types/api';
+
+const SAMPLE_GEDCOM = [
+  '0 HEAD',
+  '1 GEDC',
+  '2 VERS 5.5.1',
+  '1 CHAR UTF-8',
+  '0 @I1@ INDI',
+  '1 NAME John Robert /Smith/',
+  '1 SEX M',
+  '1 BIRT',
+  '2 DATE 12 MAR 1950',
+  '2 PLAC Boston, Massachusetts',
+  '1 OCCU Carpenter',
+  '1 FAMS @F1@',
+  '0 @I2@ INDI',
+  '1 NAME Mary /Jones/',
+  '1 SEX F',
+  '1 BIRT',
+  '2 DATE EST 1952',
+  '1 DEAT',
+  '2 DATE 3 JAN 2010',
+  '1 NOTE Loved gardening',
+  '2 CONT and baking.',
+  '1 FAMS @F1@',
+  '0 @I3@ INDI',
+  '1 NAME Anna /Smith/',
+  '1 SEX F',
+  '1 BAPM',
+  '2 DATE 1 JUN 1980',
+  '1 FAMC @F1@',
+  '0 @F1@ FAM',
+  '1 HUSB @I1@',
+  '1 WIFE @I2@',
+  '1 CHIL @I3@',
+  '1 CHIL @I9@',
+  '0 @S1@ SOUR',
+  '1 TITL Parish register',
+  'this line is garbage',
+  '0 TRLR',
+].join('\n');
+
+describe('gedcom', () => {
+  describe('parseGedcomDate', () => {
+    it('should convert exact dates to YYYY-MM-DD', () => {
+      expect(parseGedcomDate('12 MAR 1950')).toEqual({ date: '1950-03-12', approximate: false });
+      expect(parseGedcomDate('1 jan 2001')).toEqual({ date: '2001-01-01', approximate: false });
+    });
+
+    it('should keep only the known parts of partial dates', () => {
+      expect(parseGedcomDate('MAR 1950').date).toBe('1950-03');
+      expect(parseGedcomDate('1950').date).toBe('1950');
+    });
+
+    it('should keep qualified and ranged dates', () => {
+      expect(parseGedcomDate('ABT 1900')).toEqual({ date: 'ABT 1900', approximate: false });
+      expect(parseGedcomDate('BEF MAR 1900').date).toBe('BEF 1900-03');
+      expect(parseGedcomDate('AFT 2 MAR 1900').date).toBe('AFT 1900-03-02');
+      expect(parseGedcomDate('BET 1900 AND 1910')).toEqual({ date: 'BET 1900 AND 1910', approximate: false });
+    });
+
+    it('should flag dates whose qualifier can only partly be kept as approximate', () => {
+      expect(parseGedcomDate('EST 1900')).toEqual({ date: 'ABT 1900', approximate: true });
+      expect(parseGedcomDate('FROM 1900 TO 1910')).toEqual({ date: 'BET 1900 AND 1910', approximate: true });
+      expect(parseGedcomDate('TO 1910')).toEqual({ date: 'BEF 1910', approximate: true });
+      expect(parseGedcomDate('INT 1900 (about the turn of the century)')).toEqual({ date: '1900', approximate: true });
+    });
+
+    it('should read the Gregorian and Julian calendars', () => {
+      expect(parseGedcomDate('@#DGREGORIAN@ 5 MAY 1920').date).toBe('1920-05-05');
+      expect(parseGedcomDate('ABT @#DJULIAN@ 29 FEB 1700').date).toBe('JULIAN ABT 1700-02-29');
+      expect(parseGedcomDate('JULIAN 1700').date).toBe('JULIAN 1700');
+      expect(parseGedcomDate('@#DHEBREW@ 5700').date).toBeNull();
+    });
+
+    it('should return null for unrecognized dates', () => {
+      expect(parseGedcomDate('sometime in spring').date).toBeNull();
+    });
+  });
+
+  describe('parseGedcom', () => {
+    const result = parseGedcom(SAMPLE_GEDCOM);
+
+    it('should read the GEDCOM version from the header', () => {
+      expect(result.version).toBe('5.5.1');
+    });
+
+    it('should parse individuals into family members', () => {
+      expect(result.members).toHaveLength(3);
+
+      const john = result.members.find(m => m.id === 'gedcom-I1');
+      expect(john).toMatchObject({
+        firstName: 'John Robert',
+        lastName: 'Smith',
+        gender: 'male',
+        dateOfBirth: '1950-03-12',
+        location: 'Boston, Massachusetts',
+        occupation: 'Carpenter',
+        isLiving: true,
+      });
+
+      const mary = result.members.find(m => m.id === 'gedcom-I2');
+      expect(mary).toMatchObject({
+        firstName: 'Mary',
+        lastName: 'Jones',
+        gender: 'female',
+        dateOfBirth: 'ABT 1952',
+        dateOfDeath: '2010-01-03',
+        isLiving: false,
+        biography: 'Loved gardening\nand baking.',
+      });
+    });
+
+    it('should turn FAM records into spouse and parent relationships', () => {
+      const summary = result.relationships.map(r => `${r.fromUserId}>${r.toUserId}:${r.relationshipType}`);
+      expect(summary).toEqual([
+        'gedcom-I1>gedcom-I2:spouse',
+        'gedcom-I1>gedcom-I3:parent',
+        'gedcom-I2>gedcom-I3:parent',
+      ]);
+    });
+
+    it('should report unsupported tags, records, bad references and unparseable lines', () => {
+      const types = result.issues.map(issue => `${issue.type}:${issue.tag || ''}`);
+      expect(types).toContain('unsupported-tag:BAPM');
+      expect(types).toContain('unsupported-record:SOUR');
+      expect(types).toContain('missing-reference:CHIL');
+      expect(types).toContain('unparseable:');
+      expect(types).toContain('approximate-date:BIRT.DATE');
+    });
+
+    it('should not report FAMS/FAMC links as unsupported', () => {
+      expect(result.issues.some(issue => issue.tag === 'FAMS' || issue.tag === 'FAMC')).toBe(false);
+    });
+
+    it('should read the pedigree of FAMC links as the lineage of the parent relationships', () => {
+      const adopted = parseGedcom(SAMPLE_GEDCOM.replace('1 FAMC @F1@', '1 FAMC @F1@\n2 PEDI adopted'));
+      expect(adopted.relationships.filter(r => r.relationshipType === 'parent').map(r => r.lineage))
+        .toEqual(['adoptive', 'adoptive']);
+
+      const step = parseGedcom(SAMPLE_GEDCOM.replace('1 FAMC @F1@', '1 FAMC @F1@\n2 _PEDI step'));
+      expect(step.relationships.find(r => r.relationshipType === 'parent')?.lineage).toBe('step');
+
+      const birth = parseGedcom(SAMPLE_GEDCOM.replace('1 FAMC @F1@', '1 FAMC @F1@\n2 PEDI birth'));
+      expect(birth.relationships.find(r => r.relationshipType === 'parent')?.lineage).toBeUndefined();
+    });
+
+    it('should read the version from a GEDCOM 7.0 header', () => {
+      const gedcom7 = ['0 HEAD', '1 GEDC', '2 VERS 7.0', '0 @X1@ INDI', '1 NAME Ada /Byron/', '0 TRLR'].join('\r\n');
+      const parsed = parseGedcom(gedcom7);
+      expect(parsed.version).toBe('7.0');
+      expect(parsed.members[0]).toMatchObject({ firstName: 'Ada', lastName: 'Byron' });
+    });
+  });
+
+  describe('previewGedcomImport', () => {
+    const parsed = parseGedcom(SAMPLE_GEDCOM);
+
+    it('should treat every person as new for an empty tree', () => {
+      const preview = previewGedcomImport(parsed, [], []);
+      expect(preview.newMembers).toHaveLength(3);
+      expect(preview.matchedMembers).toHaveLength(0);
+      expect(preview.newRelationships).toHaveLength(3);
+    });
+
+    it('should match existing members by name and birth year and re-point relationships', () => {
+      const existing = {
+        id: 'member-42',
+        firstName: 'John Robert',
+        lastName: 'smith',
+        dateOfBirth: '1950-03-12',
+        isLiving: true,
+      } as FamilyMember;
+      const existingRelationship = {
+        id: 'rel-1',
+        fromUserId: 'gedcom-I2',
+        toUserId: 'member-42',
+        relationshipType: 'spouse',
+      } as Relationship;
+
+      const preview = previewGedcomImport(parsed, [existing], [existingRelationship]);
+
+      expect(preview.matchedMembers).toEqual([{ imported: expect.objectContaining({ id: 'gedcom-I1' }), existing }]);
+      expect(preview.newMembers.map(m => m.id)).toEqual(['gedcom-I2', 'gedcom-I3']);
+      expect(preview.newRelationships.map(r => r.fromUserId)).toEqual(['member-42', 'gedcom-I2']);
+      expect(preview.skippedRelationshipCount).toBe(1);
+    });
+
+    it('should add people it cannot tell apart by birth year as new and list them as ambiguous', () => {
+      const twoJohns = parseGedcom([
+        '0 HEAD',
+        '0 @I1@ INDI',
+        '1 NAME John /Smith/',
+        '0 @I2@ INDI',
+        '1 NAME John /Smith/',
+        '0 TRLR',
+      ].join('\n'));
+      const existing = { id: 'x', firstName: 'John', lastName: 'Smith', isLiving: true } as FamilyMember;
+
+      const preview = previewGedcomImport(twoJohns, [existing], []);
+
+      expect(preview.matchedMembers).toHaveLength(0);
+      expect(preview.newMembers.map(m => m.id)).toEqual(['gedcom-I1', 'gedcom-I2']);
+      expect(preview.ambiguousMembers.map(match => [match.imported.id, match.candidates])).toEqual([
+        ['gedcom-I1', [existing]],
+        ['gedcom-I2', [existing]],
+      ]);
+    });
+
+    it('should match each existing member at most once', () => {
+      const twins = parseGedcom([
+        '0 HEAD',
+        '0 @I1@ INDI',
+        '1 NAME John /Smith/',
+        '1 BIRT',
+        '2 DATE 1950',
+        '0 @I2@ INDI',
+        '1 NAME John /Smith/',
+        '1 BIRT',
+        '2 DATE @#DJULIAN@ 1950',
+        '0 TRLR',
+      ].join('\n'));
+      const existing = { id: 'x', firstName: 'John', lastName: 'Smith', dateOfBirth: '1950-06-01', isLiving: true } as FamilyMember;
+
+      const preview = previewGedcomImport(twins, [existing], []);
+
+      expect(preview.matchedMembers.map(match => match.imported.id)).toEqual(['gedcom-I1']);
+      expect(preview.newMembers.map(m => m.id)).toEqual(['gedcom-I2']);
+      expect(preview.ambiguousMembers.map(match => match.imported.id)).toEqual(['gedcom-I2']);
+    });
+  });
+
+  describe('buildGedcomImportRequest', () => {
+    it('should map new members to import data keyed by their import IDs', () => {
+      const preview = previewGedcomImport(parseGedcom(SAMPLE_GEDCOM), [], []);
+      const request = buildGedcomImportRequest(preview);
+
+      expect(request.members.map(m => m.importId)).toEqual(['gedcom-I1', 'gedcom-I2', 'gedcom-I3']);
+      expect(request.members[1].isDeceased).toBe(true);
+      expect(request.relationships[0]).toEqual({
+        fromUserId: 'gedcom-I1',
+        toUserId: 'gedcom-I2',
+        relationshipType: 'spouse',
+        specificLabel: undefined,
+      });
+    });
+  });
+
+  describe('formatGedcomDate', () => {
+    it('should convert full and partial dates to GEDCOM dates', () => {
+      expect(formatGedcomDate('1950-03-12')).toBe('12 MAR 1950');
+      expect(formatGedcomDate('1950-03')).toBe('MAR 1950');
+      expect(formatGedcomDate('1950')).toBe('1950');
+      expect(formatGedcomDate('2001-01-05T00:00:00.000Z')).toBe('5 JAN 2001');
+    });
+
+    it('should write qualifiers and the Julian calendar', () => {
+      expect(formatGedcomDate('ABT 1950')).toBe('ABT 1950');
+      expect(formatGedcomDate('BEF 1950-03')).toBe('BEF MAR 1950');
+      expect(formatGedcomDate('BET 1900 AND 1910-05-02')).toBe('BET 1900 AND 2 MAY 1910');
+      expect(formatGedcomDate('JULIAN AFT 1700-02-29')).toBe('AFT @#DJULIAN@ 29 FEB 1700');
+    });
+
+    it('should read back the dates it writes', () => {
+      ['1950-03-12', 'ABT 1950-03', 'BET 1900 AND 1910', 'JULIAN BEF 1700-02-29'].forEach(date => {
+        expect(parseGedcomDate(formatGedcomDate(date) as string)).toEqual({ date, approximate: false });
+      });
+    });
+
+    it('should return null for unrecognized dates', () => {
+      expect(formatGedcomDate('sometime in spring')).toBeNull();
+      expect(formatGedcomDate('1950-13-01')).toBeNull();
+    });
+  });
+
+  describe('exportGedcom', () => {
+    const makeMember = (overrides: Partial<FamilyMember>): FamilyMember => ({
+      id: 'member',
+      firstName: 'First',
+      lastName: 'Last',
+      isLiving: true,
+      createdBy: 'user-1',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+      ...overrides,
+    });
+    const makeRelationship = (overrides: Partial<Relationship>): Relationship => ({
+      id: 'rel',
+      fromUserId: '',
+      toUserId: '',
+      relationshipType: 'parent',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      ...overrides,
+    });
+
+    const members = [
+      makeMember({
+        id: 'm-dad',
+        firstName: 'John',
+        lastName: 'Smith',
+        gender: 'male',
+        dateOfBirth: '1950-03-12',
+        dateOfDeath: '2010-01-03',
+        isLiving: false,
+        occupation: 'Carpenter',
+        location: 'Boston, Massachusetts',
+      }),
+      makeMember({
+        id: 'm-mom',
+        firstName: 'Mary',
+        lastName: 'Smith',
+        gender: 'female',
+        dateOfBirth: '1952',
+        email: 'mary@example.com',
+        biography: 'Loved gardening\nand baking.',
+      }),
+      makeMember({ id: 'm-kid', firstName: 'Anna', lastName: 'Smith', gender: 'female', dateOfBirth: '1980-06' }),
+      makeMember({ id: 'm-aunt', firstName: 'Ruth', lastName: 'Brown', gender: 'female', isLiving: false }),
+    ];
+    const relationships = [
+      makeRelationship({ id: 'r1', fromUserId: 'm-mom', toUserId: 'm-dad', relationshipType: 'spouse' }),
+      makeRelationship({ id: 'r2', fromUserId: 'm-dad', toUserId: 'm-kid', relationshipType: 'parent' }),
+      makeRelationship({ id: 'r3', fromUserId: 'm-kid', toUserId: 'm-mom', relationshipType: 'child', specificLabel: 'Daughter' }),
+      makeRelationship({ id: 'r4', fromUserId: 'm-aunt', toUserId: 'm-kid', relationshipType: 'aunt-uncle', specificLabel: 'Great aunt' }),
+    ];
+
+    it('should write a GEDCOM 5.5.1 header and trailer', () => {
+      const lines = exportGedcom(members, relationships).trim().split('\n');
+      expect(lines.slice(0, 3)).toEqual(['0 HEAD', '1 SOUR ROOTS', '2 NAME Roots']);
+      expect(lines).toContain('2 VERS 5.5.1');
+      expect(lines).toContain('1 CHAR UTF-8');
+      expect(lines[lines.length - 1]).toBe('0 TRLR');
+    });
+
+    it('should group spouses and their children into one family', () => {
+      const output = exportGedcom(members, relationships);
+      expect(output).toContain('0 @F1@ FAM\n1 HUSB @I1@\n1 WIFE @I2@\n1 CHIL @I3@\n');
+      expect(output.match(/ FAM$/gm)).toHaveLength(1);
+    });
+
+    it('should keep labels and non-family relationships as associations', () => {
+      const output = exportGedcom(members, relationships);
+      expect(output).toContain('1 ASSO @I4@\n2 RELA Great aunt');
+      expect(output).toContain('1 ASSO @I3@\n2 RELA Daughter');
+    });
+
+    it('should keep the calendar escapes of Julian dates', () => {
+      const julian = { ...members[0], dateOfBirth: 'JULIAN 1700-03-12' };
+      const output = exportGedcom([julian], []);
+
+      expect(output).toContain('2 DATE @#DJULIAN@ 12 MAR 1700');
+      expect(parseGedcom(output).members[0].dateOfBirth).toBe('JULIAN 1700-03-12');
+    });
+
+    it('should escape @ signs and split multi-line values', () => {
+      const output = exportGedcom(members, relationships);
+      expect(output).toContain('1 EMAIL mary@@example.com');
+      expect(output).toContain('1 NOTE Loved gardening\n2 CONT and baking.');
+    });
+
+    it('should round-trip through parseGedcom', () => {
+      const parsed = parseGedcom(exportGedcom(members, relationships));
+
+      expect(parsed.members.find(m => m.firstName === 'John')).toMatchObject({
+        lastName: 'Smith',
+        gender: 'male',
+        dateOfBirth: '1950-03-12',
+        dateOfDeath: '2010-01-03',
+        isLiving: false,
+        occupation: 'Carpenter',
+        location: 'Boston, Massachusetts',
+      });
+      expect(parsed.members.find(m => m.firstName === 'Mary')).toMatchObject({
+        email: 'mary@example.com',
+        biography: 'Loved gardening\nand baking.',
+        isLiving: true,
+      });
+      expect(parsed.members.find(m => m.firstName === 'Ruth')?.isLiving).toBe(false);
+      expect(parsed.relationships.map(r => `${r.fromUserId}>${r.toUserId}:${r.relationshipType}`)).toEqual([
+        'gedcom-I1>gedcom-I2:spouse',
+        'gedcom-I1>gedcom-I3:parent',
+        'gedcom-I2>gedcom-I3:parent',
+      ]);
+    });
+
+    it('should redact living people when requested', () => {
+      const output = exportGedcom(members, relationships, { redactLiving: true });
+
+      expect(output).not.toContain('Mary');
+      expect(output).not.toContain('mary@@example.com');
+      expect(output).not.toContain('gardening');
+      expect(output).not.toContain('1980');
+      expect(output).toContain('1 NAME Living /Smith/');
+      expect(output).toContain('1 RESN privacy');
+      // Deceased people and the family structure are kept
+      expect(output).toContain('1 NAME John /Smith/');
+      expect(output).toContain('1 CHIL @I3@');
+    });
+
+    it('should leave the marriage and divorce dates of living partners out when redacting', () => {
+      const partnerships = [
+        makeRelationship({
+          id: 'r1',
+          fromUserId: 'm-mom',
+          toUserId: 'm-dad',
+          relationshipType: 'spouse',
+          partnershipStatus: 'divorced',
+          startDate: '1975-06-14',
+          endDate: '1990',
+        }),
+      ];
+      const output = exportGedcom(members, partnerships, { redactLiving: true });
+
+      expect(output).toContain('1 MARR Y\n1 DIV Y\n');
+      expect(output).not.toContain('1975');
+      expect(output).not.toContain('1990');
+    });
+
+    it('should write partnership dates and divorces as MARR and DIV events', () => {
+      const partnerships = [
+        makeRelationship({
+          id: 'r1',
+          fromUserId: 'm-mom',
+          toUserId: 'm-dad',
+          relationshipType: 'spouse',
+          partnershipStatus: 'divorced',
+          startDate: '1975-06-14',
+          endDate: '1990',
+        }),
+      ];
+      const output = exportGedcom(members, partnerships);
+      expect(output).toContain('1 MARR\n2 DATE 14 JUN 1975\n1 DIV\n2 DATE 1990\n');
+
+      const spouse = parseGedcom(output).relationships.find(r => r.relationshipType === 'spouse');
+      expect(spouse).toMatchObject({ partnershipStatus: 'divorced', startDate: '1975-06-14', endDate: '1990' });
+    });
+
+    it('should write the lineage of parent links as FAMC pedigrees', () => {
+      const adoptive = relationships.map(rel => rel.relationshipType === 'spouse' || rel.relationshipType === 'aunt-uncle'
+        ? rel
+        : { ...rel, lineage: 'adoptive' as const });
+      const output = exportGedcom(members, adoptive);
+      expect(output).toContain('1 FAMC @F1@\n2 PEDI adopted\n');
+
+      const parsed = parseGedcom(output);
+      expect(parsed.relationships.filter(r => r.relationshipType === 'parent').map(r => r.lineage))
+        .toEqual(['adoptive', 'adoptive']);
+    });
+
+    it('should link a child to each parent separately when their lineages differ', () => {
+      const stepfather = relationships.map(rel => rel.id === 'r2' ? { ...rel, lineage: 'step' as const } : rel);
+      const output = exportGedcom(members, stepfather);
+
+      expect(output).toContain('1 FAMC @F2@\n2 _PEDI step\n1 FAMC @F3@\n');
+      expect(output).toContain('0 @F1@ FAM\n1 HUSB @I1@\n1 WIFE @I2@\n1 MARR Y\n0 @F2@ FAM');
+
+      const parents = parseGedcom(output).relationships.filter(r => r.relationshipType === 'parent');
+      expect(parents.map(r => `${r.fromUserId}:${r.lineage || 'biological'}`)).toEqual([
+        'gedcom-I1:step',
+        'gedcom-I2:biological',
+      ]);
+    });
+
+    it('should split long values with CONC', () => {
+      const longBio = 'a'.repeat(300);
+      const output = exportGedcom([makeMember({ id: 'm-1', biography: longBio })], []);
+
+      expect(output.split('\n').every(line => line.length <= 255)).toBe(true);
+      expect(output).toContain('2 CONC ');
+      expect(parseGedcom(output).members[0].biography).toBe(longBio);
+    });
+  });
+});
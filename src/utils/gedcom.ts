@@ -0,0 +1,985 @@
+/**
+ * GEDCOM import/export utilities
+ * Parses GEDCOM 5.5.1 / 7.0 files into family members and relationships,
+ * and serializes the current tree back to GEDCOM 5.5.1
+ */
+
+import { FamilyMember, Relationship, ImportFamilyTreeRequest, Lineage } from '../types/api';
+import {
+  CalendarSystem,
+  DateParts,
+  DateQualifier,
+  parseDateParts,
+  parseGenealogicalDate,
+  serializeGenealogicalDate
+} from './genealogicalDate';
+
+const MONTHS: Record<string, string> = {
+  JAN: '01', FEB: '02', MAR: '03', APR: '04', MAY: '05', JUN: '06',
+  JUL: '07', AUG: '08', SEP: '09', OCT: '10', NOV: '11', DEC: '12'
+};
+
+// GEDCOM date qualifiers and the stored qualifier each is kept as
+const DATE_QUALIFIERS: Record<string, DateQualifier> = {
+  ABT: 'about', CAL: 'about', EST: 'about', BEF: 'before', AFT: 'after', BET: 'between',
+  FROM: 'after', TO: 'before', INT: 'exact'
+};
+
+// Qualifiers whose meaning is only partly kept (calculated, estimated, periods, interpreted)
+const SIMPLIFIED_QUALIFIERS = ['CAL', 'EST', 'FROM', 'TO', 'INT'];
+
+// Calendar names of GEDCOM 7.0 dates and 5.5.1 @#D...@ escapes
+const CALENDARS: Record<string, CalendarSystem> = { GREGORIAN: 'gregorian', JULIAN: 'julian' };
+const OTHER_CALENDARS = ['HEBREW', 'FRENCH R', 'FRENCH_R', 'ROMAN', 'UNKNOWN'];
+
+// Tags that are redundant with FAM records or pure GEDCOM bookkeeping
+const IGNORED_INDI_TAGS = ['FAMS', 'FAMC', 'CHAN', 'UID', '_UID', 'RIN', 'RESN'];
+const IGNORED_FAM_TAGS = ['CHAN', 'UID', '_UID', 'RIN'];
+
+// FAMC pedigree values and the lineage each is kept as. GEDCOM has no value for step or
+// guardian links, so they are exported under the custom _PEDI tag instead of PEDI
+const PEDIGREES: Record<string, Lineage> = {
+  BIRTH: 'biological', ADOPTED: 'adoptive', FOSTER: 'foster', STEP: 'step', GUARDIAN: 'guardian'
+};
+const CUSTOM_PEDIGREES: Lineage[] = ['step', 'guardian'];
+
+const IMPORT_ID_PREFIX = 'gedcom-';
+
+// Longest value written on a single exported line before it is split with CONC
+// (GEDCOM lines are limited to 255 characters, and escaping can double each @)
+const MAX_LINE_VALUE_LENGTH = 120;
+
+// Internal interfaces for the parsed line structure
+interface GedcomNode {
+  level: number;
+  xref: string | null;
+  tag: string;
+  value: string;
+  lineNumber: number;
+  children: GedcomNode[];
+}
+
+export interface GedcomIssue {
+  lineNumber: number;
+  type: 'unparseable' | 'unsupported-tag' | 'unsupported-record' | 'missing-reference' | 'approximate-date';
+  message: string;
+  recordId?: string;
+  tag?: string;
+}
+
+export interface GedcomParseResult {
+  version: string | null;
+  members: FamilyMember[];
+  relationships: Relationship[];
+  issues: GedcomIssue[];
+}
+
+export interface GedcomMemberMatch {
+  imported: FamilyMember;
+  existing: FamilyMember;
+}
+
+// Imported person who shares a name with existing members but can't be told apart from
+// them by birth year; they are added as a new member, to be merged by hand if need be
+export interface GedcomAmbiguousMatch {
+  imported: FamilyMember;
+  candidates: FamilyMember[];
+}
+
+export interface GedcomImportPreview {
+  newMembers: FamilyMember[];
+  matchedMembers: GedcomMemberMatch[];
+  ambiguousMembers: GedcomAmbiguousMatch[];
+  newRelationships: Relationship[];
+  skippedRelationshipCount: number;
+}
+
+export interface GedcomExportOptions {
+  // Replace living people's names and personal details with placeholders
+  redactLiving?: boolean;
+}
+
+// Internal interface for a family (FAM record) built during export
+interface GedcomFamily {
+  xref: string;
+  parents: string[];
+  children: string[];
+  // Spouse relationship of the parents, if they are partners
+  partnership?: Relationship;
+  // Lineage of each child to the parents, keyed by child ID; biological when absent
+  childLineage?: Record<string, Lineage>;
+}
+
+/**
+ * Parse raw GEDCOM text into a tree of level-numbered nodes
+ * @param text - Raw GEDCOM file contents
+ * @param issues - Collected issues, appended to in place
+ * @returns Top-level (level 0) records
+ */
+function parseLines(text: string, issues: GedcomIssue[]): GedcomNode[] {
+  const records: GedcomNode[] = [];
+  const stack: GedcomNode[] = [];
+  const lines = text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+
+  lines.forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    if (rawLine.trim() === '') return;
+
+    const match = rawLine.match(/^\s*(\d+)\s+(?:(@[^@\s]+@)\s+)?([A-Za-z0-9_]+)(?: (.*))?$/);
+    if (!match) {
+      issues.push({ lineNumber, type: 'unparseable', message: `Could not parse line: "${rawLine.trim()}"` });
+      return;
+    }
+
+    const level = parseInt(match[1], 10);
+    const node: GedcomNode = {
+      level,
+      xref: match[2] || null,
+      tag: match[3].toUpperCase(),
+      // Literal @ signs are escaped as @@ in line values
+      value: (match[4] || '').replace(/@@/g, '@'),
+      lineNumber,
+      children: []
+    };
+
+    // Continuation lines extend the value of their parent
+    if (node.tag === 'CONT' || node.tag === 'CONC') {
+      const parent = stack[stack.length - 1];
+      if (parent && parent.level === level - 1) {
+        parent.value += (node.tag === 'CONT' ? '\n' : '') + node.value;
+        return;
+      }
+    }
+
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+
+    if (level === 0) {
+      records.push(node);
+    } else if (stack.length > 0 && stack[stack.length - 1].level === level - 1) {
+      stack[stack.length - 1].children.push(node);
+    } else {
+      issues.push({ lineNumber, type: 'unparseable', message: `Line has level ${level} with no parent record` });
+      return;
+    }
+
+    stack.push(node);
+  });
+
+  return records;
+}
+
+/**
+ * Find the first child node with the given tag
+ */
+function findChild(node: GedcomNode, tag: string): GedcomNode | undefined {
+  return node.children.find(child => child.tag === tag);
+}
+
+/**
+ * Convert a GEDCOM xref pointer (e.g. "@I1@") to an import ID
+ */
+function toImportId(xref: string): string {
+  return IMPORT_ID_PREFIX + xref.replace(/@/g, '');
+}
+
+/**
+ * Read the day, month and year of a single GEDCOM date ("12 MAR 1950", "MAR 1950", "1950")
+ */
+function parseGedcomDateParts(tokens: string[], calendar: CalendarSystem): DateParts | null {
+  const [first, second, third] = tokens;
+  if (tokens.length === 3 && /^\d{1,2}$/.test(first) && MONTHS[second] && /^\d{4}$/.test(third)) {
+    return parseDateParts(`${third}-${MONTHS[second]}-${first.padStart(2, '0')}`, calendar);
+  }
+  if (tokens.length === 2 && MONTHS[first] && /^\d{4}$/.test(second)) {
+    return parseDateParts(`${second}-${MONTHS[first]}`, calendar);
+  }
+  if (tokens.length === 1 && /^\d{4}$/.test(first)) {
+    return parseDateParts(first, calendar);
+  }
+  return null;
+}
+
+/**
+ * Convert a GEDCOM date value to a stored genealogical date
+ * Exact dates become YYYY-MM-DD, partial dates keep only the known parts (YYYY-MM or YYYY);
+ * ABT, BEF, AFT, BET...AND and the Julian calendar are kept (see genealogicalDate)
+ * @param value - GEDCOM date value (e.g. "12 MAR 1950", "ABT 1900", "@#DJULIAN@ 1700")
+ * @returns Object with the converted date (or null) and whether the date was approximate,
+ * i.e. its meaning could only partly be kept (e.g. "EST 1900" becomes "ABT 1900")
+ */
+export function parseGedcomDate(value: string): { date: string | null; approximate: boolean } {
+  let calendar: CalendarSystem = 'gregorian';
+  let unsupportedCalendar = false;
+  const useCalendar = (name: string): void => {
+    if (CALENDARS[name]) {
+      calendar = CALENDARS[name];
+    } else {
+      unsupportedCalendar = true;
+    }
+  };
+
+  // Calendar escapes such as @#DJULIAN@ (5.5.1) may come before each date, and a date
+  // phrase "(...)" only follows INT dates
+  const text = value.toUpperCase()
+    .replace(/@#D([^@]+)@/g, (_, name: string) => {
+      useCalendar(name.trim());
+      return ' ';
+    })
+    .replace(/\(.*\)/, ' ');
+  const tokens = text.trim().split(/\s+/).filter(Boolean).filter(token => {
+    if (!CALENDARS[token] && !OTHER_CALENDARS.includes(token)) return true;
+    useCalendar(token);
+    return false;
+  });
+  if (unsupportedCalendar) {
+    return { date: null, approximate: false };
+  }
+
+  const code = tokens.length > 0 && DATE_QUALIFIERS[tokens[0]] ? tokens.shift() as string : null;
+  let qualifier: DateQualifier = code ? DATE_QUALIFIERS[code] : 'exact';
+  let approximate = !!code && SIMPLIFIED_QUALIFIERS.includes(code);
+
+  // Ranges ("BET 1900 AND 1910") and periods ("FROM 1900 TO 1910") have a second date
+  const andIndex = tokens.findIndex(token => token === (code === 'FROM' ? 'TO' : 'AND'));
+  const date = parseGedcomDateParts(andIndex === -1 ? tokens : tokens.slice(0, andIndex), calendar);
+  let endDate: DateParts | null = null;
+  if (andIndex !== -1) {
+    endDate = parseGedcomDateParts(tokens.slice(andIndex + 1), calendar);
+    qualifier = 'between';
+    approximate = approximate || code !== 'BET';
+  }
+
+  if (!date || (qualifier === 'between' && !endDate)) {
+    return { date: null, approximate };
+  }
+
+  return {
+    date: serializeGenealogicalDate({ qualifier, date, endDate: endDate || undefined, calendar }),
+    approximate
+  };
+}
+
+/**
+ * Split a GEDCOM personal name ("John Robert /Smith/ Jr.") into given name and surname
+ */
+function parseName(nameNode: GedcomNode): { firstName: string; lastName: string } {
+  const surnameMatch = nameNode.value.match(/\/([^/]*)\//);
+  let lastName = surnameMatch ? surnameMatch[1].trim() : '';
+  let firstName = nameNode.value.replace(/\/[^/]*\/?/, ' ').replace(/\s+/g, ' ').trim();
+
+  const givenNode = findChild(nameNode, 'GIVN');
+  const surnameNode = findChild(nameNode, 'SURN');
+  if (givenNode?.value) firstName = givenNode.value.trim();
+  if (surnameNode?.value) lastName = surnameNode.value.trim();
+
+  return { firstName, lastName };
+}
+
+/**
+ * Convert an INDI record into a family member
+ * @param record - INDI record node
+ * @param issues - Collected issues, appended to in place
+ * @returns Family member with an import ID
+ */
+function parseIndividual(record: GedcomNode, issues: GedcomIssue[]): FamilyMember {
+  const id = toImportId(record.xref as string);
+  const now = new Date().toISOString();
+  const member: FamilyMember = {
+    id,
+    userId: null,
+    firstName: '',
+    lastName: '',
+    isLiving: true,
+    createdBy: 'gedcom-import',
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const readDate = (eventNode: GedcomNode): string | undefined => {
+    const dateNode = findChild(eventNode, 'DATE');
+    if (!dateNode) return undefined;
+
+    const { date, approximate } = parseGedcomDate(dateNode.value);
+    if (!date) {
+      issues.push({
+        lineNumber: dateNode.lineNumber,
+        type: 'unparseable',
+        recordId: id,
+        tag: `${eventNode.tag}.DATE`,
+        message: `Unrecognized date "${dateNode.value}"`
+      });
+    } else if (approximate) {
+      issues.push({
+        lineNumber: dateNode.lineNumber,
+        type: 'approximate-date',
+        recordId: id,
+        tag: `${eventNode.tag}.DATE`,
+        message: `Approximate date "${dateNode.value}" imported as ${date}`
+      });
+    }
+    return date || undefined;
+  };
+
+  const readPlace = (eventNode: GedcomNode): string | undefined => {
+    const placeNode = findChild(eventNode, 'PLAC');
+    return placeNode?.value.trim() || undefined;
+  };
+
+  record.children.forEach(child => {
+    switch (child.tag) {
+      case 'NAME':
+        // Only the first (primary) name is imported
+        if (!member.firstName && !member.lastName) {
+          Object.assign(member, parseName(child));
+        }
+        break;
+      case 'SEX':
+        if (child.value === 'M') member.gender = 'male';
+        else if (child.value === 'F') member.gender = 'female';
+        else if (child.value === 'X') member.gender = 'other';
+        break;
+      case 'BIRT':
+        member.dateOfBirth = readDate(child);
+        member.location = member.location || readPlace(child) || null;
+        break;
+      case 'DEAT':
+        member.isLiving = false;
+        member.dateOfDeath = readDate(child);
+        break;
+      case 'OCCU':
+        member.occupation = child.value.trim() || undefined;
+        break;
+      case 'RESI':
+        member.location = readPlace(child) || member.location;
+        break;
+      case 'EMAIL':
+        member.email = child.value.trim() || null;
+        break;
+      case 'PHON':
+        member.phoneNumber = child.value.trim() || null;
+        break;
+      case 'NOTE':
+        // Pointers to shared NOTE records are not supported
+        if (child.value.startsWith('@')) {
+          issues.push({
+            lineNumber: child.lineNumber,
+            type: 'unsupported-tag',
+            recordId: id,
+            tag: child.tag,
+            message: 'Linked NOTE records are not imported'
+          });
+        } else {
+          member.biography = member.biography ? `${member.biography}\n${child.value}` : child.value;
+        }
+        break;
+      default:
+        if (!IGNORED_INDI_TAGS.includes(child.tag)) {
+          issues.push({
+            lineNumber: child.lineNumber,
+            type: 'unsupported-tag',
+            recordId: id,
+            tag: child.tag,
+            message: `Tag ${child.tag} on ${record.xref} is not supported and was skipped`
+          });
+        }
+    }
+  });
+
+  if (!member.firstName && !member.lastName) {
+    member.firstName = 'Unknown';
+  }
+
+  return member;
+}
+
+/**
+ * Read the pedigree (PEDI or _PEDI) of each individual's FAMC links
+ * @param individuals - INDI record nodes
+ * @returns Non-biological lineages, keyed by "family xref|member ID"
+ */
+function readPedigrees(individuals: GedcomNode[]): Map<string, Lineage> {
+  const pedigrees = new Map<string, Lineage>();
+
+  individuals.forEach(record => {
+    record.children
+      .filter(child => child.tag === 'FAMC')
+      .forEach(famc => {
+        const pedigree = findChild(famc, 'PEDI') || findChild(famc, '_PEDI');
+        const lineage = pedigree && PEDIGREES[pedigree.value.trim().toUpperCase()];
+        if (lineage && lineage !== 'biological') {
+          pedigrees.set(`${famc.value.trim()}|${toImportId(record.xref as string)}`, lineage);
+        }
+      });
+  });
+
+  return pedigrees;
+}
+
+/**
+ * Convert a FAM record into parent/child and spouse relationships
+ * MARR and DIV events become the spouse relationship's partnership dates and status
+ * @param record - FAM record node
+ * @param memberIds - Set of imported member IDs
+ * @param pedigrees - Lineages of the children's FAMC links, from readPedigrees
+ * @param issues - Collected issues, appended to in place
+ * @returns Relationships described by the family record
+ */
+function parseFamily(
+  record: GedcomNode,
+  memberIds: Set<string>,
+  pedigrees: Map<string, Lineage>,
+  issues: GedcomIssue[]
+): Omit<Relationship, 'id'>[] {
+  const parents: string[] = [];
+  const children: string[] = [];
+  const now = new Date().toISOString();
+
+  const partnership: Pick<Relationship, 'partnershipStatus' | 'startDate' | 'endDate'> = {};
+  const readDate = (eventNode: GedcomNode): string | undefined => {
+    const dateNode = findChild(eventNode, 'DATE');
+    return (dateNode && parseGedcomDate(dateNode.value).date) || undefined;
+  };
+
+  record.children.forEach(child => {
+    if (child.tag === 'MARR') {
+      partnership.partnershipStatus = partnership.partnershipStatus || 'married';
+      partnership.startDate = readDate(child);
+    } else if (child.tag === 'DIV') {
+      partnership.partnershipStatus = 'divorced';
+      partnership.endDate = readDate(child);
+    } else if (child.tag === 'HUSB' || child.tag === 'WIFE' || child.tag === 'CHIL') {
+      const memberId = toImportId(child.value);
+      if (!memberIds.has(memberId)) {
+        issues.push({
+          lineNumber: child.lineNumber,
+          type: 'missing-reference',
+          recordId: record.xref || undefined,
+          tag: child.tag,
+          message: `${record.xref} references ${child.value}, which is not an individual in this file`
+        });
+        return;
+      }
+      (child.tag === 'CHIL' ? children : parents).push(memberId);
+    } else if (!IGNORED_FAM_TAGS.includes(child.tag)) {
+      issues.push({
+        lineNumber: child.lineNumber,
+        type: 'unsupported-tag',
+        recordId: record.xref || undefined,
+        tag: child.tag,
+        message: `Tag ${child.tag} on ${record.xref} is not supported and was skipped`
+      });
+    }
+  });
+
+  const relationships: Omit<Relationship, 'id'>[] = [];
+
+  if (parents.length === 2) {
+    relationships.push({ fromUserId: parents[0], toUserId: parents[1], relationshipType: 'spouse', ...partnership, createdAt: now });
+  }
+
+  parents.forEach(parentId => {
+    children.forEach(childId => {
+      const lineage = pedigrees.get(`${record.xref}|${childId}`);
+      relationships.push({ fromUserId: parentId, toUserId: childId, relationshipType: 'parent', lineage, createdAt: now });
+    });
+  });
+
+  return relationships;
+}
+
+/**
+ * Parse a GEDCOM 5.5.1 or 7.0 file
+ * @param text - Raw GEDCOM file contents
+ * @returns Parsed members, relationships and every record or tag that could not be imported
+ */
+export function parseGedcom(text: string): GedcomParseResult {
+  const issues: GedcomIssue[] = [];
+  const records = parseLines(text, issues);
+  let version: string | null = null;
+
+  const individuals: GedcomNode[] = [];
+  const families: GedcomNode[] = [];
+
+  records.forEach(record => {
+    switch (record.tag) {
+      case 'HEAD': {
+        const gedc = findChild(record, 'GEDC');
+        version = (gedc && findChild(gedc, 'VERS')?.value.trim()) || null;
+        const charset = findChild(record, 'CHAR');
+        if (charset && charset.value.toUpperCase() === 'ANSEL') {
+          issues.push({
+            lineNumber: charset.lineNumber,
+            type: 'unsupported-tag',
+            tag: 'CHAR',
+            message: 'ANSEL character encoding is not supported; accented names may be garbled'
+          });
+        }
+        break;
+      }
+      case 'TRLR':
+      case 'SUBM':
+        break;
+      case 'INDI':
+      case 'FAM':
+        if (!record.xref) {
+          issues.push({ lineNumber: record.lineNumber, type: 'unparseable', tag: record.tag, message: `${record.tag} record has no identifier` });
+        } else {
+          (record.tag === 'INDI' ? individuals : families).push(record);
+        }
+        break;
+      default:
+        issues.push({
+          lineNumber: record.lineNumber,
+          type: 'unsupported-record',
+          recordId: record.xref || undefined,
+          tag: record.tag,
+          message: `${record.tag} records are not supported and were skipped`
+        });
+    }
+  });
+
+  const members = individuals.map(record => parseIndividual(record, issues));
+  const memberIds = new Set(members.map(member => member.id));
+  const pedigrees = readPedigrees(individuals);
+  const relationships = families
+    .flatMap(record => parseFamily(record, memberIds, pedigrees, issues))
+    .map((relationship, index) => ({ ...relationship, id: `${IMPORT_ID_PREFIX}rel-${index + 1}` }));
+
+  return { version, members, relationships, issues };
+}
+
+/**
+ * Extract the (first) year of a stored date
+ */
+function getYear(date?: string): number | null {
+  return parseGenealogicalDate(date)?.date.year ?? null;
+}
+
+/**
+ * Check whether two members have the same first and last name, ignoring case
+ */
+function isSameName(a: FamilyMember, b: FamilyMember): boolean {
+  return a.firstName.trim().toLowerCase() === b.firstName.trim().toLowerCase() &&
+    a.lastName.trim().toLowerCase() === b.lastName.trim().toLowerCase();
+}
+
+/**
+ * Check whether two relationships describe the same link
+ */
+function isSameRelationship(a: Pick<Relationship, 'fromUserId' | 'toUserId' | 'relationshipType'>, b: Relationship): boolean {
+  if (a.relationshipType !== b.relationshipType) return false;
+  if (a.fromUserId === b.fromUserId && a.toUserId === b.toUserId) return true;
+  // Spouse and sibling links are symmetric
+  return (a.relationshipType === 'spouse' || a.relationshipType === 'sibling') &&
+    a.fromUserId === b.toUserId && a.toUserId === b.fromUserId;
+}
+
+/**
+ * Compare a parsed GEDCOM file against the current tree
+ * An imported person is matched to an existing member instead of being created again only
+ * when exactly one member has the same name and both have the same known birth year, and
+ * each member is matched at most once. People who share a name with members but can't be
+ * matched that way are added as new members and listed as ambiguous.
+ * @param parsed - Result of parseGedcom
+ * @param existingMembers - Members already in the tree
+ * @param existingRelationships - Relationships already in the tree
+ * @returns Preview of what an import would add
+ */
+export function previewGedcomImport(
+  parsed: GedcomParseResult,
+  existingMembers: FamilyMember[],
+  existingRelationships: Relationship[]
+): GedcomImportPreview {
+  const newMembers: FamilyMember[] = [];
+  const matchedMembers: GedcomMemberMatch[] = [];
+  const ambiguousMembers: GedcomAmbiguousMatch[] = [];
+  const matchedIds = new Set<string>();
+  const idMap = new Map<string, string>();
+
+  parsed.members.forEach(imported => {
+    const sameName = existingMembers.filter(member => isSameName(member, imported));
+    const birthYear = getYear(imported.dateOfBirth);
+    const sameYear = birthYear === null
+      ? []
+      : sameName.filter(member => getYear(member.dateOfBirth) === birthYear);
+
+    if (sameYear.length === 1 && !matchedIds.has(sameYear[0].id)) {
+      matchedMembers.push({ imported, existing: sameYear[0] });
+      matchedIds.add(sameYear[0].id);
+      idMap.set(imported.id, sameYear[0].id);
+      return;
+    }
+
+    if (sameName.length > 0) {
+      ambiguousMembers.push({ imported, candidates: sameName });
+    }
+    newMembers.push(imported);
+    idMap.set(imported.id, imported.id);
+  });
+
+  const newRelationships: Relationship[] = [];
+  let skippedRelationshipCount = 0;
+
+  parsed.relationships.forEach(relationship => {
+    const remapped: Relationship = {
+      ...relationship,
+      fromUserId: idMap.get(relationship.fromUserId) || relationship.fromUserId,
+      toUserId: idMap.get(relationship.toUserId) || relationship.toUserId,
+    };
+
+    const alreadyExists = existingRelationships.some(existing => isSameRelationship(remapped, existing)) ||
+      newRelationships.some(added => isSameRelationship(remapped, added));
+
+    if (alreadyExists || remapped.fromUserId === remapped.toUserId) {
+      skippedRelationshipCount++;
+    } else {
+      newRelationships.push(remapped);
+    }
+  });
+
+  return { newMembers, matchedMembers, ambiguousMembers, newRelationships, skippedRelationshipCount };
+}
+
+/**
+ * Build the bulk import request for a previewed GEDCOM import
+ * Matched members are not re-created; relationships already point at their existing IDs.
+ * @param preview - Result of previewGedcomImport
+ * @returns Request body for FamilyService.importFamilyTree
+ */
+export function buildGedcomImportRequest(preview: GedcomImportPreview): ImportFamilyTreeRequest {
+  return {
+    members: preview.newMembers.map(member => ({
+      importId: member.id,
+      firstName: member.firstName,
+      lastName: member.lastName,
+      email: member.email || undefined,
+      phoneNumber: member.phoneNumber || undefined,
+      dateOfBirth: member.dateOfBirth,
+      dateOfDeath: member.dateOfDeath,
+      gender: member.gender,
+      biography: member.biography,
+      occupation: member.occupation,
+      location: member.location || undefined,
+      isDeceased: !member.isLiving,
+    })),
+    relationships: preview.newRelationships.map(relationship => ({
+      fromUserId: relationship.fromUserId,
+      toUserId: relationship.toUserId,
+      relationshipType: relationship.relationshipType,
+      specificLabel: relationship.specificLabel,
+      lineage: relationship.lineage,
+      partnershipStatus: relationship.partnershipStatus,
+      startDate: relationship.startDate,
+      endDate: relationship.endDate,
+    })),
+  };
+}
+
+/**
+ * Convert a stored genealogical date to a GEDCOM date value
+ * Inverse of parseGedcomDate: qualifiers and the Julian calendar are written back
+ * @param date - Date string (e.g. "1950-03-12", "1950-03", "ABT 1950", "JULIAN 1700")
+ * @returns GEDCOM date value (e.g. "12 MAR 1950"), or null if the date is not recognized
+ */
+export function formatGedcomDate(date: string): string | null {
+  const parsed = parseGenealogicalDate(date);
+  if (!parsed) return null;
+
+  const monthNames = Object.keys(MONTHS);
+  const calendar = parsed.calendar === 'julian' ? '@#DJULIAN@ ' : '';
+  const formatParts = ({ year, month, day }: DateParts): string => calendar + [
+    day,
+    month ? monthNames[month - 1] : undefined,
+    String(year).padStart(4, '0')
+  ].filter(part => part !== undefined).join(' ');
+
+  const first = formatParts(parsed.date);
+  switch (parsed.qualifier) {
+    case 'about':
+      return `ABT ${first}`;
+    case 'before':
+      return `BEF ${first}`;
+    case 'after':
+      return `AFT ${first}`;
+    case 'between':
+      return `BET ${first} AND ${formatParts(parsed.endDate as DateParts)}`;
+    default:
+      return first;
+  }
+}
+
+/**
+ * Append a GEDCOM line, escaping @ signs and splitting long or multi-line values with CONC/CONT
+ * @param lines - Output lines, appended to in place
+ * @param level - Line level
+ * @param tag - Line tag, optionally prefixed with an xref ("@I1@ INDI")
+ * @param value - Line value
+ */
+function writeLine(lines: string[], level: number, tag: string, value?: string): void {
+  if (value === undefined || value === '') {
+    lines.push(`${level} ${tag}`);
+    return;
+  }
+
+  value.split(/\r\n|\r|\n/).forEach((textLine, lineIndex) => {
+    const chunks: string[] = [];
+    for (let start = 0; start < textLine.length; start += MAX_LINE_VALUE_LENGTH) {
+      // Chunks are escaped separately so an @@ pair is never split across lines. The
+      // calendar escapes of dates (@#DJULIAN@) are written as they are, or readers would
+      // take them for literal @ signs and the date for a Gregorian one
+      const chunk = textLine.slice(start, start + MAX_LINE_VALUE_LENGTH);
+      chunks.push(tag === 'DATE'
+        ? chunk.replace(/@#D[^@]+@|@/g, escape => escape.length > 1 ? escape : '@@')
+        : chunk.replace(/@/g, '@@'));
+    }
+
+    if (lineIndex === 0) {
+      lines.push(`${level} ${tag} ${chunks[0] || ''}`.trimEnd());
+    } else {
+      lines.push(`${level + 1} CONT${chunks[0] ? ` ${chunks[0]}` : ''}`);
+    }
+    chunks.slice(1).forEach(chunk => lines.push(`${level + 1} CONC ${chunk}`));
+  });
+}
+
+/**
+ * Group parent, spouse and sibling relationships into GEDCOM families
+ * Each couple becomes one FAM record; children are attached to the family of their parents.
+ * @param memberIds - IDs of the members being exported
+ * @param relationships - Relationships in the tree
+ * @returns Families and the relationships that could not be expressed as family links
+ */
+function buildFamilies(memberIds: Set<string>, relationships: Relationship[]): {
+  families: GedcomFamily[];
+  unlinkedRelationships: Relationship[];
+} {
+  const families: GedcomFamily[] = [];
+  const unlinkedRelationships: Relationship[] = [];
+  const parentsOf = new Map<string, string[]>();
+  const lineageOf = new Map<string, Lineage>();
+  const siblingPairs: Relationship[] = [];
+
+  const familyFor = (parents: string[]): GedcomFamily => {
+    const key = [...parents].sort().join('|');
+    let family = families.find(f => [...f.parents].sort().join('|') === key);
+    if (!family) {
+      family = { xref: `@F${families.length + 1}@`, parents, children: [] };
+      families.push(family);
+    }
+    return family;
+  };
+
+  const addParent = (parentId: string, childId: string, lineage?: Lineage): void => {
+    const parents = parentsOf.get(childId) || [];
+    if (!parents.includes(parentId)) parents.push(parentId);
+    parentsOf.set(childId, parents);
+    if (lineage && lineage !== 'biological') lineageOf.set(`${parentId}|${childId}`, lineage);
+  };
+
+  const lineageTo = (parentId: string, childId: string): Lineage =>
+    lineageOf.get(`${parentId}|${childId}`) || 'biological';
+
+  const addChild = (family: GedcomFamily, childId: string): void => {
+    family.children.push(childId);
+    // The parents of a family share the child's lineage, so the first one stands for all
+    const lineage = family.parents.length > 0 ? lineageTo(family.parents[0], childId) : 'biological';
+    if (lineage !== 'biological') family.childLineage = { ...family.childLineage, [childId]: lineage };
+  };
+
+  relationships.forEach(rel => {
+    if (!memberIds.has(rel.fromUserId) || !memberIds.has(rel.toUserId)) return;
+
+    switch (rel.relationshipType) {
+      case 'spouse':
+        familyFor([rel.fromUserId, rel.toUserId]).partnership = rel;
+        break;
+      case 'parent':
+        // fromUser is parent of toUser
+        addParent(rel.fromUserId, rel.toUserId, rel.lineage);
+        break;
+      case 'child':
+        // fromUser is child of toUser
+        addParent(rel.toUserId, rel.fromUserId, rel.lineage);
+        break;
+      case 'sibling':
+        siblingPairs.push(rel);
+        break;
+      default:
+        unlinkedRelationships.push(rel);
+    }
+  });
+
+  const couples = [...families];
+  parentsOf.forEach((parents, childId) => {
+    let remaining = [...parents];
+
+    // Prefer the family of a couple when both of the child's parents are in it. A FAMC
+    // link has a single pedigree, so a child whose lineage differs between the two parents
+    // (e.g. a birth mother and a stepfather) is linked to each parent separately
+    const sameLineage = (parentIds: string[]) =>
+      parentIds.every(parentId => lineageTo(parentId, childId) === lineageTo(parentIds[0], childId));
+    couples.forEach(couple => {
+      if (couple.parents.every(parentId => remaining.includes(parentId)) && sameLineage(couple.parents)) {
+        addChild(couple, childId);
+        remaining = remaining.filter(parentId => !couple.parents.includes(parentId));
+      }
+    });
+
+    if (remaining.length === 2 && sameLineage(remaining)) {
+      addChild(familyFor(remaining), childId);
+    } else {
+      remaining.forEach(parentId => addChild(familyFor([parentId]), childId));
+    }
+  });
+
+  // Siblings share a family; siblings with no known parents get a family without parents
+  siblingPairs.forEach(rel => {
+    const familyOf = (memberId: string) => families.find(f => f.children.includes(memberId));
+    const fromFamily = familyOf(rel.fromUserId);
+    const toFamily = familyOf(rel.toUserId);
+
+    if (fromFamily && toFamily) {
+      if (fromFamily !== toFamily) unlinkedRelationships.push(rel);
+    } else if (fromFamily || toFamily) {
+      (fromFamily || toFamily as GedcomFamily).children.push(fromFamily ? rel.toUserId : rel.fromUserId);
+    } else {
+      families.push({ xref: `@F${families.length + 1}@`, parents: [], children: [rel.fromUserId, rel.toUserId] });
+    }
+  });
+
+  return { families, unlinkedRelationships };
+}
+
+/**
+ * Serialize family members and relationships to a GEDCOM 5.5.1 file
+ * Parent, child, spouse and sibling links become FAM records. Every other relationship,
+ * and any relationship with a specificLabel, is also written as an ASSO association so
+ * the label survives the export.
+ * @param members - Members to export
+ * @param relationships - Relationships between the members
+ * @param options - Export options (e.g. redacting living people)
+ * @returns GEDCOM file contents
+ */
+export function exportGedcom(
+  members: FamilyMember[],
+  relationships: Relationship[],
+  options: GedcomExportOptions = {}
+): string {
+  const lines: string[] = [];
+  const xrefs = new Map(members.map((member, index) => [member.id, `@I${index + 1}@`]));
+  const { families, unlinkedRelationships } = buildFamilies(new Set(xrefs.keys()), relationships);
+
+  // Associations are written on the record of the person the relationship is relative to
+  const associations = [
+    ...unlinkedRelationships,
+    ...relationships.filter(rel => rel.specificLabel && !unlinkedRelationships.includes(rel)),
+  ].filter(rel => xrefs.has(rel.fromUserId) && xrefs.has(rel.toUserId));
+
+  const today = new Date().toISOString().slice(0, 10);
+  writeLine(lines, 0, 'HEAD');
+  writeLine(lines, 1, 'SOUR', 'ROOTS');
+  writeLine(lines, 2, 'NAME', 'Roots');
+  writeLine(lines, 1, 'DATE', formatGedcomDate(today) || undefined);
+  lines.push('1 SUBM @U1@');
+  writeLine(lines, 1, 'GEDC');
+  writeLine(lines, 2, 'VERS', '5.5.1');
+  writeLine(lines, 2, 'FORM', 'LINEAGE-LINKED');
+  writeLine(lines, 1, 'CHAR', 'UTF-8');
+
+  writeLine(lines, 0, '@U1@ SUBM');
+  writeLine(lines, 1, 'NAME', 'Roots');
+
+  members.forEach(member => {
+    const redact = !!options.redactLiving && member.isLiving;
+    const firstName = redact ? 'Living' : member.firstName;
+
+    writeLine(lines, 0, `${xrefs.get(member.id)} INDI`);
+    writeLine(lines, 1, 'NAME', `${firstName} /${member.lastName}/`.trim());
+    if (firstName) writeLine(lines, 2, 'GIVN', firstName);
+    if (member.lastName) writeLine(lines, 2, 'SURN', member.lastName);
+
+    if (member.gender === 'male') writeLine(lines, 1, 'SEX', 'M');
+    else if (member.gender === 'female') writeLine(lines, 1, 'SEX', 'F');
+    else writeLine(lines, 1, 'SEX', 'U');
+
+    if (redact) {
+      writeLine(lines, 1, 'RESN', 'privacy');
+    } else {
+      const birthDate = member.dateOfBirth ? formatGedcomDate(member.dateOfBirth) : null;
+      if (birthDate) {
+        writeLine(lines, 1, 'BIRT');
+        writeLine(lines, 2, 'DATE', birthDate);
+      }
+
+      if (!member.isLiving) {
+        const deathDate = member.dateOfDeath ? formatGedcomDate(member.dateOfDeath) : null;
+        // "DEAT Y" records a death with no known date
+        writeLine(lines, 1, 'DEAT', deathDate ? undefined : 'Y');
+        if (deathDate) writeLine(lines, 2, 'DATE', deathDate);
+      }
+
+      if (member.occupation) writeLine(lines, 1, 'OCCU', member.occupation);
+      if (member.location) {
+        writeLine(lines, 1, 'RESI');
+        writeLine(lines, 2, 'PLAC', member.location);
+      }
+      if (member.email) writeLine(lines, 1, 'EMAIL', member.email);
+      if (member.phoneNumber) writeLine(lines, 1, 'PHON', member.phoneNumber);
+      if (member.biography) writeLine(lines, 1, 'NOTE', member.biography);
+    }
+
+    // Pointer lines are pushed directly so their @ signs are not escaped
+    families.forEach(family => {
+      if (family.parents.includes(member.id)) lines.push(`1 FAMS ${family.xref}`);
+    });
+    families.forEach(family => {
+      if (!family.children.includes(member.id)) return;
+      lines.push(`1 FAMC ${family.xref}`);
+      const lineage = family.childLineage?.[member.id];
+      if (lineage) {
+        const pedigree = Object.keys(PEDIGREES).find(value => PEDIGREES[value] === lineage) as string;
+        writeLine(lines, 2, CUSTOM_PEDIGREES.includes(lineage) ? '_PEDI' : 'PEDI', pedigree.toLowerCase());
+      }
+    });
+
+    associations
+      .filter(rel => rel.toUserId === member.id)
+      .forEach(rel => {
+        lines.push(`1 ASSO ${xrefs.get(rel.fromUserId)}`);
+        writeLine(lines, 2, 'RELA', rel.specificLabel || rel.relationshipType);
+      });
+  });
+
+  families.forEach(family => {
+    lines.push(`0 ${family.xref} FAM`);
+
+    // HUSB/WIFE are filled by gender where known, otherwise in order
+    const [first, second] = family.parents
+      .map(id => members.find(member => member.id === id) as FamilyMember)
+      .sort((a, b) => Number(a.gender === 'female') - Number(b.gender === 'female'));
+    if (first) lines.push(`1 ${(second || first.gender !== 'female') ? 'HUSB' : 'WIFE'} ${xrefs.get(first.id)}`);
+    if (second) lines.push(`1 WIFE ${xrefs.get(second.id)}`);
+
+    family.children.forEach(childId => lines.push(`1 CHIL ${xrefs.get(childId)}`));
+
+    const { partnership } = family;
+    if (partnership && partnership.partnershipStatus !== 'partner') {
+      // A couple's dates are as private as the partners themselves
+      const redact = !!options.redactLiving && (first?.isLiving || second?.isLiving);
+      const startDate = !redact && partnership.startDate ? formatGedcomDate(partnership.startDate) : null;
+      const endDate = !redact && partnership.endDate ? formatGedcomDate(partnership.endDate) : null;
+      // "MARR Y" records a marriage with no known date
+      writeLine(lines, 1, 'MARR', startDate ? undefined : 'Y');
+      if (startDate) writeLine(lines, 2, 'DATE', startDate);
+      if (partnership.partnershipStatus === 'divorced') {
+        writeLine(lines, 1, 'DIV', endDate ? undefined : 'Y');
+        if (endDate) writeLine(lines, 2, 'DATE', endDate);
+      }
+    }
+  });
+
+  writeLine(lines, 0, 'TRLR');
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  compareGenealogicalDates,
+  formatAge,
+  formatDateInput,
+  formatGenealogicalDate,
+  getAge,
+  getDateRange,
+  parseDateParts,
+  parseGenealogicalDate,
+  serializeGenealogicalDate,
+  GenealogicalDate
+} from './genealogicalDate';
+
+describe('genealogicalDate', () => {
+  describe('parseGenealogicalDate', () => {
+    it('should read full, partial and older DD/MM/YYYY dates', () => {
+      expect(parseGenealogicalDate('1950-03-14')).toEqual({ qualifier: 'exact', date: { year: 1950, month: 3, day: 14 }, calendar: 'gregorian' });
+      expect(parseGenealogicalDate('1950-03')?.date).toEqual({ year: 1950, month: 3, day: undefined });
+      expect(parseGenealogicalDate('1950')?.date).toEqual({ year: 1950, month: undefined, day: undefined });
+      expect(parseGenealogicalDate('14 / 03 / 1950')?.date).toEqual({ year: 1950, month: 3, day: 14 });
+      expect(parseGenealogicalDate('2001-01-05T00:00:00.000Z')?.date).toEqual({ year: 2001, month: 1, day: 5 });
+    });
+
+    it('should read qualifiers, ranges and the Julian calendar', () => {
+      expect(parseGenealogicalDate('ABT 1900')?.qualifier).toBe('about');
+      expect(parseGenealogicalDate('bef 1900-06')?.qualifier).toBe('before');
+      expect(parseGenealogicalDate('AFT 1900')?.qualifier).toBe('after');
+      expect(parseGenealogicalDate('BET 1900 AND 1910-05')).toEqual({
+        qualifier: 'between',
+        date: { year: 1900, month: undefined, day: undefined },
+        endDate: { year: 1910, month: 5, day: undefined },
+        calendar: 'gregorian'
+      });
+      expect(parseGenealogicalDate('JULIAN ABT 1700-02-29')).toMatchObject({ qualifier: 'about', calendar: 'julian' });
+    });
+
+    it('should reject dates that do not exist', () => {
+      expect(parseGenealogicalDate('1950-02-30')).toBeNull();
+      expect(parseGenealogicalDate('1950-13')).toBeNull();
+      // 1700 is a leap year only in the Julian calendar
+      expect(parseGenealogicalDate('1700-02-29')).toBeNull();
+      expect(parseGenealogicalDate('ABT')).toBeNull();
+      expect(parseGenealogicalDate('BET 1900')).toBeNull();
+      expect(parseGenealogicalDate('sometime in spring')).toBeNull();
+      expect(parseGenealogicalDate('')).toBeNull();
+    });
+
+    it('should read back every date it stores', () => {
+      const partsArbitrary = fc.record({
+        year: fc.integer({ min: 1000, max: 2100 }),
+        month: fc.option(fc.integer({ min: 1, max: 12 }), { nil: undefined }),
+        day: fc.option(fc.integer({ min: 1, max: 28 }), { nil: undefined }),
+      }).map(parts => ({ ...parts, day: parts.month ? parts.day : undefined }));
+      const dateArbitrary = fc.record({
+        qualifier: fc.constantFrom('exact' as const, 'about' as const, 'before' as const, 'after' as const, 'between' as const),
+        date: partsArbitrary,
+        endDate: partsArbitrary,
+        calendar: fc.constantFrom('gregorian' as const, 'julian' as const),
+      }).map(date => (date.qualifier === 'between' ? date : { ...date, endDate: undefined }) as GenealogicalDate);
+
+      fc.assert(
+        fc.property(dateArbitrary, date => {
+          expect(parseGenealogicalDate(serializeGenealogicalDate(date))).toEqual(date);
+        }),
+        { numRuns: 200 }
+      );
+    });
+  });
+
+  describe('formatGenealogicalDate', () => {
+    it('should describe each kind of date', () => {
+      expect(formatGenealogicalDate('1950-03-14')).toBe('14 Mar 1950');
+      expect(formatGenealogicalDate('1950-03')).toBe('Mar 1950');
+      expect(formatGenealogicalDate('ABT 1950')).toBe('about 1950');
+      expect(formatGenealogicalDate('BEF 1950-03')).toBe('before Mar 1950');
+      expect(formatGenealogicalDate('BET 1900 AND 1910')).toBe('between 1900 and 1910');
+      expect(formatGenealogicalDate('JULIAN 1700-02-11')).toBe('11 Feb 1700 (Julian)');
+      expect(formatGenealogicalDate('AFT 1950-03-14', { yearOnly: true })).toBe('after 1950');
+      expect(formatGenealogicalDate('unknown')).toBe('');
+    });
+
+    it('should write dates the way date fields show them', () => {
+      expect(formatDateInput({ year: 1950, month: 3, day: 4 })).toBe('04/03/1950');
+      expect(formatDateInput({ year: 1950, month: 3 })).toBe('03/1950');
+      expect(formatDateInput({ year: 1950 })).toBe('1950');
+      expect(parseDateParts('04/03/1950')).toEqual({ year: 1950, month: 3, day: 4 });
+    });
+  });
+
+  describe('getDateRange', () => {
+    it('should cover every day a partial date could mean', () => {
+      expect(getDateRange('1950')).toEqual({ earliest: Date.UTC(1950, 0, 1), latest: Date.UTC(1950, 11, 31) });
+      expect(getDateRange('1952-02')).toEqual({ earliest: Date.UTC(1952, 1, 1), latest: Date.UTC(1952, 1, 29) });
+    });
+
+    it('should widen qualified dates', () => {
+      expect(getDateRange('ABT 1950')).toEqual({ earliest: Date.UTC(1945, 0, 1), latest: Date.UTC(1955, 11, 31) });
+      expect(getDateRange('BEF 1950')?.latest).toBe(Date.UTC(1949, 11, 31));
+      expect(getDateRange('AFT 1950')?.earliest).toBe(Date.UTC(1951, 0, 1));
+      expect(getDateRange('BET 1900 AND 1910')).toEqual({ earliest: Date.UTC(1900, 0, 1), latest: Date.UTC(1910, 11, 31) });
+    });
+
+    it('should place Julian dates on the Gregorian timeline', () => {
+      // Britain moved from 2 Sep 1752 (Julian) straight to 14 Sep 1752 (Gregorian)
+      expect(getDateRange('JULIAN 1752-09-03')?.earliest).toBe(Date.UTC(1752, 8, 14));
+    });
+  });
+
+  describe('compareGenealogicalDates', () => {
+    it('should sort by date, with before and after around the date they name and unknown dates last', () => {
+      const dates = ['1950-06-01', undefined, 'AFT 1950', '1949', 'BEF 1950', 'ABT 1950', 'JULIAN 1950-01-01', '1950'];
+      expect([...dates].sort(compareGenealogicalDates)).toEqual([
+        '1949', 'BEF 1950', 'ABT 1950', '1950', 'JULIAN 1950-01-01', '1950-06-01', 'AFT 1950', undefined
+      ]);
+    });
+  });
+
+  describe('getAge', () => {
+    const now = Date.UTC(2024, 5, 1);
+
+    it('should count whole years to today or to a date of death', () => {
+      expect(getAge('1950-06-01', null, now)).toEqual({ min: 74, max: 74 });
+      expect(getAge('1950-06-02', null, now)).toEqual({ min: 73, max: 73 });
+      expect(getAge('1900-03-14', '1980-03-13')).toEqual({ min: 79, max: 79 });
+    });
+
+    it('should give a range for partial or approximate dates', () => {
+      expect(getAge('1950', null, now)).toEqual({ min: 73, max: 74 });
+      expect(formatAge(getAge('ABT 1900', '1980') as { min: number; max: number })).toBe('74–85');
+      expect(formatAge({ min: 42, max: 42 })).toBe('42');
+    });
+
+    it('should not give an age when either date is unknown or the death is before the birth', () => {
+      expect(getAge(undefined, null, now)).toBeNull();
+      expect(getAge('1950', 'unknown')).toBeNull();
+      expect(getAge('1950', '1940')).toBeNull();
+    });
+  });
+});
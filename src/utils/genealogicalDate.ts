@@ -0,0 +1,340 @@
+/**
+ * Genealogical dates
+ * Dates as family records know them: only a year or a month, about, before, after or
+ * between two dates, and in the Julian or Gregorian calendar
+ *
+ * Dates are stored as strings so existing full dates keep working:
+ *   "1950-03-14", "1950-03", "1950"     exact, month-year and year-only dates
+ *   "ABT 1950", "BEF 1950-03", "AFT 1950"
+ *   "BET 1900 AND 1910"
+ *   "JULIAN 1700-02-11"                 Julian calendar, before any qualifier
+ */
+
+export type DateQualifier = 'exact' | 'about' | 'before' | 'after' | 'between';
+
+export type CalendarSystem = 'gregorian' | 'julian';
+
+// A full or partial date; month and day are 1-based
+export interface DateParts {
+  year: number;
+  month?: number;
+  day?: number;
+}
+
+export interface GenealogicalDate {
+  qualifier: DateQualifier;
+  date: DateParts;
+  // Second date of a 'between' range
+  endDate?: DateParts;
+  calendar: CalendarSystem;
+}
+
+// Earliest and latest moment a date could mean, in milliseconds (UTC, Gregorian)
+export interface DateRange {
+  earliest: number;
+  latest: number;
+}
+
+// Whole years a span of time could cover
+export interface AgeRange {
+  min: number;
+  max: number;
+}
+
+const QUALIFIER_CODES: Record<Exclude<DateQualifier, 'exact' | 'between'>, string> = {
+  about: 'ABT',
+  before: 'BEF',
+  after: 'AFT',
+};
+
+const QUALIFIER_WORDS: Record<DateQualifier, string> = {
+  exact: '',
+  about: 'about',
+  before: 'before',
+  after: 'after',
+  between: 'between',
+};
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Julian day number of 1970-01-01
+const UNIX_EPOCH_JDN = 2440588;
+
+// How far an "about" date may be out, and how far back or on "before" and "after" reach
+const ABOUT_YEARS = 5;
+const OPEN_ENDED_YEARS = 50;
+
+const isLeapYear = (year: number, calendar: CalendarSystem): boolean =>
+  calendar === 'julian'
+    ? year % 4 === 0
+    : (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+
+/**
+ * Gets the number of days in a month
+ * @param year - Year
+ * @param month - Month, 1-based
+ * @param calendar - Calendar the year is in
+ * @returns Days in the month
+ */
+export function getDaysInMonth(year: number, month: number, calendar: CalendarSystem = 'gregorian'): number {
+  if (month === 2) return isLeapYear(year, calendar) ? 29 : 28;
+  return [4, 6, 9, 11].includes(month) ? 30 : 31;
+}
+
+/**
+ * Converts a day in either calendar to milliseconds since 1970-01-01 (UTC)
+ * Uses the Julian day number so both calendars land on the same timeline
+ */
+function toTime(year: number, month: number, day: number, calendar: CalendarSystem): number {
+  const a = Math.floor((14 - month) / 12);
+  const y = year + 4800 - a;
+  const m = month + 12 * a - 3;
+  const dayNumber = day + Math.floor((153 * m + 2) / 5) + 365 * y + Math.floor(y / 4)
+    + (calendar === 'julian' ? -32083 : -Math.floor(y / 100) + Math.floor(y / 400) - 32045);
+  return (dayNumber - UNIX_EPOCH_JDN) * DAY_MS;
+}
+
+/**
+ * Reads a single full or partial date
+ * Accepts YYYY-MM-DD (with or without a time), YYYY-MM, YYYY, DD/MM/YYYY and MM/YYYY
+ * @param value - Date text
+ * @param calendar - Calendar the date is in, for checking the day exists
+ * @returns The date's parts, or null if it is not a date that exists
+ */
+export function parseDateParts(value: string, calendar: CalendarSystem = 'gregorian'): DateParts | null {
+  const text = value.replace(/\s/g, '');
+  const iso = text.match(/^(\d{4})(?:-(\d{2})(?:-(\d{2})(?:T.*)?)?)?$/);
+  const slashed = text.match(/^(?:(?:(\d{1,2})\/)?(\d{1,2})\/)?(\d{4})$/);
+
+  let parts: DateParts;
+  if (iso) {
+    parts = { year: Number(iso[1]), month: iso[2] ? Number(iso[2]) : undefined, day: iso[3] ? Number(iso[3]) : undefined };
+  } else if (slashed) {
+    parts = { year: Number(slashed[3]), month: slashed[2] ? Number(slashed[2]) : undefined, day: slashed[1] ? Number(slashed[1]) : undefined };
+  } else {
+    return null;
+  }
+
+  if (parts.year < 1) return null;
+  if (parts.month !== undefined && (parts.month < 1 || parts.month > 12)) return null;
+  if (parts.day !== undefined && (parts.day < 1 || parts.day > getDaysInMonth(parts.year, parts.month as number, calendar))) {
+    return null;
+  }
+  return parts;
+}
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+// Stored form of a single date: YYYY-MM-DD, YYYY-MM or YYYY
+const serializeParts = (parts: DateParts): string =>
+  [pad(parts.year, 4), parts.month && pad(parts.month), parts.month && parts.day && pad(parts.day)].filter(Boolean).join('-');
+
+/**
+ * Reads a stored date, including the DD/MM/YYYY dates of older records
+ * @param value - Stored date (e.g. "1950-03-14", "ABT 1950", "BET 1900 AND 1910")
+ * @returns The date, or null if it is missing or unreadable
+ */
+export function parseGenealogicalDate(value?: string | null): GenealogicalDate | null {
+  let text = value?.trim().toUpperCase();
+  if (!text) return null;
+
+  let calendar: CalendarSystem = 'gregorian';
+  if (text.startsWith('JULIAN ')) {
+    calendar = 'julian';
+    text = text.slice('JULIAN '.length).trim();
+  }
+
+  const range = text.match(/^BET\s+(\S+)\s+AND\s+(\S+)$/);
+  if (range) {
+    const date = parseDateParts(range[1], calendar);
+    const endDate = parseDateParts(range[2], calendar);
+    return date && endDate ? { qualifier: 'between', date, endDate, calendar } : null;
+  }
+
+  const [code, rest] = text.split(/\s+(.*)/);
+  const qualifier = (Object.keys(QUALIFIER_CODES) as (keyof typeof QUALIFIER_CODES)[])
+    .find(key => QUALIFIER_CODES[key] === code);
+  const date = parseDateParts(qualifier ? rest || '' : text, calendar);
+  return date ? { qualifier: qualifier || 'exact', date, calendar } : null;
+}
+
+/**
+ * Writes a date in its stored form
+ * @param date - Date to store
+ * @returns Stored date string
+ */
+export function serializeGenealogicalDate(date: GenealogicalDate): string {
+  const calendar = date.calendar === 'julian' ? 'JULIAN ' : '';
+  if (date.qualifier === 'between' && date.endDate) {
+    return `${calendar}BET ${serializeParts(date.date)} AND ${serializeParts(date.endDate)}`;
+  }
+  const code = date.qualifier === 'exact' || date.qualifier === 'between' ? '' : `${QUALIFIER_CODES[date.qualifier]} `;
+  return `${calendar}${code}${serializeParts(date.date)}`;
+}
+
+// Readable single date: "14 Mar 1950", "Mar 1950" or "1950"
+const formatParts = (parts: DateParts, yearOnly: boolean): string => {
+  if (yearOnly || !parts.month) return String(parts.year);
+  const month = MONTH_NAMES[parts.month - 1];
+  return parts.day ? `${parts.day} ${month} ${parts.year}` : `${month} ${parts.year}`;
+};
+
+/**
+ * Formats a stored date for display, e.g. "14 Mar 1950", "about 1950" or "between 1900 and 1910"
+ * @param value - Stored date
+ * @param options - yearOnly shows only the year of each date
+ * @returns Readable date, or an empty string if the date is missing or unreadable
+ */
+export function formatGenealogicalDate(value?: string | null, options: { yearOnly?: boolean } = {}): string {
+  const date = parseGenealogicalDate(value);
+  if (!date) return '';
+
+  const yearOnly = !!options.yearOnly;
+  const calendar = date.calendar === 'julian' ? ' (Julian)' : '';
+  if (date.qualifier === 'between' && date.endDate) {
+    return `between ${formatParts(date.date, yearOnly)} and ${formatParts(date.endDate, yearOnly)}${calendar}`;
+  }
+  const qualifier = QUALIFIER_WORDS[date.qualifier];
+  return `${qualifier ? `${qualifier} ` : ''}${formatParts(date.date, yearOnly)}${calendar}`;
+}
+
+// Range of a single date, from its first to its last day
+const getPartsRange = (parts: DateParts, calendar: CalendarSystem): DateRange => {
+  const firstMonth = parts.month || 1;
+  const lastMonth = parts.month || 12;
+  return {
+    earliest: toTime(parts.year, firstMonth, parts.day || 1, calendar),
+    latest: toTime(parts.year, lastMonth, parts.day || getDaysInMonth(parts.year, lastMonth, calendar), calendar),
+  };
+};
+
+const addYears = (time: number, years: number): number => {
+  const date = new Date(time);
+  date.setUTCFullYear(date.getUTCFullYear() + years);
+  return date.getTime();
+};
+
+/**
+ * Gets the range of time a date could mean
+ * "About" dates reach a few years either way; "before" and "after" dates reach decades
+ * @param value - Stored date, or a date already read
+ * @returns Range of the date, or null if it is missing or unreadable
+ */
+export function getDateRange(value?: string | GenealogicalDate | null): DateRange | null {
+  const date = typeof value === 'string' ? parseGenealogicalDate(value) : value ?? null;
+  if (!date) return null;
+
+  const range = getPartsRange(date.date, date.calendar);
+  switch (date.qualifier) {
+    case 'about':
+      return { earliest: addYears(range.earliest, -ABOUT_YEARS), latest: addYears(range.latest, ABOUT_YEARS) };
+    case 'before':
+      return { earliest: addYears(range.earliest, -OPEN_ENDED_YEARS), latest: range.earliest - DAY_MS };
+    case 'after':
+      return { earliest: range.latest + DAY_MS, latest: addYears(range.latest, OPEN_ENDED_YEARS) };
+    case 'between':
+      return date.endDate
+        ? { earliest: range.earliest, latest: Math.max(range.latest, getPartsRange(date.endDate, date.calendar).latest) }
+        : range;
+    default:
+      return range;
+  }
+}
+
+/**
+ * Gets the point a date sorts by: the start of the date it names, with "before" dates
+ * just ahead of it and "after" dates just behind
+ */
+function getSortTime(value?: string | null): number | null {
+  const date = parseGenealogicalDate(value);
+  if (!date) return null;
+
+  const range = getPartsRange(date.date, date.calendar);
+  if (date.qualifier === 'before') return range.earliest - 1;
+  if (date.qualifier === 'after') return range.latest + 1;
+  return range.earliest;
+}
+
+/**
+ * Compares two stored dates for sorting, earliest first; missing or unreadable dates sort last
+ * @param a - Stored date
+ * @param b - Stored date
+ * @returns Negative if a comes first, positive if b does, 0 if they sort together
+ */
+export function compareGenealogicalDates(a?: string | null, b?: string | null): number {
+  const timeA = getSortTime(a);
+  const timeB = getSortTime(b);
+  if (timeA === null && timeB === null) return 0;
+  if (timeA === null) return 1;
+  if (timeB === null) return -1;
+  return timeA - timeB;
+}
+
+/**
+ * Counts the whole years from one moment to another, by calendar date rather than by
+ * average year length
+ * @param from - Start, in milliseconds
+ * @param to - End, in milliseconds
+ * @returns Whole years, negative if the end is before the start
+ */
+export function getWholeYearsBetween(from: number, to: number): number {
+  if (to < from) return -getWholeYearsBetween(to, from);
+
+  const start = new Date(from);
+  const end = new Date(to);
+  const years = end.getUTCFullYear() - start.getUTCFullYear();
+  const beforeAnniversary = end.getUTCMonth() < start.getUTCMonth()
+    || (end.getUTCMonth() === start.getUTCMonth() && end.getUTCDate() < start.getUTCDate());
+  return beforeAnniversary ? years - 1 : years;
+}
+
+/**
+ * Gets the fewest and most whole years that can lie between two dates
+ * @param from - Range of the earlier date
+ * @param to - Range of the later date
+ * @returns Fewest and most years
+ */
+export function getYearsBetween(from: DateRange, to: DateRange): AgeRange {
+  return {
+    min: getWholeYearsBetween(from.latest, to.earliest),
+    max: getWholeYearsBetween(from.earliest, to.latest),
+  };
+}
+
+/**
+ * Gets someone's age, at their death or today
+ * @param dateOfBirth - Stored date of birth
+ * @param at - Stored date to age them to (e.g. the date of death); today when omitted
+ * @param now - Today, in milliseconds
+ * @returns Fewest and most years they could be, or null if either date is unknown
+ */
+export function getAge(dateOfBirth?: string | null, at?: string | null, now: number = Date.now()): AgeRange | null {
+  const birth = getDateRange(dateOfBirth);
+  const end = at ? getDateRange(at) : { earliest: now, latest: now };
+  if (!birth || !end) return null;
+
+  const { min, max } = getYearsBetween(birth, end);
+  if (max < 0) return null;
+  return { min: Math.max(min, 0), max };
+}
+
+/**
+ * Formats an age, e.g. "42" or "40–45" when the dates are not known exactly
+ * @param age - Age range
+ * @returns Readable age
+ */
+export function formatAge(age: AgeRange): string {
+  return age.min === age.max ? String(age.min) : `${age.min}–${age.max}`;
+}
+
+/**
+ * Writes a stored date the way the date fields show it: DD/MM/YYYY, MM/YYYY or YYYY
+ * @param parts - Date parts
+ * @returns Date text
+ */
+export function formatDateInput(parts: DateParts): string {
+  return [parts.month && parts.day && pad(parts.day), parts.month && pad(parts.month), String(parts.year)]
+    .filter(Boolean)
+    .join('/');
+}
@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { exportCalendar, getIcsFileName, getWebcalUrl, parseIcs } from './icalendar';
+import { FamilyEvent, FamilyOccasion } from '../types/components';
+
+const event = (extra: Partial<FamilyEvent> = {}): FamilyEvent => ({
+  id: 'party',
+  title: "Cousin Mike's Graduation Party",
+  category: 'celebration',
+  eventDate: new Date(2025, 10, 22, 18, 0).toISOString(),
+  isAllDay: false,
+  attendees: [],
+  rsvps: [],
+  myRsvp: 'going',
+  isCancelled: false,
+  createdBy: 'user-1',
+  hostName: 'Sarah Rivera',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-02T10:30:00.000Z',
+  ...extra,
+});
+
+// Dated when called, once the test time zone is set
+const birthday = (): FamilyOccasion => ({
+  id: 'birthday-elena',
+  kind: 'birthday',
+  title: "Elena Rivera's Birthday",
+  detail: 'Turning 54',
+  memberIds: ['elena'],
+  eventDate: new Date(2025, 9, 25).toISOString(),
+  isAllDay: true,
+  years: 54,
+  recurrence: 'FREQ=YEARLY',
+});
+
+const now = Date.UTC(2025, 2, 1, 12);
+const linesOf = (ics: string): string[] => ics.replace(/\r\n /g, '').split('\r\n');
+
+describe('icalendar', () => {
+  const originalTimeZone = process.env.TZ;
+
+  beforeAll(() => {
+    process.env.TZ = 'America/New_York';
+  });
+
+  afterAll(() => {
+    if (originalTimeZone === undefined) {
+      delete process.env.TZ;
+    } else {
+      process.env.TZ = originalTimeZone;
+    }
+  });
+
+  describe('exportCalendar', () => {
+    it('should write timed events in the local time zone with its daylight saving rules', () => {
+      const lines = linesOf(exportCalendar([event({ recurrence: 'FREQ=MONTHLY;UNTIL=20261231' })], [], { now }));
+
+      expect(lines.slice(lines.indexOf('BEGIN:VTIMEZONE'), lines.indexOf('END:VTIMEZONE') + 1)).toEqual([
+        'BEGIN:VTIMEZONE',
+        'TZID:America/New_York',
+        'BEGIN:DAYLIGHT',
+        'DTSTART:20250309T020000',
+        'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+        'TZOFFSETFROM:-0500',
+        'TZOFFSETTO:-0400',
+        'END:DAYLIGHT',
+        'BEGIN:STANDARD',
+        'DTSTART:20251102T020000',
+        'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+        'TZOFFSETFROM:-0400',
+        'TZOFFSETTO:-0500',
+        'END:STANDARD',
+        'END:VTIMEZONE',
+      ]);
+      expect(lines.slice(lines.indexOf('BEGIN:VEVENT'), lines.indexOf('END:VEVENT') + 1)).toEqual([
+        'BEGIN:VEVENT',
+        'UID:event-party@synora.app',
+        'DTSTAMP:20250301T120000Z',
+        'DTSTART;TZID=America/New_York:20251122T180000',
+        'DTEND;TZID=America/New_York:20251122T200000',
+        // A date-only UNTIL covers the whole local day
+        'RRULE:FREQ=MONTHLY;UNTIL=20270101T045959Z',
+        "SUMMARY:Cousin Mike's Graduation Party",
+        'CATEGORIES:Celebration',
+        'STATUS:CONFIRMED',
+        'LAST-MODIFIED:20250102T103000Z',
+        'END:VEVENT',
+      ]);
+    });
+
+    it('should write all-day events and family occasions as dates, without a time zone', () => {
+      const reunion = event({
+        title: 'Reunion; bring chairs, games',
+        description: 'Lunch at noon\nGames after',
+        category: 'reunion',
+        eventDate: new Date(2025, 6, 4).toISOString(),
+        isAllDay: true,
+        location: 'Lake House',
+        isCancelled: true,
+      });
+      const lines = linesOf(exportCalendar([reunion], [birthday()], { name: "Maria's Family Calendar", now }));
+
+      expect(lines).not.toContain('BEGIN:VTIMEZONE');
+      expect(lines).toContain("X-WR-CALNAME:Maria's Family Calendar");
+      expect(lines).toEqual(expect.arrayContaining([
+        'DTSTART;VALUE=DATE:20250704',
+        'DTEND;VALUE=DATE:20250705',
+        'SUMMARY:Reunion\\; bring chairs\\, games',
+        'DESCRIPTION:Lunch at noon\\nGames after',
+        'LOCATION:Lake House',
+        'STATUS:CANCELLED',
+        'UID:birthday-elena@synora.app',
+        'DTSTART;VALUE=DATE:20251025',
+        'RRULE:FREQ=YEARLY',
+        'DESCRIPTION:Turning 54 in 2025',
+        'CATEGORIES:Birthday',
+      ]));
+    });
+
+    it('should fold long lines at 75 octets without splitting characters', () => {
+      const ics = exportCalendar([event({ description: 'Café '.repeat(40) })], [], { now });
+      const physicalLines = ics.split('\r\n');
+
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(physicalLines.every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+      expect(linesOf(ics)).toContain(`DESCRIPTION:${'Café '.repeat(40)}`);
+    });
+  });
+
+  describe('getIcsFileName', () => {
+    it('should name the file after the event', () => {
+      expect(getIcsFileName("Cousin Mike's Graduation Party!")).toBe('cousin-mikes-graduation-party.ics');
+      expect(getIcsFileName('🎉')).toBe('event.ics');
+    });
+  });
+
+  describe('getWebcalUrl', () => {
+    it('should hand the feed to the calendar app to subscribe to', () => {
+      expect(getWebcalUrl('https://api.example.com/events/feed/abc123.ics')).toBe('webcal://api.example.com/events/feed/abc123.ics');
+      expect(getWebcalUrl('http://localhost:3000/events/feed/abc123.ics')).toBe('webcal://localhost:3000/events/feed/abc123.ics');
+    });
+  });
+
+  describe('parseIcs', () => {
+    it('should read events from other calendars', () => {
+      const ics = [
+        'BEGIN:VCALENDAR',
+        'PRODID:-//Google Inc//Google Calendar 70.9054//EN',
+        'BEGIN:VTIMEZONE',
+        'TZID:Europe/Madrid',
+        'END:VTIMEZONE',
+        'BEGIN:VEVENT',
+        'DTSTART;TZID="Europe/Madrid":20250614T190000',
+        'RRULE:FREQ=YEARLY',
+        'SUMMARY:Abuela\'s Birthday Dinner',
+        'DESCRIPTION:Paella at home\\, then cake.\\nBring photos',
+        '  for the album.',
+        'LOCATION:Calle Mayor 5\\, Madrid',
+        'CATEGORIES:DINNER',
+        'BEGIN:VALARM',
+        'DESCRIPTION:Reminder',
+        'END:VALARM',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART:20250801T160000Z',
+        'SUMMARY:Beach trip',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:20251225',
+        'SUMMARY:Christmas',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n');
+
+      expect(parseIcs(ics)).toEqual({
+        events: [
+          {
+            title: "Abuela's Birthday Dinner",
+            description: 'Paella at home, then cake.\nBring photos for the album.',
+            category: 'dinner',
+            eventDate: '2025-06-14T17:00:00.000Z',
+            isAllDay: false,
+            location: 'Calle Mayor 5, Madrid',
+            recurrence: 'FREQ=YEARLY',
+          },
+          {
+            title: 'Beach trip',
+            description: undefined,
+            category: undefined,
+            eventDate: '2025-08-01T16:00:00.000Z',
+            isAllDay: false,
+            location: undefined,
+            recurrence: null,
+          },
+          {
+            title: 'Christmas',
+            description: undefined,
+            category: undefined,
+            eventDate: new Date(2025, 11, 25).toISOString(),
+            isAllDay: true,
+            location: undefined,
+            recurrence: null,
+          },
+        ],
+        skipped: [],
+      });
+    });
+
+    it('should skip events it cannot create and say why', () => {
+      const ics = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT', 'SUMMARY:Called off', 'DTSTART:20250801T160000Z', 'STATUS:CANCELLED', 'END:VEVENT',
+        'BEGIN:VEVENT', 'SUMMARY:Standup', 'DTSTART:20250801T160000Z', 'RRULE:FREQ=HOURLY', 'END:VEVENT',
+        'BEGIN:VEVENT', 'SUMMARY:Moved once', 'DTSTART:20250801T160000Z', 'RECURRENCE-ID:20250801T160000Z', 'END:VEVENT',
+        'BEGIN:VEVENT', 'SUMMARY:Someday', 'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\n');
+
+      expect(parseIcs(ics)).toEqual({
+        events: [],
+        skipped: [
+          { title: 'Called off', reason: 'Cancelled' },
+          { title: 'Standup', reason: 'Repeats in a way that is not supported' },
+          { title: 'Moved once', reason: 'Changes one date of a repeating event' },
+          { title: 'Someday', reason: 'Has no start date' },
+        ],
+      });
+    });
+
+    it('should read back the events it exports', () => {
+      const original = event({ description: 'Cake, games; and\nmusic', location: 'The Rivera House', recurrence: 'FREQ=WEEKLY;BYDAY=SA' });
+      const [imported] = parseIcs(exportCalendar([original], [], { now })).events;
+
+      expect(imported).toEqual({
+        title: original.title,
+        description: original.description,
+        category: 'celebration',
+        eventDate: original.eventDate,
+        isAllDay: false,
+        location: original.location,
+        recurrence: original.recurrence,
+      });
+    });
+  });
+});
@@ -0,0 +1,458 @@
+/**
+ * iCalendar (.ics) utilities
+ * Writes family events and occasions as RFC 5545 calendars that Google, Apple and Outlook
+ * calendars can import, and reads events back from .ics files to create them here.
+ *
+ * Timed events are written in the browser's own time zone, the one they are shown in, with a
+ * VTIMEZONE describing its offsets. All-day events and occasions are written as dates.
+ */
+
+import { CreateEventRequest, EventCategory } from '../types/api';
+import { FamilyEvent, FamilyOccasion } from '../types/components';
+import { formatRecurrenceRule, getUntilTime, normalizeRecurrenceRule, parseRecurrenceRule } from './recurrence';
+
+const PRODUCT_ID = '-//Synora//Family Events//EN';
+const UID_DOMAIN = 'synora.app';
+
+// Events have no end time; timed ones are this long in other calendars
+const EVENT_DURATION_HOURS = 2;
+
+// Longest content line in octets before it is folded onto the next line
+const MAX_LINE_OCTETS = 75;
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const CATEGORY_LABELS: Record<EventCategory, string> = {
+  celebration: 'Celebration',
+  reunion: 'Reunion',
+  dinner: 'Dinner',
+  trip: 'Trip',
+  memorial: 'Memorial',
+};
+
+const OCCASION_LABELS: Record<FamilyOccasion['kind'], string> = {
+  birthday: 'Birthday',
+  anniversary: 'Anniversary',
+  memorial: 'Memorial',
+};
+
+export interface IcsCalendarOptions {
+  // Calendar name shown by calendar apps
+  name?: string;
+  // Moment the calendar is generated, in milliseconds; defaults to now
+  now?: number;
+}
+
+export interface IcsSkippedEvent {
+  title: string;
+  reason: string;
+}
+
+export interface IcsImportResult {
+  events: CreateEventRequest[];
+  // Events in the file that could not be imported, and why
+  skipped: IcsSkippedEvent[];
+}
+
+// Internal interface for one property line, e.g. DTSTART;TZID=Europe/Paris:20251122T180000
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+const formatDate = (date: Date): string =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+
+const formatLocalDateTime = (date: Date): string =>
+  `${formatDate(date)}T${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+
+const formatUtcDateTime = (time: number): string => new Date(time).toISOString().replace(/[-:]|\.\d{3}/g, '');
+
+// Offset from UTC as +HHMM or -HHMM
+const formatOffset = (minutes: number): string =>
+  `${minutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+
+// Local offset from UTC in minutes at a moment, east positive
+const getLocalOffset = (time: number): number => -new Date(time).getTimezoneOffset();
+
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+/**
+ * Splits a content line longer than 75 octets onto continuation lines starting with a space,
+ * never inside a character
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > MAX_LINE_OCTETS) {
+      lines.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join('\r\n');
+}
+
+/**
+ * Name of the browser's time zone, e.g. "America/Chicago"
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Moments in a year when the local offset from UTC changes, found to the minute
+ */
+function getOffsetChanges(year: number): Array<{ time: number; offsetFrom: number; offsetTo: number }> {
+  const changes: Array<{ time: number; offsetFrom: number; offsetTo: number }> = [];
+  const end = new Date(year + 1, 0, 1).getTime();
+
+  for (let day = new Date(year, 0, 1).getTime(); day < end; day += 86400000) {
+    const next = Math.min(day + 86400000, end);
+    if (getLocalOffset(day) === getLocalOffset(next)) continue;
+
+    let low = day;
+    let high = next;
+    while (high - low > 60000) {
+      const middle = low + Math.floor((high - low) / 120000) * 60000;
+      if (getLocalOffset(middle) === getLocalOffset(low)) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    changes.push({ time: high, offsetFrom: getLocalOffset(low), offsetTo: getLocalOffset(high) });
+  }
+  return changes;
+}
+
+/**
+ * VTIMEZONE for the browser's time zone, with a yearly rule for each change between standard
+ * and daylight saving time, as they fall in `year`
+ */
+function buildTimeZone(timeZone: string, year: number): string[] {
+  const changes = getOffsetChanges(year);
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+
+  if (changes.length === 0) {
+    const offset = formatOffset(getLocalOffset(new Date(year, 0, 1).getTime()));
+    lines.push('BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD');
+  }
+
+  changes.forEach(({ time, offsetFrom, offsetTo }) => {
+    // Changes are given in the local time they happen at, before the clocks move
+    const wallTime = new Date(time + offsetFrom * 60000);
+    const month = wallTime.getUTCMonth();
+    const day = wallTime.getUTCDate();
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    const ordinal = day > daysInMonth - 7 ? -1 : Math.ceil(day / 7);
+    const component = offsetTo > offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+
+    lines.push(
+      `BEGIN:${component}`,
+      `DTSTART:${formatUtcDateTime(wallTime.getTime()).replace('Z', '')}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${month + 1};BYDAY=${ordinal}${WEEKDAY_CODES[wallTime.getUTCDay()]}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `END:${component}`
+    );
+  });
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/**
+ * RRULE for an event, with UNTIL in the form its start uses: a date for all-day events,
+ * a UTC time otherwise
+ */
+function formatIcsRecurrence(recurrence: string | null | undefined, isAllDay: boolean): string | null {
+  const rule = parseRecurrenceRule(recurrence);
+  if (!rule) return null;
+
+  if (rule.until) {
+    const until = getUntilTime(rule.until) as number;
+    rule.until = isAllDay ? formatDate(new Date(until)) : formatUtcDateTime(until);
+  }
+  return `RRULE:${formatRecurrenceRule(rule)}`;
+}
+
+/**
+ * DTSTART and DTEND of an event, as dates or as local times in the given time zone
+ */
+function formatEventSpan(eventDate: string, isAllDay: boolean, timeZone: string): string[] {
+  const start = new Date(eventDate);
+  if (isAllDay) {
+    const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1);
+    return [`DTSTART;VALUE=DATE:${formatDate(start)}`, `DTEND;VALUE=DATE:${formatDate(end)}`];
+  }
+
+  const end = new Date(start.getTime() + EVENT_DURATION_HOURS * 3600000);
+  return [`DTSTART;TZID=${timeZone}:${formatLocalDateTime(start)}`, `DTEND;TZID=${timeZone}:${formatLocalDateTime(end)}`];
+}
+
+function buildEvent(event: FamilyEvent, timeZone: string, now: number): string[] {
+  const recurrence = formatIcsRecurrence(event.recurrence, event.isAllDay);
+  return [
+    'BEGIN:VEVENT',
+    `UID:event-${event.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtcDateTime(now)}`,
+    ...formatEventSpan(event.eventDate, event.isAllDay, timeZone),
+    ...(recurrence ? [recurrence] : []),
+    `SUMMARY:${escapeText(event.title)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    `CATEGORIES:${CATEGORY_LABELS[event.category]}`,
+    `STATUS:${event.isCancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    `LAST-MODIFIED:${formatUtcDateTime(new Date(event.updatedAt).getTime())}`,
+    'END:VEVENT',
+  ];
+}
+
+function buildOccasion(occasion: FamilyOccasion, timeZone: string, now: number): string[] {
+  const year = new Date(occasion.eventDate).getFullYear();
+  return [
+    'BEGIN:VEVENT',
+    `UID:${occasion.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtcDateTime(now)}`,
+    ...formatEventSpan(occasion.eventDate, true, timeZone),
+    `RRULE:${occasion.recurrence}`,
+    `SUMMARY:${escapeText(occasion.title)}`,
+    // The age or number of years changes each year, so it is only given for the next one
+    `DESCRIPTION:${escapeText(`${occasion.detail} in ${year}`)}`,
+    `CATEGORIES:${OCCASION_LABELS[occasion.kind]}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Builds an iCalendar file of family events and occasions
+ * @param events - Events to include; cancelled ones are marked as cancelled
+ * @param occasions - Birthdays, anniversaries and memorial dates, repeating yearly
+ * @param options - Calendar name and generation time
+ * @returns Contents of the .ics file, with CRLF line endings
+ */
+export function exportCalendar(
+  events: FamilyEvent[],
+  occasions: FamilyOccasion[] = [],
+  options: IcsCalendarOptions = {}
+): string {
+  const now = options.now ?? Date.now();
+  const timeZone = getLocalTimeZone();
+  const timedEvents = events.filter(event => !event.isAllDay);
+  // The time zone's rules are given from the year of the earliest timed event
+  const firstYear = Math.min(...timedEvents.map(event => new Date(event.eventDate).getFullYear()));
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(options.name ? [`X-WR-CALNAME:${escapeText(options.name)}`] : []),
+    `X-WR-TIMEZONE:${timeZone}`,
+    ...(timedEvents.length > 0 ? buildTimeZone(timeZone, firstYear) : []),
+    ...events.flatMap(event => buildEvent(event, timeZone, now)),
+    ...occasions.flatMap(occasion => buildOccasion(occasion, timeZone, now)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * File name for an event's .ics download
+ * @returns e.g. "cousin-mikes-graduation-party.ics"
+ */
+export function getIcsFileName(title: string): string {
+  const slug = title.toLowerCase().replace(/['’]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'event'}.ics`;
+}
+
+/**
+ * Link that hands a calendar feed to the calendar app, which subscribes to it rather than
+ * importing it once
+ * @returns e.g. "webcal://api.example.com/events/feed/abc123.ics"
+ */
+export function getWebcalUrl(feedUrl: string): string {
+  return feedUrl.replace(/^https?:\/\//, 'webcal://');
+}
+
+/**
+ * Saves an iCalendar file through the browser, to open in a calendar app
+ */
+export function downloadIcs(contents: string, fileName: string): void {
+  const blob = new Blob([contents], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Reads a property line into its name, parameters and value; the value starts after the
+ * first colon that is not inside a quoted parameter
+ */
+function parseContentLine(line: string): ContentLine | null {
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon <= 0) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  paramParts.forEach(part => {
+    const [key, ...value] = part.split('=');
+    params[key.toUpperCase()] = value.join('=').replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * Offset from UTC in minutes of a named time zone at a moment, east positive
+ */
+function getZoneOffset(timeZone: string, time: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(time));
+  const get = (type: Intl.DateTimeFormatPartTypes): number => Number(parts.find(part => part.type === type)?.value);
+  const wallTime = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return Math.round((wallTime - time) / 60000);
+}
+
+/**
+ * Reads a DTSTART value into a moment and whether it is a whole day
+ * Times in a time zone the browser doesn't know, such as Windows zone names, and times
+ * with no zone are read as local time.
+ */
+function parseStart(line: ContentLine): { eventDate: string; isAllDay: boolean } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(line.value.trim());
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1, 4).map(Number);
+  if (!match[4] || line.params.VALUE === 'DATE') {
+    const date = new Date(year, month - 1, day);
+    return date.getDate() === day ? { eventDate: date.toISOString(), isAllDay: true } : null;
+  }
+
+  const [hours, minutes, seconds] = match.slice(4, 7).map(Number);
+  const wallTime = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+  let time = new Date(year, month - 1, day, hours, minutes, seconds).getTime();
+  if (match[7]) {
+    time = wallTime;
+  } else if (line.params.TZID) {
+    try {
+      const guess = wallTime - getZoneOffset(line.params.TZID, wallTime) * 60000;
+      time = wallTime - getZoneOffset(line.params.TZID, guess) * 60000;
+    } catch {
+      // Not a time zone the browser knows; keep local time
+    }
+  }
+  return Number.isNaN(time) ? null : { eventDate: new Date(time).toISOString(), isAllDay: false };
+}
+
+function parseCategory(value?: string): EventCategory | undefined {
+  const categories = (value || '').split(',').map(category => category.trim().toLowerCase());
+  return (Object.keys(CATEGORY_LABELS) as EventCategory[]).find(category => categories.includes(category));
+}
+
+/**
+ * Reads the events in an iCalendar file as events to create
+ * Each event keeps its title, description, location, start and repeat rule, and its
+ * category if it has one of ours. Cancelled events, changes to single dates of a repeating
+ * event and repeat rules that aren't supported are skipped.
+ * @param text - Contents of the .ics file
+ * @returns Events to create and those skipped
+ */
+export function parseIcs(text: string): IcsImportResult {
+  const result: IcsImportResult = { events: [], skipped: [] };
+  const lines = text.replace(/^\uFEFF/, '').replace(/\r?\n[ \t]/g, '').split(/\r\n|\r|\n/);
+  const components: string[] = [];
+  let properties = new Map<string, ContentLine>();
+
+  lines.forEach(rawLine => {
+    const line = parseContentLine(rawLine);
+    if (!line) return;
+
+    if (line.name === 'BEGIN') {
+      components.push(line.value.toUpperCase());
+      if (line.value.toUpperCase() === 'VEVENT') properties = new Map();
+      return;
+    }
+    if (line.name === 'END') {
+      if (components.pop() === 'VEVENT') readEvent(properties, result);
+      return;
+    }
+    // Properties of alarms and other components inside an event are not the event's own
+    if (components[components.length - 1] === 'VEVENT' && !properties.has(line.name)) {
+      properties.set(line.name, line);
+    }
+  });
+  return result;
+}
+
+function readEvent(properties: Map<string, ContentLine>, result: IcsImportResult): void {
+  const text = (name: string): string | undefined => {
+    const value = properties.get(name)?.value;
+    return value ? unescapeText(value).trim() || undefined : undefined;
+  };
+  const title = text('SUMMARY') || 'Untitled event';
+  const skip = (reason: string): void => {
+    result.skipped.push({ title, reason });
+  };
+
+  if (properties.has('RECURRENCE-ID')) return skip('Changes one date of a repeating event');
+  if (text('STATUS')?.toUpperCase() === 'CANCELLED') return skip('Cancelled');
+
+  const start = properties.has('DTSTART') ? parseStart(properties.get('DTSTART') as ContentLine) : null;
+  if (!start) return skip('Has no start date');
+
+  let recurrence: string | null = null;
+  const rule = properties.get('RRULE')?.value;
+  if (rule) {
+    recurrence = normalizeRecurrenceRule(rule);
+    if (!recurrence) return skip('Repeats in a way that is not supported');
+  }
+
+  result.events.push({
+    title,
+    description: text('DESCRIPTION'),
+    category: parseCategory(text('CATEGORIES')),
+    ...start,
+    location: text('LOCATION'),
+    recurrence,
+  });
+}
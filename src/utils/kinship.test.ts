@@ -0,0 +1,212 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { calculateKinship } from './kinship';
+import { FamilyMember, Relationship } from '../types/components';
+
+const now = new Date().toISOString();
+
+const member = (id: string, gender?: FamilyMember['gender']): FamilyMember => ({
+  id, firstName: id, lastName: 'Test', gender, createdBy: 'test', createdAt: now, updatedAt: now
+});
+
+const relationship = (
+  fromUserId: string,
+  toUserId: string,
+  relationshipType: Relationship['relationshipType'],
+  extra: Partial<Relationship> = {}
+): Relationship => ({
+  id: `${fromUserId}-${relationshipType}-${toUserId}`, fromUserId, toUserId, relationshipType, createdAt: now, ...extra
+});
+
+/**
+ * Builds two lines of descent from a common ancestor couple
+ * The start member is `up` generations below the ancestor and the target `down` generations
+ * (the ancestor themselves when 0); everyone on the lines has the given gender.
+ */
+function buildLines(up: number, down: number, gender: FamilyMember['gender'] = 'male') {
+  const members = [member('ancestor', gender), member('ancestor-wife', 'female')];
+  const relationships = [relationship('ancestor', 'ancestor-wife', 'spouse')];
+
+  const buildLine = (prefix: string, length: number): string => {
+    let parentId = 'ancestor';
+    for (let generation = 1; generation <= length; generation++) {
+      const id = `${prefix}-${generation}`;
+      members.push(member(id, gender));
+      relationships.push(relationship(parentId, id, 'parent'));
+      if (generation === 1) relationships.push(relationship(id, 'ancestor-wife', 'child'));
+      parentId = id;
+    }
+    return parentId;
+  };
+
+  return { startId: buildLine('start', up), targetId: buildLine('target', down), members, relationships };
+}
+
+describe('calculateKinship', () => {
+  describe('blood relatives over generated lines of descent', () => {
+    // Expected term for a male target, indexed by [generations up][generations down]
+    const expected = [
+      [null, 'son', 'grandson', 'great-grandson', 'great-great-grandson'],
+      ['father', 'brother', 'nephew', 'grand-nephew', 'great-grand-nephew'],
+      ['grandfather', 'uncle', 'first cousin', 'first cousin once removed', 'first cousin twice removed'],
+      ['great-grandfather', 'grand-uncle', 'first cousin once removed', 'second cousin', 'second cousin once removed'],
+      ['great-great-grandfather', 'great-grand-uncle', 'first cousin twice removed', 'second cousin once removed', 'third cousin'],
+    ];
+
+    expected.forEach((row, up) => {
+      row.forEach((term, down) => {
+        if (term === null) return;
+
+        it(`should name ${up} generations up and ${down} down "${term}"`, () => {
+          const { startId, targetId, members, relationships } = buildLines(up, down);
+          const result = calculateKinship(startId, targetId, relationships, members);
+
+          expect(result?.term).toBe(term);
+          expect(result?.commonAncestorId).toBe('ancestor');
+        });
+      });
+    });
+
+    it('should use gender-neutral terms unless the gender is male or female', () => {
+      const terms = [[0, 1], [1, 0], [1, 1], [1, 2], [2, 1], [2, 3]].map(([up, down]) => {
+        const { startId, targetId, members, relationships } = buildLines(up, down, 'other');
+        return calculateKinship(startId, targetId, relationships, members)?.term;
+      });
+
+      expect(terms).toEqual(['child', 'parent', 'sibling', 'nephew/niece', 'aunt/uncle', 'first cousin once removed']);
+    });
+
+    it('should name the same cousinship from both sides', () => {
+      fc.assert(
+        fc.property(fc.integer({ min: 2, max: 8 }), fc.integer({ min: 2, max: 8 }), (up, down) => {
+          const { startId, targetId, members, relationships } = buildLines(up, down);
+          const forward = calculateKinship(startId, targetId, relationships, members);
+          const backward = calculateKinship(targetId, startId, relationships, members);
+
+          expect(forward?.term).toBe(backward?.term);
+          expect(forward?.term).toMatch(/cousin/);
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should pair ancestor and descendant terms', () => {
+      fc.assert(
+        fc.property(fc.integer({ min: 1, max: 8 }), (generations) => {
+          const { startId, targetId, members, relationships } = buildLines(generations, 0);
+          const ancestor = calculateKinship(startId, targetId, relationships, members)?.term as string;
+          const descendant = calculateKinship(targetId, startId, relationships, members)?.term as string;
+
+          expect(ancestor.replace(/father$/, '')).toBe(descendant.replace(/son$/, ''));
+          expect(ancestor.split('great-').length - 1).toBe(Math.max(generations - 2, 0));
+        }),
+        { numRuns: 50 }
+      );
+    });
+  });
+
+  describe('siblings', () => {
+    it('should recognise half-siblings who share one of two known parents', () => {
+      const members = ['dad', 'mum', 'step-mum', 'anna', 'ben'].map(id => member(id, id === 'ben' ? 'male' : 'female'));
+      const relationships = [
+        relationship('dad', 'anna', 'parent'),
+        relationship('mum', 'anna', 'parent'),
+        relationship('dad', 'ben', 'parent'),
+        relationship('step-mum', 'ben', 'parent'),
+      ];
+
+      expect(calculateKinship('anna', 'ben', relationships, members)?.term).toBe('half-brother');
+      expect(calculateKinship('ben', 'anna', relationships, members)?.term).toBe('half-sister');
+    });
+
+    it('should treat recorded siblings with unknown parents as siblings', () => {
+      const members = [member('anna', 'female'), member('ben', 'male'), member('ben-son', 'male')];
+      const relationships = [
+        relationship('anna', 'ben', 'sibling'),
+        relationship('ben-son', 'ben', 'child'),
+      ];
+
+      expect(calculateKinship('anna', 'ben', relationships, members)).toEqual({ term: 'brother', commonAncestorId: null });
+      expect(calculateKinship('anna', 'ben-son', relationships, members)?.term).toBe('nephew');
+      expect(calculateKinship('ben-son', 'anna', relationships, members)?.term).toBe('aunt');
+    });
+  });
+
+  describe('relatives by marriage', () => {
+    const members = [
+      member('me', 'male'), member('wife', 'female'), member('wife-mum', 'female'), member('wife-sister', 'female'),
+      member('wife-son', 'male'), member('sister', 'female'), member('sister-husband', 'male'), member('mum', 'female'),
+      member('dad', 'male'), member('step-mum', 'female'), member('step-sister', 'female'), member('aunt', 'female'),
+      member('aunt-husband', 'male'), member('ex', 'female'),
+    ];
+    const relationships = [
+      relationship('me', 'wife', 'spouse'),
+      relationship('me', 'ex', 'spouse', { partnershipStatus: 'divorced' }),
+      relationship('wife-mum', 'wife', 'parent'),
+      relationship('wife-mum', 'wife-sister', 'parent'),
+      relationship('wife', 'wife-son', 'parent'),
+      relationship('mum', 'me', 'parent'),
+      relationship('dad', 'me', 'parent'),
+      relationship('mum', 'sister', 'parent'),
+      relationship('dad', 'sister', 'parent'),
+      relationship('sister', 'sister-husband', 'spouse'),
+      relationship('dad', 'step-mum', 'spouse'),
+      relationship('step-sister', 'step-mum', 'child'),
+      relationship('aunt', 'mum', 'sibling'),
+      relationship('aunt-husband', 'aunt', 'spouse'),
+    ];
+    const term = (targetId: string) => calculateKinship('me', targetId, relationships, members)?.term;
+
+    it('should name spouses and their blood relatives', () => {
+      expect(term('wife')).toBe('wife');
+      expect(term('ex')).toBe('ex-wife');
+      expect(term('wife-mum')).toBe('mother-in-law');
+      expect(term('wife-sister')).toBe('sister-in-law');
+      expect(term('wife-son')).toBe('step-son');
+    });
+
+    it('should name the spouses of blood relatives', () => {
+      expect(term('sister-husband')).toBe('brother-in-law');
+      expect(term('step-mum')).toBe('step-mother');
+      expect(term('aunt-husband')).toBe('uncle by marriage');
+      expect(calculateKinship('wife-mum', 'me', relationships, members)?.term).toBe('son-in-law');
+    });
+
+    it('should name step-siblings', () => {
+      expect(term('step-sister')).toBe('step-sister');
+    });
+  });
+
+  describe('lineage', () => {
+    it('should name adoptive and step parents and children by their lineage', () => {
+      const members = [member('mum', 'female'), member('kid', 'male'), member('foster-kid', 'female')];
+      const relationships = [
+        relationship('mum', 'kid', 'parent', { lineage: 'adoptive' }),
+        relationship('foster-kid', 'mum', 'child', { lineage: 'foster' }),
+      ];
+
+      expect(calculateKinship('kid', 'mum', relationships, members)?.term).toBe('adoptive mother');
+      expect(calculateKinship('mum', 'kid', relationships, members)?.term).toBe('adopted son');
+      expect(calculateKinship('mum', 'foster-kid', relationships, members)?.term).toBe('foster daughter');
+    });
+
+    it('should count adoptive but not foster parents as ancestors', () => {
+      const members = ['grandma', 'mum', 'kid', 'foster-kid'].map(id => member(id, 'female'));
+      const relationships = [
+        relationship('grandma', 'mum', 'parent', { lineage: 'adoptive' }),
+        relationship('mum', 'kid', 'parent'),
+        relationship('mum', 'foster-kid', 'parent', { lineage: 'foster' }),
+      ];
+
+      expect(calculateKinship('kid', 'grandma', relationships, members)?.term).toBe('grandmother');
+      expect(calculateKinship('foster-kid', 'grandma', relationships, members)).toBeNull();
+    });
+  });
+
+  it('should return null for the same person and for unrelated members', () => {
+    const members = [member('a'), member('b')];
+
+    expect(calculateKinship('a', 'a', [], members)).toBeNull();
+    expect(calculateKinship('a', 'b', [], members)).toBeNull();
+  });
+});
@@ -0,0 +1,385 @@
+/**
+ * Kinship calculator
+ * Names how one family member is related to another ("second cousin once removed",
+ * "sister-in-law") by finding their closest common ancestor
+ */
+
+import { FamilyMember, Relationship } from '../types/components';
+import { getLineageLabel } from './relationshipPath';
+import { RelationshipGraph, buildRelationshipGraph, getEdges } from './relationshipGraph';
+
+// Member details kinship needs; full members from the API or the tree can be passed
+type KinshipMember = Pick<FamilyMember, 'id' | 'gender'>;
+
+export interface KinshipResult {
+  // How the target is related to the start member, e.g. "first cousin twice removed"
+  term: string;
+  // Closest known common ancestor of blood relatives
+  commonAncestorId: string | null;
+}
+
+// Internal interfaces for the kinship graph
+interface KinshipGraph {
+  // Biological and adoptive parents, plus a shared placeholder parent for recorded siblings
+  parentsOf: Map<string, string[]>;
+  partnershipsOf: Map<string, Relationship[]>;
+  genderOf: Map<string, FamilyMember['gender']>;
+}
+
+interface AncestorStep {
+  depth: number;
+  // Member one generation down on the way up from the descendant
+  child: string | null;
+}
+
+interface BloodKinship {
+  // Generations from the start member up to the common ancestor
+  up: number;
+  // Generations from the common ancestor down to the target
+  down: number;
+  commonAncestorId: string;
+  half: boolean;
+}
+
+// Parent/child lineages that count as descent
+const DESCENT_LINEAGES = ['biological', 'adoptive'];
+
+// Prefix of placeholder parents shared by siblings whose parents are unknown
+const SIBLING_GROUP_PREFIX = 'sibling-group:';
+
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth'];
+
+/**
+ * Builds the parent and partnership maps used to calculate kinship
+ * @param relationshipGraph - Relationship graph
+ * @param allMembers - Array of all family member objects
+ * @returns Kinship graph
+ */
+function buildKinshipGraph(relationshipGraph: RelationshipGraph, allMembers: KinshipMember[]): KinshipGraph {
+  const parentsOf = new Map<string, string[]>();
+  const partnershipsOf = new Map<string, Relationship[]>();
+  const siblingGroupOf = new Map<string, string>();
+
+  const addParent = (childId: string, parentId: string): void => {
+    const parents = parentsOf.get(childId) || [];
+    if (!parents.includes(parentId)) parents.push(parentId);
+    parentsOf.set(childId, parents);
+  };
+
+  const addPartnership = (memberId: string, relationship: Relationship): void => {
+    partnershipsOf.set(memberId, [...(partnershipsOf.get(memberId) || []), relationship]);
+  };
+
+  const joinSiblings = (fromId: string, toId: string): void => {
+    const fromGroup = siblingGroupOf.get(fromId) || fromId;
+    const toGroup = siblingGroupOf.get(toId) || toId;
+    siblingGroupOf.set(fromId, fromGroup);
+    siblingGroupOf.set(toId, fromGroup);
+    siblingGroupOf.forEach((group, memberId) => {
+      if (group === toGroup) siblingGroupOf.set(memberId, fromGroup);
+    });
+  };
+
+  // Each member's edges describe them relative to the other member
+  relationshipGraph.forEach((edges, memberId) => {
+    edges.forEach(edge => {
+      switch (edge.relationshipType) {
+        case 'child':
+          if (DESCENT_LINEAGES.includes(edge.relationship.lineage || 'biological')) {
+            addParent(memberId, edge.memberId);
+          }
+          break;
+        case 'spouse':
+          addPartnership(memberId, edge.relationship);
+          break;
+        case 'sibling':
+          joinSiblings(memberId, edge.memberId);
+          break;
+      }
+    });
+  });
+
+  siblingGroupOf.forEach((group, memberId) => addParent(memberId, `${SIBLING_GROUP_PREFIX}${group}`));
+
+  return {
+    parentsOf,
+    partnershipsOf,
+    genderOf: new Map(allMembers.map(member => [member.id, member.gender]))
+  };
+}
+
+/**
+ * Finds every ancestor of a member with the number of generations up to them
+ * @param memberId - ID of the member
+ * @param parentsOf - Parents of each member
+ * @returns Map of ancestor IDs (including the member at depth 0) to their step
+ */
+function collectAncestors(memberId: string, parentsOf: Map<string, string[]>): Map<string, AncestorStep> {
+  const ancestors = new Map<string, AncestorStep>([[memberId, { depth: 0, child: null }]]);
+  const queue = [memberId];
+
+  while (queue.length > 0) {
+    const currentId = queue.shift() as string;
+    const depth = (ancestors.get(currentId) as AncestorStep).depth;
+
+    (parentsOf.get(currentId) || []).forEach(parentId => {
+      if (!ancestors.has(parentId)) {
+        ancestors.set(parentId, { depth: depth + 1, child: currentId });
+        queue.push(parentId);
+      }
+    });
+  }
+
+  return ancestors;
+}
+
+/**
+ * Gets the known (non-placeholder) parents of a member
+ */
+function knownParents(memberId: string, graph: KinshipGraph): string[] {
+  return (graph.parentsOf.get(memberId) || []).filter(parentId => !parentId.startsWith(SIBLING_GROUP_PREFIX));
+}
+
+/**
+ * Finds the closest common ancestor of two members
+ * @param startId - ID of the starting member
+ * @param targetId - ID of the target member
+ * @param graph - Kinship graph
+ * @returns Blood kinship, or null if the members share no ancestor
+ */
+function findBloodKinship(startId: string, targetId: string, graph: KinshipGraph): BloodKinship | null {
+  const startAncestors = collectAncestors(startId, graph.parentsOf);
+  const targetAncestors = collectAncestors(targetId, graph.parentsOf);
+  let closest: { id: string; up: number; down: number } | null = null;
+
+  startAncestors.forEach((startStep, ancestorId) => {
+    const targetStep = targetAncestors.get(ancestorId);
+    if (!targetStep) return;
+
+    const distance = startStep.depth + targetStep.depth;
+    const closestDistance = closest ? closest.up + closest.down : Infinity;
+    // Known ancestors win over sibling placeholders at the same distance
+    const isBetterTie = distance === closestDistance
+      && closest !== null
+      && closest.id.startsWith(SIBLING_GROUP_PREFIX)
+      && !ancestorId.startsWith(SIBLING_GROUP_PREFIX);
+
+    if (distance < closestDistance || isBetterTie) {
+      closest = { id: ancestorId, up: startStep.depth, down: targetStep.depth };
+    }
+  });
+
+  if (!closest) {
+    return null;
+  }
+
+  const { id, up, down } = closest as { id: string; up: number; down: number };
+
+  // Half relatives descend from two children of the ancestor who share only one known parent
+  let half = false;
+  if (up > 0 && down > 0) {
+    const startParents = knownParents((startAncestors.get(id) as AncestorStep).child as string, graph);
+    const targetParents = knownParents((targetAncestors.get(id) as AncestorStep).child as string, graph);
+    const shared = startParents.filter(parentId => targetParents.includes(parentId));
+    half = startParents.length === 2 && targetParents.length === 2 && shared.length === 1;
+  }
+
+  return { up, down, commonAncestorId: id, half };
+}
+
+/**
+ * Picks the term matching a member's gender
+ */
+function gendered(gender: FamilyMember['gender'], male: string, female: string, neutral: string): string {
+  if (gender === 'male') return male;
+  if (gender === 'female') return female;
+  return neutral;
+}
+
+/**
+ * Formats the ordinal of a cousin degree ("first", "second", ...)
+ */
+function ordinal(degree: number): string {
+  return ORDINALS[degree - 1] || `${degree}th`;
+}
+
+/**
+ * Formats how many generations cousins are apart ("once removed", "twice removed", ...)
+ */
+function removal(removed: number): string {
+  if (removed === 0) return '';
+  if (removed === 1) return ' once removed';
+  if (removed === 2) return ' twice removed';
+  return ` ${removed} times removed`;
+}
+
+/**
+ * Names a blood relationship from the generations between each member and the common ancestor
+ * @param kinship - Blood kinship between the start member and the target
+ * @param gender - Gender of the target
+ * @returns Kinship term, e.g. "grand-uncle" or "second cousin once removed"
+ */
+function nameBloodKinship(kinship: BloodKinship, gender: FamilyMember['gender']): string {
+  const { up, down } = kinship;
+  const half = kinship.half ? 'half-' : '';
+
+  if (up === 0) {
+    const greats = 'great-'.repeat(Math.max(down - 2, 0));
+    return down === 1
+      ? gendered(gender, 'son', 'daughter', 'child')
+      : `${greats}grand${gendered(gender, 'son', 'daughter', 'child')}`;
+  }
+  if (down === 0) {
+    const greats = 'great-'.repeat(Math.max(up - 2, 0));
+    return up === 1
+      ? gendered(gender, 'father', 'mother', 'parent')
+      : `${greats}grand${gendered(gender, 'father', 'mother', 'parent')}`;
+  }
+  if (up === 1 && down === 1) {
+    return `${half}${gendered(gender, 'brother', 'sister', 'sibling')}`;
+  }
+
+  // Siblings' descendants and ancestors' siblings: grand- for each extra generation, great- beyond that
+  const collateralPrefix = (generations: number): string => {
+    if (generations === 0) return '';
+    return `${'great-'.repeat(generations - 1)}grand-`;
+  };
+  if (up === 1) {
+    return `${half}${collateralPrefix(down - 2)}${gendered(gender, 'nephew', 'niece', 'nephew/niece')}`;
+  }
+  if (down === 1) {
+    return `${half}${collateralPrefix(up - 2)}${gendered(gender, 'uncle', 'aunt', 'aunt/uncle')}`;
+  }
+
+  const cousin = `${ordinal(Math.min(up, down) - 1)} cousin${removal(Math.abs(up - down))}`;
+  return kinship.half ? `half ${cousin}` : cousin;
+}
+
+/**
+ * Names a spouse or partner, taking the partnership status into account
+ */
+function nameSpouse(partnership: Relationship, gender: FamilyMember['gender']): string {
+  if (partnership.partnershipStatus === 'partner') return 'partner';
+  const spouse = gendered(gender, 'husband', 'wife', 'spouse');
+  return partnership.partnershipStatus === 'divorced' ? `ex-${spouse}` : spouse;
+}
+
+/**
+ * Gets the spouses and partners of a member, optionally leaving out divorced partnerships
+ */
+function spouseIds(memberId: string, graph: KinshipGraph, includeDivorced: boolean): string[] {
+  return (graph.partnershipsOf.get(memberId) || [])
+    .filter(rel => includeDivorced || rel.partnershipStatus !== 'divorced')
+    .map(rel => rel.fromUserId === memberId ? rel.toUserId : rel.fromUserId);
+}
+
+/**
+ * Names relatives by marriage: in-laws, step-relatives and the spouses of blood relatives
+ * @param startId - ID of the starting member
+ * @param targetId - ID of the target member
+ * @param graph - Kinship graph
+ * @returns Kinship term, or null if the members are not related by marriage
+ */
+function nameKinshipByMarriage(startId: string, targetId: string, graph: KinshipGraph): string | null {
+  const gender = graph.genderOf.get(targetId);
+
+  // Step-siblings are children of a parent's spouse
+  const startParents = knownParents(startId, graph);
+  const targetParents = knownParents(targetId, graph);
+  const isStepSibling = startParents.some(parentId =>
+    spouseIds(parentId, graph, true).some(stepParentId => targetParents.includes(stepParentId))
+  ) && !startParents.some(parentId => targetParents.includes(parentId));
+  if (isStepSibling) {
+    return gendered(gender, 'step-brother', 'step-sister', 'step-sibling');
+  }
+
+  // Target is a blood relative of the start member's spouse
+  for (const spouseId of spouseIds(startId, graph, false)) {
+    const kinship = findBloodKinship(spouseId, targetId, graph);
+    if (!kinship) continue;
+
+    const { up, down } = kinship;
+    if (up === 1 && down === 0) return gendered(gender, 'father-in-law', 'mother-in-law', 'parent-in-law');
+    if (up === 1 && down === 1) return gendered(gender, 'brother-in-law', 'sister-in-law', 'sibling-in-law');
+    if (up === 0 && down === 1) return gendered(gender, 'step-son', 'step-daughter', 'step-child');
+
+    const spouse = gendered(graph.genderOf.get(spouseId), 'husband', 'wife', 'spouse');
+    return `${spouse}'s ${nameBloodKinship(kinship, gender)}`;
+  }
+
+  // Target is the spouse of one of the start member's blood relatives
+  for (const relativeId of spouseIds(targetId, graph, false)) {
+    const kinship = findBloodKinship(startId, relativeId, graph);
+    if (!kinship) continue;
+
+    const { up, down } = kinship;
+    if (up === 1 && down === 0) return gendered(gender, 'step-father', 'step-mother', 'step-parent');
+    if (up === 1 && down === 1) return gendered(gender, 'brother-in-law', 'sister-in-law', 'sibling-in-law');
+    if (up === 0 && down === 1) return gendered(gender, 'son-in-law', 'daughter-in-law', 'child-in-law');
+    if (up > 1 && down === 1) return `${nameBloodKinship({ ...kinship, half: false }, gender)} by marriage`;
+
+    const spouse = gendered(gender, 'husband', 'wife', 'spouse');
+    return `${nameBloodKinship(kinship, graph.genderOf.get(relativeId))}'s ${spouse}`;
+  }
+
+  return null;
+}
+
+/**
+ * Calculates how the target member is related to the start member
+ * Walks parent/child, spouse and sibling relationships to the closest common ancestor
+ * and names the relationship the way it is said in English ("grand-uncle",
+ * "first cousin twice removed", "sister-in-law", "half-brother").
+ * @param startId - ID of the starting member
+ * @param targetId - ID of the target member
+ * @param relationships - Array of relationship objects
+ * @param allMembers - Array of all family member objects
+ * @returns Kinship result, or null if the members are the same person or not related
+ */
+export function calculateKinship(
+  startId: string,
+  targetId: string,
+  relationships: Relationship[],
+  allMembers: KinshipMember[]
+): KinshipResult | null {
+  if (startId === targetId) {
+    return null;
+  }
+
+  const relationshipGraph = buildRelationshipGraph(relationships);
+  const graph = buildKinshipGraph(relationshipGraph, allMembers);
+  const gender = graph.genderOf.get(targetId);
+
+  // Adoptive, step, foster and guardian parents and children are named by their lineage
+  const lineageLink = getEdges(relationshipGraph, startId).find(edge =>
+    edge.memberId === targetId
+    && (edge.relationshipType === 'parent' || edge.relationshipType === 'child')
+    && edge.relationship.lineage && edge.relationship.lineage !== 'biological'
+  );
+  if (lineageLink) {
+    // Edge types describe the start member, so 'child' means the target is their parent
+    const targetIsParent = lineageLink.relationshipType === 'child';
+    const label = getLineageLabel(targetIsParent ? 'parent' : 'child', lineageLink.relationship.lineage, gender);
+    if (label) {
+      return { term: label.toLowerCase(), commonAncestorId: null };
+    }
+  }
+
+  const blood = findBloodKinship(startId, targetId, graph);
+  if (blood) {
+    return {
+      term: nameBloodKinship(blood, gender),
+      commonAncestorId: blood.commonAncestorId.startsWith(SIBLING_GROUP_PREFIX) ? null : blood.commonAncestorId
+    };
+  }
+
+  const partnership = (graph.partnershipsOf.get(startId) || []).find(rel =>
+    rel.fromUserId === targetId || rel.toUserId === targetId
+  );
+  if (partnership) {
+    return { term: nameSpouse(partnership, gender), commonAncestorId: null };
+  }
+
+  const term = nameKinshipByMarriage(startId, targetId, graph);
+  return term ? { term, commonAncestorId: null } : null;
+}
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  MERGEABLE_FIELDS,
+  buildMergedMember,
+  getDefaultMergeSelections,
+  getDifferingFields,
+  planRelationshipMerge,
+  previewMemberMerge,
+  toMergedMemberData
+} from './memberMerge';
+import { INVERSE_RELATIONSHIP_TYPES } from './relationshipGraph';
+import { FamilyMember, Relationship } from '../types/api';
+
+const member = (id: string, extra: Partial<FamilyMember> = {}): FamilyMember => ({
+  id,
+  firstName: 'Rose',
+  lastName: 'Miller',
+  isLiving: true,
+  createdBy: 'test',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...extra
+});
+
+const relationship = (
+  fromUserId: string,
+  toUserId: string,
+  relationshipType: Relationship['relationshipType']
+): Relationship => ({
+  id: `${fromUserId}-${relationshipType}-${toUserId}`, fromUserId, toUserId, relationshipType, createdAt: '2024-01-01T00:00:00.000Z'
+});
+
+const relationshipTypes = Object.keys(INVERSE_RELATIONSHIP_TYPES) as Relationship['relationshipType'][];
+
+describe('memberMerge', () => {
+  const keep = member('keep', { dateOfBirth: '1931-04-02', location: 'Leeds', createdAt: '2024-03-01T00:00:00.000Z' });
+  const duplicate = member('duplicate', {
+    userId: 'user-rose',
+    dateOfBirth: '1931-04-12',
+    dateOfDeath: '2019-08-30',
+    isLiving: false,
+    occupation: 'Teacher',
+    location: '',
+  });
+
+  describe('field selections', () => {
+    it('should list only the fields that differ', () => {
+      expect(getDifferingFields(keep, duplicate)).toEqual(['dateOfBirth', 'dateOfDeath', 'isLiving', 'location', 'occupation']);
+      expect(getDifferingFields(keep, { ...keep, id: 'copy', email: null, biography: '' })).toEqual([]);
+    });
+
+    it('should keep the kept member\'s values unless only the duplicate has one', () => {
+      const selections = getDefaultMergeSelections(keep, duplicate);
+      expect(selections.firstName).toBe('keep');
+      expect(selections.dateOfBirth).toBe('keep');
+      expect(selections.location).toBe('keep');
+      expect(selections.dateOfDeath).toBe('merge');
+      expect(selections.occupation).toBe('merge');
+      // A recorded death wins over the default of living
+      expect(selections.isLiving).toBe('merge');
+    });
+
+    it('should build the merged member from the chosen records', () => {
+      const selections = { ...getDefaultMergeSelections(keep, duplicate), dateOfBirth: 'merge' as const };
+      const merged = buildMergedMember(keep, duplicate, selections);
+
+      expect(merged).toMatchObject({
+        id: 'keep',
+        userId: 'user-rose',
+        dateOfBirth: '1931-04-12',
+        dateOfDeath: '2019-08-30',
+        isLiving: false,
+        occupation: 'Teacher',
+        location: 'Leeds',
+        createdAt: '2024-01-01T00:00:00.000Z',
+      });
+      expect(toMergedMemberData(merged)).toMatchObject({ isDeceased: true, dateOfBirth: '1931-04-12', location: 'Leeds' });
+    });
+
+    it('should never take a value from the duplicate that was not chosen', () => {
+      const sourceArbitrary = fc.constantFrom('keep' as const, 'merge' as const);
+      fc.assert(
+        fc.property(fc.array(sourceArbitrary, { minLength: MERGEABLE_FIELDS.length, maxLength: MERGEABLE_FIELDS.length }), sources => {
+          const selections = Object.fromEntries(MERGEABLE_FIELDS.map((field, index) => [field, sources[index]])) as ReturnType<typeof getDefaultMergeSelections>;
+          const merged = buildMergedMember(keep, duplicate, selections);
+          MERGEABLE_FIELDS.forEach(field => {
+            expect(merged[field]).toBe(selections[field] === 'merge' ? duplicate[field] : keep[field]);
+          });
+        }),
+        { numRuns: 50 }
+      );
+    });
+  });
+
+  describe('planRelationshipMerge', () => {
+    it('should point the duplicate\'s relationships at the member kept', () => {
+      const plan = planRelationshipMerge('keep', 'duplicate', [
+        relationship('duplicate', 'child-1', 'parent'),
+        relationship('spouse', 'duplicate', 'spouse'),
+        relationship('keep', 'child-2', 'parent'),
+      ]);
+
+      expect(plan.repointed).toEqual([
+        { ...relationship('duplicate', 'child-1', 'parent'), fromUserId: 'keep' },
+        { ...relationship('spouse', 'duplicate', 'spouse'), toUserId: 'keep' },
+      ]);
+      expect(plan.removed).toEqual([]);
+    });
+
+    it('should remove links between the two records and links the member kept already has', () => {
+      const plan = planRelationshipMerge('keep', 'duplicate', [
+        relationship('keep', 'child', 'parent'),
+        relationship('grandpa', 'keep', 'spouse'),
+        relationship('keep', 'duplicate', 'sibling'),
+        relationship('duplicate', 'child', 'parent'),
+        relationship('child', 'duplicate', 'child'),
+        relationship('duplicate', 'grandpa', 'spouse'),
+      ]);
+
+      expect(plan.repointed).toEqual([]);
+      expect(plan.removed.map(removed => removed.id)).toEqual([
+        'keep-sibling-duplicate',
+        'duplicate-parent-child',
+        'child-child-duplicate',
+        'duplicate-spouse-grandpa',
+      ]);
+    });
+
+    it('should refuse a merge whose moved links make someone their own ancestor', () => {
+      // Merging a grandparent into their grandchild makes the grandchild their parent's parent
+      const plan = planRelationshipMerge('grandchild', 'grandparent', [
+        relationship('grandparent', 'parent', 'parent'),
+        relationship('parent', 'grandchild', 'parent'),
+      ]);
+
+      expect(plan.invalidReason).toBe('This would make someone their own ancestor');
+      expect(planRelationshipMerge('keep', 'duplicate', [relationship('duplicate', 'child', 'parent')]).invalidReason).toBeNull();
+    });
+
+    it('should account for every relationship of the duplicate exactly once', () => {
+      const ids = ['keep', 'duplicate', 'a', 'b'];
+      const relationshipArbitrary = fc.tuple(fc.constantFrom(...ids), fc.constantFrom(...ids), fc.constantFrom(...relationshipTypes))
+        .filter(([from, to]) => from !== to)
+        .map(([from, to, type]) => relationship(from, to, type));
+
+      fc.assert(
+        fc.property(fc.uniqueArray(relationshipArbitrary, { selector: r => r.id, maxLength: 12 }), relationships => {
+          const plan = planRelationshipMerge('keep', 'duplicate', relationships);
+          const ofDuplicate = relationships.filter(r => r.fromUserId === 'duplicate' || r.toUserId === 'duplicate');
+
+          expect([...plan.repointed, ...plan.removed].map(r => r.id).sort()).toEqual(ofDuplicate.map(r => r.id).sort());
+          plan.repointed.forEach(moved => {
+            expect([moved.fromUserId, moved.toUserId]).not.toContain('duplicate');
+            expect(moved.fromUserId).not.toBe(moved.toUserId);
+          });
+        }),
+        { numRuns: 50 }
+      );
+    });
+  });
+
+  it('should preview the merged member with its relationships', () => {
+    const preview = previewMemberMerge(keep, duplicate, getDefaultMergeSelections(keep, duplicate), [
+      relationship('duplicate', 'child', 'parent'),
+      relationship('keep', 'duplicate', 'sibling'),
+    ]);
+
+    expect(preview.member.id).toBe('keep');
+    expect(preview.repointed.map(moved => moved.id)).toEqual(['duplicate-parent-child']);
+    expect(preview.removed.map(removed => removed.id)).toEqual(['keep-sibling-duplicate']);
+  });
+});
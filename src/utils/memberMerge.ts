@@ -0,0 +1,209 @@
+/**
+ * Member merge utilities
+ * Combines two records of the same person field by field, and works out what happens
+ * to their relationships when one record is merged into the other
+ */
+
+import { FamilyMember, Relationship, UpdateFamilyMemberRequest } from '../types/api';
+import { getInverseRelationshipType } from './relationshipGraph';
+import { validateRelationship } from './relationshipValidation';
+
+// Fields whose value can be taken from either record, in the order they are shown
+export const MERGEABLE_FIELDS = [
+  'firstName',
+  'lastName',
+  'gender',
+  'dateOfBirth',
+  'dateOfDeath',
+  'isLiving',
+  'email',
+  'phoneNumber',
+  'location',
+  'occupation',
+  'photoUrl',
+  'biography'
+] as const;
+
+export type MergeableField = typeof MERGEABLE_FIELDS[number];
+
+// Record a field's value is taken from: the member kept, or the duplicate merged into it
+export type MergeSource = 'keep' | 'merge';
+
+export type MergeSelections = Record<MergeableField, MergeSource>;
+
+export interface RelationshipMergePlan {
+  // The duplicate's relationships, pointed at the member kept
+  repointed: Relationship[];
+  // Links between the two records, and links the member kept already has
+  removed: Relationship[];
+  // Why the moved links would make the tree impossible, or null if the merge is allowed
+  invalidReason: string | null;
+}
+
+export interface MemberMergePreview extends RelationshipMergePlan {
+  member: FamilyMember;
+}
+
+/**
+ * Check whether a field has no value
+ */
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+/**
+ * Find the fields where the two records differ
+ * @param keep - Member kept
+ * @param merge - Duplicate merged into it
+ * @returns Fields with a different value in each record
+ */
+export function getDifferingFields(keep: FamilyMember, merge: FamilyMember): MergeableField[] {
+  return MERGEABLE_FIELDS.filter(field => {
+    const keepValue = keep[field];
+    const mergeValue = merge[field];
+    if (isEmpty(keepValue) && isEmpty(mergeValue)) return false;
+    return keepValue !== mergeValue;
+  });
+}
+
+/**
+ * Pick a record for every field
+ * The member kept wins, except where only the duplicate has a value
+ * or the duplicate records a death the member kept does not
+ * @param keep - Member kept
+ * @param merge - Duplicate merged into it
+ * @returns Record chosen for each field
+ */
+export function getDefaultMergeSelections(keep: FamilyMember, merge: FamilyMember): MergeSelections {
+  const selections = {} as MergeSelections;
+  MERGEABLE_FIELDS.forEach(field => {
+    const preferMerge = field === 'isLiving'
+      ? keep.isLiving && !merge.isLiving
+      : isEmpty(keep[field]) && !isEmpty(merge[field]);
+    selections[field] = preferMerge ? 'merge' : 'keep';
+  });
+  return selections;
+}
+
+/**
+ * Combine two records into the member kept
+ * @param keep - Member kept
+ * @param merge - Duplicate merged into it
+ * @param selections - Record chosen for each field
+ * @returns The merged member, under the kept member's ID
+ */
+export function buildMergedMember(keep: FamilyMember, merge: FamilyMember, selections: MergeSelections): FamilyMember {
+  const merged: FamilyMember = {
+    ...keep,
+    // A linked account is never lost, whichever record it was on
+    userId: keep.userId || merge.userId || null,
+    createdAt: keep.createdAt <= merge.createdAt ? keep.createdAt : merge.createdAt,
+  };
+  MERGEABLE_FIELDS.forEach(field => {
+    if (selections[field] === 'merge') {
+      (merged as unknown as Record<string, unknown>)[field] = merge[field];
+    }
+  });
+  return merged;
+}
+
+/**
+ * Build the update saved on the member kept
+ * @param member - Result of buildMergedMember
+ * @returns Details of the merged member, as sent to the server
+ */
+export function toMergedMemberData(member: FamilyMember): UpdateFamilyMemberRequest {
+  const orUndefined = <T>(value: T | null | undefined): T | undefined => (value === null ? undefined : value);
+  return {
+    firstName: member.firstName,
+    lastName: member.lastName,
+    email: orUndefined(member.email),
+    phoneNumber: orUndefined(member.phoneNumber),
+    dateOfBirth: member.dateOfBirth,
+    dateOfDeath: member.dateOfDeath,
+    gender: member.gender,
+    photoUrl: orUndefined(member.photoUrl),
+    biography: member.biography,
+    occupation: member.occupation,
+    location: orUndefined(member.location),
+    isDeceased: !member.isLiving,
+  };
+}
+
+/**
+ * Check whether two relationships describe the same link, in either direction
+ */
+function isSameLink(a: Relationship, b: Relationship): boolean {
+  if (a.fromUserId === b.fromUserId && a.toUserId === b.toUserId) {
+    return a.relationshipType === b.relationshipType;
+  }
+  return a.fromUserId === b.toUserId &&
+    a.toUserId === b.fromUserId &&
+    getInverseRelationshipType(a.relationshipType) === b.relationshipType;
+}
+
+/**
+ * Work out what happens to the relationships when one member is merged into another
+ * The duplicate's relationships move to the member kept; any that would link the member
+ * to itself, or repeat a link it already has, are removed instead. The moved links are
+ * then checked against the merged tree, e.g. merging a grandparent into their grandchild
+ * would make the member their own ancestor
+ * @param keepId - ID of the member kept
+ * @param mergeId - ID of the duplicate merged into it
+ * @param relationships - All relationships in the tree
+ * @returns Relationships moved and removed by the merge
+ */
+export function planRelationshipMerge(keepId: string, mergeId: string, relationships: Relationship[]): RelationshipMergePlan {
+  const kept = relationships.filter(relationship =>
+    relationship.fromUserId !== mergeId && relationship.toUserId !== mergeId
+  );
+  const repointed: Relationship[] = [];
+  const removed: Relationship[] = [];
+
+  relationships.forEach(relationship => {
+    if (relationship.fromUserId !== mergeId && relationship.toUserId !== mergeId) return;
+
+    const moved: Relationship = {
+      ...relationship,
+      fromUserId: relationship.fromUserId === mergeId ? keepId : relationship.fromUserId,
+      toUserId: relationship.toUserId === mergeId ? keepId : relationship.toUserId,
+    };
+    const isDuplicate = moved.fromUserId === moved.toUserId ||
+      kept.some(existing => isSameLink(moved, existing)) ||
+      repointed.some(existing => isSameLink(moved, existing));
+
+    if (isDuplicate) {
+      removed.push(relationship);
+    } else {
+      repointed.push(moved);
+    }
+  });
+
+  const merged = [...kept, ...repointed];
+  const invalidReason = repointed.reduce<string | null>(
+    (reason, relationship) => reason || validateRelationship(relationship, merged),
+    null
+  );
+
+  return { repointed, removed, invalidReason };
+}
+
+/**
+ * Preview merging a duplicate into a member
+ * @param keep - Member kept
+ * @param merge - Duplicate merged into it
+ * @param selections - Record chosen for each field
+ * @param relationships - All relationships in the tree
+ * @returns The merged member and what happens to the relationships
+ */
+export function previewMemberMerge(
+  keep: FamilyMember,
+  merge: FamilyMember,
+  selections: MergeSelections,
+  relationships: Relationship[]
+): MemberMergePreview {
+  return {
+    member: buildMergedMember(keep, merge, selections),
+    ...planRelationshipMerge(keep.id, merge.id, relationships),
+  };
+}
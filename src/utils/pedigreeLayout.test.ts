@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { calculatePedigreeLayout, getPedigreeLabel, PedigreeSlot, PEDIGREE_CARD_HEIGHT } from './pedigreeLayout';
+import { FamilyMember, Relationship } from '../types/components';
+
+const member = (id: string, gender?: FamilyMember['gender']): FamilyMember => ({
+  id,
+  firstName: id.charAt(0).toUpperCase() + id.slice(1),
+  lastName: 'Evans',
+  gender,
+  createdBy: 'user-1',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+});
+
+// Relationship stating that parentId is the parent of childId
+const parentOf = (parentId: string, childId: string, extra: Partial<Relationship> = {}): Relationship => ({
+  id: `${parentId}-${childId}`,
+  fromUserId: parentId,
+  toUserId: childId,
+  relationshipType: 'parent',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  ...extra,
+});
+
+// Rose, her parents Tom and Ann, and Tom's parents Arthur and Mary
+const members = [
+  member('rose', 'female'),
+  member('ann', 'female'),
+  member('tom', 'male'),
+  member('arthur', 'male'),
+  member('mary', 'female'),
+];
+const relationships = [
+  parentOf('ann', 'rose'),
+  parentOf('tom', 'rose'),
+  // Stored the other way round: Tom is Arthur's child
+  { ...parentOf('tom', 'arthur'), id: 'tom-arthur', relationshipType: 'child' as const },
+  parentOf('mary', 'tom'),
+];
+
+const summarize = (layout: ReturnType<typeof calculatePedigreeLayout>) =>
+  layout?.slots.map(slot => `${slot.number}:${slot.member.id}`);
+
+describe('pedigreeLayout', () => {
+  describe('calculatePedigreeLayout', () => {
+    it('should number fathers and mothers by Ahnentafel whatever order the links were saved in', () => {
+      const layout = calculatePedigreeLayout(members, relationships, 'rose', 3);
+
+      expect(summarize(layout)).toEqual(['1:rose', '2:tom', '3:ann', '4:arthur', '5:mary']);
+      expect(layout?.slots.map(slot => slot.label)).toEqual([
+        'Root person', 'Father', 'Mother', 'Paternal grandfather', 'Paternal grandmother'
+      ]);
+    });
+
+    it('should put each generation in its own column, fathers above mothers and children between their parents', () => {
+      const layout = calculatePedigreeLayout(members, relationships, 'rose', 3);
+      const slot = (number: number) => layout?.slots.find(s => s.number === number) as PedigreeSlot;
+
+      expect(slot(2).x).toBe(slot(3).x);
+      expect(slot(4).x).toBeGreaterThan(slot(2).x);
+      expect(slot(4).y).toBeLessThan(slot(5).y);
+      expect(slot(2).y).toBe((slot(4).y + slot(5).y) / 2);
+      expect(slot(3).y).toBeGreaterThan(slot(5).y);
+      expect(slot(1).y).toBe((slot(2).y + slot(3).y) / 2);
+      expect(layout?.connectors.map(c => `${c.childNumber}>${c.parentNumber}`)).toEqual(['2>4', '2>5', '1>2', '1>3']);
+      expect(layout?.height).toBe(3 * PEDIGREE_CARD_HEIGHT + 2 * 16);
+    });
+
+    it('should stop at the generation limit unless a branch is expanded, and hide collapsed branches', () => {
+      const limited = calculatePedigreeLayout(members, relationships, 'rose', 1);
+      expect(summarize(limited)).toEqual(['1:rose', '2:tom', '3:ann']);
+      expect(limited?.slots[1]).toMatchObject({ hasParents: true, isExpanded: false });
+      expect(limited?.slots[2]).toMatchObject({ hasParents: false, isExpanded: false });
+
+      expect(summarize(calculatePedigreeLayout(members, relationships, 'rose', 1, { 2: 'expanded' })))
+        .toEqual(['1:rose', '2:tom', '3:ann', '4:arthur', '5:mary']);
+      expect(summarize(calculatePedigreeLayout(members, relationships, 'rose', 3, { 1: 'collapsed' })))
+        .toEqual(['1:rose']);
+    });
+
+    it('should leave out step parents and prefer biological over adoptive parents', () => {
+      const layout = calculatePedigreeLayout(
+        [...members, member('step', 'male'), member('adopted', 'female')],
+        [
+          ...relationships,
+          parentOf('step', 'ann', { lineage: 'step' }),
+          parentOf('adopted', 'rose', { lineage: 'adoptive' }),
+        ],
+        'rose',
+        3
+      );
+
+      expect(summarize(layout)).toEqual(['1:rose', '2:tom', '3:ann', '4:arthur', '5:mary']);
+    });
+
+    it('should place parents of unknown gender in the free place and cut parent loops', () => {
+      const layout = calculatePedigreeLayout(
+        [member('a'), member('b', 'female'), member('c')],
+        [parentOf('b', 'a'), parentOf('c', 'a'), parentOf('a', 'c')],
+        'a',
+        5
+      );
+
+      expect(summarize(layout)).toEqual(['1:a', '2:c', '3:b']);
+      expect(layout?.slots[1].hasParents).toBe(false);
+    });
+
+    it('should return null when the root member is not in the tree', () => {
+      expect(calculatePedigreeLayout(members, relationships, 'missing', 3)).toBeNull();
+    });
+  });
+
+  describe('getPedigreeLabel', () => {
+    it('should name each side and generation of ancestors', () => {
+      expect(getPedigreeLabel(7)).toBe('Maternal grandmother');
+      expect(getPedigreeLabel(10)).toBe('Paternal great-grandfather');
+      expect(getPedigreeLabel(31)).toBe('Maternal 2× great-grandmother');
+    });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Pedigree chart layout
+ * Lays out the ancestors of one member as a horizontal bracket: the member on the left,
+ * each generation of parents one column further right, with fathers above mothers
+ */
+
+import { FamilyMember, Lineage, Relationship } from '../types/components';
+import { buildRelationshipGraph, getEdges, RelationshipGraph } from './relationshipGraph';
+
+export const PEDIGREE_CARD_WIDTH = 170;
+export const PEDIGREE_CARD_HEIGHT = 170;
+const COLUMN_GAP = 60;
+const ROW_GAP = 16;
+
+// Parent links a pedigree follows; step, foster and guardian parents are not ancestors
+export const PEDIGREE_LINEAGES: Lineage[] = ['biological', 'adoptive'];
+
+// A branch opened or closed by hand, overriding the chart's generation limit
+export type PedigreeBranchToggle = 'expanded' | 'collapsed';
+
+export interface PedigreeSlot {
+  // Ahnentafel number: 1 for the root member, 2n for the father and 2n + 1 for the mother of n
+  number: number;
+  // 0 for the root member, 1 for parents, 2 for grandparents...
+  generation: number;
+  member: FamilyMember;
+  // What the ancestor is to the root member, e.g. "Paternal grandmother"
+  label: string;
+  // Top-left corner of the card
+  x: number;
+  y: number;
+  // Whether the ancestor has parents in the tree, and whether they are shown
+  hasParents: boolean;
+  isExpanded: boolean;
+}
+
+// Line from a card to the card of one of its parents
+export interface PedigreeConnector {
+  childNumber: number;
+  parentNumber: number;
+  // SVG path data
+  path: string;
+}
+
+export interface PedigreeLayout {
+  slots: PedigreeSlot[];
+  connectors: PedigreeConnector[];
+  width: number;
+  height: number;
+}
+
+/**
+ * Finds the father and mother a pedigree shows for a member
+ * Biological parents come before adoptive ones; parents of unknown gender fill whichever
+ * place is left
+ * @param graph - Relationship graph
+ * @param membersById - Members keyed by ID
+ * @param memberId - Member whose parents to find
+ * @returns Father and mother, either of which may be missing
+ */
+export function getPedigreeParents(
+  graph: RelationshipGraph,
+  membersById: Map<string, FamilyMember>,
+  memberId: string
+): { father?: FamilyMember; mother?: FamilyMember } {
+  const lineageOf = (relationship: Relationship): Lineage => relationship.lineage || 'biological';
+  const parents = getEdges(graph, memberId)
+    .filter(edge => edge.relationshipType === 'child' && PEDIGREE_LINEAGES.includes(lineageOf(edge.relationship)))
+    .sort((a, b) => PEDIGREE_LINEAGES.indexOf(lineageOf(a.relationship)) - PEDIGREE_LINEAGES.indexOf(lineageOf(b.relationship)))
+    .map(edge => membersById.get(edge.memberId))
+    .filter((parent): parent is FamilyMember => !!parent && parent.id !== memberId);
+
+  return assignParentPlaces(parents);
+}
+
+/**
+ * Places parents as father and mother by gender; parents of unknown gender fill whichever
+ * place is left, and the first parent of each gender wins
+ * @param parents - Parents in order of preference
+ * @returns Father and mother, either of which may be missing
+ */
+export function assignParentPlaces<P extends { gender?: string | null }>(parents: P[]): { father?: P; mother?: P } {
+  let father = parents.find(parent => parent.gender === 'male');
+  let mother = parents.find(parent => parent.gender === 'female');
+  const others = parents.filter(parent => parent.gender !== 'male' && parent.gender !== 'female');
+  father = father || others.shift();
+  mother = mother || others.shift();
+
+  return { father, mother };
+}
+
+/**
+ * Describes an ancestor by their place in the pedigree
+ * @param number - Ahnentafel number of the ancestor
+ * @returns Label such as "Father", "Maternal grandmother" or "Paternal 2× great-grandfather"
+ */
+export function getPedigreeLabel(number: number): string {
+  const generation = Math.floor(Math.log2(number));
+  if (generation === 0) return 'Root person';
+
+  const parent = number % 2 === 0 ? 'father' : 'mother';
+  if (generation === 1) return parent === 'father' ? 'Father' : 'Mother';
+
+  // The second bit from the top tells which parent of the root the line goes through
+  const side = (number >> (generation - 1)) === 2 ? 'Paternal' : 'Maternal';
+  const greats = generation - 2;
+  const prefix = greats === 0 ? '' : greats === 1 ? 'great-' : `${greats}× great-`;
+  return `${side} ${prefix}grand${parent}`;
+}
+
+/**
+ * Calculate the pedigree chart of a member
+ *
+ * Compact bracket layout:
+ * - generation n is placed in column n, so every card lines up with its generation
+ * - ancestors without shown parents take the next free row, in father-before-mother order
+ * - every other card is centred between the cards of its shown parents
+ * Branches stop after the given number of generations unless expanded by hand, and a
+ * collapsed branch hides everything above it. A parent link loop is cut where it repeats.
+ * @param members - All family members
+ * @param relationships - All relationships
+ * @param rootMemberId - Member the pedigree starts from
+ * @param generations - Generations of ancestors shown by default
+ * @param toggles - Branches opened or closed by hand, keyed by Ahnentafel number
+ * @returns Layout, or null if the root member is not in the tree
+ */
+export function calculatePedigreeLayout(
+  members: FamilyMember[],
+  relationships: Relationship[],
+  rootMemberId: string,
+  generations: number,
+  toggles: Record<number, PedigreeBranchToggle> = {}
+): PedigreeLayout | null {
+  const membersById = new Map(members.map(member => [member.id, member]));
+  const root = membersById.get(rootMemberId);
+  if (!root) {
+    return null;
+  }
+
+  const graph = buildRelationshipGraph(relationships);
+  const slots: PedigreeSlot[] = [];
+  const connectors: PedigreeConnector[] = [];
+  let nextRowY = 0;
+
+  const place = (member: FamilyMember, number: number, generation: number, lineIds: Set<string>): PedigreeSlot => {
+    const { father, mother } = getPedigreeParents(graph, membersById, member.id);
+    const parents = [
+      { parent: father, number: number * 2 },
+      { parent: mother, number: number * 2 + 1 },
+    ].filter((entry): entry is { parent: FamilyMember; number: number } => !!entry.parent && !lineIds.has(entry.parent.id));
+
+    const hasParents = parents.length > 0;
+    const isExpanded = hasParents && (toggles[number] === 'expanded'
+      || (toggles[number] !== 'collapsed' && generation < generations));
+
+    const slot: PedigreeSlot = {
+      number,
+      generation,
+      member,
+      label: getPedigreeLabel(number),
+      x: generation * (PEDIGREE_CARD_WIDTH + COLUMN_GAP),
+      y: 0,
+      hasParents,
+      isExpanded,
+    };
+    slots.push(slot);
+
+    if (!isExpanded) {
+      slot.y = nextRowY;
+      nextRowY += PEDIGREE_CARD_HEIGHT + ROW_GAP;
+      return slot;
+    }
+
+    const parentSlots = parents.map(entry => place(
+      entry.parent,
+      entry.number,
+      generation + 1,
+      new Set([...lineIds, entry.parent.id])
+    ));
+    slot.y = (parentSlots[0].y + parentSlots[parentSlots.length - 1].y) / 2;
+
+    // Elbow from the right edge of the card to the left edge of each parent's card
+    const startX = slot.x + PEDIGREE_CARD_WIDTH;
+    const elbowX = startX + COLUMN_GAP / 2;
+    parentSlots.forEach(parentSlot => {
+      connectors.push({
+        childNumber: number,
+        parentNumber: parentSlot.number,
+        path: `M ${startX} ${slot.y + PEDIGREE_CARD_HEIGHT / 2} H ${elbowX} V ${parentSlot.y + PEDIGREE_CARD_HEIGHT / 2} H ${parentSlot.x}`,
+      });
+    });
+
+    return slot;
+  };
+
+  place(root, 1, 0, new Set([root.id]));
+
+  const columns = Math.max(...slots.map(slot => slot.generation)) + 1;
+  return {
+    slots: slots.sort((a, b) => a.number - b.number),
+    connectors,
+    width: columns * PEDIGREE_CARD_WIDTH + (columns - 1) * COLUMN_GAP,
+    height: nextRowY - ROW_GAP,
+  };
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseRecurrenceRule,
+  normalizeRecurrenceRule,
+  formatOrdinal,
+  describeRecurrence,
+  getOccurrences,
+  getNextOccurrence,
+} from './recurrence';
+
+const at = (year: number, month: number, day: number, hours = 0, minutes = 0): number =>
+  new Date(year, month - 1, day, hours, minutes).getTime();
+
+const event = (eventDate: number, recurrence?: string | null) => ({
+  eventDate: new Date(eventDate).toISOString(),
+  recurrence,
+});
+
+describe('recurrence', () => {
+  describe('parseRecurrenceRule', () => {
+    it('should read the supported rule parts, with or without the RRULE prefix', () => {
+      expect(parseRecurrenceRule('RRULE:freq=monthly;interval=2;byday=2SU,-1FR;count=6')).toEqual({
+        frequency: 'MONTHLY',
+        interval: 2,
+        count: 6,
+        byDay: [{ weekday: 0, ordinal: 2 }, { weekday: 5, ordinal: -1 }],
+      });
+      expect(parseRecurrenceRule('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=-1;WKST=SU')).toEqual({
+        frequency: 'YEARLY',
+        interval: 1,
+        byMonth: [2],
+        byMonthDay: [-1],
+      });
+    });
+
+    it('should reject missing, malformed and unsupported rules', () => {
+      expect(parseRecurrenceRule('')).toBeNull();
+      expect(parseRecurrenceRule('FREQ=HOURLY')).toBeNull();
+      expect(parseRecurrenceRule('INTERVAL=2')).toBeNull();
+      expect(parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=0')).toBeNull();
+      expect(parseRecurrenceRule('FREQ=WEEKLY;BYDAY=2MO')).toBeNull();
+      expect(parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=32')).toBeNull();
+      expect(parseRecurrenceRule('FREQ=DAILY;UNTIL=20250230')).toBeNull();
+      expect(parseRecurrenceRule('FREQ=DAILY;COUNT=3;UNTIL=20251231')).toBeNull();
+      expect(parseRecurrenceRule('FREQ=MONTHLY;BYSETPOS=-1')).toBeNull();
+    });
+  });
+
+  describe('normalizeRecurrenceRule', () => {
+    it('should store rules in one form', () => {
+      expect(normalizeRecurrenceRule(' rrule:byday=we,mo;freq=weekly;interval=1 ')).toBe('FREQ=WEEKLY;BYDAY=WE,MO');
+      expect(normalizeRecurrenceRule('every week')).toBeNull();
+    });
+  });
+
+  describe('describeRecurrence', () => {
+    it('should say how often an event repeats', () => {
+      expect(formatOrdinal(1)).toBe('1st');
+      expect(formatOrdinal(12)).toBe('12th');
+      expect(formatOrdinal(23)).toBe('23rd');
+      expect(describeRecurrence('FREQ=YEARLY')).toBe('Every year');
+      expect(describeRecurrence('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE')).toBe('Every 2 weeks on Monday, Wednesday');
+      expect(describeRecurrence('FREQ=MONTHLY;BYDAY=2SU;COUNT=6')).toBe('Every month on the 2nd Sunday, 6 times');
+      expect(describeRecurrence('FREQ=MONTHLY;BYMONTHDAY=-1;UNTIL=20261231')).toBe('Every month on the last day, until Dec 31, 2026');
+      expect(describeRecurrence(null)).toBeNull();
+    });
+  });
+
+  describe('getOccurrences', () => {
+    it('should list a one-off event only within the span', () => {
+      const start = at(2025, 11, 22, 18);
+      expect(getOccurrences(event(start), at(2025, 11, 1), at(2025, 12, 1))).toEqual([start]);
+      expect(getOccurrences(event(start, 'not a rule'), at(2025, 12, 1), at(2026, 1, 1))).toEqual([]);
+    });
+
+    it('should repeat yearly at the same local time, skipping years without the day', () => {
+      expect(getOccurrences(event(at(2024, 2, 29, 9), 'FREQ=YEARLY'), at(2024, 1, 1), at(2029, 1, 1))).toEqual([
+        at(2024, 2, 29, 9),
+        at(2028, 2, 29, 9),
+      ]);
+    });
+
+    it('should repeat monthly, skipping months without the day', () => {
+      expect(getOccurrences(event(at(2025, 1, 31), 'FREQ=MONTHLY'), at(2025, 1, 1), at(2025, 6, 1))).toEqual([
+        at(2025, 1, 31),
+        at(2025, 3, 31),
+        at(2025, 5, 31),
+      ]);
+    });
+
+    it('should pick numbered weekdays and days counted from the month end', () => {
+      const secondSunday = event(at(2025, 1, 12, 14), 'FREQ=MONTHLY;BYDAY=2SU');
+      expect(getOccurrences(secondSunday, at(2025, 1, 1), at(2025, 4, 1))).toEqual([
+        at(2025, 1, 12, 14),
+        at(2025, 2, 9, 14),
+        at(2025, 3, 9, 14),
+      ]);
+
+      const lastOfFebruary = event(at(2025, 2, 28), 'FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=-1');
+      expect(getOccurrences(lastOfFebruary, at(2025, 1, 1), at(2029, 1, 1))).toEqual([
+        at(2025, 2, 28),
+        at(2026, 2, 28),
+        at(2027, 2, 28),
+        at(2028, 2, 29),
+      ]);
+    });
+
+    it('should repeat on several weekdays every other week', () => {
+      // Monday 6 January 2025
+      const classes = event(at(2025, 1, 6, 19), 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH');
+      expect(getOccurrences(classes, at(2025, 1, 1), at(2025, 2, 1))).toEqual([
+        at(2025, 1, 6, 19),
+        at(2025, 1, 9, 19),
+        at(2025, 1, 20, 19),
+        at(2025, 1, 23, 19),
+      ]);
+    });
+
+    it('should stop after COUNT occurrences or at UNTIL', () => {
+      const start = at(2025, 3, 1, 10);
+      expect(getOccurrences(event(start, 'FREQ=DAILY;COUNT=3'), at(2025, 3, 2), at(2026, 1, 1))).toEqual([
+        at(2025, 3, 2, 10),
+        at(2025, 3, 3, 10),
+      ]);
+      expect(getOccurrences(event(start, 'FREQ=WEEKLY;UNTIL=20250315'), at(2025, 1, 1), at(2026, 1, 1))).toEqual([
+        at(2025, 3, 1, 10),
+        at(2025, 3, 8, 10),
+        at(2025, 3, 15, 10),
+      ]);
+    });
+
+    it('should give up on rules that never match', () => {
+      expect(getNextOccurrence(event(at(2025, 1, 1), 'FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30'), at(2025, 1, 1))).toBeNull();
+    });
+  });
+
+  describe('getNextOccurrence', () => {
+    it('should find the next occurrence of an event that began long ago', () => {
+      const birthdayDinner = event(at(1990, 6, 15, 18), 'FREQ=YEARLY');
+      expect(getNextOccurrence(birthdayDinner, at(2025, 6, 16))).toBe(at(2026, 6, 15, 18));
+      expect(getNextOccurrence(birthdayDinner, at(2025, 6, 15))).toBe(at(2025, 6, 15, 18));
+    });
+
+    it('should find nothing once a one-off event has passed', () => {
+      expect(getNextOccurrence(event(at(2025, 1, 1)), at(2025, 6, 1))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,394 @@
+/**
+ * Event recurrence
+ * Repeating events carry an iCalendar recurrence rule (RFC 5545 RRULE) such as "FREQ=YEARLY"
+ * or "FREQ=MONTHLY;BYDAY=2SU". Every occurrence starts at the local time of day of the first.
+ *
+ * Supported parts: FREQ (DAILY, WEEKLY, MONTHLY or YEARLY), INTERVAL, COUNT, UNTIL, BYDAY,
+ * BYMONTHDAY and BYMONTH. WKST is accepted, but weeks always start on Monday, and numbered
+ * BYDAY values ("2SU", "-1FR") count within the month.
+ */
+
+import { FamilyEvent } from '../types/api';
+import { getDaysInMonth } from './genealogicalDate';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceWeekday {
+  // 0 for Sunday to 6 for Saturday, as Date.getDay()
+  weekday: number;
+  // Which one in the month: 1 for the first, -1 for the last; every one when absent
+  ordinal?: number;
+}
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  // Last day (YYYYMMDD) or moment (YYYYMMDDTHHMMSS, with Z for UTC) an occurrence may start
+  until?: string;
+  byDay?: RecurrenceWeekday[];
+  // Days of the month; negative days count back from the month's last day
+  byMonthDay?: number[];
+  // 1-based months
+  byMonth?: number[];
+}
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const UNIT_NAMES: Record<RecurrenceFrequency, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+  YEARLY: 'year',
+};
+
+// Most occurrences listed for one event at once
+const MAX_OCCURRENCES = 500;
+// Most periods (days, weeks, months or years) looked through for occurrences
+const MAX_PERIODS = 10000;
+
+const parsePositive = (value: string): number | null =>
+  /^\d+$/.test(value) && Number(value) > 0 ? Number(value) : null;
+
+const parseNumberList = (value: string, isValid: (n: number) => boolean): number[] | null => {
+  const numbers = value.split(',').map(part => (/^[+-]?\d{1,2}$/.test(part) ? Number(part) : NaN));
+  return numbers.every(n => Number.isInteger(n) && isValid(n)) ? numbers : null;
+};
+
+const parseWeekday = (value: string): RecurrenceWeekday | null => {
+  const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(value);
+  if (!match) return null;
+  const weekday = WEEKDAY_CODES.indexOf(match[2]);
+  if (!match[1]) return { weekday };
+  const ordinal = Number(match[1]);
+  return ordinal !== 0 && Math.abs(ordinal) <= 5 ? { weekday, ordinal } : null;
+};
+
+/**
+ * Latest moment an occurrence may start under an UNTIL value
+ * A date without a time includes that whole local day.
+ * @returns Milliseconds since the epoch, or null if the value is not a date that exists
+ */
+export function getUntilTime(value: string): number | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1, 4).map(Number);
+  if (month < 1 || month > 12 || day < 1 || day > getDaysInMonth(year, month)) return null;
+  if (!match[4]) {
+    return new Date(year, month - 1, day + 1).getTime() - 1;
+  }
+
+  const [hours, minutes, seconds] = match.slice(4, 7).map(Number);
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+  return match[7]
+    ? Date.UTC(year, month - 1, day, hours, minutes, seconds)
+    : new Date(year, month - 1, day, hours, minutes, seconds).getTime();
+}
+
+/**
+ * Reads a recurrence rule, with or without its "RRULE:" prefix
+ * @param value - Rule text, e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE"
+ * @returns The rule, or null if it is missing, malformed or uses parts that aren't supported
+ */
+export function parseRecurrenceRule(value?: string | null): RecurrenceRule | null {
+  const text = value?.trim().toUpperCase().replace(/^RRULE:/, '');
+  if (!text) return null;
+
+  const parts = new Map<string, string>();
+  for (const part of text.split(';').filter(Boolean)) {
+    const [key, partValue, ...extra] = part.split('=');
+    if (!partValue || extra.length > 0 || parts.has(key)) return null;
+    parts.set(key, partValue);
+  }
+
+  const frequency = FREQUENCIES.find(candidate => candidate === parts.get('FREQ'));
+  if (!frequency) return null;
+
+  const rule: RecurrenceRule = { frequency, interval: 1 };
+  for (const [key, partValue] of parts) {
+    switch (key) {
+      case 'FREQ':
+      case 'WKST':
+        break;
+      case 'INTERVAL':
+      case 'COUNT': {
+        const number = parsePositive(partValue);
+        if (!number) return null;
+        if (key === 'INTERVAL') rule.interval = number;
+        else rule.count = number;
+        break;
+      }
+      case 'UNTIL':
+        if (getUntilTime(partValue) === null) return null;
+        rule.until = partValue;
+        break;
+      case 'BYDAY': {
+        const days = partValue.split(',').map(parseWeekday);
+        if (days.some(day => !day)) return null;
+        rule.byDay = days as RecurrenceWeekday[];
+        // Numbered weekdays only make sense within a month or year
+        if ((frequency === 'DAILY' || frequency === 'WEEKLY') && rule.byDay.some(day => day.ordinal)) return null;
+        break;
+      }
+      case 'BYMONTHDAY': {
+        const days = parseNumberList(partValue, n => n !== 0 && Math.abs(n) <= 31);
+        if (!days || frequency === 'WEEKLY') return null;
+        rule.byMonthDay = days;
+        break;
+      }
+      case 'BYMONTH': {
+        const months = parseNumberList(partValue, n => n >= 1 && n <= 12);
+        if (!months) return null;
+        rule.byMonth = months;
+        break;
+      }
+      default:
+        return null;
+    }
+  }
+
+  // A rule ends after a number of occurrences or at a date, not both
+  if (rule.count && rule.until) return null;
+  return rule;
+}
+
+/**
+ * Writes a recurrence rule in its stored form, without the "RRULE:" prefix
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const formatDay = (day: RecurrenceWeekday): string => `${day.ordinal || ''}${WEEKDAY_CODES[day.weekday]}`;
+  return [
+    `FREQ=${rule.frequency}`,
+    rule.interval > 1 && `INTERVAL=${rule.interval}`,
+    rule.byMonth && `BYMONTH=${rule.byMonth.join(',')}`,
+    rule.byMonthDay && `BYMONTHDAY=${rule.byMonthDay.join(',')}`,
+    rule.byDay && `BYDAY=${rule.byDay.map(formatDay).join(',')}`,
+    rule.count && `COUNT=${rule.count}`,
+    rule.until && `UNTIL=${rule.until}`,
+  ].filter(Boolean).join(';');
+}
+
+/**
+ * Checks a recurrence rule and writes it in its stored form
+ * @returns The stored rule, or null if it can't be read
+ */
+export function normalizeRecurrenceRule(value: string): string | null {
+  const rule = parseRecurrenceRule(value);
+  return rule ? formatRecurrenceRule(rule) : null;
+}
+
+/**
+ * Day of the month with its English suffix
+ * @returns e.g. "1st", "22nd", "11th"
+ */
+export function formatOrdinal(value: number): string {
+  const lastTwo = value % 100;
+  const suffix = lastTwo >= 11 && lastTwo <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][value % 10] || 'th';
+  return `${value}${suffix}`;
+}
+
+const describeOrdinal = (value: number): string => {
+  if (value === -1) return 'last';
+  return value < 0 ? `${formatOrdinal(-value)} to last` : formatOrdinal(value);
+};
+
+/**
+ * How often an event repeats, in words
+ * @param value - Recurrence rule
+ * @returns e.g. "Every year", "Every 2 weeks on Monday, Wednesday" or "Every month on the
+ * 2nd Sunday, 6 times"; null if the rule can't be read
+ */
+export function describeRecurrence(value?: string | null): string | null {
+  const rule = parseRecurrenceRule(value);
+  if (!rule) return null;
+
+  const unit = UNIT_NAMES[rule.frequency];
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.byMonth) {
+    text += ` in ${rule.byMonth.map(month => MONTH_NAMES[month - 1]).join(', ')}`;
+  }
+  if (rule.byMonthDay) {
+    text += ` on the ${rule.byMonthDay.map(day => (day === -1 ? 'last day' : describeOrdinal(day))).join(', ')}`;
+  }
+  if (rule.byDay) {
+    const isNumbered = rule.byDay.some(day => day.ordinal);
+    const days = rule.byDay.map(day =>
+      day.ordinal ? `${describeOrdinal(day.ordinal)} ${WEEKDAY_NAMES[day.weekday]}` : WEEKDAY_NAMES[day.weekday]
+    );
+    text += ` on ${isNumbered ? 'the ' : ''}${days.join(', ')}`;
+  }
+  if (rule.count) {
+    text += rule.count === 1 ? ', once' : `, ${rule.count} times`;
+  }
+  if (rule.until) {
+    const until = new Date(getUntilTime(rule.until) as number);
+    text += `, until ${until.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  }
+  return text;
+}
+
+/**
+ * First day (local midnight) of the index-th period of a rule from the first occurrence
+ */
+function getPeriodStart(rule: RecurrenceRule, start: Date, index: number): Date {
+  const step = index * rule.interval;
+  switch (rule.frequency) {
+    case 'DAILY':
+      return new Date(start.getFullYear(), start.getMonth(), start.getDate() + step);
+    case 'WEEKLY':
+      // Weeks start on Monday
+      return new Date(start.getFullYear(), start.getMonth(), start.getDate() - ((start.getDay() + 6) % 7) + 7 * step);
+    case 'MONTHLY':
+      return new Date(start.getFullYear(), start.getMonth() + step, 1);
+    case 'YEARLY':
+      return new Date(start.getFullYear() + step, 0, 1);
+  }
+}
+
+/**
+ * Periods between the first occurrence and a later moment, rounded down
+ */
+function countPeriodsUntil(rule: RecurrenceRule, start: Date, time: number): number {
+  const date = new Date(time);
+  const months = (date.getFullYear() - start.getFullYear()) * 12 + date.getMonth() - start.getMonth();
+  const days = Math.floor((time - start.getTime()) / (24 * 60 * 60 * 1000));
+  const periods = { DAILY: days, WEEKLY: Math.floor(days / 7), MONTHLY: months, YEARLY: Math.floor(months / 12) }[rule.frequency];
+  return Math.max(0, Math.floor(periods / rule.interval));
+}
+
+const matchesMonthDay = (byMonthDay: number[], day: number, daysInMonth: number): boolean =>
+  byMonthDay.some(monthDay => (monthDay > 0 ? monthDay : daysInMonth + monthDay + 1) === day);
+
+const matchesWeekday = (byDay: RecurrenceWeekday[], day: number, weekday: number, daysInMonth: number): boolean =>
+  byDay.some(rule => {
+    if (rule.weekday !== weekday) return false;
+    if (!rule.ordinal) return true;
+    return rule.ordinal > 0
+      ? Math.ceil(day / 7) === rule.ordinal
+      : Math.ceil((daysInMonth - day + 1) / 7) === -rule.ordinal;
+  });
+
+/**
+ * Days of one month a rule picks
+ * @param month - 0-based month
+ * @returns Days of the month in order
+ */
+function getMonthDays(rule: RecurrenceRule, start: Date, year: number, month: number): number[] {
+  const daysInMonth = getDaysInMonth(year, month + 1);
+  if (!rule.byMonthDay && !rule.byDay) {
+    // Months without the first occurrence's day (the 31st, or 29 February) are skipped
+    return start.getDate() <= daysInMonth ? [start.getDate()] : [];
+  }
+
+  const days: number[] = [];
+  for (let day = 1; day <= daysInMonth; day++) {
+    const weekday = new Date(year, month, day).getDay();
+    if (rule.byMonthDay && !matchesMonthDay(rule.byMonthDay, day, daysInMonth)) continue;
+    if (rule.byDay && !matchesWeekday(rule.byDay, day, weekday, daysInMonth)) continue;
+    days.push(day);
+  }
+  return days;
+}
+
+/**
+ * Days (local midnight) within one period that a rule picks, in order
+ */
+function getPeriodDays(rule: RecurrenceRule, start: Date, periodStart: Date): Date[] {
+  const year = periodStart.getFullYear();
+  const inMonths = (date: Date): boolean => !rule.byMonth || rule.byMonth.includes(date.getMonth() + 1);
+
+  switch (rule.frequency) {
+    case 'DAILY': {
+      const daysInMonth = getDaysInMonth(year, periodStart.getMonth() + 1);
+      const isPicked = inMonths(periodStart)
+        && (!rule.byMonthDay || matchesMonthDay(rule.byMonthDay, periodStart.getDate(), daysInMonth))
+        && (!rule.byDay || rule.byDay.some(day => day.weekday === periodStart.getDay()));
+      return isPicked ? [periodStart] : [];
+    }
+    case 'WEEKLY': {
+      const weekdays = rule.byDay ? rule.byDay.map(day => day.weekday) : [start.getDay()];
+      return Array.from({ length: 7 }, (_, offset) => new Date(year, periodStart.getMonth(), periodStart.getDate() + offset))
+        .filter(date => weekdays.includes(date.getDay()) && inMonths(date));
+    }
+    case 'MONTHLY':
+      if (!inMonths(periodStart)) return [];
+      return getMonthDays(rule, start, year, periodStart.getMonth()).map(day => new Date(year, periodStart.getMonth(), day));
+    case 'YEARLY': {
+      // Without BYMONTH, a rule picking days by number or weekday looks through every month
+      const months = rule.byMonth
+        ? [...rule.byMonth].sort((a, b) => a - b).map(month => month - 1)
+        : rule.byMonthDay || rule.byDay ? Array.from({ length: 12 }, (_, month) => month) : [start.getMonth()];
+      return months.flatMap(month => getMonthDays(rule, start, year, month).map(day => new Date(year, month, day)));
+    }
+  }
+}
+
+/**
+ * Start times of an event's occurrences within a span of time
+ * An event without a (readable) rule occurs once, on its date.
+ * @param event - The event; its date is the first occurrence
+ * @param from - Start of the span, in milliseconds since the epoch
+ * @param to - End of the span (exclusive)
+ * @param limit - Most occurrences to return
+ * @returns Occurrence start times, in milliseconds since the epoch, soonest first
+ */
+export function getOccurrences(
+  event: Pick<FamilyEvent, 'eventDate' | 'recurrence'>,
+  from: number,
+  to: number,
+  limit: number = MAX_OCCURRENCES
+): number[] {
+  const start = new Date(event.eventDate);
+  const startTime = start.getTime();
+  const rule = parseRecurrenceRule(event.recurrence);
+  if (!rule) {
+    return startTime >= from && startTime < to ? [startTime] : [];
+  }
+
+  const until = rule.until ? getUntilTime(rule.until) as number : Infinity;
+  const end = Math.min(to, until + 1);
+  const occurrences: number[] = [];
+  let occurrenceCount = 0;
+
+  // Counting occurrences has to start from the first one; otherwise skip to the span
+  const firstPeriod = rule.count ? 0 : Math.max(0, countPeriodsUntil(rule, start, from) - 1);
+  for (let index = firstPeriod; index < firstPeriod + MAX_PERIODS; index++) {
+    const periodStart = getPeriodStart(rule, start, index);
+    if (periodStart.getTime() >= end) break;
+
+    for (const day of getPeriodDays(rule, start, periodStart)) {
+      const time = new Date(
+        day.getFullYear(), day.getMonth(), day.getDate(),
+        start.getHours(), start.getMinutes(), start.getSeconds(), start.getMilliseconds()
+      ).getTime();
+      if (time < startTime) continue;
+      if (time >= end) return occurrences;
+
+      occurrenceCount++;
+      if (rule.count && occurrenceCount > rule.count) return occurrences;
+      if (time >= from) {
+        occurrences.push(time);
+        if (occurrences.length >= limit) return occurrences;
+      }
+    }
+  }
+  return occurrences;
+}
+
+/**
+ * Start time of an event's first occurrence from a moment on
+ * @returns Milliseconds since the epoch, or null if the event does not occur again
+ */
+export function getNextOccurrence(event: Pick<FamilyEvent, 'eventDate' | 'recurrence'>, from: number): number | null {
+  const [next] = getOccurrences(event, from, Infinity, 1);
+  return next ?? null;
+}
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  INVERSE_RELATIONSHIP_TYPES,
+  buildRelationshipGraph,
+  findAllPaths,
+  findMembersCutOffBy,
+  findShortestPath,
+  getAncestors,
+  getConnectedMembers,
+  getDescendants,
+  getEdge,
+  getInverseRelationshipType
+} from './relationshipGraph';
+import { Relationship } from '../types/components';
+
+const now = new Date().toISOString();
+
+const relationship = (
+  fromUserId: string,
+  toUserId: string,
+  relationshipType: Relationship['relationshipType']
+): Relationship => ({
+  id: `${fromUserId}-${relationshipType}-${toUserId}`, fromUserId, toUserId, relationshipType, createdAt: now
+});
+
+const relationshipTypes = Object.keys(INVERSE_RELATIONSHIP_TYPES) as Relationship['relationshipType'][];
+
+describe('relationshipGraph', () => {
+  describe('getInverseRelationshipType', () => {
+    it('should invert every relationship type back to itself', () => {
+      expect(relationshipTypes.sort()).toEqual([
+        'aunt-uncle', 'child', 'cousin', 'grandchild', 'grandparent', 'niece-nephew', 'other', 'parent', 'sibling', 'spouse'
+      ]);
+      relationshipTypes.forEach(type => {
+        expect(getInverseRelationshipType(getInverseRelationshipType(type))).toBe(type);
+      });
+    });
+
+    it('should pair vertical relationships with their opposite', () => {
+      expect(getInverseRelationshipType('grandparent')).toBe('grandchild');
+      expect(getInverseRelationshipType('aunt-uncle')).toBe('niece-nephew');
+      expect(getInverseRelationshipType('cousin')).toBe('cousin');
+      expect(getInverseRelationshipType('unknown')).toBe('unknown');
+    });
+  });
+
+  describe('buildRelationshipGraph', () => {
+    it('should add an inverse edge for any relationship', () => {
+      fc.assert(
+        fc.property(fc.constantFrom(...relationshipTypes), (type) => {
+          const rel = relationship('a', 'b', type);
+          const graph = buildRelationshipGraph([rel]);
+
+          expect(getEdge(graph, 'a', 'b')).toEqual({ memberId: 'b', relationshipType: type, relationship: rel, direction: 'forward' });
+          expect(getEdge(graph, 'b', 'a')).toEqual({
+            memberId: 'a', relationshipType: INVERSE_RELATIONSHIP_TYPES[type], relationship: rel, direction: 'reverse'
+          });
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should skip relationships from a member to themselves', () => {
+      expect(buildRelationshipGraph([relationship('a', 'a', 'sibling')]).size).toBe(0);
+    });
+  });
+
+  describe('ancestors and descendants', () => {
+    // grandma -> mum -> me -> kid, with a direct grandparent link from great-grandpa to mum
+    const relationships = [
+      relationship('grandma', 'mum', 'parent'),
+      relationship('me', 'mum', 'child'),
+      relationship('me', 'kid', 'parent'),
+      relationship('great-grandpa', 'mum', 'grandparent'),
+      relationship('grandma', 'great-grandpa', 'child'),
+      relationship('me', 'wife', 'spouse'),
+      relationship('me', 'aunt', 'niece-nephew'),
+    ];
+    const graph = buildRelationshipGraph(relationships);
+
+    it('should find ancestors with the number of generations up', () => {
+      expect(Object.fromEntries(getAncestors(graph, 'me'))).toEqual({ mum: 1, grandma: 2, 'great-grandpa': 3 });
+      expect(getAncestors(graph, 'great-grandpa').size).toBe(0);
+    });
+
+    it('should find descendants with the number of generations down', () => {
+      expect(Object.fromEntries(getDescendants(graph, 'great-grandpa'))).toEqual({ grandma: 1, mum: 2, me: 3, kid: 4 });
+      expect(getDescendants(graph, 'kid').size).toBe(0);
+    });
+
+    it('should find every member on a line of descent among the ancestors of its end', () => {
+      fc.assert(
+        fc.property(fc.integer({ min: 1, max: 10 }), (length) => {
+          const line = Array.from({ length: length + 1 }, (_, index) => `m${index}`);
+          const lineGraph = buildRelationshipGraph(line.slice(1).map((id, index) => relationship(line[index], id, 'parent')));
+
+          const ancestors = getAncestors(lineGraph, line[length]);
+          const descendants = getDescendants(lineGraph, line[0]);
+          line.slice(0, length).forEach((id, index) => expect(ancestors.get(id)).toBe(length - index));
+          line.slice(1).forEach((id, index) => expect(descendants.get(id)).toBe(index + 1));
+        }),
+        { numRuns: 20 }
+      );
+    });
+  });
+
+  describe('paths', () => {
+    // Two routes from a to d: a-b-d and a-c-e-d
+    const graph = buildRelationshipGraph([
+      relationship('a', 'b', 'parent'),
+      relationship('b', 'd', 'parent'),
+      relationship('a', 'c', 'sibling'),
+      relationship('c', 'e', 'spouse'),
+      relationship('e', 'd', 'cousin'),
+      relationship('x', 'y', 'sibling'),
+    ]);
+
+    it('should find the shortest path', () => {
+      expect(findShortestPath(graph, 'a', 'd')).toEqual(['a', 'b', 'd']);
+      expect(findShortestPath(graph, 'a', 'a')).toEqual(['a']);
+      expect(findShortestPath(graph, 'a', 'x')).toBeNull();
+    });
+
+    it('should find all simple paths, shortest first', () => {
+      expect(findAllPaths(graph, 'a', 'd')).toEqual([['a', 'b', 'd'], ['a', 'c', 'e', 'd']]);
+      expect(findAllPaths(graph, 'a', 'd', 2)).toEqual([['a', 'b', 'd']]);
+      expect(findAllPaths(graph, 'a', 'x')).toEqual([]);
+    });
+  });
+
+  describe('connectivity', () => {
+    // c is only reachable through b; d is reachable through b or the spouse e
+    const graph = buildRelationshipGraph([
+      relationship('a', 'b', 'parent'),
+      relationship('b', 'c', 'parent'),
+      relationship('b', 'd', 'parent'),
+      relationship('a', 'e', 'spouse'),
+      relationship('e', 'd', 'parent'),
+      relationship('x', 'y', 'sibling'),
+    ]);
+
+    it('should find every connected member', () => {
+      expect(getConnectedMembers(graph, 'a')).toEqual(new Set(['a', 'b', 'c', 'd', 'e']));
+      expect(getConnectedMembers(graph, 'a', ['b'])).toEqual(new Set(['a', 'd', 'e']));
+      expect(getConnectedMembers(graph, 'a', ['a'])).toEqual(new Set());
+    });
+
+    it('should find members only connected to the root through a removed member', () => {
+      expect(findMembersCutOffBy(graph, 'a', 'b')).toEqual(['c']);
+      expect(findMembersCutOffBy(graph, 'a', 'c')).toEqual([]);
+      expect(findMembersCutOffBy(graph, 'a', 'a')).toEqual([]);
+      expect(findMembersCutOffBy(graph, 'a', 'x')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Relationship graph
+ * Single graph representation of family relationships, shared by the relationship path,
+ * kinship and tree layout utilities
+ */
+
+import { Relationship } from '../types/components';
+
+type RelationshipType = Relationship['relationshipType'];
+
+export interface RelationshipEdge {
+  // Member at the other end of the edge
+  memberId: string;
+  // What the member the edge starts from is to memberId (e.g. 'child' when memberId is their parent)
+  relationshipType: RelationshipType;
+  // Relationship the edge was built from
+  relationship: Relationship;
+  // 'forward' when the edge starts from the relationship's fromUser
+  direction: 'forward' | 'reverse';
+}
+
+// Edges of each member, keyed by member ID
+export type RelationshipGraph = Map<string, RelationshipEdge[]>;
+
+// Inverse of every relationship type: if A is B's parent, B is A's child
+export const INVERSE_RELATIONSHIP_TYPES: Record<RelationshipType, RelationshipType> = {
+  'parent': 'child',
+  'child': 'parent',
+  'spouse': 'spouse',
+  'sibling': 'sibling',
+  'grandparent': 'grandchild',
+  'grandchild': 'grandparent',
+  'aunt-uncle': 'niece-nephew',
+  'niece-nephew': 'aunt-uncle',
+  'cousin': 'cousin',
+  'other': 'other'
+};
+
+// Generations to a relative across each vertical relationship type (positive is up)
+const GENERATION_OFFSETS: Partial<Record<RelationshipType, number>> = {
+  'child': 1,
+  'grandchild': 2,
+  'parent': -1,
+  'grandparent': -2
+};
+
+/**
+ * Gets the inverse relationship type
+ * @param relationshipType - The original relationship type
+ * @returns The inverse relationship type, or the type itself if it is not known
+ */
+export function getInverseRelationshipType(relationshipType: string): string {
+  return INVERSE_RELATIONSHIP_TYPES[relationshipType as RelationshipType] || relationshipType;
+}
+
+/**
+ * Builds a graph with an edge in each direction for every relationship
+ * @param relationships - Array of relationship objects
+ * @returns Map of member IDs to their edges
+ */
+export function buildRelationshipGraph(relationships: Relationship[]): RelationshipGraph {
+  const graph: RelationshipGraph = new Map();
+
+  const addEdge = (memberId: string, edge: RelationshipEdge): void => {
+    if (!graph.has(memberId)) {
+      graph.set(memberId, []);
+    }
+    (graph.get(memberId) as RelationshipEdge[]).push(edge);
+  };
+
+  relationships.forEach(relationship => {
+    if (relationship.fromUserId === relationship.toUserId) return;
+
+    addEdge(relationship.fromUserId, {
+      memberId: relationship.toUserId,
+      relationshipType: relationship.relationshipType,
+      relationship,
+      direction: 'forward'
+    });
+    addEdge(relationship.toUserId, {
+      memberId: relationship.fromUserId,
+      relationshipType: getInverseRelationshipType(relationship.relationshipType) as RelationshipType,
+      relationship,
+      direction: 'reverse'
+    });
+  });
+
+  return graph;
+}
+
+/**
+ * Gets the edges of a member
+ * @param graph - Relationship graph
+ * @param memberId - ID of the member
+ * @returns Edges starting from the member
+ */
+export function getEdges(graph: RelationshipGraph, memberId: string): RelationshipEdge[] {
+  return graph.get(memberId) || [];
+}
+
+/**
+ * Gets the edge between two members
+ * @param graph - Relationship graph
+ * @param fromId - ID of the member the edge starts from
+ * @param toId - ID of the member the edge leads to
+ * @returns The first edge between the members, or undefined if they are not directly related
+ */
+export function getEdge(graph: RelationshipGraph, fromId: string, toId: string): RelationshipEdge | undefined {
+  return getEdges(graph, fromId).find(edge => edge.memberId === toId);
+}
+
+/**
+ * Collects relatives reachable through vertical relationships in one direction
+ * @param graph - Relationship graph
+ * @param memberId - ID of the member
+ * @param direction - 1 for ancestors, -1 for descendants
+ * @returns Map of relative IDs to the number of generations away
+ */
+function collectGenerations(graph: RelationshipGraph, memberId: string, direction: 1 | -1): Map<string, number> {
+  const generations = new Map<string, number>();
+  const queue: { id: string; generation: number }[] = [{ id: memberId, generation: 0 }];
+
+  // A relative is revisited whenever a shorter line to them turns up
+  while (queue.length > 0) {
+    const { id, generation } = queue.shift() as { id: string; generation: number };
+
+    getEdges(graph, id).forEach(edge => {
+      const offset = (GENERATION_OFFSETS[edge.relationshipType] || 0) * direction;
+      const relativeGeneration = generation + offset;
+      const known = generations.get(edge.memberId);
+
+      if (offset > 0 && edge.memberId !== memberId && (known === undefined || relativeGeneration < known)) {
+        generations.set(edge.memberId, relativeGeneration);
+        queue.push({ id: edge.memberId, generation: relativeGeneration });
+      }
+    });
+  }
+
+  return generations;
+}
+
+/**
+ * Finds every ancestor of a member through parent and grandparent relationships
+ * @param graph - Relationship graph
+ * @param memberId - ID of the member
+ * @returns Map of ancestor IDs to how many generations up they are
+ */
+export function getAncestors(graph: RelationshipGraph, memberId: string): Map<string, number> {
+  return collectGenerations(graph, memberId, 1);
+}
+
+/**
+ * Finds every descendant of a member through child and grandchild relationships
+ * @param graph - Relationship graph
+ * @param memberId - ID of the member
+ * @returns Map of descendant IDs to how many generations down they are
+ */
+export function getDescendants(graph: RelationshipGraph, memberId: string): Map<string, number> {
+  return collectGenerations(graph, memberId, -1);
+}
+
+/**
+ * Finds every member connected to a member through any chain of relationships
+ * @param graph - Relationship graph
+ * @param startId - ID of the member to start from
+ * @param excludedIds - Members treated as missing from the tree
+ * @returns IDs of the connected members, including the start member
+ */
+export function getConnectedMembers(graph: RelationshipGraph, startId: string, excludedIds: string[] = []): Set<string> {
+  const excluded = new Set(excludedIds);
+  const connected = new Set<string>();
+  if (excluded.has(startId)) {
+    return connected;
+  }
+
+  const queue: string[] = [startId];
+  connected.add(startId);
+  while (queue.length > 0) {
+    const currentId = queue.shift() as string;
+    getEdges(graph, currentId).forEach(edge => {
+      if (!connected.has(edge.memberId) && !excluded.has(edge.memberId)) {
+        connected.add(edge.memberId);
+        queue.push(edge.memberId);
+      }
+    });
+  }
+
+  return connected;
+}
+
+/**
+ * Finds the members who would no longer be connected to the root member if a member were removed
+ * @param graph - Relationship graph
+ * @param rootId - ID of the member the tree is drawn from
+ * @param memberId - ID of the member being removed
+ * @returns IDs of the members only connected to the root through the removed member
+ */
+export function findMembersCutOffBy(graph: RelationshipGraph, rootId: string, memberId: string): string[] {
+  if (rootId === memberId) {
+    return [];
+  }
+  const remaining = getConnectedMembers(graph, rootId, [memberId]);
+  return Array.from(getConnectedMembers(graph, rootId))
+    .filter(id => id !== memberId && !remaining.has(id));
+}
+
+/**
+ * Finds the shortest path between two members using BFS
+ * @param graph - Relationship graph
+ * @param startId - ID of the starting member
+ * @param targetId - ID of the target member
+ * @returns Member IDs from start to target, or null if not connected
+ */
+export function findShortestPath(graph: RelationshipGraph, startId: string, targetId: string): string[] | null {
+  if (startId === targetId) {
+    return [startId];
+  }
+
+  const queue: string[][] = [[startId]];
+  const visited = new Set<string>([startId]);
+
+  while (queue.length > 0) {
+    const path = queue.shift() as string[];
+    const currentId = path[path.length - 1];
+
+    for (const edge of getEdges(graph, currentId)) {
+      if (edge.memberId === targetId) {
+        return [...path, targetId];
+      }
+      if (!visited.has(edge.memberId)) {
+        visited.add(edge.memberId);
+        queue.push([...path, edge.memberId]);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Finds every path between two members that visits no member twice
+ * @param graph - Relationship graph
+ * @param startId - ID of the starting member
+ * @param targetId - ID of the target member
+ * @param maxLength - Longest path to consider, in relationships
+ * @returns Paths of member IDs from start to target, shortest first
+ */
+export function findAllPaths(
+  graph: RelationshipGraph,
+  startId: string,
+  targetId: string,
+  maxLength = 6
+): string[][] {
+  const paths: string[][] = [];
+  if (startId === targetId) {
+    return [[startId]];
+  }
+
+  const walk = (path: string[]): void => {
+    const currentId = path[path.length - 1];
+    if (currentId === targetId) {
+      paths.push(path);
+      return;
+    }
+    if (path.length > maxLength) return;
+
+    // Members can be linked by more than one relationship; follow each neighbour once
+    const neighbourIds = new Set(getEdges(graph, currentId).map(edge => edge.memberId));
+    neighbourIds.forEach(neighbourId => {
+      if (!path.includes(neighbourId)) {
+        walk([...path, neighbourId]);
+      }
+    });
+  };
+
+  walk([startId]);
+  return paths.sort((a, b) => a.length - b.length);
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { findRelationshipPath } from './relationshipPath';
+import { findRelationshipPath, formatRelativeType, getLineageLabel } from './relationshipPath';
+import { FamilyMember, Lineage, Relationship } from '../types/components';
 
 describe('relationshipPath', () => {
   describe('findRelationshipPath', () => {
@@ -135,4 +136,61 @@ describe('relationshipPath', () => {
       expect(result.path).toHaveLength(2); // Shortest path
     });
   });
-});
\ No newline at end of file
+
+  describe('lineage', () => {
+    const member = (id: string, firstName: string, gender: FamilyMember['gender']): FamilyMember => ({
+      id,
+      firstName,
+      lastName: 'Doe',
+      gender,
+      createdBy: 'user-1',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    });
+    const parentOf = (lineage: Lineage): Relationship => ({
+      id: 'r1',
+      fromUserId: '1',
+      toUserId: '2',
+      relationshipType: 'parent',
+      lineage,
+      createdAt: '2024-01-01T00:00:00.000Z',
+    });
+    const members = [member('1', 'Mary', 'female'), member('2', 'Tom', 'male')];
+
+    it('should label step and adoptive relationships from both sides', () => {
+      const relationships = [parentOf('step')];
+
+      expect(findRelationshipPath('1', '2', relationships, members).path[0].relationship).toBe('Step-mother');
+      expect(findRelationshipPath('2', '1', relationships, members).path[0].relationship).toBe('Step-son');
+
+      const adopted = [parentOf('adoptive')];
+      expect(findRelationshipPath('1', '2', adopted, members).path[0].relationship).toBe('Adoptive mother');
+      expect(findRelationshipPath('2', '1', adopted, members).path[0].relationship).toBe('Adopted son');
+    });
+
+    it('should keep plain labels for biological relationships', () => {
+      const relationships = [parentOf('biological')];
+
+      expect(findRelationshipPath('1', '2', relationships, members).path[0].relationship).toBe('Parent');
+    });
+
+    it('should fall back to gender-neutral labels', () => {
+      expect(getLineageLabel('parent', 'foster')).toBe('Foster parent');
+      expect(getLineageLabel('child', 'step', 'other')).toBe('Step-child');
+      expect(getLineageLabel('parent', 'guardian', 'female')).toBe('Guardian');
+      expect(getLineageLabel('child', 'guardian')).toBe('Ward');
+      expect(getLineageLabel('sibling', 'step')).toBeNull();
+      expect(getLineageLabel('child', undefined)).toBeNull();
+    });
+  });
+
+  describe('formatRelativeType', () => {
+    it('should describe the relative at either end of a relationship', () => {
+      const relationship = { fromUserId: '1', toUserId: '2', relationshipType: 'grandparent' as const };
+
+      expect(formatRelativeType(relationship, '1')).toBe('Grandparent');
+      expect(formatRelativeType(relationship, '2')).toBe('Grandchild');
+      expect(formatRelativeType({ ...relationship, specificLabel: 'Nana' }, '1')).toBe('Nana');
+    });
+  });
+});
@@ -3,83 +3,23 @@
  */
 
 import { FamilyMember, Relationship } from '../types/components';
+import { RelationshipGraph, buildRelationshipGraph, findShortestPath, getEdge, getInverseRelationshipType } from './relationshipGraph';
 
-// Internal interfaces for relationship graph
-interface RelationshipEdge {
-  memberId: string;
-  relationshipType: string;
-  specificLabel?: string;
-  direction: 'forward' | 'reverse';
-}
+// Member details a path needs; full members from the API or the tree can be passed
+export type PathMember = Pick<FamilyMember, 'id' | 'firstName' | 'lastName' | 'gender'>;
 
-interface PathStep {
-  member: FamilyMember;
+// Internal interfaces for relationship paths
+interface PathStep<M extends PathMember> {
+  member: M;
   relationship: string;
 }
 
-interface RelationshipPath {
-  path: PathStep[];
+interface RelationshipPath<M extends PathMember> {
+  path: PathStep<M>[];
   description: string;
   connected: boolean;
 }
 
-/**
- * Builds a graph representation of family relationships
- * @param relationships - Array of relationship objects
- * @returns Map of member IDs to their connected members with relationship types
- */
-function buildRelationshipGraph(relationships: Relationship[]): Map<string, RelationshipEdge[]> {
-  const graph = new Map<string, RelationshipEdge[]>();
-
-  relationships.forEach(rel => {
-    // Add forward edge
-    if (!graph.has(rel.fromUserId)) {
-      graph.set(rel.fromUserId, []);
-    }
-    graph.get(rel.fromUserId)!.push({
-      memberId: rel.toUserId,
-      relationshipType: rel.relationshipType,
-      specificLabel: rel.specificLabel,
-      direction: 'forward'
-    });
-
-    // Add reverse edge (relationships are bidirectional)
-    if (!graph.has(rel.toUserId)) {
-      graph.set(rel.toUserId, []);
-    }
-    graph.get(rel.toUserId)!.push({
-      memberId: rel.fromUserId,
-      relationshipType: getInverseRelationship(rel.relationshipType),
-      specificLabel: rel.specificLabel,
-      direction: 'reverse'
-    });
-  });
-
-  return graph;
-}
-
-/**
- * Gets the inverse relationship type
- * @param relationshipType - The original relationship type
- * @returns The inverse relationship type
- */
-function getInverseRelationship(relationshipType: string): string {
-  const inverseMap: Record<string, string> = {
-    'parent': 'child',
-    'child': 'parent',
-    'spouse': 'spouse',
-    'sibling': 'sibling',
-    'grandparent': 'grandchild',
-    'grandchild': 'grandparent',
-    'aunt': 'nephew/niece',
-    'uncle': 'nephew/niece',
-    'cousin': 'cousin',
-    'other': 'other'
-  };
-
-  return inverseMap[relationshipType] || relationshipType;
-}
-
 /**
  * Finds the shortest path between two family members using BFS
  * @param startId - ID of the starting member
@@ -88,12 +28,12 @@ function getInverseRelationship(relationshipType: string): string {
  * @param allMembers - Array of all family member objects
  * @returns Path object with members and relationships, or null if not connected
  */
-export function findRelationshipPath(
+export function findRelationshipPath<M extends PathMember>(
   startId: string, 
   targetId: string, 
   relationships: Relationship[], 
-  allMembers: FamilyMember[]
-): RelationshipPath {
+  allMembers: M[]
+): RelationshipPath<M> {
   if (startId === targetId) {
     return {
       path: [],
@@ -103,30 +43,10 @@ export function findRelationshipPath(
   }
 
   const graph = buildRelationshipGraph(relationships);
-  
-  // BFS to find shortest path
-  const queue: string[][] = [[startId]];
-  const visited = new Set<string>([startId]);
-
-  while (queue.length > 0) {
-    const path = queue.shift()!;
-    const currentId = path[path.length - 1];
-
-    // Get neighbors
-    const neighbors = graph.get(currentId) || [];
-
-    for (const neighbor of neighbors) {
-      if (neighbor.memberId === targetId) {
-        // Found the target! Build the complete path
-        const completePath = [...path, targetId];
-        return buildPathDescription(completePath, graph, allMembers);
-      }
-
-      if (!visited.has(neighbor.memberId)) {
-        visited.add(neighbor.memberId);
-        queue.push([...path, neighbor.memberId]);
-      }
-    }
+  const pathIds = findShortestPath(graph, startId, targetId);
+
+  if (pathIds) {
+    return buildPathDescription(pathIds, graph, allMembers);
   }
 
   // No path found
@@ -144,13 +64,13 @@ export function findRelationshipPath(
  * @param allMembers - Array of all family member objects
  * @returns Path object with description
  */
-function buildPathDescription(
+function buildPathDescription<M extends PathMember>(
   pathIds: string[], 
-  graph: Map<string, RelationshipEdge[]>, 
-  allMembers: FamilyMember[]
-): RelationshipPath {
+  graph: RelationshipGraph, 
+  allMembers: M[]
+): RelationshipPath<M> {
   const memberMap = new Map(allMembers.map(m => [m.id, m]));
-  const pathSteps: PathStep[] = [];
+  const pathSteps: PathStep<M>[] = [];
 
   for (let i = 0; i < pathIds.length - 1; i++) {
     const fromId = pathIds[i];
@@ -159,13 +79,14 @@ function buildPathDescription(
     const toMember = memberMap.get(toId);
 
     // Find the relationship between these two members
-    const neighbors = graph.get(fromId) || [];
-    const relationship = neighbors.find(n => n.memberId === toId);
+    const edge = getEdge(graph, fromId, toId);
 
-    if (fromMember && toMember && relationship) {
+    if (fromMember && toMember && edge) {
+      // Edge types describe the member the edge starts from
+      const lineageLabel = getLineageLabel(edge.relationshipType, edge.relationship.lineage, fromMember.gender);
       pathSteps.push({
         member: toMember,
-        relationship: relationship.specificLabel || formatRelationshipType(relationship.relationshipType)
+        relationship: edge.relationship.specificLabel || lineageLabel || formatRelationshipType(edge.relationshipType)
       });
     }
   }
@@ -187,20 +108,65 @@ function buildPathDescription(
  * @param relationshipType - The relationship type
  * @returns Formatted relationship label
  */
-function formatRelationshipType(relationshipType: string): string {
-  const labelMap: Record<string, string> = {
+export function formatRelationshipType(relationshipType: string): string {
+  const labelMap: Record<Relationship['relationshipType'], string> = {
     'parent': 'Parent',
     'child': 'Child',
     'spouse': 'Spouse',
     'sibling': 'Sibling',
     'grandparent': 'Grandparent',
     'grandchild': 'Grandchild',
-    'aunt': 'Aunt',
-    'uncle': 'Uncle',
+    'aunt-uncle': 'Aunt/Uncle',
+    'niece-nephew': 'Niece/Nephew',
     'cousin': 'Cousin',
-    'nephew/niece': 'Nephew/Niece',
     'other': 'Relative'
   };
 
-  return labelMap[relationshipType] || relationshipType;
-}
\ No newline at end of file
+  return labelMap[relationshipType as Relationship['relationshipType']] || relationshipType;
+}
+
+/**
+ * Formats what a relative is in a relationship, e.g. "Parent" when they are the parent
+ * @param relationship - The relationship
+ * @param relativeId - ID of the relative described, at either end of the relationship
+ * @returns The relationship's own label, or the formatted relationship type
+ */
+export function formatRelativeType(
+  relationship: Pick<Relationship, 'fromUserId' | 'relationshipType' | 'specificLabel'>,
+  relativeId: string
+): string {
+  // Relationship types describe fromUser, so they flip when the relative is toUser
+  const relationshipType = relationship.fromUserId === relativeId
+    ? relationship.relationshipType
+    : getInverseRelationshipType(relationship.relationshipType);
+  return relationship.specificLabel || formatRelationshipType(relationshipType);
+}
+
+// Lineage labels for [parent, child], each as [male, female, unknown gender]
+const LINEAGE_LABELS: Record<string, [string[], string[]]> = {
+  adoptive: [['Adoptive father', 'Adoptive mother', 'Adoptive parent'], ['Adopted son', 'Adopted daughter', 'Adopted child']],
+  step: [['Step-father', 'Step-mother', 'Step-parent'], ['Step-son', 'Step-daughter', 'Step-child']],
+  foster: [['Foster father', 'Foster mother', 'Foster parent'], ['Foster son', 'Foster daughter', 'Foster child']],
+  guardian: [['Guardian', 'Guardian', 'Guardian'], ['Ward', 'Ward', 'Ward']]
+};
+
+/**
+ * Gets the label of a non-biological parent or child, e.g. "Step-mother" or "Adopted son"
+ * @param relationshipType - Relationship type from the labelled member's point of view
+ * @param lineage - Lineage qualifier of the relationship
+ * @param gender - Gender of the labelled member
+ * @returns Lineage label, or null for biological and non parent/child relationships
+ */
+export function getLineageLabel(
+  relationshipType: string,
+  lineage?: Relationship['lineage'],
+  gender?: FamilyMember['gender']
+): string | null {
+  const labels = lineage && LINEAGE_LABELS[lineage];
+  if (!labels || (relationshipType !== 'parent' && relationshipType !== 'child')) {
+    return null;
+  }
+
+  const genderIndex = gender === 'male' ? 0 : gender === 'female' ? 1 : 2;
+  return labels[relationshipType === 'parent' ? 0 : 1][genderIndex];
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { validateRelationship } from './relationshipValidation';
+import { buildRelationshipGraph, getAncestors } from './relationshipGraph';
+import { Relationship } from '../types/components';
+
+const relationship = (
+  fromUserId: string,
+  toUserId: string,
+  relationshipType: Relationship['relationshipType']
+): Relationship => ({
+  id: `${fromUserId}-${relationshipType}-${toUserId}`, fromUserId, toUserId, relationshipType, createdAt: '2024-01-01T00:00:00.000Z'
+});
+
+describe('validateRelationship', () => {
+  // grandma is mum's parent, mum is kid's parent
+  const relationships = [
+    relationship('grandma', 'mum', 'parent'),
+    relationship('kid', 'mum', 'child'),
+  ];
+
+  it('should allow links that keep the tree consistent', () => {
+    expect(validateRelationship({ fromUserId: 'grandma', toUserId: 'kid', relationshipType: 'grandparent' }, relationships)).toBeNull();
+    expect(validateRelationship({ fromUserId: 'dad', toUserId: 'mum', relationshipType: 'spouse' }, relationships)).toBeNull();
+    expect(validateRelationship({ fromUserId: 'kid', toUserId: 'grandma', relationshipType: 'grandchild' }, relationships)).toBeNull();
+  });
+
+  it('should block a member being related to themselves', () => {
+    expect(validateRelationship({ fromUserId: 'mum', toUserId: 'mum', relationshipType: 'sibling' }, relationships))
+      .toBe('A family member cannot be related to themselves');
+  });
+
+  it('should block links that make someone their own ancestor', () => {
+    expect(validateRelationship({ fromUserId: 'kid', toUserId: 'grandma', relationshipType: 'parent' }, relationships))
+      .toBe('This would make someone their own ancestor');
+    expect(validateRelationship({ fromUserId: 'grandma', toUserId: 'kid', relationshipType: 'child' }, relationships))
+      .toBe('This would make someone their own ancestor');
+  });
+
+  it('should block same-generation links between ancestors and descendants', () => {
+    expect(validateRelationship({ fromUserId: 'grandma', toUserId: 'kid', relationshipType: 'spouse' }, relationships))
+      .toBe('A family member cannot be a spouse, sibling or cousin of their own ancestor or descendant');
+  });
+
+  it('should check an edited relationship without its current version', () => {
+    // Flipping mum and grandma is fine once the link being edited no longer says otherwise
+    const edit = { id: 'grandma-parent-mum', fromUserId: 'mum', toUserId: 'grandma', relationshipType: 'parent' };
+    expect(validateRelationship(edit, relationships)).toBeNull();
+    expect(validateRelationship({ ...edit, id: undefined }, relationships)).toBe('This would make someone their own ancestor');
+  });
+
+  it('should never let an allowed parent link put a member among their own ancestors', () => {
+    const ids = ['a', 'b', 'c', 'd', 'e'];
+    const linkArbitrary = fc.tuple(fc.constantFrom(...ids), fc.constantFrom(...ids), fc.constantFrom('parent' as const, 'child' as const));
+
+    fc.assert(
+      fc.property(fc.array(linkArbitrary, { maxLength: 10 }), links => {
+        // Only links the validator allows make it into the tree
+        const tree: Relationship[] = [];
+        links.forEach(([from, to, type]) => {
+          if (validateRelationship({ fromUserId: from, toUserId: to, relationshipType: type }, tree) === null) {
+            tree.push({ ...relationship(from, to, type), id: `rel-${tree.length}` });
+          }
+        });
+
+        const graph = buildRelationshipGraph(tree);
+        ids.forEach(id => {
+          getAncestors(graph, id).forEach((_, ancestorId) => {
+            expect(getAncestors(graph, ancestorId).has(id)).toBe(false);
+          });
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
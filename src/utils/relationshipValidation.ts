@@ -0,0 +1,52 @@
+/**
+ * Relationship validation
+ * Checks a new or edited relationship against the rest of the tree and blocks links that
+ * would make the tree impossible, such as someone becoming their own ancestor
+ */
+
+import { Relationship } from '../types/components';
+import { buildRelationshipGraph, getAncestors, getDescendants } from './relationshipGraph';
+
+// Relationship being added or edited
+export interface RelationshipDraft {
+  // Set when editing; the relationship's current version is left out of the check
+  id?: string;
+  fromUserId: string;
+  toUserId: string;
+  relationshipType: string;
+}
+
+// Types where fromUser is an ancestor of toUser, and where they are a descendant
+const ANCESTOR_TYPES = new Set(['parent', 'grandparent']);
+const DESCENDANT_TYPES = new Set(['child', 'grandchild']);
+
+// Types that place both members in the same generation
+const SAME_GENERATION_TYPES = new Set(['spouse', 'sibling', 'cousin']);
+
+/**
+ * Checks whether a relationship could exist alongside the rest of the tree
+ * @param draft - Relationship being added or edited
+ * @param relationships - Relationships already in the tree
+ * @returns Why the relationship is impossible, or null if it is allowed
+ */
+export function validateRelationship(draft: RelationshipDraft, relationships: Relationship[]): string | null {
+  if (draft.fromUserId === draft.toUserId) {
+    return 'A family member cannot be related to themselves';
+  }
+
+  const graph = buildRelationshipGraph(relationships.filter(relationship => relationship.id !== draft.id));
+  const fromAncestors = getAncestors(graph, draft.fromUserId);
+  const fromDescendants = getDescendants(graph, draft.fromUserId);
+
+  if (ANCESTOR_TYPES.has(draft.relationshipType) && fromAncestors.has(draft.toUserId)) {
+    return 'This would make someone their own ancestor';
+  }
+  if (DESCENDANT_TYPES.has(draft.relationshipType) && fromDescendants.has(draft.toUserId)) {
+    return 'This would make someone their own ancestor';
+  }
+  if (SAME_GENERATION_TYPES.has(draft.relationshipType) && (fromAncestors.has(draft.toUserId) || fromDescendants.has(draft.toUserId))) {
+    return 'A family member cannot be a spouse, sibling or cousin of their own ancestor or descendant';
+  }
+
+  return null;
+}
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import * as fc from 'fast-check';
-import { buildTreeStructure, calculateTreeStatistics, calculateTreeLayout, findRelationshipPath } from './treeLayout';
+import { buildTreeStructure, calculateTreeStatistics, calculateTreeLayout } from './treeLayout';
+import { FamilyMember, Relationship } from '../types/components';
 
 /**
  * **Feature: family-tree, Property 35: Member count accuracy**
@@ -218,4 +219,256 @@ describe('Property 36: Generation count accuracy', () => {
     
     expect(stats.generationCount).toBe(0);
   });
-});
\ No newline at end of file
+});
+
+// Card dimensions used by calculateTreeLayout
+const CARD_WIDTH = 200;
+const CARD_HEIGHT = 120;
+const HORIZONTAL_SPACING = 40;
+
+/**
+ * Generated family: a blood line descending from member p0, where each person may have a
+ * spouse (s<i>) and, optionally, each spouse may have parents of their own (a<i>, b<i>).
+ */
+const familyArbitrary = (withInLaws: boolean) => fc.record({
+  people: fc.array(
+    fc.record({
+      parent: fc.nat(),
+      hasSpouse: fc.boolean(),
+      spouseHasParents: fc.boolean(),
+      childLinkFromChild: fc.boolean()
+    }),
+    { maxLength: 30 }
+  ),
+  rootIndex: fc.nat()
+}).map(({ people, rootIndex }) => {
+  const now = new Date().toISOString();
+  const members: FamilyMember[] = [];
+  const relationships: Relationship[] = [];
+  const bloodParent = new Map<string, string>();
+
+  const addMember = (id: string): void => {
+    members.push({ id, firstName: id, lastName: 'Test', createdBy: 'test', createdAt: now, updatedAt: now });
+  };
+  const addRelationship = (fromUserId: string, toUserId: string, relationshipType: Relationship['relationshipType']): void => {
+    relationships.push({ id: `rel-${relationships.length}`, fromUserId, toUserId, relationshipType, createdAt: now });
+  };
+  const spouseOf = (index: number): string | null =>
+    members.some(m => m.id === `s${index}`) ? `s${index}` : null;
+
+  [{ parent: 0, hasSpouse: false, spouseHasParents: false, childLinkFromChild: false }, ...people].forEach((person, index) => {
+    const id = `p${index}`;
+    addMember(id);
+
+    if (index > 0) {
+      const parentIndex = person.parent % index;
+      bloodParent.set(id, `p${parentIndex}`);
+      addRelationship(`p${parentIndex}`, id, 'parent');
+      const parentSpouse = spouseOf(parentIndex);
+      if (parentSpouse) {
+        // Exercise both directions of the parent/child link
+        if (person.childLinkFromChild) addRelationship(id, parentSpouse, 'child');
+        else addRelationship(parentSpouse, id, 'parent');
+      }
+    }
+
+    if (person.hasSpouse) {
+      addMember(`s${index}`);
+      addRelationship(id, `s${index}`, 'spouse');
+
+      if (withInLaws && person.spouseHasParents) {
+        addMember(`a${index}`);
+        addMember(`b${index}`);
+        addRelationship(`a${index}`, `b${index}`, 'spouse');
+        addRelationship(`a${index}`, `s${index}`, 'parent');
+        addRelationship(`b${index}`, `s${index}`, 'parent');
+      }
+    }
+  });
+
+  const bloodCount = people.length + 1;
+  return { members, relationships, bloodParent, rootMemberId: `p${rootIndex % bloodCount}` };
+});
+
+const layoutFor = (members: FamilyMember[], relationships: Relationship[], rootMemberId: string) =>
+  calculateTreeLayout(buildTreeStructure(members, relationships, rootMemberId));
+
+/**
+ * Tidy tree layout: no two cards overlap
+ */
+describe('Tidy tree layout: no overlap', () => {
+  it('should position every connected member without overlapping cards', () => {
+    fc.assert(
+      fc.property(familyArbitrary(true), ({ members, relationships, rootMemberId }) => {
+        const positions = layoutFor(members, relationships, rootMemberId);
+        expect(positions.size).toBe(members.length);
+
+        const placed = Array.from(positions.values());
+        for (let i = 0; i < placed.length; i++) {
+          for (let j = i + 1; j < placed.length; j++) {
+            const overlaps =
+              Math.abs(placed[i].x - placed[j].x) < CARD_WIDTH &&
+              Math.abs(placed[i].y - placed[j].y) < CARD_HEIGHT;
+            expect(overlaps).toBe(false);
+          }
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+/**
+ * Tidy tree layout: parents are above their children and spouses are adjacent
+ */
+describe('Tidy tree layout: generations and couples', () => {
+  it('should place every parent above their children', () => {
+    fc.assert(
+      fc.property(familyArbitrary(true), ({ members, relationships, rootMemberId }) => {
+        const positions = layoutFor(members, relationships, rootMemberId);
+
+        relationships.forEach(rel => {
+          const from = positions.get(rel.fromUserId) as { x: number; y: number };
+          const to = positions.get(rel.toUserId) as { x: number; y: number };
+          if (rel.relationshipType === 'parent') expect(from.y).toBeLessThan(to.y);
+          if (rel.relationshipType === 'child') expect(to.y).toBeLessThan(from.y);
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should keep spouses side by side', () => {
+    fc.assert(
+      fc.property(familyArbitrary(true), ({ members, relationships, rootMemberId }) => {
+        const positions = layoutFor(members, relationships, rootMemberId);
+
+        relationships
+          .filter(rel => rel.relationshipType === 'spouse')
+          .forEach(rel => {
+            const from = positions.get(rel.fromUserId) as { x: number; y: number };
+            const to = positions.get(rel.toUserId) as { x: number; y: number };
+            expect(from.y).toBe(to.y);
+            expect(Math.abs(from.x - to.x)).toBe(CARD_WIDTH + HORIZONTAL_SPACING);
+          });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should center children under their parent couple', () => {
+    fc.assert(
+      fc.property(familyArbitrary(false), ({ members, relationships, bloodParent, rootMemberId }) => {
+        const positions = layoutFor(members, relationships, rootMemberId);
+
+        // Horizontal extent of a person together with their spouse
+        const extent = (id: string): { left: number; right: number } => {
+          const ids = [id, `s${id.slice(1)}`].filter(memberId => positions.has(memberId));
+          const xs = ids.map(memberId => (positions.get(memberId) as { x: number; y: number }).x);
+          return { left: Math.min(...xs), right: Math.max(...xs) + CARD_WIDTH };
+        };
+
+        members
+          .filter(member => member.id.startsWith('p'))
+          .forEach(member => {
+            const children = Array.from(bloodParent.entries())
+              .filter(([, parentId]) => parentId === member.id)
+              .map(([childId]) => extent(childId));
+            if (children.length === 0) return;
+
+            const couple = extent(member.id);
+            const childrenLeft = Math.min(...children.map(child => child.left));
+            const childrenRight = Math.max(...children.map(child => child.right));
+            expect((couple.left + couple.right) / 2).toBeCloseTo((childrenLeft + childrenRight) / 2);
+          });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should be deterministic and centered on the root member', () => {
+    fc.assert(
+      fc.property(familyArbitrary(true), ({ members, relationships, rootMemberId }) => {
+        const first = layoutFor(members, relationships, rootMemberId);
+        const second = layoutFor(members, relationships, rootMemberId);
+
+        expect(Array.from(second.entries())).toEqual(Array.from(first.entries()));
+        expect(first.get(rootMemberId)).toEqual({ x: -CARD_WIDTH / 2, y: 0 });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should return an empty layout without a root node', () => {
+    expect(calculateTreeLayout(null).size).toBe(0);
+  });
+});
+
+/**
+ * Multiple partnerships: a remarried grandparent keeps both spouses
+ */
+describe('Partnerships', () => {
+  const now = new Date().toISOString();
+  const member = (id: string): FamilyMember => ({ id, firstName: id, lastName: 'Test', createdBy: 'test', createdAt: now, updatedAt: now });
+  const members = ['grandpa', 'first-wife', 'second-wife', 'aunt', 'dad'].map(member);
+  const relationships: Relationship[] = [
+    { id: 'r1', fromUserId: 'grandpa', toUserId: 'second-wife', relationshipType: 'spouse', partnershipStatus: 'married', startDate: '1972', createdAt: now },
+    { id: 'r2', fromUserId: 'first-wife', toUserId: 'grandpa', relationshipType: 'spouse', partnershipStatus: 'widowed', startDate: '1950-04-02', endDate: '1969', createdAt: now },
+    { id: 'r3', fromUserId: 'grandpa', toUserId: 'dad', relationshipType: 'parent', createdAt: now },
+    { id: 'r4', fromUserId: 'first-wife', toUserId: 'dad', relationshipType: 'parent', createdAt: now },
+    { id: 'r5', fromUserId: 'aunt', toUserId: 'grandpa', relationshipType: 'child', createdAt: now },
+    { id: 'r6', fromUserId: 'aunt', toUserId: 'second-wife', relationshipType: 'child', createdAt: now },
+  ];
+
+  it('should keep every spouse relationship as a partnership in chronological order', () => {
+    const root = buildTreeStructure(members, relationships, 'grandpa');
+
+    expect(root?.partnerships.map(p => ({ id: p.partner.member.id, status: p.status }))).toEqual([
+      { id: 'first-wife', status: 'widowed' },
+      { id: 'second-wife', status: 'married' },
+    ]);
+    expect(root?.partnerships[0]).toMatchObject({ relationshipId: 'r2', startDate: '1950-04-02', endDate: '1969' });
+    expect(root?.spouse?.member.id).toBe('second-wife');
+  });
+
+  it('should attach children to the partnership with their other parent', () => {
+    const root = buildTreeStructure(members, relationships, 'grandpa');
+
+    expect(root?.partnerships[0].children.map(c => c.member.id)).toEqual(['dad']);
+    expect(root?.partnerships[1].children.map(c => c.member.id)).toEqual(['aunt']);
+    expect(root?.children.map(c => c.member.id).sort()).toEqual(['aunt', 'dad']);
+  });
+
+  it('should have no current spouse when every partnership has ended', () => {
+    const ended = relationships.filter(rel => rel.id !== 'r1');
+    const root = buildTreeStructure(members, ended, 'grandpa');
+
+    expect(root?.partnerships).toHaveLength(1);
+    expect(root?.spouse).toBeNull();
+  });
+
+  it('should place both spouses next to the remarried member', () => {
+    const positions = calculateTreeLayout(buildTreeStructure(members, relationships, 'grandpa'));
+    const x = (id: string) => (positions.get(id) as { x: number; y: number }).x;
+
+    expect(x('grandpa') - x('first-wife')).toBe(CARD_WIDTH + HORIZONTAL_SPACING);
+    expect(x('second-wife') - x('grandpa')).toBe(CARD_WIDTH + HORIZONTAL_SPACING);
+  });
+});
+
+describe('Lineage', () => {
+  const now = new Date().toISOString();
+  const member = (id: string): FamilyMember => ({ id, firstName: id, lastName: 'Test', createdBy: 'test', createdAt: now, updatedAt: now });
+  const members = ['mum', 'step-dad', 'kid'].map(member);
+
+  it('should record non-biological lineage to each parent from either relationship direction', () => {
+    const relationships: Relationship[] = [
+      { id: 'r1', fromUserId: 'mum', toUserId: 'kid', relationshipType: 'parent', lineage: 'biological', createdAt: now },
+      { id: 'r2', fromUserId: 'kid', toUserId: 'step-dad', relationshipType: 'child', lineage: 'step', createdAt: now },
+    ];
+    const root = buildTreeStructure(members, relationships, 'kid');
+
+    expect(root?.parents.map(p => p.member.id)).toEqual(['mum', 'step-dad']);
+    expect(root?.parentLineage).toEqual({ mum: 'biological', 'step-dad': 'step' });
+  });
+});
@@ -4,6 +4,8 @@
  */
 
 import { FamilyMember, Relationship } from '../types/components';
+import { buildRelationshipGraph } from './relationshipGraph';
+import { compareGenealogicalDates } from './genealogicalDate';
 
 const CARD_WIDTH = 200;
 const CARD_HEIGHT = 120;
@@ -11,11 +13,24 @@ const HORIZONTAL_SPACING = 40;
 const VERTICAL_SPACING = 80;
 
 // Internal interfaces for tree structure
+interface Partnership {
+  partner: TreeNode;
+  relationshipId: string;
+  status?: Relationship['partnershipStatus'];
+  startDate?: string;
+  endDate?: string;
+  children: TreeNode[];
+}
+
 interface TreeNode {
   member: FamilyMember;
   parents: TreeNode[];
   children: TreeNode[];
+  // Current partner; past and present partnerships are all in partnerships
   spouse: TreeNode | null;
+  partnerships: Partnership[];
+  // Lineage to each parent, keyed by parent member ID; biological when absent
+  parentLineage: Record<string, NonNullable<Relationship['lineage']>>;
   siblings: TreeNode[];
   level: number;
   position: { x: number; y: number };
@@ -31,11 +46,20 @@ interface TreeStatistics {
   generationCount: number;
 }
 
-interface RelationshipEdge {
-  memberId: string;
-  type: string;
+// A person and their partners, placed side by side as one block
+interface LayoutUnit {
+  // Person whose partners are in the unit
+  anchor: TreeNode;
+  nodes: TreeNode[];
+  level: number;
+  width: number;
+  children: LayoutUnit[];
+  x: number;
 }
 
+// Horizontal extent of a subtree on each level
+type Contour = Map<number, { left: number; right: number }>;
+
 /**
  * Build a tree structure from family members and relationships
  * @param members - Array of family member objects
@@ -62,49 +86,57 @@ export function buildTreeStructure(
       parents: [],
       children: [],
       spouse: null,
+      partnerships: [],
+      parentLineage: {},
       siblings: [],
       level: 0,
       position: { x: 0, y: 0 }
     });
   });
 
-  // Build relationships
-  relationships.forEach(rel => {
-    const fromNode = nodeMap.get(rel.fromUserId);
-    const toNode = nodeMap.get(rel.toUserId);
-    
-    if (!fromNode || !toNode) return;
-
-    switch (rel.relationshipType) {
-      case 'parent':
-        // fromUser is parent of toUser
-        toNode.parents.push(fromNode);
-        if (!fromNode.children.includes(toNode)) {
-          fromNode.children.push(toNode);
-        }
-        break;
-      case 'child':
-        // fromUser is child of toUser
-        fromNode.parents.push(toNode);
-        if (!toNode.children.includes(fromNode)) {
-          toNode.children.push(fromNode);
-        }
-        break;
-      case 'spouse':
-        // Bidirectional spouse relationship
-        fromNode.spouse = toNode;
-        toNode.spouse = fromNode;
-        break;
-      case 'sibling':
-        // Bidirectional sibling relationship
-        if (!fromNode.siblings.includes(toNode)) {
-          fromNode.siblings.push(toNode);
-        }
-        if (!toNode.siblings.includes(fromNode)) {
-          toNode.siblings.push(fromNode);
-        }
-        break;
-    }
+  // Build relationships; each member's edges describe them relative to the other member
+  buildRelationshipGraph(relationships).forEach((edges, memberId) => {
+    const node = nodeMap.get(memberId);
+    if (!node) return;
+
+    edges.forEach(edge => {
+      const other = nodeMap.get(edge.memberId);
+      if (!other) return;
+
+      switch (edge.relationshipType) {
+        case 'child':
+          // member is child of other; the parent side of the edge is skipped
+          if (!node.parents.includes(other)) {
+            node.parents.push(other);
+          }
+          if (!other.children.includes(node)) {
+            other.children.push(node);
+          }
+          if (edge.relationship.lineage) {
+            node.parentLineage[other.member.id] = edge.relationship.lineage;
+          }
+          break;
+        case 'spouse':
+          // Every spouse relationship is a separate partnership
+          addPartnership(node, other, edge.relationship);
+          break;
+        case 'sibling':
+          if (!node.siblings.includes(other)) {
+            node.siblings.push(other);
+          }
+          break;
+      }
+    });
+  });
+
+  nodeMap.forEach(node => {
+    node.partnerships.sort(comparePartnerships);
+    node.children.sort(compareChildren);
+    // Children belong to the partnership with their other parent
+    node.partnerships.forEach(partnership => {
+      partnership.children = node.children.filter(child => child.parents.includes(partnership.partner));
+    });
+    node.spouse = findCurrentPartnership(node.partnerships)?.partner || null;
   });
 
   const rootNode = nodeMap.get(rootMemberId);
@@ -118,6 +150,52 @@ export function buildTreeStructure(
   return rootNode;
 }
 
+/**
+ * Record a partnership from one node to another, ignoring duplicate spouse relationships
+ * @param node - Tree node
+ * @param partner - Partner tree node
+ * @param relationship - Spouse relationship
+ */
+function addPartnership(node: TreeNode, partner: TreeNode, relationship: Relationship): void {
+  if (node === partner || node.partnerships.some(p => p.partner === partner)) {
+    return;
+  }
+
+  node.partnerships.push({
+    partner,
+    relationshipId: relationship.id,
+    status: relationship.partnershipStatus,
+    startDate: relationship.startDate,
+    endDate: relationship.endDate,
+    children: []
+  });
+}
+
+/**
+ * Order partnerships chronologically; partnerships without a start date keep their order at the end
+ */
+function comparePartnerships(a: Partnership, b: Partnership): number {
+  return compareGenealogicalDates(a.startDate, b.startDate);
+}
+
+/**
+ * Order children eldest first; children without a date of birth keep their order at the end
+ */
+function compareChildren(a: TreeNode, b: TreeNode): number {
+  return compareGenealogicalDates(a.member.dateOfBirth, b.member.dateOfBirth);
+}
+
+/**
+ * Find the partnership that is still ongoing (not divorced, widowed or otherwise ended)
+ * @param partnerships - Partnerships in chronological order
+ * @returns Most recent ongoing partnership, or undefined
+ */
+function findCurrentPartnership(partnerships: Partnership[]): Partnership | undefined {
+  return [...partnerships]
+    .reverse()
+    .find(p => p.status !== 'divorced' && p.status !== 'widowed' && !p.endDate);
+}
+
 /**
  * Calculate generation levels for each node
  * @param node - Tree node
@@ -142,42 +220,64 @@ function calculateLevels(node: TreeNode, level: number, visited: Set<string>): v
     calculateLevels(child, level + 1, visited);
   });
 
-  // Spouse is at the same level
-  if (node.spouse) {
-    calculateLevels(node.spouse, level, visited);
-  }
+  // Partners are at the same level
+  node.partnerships.forEach(partnership => {
+    calculateLevels(partnership.partner, level, visited);
+  });
 }
 
 /**
  * Calculate positions for all nodes in the tree
+ *
+ * Tidy tree layout (Reingold-Tilford, adapted for couples):
+ * - a person and their partners form one layout unit and are placed side by side
+ *   (earlier partners on the left, the most recent partner on the right)
+ * - each unit's children are laid out as subtrees and packed left to right as tightly
+ *   as their contours allow, then the unit is centered over its children
+ * - a unit whose partners both have parents in the tree hangs under the anchor's
+ *   parents; the other partners' parents start separate subtrees
+ * - every node's y is fixed by its generation, so parents are always above children
+ * Units and children are visited in discovery order, so the layout is deterministic.
  * @param rootNode - Root tree node
- * @returns Map of member ID to position {x, y}
+ * @returns Map of member ID to position {x, y} (top-left corner of the card)
  */
 export function calculateTreeLayout(rootNode: TreeNode | null): Map<string, Position> {
   if (!rootNode) {
     return new Map();
   }
 
-  const positions = new Map<string, Position>();
-  const levelNodes = new Map<number, TreeNode[]>(); // level -> array of nodes
+  const nodes: TreeNode[] = [];
+  collectNodes(rootNode, nodes, new Set<string>());
 
-  // Collect nodes by level
-  collectNodesByLevel(rootNode, levelNodes, new Set<string>());
+  const units = buildLayoutUnits(nodes);
+  const roots = assignLayoutChildren(units);
 
-  // Calculate positions level by level
-  const levels = Array.from(levelNodes.keys()).sort((a, b) => a - b);
-  
-  levels.forEach(level => {
-    const nodes = levelNodes.get(level)!;
-    const levelWidth = nodes.length * (CARD_WIDTH + HORIZONTAL_SPACING) - HORIZONTAL_SPACING;
-    const startX = -levelWidth / 2;
-
-    nodes.forEach((node, index) => {
-      const x = startX + index * (CARD_WIDTH + HORIZONTAL_SPACING);
-      const y = level * (CARD_HEIGHT + VERTICAL_SPACING);
-      
+  // Pack every root subtree side by side, like the children of one invisible parent
+  let forestContour: Contour = new Map();
+  roots.forEach((unit, index) => {
+    const contour = layoutSubtree(unit);
+    const offset = index === 0 ? 0 : separation(forestContour, contour);
+    shiftUnit(unit, offset);
+    forestContour = mergeContours(forestContour, contour, offset);
+  });
+
+  const positions = new Map<string, Position>();
+  units.forEach(unit => {
+    unit.nodes.forEach((node, index) => {
+      const x = unit.x + index * (CARD_WIDTH + HORIZONTAL_SPACING);
+      const y = unit.level * (CARD_HEIGHT + VERTICAL_SPACING);
       positions.set(node.member.id, { x, y });
-      node.position = { x, y };
+    });
+  });
+
+  // Center the layout horizontally on the root member
+  const rootPosition = positions.get(rootNode.member.id) as Position;
+  const dx = -CARD_WIDTH / 2 - rootPosition.x;
+  units.forEach(unit => {
+    unit.nodes.forEach(node => {
+      const position = positions.get(node.member.id) as Position;
+      position.x += dx;
+      node.position = { ...position };
     });
   });
 
@@ -185,33 +285,203 @@ export function calculateTreeLayout(rootNode: TreeNode | null): Map<string, Posi
 }
 
 /**
- * Collect all nodes organized by level
+ * Collect all connected nodes in discovery order
  * @param node - Tree node
- * @param levelNodes - Map of level to nodes
+ * @param nodes - Collected nodes
  * @param visited - Set of visited node IDs
  */
-function collectNodesByLevel(
-  node: TreeNode, 
-  levelNodes: Map<number, TreeNode[]>, 
-  visited: Set<string>
-): void {
+function collectNodes(node: TreeNode, nodes: TreeNode[], visited: Set<string>): void {
   if (!node || visited.has(node.member.id)) {
     return;
   }
 
   visited.add(node.member.id);
+  nodes.push(node);
 
-  if (!levelNodes.has(node.level)) {
-    levelNodes.set(node.level, []);
+  // Traverse all connected nodes
+  node.parents.forEach(parent => collectNodes(parent, nodes, visited));
+  node.children.forEach(child => collectNodes(child, nodes, visited));
+  node.partnerships.forEach(partnership => collectNodes(partnership.partner, nodes, visited));
+}
+
+/**
+ * Group nodes into layout units: a person together with their partners, or a single person
+ * @param nodes - Nodes in discovery order
+ * @returns Layout units in discovery order
+ */
+function buildLayoutUnits(nodes: TreeNode[]): LayoutUnit[] {
+  const units: LayoutUnit[] = [];
+  const assigned = new Set<string>();
+
+  nodes.forEach(node => {
+    if (assigned.has(node.member.id)) return;
+
+    const partners = node.partnerships
+      .map(partnership => partnership.partner)
+      .filter(partner => partner.level === node.level && !assigned.has(partner.member.id));
+    const unitNodes = partners.length === 0
+      ? [node]
+      : [...partners.slice(0, -1), node, partners[partners.length - 1]];
+
+    unitNodes.forEach(unitNode => assigned.add(unitNode.member.id));
+    units.push({
+      anchor: node,
+      nodes: unitNodes,
+      level: node.level,
+      width: unitNodes.length * CARD_WIDTH + (unitNodes.length - 1) * HORIZONTAL_SPACING,
+      children: [],
+      x: 0,
+    });
+  });
+
+  return units;
+}
+
+/**
+ * Give every unit at most one layout parent, turning the family graph into a forest
+ * @param units - Layout units in discovery order
+ * @returns Units without a layout parent, in discovery order
+ */
+function assignLayoutChildren(units: LayoutUnit[]): LayoutUnit[] {
+  const unitByMemberId = new Map<string, LayoutUnit>();
+  units.forEach(unit => unit.nodes.forEach(node => unitByMemberId.set(node.member.id, unit)));
+
+  const roots: LayoutUnit[] = [];
+  units.forEach(unit => {
+    // Prefer the anchor's parents; only parents one generation up count
+    const parentUnit = [unit.anchor, ...unit.nodes.filter(node => node !== unit.anchor)]
+      .flatMap(node => node.parents)
+      .filter(parent => parent.level === unit.level - 1)
+      .map(parent => unitByMemberId.get(parent.member.id))
+      .find((candidate): candidate is LayoutUnit => !!candidate);
+
+    if (parentUnit) {
+      parentUnit.children.push(unit);
+    } else {
+      roots.push(unit);
+    }
+  });
+
+  return roots;
+}
+
+/**
+ * Lay out a unit and its descendants relative to the unit's own x
+ * @param unit - Layout unit
+ * @returns Contour of the subtree, relative to the unit's x
+ */
+function layoutSubtree(unit: LayoutUnit): Contour {
+  unit.x = 0;
+  if (unit.children.length === 0) {
+    return new Map([[unit.level, { left: 0, right: unit.width }]]);
   }
-  levelNodes.get(node.level)!.push(node);
 
-  // Traverse all connected nodes
-  node.parents.forEach(parent => collectNodesByLevel(parent, levelNodes, visited));
-  node.children.forEach(child => collectNodesByLevel(child, levelNodes, visited));
-  if (node.spouse) {
-    collectNodesByLevel(node.spouse, levelNodes, visited);
+  // Pack the children left to right as tightly as their contours allow
+  let childrenContour: Contour = new Map();
+  unit.children.forEach((child, index) => {
+    const contour = layoutSubtree(child);
+    const offset = index === 0 ? 0 : separation(childrenContour, contour);
+    shiftUnit(child, offset);
+    childrenContour = mergeContours(childrenContour, contour, offset);
+  });
+
+  // Center the unit over its first and last child, then make the unit the origin
+  const first = unit.children[0];
+  const last = unit.children[unit.children.length - 1];
+  const center = (first.x + last.x + last.width) / 2;
+  const unitX = center - unit.width / 2;
+  unit.children.forEach(child => shiftUnit(child, -unitX));
+
+  // Descendants are all on lower levels, so the unit's own row is just the unit
+  const contour = mergeContours(new Map(), childrenContour, -unitX);
+  contour.set(unit.level, { left: 0, right: unit.width });
+  return contour;
+}
+
+/**
+ * Minimum offset that places the right contour clear of the left contour on every shared level
+ * @param leftContour - Contour of what has already been placed
+ * @param rightContour - Contour of the subtree being placed, relative to offset 0
+ * @returns Offset for the right subtree
+ */
+function separation(leftContour: Contour, rightContour: Contour): number {
+  let offset = -Infinity;
+  rightContour.forEach((extent, level) => {
+    const placed = leftContour.get(level);
+    if (placed) {
+      offset = Math.max(offset, placed.right + HORIZONTAL_SPACING - extent.left);
+    }
+  });
+
+  if (offset === -Infinity) {
+    // No shared levels: place it right after everything that is already placed
+    const placedRight = Math.max(...Array.from(leftContour.values()).map(extent => extent.right));
+    const subtreeLeft = Math.min(...Array.from(rightContour.values()).map(extent => extent.left));
+    offset = placedRight + HORIZONTAL_SPACING - subtreeLeft;
   }
+  return offset;
+}
+
+/**
+ * Merge a shifted contour into another
+ * @param base - Contour to merge into
+ * @param added - Contour to add
+ * @param offset - Horizontal offset applied to the added contour
+ * @returns Merged contour
+ */
+function mergeContours(base: Contour, added: Contour, offset: number): Contour {
+  const merged: Contour = new Map(base);
+  added.forEach((extent, level) => {
+    const existing = merged.get(level);
+    merged.set(level, {
+      left: Math.min(extent.left + offset, existing ? existing.left : Infinity),
+      right: Math.max(extent.right + offset, existing ? existing.right : -Infinity),
+    });
+  });
+  return merged;
+}
+
+/**
+ * Move a unit and all of its descendants horizontally
+ * @param unit - Layout unit
+ * @param dx - Horizontal distance
+ */
+function shiftUnit(unit: LayoutUnit, dx: number): void {
+  unit.x += dx;
+  unit.children.forEach(child => shiftUnit(child, dx));
+}
+
+/**
+ * Arrange a node's partnerships for rendering: earlier partners to the left of the member,
+ * the most recent partner to the right, and children grouped under the partnership they
+ * belong to. Children with no partner in the tree are grouped under the member.
+ * @param children - All children of the node
+ * @param partnerships - Partnerships of the node in chronological order
+ * @returns Partnerships on each side and child groups in left-to-right order
+ */
+export function arrangePartnerships<N extends { member: { id: string } }, P extends { partner: N; children?: N[] }>(
+  children: N[],
+  partnerships: P[]
+): {
+  leftPartnerships: P[];
+  rightPartnership: P | null;
+  childGroups: { partnership: P | null; children: N[] }[];
+} {
+  const leftPartnerships = partnerships.slice(0, -1);
+  const rightPartnership = partnerships.length > 0 ? partnerships[partnerships.length - 1] : null;
+
+  const grouped = new Set(partnerships.flatMap(p => (p.children || []).map(child => child.member.id)));
+  const groups = [
+    ...leftPartnerships.map(partnership => ({ partnership, children: partnership.children || [] })),
+    { partnership: null, children: children.filter(child => !grouped.has(child.member.id)) },
+    ...(rightPartnership ? [{ partnership: rightPartnership, children: rightPartnership.children || [] }] : []),
+  ];
+
+  return {
+    leftPartnerships,
+    rightPartnership,
+    childGroups: groups.filter(group => group.children.length > 0),
+  };
 }
 
 /**
@@ -255,96 +525,5 @@ function collectLevels(node: TreeNode, levels: Set<number>, visited: Set<string>
 
   node.parents.forEach(parent => collectLevels(parent, levels, visited));
   node.children.forEach(child => collectLevels(child, levels, visited));
-  if (node.spouse) {
-    collectLevels(node.spouse, levels, visited);
-  }
-}
-
-/**
- * Find a path between two members in the tree
- * @param startMemberId - Starting member ID
- * @param endMemberId - Target member ID
- * @param relationships - Array of relationship objects
- * @param members - Array of family member objects
- * @returns Array of member IDs representing the path, or null if no path exists
- */
-export function findRelationshipPath(
-  startMemberId: string, 
-  endMemberId: string, 
-  relationships: Relationship[], 
-  members: FamilyMember[]
-): string[] | null {
-  if (startMemberId === endMemberId) {
-    return [startMemberId];
-  }
-
-  const memberMap = new Map(members.map(m => [m.id, m]));
-  const adjacencyList = new Map<string, RelationshipEdge[]>();
-
-  // Build adjacency list from relationships
-  members.forEach(member => {
-    adjacencyList.set(member.id, []);
-  });
-
-  relationships.forEach(rel => {
-    if (!adjacencyList.has(rel.fromUserId)) {
-      adjacencyList.set(rel.fromUserId, []);
-    }
-    if (!adjacencyList.has(rel.toUserId)) {
-      adjacencyList.set(rel.toUserId, []);
-    }
-
-    // Add bidirectional edges
-    adjacencyList.get(rel.fromUserId)!.push({
-      memberId: rel.toUserId,
-      type: rel.relationshipType
-    });
-    
-    // Add reverse relationship
-    const reverseType = getReverseRelationshipType(rel.relationshipType);
-    adjacencyList.get(rel.toUserId)!.push({
-      memberId: rel.fromUserId,
-      type: reverseType
-    });
-  });
-
-  // Breadth-first search to find shortest path
-  const queue: string[][] = [[startMemberId]];
-  const visited = new Set<string>([startMemberId]);
-
-  while (queue.length > 0) {
-    const path = queue.shift()!;
-    const currentId = path[path.length - 1];
-
-    if (currentId === endMemberId) {
-      return path;
-    }
-
-    const neighbors = adjacencyList.get(currentId) || [];
-    for (const neighbor of neighbors) {
-      if (!visited.has(neighbor.memberId)) {
-        visited.add(neighbor.memberId);
-        queue.push([...path, neighbor.memberId]);
-      }
-    }
-  }
-
-  return null; // No path found
+  node.partnerships.forEach(partnership => collectLevels(partnership.partner, levels, visited));
 }
-
-/**
- * Get the reverse relationship type
- * @param type - Relationship type
- * @returns Reverse relationship type
- */
-function getReverseRelationshipType(type: string): string {
-  const reverseMap: Record<string, string> = {
-    'parent': 'child',
-    'child': 'parent',
-    'spouse': 'spouse',
-    'sibling': 'sibling',
-    'grandparent': 'grandchild',
-    'grandchild': 'grandparent'
-  };
-  return reverseMap[type] || type;
-}
\ No newline at end of file
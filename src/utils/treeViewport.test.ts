@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { centreBounds, fitBoundsToViewport, toContentBounds } from './treeViewport';
+
+describe('treeViewport', () => {
+  const canvasRect = { left: 0, top: 0, right: 800, bottom: 600 };
+
+  describe('toContentBounds', () => {
+    it('should measure bounds from the centre of the content', () => {
+      const bounds = toContentBounds(
+        [{ left: 300, top: 200, right: 400, bottom: 280 }, { left: 500, top: 350, right: 600, bottom: 430 }],
+        canvasRect,
+        { zoomLevel: 100, panOffset: { x: 0, y: 0 } }
+      );
+
+      expect(bounds).toEqual({ left: -100, top: -100, right: 200, bottom: 130 });
+    });
+
+    it('should undo the current pan offset and zoom', () => {
+      const bounds = toContentBounds(
+        [{ left: 450, top: 300, right: 550, bottom: 340 }],
+        canvasRect,
+        { zoomLevel: 50, panOffset: { x: 50, y: 0 } }
+      );
+
+      expect(bounds).toEqual({ left: 0, top: 0, right: 200, bottom: 80 });
+    });
+
+    it('should return null without rectangles', () => {
+      expect(toContentBounds([], canvasRect, { zoomLevel: 100, panOffset: { x: 0, y: 0 } })).toBeNull();
+    });
+  });
+
+  describe('fitBoundsToViewport', () => {
+    it('should zoom out until the bounds fit inside the padding', () => {
+      const viewport = fitBoundsToViewport({ left: -800, top: -100, right: 800, bottom: 100 }, 800, 600, 0);
+
+      expect(viewport.zoomLevel).toBe(50);
+      expect(viewport.panOffset.x).toBeCloseTo(0);
+      expect(viewport.panOffset.y).toBeCloseTo(0);
+    });
+
+    it('should not zoom in past the natural size', () => {
+      expect(fitBoundsToViewport({ left: 0, top: 0, right: 10, bottom: 10 }, 800, 600).zoomLevel).toBe(100);
+    });
+
+    it('should bring fitted bounds inside the canvas', () => {
+      const coordinate = fc.integer({ min: -5000, max: 5000 });
+      const size = fc.integer({ min: 1, max: 4000 });
+
+      fc.assert(
+        fc.property(coordinate, coordinate, size, size, (left, top, width, height) => {
+          const bounds = { left, top, right: left + width, bottom: top + height };
+          const viewport = fitBoundsToViewport(bounds, 800, 600);
+          const scale = viewport.zoomLevel / 100;
+
+          // Screen position of the bounds relative to the centre of the canvas
+          const screenLeft = bounds.left * scale + viewport.panOffset.x;
+          const screenRight = bounds.right * scale + viewport.panOffset.x;
+          expect(screenLeft + screenRight).toBeCloseTo(0);
+          expect(viewport.zoomLevel).toBeGreaterThanOrEqual(10);
+          if (viewport.zoomLevel > 10) {
+            expect(screenRight - screenLeft).toBeLessThanOrEqual(800);
+            expect((bounds.bottom - bounds.top) * scale).toBeLessThanOrEqual(600);
+          }
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('centreBounds', () => {
+    it('should keep the zoom level and centre the bounds', () => {
+      expect(centreBounds({ left: 100, top: 50, right: 300, bottom: 150 }, 50)).toEqual({
+        zoomLevel: 50,
+        panOffset: { x: -100, y: -50 }
+      });
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Tree viewport utilities
+ * Work out the zoom level and pan offset that bring part of the tree canvas into view
+ */
+
+// Area of the tree content, in unscaled pixels from the centre of the content
+export interface ContentBounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export interface TreeViewport {
+  zoomLevel: number;
+  panOffset: { x: number; y: number };
+}
+
+interface ScreenRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// Zoom limits of the tree canvas; fitting never zooms in past the natural size
+const MIN_ZOOM = 10;
+const MAX_FIT_ZOOM = 100;
+
+/**
+ * Converts on-screen rectangles of tree content into content bounds
+ * The content is centred in the canvas, translated by the pan offset and scaled about its centre
+ * @param rects - Screen rectangles of elements inside the tree content
+ * @param canvasRect - Screen rectangle of the tree canvas
+ * @param viewport - Current zoom level and pan offset
+ * @returns Bounds enclosing every rectangle, or null if there are none
+ */
+export function toContentBounds(rects: ScreenRect[], canvasRect: ScreenRect, viewport: TreeViewport): ContentBounds | null {
+  if (rects.length === 0) {
+    return null;
+  }
+
+  const scale = viewport.zoomLevel / 100;
+  const centreX = (canvasRect.left + canvasRect.right) / 2 + viewport.panOffset.x;
+  const centreY = (canvasRect.top + canvasRect.bottom) / 2 + viewport.panOffset.y;
+
+  return {
+    left: (Math.min(...rects.map(rect => rect.left)) - centreX) / scale,
+    top: (Math.min(...rects.map(rect => rect.top)) - centreY) / scale,
+    right: (Math.max(...rects.map(rect => rect.right)) - centreX) / scale,
+    bottom: (Math.max(...rects.map(rect => rect.bottom)) - centreY) / scale
+  };
+}
+
+/**
+ * Calculates the viewport that fits content bounds inside the canvas
+ * @param bounds - Content bounds to fit
+ * @param canvasWidth - Width of the tree canvas
+ * @param canvasHeight - Height of the tree canvas
+ * @param padding - Space to leave around the bounds on every side
+ * @returns Zoom level and pan offset centring the bounds in the canvas
+ */
+export function fitBoundsToViewport(
+  bounds: ContentBounds,
+  canvasWidth: number,
+  canvasHeight: number,
+  padding = 48
+): TreeViewport {
+  const width = Math.max(bounds.right - bounds.left, 1);
+  const height = Math.max(bounds.bottom - bounds.top, 1);
+  const fitScale = Math.min(
+    (canvasWidth - padding * 2) / width,
+    (canvasHeight - padding * 2) / height
+  );
+  const zoomLevel = Math.max(MIN_ZOOM, Math.min(MAX_FIT_ZOOM, Math.floor(fitScale * 100)));
+
+  return centreBounds(bounds, zoomLevel);
+}
+
+/**
+ * Calculates the pan offset that centres content bounds at a zoom level
+ * @param bounds - Content bounds to centre
+ * @param zoomLevel - Zoom level to keep
+ * @returns Zoom level and pan offset centring the bounds in the canvas
+ */
+export function centreBounds(bounds: ContentBounds, zoomLevel: number): TreeViewport {
+  const scale = zoomLevel / 100;
+
+  return {
+    zoomLevel,
+    panOffset: {
+      x: -((bounds.left + bounds.right) / 2) * scale,
+      y: -((bounds.top + bounds.bottom) / 2) * scale
+    }
+  };
+}
@@ -34,12 +34,14 @@ describe('Utility and Service Typing Property Tests', () => {
             const content = fs.readFileSync(relationshipPathFile, 'utf-8');
             
             // Verify function has proper TypeScript signature
-            expect(content).toContain('export function findRelationshipPath(');
-            expect(content).toMatch(/findRelationshipPath\s*\(\s*startId:\s*string/);
+            // Generic over the members, so API and tree members keep their own type in the path
+            expect(content).toContain('export function findRelationshipPath<M extends PathMember>(');
+            expect(content).toMatch(/export type PathMember = Pick<FamilyMember,/);
+            expect(content).toMatch(/findRelationshipPath<M extends PathMember>\s*\(\s*startId:\s*string/);
             expect(content).toMatch(/targetId:\s*string/);
             expect(content).toMatch(/relationships:\s*Relationship\[\]/);
-            expect(content).toMatch(/allMembers:\s*FamilyMember\[\]/);
-            expect(content).toMatch(/\):\s*RelationshipPath/);
+            expect(content).toMatch(/allMembers:\s*M\[\]/);
+            expect(content).toMatch(/\):\s*RelationshipPath<M>/);
             
             // Verify imports from types
             expect(content).toContain("import { FamilyMember, Relationship } from '../types/components'");
@@ -102,8 +104,11 @@ describe('Utility and Service Typing Property Tests', () => {
           const content = fs.readFileSync(serviceFile, 'utf-8');
           
           // Verify service has proper TypeScript imports
-          if (serviceName !== 'ValidationService') {
+          // AuthService talks to axios directly; the other API services go through the shared API client
+          if (serviceName === 'AuthService') {
             expect(content).toContain("import axios from 'axios'");
+          } else if (serviceName !== 'ValidationService') {
+            expect(content).toMatch(/import apiClient(, \{[^}]*\})? from '\.\/apiClient'/);
           }
           
           // Check specific service typing requirements
@@ -128,8 +133,8 @@ describe('Utility and Service Typing Property Tests', () => {
               expect(content).toContain("FamilyMember, Relationship");
               expect(content).toMatch(/async addFamilyMember\s*\([^)]*memberData:\s*AddFamilyMemberRequest/);
               expect(content).toMatch(/\):\s*Promise<FamilyMember>/);
-              expect(content).toMatch(/async getFamilyMembers\s*\(\s*\):\s*Promise<FamilyMember\[\]>/);
-              expect(content).toMatch(/async getRelationships\s*\(\s*\):\s*Promise<Relationship\[\]>/);
+              expect(content).toMatch(/async getFamilyMembers\s*\(\s*(signal\?:\s*AbortSignal)?\s*\):\s*Promise<FamilyMember\[\]>/);
+              expect(content).toMatch(/async getRelationships\s*\(\s*(signal\?:\s*AbortSignal)?\s*\):\s*Promise<Relationship\[\]>/);
               break;
               
             case 'InviteService':
@@ -210,6 +215,7 @@ describe('Utility and Service Typing Property Tests', () => {
           'src/utils/relationshipPath.ts',
           'src/utils/treeLayout.ts',
           'src/services/AuthService.ts',
+          'src/services/apiClient.ts',
           'src/services/FamilyService.ts',
           'src/services/InviteService.ts',
           'src/services/MemoryService.ts',
@@ -238,8 +244,10 @@ describe('Utility and Service Typing Property Tests', () => {
           }
           
           // Verify axios imports for API services
-          if (filePath.includes('services/') && !filePath.includes('ValidationService')) {
-            expect(content).toContain("import axios from 'axios'");
+          if (filePath.includes('AuthService') || filePath.includes('apiClient')) {
+            expect(content).toContain("import axios");
+          } else if (filePath.includes('services/') && !filePath.includes('ValidationService')) {
+            expect(content).toMatch(/import apiClient(, \{[^}]*\})? from '\.\/apiClient'/);
           }
           
           // Verify type imports are properly structured
@@ -283,23 +291,25 @@ describe('Utility and Service Typing Property Tests', () => {
             // Verify proper error handling with types
             expect(content).toMatch(/catch\s*\(\s*error:\s*any\s*\)/);
             
-            // Verify error response handling
-            expect(content).toContain('error.response?.status');
+            // Verify error responses are mapped by the shared API client
+            expect(content).toMatch(/throw toApiError\s*\(\s*error,/);
+            expect(content).toContain('retryWithBackoff');
             
-            // Verify proper error throwing with typed messages
-            expect(content).toMatch(/throw new Error\s*\(/);
+            const apiClient = fs.readFileSync(path.resolve('src/services/apiClient.ts'), 'utf-8');
             
-            // Services with validation should have ValidationError interface
-            if (['FamilyService', 'MemoryService'].includes(serviceName)) {
-              expect(content).toContain('ValidationError');
-              expect(content).toContain('isValidationError: boolean');
-            }
+            // Verify error response handling
+            expect(apiClient).toContain('error.response');
+            
+            // Validation errors are typed ApiErrors
+            expect(apiClient).toContain('class ApiError extends Error');
+            expect(apiClient).toContain('isValidationError: boolean');
             
-            // Services with retry logic should have proper typing
-            expect(content).toMatch(/retryWithBackoff\s*=\s*async\s*<T>\s*\(/);
-            expect(content).toMatch(/fn:\s*\(\)\s*=>\s*Promise<T>/);
-            expect(content).toMatch(/maxRetries:\s*number\s*=\s*3/);
-            expect(content).toMatch(/\):\s*Promise<T>/);
+            // Retry logic should have proper typing
+            expect(apiClient).toMatch(/retryWithBackoff\s*=\s*async\s*<T>\s*\(/);
+            expect(apiClient).toMatch(/fn:\s*\(\)\s*=>\s*Promise<T>/);
+            // The number type is inferred from the default
+            expect(apiClient).toMatch(/maxRetries\s*=\s*3/);
+            expect(apiClient).toMatch(/\):\s*Promise<T>/);
           } else {
             // For simpler services like AuthService and UserService, just verify they have proper TypeScript typing
             expect(content).toMatch(/async\s+\w+\s*\([^)]*\):\s*Promise</);
@@ -328,6 +338,7 @@ describe('Utility and Service Typing Property Tests', () => {
           // Check that services use proper generic typing with axios
           const serviceFiles = [
             'src/services/AuthService.ts',
+            'src/services/apiClient.ts',
             'src/services/FamilyService.ts',
             'src/services/InviteService.ts',
             'src/services/MemoryService.ts',
@@ -341,7 +352,7 @@ describe('Utility and Service Typing Property Tests', () => {
               const content = fs.readFileSync(path.resolve(serviceFile), 'utf-8');
               
               if (genericFunction === 'retryWithBackoff') {
-                if (content.includes('retryWithBackoff')) {
+                if (content.includes('const retryWithBackoff')) {
                   expect(content).toMatch(/retryWithBackoff\s*=\s*async\s*<T>/);
                   expect(content).toMatch(/Promise<T>/);
                   foundGenericUsage = true;